@@ -23,6 +23,8 @@ import Settings from "./pages/Settings";
 import Microsites from "./pages/Microsites";
 import FeedbackFormPage from "./pages/FeedbackForm";
 import Resolution from "./pages/Resolution";
+import QuoteAcceptance from "./pages/QuoteAcceptance";
+import PaymentPage from "./pages/PaymentPage";
 import GalleryGenerator from "./components/GalleryGenerator";
 import NotFound from "./pages/NotFound";
 
@@ -34,10 +36,12 @@ const AppContent = () => {
   const isAuthPage = location.pathname === "/auth";
   const isFeedbackPage = location.pathname.startsWith("/feedback/");
   const isResolutionPage = location.pathname.startsWith("/resolution/");
+  const isQuotePage = location.pathname.startsWith("/quote/");
+  const isPayPage = location.pathname.startsWith("/pay/");
 
   return (
     <>
-      {!isHomePage && !isAuthPage && !isFeedbackPage && !isResolutionPage && (
+      {!isHomePage && !isAuthPage && !isFeedbackPage && !isResolutionPage && !isQuotePage && !isPayPage && (
         <ProtectedRoute>
           <Navigation />
         </ProtectedRoute>
@@ -96,6 +100,8 @@ const AppContent = () => {
         } />
         <Route path="/feedback/:token" element={<FeedbackFormPage />} />
         <Route path="/resolution/:token" element={<Resolution />} />
+        <Route path="/quote/:token" element={<QuoteAcceptance />} />
+        <Route path="/pay/:token" element={<PaymentPage />} />
         <Route path="/portfolio" element={<ProtectedRoute><GalleryGenerator /></ProtectedRoute>} />
         {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
         <Route path="*" element={<NotFound />} />
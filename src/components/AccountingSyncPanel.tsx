@@ -0,0 +1,418 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertTriangle, ArrowDownToLine, CheckCircle, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { integrationManager } from '@/lib/integrations/IntegrationManager';
+
+type Provider = 'xero' | 'quickbooks';
+type ConflictPolicy = 'accounting_wins' | 'construyo_wins' | 'manual';
+
+interface SyncSettings {
+  id?: string;
+  provider: Provider;
+  conflict_policy: ConflictPolicy;
+  pull_enabled: boolean;
+  sync_contacts: boolean;
+  last_pulled_at?: string | null;
+  last_run_at?: string | null;
+  last_run_status?: string | null;
+  last_run_stats?: Record<string, number>;
+  last_error?: string | null;
+}
+
+interface DriftChange {
+  key: string;
+  field: string;
+  label: string;
+  local: unknown;
+  remote: unknown;
+  applicable: boolean;
+  requires_decision?: boolean;
+}
+
+interface EntityMapping {
+  id: string;
+  provider: Provider;
+  entity_type: string;
+  local_id: string;
+  external_id: string;
+  external_number: string | null;
+  sync_status: string;
+  drift: DriftChange[];
+  last_pulled_at: string | null;
+  last_error: string | null;
+}
+
+const PROVIDERS: { value: Provider; label: string }[] = [
+  { value: 'xero', label: 'Xero' },
+  { value: 'quickbooks', label: 'QuickBooks' },
+];
+
+const policyLabels: Record<ConflictPolicy, string> = {
+  accounting_wins: 'Accounting system wins (apply payments, voids and contact changes)',
+  construyo_wins: 'Construyo wins (report differences only)',
+  manual: 'Ask me about every change',
+};
+
+const formatValue = (value: unknown) => {
+  if (value === null || value === undefined || value === '') return '—';
+  if (typeof value === 'number') return value.toFixed(2);
+  return String(value);
+};
+
+const AccountingSyncPanel = () => {
+  const [settings, setSettings] = useState<Record<Provider, SyncSettings>>({
+    xero: { provider: 'xero', conflict_policy: 'accounting_wins', pull_enabled: true, sync_contacts: true },
+    quickbooks: { provider: 'quickbooks', conflict_policy: 'accounting_wins', pull_enabled: true, sync_contacts: true },
+  });
+  const [mappings, setMappings] = useState<EntityMapping[]>([]);
+  const [mappedCounts, setMappedCounts] = useState<Record<Provider, number>>({ xero: 0, quickbooks: 0 });
+  const [localNumbers, setLocalNumbers] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [pulling, setPulling] = useState<Provider | null>(null);
+  const [resolving, setResolving] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadSyncStatus();
+    }
+  }, [user]);
+
+  const loadSyncStatus = async () => {
+    try {
+      const [settingsRes, driftRes, countsRes] = await Promise.all([
+        supabase.from('accounting_sync_settings').select('*').eq('user_id', user?.id),
+        supabase
+          .from('accounting_entity_mappings')
+          .select('*')
+          .eq('user_id', user?.id)
+          .neq('sync_status', 'in_sync')
+          .order('updated_at', { ascending: false })
+          .limit(100),
+        supabase.from('accounting_entity_mappings').select('provider').eq('user_id', user?.id),
+      ]);
+
+      if (settingsRes.error) throw settingsRes.error;
+      if (driftRes.error) throw driftRes.error;
+
+      setSettings(prev => {
+        const next = { ...prev };
+        for (const row of settingsRes.data || []) {
+          next[row.provider as Provider] = {
+            ...row,
+            provider: row.provider as Provider,
+            conflict_policy: row.conflict_policy as ConflictPolicy,
+            last_run_stats: row.last_run_stats as Record<string, number>,
+          };
+        }
+        return next;
+      });
+
+      const rows = (driftRes.data || []).map(row => ({
+        ...row,
+        provider: row.provider as Provider,
+        drift: (row.drift as unknown as DriftChange[]) || [],
+      }));
+      setMappings(rows);
+
+      setMappedCounts({
+        xero: (countsRes.data || []).filter(row => row.provider === 'xero').length,
+        quickbooks: (countsRes.data || []).filter(row => row.provider === 'quickbooks').length,
+      });
+
+      // Show invoice numbers rather than ids for drifted invoices
+      const invoiceIds = rows.filter(row => row.entity_type === 'invoice').map(row => row.local_id);
+      if (invoiceIds.length > 0) {
+        const { data: invoices } = await supabase
+          .from('construyo_invoices')
+          .select('id, invoice_number')
+          .in('id', invoiceIds);
+        setLocalNumbers(Object.fromEntries((invoices || []).map(invoice => [invoice.id, invoice.invoice_number])));
+      }
+    } catch (error) {
+      console.error('Error loading accounting sync status:', error);
+      toast.error('Failed to load accounting sync status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const saveSettings = async (provider: Provider, updates: Partial<SyncSettings>) => {
+    const next = { ...settings[provider], ...updates };
+    setSettings(prev => ({ ...prev, [provider]: next }));
+
+    const { error } = await supabase
+      .from('accounting_sync_settings')
+      .upsert({
+        user_id: user!.id,
+        provider,
+        conflict_policy: next.conflict_policy,
+        pull_enabled: next.pull_enabled,
+        sync_contacts: next.sync_contacts,
+      }, { onConflict: 'user_id,provider' });
+
+    if (error) {
+      console.error('Error saving accounting sync settings:', error);
+      toast.error('Failed to save sync settings');
+    }
+  };
+
+  const pullNow = async (provider: Provider, full: boolean = false) => {
+    setPulling(provider);
+    try {
+      const { data, error } = await supabase.functions.invoke('accounting-sync', {
+        body: { action: 'pull', provider, full },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message);
+
+      const result = data.results?.[0];
+      if (result && !result.success) throw new Error(result.error);
+
+      const stats = result?.stats || {};
+      toast.success(`Pulled ${stats.invoices || 0} invoices and ${stats.payments || 0} payments; ${stats.applied || 0} changes applied`);
+      await loadSyncStatus();
+    } catch (error) {
+      console.error('Error pulling accounting changes:', error);
+      toast.error(error.message || 'Failed to pull changes');
+    } finally {
+      setPulling(null);
+    }
+  };
+
+  const resolve = async (mapping: EntityMapping, resolution: 'accept_remote' | 'keep_local') => {
+    setResolving(mapping.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('accounting-sync', {
+        body: { action: 'resolve', mappingId: mapping.id, resolution },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message);
+
+      if (data.failed > 0) {
+        toast.error(`${data.failed} change${data.failed === 1 ? '' : 's'} could not be applied`);
+      } else {
+        toast.success(resolution === 'accept_remote' ? 'Accounting changes applied' : 'Construyo values kept');
+      }
+      await loadSyncStatus();
+    } catch (error) {
+      console.error('Error resolving drift:', error);
+      toast.error(error.message || 'Failed to resolve');
+    } finally {
+      setResolving(null);
+    }
+  };
+
+  const getSyncBadge = (status: string) => {
+    switch (status) {
+      case 'conflict':
+        return <Badge variant="destructive">Needs decision</Badge>;
+      case 'drift':
+        return <Badge variant="outline" className="border-orange-500 text-orange-600">Drift</Badge>;
+      case 'error':
+        return <Badge variant="destructive">Error</Badge>;
+      default:
+        return <Badge variant="default" className="bg-green-500">In sync</Badge>;
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading accounting sync status...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid gap-4 md:grid-cols-2">
+        {PROVIDERS.map(({ value: provider, label }) => {
+          const providerSettings = settings[provider];
+          const connected = !!integrationManager.getConfiguration(provider)?.enabled;
+          const stats = providerSettings.last_run_stats || {};
+          const open = mappings.filter(mapping => mapping.provider === provider);
+
+          return (
+            <Card key={provider}>
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between">
+                  <CardTitle className="text-lg">{label}</CardTitle>
+                  {!connected ? (
+                    <Badge variant="outline">Not Connected</Badge>
+                  ) : open.some(mapping => mapping.sync_status === 'conflict') ? (
+                    <Badge variant="destructive">{open.filter(m => m.sync_status === 'conflict').length} to review</Badge>
+                  ) : open.length > 0 ? (
+                    <Badge variant="outline" className="border-orange-500 text-orange-600">{open.length} drifted</Badge>
+                  ) : (
+                    <Badge variant="default" className="bg-green-500">In sync</Badge>
+                  )}
+                </div>
+                <CardDescription>
+                  {providerSettings.last_run_at
+                    ? `Last pull ${new Date(providerSettings.last_run_at).toLocaleString()} (${providerSettings.last_run_status})`
+                    : 'Not pulled yet'}
+                  {' • '}{mappedCounts[provider]} linked records
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {providerSettings.last_error && (
+                  <p className="text-sm text-destructive">{providerSettings.last_error}</p>
+                )}
+                {providerSettings.last_run_at && (
+                  <div className="grid grid-cols-4 gap-2 text-center text-sm">
+                    <div>
+                      <div className="font-medium">{stats.invoices || 0}</div>
+                      <div className="text-xs text-muted-foreground">Invoices</div>
+                    </div>
+                    <div>
+                      <div className="font-medium">{stats.payments || 0}</div>
+                      <div className="text-xs text-muted-foreground">Payments</div>
+                    </div>
+                    <div>
+                      <div className="font-medium">{stats.applied || 0}</div>
+                      <div className="text-xs text-muted-foreground">Applied</div>
+                    </div>
+                    <div>
+                      <div className="font-medium">{stats.unmatched || 0}</div>
+                      <div className="text-xs text-muted-foreground">Unmatched</div>
+                    </div>
+                  </div>
+                )}
+                <div className="space-y-2">
+                  <Label>When records differ</Label>
+                  <Select
+                    value={providerSettings.conflict_policy}
+                    onValueChange={(value) => saveSettings(provider, { conflict_policy: value as ConflictPolicy })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(policyLabels).map(([policy, policyLabel]) => (
+                        <SelectItem key={policy} value={policy}>{policyLabel}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="flex items-center justify-between">
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={providerSettings.pull_enabled}
+                      onCheckedChange={(checked) => saveSettings(provider, { pull_enabled: checked })}
+                    />
+                    <Label>Pull automatically</Label>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={providerSettings.sync_contacts}
+                      onCheckedChange={(checked) => saveSettings(provider, { sync_contacts: checked })}
+                    />
+                    <Label>Contacts</Label>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => pullNow(provider)} disabled={!connected || pulling !== null}>
+                    <ArrowDownToLine className={`w-4 h-4 mr-2 ${pulling === provider ? 'animate-pulse' : ''}`} />
+                    {pulling === provider ? 'Pulling...' : 'Pull Changes'}
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => pullNow(provider, true)} disabled={!connected || pulling !== null}>
+                    <RefreshCw className="w-4 h-4 mr-2" />
+                    Full Resync
+                  </Button>
+                </div>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5" />
+            Drift
+          </CardTitle>
+          <CardDescription>
+            Records that differ between Construyo and your accounting system and were not changed automatically
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {mappings.length === 0 ? (
+            <div className="flex items-center gap-2 text-sm text-muted-foreground">
+              <CheckCircle className="w-4 h-4 text-green-500" />
+              Everything that has been pulled matches.
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Record</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Differences</TableHead>
+                  <TableHead className="text-right">Resolve</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {mappings.map(mapping => (
+                  <TableRow key={mapping.id}>
+                    <TableCell>
+                      <div className="font-medium capitalize">
+                        {mapping.entity_type.replace('_', ' ')} {localNumbers[mapping.local_id] || mapping.external_number || ''}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        {PROVIDERS.find(p => p.value === mapping.provider)?.label} {mapping.external_number || mapping.external_id}
+                      </div>
+                    </TableCell>
+                    <TableCell>{getSyncBadge(mapping.sync_status)}</TableCell>
+                    <TableCell>
+                      <div className="space-y-1 text-sm">
+                        {mapping.drift.map(change => (
+                          <div key={change.key}>
+                            {change.label}: <span className="text-muted-foreground">{formatValue(change.local)}</span>
+                            {' → '}<span className="font-medium">{formatValue(change.remote)}</span>
+                          </div>
+                        ))}
+                        {mapping.last_error && <div className="text-destructive">{mapping.last_error}</div>}
+                      </div>
+                    </TableCell>
+                    <TableCell className="text-right space-x-2 whitespace-nowrap">
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => resolve(mapping, 'accept_remote')}
+                        disabled={resolving === mapping.id || !mapping.drift.some(change => change.applicable)}
+                      >
+                        Accept Accounting
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        onClick={() => resolve(mapping, 'keep_local')}
+                        disabled={resolving === mapping.id}
+                      >
+                        Keep Construyo
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AccountingSyncPanel;
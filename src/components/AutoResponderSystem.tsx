@@ -10,6 +10,8 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Switch } from "@/components/ui/switch";
 import { toast } from "sonner";
+import MessageSequenceEditor, { MessageSequence } from "@/components/MessageSequenceEditor";
+import LeadMessageTimeline from "@/components/LeadMessageTimeline";
 import { 
   MessageSquare, 
   Mail, 
@@ -55,6 +57,7 @@ export default function AutoResponderSystem() {
   const [loading, setLoading] = useState(false);
   const [selectedTemplate, setSelectedTemplate] = useState<MessageTemplate | null>(null);
   const [testLead, setTestLead] = useState<Lead | null>(null);
+  const [sequences, setSequences] = useState<MessageSequence[]>([]);
   
   // Template form state
   const [templateForm, setTemplateForm] = useState({
@@ -239,7 +242,9 @@ export default function AutoResponderSystem() {
 
       if (error) throw error;
 
-      if (data.success) {
+      if (data.success && data.enrollments) {
+        toast.success(`Lead enrolled in ${data.enrollments.length} sequence${data.enrollments.length === 1 ? '' : 's'}`);
+      } else if (data.success) {
         toast.success(`Auto-responder sent successfully via ${data.messageType}!`);
       } else {
         toast.error(`Auto-responder failed: ${data.errorMessage}`);
@@ -316,8 +321,10 @@ export default function AutoResponderSystem() {
       </div>
 
       <Tabs defaultValue="templates" className="space-y-6">
-        <TabsList className="grid w-full grid-cols-3">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="templates">Templates</TabsTrigger>
+          <TabsTrigger value="sequences">Sequences</TabsTrigger>
+          <TabsTrigger value="timeline">Lead Timeline</TabsTrigger>
           <TabsTrigger value="test">Test & Send</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
@@ -489,6 +496,16 @@ export default function AutoResponderSystem() {
           </div>
         </TabsContent>
 
+        {/* Sequences Tab */}
+        <TabsContent value="sequences" className="space-y-4">
+          <MessageSequenceEditor onChange={setSequences} />
+        </TabsContent>
+
+        {/* Lead Timeline Tab */}
+        <TabsContent value="timeline" className="space-y-4">
+          <LeadMessageTimeline leads={leads} sequences={sequences} />
+        </TabsContent>
+
         {/* Test & Send Tab */}
         <TabsContent value="test" className="space-y-4">
           <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -643,6 +660,12 @@ const response = await supabase.functions.invoke('auto-responder', {
     leadId: "lead456",
     triggerType: "lead_created"
   }
+});
+
+// Send due sequence steps (schedule every few minutes,
+// authorised with the service role key)
+await supabase.functions.invoke('auto-responder', {
+  body: { action: "process_due" }
 });`}
                   </pre>
                 </div>
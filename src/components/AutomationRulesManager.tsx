@@ -0,0 +1,1084 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { toast } from "sonner";
+import { CheckCircle, Edit, FlaskConical, Loader2, Plus, Trash2, Workflow, XCircle } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+type TriggerType = 'lead_created' | 'lead_status_changed' | 'invoice_overdue' | 'feedback_submitted' | 'booking_made';
+type ActionType = 'send_template' | 'assign_lead' | 'create_task' | 'call_webhook' | 'apply_discount';
+type FieldKind = 'text' | 'number' | 'list';
+
+interface RuleCondition {
+  field: string;
+  operator: string;
+  value?: string | number | (string | number)[];
+}
+
+// Editable form of a condition; list values are typed comma-separated
+interface ConditionDraft {
+  field: string;
+  operator: string;
+  value: string;
+  valueTo: string;
+}
+
+// Actions are stored as { type, ...config }; unused config keys are dropped on save
+interface ActionDraft {
+  type: ActionType;
+  template_id?: string;
+  assigned_to?: string;
+  title?: string;
+  description?: string;
+  due_in_days?: number;
+  url?: string;
+  discount_rule_id?: string;
+}
+
+interface AutomationRule {
+  id: string;
+  rule_name: string;
+  description: string | null;
+  trigger_type: string;
+  conditions: Json | null;
+  actions: Json | null;
+  is_active: boolean | null;
+  priority: number;
+  run_count: number;
+  last_run_at: string | null;
+}
+
+interface ActionResult {
+  type: ActionType;
+  status: 'succeeded' | 'failed' | 'skipped' | 'planned';
+  detail: string;
+}
+
+interface ConditionResult {
+  condition: string;
+  passed: boolean;
+  actual: unknown;
+}
+
+interface TestResult {
+  matched: boolean;
+  conditions: ConditionResult[];
+  actions: ActionResult[];
+}
+
+interface AutomationLog {
+  id: string;
+  rule_id: string | null;
+  event_type: string | null;
+  entity_type: string | null;
+  status: string | null;
+  dry_run: boolean;
+  action_results: Json;
+  error_message: string | null;
+  created_at: string | null;
+}
+
+interface Task {
+  id: string;
+  title: string;
+  description: string | null;
+  due_date: string | null;
+  lead_id: string | null;
+  invoice_id: string | null;
+  automation_rule_id: string | null;
+}
+
+interface Option {
+  id: string;
+  label: string;
+}
+
+const TRIGGERS: { value: TriggerType; label: string; entity: 'lead' | 'invoice' | 'feedback' }[] = [
+  { value: 'lead_created', label: 'Lead created', entity: 'lead' },
+  { value: 'lead_status_changed', label: 'Lead status changed', entity: 'lead' },
+  { value: 'booking_made', label: 'Booking made', entity: 'lead' },
+  { value: 'invoice_overdue', label: 'Invoice overdue', entity: 'invoice' },
+  { value: 'feedback_submitted', label: 'Feedback submitted', entity: 'feedback' },
+];
+
+const LEAD_FIELDS: { value: string; label: string; kind: FieldKind }[] = [
+  { value: 'status', label: 'Lead status', kind: 'text' },
+  { value: 'project_type', label: 'Project type', kind: 'text' },
+  { value: 'lead_source', label: 'Lead source', kind: 'text' },
+  { value: 'priority', label: 'Priority', kind: 'text' },
+  { value: 'postcode', label: 'Postcode', kind: 'text' },
+  { value: 'city', label: 'City', kind: 'text' },
+  { value: 'budget_max', label: 'Max budget', kind: 'number' },
+  { value: 'score', label: 'Lead score', kind: 'number' },
+  { value: 'tags', label: 'Tags', kind: 'list' },
+  { value: 'assigned_to', label: 'Assigned to', kind: 'text' },
+  { value: 'email', label: 'Email', kind: 'text' },
+  { value: 'phone', label: 'Phone', kind: 'text' },
+];
+
+// Fields available to conditions for each trigger, matching the engine's event context
+const TRIGGER_FIELDS: Record<TriggerType, { value: string; label: string; kind: FieldKind }[]> = {
+  lead_created: LEAD_FIELDS,
+  lead_status_changed: [{ value: 'previous_status', label: 'Previous status', kind: 'text' }, ...LEAD_FIELDS],
+  booking_made: [{ value: 'event_type_name', label: 'Calendly event type', kind: 'text' }, ...LEAD_FIELDS],
+  invoice_overdue: [
+    { value: 'days_overdue', label: 'Days overdue', kind: 'number' },
+    { value: 'balance_due', label: 'Balance due', kind: 'number' },
+    { value: 'invoice_amount', label: 'Invoice amount', kind: 'number' },
+    { value: 'reminder_count', label: 'Reminders sent', kind: 'number' },
+    { value: 'currency', label: 'Currency', kind: 'text' },
+    { value: 'customer_name', label: 'Customer name', kind: 'text' },
+    ...LEAD_FIELDS,
+  ],
+  feedback_submitted: [
+    { value: 'rating', label: 'Rating', kind: 'number' },
+    { value: 'comments', label: 'Comments', kind: 'text' },
+    { value: 'customer_name', label: 'Customer name', kind: 'text' },
+    { value: 'customer_email', label: 'Customer email', kind: 'text' },
+  ],
+};
+
+const KIND_OPERATORS: Record<FieldKind, string[]> = {
+  text: ['equals', 'not_equals', 'in', 'not_in', 'starts_with', 'contains_any', 'is_empty', 'is_not_empty'],
+  number: ['equals', 'gte', 'lte', 'between'],
+  list: ['contains_any', 'contains_all', 'not_in', 'is_empty', 'is_not_empty'],
+};
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  in: 'is one of',
+  not_in: 'is none of',
+  starts_with: 'starts with any of',
+  contains_any: 'contains any of',
+  contains_all: 'contains all of',
+  gte: 'is at least',
+  lte: 'is at most',
+  between: 'is between',
+  is_empty: 'is empty',
+  is_not_empty: 'is not empty',
+};
+
+const LIST_OPERATORS = ['in', 'not_in', 'starts_with', 'contains_any', 'contains_all'];
+const VALUELESS_OPERATORS = ['is_empty', 'is_not_empty'];
+
+const ACTION_TYPES: { value: ActionType; label: string; leadOnly?: boolean; invoiceOnly?: boolean }[] = [
+  { value: 'send_template', label: 'Send message template', leadOnly: true },
+  { value: 'assign_lead', label: 'Assign lead', leadOnly: true },
+  { value: 'create_task', label: 'Create task' },
+  { value: 'call_webhook', label: 'Call webhook' },
+  { value: 'apply_discount', label: 'Apply discount', invoiceOnly: true },
+];
+
+const RESULT_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  succeeded: 'default',
+  planned: 'default',
+  partial: 'secondary',
+  skipped: 'secondary',
+  not_matched: 'outline',
+  dry_run: 'outline',
+  failed: 'destructive',
+};
+
+const triggerConfig = (trigger: string) => TRIGGERS.find(t => t.value === trigger) || TRIGGERS[0];
+
+const fieldConfig = (trigger: TriggerType, field: string) =>
+  TRIGGER_FIELDS[trigger].find(f => f.value === field) || TRIGGER_FIELDS[trigger][0];
+
+const toConditionDraft = (condition: RuleCondition): ConditionDraft => {
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value ?? ''];
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    value: condition.operator === 'between' ? String(values[0] ?? '') : values.join(', '),
+    valueTo: condition.operator === 'between' ? String(values[1] ?? '') : '',
+  };
+};
+
+const fromConditionDraft = (trigger: TriggerType, draft: ConditionDraft): RuleCondition => {
+  const numeric = fieldConfig(trigger, draft.field).kind === 'number';
+  const parse = (value: string) => (numeric ? parseFloat(value) || 0 : value.trim());
+
+  if (VALUELESS_OPERATORS.includes(draft.operator)) {
+    return { field: draft.field, operator: draft.operator };
+  }
+  if (draft.operator === 'between') {
+    return { field: draft.field, operator: draft.operator, value: [parse(draft.value), parse(draft.valueTo)] };
+  }
+  if (LIST_OPERATORS.includes(draft.operator)) {
+    return {
+      field: draft.field,
+      operator: draft.operator,
+      value: draft.value.split(',').map(value => value.trim()).filter(Boolean),
+    };
+  }
+  return { field: draft.field, operator: draft.operator, value: parse(draft.value) };
+};
+
+const cleanAction = (action: ActionDraft) => {
+  switch (action.type) {
+    case 'send_template': return { type: action.type, template_id: action.template_id };
+    case 'assign_lead': return { type: action.type, assigned_to: action.assigned_to };
+    case 'create_task': return {
+      type: action.type,
+      title: action.title?.trim(),
+      description: action.description?.trim() || undefined,
+      due_in_days: action.due_in_days,
+      assigned_to: action.assigned_to || undefined,
+    };
+    case 'call_webhook': return { type: action.type, url: action.url?.trim() };
+    case 'apply_discount': return { type: action.type, discount_rule_id: action.discount_rule_id || undefined };
+  }
+};
+
+// Why the action can't be saved, or null when it's complete
+const actionProblem = (action: ActionDraft) => {
+  if (action.type === 'send_template' && !action.template_id) return 'Choose a message template';
+  if (action.type === 'assign_lead' && !action.assigned_to) return 'Choose who to assign the lead to';
+  if (action.type === 'create_task' && !action.title?.trim()) return 'Give the task a title';
+  if (action.type === 'call_webhook' && !/^https:\/\//i.test(action.url?.trim() || '')) return 'Webhook URL must start with https://';
+  return null;
+};
+
+const emptyForm = () => ({
+  rule_name: '',
+  description: '',
+  trigger_type: 'lead_created' as TriggerType,
+  match: 'all' as 'all' | 'any',
+  conditionRules: [] as ConditionDraft[],
+  actions: [] as ActionDraft[],
+  priority: 100,
+  is_active: true,
+});
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Builder for automation_rules: when an event happens, check conditions and
+ * run actions. Rules are executed by the automation-engine edge function;
+ * the test panel dry-runs the rule being edited against a real record.
+ */
+export default function AutomationRulesManager() {
+  const [rules, setRules] = useState<AutomationRule[]>([]);
+  const [logs, setLogs] = useState<AutomationLog[]>([]);
+  const [tasks, setTasks] = useState<Task[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingRule, setEditingRule] = useState<AutomationRule | null>(null);
+  const [formData, setFormData] = useState(emptyForm());
+
+  const [templates, setTemplates] = useState<Option[]>([]);
+  const [discountRules, setDiscountRules] = useState<Option[]>([]);
+  const [people, setPeople] = useState<Option[]>([]);
+  const [entities, setEntities] = useState<Record<'lead' | 'invoice' | 'feedback', Option[]>>({ lead: [], invoice: [], feedback: [] });
+
+  const [testEntityId, setTestEntityId] = useState('');
+  const [testResult, setTestResult] = useState<TestResult | null>(null);
+  const [testing, setTesting] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+    fetchLogs();
+    fetchTasks();
+    fetchOptions();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('automation_rules')
+        .select('*')
+        .order('priority', { ascending: true })
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      console.error('Error fetching automation rules:', error);
+      toast.error('Failed to load automation rules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLogs = async () => {
+    const { data, error } = await supabase
+      .from('automation_logs')
+      .select('id, rule_id, event_type, entity_type, status, dry_run, action_results, error_message, created_at')
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching automation logs:', error);
+      return;
+    }
+    setLogs(data || []);
+  };
+
+  const fetchTasks = async () => {
+    const { data, error } = await supabase
+      .from('tasks')
+      .select('id, title, description, due_date, lead_id, invoice_id, automation_rule_id')
+      .eq('status', 'open')
+      .order('due_date', { ascending: true, nullsFirst: false });
+
+    if (error) {
+      console.error('Error fetching tasks:', error);
+      return;
+    }
+    setTasks(data || []);
+  };
+
+  const fetchOptions = async () => {
+    const [templatesResult, discountsResult, profilesResult, leadsResult, invoicesResult, feedbackResult] = await Promise.all([
+      supabase.from('message_templates').select('id, template_name, template_type').eq('is_active', true),
+      supabase.from('discount_rules').select('id, rule_name').eq('is_active', true),
+      supabase.from('profiles').select('id, full_name, email'),
+      supabase.from('leads').select('id, first_name, last_name, status').order('created_at', { ascending: false }).limit(50),
+      supabase.from('construyo_invoices').select('id, invoice_number, customer_name').order('created_at', { ascending: false }).limit(50),
+      supabase.from('feedback_responses').select('id, customer_name, rating').order('submitted_at', { ascending: false }).limit(50),
+    ]);
+
+    setTemplates((templatesResult.data || []).map(t => ({ id: t.id, label: `${t.template_name} (${t.template_type})` })));
+    setDiscountRules((discountsResult.data || []).map(d => ({ id: d.id, label: d.rule_name })));
+    setPeople((profilesResult.data || []).map(p => ({ id: p.id, label: p.full_name || p.email || p.id })));
+    setEntities({
+      lead: (leadsResult.data || []).map(l => ({ id: l.id, label: `${l.first_name} ${l.last_name} (${l.status})` })),
+      invoice: (invoicesResult.data || []).map(i => ({ id: i.id, label: `${i.invoice_number} - ${i.customer_name}` })),
+      feedback: (feedbackResult.data || []).map(f => ({ id: f.id, label: `${f.customer_name} - ${f.rating}★` })),
+    });
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingRule(null);
+    setShowForm(false);
+    setTestEntityId('');
+    setTestResult(null);
+  };
+
+  const buildRule = () => ({
+    rule_name: formData.rule_name.trim(),
+    description: formData.description.trim() || null,
+    trigger_type: formData.trigger_type,
+    conditions: {
+      match: formData.match,
+      rules: formData.conditionRules.map(draft => fromConditionDraft(formData.trigger_type, draft)),
+    } as unknown as Json,
+    actions: formData.actions.map(cleanAction) as unknown as Json,
+    priority: formData.priority,
+    is_active: formData.is_active,
+  });
+
+  const saveRule = async () => {
+    if (!formData.rule_name.trim()) {
+      toast.error('Give the rule a name');
+      return;
+    }
+    if (formData.actions.length === 0) {
+      toast.error('Add at least one action');
+      return;
+    }
+    const problem = formData.actions.map(actionProblem).find(Boolean);
+    if (problem) {
+      toast.error(problem);
+      return;
+    }
+
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('User not authenticated');
+
+      const ruleData = { ...buildRule(), user_id: userData.user.id };
+
+      if (editingRule) {
+        const { error } = await supabase
+          .from('automation_rules')
+          .update(ruleData)
+          .eq('id', editingRule.id);
+        if (error) throw error;
+        toast.success('Automation rule updated');
+      } else {
+        const { error } = await supabase
+          .from('automation_rules')
+          .insert(ruleData);
+        if (error) throw error;
+        toast.success('Automation rule created');
+      }
+
+      await fetchRules();
+      resetForm();
+    } catch (error) {
+      console.error('Error saving automation rule:', error);
+      toast.error('Failed to save automation rule');
+    }
+  };
+
+  const deleteRule = async (ruleId: string) => {
+    try {
+      const { error } = await supabase
+        .from('automation_rules')
+        .delete()
+        .eq('id', ruleId);
+
+      if (error) throw error;
+      toast.success('Automation rule deleted');
+      await fetchRules();
+    } catch (error) {
+      console.error('Error deleting automation rule:', error);
+      toast.error('Failed to delete automation rule');
+    }
+  };
+
+  const toggleRule = async (rule: AutomationRule, isActive: boolean) => {
+    const { error } = await supabase
+      .from('automation_rules')
+      .update({ is_active: isActive })
+      .eq('id', rule.id);
+
+    if (error) {
+      console.error('Error updating automation rule:', error);
+      toast.error('Failed to update automation rule');
+      return;
+    }
+    setRules(prev => prev.map(r => (r.id === rule.id ? { ...r, is_active: isActive } : r)));
+  };
+
+  const editRule = (rule: AutomationRule) => {
+    const conditions = (rule.conditions || {}) as { match?: 'all' | 'any'; rules?: RuleCondition[] };
+    setEditingRule(rule);
+    setFormData({
+      rule_name: rule.rule_name,
+      description: rule.description || '',
+      trigger_type: triggerConfig(rule.trigger_type).value,
+      match: conditions.match || 'all',
+      conditionRules: (conditions.rules || []).map(toConditionDraft),
+      actions: ((rule.actions || []) as unknown as ActionDraft[]),
+      priority: rule.priority,
+      is_active: rule.is_active ?? true,
+    });
+    setTestEntityId('');
+    setTestResult(null);
+    setShowForm(true);
+  };
+
+  const changeTrigger = (trigger: TriggerType) => {
+    setFormData(prev => ({
+      ...prev,
+      trigger_type: trigger,
+      // Drop conditions on fields the new trigger doesn't have
+      conditionRules: prev.conditionRules.filter(condition =>
+        TRIGGER_FIELDS[trigger].some(field => field.value === condition.field)
+      ),
+    }));
+    if (triggerConfig(trigger).entity !== triggerConfig(formData.trigger_type).entity) {
+      setTestEntityId('');
+    }
+    setTestResult(null);
+  };
+
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setFormData(prev => ({
+      ...prev,
+      conditionRules: prev.conditionRules.map((condition, i) => {
+        if (i !== index) return condition;
+        const updated = { ...condition, ...changes };
+        // Keep the operator valid for the chosen field
+        const operators = KIND_OPERATORS[fieldConfig(prev.trigger_type, updated.field).kind];
+        return operators.includes(updated.operator) ? updated : { ...updated, operator: operators[0] };
+      }),
+    }));
+  };
+
+  const updateAction = (index: number, changes: Partial<ActionDraft>) => {
+    setFormData(prev => ({
+      ...prev,
+      actions: prev.actions.map((action, i) => (i === index ? { ...action, ...changes } : action)),
+    }));
+  };
+
+  const moveAction = (index: number, offset: number) => {
+    setFormData(prev => {
+      const actions = [...prev.actions];
+      const [moved] = actions.splice(index, 1);
+      actions.splice(index + offset, 0, moved);
+      return { ...prev, actions };
+    });
+  };
+
+  const runTest = async () => {
+    setTesting(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('automation-engine', {
+        body: { action: 'test', rule: buildRule(), entityId: testEntityId },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      setTestResult(data as TestResult);
+      fetchLogs();
+    } catch (error) {
+      console.error('Error testing automation rule:', error);
+      setTestResult(null);
+      toast.error('Failed to test rule');
+    } finally {
+      setTesting(false);
+    }
+  };
+
+  const completeTask = async (taskId: string) => {
+    const { error } = await supabase
+      .from('tasks')
+      .update({ status: 'done', completed_at: new Date().toISOString() })
+      .eq('id', taskId);
+
+    if (error) {
+      console.error('Error completing task:', error);
+      toast.error('Failed to complete task');
+      return;
+    }
+    setTasks(prev => prev.filter(task => task.id !== taskId));
+  };
+
+  const ruleName = (ruleId: string | null) => rules.find(rule => rule.id === ruleId)?.rule_name || 'Unsaved rule';
+
+  const optionLabel = (options: Option[], id?: string) => options.find(option => option.id === id)?.label || id;
+
+  const describeAction = (action: ActionDraft) => {
+    switch (action.type) {
+      case 'send_template': return `Send "${optionLabel(templates, action.template_id)}"`;
+      case 'assign_lead': return `Assign to ${optionLabel(people, action.assigned_to)}`;
+      case 'create_task': return `Create task "${action.title}"`;
+      case 'call_webhook': return `Call ${action.url}`;
+      case 'apply_discount': return action.discount_rule_id ? `Apply "${optionLabel(discountRules, action.discount_rule_id)}"` : 'Apply eligible discounts';
+      default: return action.type;
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">Loading automation rules...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const trigger = triggerConfig(formData.trigger_type);
+  const fields = TRIGGER_FIELDS[formData.trigger_type];
+
+  return (
+    <Tabs defaultValue="rules" className="space-y-6">
+      <TabsList className="grid w-full grid-cols-3">
+        <TabsTrigger value="rules">Rules</TabsTrigger>
+        <TabsTrigger value="history">Run History</TabsTrigger>
+        <TabsTrigger value="tasks">Tasks ({tasks.length})</TabsTrigger>
+      </TabsList>
+
+      <TabsContent value="rules" className="space-y-6">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="text-2xl font-bold">Automation Rules</h2>
+            <p className="text-muted-foreground">
+              When something happens, check conditions and run actions automatically
+            </p>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="gap-2">
+            <Plus className="h-4 w-4" />
+            Add Rule
+          </Button>
+        </div>
+
+        {showForm && (
+          <Card>
+            <CardHeader>
+              <CardTitle>{editingRule ? 'Edit Automation Rule' : 'Create Automation Rule'}</CardTitle>
+              <CardDescription>
+                Rules with the same trigger run in priority order, lowest number first
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="rule_name">Rule Name</Label>
+                  <Input
+                    id="rule_name"
+                    value={formData.rule_name}
+                    onChange={(e) => setFormData(prev => ({ ...prev, rule_name: e.target.value }))}
+                    placeholder="e.g., Chase overdue invoices"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>When</Label>
+                  <Select value={formData.trigger_type} onValueChange={(value) => changeTrigger(value as TriggerType)}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TRIGGERS.map(t => (
+                        <SelectItem key={t.value} value={t.value}>{t.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2 md:col-span-2">
+                  <Label htmlFor="rule_description">Description (optional)</Label>
+                  <Textarea
+                    id="rule_description"
+                    rows={2}
+                    value={formData.description}
+                    onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="rule_priority">Priority</Label>
+                  <Input
+                    id="rule_priority"
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData(prev => ({ ...prev, priority: parseInt(e.target.value) || 0 }))}
+                  />
+                </div>
+
+                <div className="flex items-center space-x-2 pt-8">
+                  <Switch
+                    id="rule_active"
+                    checked={formData.is_active}
+                    onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+                  />
+                  <Label htmlFor="rule_active">Active</Label>
+                </div>
+              </div>
+
+              <div className="space-y-3 border rounded-md p-4">
+                <div className="flex items-center gap-2">
+                  <Label>Run when</Label>
+                  <Select
+                    value={formData.match}
+                    onValueChange={(value) => setFormData(prev => ({ ...prev, match: value as 'all' | 'any' }))}
+                  >
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">all</SelectItem>
+                      <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm">of these conditions match</span>
+                </div>
+
+                {formData.conditionRules.map((condition, index) => {
+                  const field = fieldConfig(formData.trigger_type, condition.field);
+                  const inputType = field.kind === 'number' ? 'number' : 'text';
+                  return (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <Select value={condition.field} onValueChange={(value) => updateCondition(index, { field: value })}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fields.map(f => (
+                            <SelectItem key={f.value} value={f.value}>{f.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={condition.operator} onValueChange={(value) => updateCondition(index, { operator: value })}>
+                        <SelectTrigger className="w-44">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {KIND_OPERATORS[field.kind].map(operator => (
+                            <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {!VALUELESS_OPERATORS.includes(condition.operator) && (
+                        <Input
+                          className="flex-1 min-w-[140px]"
+                          type={inputType}
+                          value={condition.value}
+                          placeholder={LIST_OPERATORS.includes(condition.operator) ? 'Comma-separated, e.g. kitchen, bathroom' : ''}
+                          onChange={(e) => updateCondition(index, { value: e.target.value })}
+                        />
+                      )}
+                      {condition.operator === 'between' && (
+                        <>
+                          <span className="text-sm">and</span>
+                          <Input
+                            className="flex-1 min-w-[140px]"
+                            type={inputType}
+                            value={condition.valueTo}
+                            onChange={(e) => updateCondition(index, { valueTo: e.target.value })}
+                          />
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          conditionRules: prev.conditionRules.filter((_, i) => i !== index),
+                        }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                {formData.conditionRules.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No conditions: the rule runs for every {trigger.label.toLowerCase()} event</p>
+                )}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    conditionRules: [...prev.conditionRules, { field: fields[0].value, operator: KIND_OPERATORS[fields[0].kind][0], value: '', valueTo: '' }],
+                  }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Condition
+                </Button>
+              </div>
+
+              <div className="space-y-3 border rounded-md p-4">
+                <Label>Then, in order</Label>
+
+                {formData.actions.map((action, index) => {
+                  const unavailable = ACTION_TYPES.find(a => a.value === action.type)?.leadOnly
+                    ? trigger.entity === 'feedback'
+                    : ACTION_TYPES.find(a => a.value === action.type)?.invoiceOnly && trigger.entity !== 'invoice';
+                  return (
+                    <div key={index} className="border rounded p-3 space-y-3">
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm font-medium w-6">{index + 1}.</span>
+                        <Select value={action.type} onValueChange={(value) => updateAction(index, { type: value as ActionType })}>
+                          <SelectTrigger className="w-56">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {ACTION_TYPES.map(a => (
+                              <SelectItem key={a.value} value={a.value}>{a.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <div className="ml-auto flex">
+                          <Button variant="ghost" size="sm" disabled={index === 0} onClick={() => moveAction(index, -1)}>↑</Button>
+                          <Button variant="ghost" size="sm" disabled={index === formData.actions.length - 1} onClick={() => moveAction(index, 1)}>↓</Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setFormData(prev => ({ ...prev, actions: prev.actions.filter((_, i) => i !== index) }))}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
+                        </div>
+                      </div>
+
+                      {unavailable && (
+                        <p className="text-xs text-destructive">
+                          {trigger.label} events have no {action.type === 'apply_discount' ? 'invoice' : 'lead'}; this action will be skipped
+                        </p>
+                      )}
+
+                      {action.type === 'send_template' && (
+                        <Select value={action.template_id || ''} onValueChange={(value) => updateAction(index, { template_id: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder="Choose a message template" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {templates.map(t => (
+                              <SelectItem key={t.id} value={t.id}>{t.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      {(action.type === 'assign_lead' || action.type === 'create_task') && (
+                        <Select value={action.assigned_to || ''} onValueChange={(value) => updateAction(index, { assigned_to: value })}>
+                          <SelectTrigger>
+                            <SelectValue placeholder={action.type === 'assign_lead' ? 'Assign to' : 'Assign task to (optional)'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {people.map(p => (
+                              <SelectItem key={p.id} value={p.id}>{p.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+
+                      {action.type === 'create_task' && (
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                          <Input
+                            className="md:col-span-2"
+                            value={action.title || ''}
+                            placeholder="Task title, e.g. Call {{first_name}} about {{invoice_number}}"
+                            onChange={(e) => updateAction(index, { title: e.target.value })}
+                          />
+                          <Input
+                            type="number"
+                            min="0"
+                            value={action.due_in_days ?? ''}
+                            placeholder="Due in days"
+                            onChange={(e) => updateAction(index, { due_in_days: e.target.value === '' ? undefined : parseInt(e.target.value) || 0 })}
+                          />
+                          <Textarea
+                            className="md:col-span-3"
+                            rows={2}
+                            value={action.description || ''}
+                            placeholder="Details (optional)"
+                            onChange={(e) => updateAction(index, { description: e.target.value })}
+                          />
+                        </div>
+                      )}
+
+                      {action.type === 'call_webhook' && (
+                        <Input
+                          value={action.url || ''}
+                          placeholder="https://example.com/hooks/construyo"
+                          onChange={(e) => updateAction(index, { url: e.target.value })}
+                        />
+                      )}
+
+                      {action.type === 'apply_discount' && (
+                        <Select
+                          value={action.discount_rule_id || 'any'}
+                          onValueChange={(value) => updateAction(index, { discount_rule_id: value === 'any' ? undefined : value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="any">Every eligible discount rule</SelectItem>
+                            {discountRules.map(d => (
+                              <SelectItem key={d.id} value={d.id}>{d.label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                    </div>
+                  );
+                })}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    actions: [...prev.actions, { type: trigger.entity === 'invoice' ? 'create_task' : 'send_template' }],
+                  }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Action
+                </Button>
+              </div>
+
+              <div className="space-y-3 border rounded-md p-4">
+                <div className="flex items-center gap-2">
+                  <FlaskConical className="h-4 w-4" />
+                  <Label>Test this rule</Label>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  Checks the conditions against a real {trigger.entity} and shows what would happen. Nothing is sent or changed.
+                </p>
+                <div className="flex gap-2">
+                  <Select value={testEntityId} onValueChange={setTestEntityId}>
+                    <SelectTrigger>
+                      <SelectValue placeholder={`Choose a ${trigger.entity}`} />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {entities[trigger.entity].map(e => (
+                        <SelectItem key={e.id} value={e.id}>{e.label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button variant="outline" onClick={runTest} disabled={testing || !testEntityId}>
+                    {testing ? <Loader2 className="h-4 w-4 animate-spin" /> : 'Run Test'}
+                  </Button>
+                </div>
+
+                {testResult && (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2 font-medium">
+                      {testResult.matched
+                        ? <CheckCircle className="h-4 w-4 text-green-600" />
+                        : <XCircle className="h-4 w-4 text-muted-foreground" />}
+                      {testResult.matched ? 'Rule would run' : 'Conditions not met; rule would not run'}
+                    </div>
+                    {testResult.conditions.map((condition, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm">
+                        <span>{condition.condition}</span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          {Array.isArray(condition.actual) ? condition.actual.join(', ') : String(condition.actual ?? 'empty')}
+                          <Badge variant={condition.passed ? 'default' : 'outline'}>{condition.passed ? 'pass' : 'fail'}</Badge>
+                        </span>
+                      </div>
+                    ))}
+                    {testResult.actions.map((action, index) => (
+                      <div key={index} className="flex items-center justify-between text-sm">
+                        <span>{index + 1}. {action.detail}</span>
+                        <Badge variant={RESULT_VARIANTS[action.status] || 'outline'}>{action.status}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex gap-2">
+                <Button onClick={saveRule}>
+                  {editingRule ? 'Update Rule' : 'Create Rule'}
+                </Button>
+                <Button variant="outline" onClick={resetForm}>
+                  Cancel
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        <div className="grid gap-4">
+          {rules.map(rule => {
+            const conditions = (rule.conditions || {}) as { match?: string; rules?: RuleCondition[] };
+            const actions = (rule.actions || []) as unknown as ActionDraft[];
+            return (
+              <Card key={rule.id}>
+                <CardContent className="p-6">
+                  <div className="flex justify-between items-start">
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <h3 className="font-semibold">{rule.rule_name}</h3>
+                        <Badge variant="outline">{triggerConfig(rule.trigger_type).label}</Badge>
+                        <Badge variant="outline">Priority {rule.priority}</Badge>
+                        {!rule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                      </div>
+                      {rule.description && <p className="text-sm text-muted-foreground">{rule.description}</p>}
+                      <div className="text-sm text-muted-foreground">
+                        {conditions.rules?.length
+                          ? `${conditions.rules.length} condition${conditions.rules.length === 1 ? '' : 's'} (${conditions.match || 'all'})`
+                          : 'No conditions'}
+                        {' • '}
+                        {actions.map(describeAction).join(' → ') || 'No actions'}
+                      </div>
+                      <div className="text-xs text-muted-foreground">
+                        Ran {rule.run_count} time{rule.run_count === 1 ? '' : 's'}
+                        {rule.last_run_at && `, last ${formatDateTime(rule.last_run_at)}`}
+                      </div>
+                    </div>
+                    <div className="flex items-center gap-2">
+                      <Switch checked={rule.is_active ?? false} onCheckedChange={(checked) => toggleRule(rule, checked)} />
+                      <Button variant="ghost" size="sm" onClick={() => editRule(rule)}>
+                        <Edit className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => deleteRule(rule.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            );
+          })}
+
+          {rules.length === 0 && (
+            <Card>
+              <CardContent className="p-6 text-center">
+                <Workflow className="h-12 w-12 mx-auto text-muted-foreground mb-4" />
+                <h3 className="text-lg font-semibold mb-2">No automation rules yet</h3>
+                <p className="text-muted-foreground mb-4">
+                  Assign new leads, chase overdue invoices or follow up on feedback automatically
+                </p>
+                <Button onClick={() => setShowForm(true)}>Create Your First Rule</Button>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </TabsContent>
+
+      <TabsContent value="history">
+        <Card>
+          <CardHeader>
+            <CardTitle>Run History</CardTitle>
+            <CardDescription>The last 50 rule runs, including test runs</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {logs.map(log => {
+              const results = (Array.isArray(log.action_results) ? log.action_results : []) as unknown as ActionResult[];
+              return (
+                <div key={log.id} className="border-l-2 pl-3 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium text-sm">{ruleName(log.rule_id)}</span>
+                    <div className="flex items-center gap-2">
+                      {log.dry_run && <Badge variant="outline">test</Badge>}
+                      <Badge variant={RESULT_VARIANTS[log.status || ''] || 'outline'}>{(log.status || 'unknown').replace('_', ' ')}</Badge>
+                    </div>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {triggerConfig(log.event_type || '').label}
+                    {log.created_at && ` • ${formatDateTime(log.created_at)}`}
+                  </div>
+                  {results.map((result, index) => (
+                    <div key={index} className="text-sm text-muted-foreground">
+                      {result.status}: {result.detail}
+                    </div>
+                  ))}
+                  {log.error_message && <p className="text-xs text-destructive">{log.error_message}</p>}
+                </div>
+              );
+            })}
+            {logs.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">No rules have run yet</p>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+
+      <TabsContent value="tasks">
+        <Card>
+          <CardHeader>
+            <CardTitle>Open Tasks</CardTitle>
+            <CardDescription>Your open tasks, including those created by automation rules</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {tasks.map(task => (
+              <div key={task.id} className="flex items-start justify-between border rounded p-3">
+                <div className="space-y-1">
+                  <div className="font-medium">{task.title}</div>
+                  {task.description && <p className="text-sm text-muted-foreground">{task.description}</p>}
+                  <div className="text-xs text-muted-foreground">
+                    {task.due_date ? `Due ${new Date(task.due_date).toLocaleDateString('en-GB')}` : 'No due date'}
+                    {task.automation_rule_id && ` • from ${ruleName(task.automation_rule_id)}`}
+                  </div>
+                </div>
+                <Button variant="outline" size="sm" onClick={() => completeTask(task.id)}>
+                  <CheckCircle className="h-4 w-4 mr-1" />
+                  Done
+                </Button>
+              </div>
+            ))}
+            {tasks.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">No open tasks</p>
+            )}
+          </CardContent>
+        </Card>
+      </TabsContent>
+    </Tabs>
+  );
+}
@@ -8,6 +8,7 @@ import { Badge } from "@/components/ui/badge";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { toast } from "sonner";
+import { DEFAULT_CURRENCY, formatMoney, sumInBase } from "@/lib/currency";
 import { 
   Users, 
   Building, 
@@ -32,6 +33,9 @@ import { format } from "date-fns";
 import { CRMSyncButton } from "./CRMSyncButton";
 import { ExternalCRMSettings } from "./ExternalCRMSettings";
 import AddCustomerDialog from "./AddCustomerDialog";
+import AutomationRulesManager from "./AutomationRulesManager";
+import LeadScoreBadge from "./LeadScoreBadge";
+import type { Json } from "@/integrations/supabase/types";
 
 // Type definitions based on actual database schema
 interface Lead {
@@ -50,6 +54,9 @@ interface Lead {
   created_at: string;
   updated_at: string;
   converted_to_customer_id?: string;
+  score: number | null;
+  score_breakdown: Json;
+  scored_at: string | null;
 }
 
 interface Customer {
@@ -97,6 +104,8 @@ interface DashboardStats {
   activeCustomers: number;
   pendingInvoices: number;
   revenue: number;
+  revenueCurrency: string;
+  unconvertedInvoices: number;
 }
 
 /**
@@ -112,7 +121,9 @@ export default function CRMDashboard() {
     activeLeads: 0,
     activeCustomers: 0,
     pendingInvoices: 0,
-    revenue: 0
+    revenue: 0,
+    revenueCurrency: DEFAULT_CURRENCY,
+    unconvertedInvoices: 0
   });
 
   const [leads, setLeads] = useState<Lead[]>([]);
@@ -124,7 +135,7 @@ export default function CRMDashboard() {
   const [activeTab, setActiveTab] = useState("overview");
 
   // Filter states
-  const [leadFilter, setLeadFilter] = useState({ status: "", priority: "", search: "" });
+  const [leadFilter, setLeadFilter] = useState({ status: "", priority: "", search: "", sort: "newest" });
   const [customerFilter, setCustomerFilter] = useState({ status: "", search: "" });
   const [projectFilter, setProjectFilter] = useState({ status: "", search: "" });
   const [invoiceFilter, setInvoiceFilter] = useState({ status: "", search: "" });
@@ -162,7 +173,11 @@ export default function CRMDashboard() {
       let query = supabase
         .from('leads')
         .select('*')
-        .order('created_at', { ascending: false });
+        .is('archived_at', null);
+
+      query = leadFilter.sort === 'score'
+        ? query.order('score', { ascending: false, nullsFirst: false }).order('created_at', { ascending: false })
+        : query.order('created_at', { ascending: false });
 
       if (leadFilter.status) {
         query = query.eq('status', leadFilter.status as any);
@@ -287,17 +302,24 @@ export default function CRMDashboard() {
 
       if (!userRoles?.company_id) return;
 
-      const [leadsRes, customersRes, projectsRes, invoicesRes] = await Promise.all([
-        supabase.from('leads').select('status'),
+      const [leadsRes, customersRes, projectsRes, invoicesRes, companyRes] = await Promise.all([
+        supabase.from('leads').select('status').is('archived_at', null),
         supabase.from('customers').select('status'),
         supabase.from('projects').select('status, budget'),
-        supabase.from('invoices').select('status, amount')
+        supabase.from('invoices').select('status, amount, currency, base_currency, exchange_rate'),
+        supabase.from('companies').select('base_currency').eq('id', userRoles.company_id).single()
       ]);
 
       const activeLeads = leadsRes.data?.filter(l => ['new', 'contacted', 'qualified'].includes(l.status)).length || 0;
       const activeCustomers = customersRes.data?.filter(c => c.status === 'active').length || 0;
       const pendingInvoices = invoicesRes.data?.filter(i => i.status === 'pending').length || 0;
-      const revenue = invoicesRes.data?.filter(i => i.status === 'paid').reduce((sum, i) => sum + Number(i.amount), 0) || 0;
+      // Convert at each invoice's snapshot rate rather than adding up mixed currencies
+      const revenueCurrency = companyRes.data?.base_currency || DEFAULT_CURRENCY;
+      const revenue = sumInBase(
+        (invoicesRes.data || []).filter(i => i.status === 'paid'),
+        revenueCurrency,
+        i => Number(i.amount)
+      );
 
       setStats({
         totalLeads: leadsRes.data?.length || 0,
@@ -307,7 +329,9 @@ export default function CRMDashboard() {
         activeLeads,
         activeCustomers,
         pendingInvoices,
-        revenue
+        revenue: revenue.total,
+        revenueCurrency,
+        unconvertedInvoices: revenue.unconverted
       });
     } catch (error) {
       console.error("Error loading stats:", error);
@@ -552,9 +576,10 @@ export default function CRMDashboard() {
             <DollarSign className="h-4 w-4 text-muted-foreground" />
           </CardHeader>
           <CardContent>
-            <div className="text-2xl font-bold">£{stats.revenue.toLocaleString()}</div>
+            <div className="text-2xl font-bold">{formatMoney(stats.revenue, stats.revenueCurrency)}</div>
             <div className="text-xs text-muted-foreground">
               {stats.pendingInvoices} pending invoices
+              {stats.unconvertedInvoices > 0 && ` • ${stats.unconvertedInvoices} awaiting exchange rate`}
             </div>
           </CardContent>
         </Card>
@@ -562,11 +587,12 @@ export default function CRMDashboard() {
 
       {/* Main Content Tabs */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-5">
+        <TabsList className="grid w-full grid-cols-6">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="leads">Leads</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
           <TabsTrigger value="projects">Projects</TabsTrigger>
+          <TabsTrigger value="automation">Automation</TabsTrigger>
           <TabsTrigger value="settings">CRM Settings</TabsTrigger>
         </TabsList>
 
@@ -617,6 +643,18 @@ export default function CRMDashboard() {
                     <SelectItem value="lost">Lost</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select
+                  value={leadFilter.sort}
+                  onValueChange={(value) => setLeadFilter({...leadFilter, sort: value})}
+                >
+                  <SelectTrigger className="w-[170px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Newest first</SelectItem>
+                    <SelectItem value="score">Highest score first</SelectItem>
+                  </SelectContent>
+                </Select>
                 <Button onClick={loadLeads} disabled={loading}>
                   <Search className="w-4 h-4 mr-2" />
                   Filter
@@ -632,6 +670,7 @@ export default function CRMDashboard() {
                     <TableHead>Project Type</TableHead>
                     <TableHead>Status</TableHead>
                     <TableHead>Priority</TableHead>
+                    <TableHead>Score</TableHead>
                     <TableHead>Created</TableHead>
                     <TableHead>Actions</TableHead>
                   </TableRow>
@@ -657,6 +696,9 @@ export default function CRMDashboard() {
                           {lead.priority}
                         </Badge>
                       </TableCell>
+                      <TableCell>
+                        <LeadScoreBadge score={lead.score} breakdown={lead.score_breakdown} scoredAt={lead.scored_at} />
+                      </TableCell>
                       <TableCell>{format(new Date(lead.created_at), 'MMM dd, yyyy')}</TableCell>
                       <TableCell>
                         <div className="flex gap-2">
@@ -709,6 +751,10 @@ export default function CRMDashboard() {
             </CardContent>
           </Card>
         </TabsContent>
+        <TabsContent value="automation">
+          <AutomationRulesManager />
+        </TabsContent>
+
         <TabsContent value="settings">
           <ExternalCRMSettings />
         </TabsContent>
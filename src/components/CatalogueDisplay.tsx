@@ -253,27 +253,47 @@ export const CatalogueDisplay: React.FC<CatalogueDisplayProps> = ({
       }
 
       const [firstName, ...lastNameParts] = quoteForm.name.split(' ');
-      
-      const { data: lead, error: leadError } = await supabase
-        .from('leads')
-        .insert({
-          company_id: userRoles.company_id,
-          created_by: user.id,
+      const lastName = lastNameParts.join(' ') || firstName;
+      const notes = `Budget: ${quoteForm.budget}, Timeline: ${quoteForm.timeline}. Quote request from microsite catalogue for: ${quoteForm.serviceName}`;
+
+      // A repeat request goes on the existing lead when catalogue requests are set to attach
+      const { data: attachedLeadId, error: attachError } = await supabase.rpc('attach_to_existing_lead', {
+        p_channel: 'catalogue',
+        p_contact: {
           first_name: firstName,
-          last_name: lastNameParts.join(' ') || firstName,
+          last_name: lastName,
           email: quoteForm.email,
           phone: quoteForm.phone,
           project_type: quoteForm.serviceName,
           project_description: quoteForm.message,
-          lead_source: `Catalogue: ${quoteForm.serviceName}`,
-          notes: `Budget: ${quoteForm.budget}, Timeline: ${quoteForm.timeline}. Quote request from microsite catalogue for: ${quoteForm.serviceName}`,
-          priority: 'high', // Quote requests are high priority
-          status: 'new'
-        })
-        .select()
-        .single();
-
-      if (leadError) throw leadError;
+          notes,
+        },
+      });
+      if (attachError) console.error('Duplicate check failed, creating a new lead:', attachError);
+
+      let leadId = attachedLeadId;
+      if (!leadId) {
+        const { data: lead, error: leadError } = await supabase
+          .from('leads')
+          .insert({
+            company_id: userRoles.company_id,
+            created_by: user.id,
+            first_name: firstName,
+            last_name: lastName,
+            email: quoteForm.email,
+            phone: quoteForm.phone,
+            project_type: quoteForm.serviceName,
+            project_description: quoteForm.message,
+            lead_source: `Catalogue: ${quoteForm.serviceName}`,
+            notes,
+            status: 'new'
+          })
+          .select()
+          .single();
+
+        if (leadError) throw leadError;
+        leadId = lead.id;
+      }
 
       // Track the quote request
       await trackQuoteRequest(quoteForm.serviceId, quoteForm.serviceName);
@@ -284,7 +304,7 @@ export const CatalogueDisplay: React.FC<CatalogueDisplayProps> = ({
           console.log('🔗 Syncing quote request to external CRM via Zapier...');
           
           const zapierData = {
-            leadId: lead.id,
+            leadId,
             customerName: quoteForm.name,
             email: quoteForm.email,
             phone: quoteForm.phone,
@@ -334,7 +354,8 @@ export const CatalogueDisplay: React.FC<CatalogueDisplayProps> = ({
       setSelectedService(null);
 
       console.log('✅ Quote request processed successfully:', {
-        leadId: lead.id,
+        leadId,
+        attachedToExisting: !!attachedLeadId,
         service: quoteForm.serviceName,
         customer: quoteForm.name
       });
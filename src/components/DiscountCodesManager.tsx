@@ -0,0 +1,489 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Edit, Plus, RefreshCw, Ticket, Trash2 } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import { supabase } from '@/integrations/supabase/client';
+
+/**
+ * Promo codes customers can enter on microsite quote forms and payment link
+ * pages. Each code redeems one discount rule; the rule's conditions and
+ * stacking settings still apply.
+ */
+
+type Channel = 'microsite' | 'payment_link';
+
+const CHANNELS: { value: Channel; label: string }[] = [
+  { value: 'microsite', label: 'Microsite quote form' },
+  { value: 'payment_link', label: 'Payment link page' },
+];
+
+// No 0/O or 1/I so codes read back over the phone
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_PATTERN = /^[A-Z0-9-]{6,32}$/;
+
+const generateCode = (length = 8) => {
+  const bytes = crypto.getRandomValues(new Uint8Array(length));
+  return Array.from(bytes, byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+};
+
+interface DiscountCode {
+  id: string;
+  discount_rule_id: string;
+  code: string;
+  description: string | null;
+  max_redemptions: number | null;
+  max_redemptions_per_customer: number | null;
+  redemption_count: number;
+  starts_at: string | null;
+  expires_at: string | null;
+  channels: string[];
+  is_active: boolean;
+}
+
+interface RuleOption {
+  id: string;
+  rule_name: string;
+  discount_type: string;
+  discount_value: number;
+}
+
+interface CodeForm {
+  code: string;
+  discount_rule_id: string;
+  description: string;
+  max_redemptions: string;
+  max_redemptions_per_customer: string;
+  starts_at: string;
+  expires_at: string;
+  channels: Channel[];
+  is_active: boolean;
+}
+
+const emptyForm = (): CodeForm => ({
+  code: generateCode(),
+  discount_rule_id: '',
+  description: '',
+  max_redemptions: '',
+  max_redemptions_per_customer: '1',
+  starts_at: '',
+  expires_at: '',
+  channels: ['microsite', 'payment_link'],
+  is_active: true,
+});
+
+const DiscountCodesManager: React.FC = () => {
+  const [codes, setCodes] = useState<DiscountCode[]>([]);
+  const [rules, setRules] = useState<RuleOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showForm, setShowForm] = useState(false);
+  const [editingCode, setEditingCode] = useState<DiscountCode | null>(null);
+  const [formData, setFormData] = useState<CodeForm>(emptyForm());
+  const { toast } = useToast();
+
+  useEffect(() => {
+    fetchCodes();
+  }, []);
+
+  const fetchCodes = async () => {
+    try {
+      const [codesRes, rulesRes] = await Promise.all([
+        supabase.from('discount_codes').select('*').order('created_at', { ascending: false }),
+        supabase.from('discount_rules').select('id, rule_name, discount_type, discount_value').order('rule_name'),
+      ]);
+
+      if (codesRes.error) throw codesRes.error;
+      setCodes(codesRes.data || []);
+      setRules(rulesRes.data || []);
+    } catch (error) {
+      console.error('Error fetching discount codes:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to fetch discount codes',
+        variant: 'destructive',
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const resetForm = () => {
+    setFormData(emptyForm());
+    setEditingCode(null);
+    setShowForm(false);
+  };
+
+  const saveCode = async () => {
+    const code = formData.code.trim().toUpperCase();
+    if (!CODE_PATTERN.test(code)) {
+      toast({
+        title: 'Invalid code',
+        description: 'Codes are 6-32 letters, numbers or dashes',
+        variant: 'destructive',
+      });
+      return;
+    }
+    if (!formData.discount_rule_id || formData.channels.length === 0) {
+      toast({
+        title: 'Missing details',
+        description: 'Choose a discount rule and at least one place the code can be used',
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('User not authenticated');
+
+      const codeData = {
+        user_id: userData.user.id,
+        code,
+        discount_rule_id: formData.discount_rule_id,
+        description: formData.description.trim() || null,
+        max_redemptions: formData.max_redemptions ? parseInt(formData.max_redemptions) : null,
+        max_redemptions_per_customer: formData.max_redemptions_per_customer ? parseInt(formData.max_redemptions_per_customer) : null,
+        starts_at: formData.starts_at ? new Date(formData.starts_at).toISOString() : null,
+        expires_at: formData.expires_at ? new Date(`${formData.expires_at}T23:59:59`).toISOString() : null,
+        channels: formData.channels,
+        is_active: formData.is_active,
+      };
+
+      const { error } = editingCode
+        ? await supabase.from('discount_codes').update(codeData).eq('id', editingCode.id)
+        : await supabase.from('discount_codes').insert(codeData);
+
+      if (error) {
+        if (error.code === '23505') throw new Error(`You already have a code ${code}`);
+        throw error;
+      }
+
+      toast({
+        title: 'Success',
+        description: editingCode ? 'Discount code updated successfully' : 'Discount code created successfully',
+      });
+      await fetchCodes();
+      resetForm();
+    } catch (error) {
+      console.error('Error saving discount code:', error);
+      toast({
+        title: 'Error',
+        description: error instanceof Error ? error.message : 'Failed to save discount code',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const toggleActive = async (code: DiscountCode) => {
+    const { error } = await supabase
+      .from('discount_codes')
+      .update({ is_active: !code.is_active })
+      .eq('id', code.id);
+
+    if (error) {
+      toast({ title: 'Error', description: 'Failed to update discount code', variant: 'destructive' });
+      return;
+    }
+    setCodes(prev => prev.map(existing => existing.id === code.id ? { ...existing, is_active: !code.is_active } : existing));
+  };
+
+  const deleteCode = async (codeId: string) => {
+    try {
+      const { error } = await supabase
+        .from('discount_codes')
+        .delete()
+        .eq('id', codeId);
+
+      if (error) throw error;
+
+      toast({
+        title: 'Success',
+        description: 'Discount code deleted successfully',
+      });
+      await fetchCodes();
+    } catch (error) {
+      console.error('Error deleting discount code:', error);
+      toast({
+        title: 'Error',
+        description: 'Failed to delete discount code',
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const editCode = (code: DiscountCode) => {
+    setEditingCode(code);
+    setFormData({
+      code: code.code,
+      discount_rule_id: code.discount_rule_id,
+      description: code.description || '',
+      max_redemptions: code.max_redemptions ? String(code.max_redemptions) : '',
+      max_redemptions_per_customer: code.max_redemptions_per_customer ? String(code.max_redemptions_per_customer) : '',
+      starts_at: code.starts_at ? code.starts_at.split('T')[0] : '',
+      expires_at: code.expires_at ? code.expires_at.split('T')[0] : '',
+      channels: code.channels as Channel[],
+      is_active: code.is_active,
+    });
+    setShowForm(true);
+  };
+
+  const toggleChannel = (channel: Channel, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      channels: checked ? [...prev.channels, channel] : prev.channels.filter(existing => existing !== channel),
+    }));
+  };
+
+  const describeRule = (ruleId: string) => {
+    const rule = rules.find(option => option.id === ruleId);
+    if (!rule) return 'Unknown rule';
+    const amount = rule.discount_type === 'percentage' ? `${rule.discount_value}%` : `£${rule.discount_value}`;
+    return `${rule.rule_name} (${amount} off)`;
+  };
+
+  const getStatus = (code: DiscountCode) => {
+    if (!code.is_active) return { label: 'Inactive', variant: 'secondary' as const };
+    if (code.expires_at && new Date(code.expires_at) < new Date()) return { label: 'Expired', variant: 'secondary' as const };
+    if (code.max_redemptions && code.redemption_count >= code.max_redemptions) return { label: 'Used up', variant: 'secondary' as const };
+    if (code.starts_at && new Date(code.starts_at) > new Date()) return { label: 'Scheduled', variant: 'outline' as const };
+    return { label: 'Live', variant: 'default' as const };
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">Loading discount codes...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex justify-between items-center">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Ticket className="h-5 w-5" />
+              Promo Codes
+            </CardTitle>
+            <CardDescription>
+              Codes customers enter on your microsites and payment pages to redeem a discount rule
+            </CardDescription>
+          </div>
+          <Button onClick={() => setShowForm(true)} className="gap-2" disabled={rules.length === 0}>
+            <Plus className="h-4 w-4" />
+            Add Code
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {rules.length === 0 && (
+          <p className="text-sm text-muted-foreground">Create a discount rule first, then add codes that redeem it.</p>
+        )}
+
+        {showForm && (
+          <div className="space-y-4 p-4 border rounded-lg">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="code">Code</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="code"
+                    value={formData.code}
+                    onChange={(e) => setFormData(prev => ({ ...prev, code: e.target.value.toUpperCase() }))}
+                    maxLength={32}
+                  />
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="icon"
+                    onClick={() => setFormData(prev => ({ ...prev, code: generateCode() }))}
+                    title="Generate a random code"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Discount Rule</Label>
+                <Select
+                  value={formData.discount_rule_id}
+                  onValueChange={(value) => setFormData(prev => ({ ...prev, discount_rule_id: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a rule" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {rules.map(rule => (
+                      <SelectItem key={rule.id} value={rule.id}>{describeRule(rule.id)}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2 md:col-span-2">
+                <Label htmlFor="code_description">Description (internal)</Label>
+                <Input
+                  id="code_description"
+                  value={formData.description}
+                  onChange={(e) => setFormData(prev => ({ ...prev, description: e.target.value }))}
+                  placeholder="e.g. Spring leaflet drop"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max_redemptions">Total Redemptions</Label>
+                <Input
+                  id="max_redemptions"
+                  type="number"
+                  min={1}
+                  value={formData.max_redemptions}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions: e.target.value }))}
+                  placeholder="Unlimited (1 for single-use)"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="max_per_customer">Redemptions per Customer</Label>
+                <Input
+                  id="max_per_customer"
+                  type="number"
+                  min={1}
+                  value={formData.max_redemptions_per_customer}
+                  onChange={(e) => setFormData(prev => ({ ...prev, max_redemptions_per_customer: e.target.value }))}
+                  placeholder="Unlimited"
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="starts_at">Starts</Label>
+                <Input
+                  id="starts_at"
+                  type="date"
+                  value={formData.starts_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, starts_at: e.target.value }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="expires_at">Expires</Label>
+                <Input
+                  id="expires_at"
+                  type="date"
+                  value={formData.expires_at}
+                  onChange={(e) => setFormData(prev => ({ ...prev, expires_at: e.target.value }))}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Can be used on</Label>
+              <div className="flex flex-wrap gap-4">
+                {CHANNELS.map(channel => (
+                  <label key={channel.value} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={formData.channels.includes(channel.value)}
+                      onCheckedChange={(checked) => toggleChannel(channel.value, checked === true)}
+                    />
+                    {channel.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="code_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_active: checked }))}
+              />
+              <Label htmlFor="code_active">Active</Label>
+            </div>
+
+            <div className="flex gap-2">
+              <Button onClick={saveCode}>
+                {editingCode ? 'Update Code' : 'Create Code'}
+              </Button>
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {codes.length > 0 ? (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Code</TableHead>
+                <TableHead>Discount</TableHead>
+                <TableHead>Redeemed</TableHead>
+                <TableHead>Expires</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead className="text-right">Actions</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {codes.map(code => {
+                const status = getStatus(code);
+                return (
+                  <TableRow key={code.id}>
+                    <TableCell>
+                      <div className="font-mono font-medium">{code.code}</div>
+                      {code.description && <div className="text-xs text-muted-foreground">{code.description}</div>}
+                    </TableCell>
+                    <TableCell className="text-sm">{describeRule(code.discount_rule_id)}</TableCell>
+                    <TableCell className="text-sm">
+                      {code.redemption_count}{code.max_redemptions ? ` / ${code.max_redemptions}` : ''}
+                    </TableCell>
+                    <TableCell className="text-sm">
+                      {code.expires_at ? new Date(code.expires_at).toLocaleDateString('en-GB') : 'Never'}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end items-center gap-2">
+                        <Switch checked={code.is_active} onCheckedChange={() => toggleActive(code)} />
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => {
+                            navigator.clipboard.writeText(code.code);
+                            toast({ title: 'Copied', description: `${code.code} copied to clipboard` });
+                          }}
+                        >
+                          <Copy className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => editCode(code)}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button variant="ghost" size="sm" onClick={() => deleteCode(code.id)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        ) : (
+          !showForm && <p className="text-sm text-muted-foreground text-center py-4">No promo codes yet</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DiscountCodesManager;
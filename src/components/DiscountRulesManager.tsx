@@ -6,9 +6,109 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
-import { Trash2, Edit, Plus, Percent, DollarSign, Users, Volume2, Calendar, Settings } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Trash2, Edit, Plus, Percent, DollarSign, Users, Volume2, Calendar, Settings, FlaskConical, Layers, Lock } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
 import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+
+type ConditionField = 'project_type' | 'lead_source' | 'postcode' | 'customer_tags' | 'invoice_date' | 'invoice_amount';
+
+interface DiscountCondition {
+  field: ConditionField;
+  operator: string;
+  value: string | number | (string | number)[];
+}
+
+// Editable form of a condition; list values are typed comma-separated
+interface ConditionDraft {
+  field: ConditionField;
+  operator: string;
+  value: string;
+  valueTo: string;
+}
+
+interface RuleEvaluation {
+  rule_id: string;
+  rule_name: string;
+  priority: number;
+  stacking_group: string | null;
+  eligible: boolean;
+  applied: boolean;
+  reason: string;
+  discount_amount: number;
+  amount_before: number;
+  amount_after: number;
+}
+
+interface DryRunResult {
+  alreadyDiscounted: boolean;
+  data: {
+    originalAmount: number;
+    totalDiscount: number;
+    finalAmount: number;
+    evaluations: RuleEvaluation[];
+  };
+}
+
+interface InvoiceOption {
+  id: string;
+  invoice_number: string;
+  customer_name: string;
+  amount: number;
+  lead_id: string | null;
+}
+
+const CONDITION_FIELDS: { value: ConditionField; label: string; operators: string[] }[] = [
+  { value: 'project_type', label: 'Project type', operators: ['equals', 'not_equals', 'in', 'not_in'] },
+  { value: 'lead_source', label: 'Lead source', operators: ['equals', 'not_equals', 'in', 'not_in'] },
+  { value: 'postcode', label: 'Postcode', operators: ['starts_with', 'not_in'] },
+  { value: 'customer_tags', label: 'Customer tags', operators: ['contains_any', 'contains_all', 'not_in'] },
+  { value: 'invoice_date', label: 'Invoice date', operators: ['between', 'gte', 'lte'] },
+  { value: 'invoice_amount', label: 'Invoice amount', operators: ['gte', 'lte', 'between'] },
+];
+
+const OPERATOR_LABELS: Record<string, string> = {
+  equals: 'is',
+  not_equals: 'is not',
+  in: 'is one of',
+  not_in: 'is none of',
+  starts_with: 'starts with any of',
+  contains_any: 'include any of',
+  contains_all: 'include all of',
+  gte: 'is on or after / at least',
+  lte: 'is on or before / at most',
+  between: 'is between',
+};
+
+const LIST_OPERATORS = ['in', 'not_in', 'starts_with', 'contains_any', 'contains_all'];
+
+const toConditionDraft = (condition: DiscountCondition): ConditionDraft => {
+  const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+  return {
+    field: condition.field,
+    operator: condition.operator,
+    value: condition.operator === 'between' ? String(values[0] ?? '') : values.join(', '),
+    valueTo: condition.operator === 'between' ? String(values[1] ?? '') : '',
+  };
+};
+
+const fromConditionDraft = (draft: ConditionDraft): DiscountCondition => {
+  const numeric = draft.field === 'invoice_amount';
+  const parse = (value: string) => (numeric ? parseFloat(value) || 0 : value.trim());
+
+  if (draft.operator === 'between') {
+    return { field: draft.field, operator: draft.operator, value: [parse(draft.value), parse(draft.valueTo)] };
+  }
+  if (LIST_OPERATORS.includes(draft.operator)) {
+    return {
+      field: draft.field,
+      operator: draft.operator,
+      value: draft.value.split(',').map(value => value.trim()).filter(Boolean),
+    };
+  }
+  return { field: draft.field, operator: draft.operator, value: parse(draft.value) };
+};
 
 interface DiscountRule {
   id: string;
@@ -22,42 +122,98 @@ interface DiscountRule {
   is_active: boolean;
   valid_from?: string;
   valid_until?: string;
+  priority: number;
+  stacking_group: string | null;
+  is_exclusive: boolean;
   created_at: string;
   updated_at: string;
 }
 
+const emptyForm = () => ({
+  rule_name: '',
+  rule_type: 'referral',
+  discount_type: 'percentage',
+  discount_value: 0,
+  conditions: {
+    min_amount: 0,
+    min_previous_orders: 2,
+    match: 'all' as 'all' | 'any',
+  },
+  conditionRules: [] as ConditionDraft[],
+  max_usage: undefined as number | undefined,
+  is_active: true,
+  valid_from: '',
+  valid_until: '',
+  priority: 0,
+  stacking_group: '',
+  is_exclusive: false,
+});
+
 const DiscountRulesManager: React.FC = () => {
   const [rules, setRules] = useState<DiscountRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [editingRule, setEditingRule] = useState<DiscountRule | null>(null);
   const [showForm, setShowForm] = useState(false);
+  const [invoices, setInvoices] = useState<InvoiceOption[]>([]);
+  const [dryRunInvoiceId, setDryRunInvoiceId] = useState('');
+  const [dryRun, setDryRun] = useState<DryRunResult | null>(null);
+  const [dryRunning, setDryRunning] = useState(false);
   const { toast } = useToast();
 
   // Form state
-  const [formData, setFormData] = useState({
-    rule_name: '',
-    rule_type: 'referral',
-    discount_type: 'percentage',
-    discount_value: 0,
-    conditions: {
-      min_amount: 0,
-      min_previous_orders: 2,
-    },
-    max_usage: undefined as number | undefined,
-    is_active: true,
-    valid_from: '',
-    valid_until: '',
-  });
+  const [formData, setFormData] = useState(emptyForm());
 
   useEffect(() => {
     fetchDiscountRules();
+    fetchInvoices();
   }, []);
 
+  const fetchInvoices = async () => {
+    const { data, error } = await supabase
+      .from('construyo_invoices')
+      .select('id, invoice_number, customer_name, amount, lead_id')
+      .in('status', ['draft', 'sent', 'overdue'])
+      .order('created_at', { ascending: false })
+      .limit(50);
+
+    if (error) {
+      console.error('Error fetching invoices:', error);
+      return;
+    }
+    setInvoices(data || []);
+  };
+
+  const runDryRun = async (invoiceId: string) => {
+    setDryRunInvoiceId(invoiceId);
+    setDryRunning(true);
+    try {
+      const invoice = invoices.find(inv => inv.id === invoiceId);
+      const { data, error } = await supabase.functions.invoke('discount-automation', {
+        body: { invoiceId, leadId: invoice?.lead_id, dryRun: true },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+      setDryRun(data as DryRunResult);
+    } catch (error) {
+      console.error('Error running discount dry run:', error);
+      setDryRun(null);
+      toast({
+        title: 'Error',
+        description: 'Failed to evaluate discounts for this invoice',
+        variant: 'destructive',
+      });
+    } finally {
+      setDryRunning(false);
+    }
+  };
+
   const fetchDiscountRules = async () => {
     try {
       const { data, error } = await supabase
         .from('discount_rules')
         .select('*')
+        .order('priority', { ascending: false })
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -75,20 +231,7 @@ const DiscountRulesManager: React.FC = () => {
   };
 
   const resetForm = () => {
-    setFormData({
-      rule_name: '',
-      rule_type: 'referral',
-      discount_type: 'percentage',
-      discount_value: 0,
-      conditions: {
-        min_amount: 0,
-        min_previous_orders: 2,
-      },
-      max_usage: undefined,
-      is_active: true,
-      valid_from: '',
-      valid_until: '',
-    });
+    setFormData(emptyForm());
     setEditingRule(null);
     setShowForm(false);
   };
@@ -98,13 +241,17 @@ const DiscountRulesManager: React.FC = () => {
       const { data: userData } = await supabase.auth.getUser();
       if (!userData.user) throw new Error('User not authenticated');
 
+      const { conditionRules, ...fields } = formData;
       const ruleData = {
-        ...formData,
+        ...fields,
         user_id: userData.user.id,
-        conditions: formData.conditions,
+        conditions: formData.rule_type === 'custom'
+          ? { ...formData.conditions, rules: conditionRules.map(fromConditionDraft) } as unknown as Json
+          : formData.conditions,
         max_usage: formData.max_usage || null,
         valid_from: formData.valid_from || null,
         valid_until: formData.valid_until || null,
+        stacking_group: formData.stacking_group.trim() || null,
       };
 
       if (editingRule) {
@@ -170,23 +317,41 @@ const DiscountRulesManager: React.FC = () => {
   };
 
   const editRule = (rule: DiscountRule) => {
+    const { rules: conditionRules = [], ...conditions } = typeof rule.conditions === 'string' 
+      ? JSON.parse(rule.conditions) 
+      : rule.conditions || {};
     setEditingRule(rule);
     setFormData({
       rule_name: rule.rule_name,
       rule_type: rule.rule_type,
       discount_type: rule.discount_type,
       discount_value: rule.discount_value,
-      conditions: typeof rule.conditions === 'string' 
-        ? JSON.parse(rule.conditions) 
-        : rule.conditions,
+      conditions: { ...emptyForm().conditions, ...conditions },
+      conditionRules: (conditionRules as DiscountCondition[]).map(toConditionDraft),
       max_usage: rule.max_usage || undefined,
       is_active: rule.is_active,
       valid_from: rule.valid_from ? rule.valid_from.split('T')[0] : '',
       valid_until: rule.valid_until ? rule.valid_until.split('T')[0] : '',
+      priority: rule.priority ?? 0,
+      stacking_group: rule.stacking_group || '',
+      is_exclusive: rule.is_exclusive ?? false,
     });
     setShowForm(true);
   };
 
+  const updateCondition = (index: number, changes: Partial<ConditionDraft>) => {
+    setFormData(prev => ({
+      ...prev,
+      conditionRules: prev.conditionRules.map((condition, i) => {
+        if (i !== index) return condition;
+        const updated = { ...condition, ...changes };
+        // Keep the operator valid for the chosen field
+        const operators = CONDITION_FIELDS.find(field => field.value === updated.field)!.operators;
+        return operators.includes(updated.operator) ? updated : { ...updated, operator: operators[0] };
+      }),
+    }));
+  };
+
   const getRuleTypeIcon = (ruleType: string) => {
     switch (ruleType) {
       case 'referral': return <Users className="h-4 w-4" />;
@@ -366,47 +531,179 @@ const DiscountRulesManager: React.FC = () => {
                 />
               </div>
 
-              {formData.rule_type === 'seasonal' && (
-                <>
-                  <div className="space-y-2">
-                    <Label htmlFor="valid_from">Valid From</Label>
-                    <Input
-                      id="valid_from"
-                      type="date"
-                      value={formData.valid_from}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        valid_from: e.target.value
-                      }))}
-                    />
-                  </div>
+              <div className="space-y-2">
+                <Label htmlFor="priority">Priority</Label>
+                <Input
+                  id="priority"
+                  type="number"
+                  value={formData.priority}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    priority: parseInt(e.target.value) || 0
+                  }))}
+                />
+                <p className="text-xs text-muted-foreground">Higher priority rules are applied first</p>
+              </div>
 
-                  <div className="space-y-2">
-                    <Label htmlFor="valid_until">Valid Until</Label>
-                    <Input
-                      id="valid_until"
-                      type="date"
-                      value={formData.valid_until}
-                      onChange={(e) => setFormData(prev => ({
-                        ...prev,
-                        valid_until: e.target.value
-                      }))}
-                    />
-                  </div>
-                </>
-              )}
+              <div className="space-y-2">
+                <Label htmlFor="stacking_group">Stacking Group (optional)</Label>
+                <Input
+                  id="stacking_group"
+                  value={formData.stacking_group}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    stacking_group: e.target.value
+                  }))}
+                  placeholder="e.g., promotions"
+                />
+                <p className="text-xs text-muted-foreground">Only one rule from each group applies to an invoice</p>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="valid_from">Valid From{formData.rule_type !== 'seasonal' && ' (optional)'}</Label>
+                <Input
+                  id="valid_from"
+                  type="date"
+                  value={formData.valid_from}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    valid_from: e.target.value
+                  }))}
+                />
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="valid_until">Valid Until{formData.rule_type !== 'seasonal' && ' (optional)'}</Label>
+                <Input
+                  id="valid_until"
+                  type="date"
+                  value={formData.valid_until}
+                  onChange={(e) => setFormData(prev => ({
+                    ...prev,
+                    valid_until: e.target.value
+                  }))}
+                />
+              </div>
             </div>
 
-            <div className="flex items-center space-x-2">
-              <Switch
-                id="is_active"
-                checked={formData.is_active}
-                onCheckedChange={(checked) => setFormData(prev => ({
-                  ...prev,
-                  is_active: checked
-                }))}
-              />
-              <Label htmlFor="is_active">Active</Label>
+            {formData.rule_type === 'custom' && (
+              <div className="space-y-3 border rounded-md p-4">
+                <div className="flex items-center gap-2">
+                  <Label>Apply when</Label>
+                  <Select
+                    value={formData.conditions.match}
+                    onValueChange={(value) => setFormData(prev => ({
+                      ...prev,
+                      conditions: { ...prev.conditions, match: value as 'all' | 'any' }
+                    }))}
+                  >
+                    <SelectTrigger className="w-24">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="all">all</SelectItem>
+                      <SelectItem value="any">any</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <span className="text-sm">of these conditions match</span>
+                </div>
+
+                {formData.conditionRules.map((condition, index) => {
+                  const fieldConfig = CONDITION_FIELDS.find(field => field.value === condition.field)!;
+                  const inputType = condition.field === 'invoice_date' ? 'date' : condition.field === 'invoice_amount' ? 'number' : 'text';
+                  return (
+                    <div key={index} className="flex flex-wrap items-center gap-2">
+                      <Select value={condition.field} onValueChange={(value) => updateCondition(index, { field: value as ConditionField })}>
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CONDITION_FIELDS.map(field => (
+                            <SelectItem key={field.value} value={field.value}>{field.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Select value={condition.operator} onValueChange={(value) => updateCondition(index, { operator: value })}>
+                        <SelectTrigger className="w-48">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {fieldConfig.operators.map(operator => (
+                            <SelectItem key={operator} value={operator}>{OPERATOR_LABELS[operator]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <Input
+                        className="flex-1 min-w-[140px]"
+                        type={inputType}
+                        value={condition.value}
+                        placeholder={LIST_OPERATORS.includes(condition.operator) ? 'Comma-separated, e.g. kitchen, bathroom' : ''}
+                        onChange={(e) => updateCondition(index, { value: e.target.value })}
+                      />
+                      {condition.operator === 'between' && (
+                        <>
+                          <span className="text-sm">and</span>
+                          <Input
+                            className="flex-1 min-w-[140px]"
+                            type={inputType}
+                            value={condition.valueTo}
+                            onChange={(e) => updateCondition(index, { valueTo: e.target.value })}
+                          />
+                        </>
+                      )}
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => setFormData(prev => ({
+                          ...prev,
+                          conditionRules: prev.conditionRules.filter((_, i) => i !== index)
+                        }))}
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  );
+                })}
+
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="gap-2"
+                  onClick={() => setFormData(prev => ({
+                    ...prev,
+                    conditionRules: [...prev.conditionRules, { field: 'project_type', operator: 'equals', value: '', valueTo: '' }]
+                  }))}
+                >
+                  <Plus className="h-4 w-4" />
+                  Add Condition
+                </Button>
+              </div>
+            )}
+
+            <div className="flex items-center gap-6">
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="is_active"
+                  checked={formData.is_active}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    is_active: checked
+                  }))}
+                />
+                <Label htmlFor="is_active">Active</Label>
+              </div>
+
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="is_exclusive"
+                  checked={formData.is_exclusive}
+                  onCheckedChange={(checked) => setFormData(prev => ({
+                    ...prev,
+                    is_exclusive: checked
+                  }))}
+                />
+                <Label htmlFor="is_exclusive">Exclusive (never combined with other discounts)</Label>
+              </div>
             </div>
 
             <div className="flex gap-2">
@@ -435,6 +732,19 @@ const DiscountRulesManager: React.FC = () => {
                         {rule.rule_type.replace('_', ' ')}
                       </span>
                     </Badge>
+                    <Badge variant="outline">Priority {rule.priority}</Badge>
+                    {rule.stacking_group && (
+                      <Badge variant="outline" className="gap-1">
+                        <Layers className="h-3 w-3" />
+                        {rule.stacking_group}
+                      </Badge>
+                    )}
+                    {rule.is_exclusive && (
+                      <Badge variant="outline" className="gap-1">
+                        <Lock className="h-3 w-3" />
+                        Exclusive
+                      </Badge>
+                    )}
                     {!rule.is_active && (
                       <Badge variant="secondary">Inactive</Badge>
                     )}
@@ -462,7 +772,15 @@ const DiscountRulesManager: React.FC = () => {
                     )}
                   </div>
 
-                  {rule.rule_type === 'seasonal' && (rule.valid_from || rule.valid_until) && (
+                  {rule.rule_type === 'custom' && rule.conditions?.rules?.length > 0 && (
+                    <div className="text-xs text-muted-foreground">
+                      When {rule.conditions.match === 'any' ? 'any' : 'all'} of: {(rule.conditions.rules as DiscountCondition[]).map(condition =>
+                        `${CONDITION_FIELDS.find(field => field.value === condition.field)?.label || condition.field} ${OPERATOR_LABELS[condition.operator] || condition.operator} ${Array.isArray(condition.value) ? condition.value.join(condition.operator === 'between' ? ' and ' : ', ') : condition.value}`
+                      ).join('; ')}
+                    </div>
+                  )}
+
+                  {(rule.valid_from || rule.valid_until) && (
                     <div className="text-xs text-muted-foreground">
                       Valid: {rule.valid_from ? new Date(rule.valid_from).toLocaleDateString() : 'Always'} - {rule.valid_until ? new Date(rule.valid_until).toLocaleDateString() : 'Always'}
                     </div>
@@ -500,6 +818,81 @@ const DiscountRulesManager: React.FC = () => {
           </Card>
         )}
       </div>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Dry Run
+          </CardTitle>
+          <CardDescription>
+            See which discounts would apply to an invoice, in order, without applying them
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <Select value={dryRunInvoiceId} onValueChange={runDryRun}>
+            <SelectTrigger className="max-w-md">
+              <SelectValue placeholder={invoices.length ? 'Choose an invoice' : 'No open invoices'} />
+            </SelectTrigger>
+            <SelectContent>
+              {invoices.map(invoice => (
+                <SelectItem key={invoice.id} value={invoice.id}>
+                  {invoice.invoice_number} — {invoice.customer_name} (${Number(invoice.amount).toFixed(2)})
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+
+          {dryRunning && <div className="text-sm text-muted-foreground">Evaluating discount rules...</div>}
+
+          {dryRun && !dryRunning && (
+            <div className="space-y-4">
+              {dryRun.alreadyDiscounted && (
+                <div className="text-sm text-orange-700">
+                  Discounts have already been applied to this invoice, so applying again will be refused.
+                </div>
+              )}
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead>Priority</TableHead>
+                    <TableHead>Result</TableHead>
+                    <TableHead className="text-right">Discount</TableHead>
+                    <TableHead className="text-right">Running Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {dryRun.data.evaluations.map(evaluation => (
+                    <TableRow key={evaluation.rule_id} className={evaluation.applied ? '' : 'text-muted-foreground'}>
+                      <TableCell>
+                        {evaluation.rule_name}
+                        {evaluation.stacking_group && <span className="text-xs ml-2">({evaluation.stacking_group})</span>}
+                      </TableCell>
+                      <TableCell>{evaluation.priority}</TableCell>
+                      <TableCell>
+                        <Badge variant={evaluation.applied ? 'default' : 'secondary'}>
+                          {evaluation.applied ? 'Applies' : evaluation.eligible ? 'Not stacked' : 'Not eligible'}
+                        </Badge>
+                        <span className="text-xs ml-2">{evaluation.reason}</span>
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {evaluation.applied ? `-$${evaluation.discount_amount.toFixed(2)}` : '—'}
+                      </TableCell>
+                      <TableCell className="text-right">${evaluation.amount_after.toFixed(2)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              <div className="flex justify-end gap-6 text-sm">
+                <span>Original: ${dryRun.data.originalAmount.toFixed(2)}</span>
+                <span>Discount: -${dryRun.data.totalDiscount.toFixed(2)}</span>
+                <span className="font-semibold">Final: ${dryRun.data.finalAmount.toFixed(2)}</span>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -0,0 +1,356 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Json } from '@/integrations/supabase/types';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { BellRing, Plus, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+
+type ReminderTone = 'friendly' | 'reminder' | 'firm' | 'final';
+type LateFeeType = 'none' | 'fixed' | 'percentage' | 'daily_interest';
+
+interface ReminderStep {
+  offset_days: number;
+  channel: 'email' | 'whatsapp' | 'both';
+  tone: ReminderTone;
+}
+
+interface DunningPolicy {
+  id?: string;
+  name: string;
+  is_active: boolean;
+  reminder_steps: ReminderStep[];
+  templates: Partial<Record<ReminderTone, { subject?: string; body?: string }>>;
+  late_fee_type: LateFeeType;
+  late_fee_value: number;
+  late_fee_grace_days: number;
+}
+
+const defaultPolicy: DunningPolicy = {
+  name: 'Standard reminders',
+  is_active: true,
+  reminder_steps: [
+    { offset_days: -3, channel: 'email', tone: 'friendly' },
+    { offset_days: 0, channel: 'email', tone: 'reminder' },
+    { offset_days: 7, channel: 'both', tone: 'firm' },
+    { offset_days: 14, channel: 'both', tone: 'final' },
+  ],
+  templates: {},
+  late_fee_type: 'none',
+  late_fee_value: 0,
+  late_fee_grace_days: 0,
+};
+
+const TONES: ReminderTone[] = ['friendly', 'reminder', 'firm', 'final'];
+
+const lateFeeLabels: Record<LateFeeType, string> = {
+  none: 'No late fee',
+  fixed: 'Fixed amount',
+  percentage: 'Percentage of invoice',
+  daily_interest: 'Daily interest (annual rate %)',
+};
+
+const describeOffset = (offset: number) => {
+  if (offset === 0) return 'On the due date';
+  const days = Math.abs(offset);
+  return `${days} day${days === 1 ? '' : 's'} ${offset < 0 ? 'before due' : 'overdue'}`;
+};
+
+const DunningPolicyManager = () => {
+  const [policy, setPolicy] = useState<DunningPolicy>(defaultPolicy);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchPolicy();
+    }
+  }, [user]);
+
+  const fetchPolicy = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('dunning_policies')
+        .select('*')
+        .eq('user_id', user?.id)
+        .eq('is_default', true)
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setPolicy({
+          id: data.id,
+          name: data.name,
+          is_active: data.is_active,
+          reminder_steps: (data.reminder_steps as unknown as ReminderStep[]) || [],
+          templates: (data.templates as DunningPolicy['templates']) || {},
+          late_fee_type: data.late_fee_type as LateFeeType,
+          late_fee_value: data.late_fee_value,
+          late_fee_grace_days: data.late_fee_grace_days,
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching dunning policy:', error);
+      toast.error('Failed to load reminder settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateStep = (index: number, updates: Partial<ReminderStep>) => {
+    setPolicy(prev => ({
+      ...prev,
+      reminder_steps: prev.reminder_steps.map((step, i) => (i === index ? { ...step, ...updates } : step)),
+    }));
+  };
+
+  const addStep = () => {
+    const last = policy.reminder_steps[policy.reminder_steps.length - 1];
+    setPolicy(prev => ({
+      ...prev,
+      reminder_steps: [
+        ...prev.reminder_steps,
+        { offset_days: last ? last.offset_days + 7 : 0, channel: 'email', tone: 'firm' },
+      ],
+    }));
+  };
+
+  const removeStep = (index: number) => {
+    setPolicy(prev => ({
+      ...prev,
+      reminder_steps: prev.reminder_steps.filter((_, i) => i !== index),
+    }));
+  };
+
+  const updateTemplate = (tone: ReminderTone, field: 'subject' | 'body', value: string) => {
+    setPolicy(prev => ({
+      ...prev,
+      templates: { ...prev.templates, [tone]: { ...prev.templates[tone], [field]: value } },
+    }));
+  };
+
+  const savePolicy = async () => {
+    if (!user) return;
+
+    const offsets = policy.reminder_steps.map(step => step.offset_days);
+    if (new Set(offsets).size !== offsets.length) {
+      toast.error('Each reminder needs a different day');
+      return;
+    }
+
+    // Blank overrides fall back to the built-in wording
+    const templates = Object.fromEntries(
+      Object.entries(policy.templates)
+        .map(([tone, template]) => [tone, Object.fromEntries(
+          Object.entries(template || {}).filter(([, value]) => value && value.trim())
+        )])
+        .filter(([, template]) => Object.keys(template).length > 0)
+    );
+
+    setSaving(true);
+    try {
+      const payload = {
+        name: policy.name,
+        is_active: policy.is_active,
+        reminder_steps: [...policy.reminder_steps].sort((a, b) => a.offset_days - b.offset_days) as unknown as Json,
+        templates: templates as Json,
+        late_fee_type: policy.late_fee_type,
+        late_fee_value: policy.late_fee_value,
+        late_fee_grace_days: policy.late_fee_grace_days,
+      };
+
+      const { error } = policy.id
+        ? await supabase.from('dunning_policies').update(payload).eq('id', policy.id)
+        : await supabase.from('dunning_policies').insert({ ...payload, user_id: user.id, is_default: true });
+
+      if (error) throw error;
+
+      toast.success('Reminder settings saved');
+      fetchPolicy();
+    } catch (error) {
+      console.error('Error saving dunning policy:', error);
+      toast.error('Failed to save reminder settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading reminder settings...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <BellRing className="w-5 h-5" />
+          Payment Reminders
+        </CardTitle>
+        <CardDescription>
+          Unpaid invoices are chased automatically on this schedule. Reminders can be paused or stopped per invoice.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <div className="flex items-center gap-2">
+          <Switch
+            checked={policy.is_active}
+            onCheckedChange={(checked) => setPolicy(prev => ({ ...prev, is_active: checked }))}
+          />
+          <Label>Send automatic reminders</Label>
+        </div>
+
+        <div className="space-y-3">
+          <Label>Reminder Schedule</Label>
+          {policy.reminder_steps.map((step, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-3">
+                <Input
+                  type="number"
+                  value={step.offset_days}
+                  onChange={(e) => updateStep(index, { offset_days: parseInt(e.target.value) || 0 })}
+                />
+              </div>
+              <div className="col-span-3 text-sm text-muted-foreground">
+                {describeOffset(step.offset_days)}
+              </div>
+              <div className="col-span-3">
+                <Select
+                  value={step.channel}
+                  onValueChange={(value) => updateStep(index, { channel: value as ReminderStep['channel'] })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="email">Email</SelectItem>
+                    <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                    <SelectItem value="both">Email + WhatsApp</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-2">
+                <Select
+                  value={step.tone}
+                  onValueChange={(value) => updateStep(index, { tone: value as ReminderTone })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {TONES.map(tone => (
+                      <SelectItem key={tone} value={tone} className="capitalize">{tone}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-1">
+                <Button variant="ghost" size="sm" onClick={() => removeStep(index)}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          <p className="text-xs text-muted-foreground">
+            Days are relative to the due date: negative numbers send before it, positive numbers after.
+          </p>
+          <Button variant="outline" size="sm" onClick={addStep}>
+            <Plus className="w-4 h-4 mr-2" />
+            Add Reminder
+          </Button>
+        </div>
+
+        <div className="grid md:grid-cols-3 gap-4">
+          <div className="space-y-2">
+            <Label>Late Fee</Label>
+            <Select
+              value={policy.late_fee_type}
+              onValueChange={(value) => setPolicy(prev => ({ ...prev, late_fee_type: value as LateFeeType }))}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(lateFeeLabels).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {policy.late_fee_type !== 'none' && (
+            <>
+              <div className="space-y-2">
+                <Label htmlFor="late-fee-value">
+                  {policy.late_fee_type === 'fixed' ? 'Amount' : 'Rate (%)'}
+                </Label>
+                <Input
+                  id="late-fee-value"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={policy.late_fee_value}
+                  onChange={(e) => setPolicy(prev => ({ ...prev, late_fee_value: parseFloat(e.target.value) || 0 }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="late-fee-grace">Grace Period (days)</Label>
+                <Input
+                  id="late-fee-grace"
+                  type="number"
+                  min="0"
+                  value={policy.late_fee_grace_days}
+                  onChange={(e) => setPolicy(prev => ({ ...prev, late_fee_grace_days: parseInt(e.target.value) || 0 }))}
+                />
+              </div>
+            </>
+          )}
+        </div>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Message Wording (Optional)</Label>
+            <p className="text-xs text-muted-foreground">
+              Leave blank to use the built-in wording. Available placeholders: {'{{customer_name}}'}, {'{{invoice_number}}'},
+              {' '}{'{{project_title}}'}, {'{{amount_due}}'}, {'{{late_fee}}'}, {'{{due_date}}'}, {'{{days_overdue}}'}, {'{{payment_url}}'}
+            </p>
+          </div>
+          {TONES.map(tone => (
+            <div key={tone} className="space-y-2 p-3 border rounded-lg">
+              <div className="text-sm font-medium capitalize">{tone}</div>
+              <Input
+                placeholder="Subject"
+                value={policy.templates[tone]?.subject || ''}
+                onChange={(e) => updateTemplate(tone, 'subject', e.target.value)}
+              />
+              <Textarea
+                rows={2}
+                placeholder="Message"
+                value={policy.templates[tone]?.body || ''}
+                onChange={(e) => updateTemplate(tone, 'body', e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <Button onClick={savePolicy} disabled={saving}>
+          Save Reminder Settings
+        </Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DunningPolicyManager;
@@ -0,0 +1,421 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { toast } from "sonner";
+import { Copy, GitMerge, Loader2, ScanSearch, X } from "lucide-react";
+import type { Database } from "@/integrations/supabase/types";
+
+type LeadRow = Database['public']['Tables']['leads']['Row'];
+type ChannelAction = 'attach' | 'flag';
+
+interface DuplicatePair {
+  id: string;
+  lead_id: string;
+  duplicate_of_id: string;
+  match_reasons: string[];
+  confidence: number;
+  created_at: string;
+  lead: LeadRow;
+  duplicate_of: LeadRow;
+}
+
+const CHANNELS: { value: string; label: string }[] = [
+  { value: 'form', label: 'Lead capture forms' },
+  { value: 'microsite', label: 'Microsite enquiries' },
+  { value: 'catalogue', label: 'Catalogue quote requests' },
+  { value: 'crm_import', label: 'CRM imports' },
+  { value: 'calendly', label: 'Calendly bookings' },
+];
+
+// Mirrors the column defaults on lead_duplicate_settings
+const DEFAULT_ACTIONS: Record<string, ChannelAction> = {
+  form: 'flag',
+  microsite: 'flag',
+  catalogue: 'flag',
+  crm_import: 'flag',
+  calendly: 'attach',
+};
+
+const REASON_LABELS: Record<string, string> = {
+  email: 'Same email',
+  phone: 'Same phone',
+  name_postcode: 'Name and postcode',
+};
+
+// Fields offered in the merge screen; notes and tags from both are always kept
+const MERGE_FIELDS: { key: keyof LeadRow; label: string }[] = [
+  { key: 'first_name', label: 'First name' },
+  { key: 'last_name', label: 'Last name' },
+  { key: 'email', label: 'Email' },
+  { key: 'phone', label: 'Phone' },
+  { key: 'address', label: 'Address' },
+  { key: 'city', label: 'City' },
+  { key: 'postal_code', label: 'Postcode' },
+  { key: 'country', label: 'Country' },
+  { key: 'lead_source', label: 'Lead source' },
+  { key: 'priority', label: 'Priority' },
+  { key: 'project_type', label: 'Project type' },
+  { key: 'project_description', label: 'Project description' },
+  { key: 'estimated_budget_min', label: 'Budget from' },
+  { key: 'estimated_budget_max', label: 'Budget to' },
+  { key: 'estimated_timeline', label: 'Timeline' },
+];
+
+const display = (value: unknown) => (value === null || value === undefined || value === '' ? '—' : String(value));
+
+const leadName = (lead: LeadRow) => `${lead.first_name} ${lead.last_name}`;
+
+/**
+ * Leads flagged as possible duplicates, with a side-by-side merge, and how
+ * each intake channel handles repeat enquiries
+ */
+export default function DuplicateLeadsManager({ onMerged }: { onMerged?: () => void }) {
+  const [pairs, setPairs] = useState<DuplicatePair[]>([]);
+  const [channelActions, setChannelActions] = useState<Record<string, ChannelAction>>(DEFAULT_ACTIONS);
+  const [minConfidence, setMinConfidence] = useState(85);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [scanning, setScanning] = useState(false);
+  const [merging, setMerging] = useState(false);
+  const [reviewing, setReviewing] = useState<DuplicatePair | null>(null);
+  const [keepId, setKeepId] = useState('');
+  const [choices, setChoices] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    fetchDuplicates();
+    fetchSettings();
+  }, []);
+
+  const fetchDuplicates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_duplicates')
+        .select('id, lead_id, duplicate_of_id, match_reasons, confidence, created_at, lead:leads!lead_duplicates_lead_id_fkey(*), duplicate_of:leads!lead_duplicates_duplicate_of_id_fkey(*)')
+        .eq('status', 'pending')
+        .order('confidence', { ascending: false })
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      // Pairs whose leads have since been archived are no longer actionable
+      setPairs(((data || []) as unknown as DuplicatePair[])
+        .filter(pair => pair.lead && pair.duplicate_of && !pair.lead.archived_at && !pair.duplicate_of.archived_at));
+    } catch (error) {
+      console.error('Error fetching duplicate leads:', error);
+      toast.error('Failed to load duplicate leads');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchSettings = async () => {
+    const { data, error } = await supabase
+      .from('lead_duplicate_settings')
+      .select('*')
+      .maybeSingle();
+
+    if (error) {
+      console.error('Error fetching duplicate settings:', error);
+      return;
+    }
+    if (data) {
+      setChannelActions({ ...DEFAULT_ACTIONS, ...(data.channel_actions as Record<string, ChannelAction>) });
+      setMinConfidence(data.auto_attach_min_confidence);
+    }
+  };
+
+  const saveSettings = async () => {
+    setSaving(true);
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('User not authenticated');
+
+      const { error } = await supabase
+        .from('lead_duplicate_settings')
+        .upsert({
+          user_id: userData.user.id,
+          channel_actions: channelActions,
+          auto_attach_min_confidence: Math.min(Math.max(Math.round(minConfidence), 0), 100),
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      toast.success('Duplicate settings saved');
+    } catch (error) {
+      console.error('Error saving duplicate settings:', error);
+      toast.error('Failed to save duplicate settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const scanLeads = async () => {
+    setScanning(true);
+    try {
+      const { data, error } = await supabase.rpc('scan_lead_duplicates');
+      if (error) throw error;
+      toast.success(data ? `Found ${data} new possible duplicate${data === 1 ? '' : 's'}` : 'No new duplicates found');
+      await fetchDuplicates();
+    } catch (error) {
+      console.error('Error scanning for duplicates:', error);
+      toast.error('Failed to scan leads for duplicates');
+    } finally {
+      setScanning(false);
+    }
+  };
+
+  const dismissPair = async (pair: DuplicatePair) => {
+    try {
+      const { error } = await supabase
+        .from('lead_duplicates')
+        .update({ status: 'dismissed', resolved_at: new Date().toISOString() })
+        .eq('id', pair.id);
+
+      if (error) throw error;
+      setPairs(prev => prev.filter(candidate => candidate.id !== pair.id));
+      toast.success('Marked as not a duplicate');
+    } catch (error) {
+      console.error('Error dismissing duplicate:', error);
+      toast.error('Failed to dismiss duplicate');
+    }
+  };
+
+  const keptLead = (pair: DuplicatePair, id: string) => (pair.lead.id === id ? pair.lead : pair.duplicate_of);
+  const otherLead = (pair: DuplicatePair, id: string) => (pair.lead.id === id ? pair.duplicate_of : pair.lead);
+
+  // Default to the kept lead's value, or the other lead's when the kept one has none
+  const defaultChoices = (pair: DuplicatePair, id: string) => {
+    const kept = keptLead(pair, id);
+    return Object.fromEntries(
+      MERGE_FIELDS.map(field => [field.key, kept[field.key] == null || kept[field.key] === '' ? otherLead(pair, id).id : kept.id])
+    );
+  };
+
+  const openReview = (pair: DuplicatePair) => {
+    // Keep the older lead by default; the newer one is usually the repeat enquiry
+    setReviewing(pair);
+    setKeepId(pair.duplicate_of.id);
+    setChoices(defaultChoices(pair, pair.duplicate_of.id));
+  };
+
+  const changeKept = (id: string) => {
+    if (!reviewing) return;
+    setKeepId(id);
+    setChoices(defaultChoices(reviewing, id));
+  };
+
+  const mergePair = async () => {
+    if (!reviewing) return;
+    setMerging(true);
+    try {
+      const kept = keptLead(reviewing, keepId);
+      const merged = otherLead(reviewing, keepId);
+      const fields = Object.fromEntries(
+        MERGE_FIELDS
+          .filter(field => choices[field.key] === merged.id)
+          .map(field => [field.key, merged[field.key]])
+      );
+
+      const { error } = await supabase.rpc('merge_leads', {
+        p_primary_id: kept.id,
+        p_duplicate_id: merged.id,
+        p_fields: fields,
+      });
+      if (error) throw error;
+
+      toast.success(`Merged into ${leadName(kept)}`);
+      setReviewing(null);
+      await fetchDuplicates();
+      onMerged?.();
+    } catch (error) {
+      console.error('Error merging leads:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to merge leads');
+    } finally {
+      setMerging(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-12">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Copy className="w-5 h-5" />
+                Possible Duplicates
+              </CardTitle>
+              <CardDescription>
+                Leads matching another on email, phone, or name and postcode
+              </CardDescription>
+            </div>
+            <Button variant="outline" onClick={scanLeads} disabled={scanning}>
+              {scanning ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ScanSearch className="w-4 h-4 mr-2" />}
+              Scan all leads
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {pairs.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-6">No possible duplicates to review</p>
+          ) : pairs.map(pair => (
+            <div key={pair.id} className="border rounded-lg p-4 space-y-3">
+              <div className="flex items-center justify-between">
+                <div className="flex flex-wrap items-center gap-2">
+                  <Badge>{pair.confidence}% match</Badge>
+                  {pair.match_reasons.map(reason => (
+                    <Badge key={reason} variant="outline">{REASON_LABELS[reason] || reason}</Badge>
+                  ))}
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => openReview(pair)}>
+                    <GitMerge className="w-4 h-4 mr-1" />
+                    Review & merge
+                  </Button>
+                  <Button size="sm" variant="outline" onClick={() => dismissPair(pair)}>
+                    <X className="w-4 h-4 mr-1" />
+                    Not a duplicate
+                  </Button>
+                </div>
+              </div>
+              <div className="grid md:grid-cols-2 gap-4">
+                {[pair.duplicate_of, pair.lead].map(lead => (
+                  <div key={lead.id} className="text-sm space-y-1">
+                    <div className="font-medium">{leadName(lead)}</div>
+                    <div className="text-muted-foreground">{display(lead.email)} · {display(lead.phone)}</div>
+                    <div className="text-muted-foreground">{display(lead.postal_code)} · {display(lead.lead_source)}</div>
+                    <div className="text-xs text-muted-foreground">
+                      Added {lead.created_at ? new Date(lead.created_at).toLocaleDateString() : '—'} · {lead.status?.replace(/_/g, ' ')}
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Repeat Enquiries</CardTitle>
+          <CardDescription>
+            Attach a new enquiry to the existing lead, or create a new lead and flag it here for review
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            {CHANNELS.map(channel => (
+              <div key={channel.value} className="flex items-center justify-between gap-4">
+                <Label>{channel.label}</Label>
+                <Select
+                  value={channelActions[channel.value]}
+                  onValueChange={(value) => setChannelActions(prev => ({ ...prev, [channel.value]: value as ChannelAction }))}
+                >
+                  <SelectTrigger className="w-56">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="attach">Attach to existing lead</SelectItem>
+                    <SelectItem value="flag">Create and flag</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="min_confidence">Minimum match to attach (%)</Label>
+            <Input
+              id="min_confidence"
+              type="number"
+              min={0}
+              max={100}
+              value={minConfidence}
+              onChange={(e) => setMinConfidence(Number(e.target.value))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Email matches score 95, phone 85, name and postcode 70
+            </p>
+          </div>
+          <Button onClick={saveSettings} disabled={saving}>
+            {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save settings
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!reviewing} onOpenChange={(open) => !open && setReviewing(null)}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Merge leads</DialogTitle>
+            <DialogDescription>
+              Activities, interactions, quotes and tasks from both leads are kept on the merged lead. The other lead is archived.
+            </DialogDescription>
+          </DialogHeader>
+          {reviewing && (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label>Keep</Label>
+                <RadioGroup value={keepId} onValueChange={changeKept} className="grid md:grid-cols-2 gap-2">
+                  {[reviewing.duplicate_of, reviewing.lead].map(lead => (
+                    <Label key={lead.id} className="flex items-center gap-2 border rounded-md p-3 font-normal cursor-pointer">
+                      <RadioGroupItem value={lead.id} />
+                      {leadName(lead)}
+                      <span className="text-xs text-muted-foreground">
+                        added {lead.created_at ? new Date(lead.created_at).toLocaleDateString() : '—'}
+                      </span>
+                    </Label>
+                  ))}
+                </RadioGroup>
+              </div>
+
+              <div className="space-y-2">
+                {MERGE_FIELDS
+                  .filter(field => display(reviewing.lead[field.key]) !== display(reviewing.duplicate_of[field.key]))
+                  .map(field => (
+                    <div key={field.key} className="grid grid-cols-[140px_1fr] items-center gap-2">
+                      <span className="text-sm font-medium">{field.label}</span>
+                      <RadioGroup
+                        value={choices[field.key]}
+                        onValueChange={(value) => setChoices(prev => ({ ...prev, [field.key]: value }))}
+                        className="grid md:grid-cols-2 gap-2"
+                      >
+                        {[keptLead(reviewing, keepId), otherLead(reviewing, keepId)].map(lead => (
+                          <Label key={lead.id} className="flex items-center gap-2 text-sm font-normal cursor-pointer">
+                            <RadioGroupItem value={lead.id} />
+                            <span className="truncate">{display(lead[field.key])}</span>
+                          </Label>
+                        ))}
+                      </RadioGroup>
+                    </div>
+                  ))}
+              </div>
+
+              <div className="flex justify-end gap-2 pt-2">
+                <Button variant="outline" onClick={() => setReviewing(null)} disabled={merging}>
+                  Cancel
+                </Button>
+                <Button onClick={mergePair} disabled={merging}>
+                  {merging ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <GitMerge className="w-4 h-4 mr-2" />}
+                  Merge
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
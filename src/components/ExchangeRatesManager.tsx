@@ -0,0 +1,331 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ArrowLeftRight, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_CURRENCY, SUPPORTED_CURRENCIES, fetchCompanyCurrency } from '@/lib/currency';
+
+interface RateOverride {
+  id: string;
+  base_currency: string;
+  currency: string;
+  rate: number;
+  effective_from: string;
+  note: string | null;
+}
+
+interface ReferenceRate {
+  currency: string;
+  rate: number | null;
+  rate_date: string | null;
+}
+
+interface ExchangeRatesManagerProps {
+  onBaseCurrencyChange?: (currency: string) => void;
+}
+
+const emptyOverride = () => ({
+  currency: 'EUR',
+  rate: '',
+  effective_from: new Date().toISOString().split('T')[0],
+  note: '',
+});
+
+const ExchangeRatesManager = ({ onBaseCurrencyChange }: ExchangeRatesManagerProps) => {
+  const [companyId, setCompanyId] = useState<string | null>(null);
+  const [baseCurrency, setBaseCurrency] = useState(DEFAULT_CURRENCY);
+  const [overrides, setOverrides] = useState<RateOverride[]>([]);
+  const [referenceRates, setReferenceRates] = useState<ReferenceRate[]>([]);
+  const [newOverride, setNewOverride] = useState(emptyOverride());
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      loadSettings();
+    }
+  }, [user]);
+
+  const loadSettings = async () => {
+    try {
+      const company = await fetchCompanyCurrency(user!.id);
+      setCompanyId(company.companyId);
+      setBaseCurrency(company.baseCurrency);
+
+      if (company.companyId) {
+        const { data, error } = await supabase
+          .from('exchange_rate_overrides')
+          .select('*')
+          .eq('company_id', company.companyId)
+          .order('effective_from', { ascending: false });
+
+        if (error) throw error;
+        setOverrides(data || []);
+      }
+
+      await loadReferenceRates(company.baseCurrency);
+    } catch (error) {
+      console.error('Error loading exchange rates:', error);
+      toast.error('Failed to load exchange rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Today's rate into the base currency for each supported currency, as invoices would snapshot it
+  const loadReferenceRates = async (base: string) => {
+    const today = new Date().toISOString().split('T')[0];
+    const currencies = SUPPORTED_CURRENCIES.map(c => c.code).filter(code => code !== base);
+
+    const rates = await Promise.all(currencies.map(async (currency) => {
+      const { data } = await supabase.rpc('get_exchange_rate', {
+        p_from: currency,
+        p_to: base,
+        p_on: today,
+      });
+      const row = data?.[0];
+      return { currency, rate: row?.rate ?? null, rate_date: row?.rate_date ?? null };
+    }));
+
+    setReferenceRates(rates);
+  };
+
+  const updateBaseCurrency = async (currency: string) => {
+    if (!companyId) return;
+
+    const { error } = await supabase
+      .from('companies')
+      .update({ base_currency: currency })
+      .eq('id', companyId);
+
+    if (error) {
+      console.error('Error updating base currency:', error);
+      toast.error('Only company admins can change the base currency');
+      return;
+    }
+
+    setBaseCurrency(currency);
+    onBaseCurrencyChange?.(currency);
+    toast.success(`Reporting in ${currency}. Existing invoices keep the rate they were issued with.`);
+    loadReferenceRates(currency);
+  };
+
+  const addOverride = async () => {
+    const rate = parseFloat(newOverride.rate);
+    if (!companyId || !(rate > 0)) {
+      toast.error('Enter a positive rate');
+      return;
+    }
+    if (newOverride.currency === baseCurrency) {
+      toast.error('Choose a currency other than the base currency');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.from('exchange_rate_overrides').upsert({
+        company_id: companyId,
+        base_currency: baseCurrency,
+        currency: newOverride.currency,
+        rate,
+        effective_from: newOverride.effective_from,
+        note: newOverride.note.trim() || null,
+        created_by: user?.id,
+      }, { onConflict: 'company_id,base_currency,currency,effective_from' });
+
+      if (error) throw error;
+      toast.success('Rate override saved');
+      setNewOverride(emptyOverride());
+      loadSettings();
+    } catch (error) {
+      console.error('Error saving rate override:', error);
+      toast.error('Failed to save rate override');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteOverride = async (id: string) => {
+    const { error } = await supabase.from('exchange_rate_overrides').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete rate override');
+      return;
+    }
+    setOverrides(prev => prev.filter(override => override.id !== id));
+    loadReferenceRates(baseCurrency);
+  };
+
+  const syncReferenceRates = async () => {
+    setSyncing(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('exchange-rate-sync', { body: {} });
+      if (error || !data?.success) throw new Error(data?.error || error?.message);
+      toast.success(`Reference rates updated for ${new Date(data.rateDate).toLocaleDateString()}`);
+      loadReferenceRates(baseCurrency);
+    } catch (error) {
+      console.error('Error syncing exchange rates:', error);
+      toast.error(error.message || 'Failed to refresh reference rates');
+    } finally {
+      setSyncing(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading exchange rates...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ArrowLeftRight className="w-5 h-5" />
+          Currencies & Exchange Rates
+        </CardTitle>
+        <CardDescription>
+          Invoices record the rate to your base currency when they are issued, and reports add up those amounts.
+          Overrides take precedence over the ECB reference rates from their effective date.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {!companyId ? (
+          <p className="text-sm text-muted-foreground">
+            Join or create a company to choose a base currency. Invoices are reported in {DEFAULT_CURRENCY} until then.
+          </p>
+        ) : (
+          <div className="flex items-end gap-4">
+            <div className="space-y-2">
+              <Label>Base Currency</Label>
+              <Select value={baseCurrency} onValueChange={updateBaseCurrency}>
+                <SelectTrigger className="w-56">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORTED_CURRENCIES.map(currency => (
+                    <SelectItem key={currency.code} value={currency.code}>
+                      {currency.code} — {currency.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <Button variant="outline" onClick={syncReferenceRates} disabled={syncing}>
+              <RefreshCw className={`w-4 h-4 mr-2 ${syncing ? 'animate-spin' : ''}`} />
+              Refresh Reference Rates
+            </Button>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <Label>Current Rates into {baseCurrency}</Label>
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-2 text-sm">
+            {referenceRates.map(rate => (
+              <div key={rate.currency} className="flex justify-between rounded border px-3 py-2">
+                <span>1 {rate.currency}</span>
+                <span className="font-medium">
+                  {rate.rate != null ? `${Number(rate.rate).toFixed(4)} ${baseCurrency}` : 'No rate'}
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {companyId && (
+          <div className="space-y-3">
+            <Label>Rate Overrides</Label>
+            {overrides.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Currency</TableHead>
+                    <TableHead className="text-right">Rate</TableHead>
+                    <TableHead>From</TableHead>
+                    <TableHead>Note</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {overrides.map(override => (
+                    <TableRow key={override.id}>
+                      <TableCell>{override.currency} → {override.base_currency}</TableCell>
+                      <TableCell className="text-right">{Number(override.rate).toFixed(4)}</TableCell>
+                      <TableCell>{new Date(override.effective_from).toLocaleDateString()}</TableCell>
+                      <TableCell className="text-muted-foreground">{override.note}</TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="ghost" onClick={() => deleteOverride(override.id)}>
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+            <div className="grid grid-cols-12 gap-2 items-center">
+              <div className="col-span-2">
+                <Select
+                  value={newOverride.currency}
+                  onValueChange={(value) => setNewOverride(prev => ({ ...prev, currency: value }))}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {SUPPORTED_CURRENCIES.filter(c => c.code !== baseCurrency).map(currency => (
+                      <SelectItem key={currency.code} value={currency.code}>{currency.code}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="col-span-3">
+                <Input
+                  type="number"
+                  step="0.0001"
+                  min="0"
+                  placeholder={`${baseCurrency} per 1 ${newOverride.currency}`}
+                  value={newOverride.rate}
+                  onChange={(e) => setNewOverride(prev => ({ ...prev, rate: e.target.value }))}
+                />
+              </div>
+              <div className="col-span-3">
+                <Input
+                  type="date"
+                  value={newOverride.effective_from}
+                  onChange={(e) => setNewOverride(prev => ({ ...prev, effective_from: e.target.value }))}
+                />
+              </div>
+              <div className="col-span-3">
+                <Input
+                  placeholder="Note (optional)"
+                  value={newOverride.note}
+                  onChange={(e) => setNewOverride(prev => ({ ...prev, note: e.target.value }))}
+                />
+              </div>
+              <div className="col-span-1">
+                <Button size="sm" onClick={addOverride} disabled={saving}>
+                  <Plus className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ExchangeRatesManager;
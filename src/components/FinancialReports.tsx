@@ -0,0 +1,533 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertCircle, Download, FileSpreadsheet } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { DEFAULT_CURRENCY, fetchCompanyCurrency, formatMoney } from '@/lib/currency';
+import {
+  AGEING_BUCKETS,
+  DateRange,
+  fetchAgedReceivables,
+  fetchCashForecast,
+  fetchDiscountCost,
+  fetchRevenueBreakdown,
+} from '@/lib/financialReports';
+import { Cell, Sheet, downloadCsv, downloadXlsx } from '@/lib/spreadsheetExport';
+
+type RangePreset = 'this_month' | 'last_3_months' | 'year_to_date' | 'last_12_months' | 'custom';
+
+const toDay = (date: Date) => date.toISOString().split('T')[0];
+
+const presetRange = (preset: RangePreset): DateRange => {
+  const today = new Date();
+  const start = new Date(today);
+  switch (preset) {
+    case 'this_month':
+      start.setDate(1);
+      break;
+    case 'last_3_months':
+      start.setMonth(start.getMonth() - 3);
+      break;
+    case 'year_to_date':
+      start.setMonth(0, 1);
+      break;
+    default:
+      start.setFullYear(start.getFullYear() - 1);
+  }
+  return { from: toDay(start), to: toDay(today) };
+};
+
+const FORECAST_WEEKS = [4, 8, 13, 26];
+
+type Reports = {
+  aged: Awaited<ReturnType<typeof fetchAgedReceivables>>;
+  byProjectType: Awaited<ReturnType<typeof fetchRevenueBreakdown>>;
+  byLeadSource: Awaited<ReturnType<typeof fetchRevenueBreakdown>>;
+  discountCost: Awaited<ReturnType<typeof fetchDiscountCost>>;
+  forecast: Awaited<ReturnType<typeof fetchCashForecast>>;
+};
+
+const emptyRevenue = () => ({
+  rows: [],
+  total: { key: 'Total', invoices: 0, invoiced: 0, collected: 0, outstanding: 0 },
+  unconverted: 0,
+});
+
+const EMPTY_REPORTS: Reports = {
+  aged: {
+    rows: [],
+    totals: { current: 0, days_0_30: 0, days_31_60: 0, days_61_90: 0, days_90_plus: 0 },
+    total: 0,
+    invoices: 0,
+    unconverted: 0,
+  },
+  byProjectType: emptyRevenue(),
+  byLeadSource: emptyRevenue(),
+  discountCost: { rows: [], total: 0, unconverted: 0 },
+  forecast: { rows: [], total: 0, undated: 0, unconverted: 0 },
+};
+
+/**
+ * Financial reports for the office: aged debtors, revenue by project type and
+ * lead source, discount cost and a cash forecast, each exportable as CSV or
+ * together as one XLSX workbook
+ */
+const FinancialReports = () => {
+  const { user } = useAuth();
+  const [reports, setReports] = useState<Reports>(EMPTY_REPORTS);
+  const [companyCurrency, setCompanyCurrency] = useState<string | null>(null);
+  const [preset, setPreset] = useState<RangePreset>('year_to_date');
+  const [range, setRange] = useState<DateRange>(presetRange('year_to_date'));
+  const [forecastWeeks, setForecastWeeks] = useState(13);
+  const [loading, setLoading] = useState(true);
+
+  const today = toDay(new Date());
+  // Debtors are aged as at the end of the range, or today for ranges ending later
+  const asOf = range.to && range.to < today ? range.to : today;
+
+  useEffect(() => {
+    if (user) {
+      fetchCompanyCurrency(user.id)
+        .then(company => setCompanyCurrency(company.baseCurrency))
+        .catch(() => setCompanyCurrency(DEFAULT_CURRENCY));
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (companyCurrency) {
+      loadReportData(companyCurrency);
+    }
+  }, [companyCurrency, range.from, range.to, asOf, today, forecastWeeks]);
+
+  const loadReportData = async (currency: string) => {
+    try {
+      const [aged, byProjectType, byLeadSource, discountCost, forecast] = await Promise.all([
+        fetchAgedReceivables(currency, asOf),
+        fetchRevenueBreakdown('project_type', currency, range),
+        fetchRevenueBreakdown('lead_source', currency, range),
+        fetchDiscountCost(currency, range),
+        fetchCashForecast(currency, today, forecastWeeks),
+      ]);
+      setReports({ aged, byProjectType, byLeadSource, discountCost, forecast });
+    } catch (error) {
+      console.error('Error loading financial reports:', error);
+      toast.error('Failed to load financial reports');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const choosePreset = (value: RangePreset) => {
+    setPreset(value);
+    if (value !== 'custom') setRange(presetRange(value));
+  };
+
+  const { aged, byProjectType, byLeadSource, discountCost, forecast } = reports;
+  const baseCurrency = companyCurrency || DEFAULT_CURRENCY;
+  const money = (amount: number) => formatMoney(amount, baseCurrency);
+  const unconverted = aged.unconverted + byProjectType.unconverted + discountCost.unconverted + forecast.unconverted;
+
+  // Export rows: plain numbers so spreadsheets can total them
+  const agedSheet = (): Sheet => ({
+    name: 'Aged receivables',
+    rows: [
+      [`Aged receivables as at ${asOf} (${baseCurrency})`],
+      ['Customer', 'Invoices', ...AGEING_BUCKETS.map(bucket => bucket.label), 'Total'],
+      ...aged.rows.map(row => [row.customer_name, row.invoices, ...AGEING_BUCKETS.map(bucket => row.buckets[bucket.key]), row.total]),
+      ['Total', aged.invoices, ...AGEING_BUCKETS.map(bucket => aged.totals[bucket.key]), aged.total],
+    ],
+  });
+
+  const revenueSheet = (name: string, heading: string, report: typeof byProjectType): Sheet => ({
+    name,
+    rows: [
+      [`${name}, invoices issued ${range.from} to ${range.to} (${baseCurrency})`],
+      [heading, 'Invoices', 'Invoiced', 'Collected', 'Outstanding'],
+      ...report.rows.map(row => [row.key, row.invoices, row.invoiced, row.collected, row.outstanding] as Cell[]),
+      ['Total', report.total.invoices, report.total.invoiced, report.total.collected, report.total.outstanding],
+    ],
+  });
+
+  const discountSheet = (): Sheet => ({
+    name: 'Discount cost',
+    rows: [
+      [`Discounts given ${range.from} to ${range.to} (${baseCurrency})`],
+      ['Rule', 'Applications', 'Via promo code', 'Discount given'],
+      ...discountCost.rows.map(row => [row.rule_name, row.applications, row.codes, row.total] as Cell[]),
+      ['Total', '', '', discountCost.total],
+    ],
+  });
+
+  const forecastSheet = (): Sheet => ({
+    name: 'Cash forecast',
+    rows: [
+      [`Cash forecast from ${today}, ${forecastWeeks} weeks (${baseCurrency})`],
+      ['Period', 'Invoices due', 'Invoiced', 'Scheduled stages', 'Expected'],
+      ...forecast.rows.map(row => [row.label, row.invoices, row.invoiced, row.scheduled, row.total] as Cell[]),
+      ['Total', '', '', '', forecast.total],
+    ],
+  });
+
+  const exportCsv = (sheet: Sheet) => {
+    downloadCsv(sheet.rows, `${sheet.name.toLowerCase().replace(/\s+/g, '_')}_${today}`);
+  };
+
+  const exportWorkbook = () => {
+    downloadXlsx([
+      agedSheet(),
+      revenueSheet('Revenue by project type', 'Project type', byProjectType),
+      revenueSheet('Revenue by lead source', 'Lead source', byLeadSource),
+      discountSheet(),
+      forecastSheet(),
+    ], `financial_reports_${today}`);
+  };
+
+  const CsvButton = ({ sheet }: { sheet: () => Sheet }) => (
+    <Button variant="outline" size="sm" onClick={() => exportCsv(sheet())}>
+      <Download className="w-4 h-4 mr-2" />
+      CSV
+    </Button>
+  );
+
+  const RevenueTable = ({ heading, report }: { heading: string; report: typeof byProjectType }) => (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>{heading}</TableHead>
+          <TableHead className="text-right">Invoices</TableHead>
+          <TableHead className="text-right">Invoiced</TableHead>
+          <TableHead className="text-right">Collected</TableHead>
+          <TableHead className="text-right">Outstanding</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {report.rows.length === 0 ? (
+          <TableRow>
+            <TableCell colSpan={5} className="text-center text-muted-foreground">No invoices issued in this period</TableCell>
+          </TableRow>
+        ) : report.rows.map(row => (
+          <TableRow key={row.key}>
+            <TableCell className="capitalize">{row.key.replace(/_/g, ' ')}</TableCell>
+            <TableCell className="text-right">{row.invoices}</TableCell>
+            <TableCell className="text-right">{money(row.invoiced)}</TableCell>
+            <TableCell className="text-right">{money(row.collected)}</TableCell>
+            <TableCell className="text-right">{money(row.outstanding)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+      <TableFooter>
+        <TableRow>
+          <TableCell>Total</TableCell>
+          <TableCell className="text-right">{report.total.invoices}</TableCell>
+          <TableCell className="text-right">{money(report.total.invoiced)}</TableCell>
+          <TableCell className="text-right">{money(report.total.collected)}</TableCell>
+          <TableCell className="text-right">{money(report.total.outstanding)}</TableCell>
+        </TableRow>
+      </TableFooter>
+    </Table>
+  );
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Loading reports...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="flex flex-wrap items-end gap-4">
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select value={preset} onValueChange={(value) => choosePreset(value as RangePreset)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="this_month">This month</SelectItem>
+                  <SelectItem value="last_3_months">Last 3 months</SelectItem>
+                  <SelectItem value="year_to_date">Year to date</SelectItem>
+                  <SelectItem value="last_12_months">Last 12 months</SelectItem>
+                  <SelectItem value="custom">Custom</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-from">From</Label>
+              <Input
+                id="report-from"
+                type="date"
+                value={range.from}
+                onChange={(e) => { setPreset('custom'); setRange(prev => ({ ...prev, from: e.target.value })); }}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="report-to">To</Label>
+              <Input
+                id="report-to"
+                type="date"
+                value={range.to}
+                onChange={(e) => { setPreset('custom'); setRange(prev => ({ ...prev, to: e.target.value })); }}
+              />
+            </div>
+            <Button className="ml-auto" onClick={exportWorkbook}>
+              <FileSpreadsheet className="w-4 h-4 mr-2" />
+              Export all (XLSX)
+            </Button>
+          </div>
+          {unconverted > 0 && (
+            <p className="flex items-center gap-2 text-sm text-muted-foreground mt-4">
+              <AlertCircle className="w-4 h-4" />
+              Some amounts are left out because they have no exchange rate to {baseCurrency}.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Invoiced in period</CardDescription>
+            <CardTitle className="text-2xl">{money(byProjectType.total.invoiced)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Outstanding as at {asOf}</CardDescription>
+            <CardTitle className="text-2xl">{money(aged.total)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Over 60 days overdue</CardDescription>
+            <CardTitle className="text-2xl text-destructive">{money(aged.totals.days_61_90 + aged.totals.days_90_plus)}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Discounts given in period</CardDescription>
+            <CardTitle className="text-2xl">{money(discountCost.total)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="aged" className="space-y-4">
+        <TabsList>
+          <TabsTrigger value="aged">Aged Receivables</TabsTrigger>
+          <TabsTrigger value="revenue">Revenue</TabsTrigger>
+          <TabsTrigger value="discounts">Discount Cost</TabsTrigger>
+          <TabsTrigger value="forecast">Cash Forecast</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="aged">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Aged Receivables</CardTitle>
+                  <CardDescription>Unpaid balances by days past due, as at {asOf}</CardDescription>
+                </div>
+                <CsvButton sheet={agedSheet} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Customer</TableHead>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <TableHead key={bucket.key} className="text-right">{bucket.label}</TableHead>
+                    ))}
+                    <TableHead className="text-right">Total</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {aged.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={AGEING_BUCKETS.length + 2} className="text-center text-muted-foreground">Nothing outstanding</TableCell>
+                    </TableRow>
+                  ) : aged.rows.map(row => (
+                    <TableRow key={row.customer_name}>
+                      <TableCell>
+                        {row.customer_name}
+                        <span className="text-xs text-muted-foreground ml-2">{row.invoices} invoice{row.invoices === 1 ? '' : 's'}</span>
+                      </TableCell>
+                      {AGEING_BUCKETS.map(bucket => (
+                        <TableCell key={bucket.key} className="text-right">
+                          {row.buckets[bucket.key] ? money(row.buckets[bucket.key]) : '-'}
+                        </TableCell>
+                      ))}
+                      <TableCell className="text-right font-medium">{money(row.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell>Total</TableCell>
+                    {AGEING_BUCKETS.map(bucket => (
+                      <TableCell key={bucket.key} className="text-right">{money(aged.totals[bucket.key])}</TableCell>
+                    ))}
+                    <TableCell className="text-right">{money(aged.total)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="revenue" className="space-y-6">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Revenue by Project Type</CardTitle>
+                  <CardDescription>Invoices issued {range.from} to {range.to}, by the lead's project type</CardDescription>
+                </div>
+                <CsvButton sheet={() => revenueSheet('Revenue by project type', 'Project type', byProjectType)} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <RevenueTable heading="Project type" report={byProjectType} />
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Revenue by Lead Source</CardTitle>
+                  <CardDescription>Invoices issued {range.from} to {range.to}, by where the lead came from</CardDescription>
+                </div>
+                <CsvButton sheet={() => revenueSheet('Revenue by lead source', 'Lead source', byLeadSource)} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <RevenueTable heading="Lead source" report={byLeadSource} />
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="discounts">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Discount Cost</CardTitle>
+                  <CardDescription>Discounts applied to invoices {range.from} to {range.to}</CardDescription>
+                </div>
+                <CsvButton sheet={discountSheet} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Rule</TableHead>
+                    <TableHead className="text-right">Applications</TableHead>
+                    <TableHead className="text-right">Via promo code</TableHead>
+                    <TableHead className="text-right">Discount given</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {discountCost.rows.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={4} className="text-center text-muted-foreground">No discounts in this period</TableCell>
+                    </TableRow>
+                  ) : discountCost.rows.map(row => (
+                    <TableRow key={row.rule_name}>
+                      <TableCell>{row.rule_name}</TableCell>
+                      <TableCell className="text-right">{row.applications}</TableCell>
+                      <TableCell className="text-right">{row.codes}</TableCell>
+                      <TableCell className="text-right">{money(row.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={3}>Total</TableCell>
+                    <TableCell className="text-right">{money(discountCost.total)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="forecast">
+          <Card>
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle>Cash Forecast</CardTitle>
+                  <CardDescription>
+                    Unpaid invoices by due date and upcoming payment schedule stages (less retention, with VAT)
+                  </CardDescription>
+                </div>
+                <div className="flex gap-2">
+                  <Select value={String(forecastWeeks)} onValueChange={(value) => setForecastWeeks(parseInt(value))}>
+                    <SelectTrigger className="w-32">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {FORECAST_WEEKS.map(weeks => (
+                        <SelectItem key={weeks} value={String(weeks)}>{weeks} weeks</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <CsvButton sheet={forecastSheet} />
+                </div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead className="text-right">Invoices due</TableHead>
+                    <TableHead className="text-right">Invoiced</TableHead>
+                    <TableHead className="text-right">Scheduled stages</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {forecast.rows.map((row, index) => (
+                    <TableRow key={row.label} className={index === 0 && row.total > 0 ? 'text-destructive' : ''}>
+                      <TableCell>{row.label}</TableCell>
+                      <TableCell className="text-right">{row.invoices || '-'}</TableCell>
+                      <TableCell className="text-right">{money(row.invoiced)}</TableCell>
+                      <TableCell className="text-right">{money(row.scheduled)}</TableCell>
+                      <TableCell className="text-right font-medium">{money(row.total)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={4}>Total</TableCell>
+                    <TableCell className="text-right">{money(forecast.total)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              </Table>
+              {forecast.undated > 0 && (
+                <p className="text-sm text-muted-foreground mt-4">
+                  {forecast.undated} unpaid invoice{forecast.undated === 1 ? '' : 's'} or stage{forecast.undated === 1 ? '' : 's'} without a due date {forecast.undated === 1 ? 'is' : 'are'} not included.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default FinancialReports;
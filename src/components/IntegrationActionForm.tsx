@@ -0,0 +1,230 @@
+import React, { useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Loader2, Play } from 'lucide-react';
+import { useToast } from '@/hooks/use-toast';
+import {
+  integrationManager,
+  ActionDescriptor,
+  ActionField,
+  WorkflowTrigger
+} from '@/lib/integrations/IntegrationManager';
+
+interface IntegrationActionFormProps {
+  services: string[];
+}
+
+// Builds a form for any registered integration action from its contract
+export const IntegrationActionForm: React.FC<IntegrationActionFormProps> = ({ services }) => {
+  const { toast } = useToast();
+  const [serviceName, setServiceName] = useState<string>('');
+  const [actionName, setActionName] = useState<string>('');
+  const [values, setValues] = useState<Record<string, any>>({});
+  const [running, setRunning] = useState(false);
+
+  const actions = useMemo(
+    () => integrationManager.listActions().filter(descriptor => services.includes(descriptor.service)),
+    [services]
+  );
+  const serviceActions = actions.filter(descriptor => descriptor.service === serviceName);
+  const selected: ActionDescriptor | undefined = serviceActions.find(descriptor => descriptor.action === actionName);
+
+  const selectService = (value: string) => {
+    setServiceName(value);
+    setActionName('');
+    setValues({});
+  };
+
+  const selectAction = (value: string) => {
+    setActionName(value);
+    setValues({});
+  };
+
+  const setValue = (name: string, value: any) => {
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  // Convert raw form input into the types the contract expects; blank fields are omitted
+  const buildData = (): Record<string, any> => {
+    const data: Record<string, any> = {};
+
+    selected?.fields.forEach(field => {
+      const raw = values[field.name];
+      if (raw === undefined || raw === '') return;
+
+      switch (field.type) {
+        case 'number':
+          data[field.name] = Number(raw);
+          break;
+        case 'array':
+        case 'object':
+        case 'json':
+          try {
+            data[field.name] = JSON.parse(raw);
+          } catch {
+            throw new Error(`${field.label} must be valid JSON`);
+          }
+          break;
+        default:
+          data[field.name] = raw;
+      }
+    });
+
+    return data;
+  };
+
+  const runAction = async () => {
+    if (!selected) return;
+
+    setRunning(true);
+    try {
+      const result = await integrationManager.triggerWorkflow({
+        triggerType: selected.service,
+        action: selected.action,
+        data: buildData()
+      } as WorkflowTrigger);
+
+      if (result.success) {
+        toast({
+          title: result.jobId ? "Action Queued" : "Action Completed",
+          description: `${selected.service}.${selected.action} ${result.jobId ? 'has been queued' : 'ran successfully'}`,
+        });
+      } else {
+        toast({
+          title: "Action Failed",
+          description: result.error || "The action could not be run",
+          variant: "destructive",
+        });
+      }
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  const renderField = (field: ActionField) => {
+    const id = `action-field-${field.name}`;
+    const label = (
+      <Label htmlFor={id}>
+        {field.label}
+        {field.required && <span className="text-red-500 ml-1">*</span>}
+      </Label>
+    );
+
+    switch (field.type) {
+      case 'boolean':
+        return (
+          <div key={field.name} className="flex items-center justify-between">
+            {label}
+            <Switch
+              id={id}
+              checked={!!values[field.name]}
+              onCheckedChange={(checked) => setValue(field.name, checked)}
+            />
+          </div>
+        );
+      case 'enum':
+        return (
+          <div key={field.name} className="space-y-1">
+            {label}
+            <Select value={values[field.name] || ''} onValueChange={(value) => setValue(field.name, value)}>
+              <SelectTrigger id={id}>
+                <SelectValue placeholder="Select..." />
+              </SelectTrigger>
+              <SelectContent>
+                {field.options?.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        );
+      case 'array':
+      case 'object':
+      case 'json':
+        return (
+          <div key={field.name} className="space-y-1">
+            {label}
+            <Textarea
+              id={id}
+              rows={3}
+              placeholder={field.type === 'array' ? '[ ... ]' : '{ ... }'}
+              value={values[field.name] || ''}
+              onChange={(e) => setValue(field.name, e.target.value)}
+              className="font-mono text-xs"
+            />
+          </div>
+        );
+      default:
+        return (
+          <div key={field.name} className="space-y-1">
+            {label}
+            <Input
+              id={id}
+              type={field.type === 'number' ? 'number' : 'text'}
+              value={values[field.name] ?? ''}
+              onChange={(e) => setValue(field.name, e.target.value)}
+            />
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Run an Action</CardTitle>
+        <CardDescription>
+          Trigger any integration action; input is validated against the action's contract
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-3 md:grid-cols-2">
+          <Select value={serviceName} onValueChange={selectService}>
+            <SelectTrigger>
+              <SelectValue placeholder="Service" />
+            </SelectTrigger>
+            <SelectContent>
+              {services.map(service => (
+                <SelectItem key={service} value={service} className="capitalize">{service}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Select value={actionName} onValueChange={selectAction} disabled={!serviceName}>
+            <SelectTrigger>
+              <SelectValue placeholder="Action" />
+            </SelectTrigger>
+            <SelectContent>
+              {serviceActions.map(descriptor => (
+                <SelectItem key={descriptor.action} value={descriptor.action}>{descriptor.action}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {selected && (
+          <>
+            <p className="text-sm text-muted-foreground">{selected.description}</p>
+            <div className="space-y-3">
+              {selected.fields.map(renderField)}
+            </div>
+            <Button size="sm" onClick={runAction} disabled={running}>
+              {running ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Play className="w-4 h-4 mr-2" />}
+              Run {selected.action}
+            </Button>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
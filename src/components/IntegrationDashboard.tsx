@@ -5,6 +5,8 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
 import { 
   Activity, 
   CheckCircle, 
@@ -22,9 +24,13 @@ import {
   AlertCircle,
   Settings,
   BarChart3,
-  RefreshCw
+  RefreshCw,
+  RotateCcw
 } from 'lucide-react';
-import { integrationManager } from '@/lib/integrations/IntegrationManager';
+import { integrationManager, IntegrationJob } from '@/lib/integrations/IntegrationManager';
+import { IntegrationActionForm } from '@/components/IntegrationActionForm';
+import AccountingSyncPanel from '@/components/AccountingSyncPanel';
+import type { IntegrationMetrics } from '@/lib/integrations/utils/IntegrationLogger';
 import { useToast } from '@/hooks/use-toast';
 
 interface ServiceStatus {
@@ -32,6 +38,7 @@ interface ServiceStatus {
   enabled: boolean;
   configured: boolean;
   connected: boolean;
+  sandbox?: boolean;
   lastActivity?: any;
   error?: string;
 }
@@ -51,6 +58,14 @@ const serviceIcons = {
   runwayml: Video
 };
 
+const timeRanges = {
+  '24h': { label: 'Last 24 hours', ms: 24 * 60 * 60 * 1000 },
+  '7d': { label: 'Last 7 days', ms: 7 * 24 * 60 * 60 * 1000 },
+  '30d': { label: 'Last 30 days', ms: 30 * 24 * 60 * 60 * 1000 }
+};
+
+type TimeRangeKey = keyof typeof timeRanges;
+
 const serviceNames = {
   zapier: 'Zapier',
   airtable: 'Airtable',
@@ -68,14 +83,18 @@ const serviceNames = {
 
 export const IntegrationDashboard: React.FC = () => {
   const [services, setServices] = useState<Record<string, ServiceStatus>>({});
-  const [analytics, setAnalytics] = useState<any>(null);
+  const [analytics, setAnalytics] = useState<IntegrationMetrics | null>(null);
+  const [timeRange, setTimeRange] = useState<TimeRangeKey>('7d');
+  const [jobs, setJobs] = useState<IntegrationJob[]>([]);
+  const [rateLimits, setRateLimits] = useState<Record<string, any>>({});
+  const [replayingJobId, setReplayingJobId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
   const { toast } = useToast();
 
   useEffect(() => {
     loadIntegrationData();
-  }, []);
+  }, [timeRange]);
 
   const loadIntegrationData = async () => {
     try {
@@ -85,13 +104,21 @@ export const IntegrationDashboard: React.FC = () => {
       const statusData = await integrationManager.getIntegrationStatus();
       setServices(statusData);
 
-      // Get analytics for the last 7 days
+      // Get analytics for the selected time range
       const analyticsData = await integrationManager.getAnalytics(undefined, {
-        start: new Date(Date.now() - 7 * 24 * 60 * 60 * 1000),
+        start: new Date(Date.now() - timeRanges[timeRange].ms),
         end: new Date()
       });
       setAnalytics(analyticsData);
 
+      // Get queued jobs that have not completed yet
+      const jobData = await integrationManager.getJobs(['pending', 'running', 'failed', 'dead_lettered']);
+      setJobs(jobData);
+
+      // Get rate limit usage shared across the team
+      const rateLimitData = await integrationManager.getRateLimitStats();
+      setRateLimits(rateLimitData);
+
     } catch (error) {
       console.error('Failed to load integration data:', error);
       toast({
@@ -114,7 +141,45 @@ export const IntegrationDashboard: React.FC = () => {
     });
   };
 
+  const replayJob = async (jobId: string) => {
+    try {
+      setReplayingJobId(jobId);
+      await integrationManager.replayJob(jobId);
+      setJobs(await integrationManager.getJobs(['pending', 'running', 'failed', 'dead_lettered']));
+      toast({
+        title: "Job Replayed",
+        description: "The job has been queued to run again",
+      });
+    } catch (error) {
+      toast({
+        title: "Replay Failed",
+        description: error.message || "Failed to replay job",
+        variant: "destructive",
+      });
+    } finally {
+      setReplayingJobId(null);
+    }
+  };
+
+  const getJobStatusBadge = (status: string) => {
+    switch (status) {
+      case 'pending':
+        return <Badge variant="secondary">Pending</Badge>;
+      case 'running':
+        return <Badge variant="outline">Running</Badge>;
+      case 'failed':
+        return <Badge variant="outline" className="border-orange-500 text-orange-600">Retrying</Badge>;
+      case 'dead_lettered':
+        return <Badge variant="destructive">Dead-lettered</Badge>;
+      default:
+        return <Badge variant="default" className="bg-green-500">Succeeded</Badge>;
+    }
+  };
+
   const getStatusBadge = (service: ServiceStatus) => {
+    if (service.sandbox) {
+      return <Badge variant="outline" className="border-amber-500 text-amber-600">Sandbox</Badge>;
+    }
     if (!service.enabled) {
       return <Badge variant="secondary">Disabled</Badge>;
     }
@@ -137,6 +202,27 @@ export const IntegrationDashboard: React.FC = () => {
     return <CheckCircle className="w-4 h-4 text-green-500" />;
   };
 
+  const toggleSandbox = async (serviceName: string, enabled: boolean) => {
+    try {
+      integrationManager.setSandboxMode(serviceName, enabled);
+      const status = await integrationManager.getIntegrationStatus(serviceName);
+      setServices(prev => ({ ...prev, [serviceName]: status }));
+
+      toast({
+        title: enabled ? "Sandbox Enabled" : "Sandbox Disabled",
+        description: enabled
+          ? `${serviceName} calls now use the offline sandbox provider`
+          : `${serviceName} calls now use the live API`,
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+    }
+  };
+
   // Sample function to trigger Zapier workflow for lead123
   const triggerZapierForLead123 = async () => {
     try {
@@ -154,8 +240,8 @@ export const IntegrationDashboard: React.FC = () => {
 
       if (result.success) {
         toast({
-          title: "Zapier Workflow Triggered",
-          description: "Lead123 sync workflow has been triggered successfully",
+          title: "Zapier Workflow Queued",
+          description: "Lead123 sync workflow has been queued and will retry until delivered",
         });
       } else {
         toast({
@@ -206,6 +292,16 @@ export const IntegrationDashboard: React.FC = () => {
           </p>
         </div>
         <div className="flex gap-2">
+          <Select value={timeRange} onValueChange={(value) => setTimeRange(value as TimeRangeKey)}>
+            <SelectTrigger className="w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {Object.entries(timeRanges).map(([key, range]) => (
+                <SelectItem key={key} value={key}>{range.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
           <Button onClick={refreshData} disabled={refreshing} variant="outline">
             <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
             Refresh
@@ -225,7 +321,7 @@ export const IntegrationDashboard: React.FC = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{analytics.totalRequests}</div>
-              <p className="text-xs text-muted-foreground">Last 7 days</p>
+              <p className="text-xs text-muted-foreground">{timeRanges[timeRange].label}</p>
             </CardContent>
           </Card>
           <Card>
@@ -239,11 +335,13 @@ export const IntegrationDashboard: React.FC = () => {
           </Card>
           <Card>
             <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium">Avg Response</CardTitle>
+              <CardTitle className="text-sm font-medium">Response Time</CardTitle>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-bold">{Math.round(analytics.averageResponseTime)}ms</div>
-              <p className="text-xs text-muted-foreground">Response time</p>
+              <div className="text-2xl font-bold">{analytics.p50ResponseTime}ms</div>
+              <p className="text-xs text-muted-foreground">
+                p50 · p95 {analytics.p95ResponseTime}ms · avg {Math.round(analytics.averageResponseTime)}ms
+              </p>
             </CardContent>
           </Card>
           <Card>
@@ -263,6 +361,15 @@ export const IntegrationDashboard: React.FC = () => {
           <TabsTrigger value="services">Services</TabsTrigger>
           <TabsTrigger value="analytics">Analytics</TabsTrigger>
           <TabsTrigger value="workflows">Workflows</TabsTrigger>
+          <TabsTrigger value="accounting">Accounting Sync</TabsTrigger>
+          <TabsTrigger value="jobs">
+            Jobs
+            {jobs.some(job => job.status === 'dead_lettered') && (
+              <Badge variant="destructive" className="ml-2">
+                {jobs.filter(job => job.status === 'dead_lettered').length}
+              </Badge>
+            )}
+          </TabsTrigger>
         </TabsList>
 
         <TabsContent value="services" className="space-y-4">
@@ -305,6 +412,22 @@ export const IntegrationDashboard: React.FC = () => {
                         <span>Configured:</span>
                         <span>{service.configured ? 'Yes' : 'No'}</span>
                       </div>
+                      <div className="flex items-center justify-between">
+                        <span>Sandbox:</span>
+                        <Switch
+                          checked={!!service.sandbox}
+                          onCheckedChange={(checked) => toggleSandbox(serviceName, checked)}
+                        />
+                      </div>
+                      {rateLimits[serviceName] && (
+                        <div className="flex justify-between">
+                          <span>Rate Limit (team):</span>
+                          <span>
+                            {rateLimits[serviceName].minute.used}/{rateLimits[serviceName].minute.limit} per min
+                            {' · '}{rateLimits[serviceName].hour.used}/{rateLimits[serviceName].hour.limit} per hr
+                          </span>
+                        </div>
+                      )}
                       {service.lastActivity && (
                         <div className="flex justify-between">
                           <span>Last Activity:</span>
@@ -353,25 +476,83 @@ export const IntegrationDashboard: React.FC = () => {
 
                 <Card>
                   <CardHeader>
-                    <CardTitle>Common Errors</CardTitle>
+                    <CardTitle>Error Clusters</CardTitle>
+                    <CardDescription>Similar errors grouped by message pattern</CardDescription>
                   </CardHeader>
                   <CardContent>
-                    <div className="space-y-2">
-                      {analytics.commonErrors.slice(0, 5).map((error, index) => (
-                        <div key={index} className="text-sm">
+                    <div className="space-y-3">
+                      {analytics.errorClusters.slice(0, 5).map((cluster) => (
+                        <div key={cluster.pattern} className="text-sm">
                           <div className="flex justify-between items-center">
-                            <span className="truncate mr-2">{error.error}</span>
-                            <Badge variant="outline">{error.count}</Badge>
+                            <span className="truncate mr-2" title={cluster.sample}>{cluster.sample}</span>
+                            <Badge variant="outline">{cluster.count}</Badge>
                           </div>
+                          <p className="text-xs text-muted-foreground">
+                            {cluster.services.map(service => serviceNames[service as keyof typeof serviceNames] || service).join(', ')}
+                            {' · last seen '}{new Date(cluster.lastSeen).toLocaleString()}
+                          </p>
                         </div>
                       ))}
-                      {analytics.commonErrors.length === 0 && (
+                      {analytics.errorClusters.length === 0 && (
                         <p className="text-sm text-muted-foreground">No errors in the selected period</p>
                       )}
                     </div>
                   </CardContent>
                 </Card>
               </div>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Requests by Hour</CardTitle>
+                  <CardDescription>Failed requests are shown in red</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="flex items-end gap-px h-32">
+                    {analytics.requestsByHour.map((bucket) => {
+                      const peak = Math.max(1, ...analytics.requestsByHour.map(b => b.count));
+                      return (
+                        <div
+                          key={bucket.hour}
+                          className="flex-1 flex flex-col justify-end h-full"
+                          title={`${new Date(bucket.hour).toLocaleString()}: ${bucket.count} requests, ${bucket.errors} errors`}
+                        >
+                          <div className="bg-red-500" style={{ height: `${(bucket.errors / peak) * 100}%` }} />
+                          <div className="bg-primary" style={{ height: `${((bucket.count - bucket.errors) / peak) * 100}%` }} />
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Actions</CardTitle>
+                  <CardDescription>Success rate and p95 latency per service action</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {analytics.requestsByAction.slice(0, 15).map((action) => (
+                      <div key={`${action.serviceName}:${action.action}`} className="flex items-center justify-between text-sm">
+                        <span className="font-medium truncate mr-2">
+                          {serviceNames[action.serviceName as keyof typeof serviceNames] || action.serviceName}
+                          <span className="text-muted-foreground"> · {action.action}</span>
+                        </span>
+                        <div className="flex items-center gap-3 text-muted-foreground">
+                          <span>{action.total} requests</span>
+                          <span>p95 {action.p95ResponseTime}ms</span>
+                          <Badge variant={action.successRate < 90 ? 'destructive' : 'outline'}>
+                            {action.successRate}%
+                          </Badge>
+                        </div>
+                      </div>
+                    ))}
+                    {analytics.requestsByAction.length === 0 && (
+                      <p className="text-sm text-muted-foreground">No requests in the selected period</p>
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
             </>
           )}
         </TabsContent>
@@ -450,6 +631,60 @@ export const IntegrationDashboard: React.FC = () => {
               </CardContent>
             </Card>
           </div>
+
+          <IntegrationActionForm services={Object.keys(services)} />
+        </TabsContent>
+        <TabsContent value="accounting" className="space-y-4">
+          <AccountingSyncPanel />
+        </TabsContent>
+        <TabsContent value="jobs" className="space-y-4">
+          <Card>
+            <CardHeader>
+              <CardTitle>Queued Jobs</CardTitle>
+              <CardDescription>
+                Outbound workflow actions run in the background and retry with backoff. Dead-lettered jobs need a manual replay.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-3">
+                {jobs.map((job) => (
+                  <div key={job.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">
+                          {serviceNames[job.service_name as keyof typeof serviceNames] || job.service_name}
+                        </span>
+                        <span className="text-sm text-muted-foreground">{job.action}</span>
+                        {getJobStatusBadge(job.status)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        Attempt {job.attempts}/{job.max_attempts}
+                        {' · queued '}{new Date(job.created_at).toLocaleString()}
+                        {job.status === 'failed' && ` · next retry ${new Date(job.next_run_at).toLocaleString()}`}
+                      </p>
+                      {job.last_error && (
+                        <p className="text-xs text-red-500 truncate" title={job.last_error}>{job.last_error}</p>
+                      )}
+                    </div>
+                    {(job.status === 'failed' || job.status === 'dead_lettered') && (
+                      <Button
+                        size="sm"
+                        variant="outline"
+                        onClick={() => replayJob(job.id)}
+                        disabled={replayingJobId === job.id}
+                      >
+                        <RotateCcw className={`w-4 h-4 mr-2 ${replayingJobId === job.id ? 'animate-spin' : ''}`} />
+                        Replay
+                      </Button>
+                    )}
+                  </div>
+                ))}
+                {jobs.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No pending or failed jobs</p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
         </TabsContent>
       </Tabs>
     </div>
@@ -0,0 +1,147 @@
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  InvoiceLineItemDraft,
+  InvoiceTotals,
+  LineItemCategory,
+  LINE_ITEM_CATEGORIES,
+  VAT_RATES,
+  createLineItem,
+  getLineNet,
+} from '@/lib/invoiceCalculations';
+import { DEFAULT_CURRENCY, formatMoney } from '@/lib/currency';
+
+interface InvoiceLineItemsEditorProps {
+  lineItems: InvoiceLineItemDraft[];
+  onChange: (lineItems: InvoiceLineItemDraft[]) => void;
+  currency?: string;
+}
+
+export const InvoiceLineItemsEditor: React.FC<InvoiceLineItemsEditorProps> = ({ lineItems, onChange, currency = DEFAULT_CURRENCY }) => {
+  const updateLine = (index: number, changes: Partial<InvoiceLineItemDraft>) => {
+    onChange(lineItems.map((line, i) => (i === index ? { ...line, ...changes } : line)));
+  };
+
+  const changeCategory = (index: number, category: LineItemCategory) => {
+    updateLine(index, { category, cisApplicable: category === 'labour' });
+  };
+
+  const removeLine = (index: number) => {
+    onChange(lineItems.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      {lineItems.map((line, index) => (
+        <div key={index} className="p-3 border rounded-lg space-y-2">
+          <div className="flex gap-2">
+            <Select value={line.category} onValueChange={(value) => changeCategory(index, value as LineItemCategory)}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LINE_ITEM_CATEGORIES.map(category => (
+                  <SelectItem key={category.value} value={category.value}>{category.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Input
+              placeholder="Description"
+              value={line.description}
+              onChange={(e) => updateLine(index, { description: e.target.value })}
+            />
+            <Button variant="ghost" size="icon" onClick={() => removeLine(index)}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="grid grid-cols-4 gap-2 items-center">
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Qty"
+              value={line.quantity}
+              onChange={(e) => updateLine(index, { quantity: parseFloat(e.target.value) || 0 })}
+            />
+            <Input
+              placeholder="Unit (e.g. m², day)"
+              value={line.unit}
+              onChange={(e) => updateLine(index, { unit: e.target.value })}
+            />
+            <Input
+              type="number"
+              step="0.01"
+              placeholder="Unit price"
+              value={line.unitPrice}
+              onChange={(e) => updateLine(index, { unitPrice: parseFloat(e.target.value) || 0 })}
+            />
+            <Select value={line.vatRate.toString()} onValueChange={(value) => updateLine(index, { vatRate: parseInt(value) })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {VAT_RATES.map(rate => (
+                  <SelectItem key={rate} value={rate.toString()}>{rate}% VAT</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="flex justify-between items-center text-sm">
+            <label className="flex items-center gap-2 text-muted-foreground">
+              <Checkbox
+                checked={line.cisApplicable}
+                onCheckedChange={(checked) => updateLine(index, { cisApplicable: checked === true })}
+              />
+              Subject to CIS
+            </label>
+            <span className="font-medium">{formatMoney(getLineNet(line), currency)}</span>
+          </div>
+        </div>
+      ))}
+
+      <Button variant="outline" size="sm" onClick={() => onChange([...lineItems, createLineItem()])}>
+        <Plus className="w-4 h-4 mr-2" />
+        Add Line Item
+      </Button>
+    </div>
+  );
+};
+
+export const InvoiceTotalsSummary: React.FC<{ totals: InvoiceTotals; currency?: string }> = ({
+  totals,
+  currency = DEFAULT_CURRENCY,
+}) => (
+  <div className="space-y-1 text-sm">
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">Subtotal</span>
+      <span>{formatMoney(totals.subtotal, currency)}</span>
+    </div>
+    <div className="flex justify-between">
+      <span className="text-muted-foreground">VAT</span>
+      <span>{formatMoney(totals.vatTotal, currency)}</span>
+    </div>
+    <div className="flex justify-between font-medium">
+      <span>Total</span>
+      <span>{formatMoney(totals.totalAmount, currency)}</span>
+    </div>
+    {!!totals.discountTotal && (
+      <div className="flex justify-between text-muted-foreground">
+        <span>Discount</span>
+        <span>-{formatMoney(totals.discountTotal, currency)}</span>
+      </div>
+    )}
+    {totals.cisDeduction > 0 && (
+      <div className="flex justify-between text-muted-foreground">
+        <span>CIS deduction ({totals.cisRate}%)</span>
+        <span>-{formatMoney(totals.cisDeduction, currency)}</span>
+      </div>
+    )}
+    <div className="flex justify-between font-bold border-t pt-1">
+      <span>Amount Due</span>
+      <span>{formatMoney(totals.amountDue, currency)}</span>
+    </div>
+  </div>
+);
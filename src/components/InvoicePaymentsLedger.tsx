@@ -0,0 +1,404 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Wallet, Plus, Undo2, FileMinus, RefreshCw } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { integrationManager } from '@/lib/integrations/IntegrationManager';
+
+export interface LedgerInvoice {
+  id: string;
+  invoice_number: string;
+  customer_name: string;
+  customer_email?: string;
+  amount: number;
+  currency: string;
+  amount_paid?: number;
+  amount_refunded?: number;
+  amount_credited?: number;
+  balance_due?: number | null;
+}
+
+interface LedgerEntry {
+  id: string;
+  entry_type: 'payment' | 'refund' | 'credit_note';
+  amount: number;
+  method: string;
+  status: 'pending' | 'succeeded' | 'failed';
+  reference: string | null;
+  reason: string | null;
+  credit_note_number: string | null;
+  stripe_payment_intent_id: string | null;
+  accounting_provider: string | null;
+  accounting_synced_at: string | null;
+  error_message: string | null;
+  recorded_at: string;
+  integration_jobs: { status: string; last_error: string | null } | null;
+}
+
+type EntryForm = 'payment' | 'refund' | 'credit_note';
+
+interface InvoicePaymentsLedgerProps {
+  invoice: LedgerInvoice;
+  formatCurrency: (amount: number, currency?: string) => string;
+  // Called after any entry changes the invoice's balance or status
+  onChange: () => void;
+}
+
+const MANUAL_METHODS = [
+  { value: 'bank_transfer', label: 'Bank transfer' },
+  { value: 'card', label: 'Card (terminal)' },
+  { value: 'cash', label: 'Cash' },
+  { value: 'cheque', label: 'Cheque' },
+  { value: 'other', label: 'Other' },
+];
+
+const ENTRY_LABELS: Record<LedgerEntry['entry_type'], string> = {
+  payment: 'Payment',
+  refund: 'Refund',
+  credit_note: 'Credit note',
+};
+
+const ACCOUNTING_PROVIDERS = ['xero', 'quickbooks'] as const;
+
+const InvoicePaymentsLedger = ({ invoice, formatCurrency, onChange }: InvoicePaymentsLedgerProps) => {
+  const [entries, setEntries] = useState<LedgerEntry[]>([]);
+  const [form, setForm] = useState<EntryForm | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState('bank_transfer');
+  const [reference, setReference] = useState('');
+  const [recordedOn, setRecordedOn] = useState('');
+  const [refundViaStripe, setRefundViaStripe] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [syncing, setSyncing] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    fetchEntries();
+  }, [invoice.id]);
+
+  const fetchEntries = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_payments')
+        .select('*, integration_jobs(status, last_error)')
+        .eq('invoice_id', invoice.id)
+        .order('recorded_at', { ascending: true });
+
+      if (error) throw error;
+      setEntries((data || []) as LedgerEntry[]);
+    } catch (error) {
+      console.error('Error fetching payments ledger:', error);
+      toast.error('Failed to load payments');
+    }
+  };
+
+  // Net amount taken through Stripe that a refund can still go back to
+  const stripeRefundable = entries
+    .filter(entry => entry.method === 'stripe' && entry.status !== 'failed')
+    .reduce((sum, entry) => sum + (entry.entry_type === 'payment' ? 1 : entry.entry_type === 'refund' ? -1 : 0) * Number(entry.amount), 0);
+
+  const balanceDue = invoice.balance_due ?? invoice.amount;
+
+  const openForm = (next: EntryForm) => {
+    setForm(next);
+    setAmount(next === 'payment' && balanceDue > 0 ? String(balanceDue) : '');
+    setMethod('bank_transfer');
+    setReference('');
+    setRecordedOn('');
+    setRefundViaStripe(stripeRefundable > 0);
+  };
+
+  const syncCreditNote = async (entry: LedgerEntry) => {
+    const provider = ACCOUNTING_PROVIDERS.find(name => integrationManager.getConfiguration(name)?.enabled);
+    if (!provider) {
+      toast.info('Connect Xero or QuickBooks in Integrations to sync credit notes');
+      return;
+    }
+
+    setSyncing(entry.id);
+    try {
+      const result = await integrationManager.triggerWorkflow({
+        idempotencyKey: `${provider}:credit_note:${entry.id}`,
+        triggerType: provider,
+        action: 'sync_credit_note',
+        data: {
+          creditNoteNumber: entry.credit_note_number!,
+          invoiceNumber: invoice.invoice_number,
+          crmCreditNoteId: entry.id,
+          customer: { name: invoice.customer_name, email: invoice.customer_email },
+          date: entry.recorded_at.split('T')[0],
+          reason: entry.reason || undefined,
+          lineItems: [{
+            description: `Credit against ${invoice.invoice_number}${entry.reason ? `: ${entry.reason}` : ''}`,
+            quantity: 1,
+            unitAmount: Number(entry.amount),
+          }],
+        },
+        metadata: { userId: user?.id },
+      });
+
+      if (!result.success) throw new Error(result.error);
+
+      // Queued jobs report their progress through integration_jobs; inline (sandbox) runs are done
+      const { error } = await supabase
+        .from('invoice_payments')
+        .update({
+          accounting_provider: provider,
+          accounting_job_id: result.jobId ?? null,
+          accounting_synced_at: result.jobId ? null : new Date().toISOString(),
+        })
+        .eq('id', entry.id);
+
+      if (error) throw error;
+      toast.success(`Credit note sent to ${provider === 'xero' ? 'Xero' : 'QuickBooks'}`);
+    } catch (error) {
+      console.error('Error syncing credit note:', error);
+      toast.error(error.message || 'Failed to sync credit note');
+    } finally {
+      setSyncing(null);
+      fetchEntries();
+    }
+  };
+
+  const submitEntry = async () => {
+    const value = Math.round(parseFloat(amount) * 100) / 100;
+    if (!form || !user || !(value > 0)) {
+      toast.error('Enter an amount');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      if (form === 'refund' && refundViaStripe) {
+        const { data, error } = await supabase.functions.invoke('invoice-refund', {
+          body: { invoiceId: invoice.id, amount: value, reason: reference || undefined, stripeReason: 'requested_by_customer' }
+        });
+
+        if (error) throw error;
+        if (!data.success) throw new Error(data.error || 'Refund failed');
+
+        toast.success(`Refund of ${formatCurrency(value, invoice.currency)} sent to Stripe`);
+      } else {
+        const { data: entry, error } = await supabase
+          .from('invoice_payments')
+          .insert({
+            invoice_id: invoice.id,
+            user_id: user.id,
+            entry_type: form,
+            amount: value,
+            currency: invoice.currency,
+            method: form === 'credit_note' ? 'other' : method,
+            ...(form === 'payment' ? { reference: reference || null } : { reason: reference || null }),
+            ...(recordedOn ? { recorded_at: new Date(recordedOn).toISOString() } : {}),
+          })
+          .select('*, integration_jobs(status, last_error)')
+          .single();
+
+        if (error) throw error;
+
+        if (form === 'credit_note') {
+          toast.success(`Credit note ${entry.credit_note_number} issued`);
+          if (ACCOUNTING_PROVIDERS.some(name => integrationManager.getConfiguration(name)?.enabled)) {
+            await syncCreditNote(entry as LedgerEntry);
+          }
+        } else {
+          toast.success(form === 'payment' ? 'Payment recorded' : 'Refund recorded');
+        }
+      }
+
+      setForm(null);
+      fetchEntries();
+      onChange();
+    } catch (error) {
+      console.error('Error recording ledger entry:', error);
+      toast.error(error.message || 'Failed to record entry');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const getAccountingBadge = (entry: LedgerEntry) => {
+    if (entry.entry_type !== 'credit_note') return null;
+
+    const jobStatus = entry.integration_jobs?.status;
+    if (entry.accounting_synced_at || jobStatus === 'succeeded') {
+      return <Badge variant="secondary" className="capitalize">{entry.accounting_provider} synced</Badge>;
+    }
+    if (jobStatus === 'failed' || jobStatus === 'dead_lettered') {
+      return (
+        <Badge variant="destructive" title={entry.integration_jobs?.last_error || undefined}>
+          Sync {jobStatus === 'failed' ? 'retrying' : 'failed'}
+        </Badge>
+      );
+    }
+    if (jobStatus) {
+      return <Badge variant="outline">Syncing</Badge>;
+    }
+
+    return (
+      <Button size="sm" variant="ghost" onClick={() => syncCreditNote(entry)} disabled={syncing === entry.id}>
+        <RefreshCw className={`w-3 h-3 mr-1 ${syncing === entry.id ? 'animate-spin' : ''}`} />
+        Sync
+      </Button>
+    );
+  };
+
+  return (
+    <div className="space-y-3 pt-2 border-t">
+      <div className="flex items-center gap-2 font-medium">
+        <Wallet className="w-4 h-4" />
+        Payments
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-sm">
+        <div>
+          <div className="text-muted-foreground">Paid</div>
+          <div className="font-medium">{formatCurrency(invoice.amount_paid ?? 0, invoice.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Refunded</div>
+          <div className="font-medium">{formatCurrency(invoice.amount_refunded ?? 0, invoice.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Credited</div>
+          <div className="font-medium">{formatCurrency(invoice.amount_credited ?? 0, invoice.currency)}</div>
+        </div>
+        <div>
+          <div className="text-muted-foreground">Balance due</div>
+          <div className="font-bold">{formatCurrency(balanceDue, invoice.currency)}</div>
+        </div>
+      </div>
+
+      {entries.length > 0 && (
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Date</TableHead>
+              <TableHead>Entry</TableHead>
+              <TableHead className="text-right">Amount</TableHead>
+              <TableHead></TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {entries.map(entry => (
+              <TableRow key={entry.id} className={entry.status === 'failed' ? 'opacity-60' : ''}>
+                <TableCell className="text-sm">{new Date(entry.recorded_at).toLocaleDateString()}</TableCell>
+                <TableCell>
+                  <div className="flex items-center gap-2">
+                    {entry.credit_note_number || ENTRY_LABELS[entry.entry_type]}
+                    {entry.status !== 'succeeded' && (
+                      <Badge variant={entry.status === 'failed' ? 'destructive' : 'outline'} className="capitalize">
+                        {entry.status}
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {[entry.method.replace(/_/g, ' '), entry.reference || entry.reason, entry.error_message]
+                      .filter(Boolean)
+                      .join(' • ')}
+                  </div>
+                </TableCell>
+                <TableCell className="text-right">
+                  {entry.entry_type === 'payment' ? '' : '−'}{formatCurrency(Number(entry.amount), invoice.currency)}
+                </TableCell>
+                <TableCell className="text-right">{getAccountingBadge(entry)}</TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      )}
+
+      {form ? (
+        <div className="space-y-3 rounded-md border p-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="ledger-amount">Amount</Label>
+              <Input
+                id="ledger-amount"
+                type="number"
+                min="0"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+              />
+            </div>
+            {form === 'payment' && (
+              <div className="space-y-1">
+                <Label htmlFor="ledger-date">Received on</Label>
+                <Input id="ledger-date" type="date" value={recordedOn} onChange={(e) => setRecordedOn(e.target.value)} />
+              </div>
+            )}
+            {(form === 'payment' || (form === 'refund' && !refundViaStripe)) && (
+              <div className="space-y-1">
+                <Label>Method</Label>
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MANUAL_METHODS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+            <div className="space-y-1">
+              <Label htmlFor="ledger-reference">{form === 'payment' ? 'Reference' : 'Reason'}</Label>
+              <Input
+                id="ledger-reference"
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder={form === 'payment' ? 'Bank reference' : form === 'refund' ? 'Why is this being refunded?' : 'What is being credited?'}
+              />
+            </div>
+          </div>
+          {form === 'refund' && stripeRefundable > 0 && (
+            <div className="flex items-center gap-2">
+              <Switch id="ledger-stripe-refund" checked={refundViaStripe} onCheckedChange={setRefundViaStripe} />
+              <Label htmlFor="ledger-stripe-refund">
+                Refund to the customer's card through Stripe (up to {formatCurrency(stripeRefundable, invoice.currency)})
+              </Label>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <Button size="sm" onClick={submitEntry} disabled={saving}>
+              {saving ? 'Saving...' : form === 'payment' ? 'Record Payment' : form === 'refund' ? 'Issue Refund' : 'Issue Credit Note'}
+            </Button>
+            <Button size="sm" variant="outline" onClick={() => setForm(null)}>Cancel</Button>
+          </div>
+        </div>
+      ) : (
+        <div className="flex flex-wrap gap-2">
+          {balanceDue > 0 && (
+            <Button size="sm" variant="outline" onClick={() => openForm('payment')}>
+              <Plus className="w-4 h-4 mr-2" />
+              Record Payment
+            </Button>
+          )}
+          {(invoice.amount_paid ?? 0) - (invoice.amount_refunded ?? 0) > 0 && (
+            <Button size="sm" variant="outline" onClick={() => openForm('refund')}>
+              <Undo2 className="w-4 h-4 mr-2" />
+              Refund
+            </Button>
+          )}
+          {(invoice.amount_credited ?? 0) < invoice.amount && (
+            <Button size="sm" variant="outline" onClick={() => openForm('credit_note')}>
+              <FileMinus className="w-4 h-4 mr-2" />
+              Credit Note
+            </Button>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default InvoicePaymentsLedger;
@@ -0,0 +1,432 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Switch } from '@/components/ui/switch';
+import { Badge } from '@/components/ui/badge';
+import { Building2, FileText, Plus, Star, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+
+export interface InvoiceTemplate {
+  id?: string;
+  name: string;
+  layout: 'classic' | 'modern' | 'minimal';
+  accent_color: string;
+  logo_url?: string | null;
+  show_line_categories: boolean;
+  payment_terms?: string | null;
+  footer_text?: string | null;
+  is_default: boolean;
+}
+
+interface BusinessDetails {
+  business_name: string;
+  business_address: string;
+  business_email: string;
+  business_phone: string;
+  vat_number: string;
+  company_number: string;
+}
+
+const emptyTemplate: InvoiceTemplate = {
+  name: '',
+  layout: 'classic',
+  accent_color: '#1f2937',
+  logo_url: '',
+  show_line_categories: true,
+  payment_terms: 'Payment due within 30 days of the invoice date.',
+  footer_text: '',
+  is_default: false,
+};
+
+const layoutDescriptions: Record<InvoiceTemplate['layout'], string> = {
+  classic: 'Logo and business details at the top, accent rule under the title',
+  modern: 'Full-width colour band with your business name',
+  minimal: 'Black and white, compact header',
+};
+
+const InvoiceTemplatesManager = () => {
+  const [templates, setTemplates] = useState<InvoiceTemplate[]>([]);
+  const [newTemplate, setNewTemplate] = useState<InvoiceTemplate>(emptyTemplate);
+  const [business, setBusiness] = useState<BusinessDetails>({
+    business_name: '',
+    business_address: '',
+    business_email: '',
+    business_phone: '',
+    vat_number: '',
+    company_number: '',
+  });
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchTemplates();
+      fetchBusinessDetails();
+    }
+  }, [user]);
+
+  const fetchTemplates = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_templates')
+        .select('*')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: true });
+
+      if (error) throw error;
+      setTemplates((data || []) as InvoiceTemplate[]);
+    } catch (error) {
+      console.error('Error fetching invoice templates:', error);
+      toast.error('Failed to load invoice templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBusinessDetails = async () => {
+    const { data } = await supabase
+      .from('business_settings')
+      .select('business_name, business_address, business_email, business_phone, vat_number, company_number')
+      .eq('user_id', user?.id)
+      .maybeSingle();
+
+    if (data) {
+      setBusiness({
+        business_name: data.business_name || '',
+        business_address: data.business_address || '',
+        business_email: data.business_email || '',
+        business_phone: data.business_phone || '',
+        vat_number: data.vat_number || '',
+        company_number: data.company_number || '',
+      });
+    }
+  };
+
+  const saveBusinessDetails = async () => {
+    if (!user) return;
+
+    setSaving(true);
+    try {
+      const { error } = await supabase
+        .from('business_settings')
+        .upsert({ user_id: user.id, ...business }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      toast.success('Business details saved');
+    } catch (error) {
+      console.error('Error saving business details:', error);
+      toast.error('Failed to save business details');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only one template can be the default; clear the flag elsewhere first
+  const clearDefault = async () => {
+    await supabase
+      .from('invoice_templates')
+      .update({ is_default: false })
+      .eq('user_id', user?.id)
+      .eq('is_default', true);
+  };
+
+  const createTemplate = async () => {
+    if (!user || !newTemplate.name) {
+      toast.error('Please give the template a name');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const isDefault = newTemplate.is_default || templates.length === 0;
+      if (isDefault) await clearDefault();
+
+      const { error } = await supabase
+        .from('invoice_templates')
+        .insert({
+          ...newTemplate,
+          logo_url: newTemplate.logo_url || null,
+          footer_text: newTemplate.footer_text || null,
+          is_default: isDefault,
+          user_id: user.id,
+        });
+
+      if (error) throw error;
+
+      toast.success('Invoice template created');
+      setNewTemplate(emptyTemplate);
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error creating invoice template:', error);
+      toast.error('Failed to create invoice template');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const setDefaultTemplate = async (id: string) => {
+    try {
+      await clearDefault();
+      const { error } = await supabase
+        .from('invoice_templates')
+        .update({ is_default: true })
+        .eq('id', id);
+
+      if (error) throw error;
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error setting default template:', error);
+      toast.error('Failed to set default template');
+    }
+  };
+
+  const deleteTemplate = async (id: string) => {
+    try {
+      const { error } = await supabase
+        .from('invoice_templates')
+        .delete()
+        .eq('id', id);
+
+      if (error) throw error;
+      toast.success('Invoice template deleted');
+      fetchTemplates();
+    } catch (error) {
+      console.error('Error deleting invoice template:', error);
+      toast.error('Failed to delete invoice template');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading invoice templates...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Building2 className="w-5 h-5" />
+            Business Details
+          </CardTitle>
+          <CardDescription>
+            Printed on every invoice PDF. Your company logo is used unless a template sets its own.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="business-name">Business Name</Label>
+              <Input
+                id="business-name"
+                value={business.business_name}
+                onChange={(e) => setBusiness(prev => ({ ...prev, business_name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-email">Email</Label>
+              <Input
+                id="business-email"
+                type="email"
+                value={business.business_email}
+                onChange={(e) => setBusiness(prev => ({ ...prev, business_email: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="business-phone">Phone</Label>
+              <Input
+                id="business-phone"
+                value={business.business_phone}
+                onChange={(e) => setBusiness(prev => ({ ...prev, business_phone: e.target.value }))}
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="vat-number">VAT Number</Label>
+                <Input
+                  id="vat-number"
+                  value={business.vat_number}
+                  onChange={(e) => setBusiness(prev => ({ ...prev, vat_number: e.target.value }))}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="company-number">Company Number</Label>
+                <Input
+                  id="company-number"
+                  value={business.company_number}
+                  onChange={(e) => setBusiness(prev => ({ ...prev, company_number: e.target.value }))}
+                />
+              </div>
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="business-address">Address</Label>
+            <Textarea
+              id="business-address"
+              rows={3}
+              value={business.business_address}
+              onChange={(e) => setBusiness(prev => ({ ...prev, business_address: e.target.value }))}
+            />
+          </div>
+          <Button onClick={saveBusinessDetails} disabled={saving}>
+            Save Business Details
+          </Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <FileText className="w-5 h-5" />
+            Invoice Templates
+          </CardTitle>
+          <CardDescription>
+            Choose how your invoice PDFs look. The default template is used when generating invoices.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="template-name">Template Name</Label>
+              <Input
+                id="template-name"
+                placeholder="e.g. Standard"
+                value={newTemplate.name}
+                onChange={(e) => setNewTemplate(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Layout</Label>
+              <Select
+                value={newTemplate.layout}
+                onValueChange={(value) => setNewTemplate(prev => ({ ...prev, layout: value as InvoiceTemplate['layout'] }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="classic">Classic</SelectItem>
+                  <SelectItem value="modern">Modern</SelectItem>
+                  <SelectItem value="minimal">Minimal</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">{layoutDescriptions[newTemplate.layout]}</p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="accent-color">Accent Colour</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="accent-color"
+                  type="color"
+                  className="w-16 p-1"
+                  value={newTemplate.accent_color}
+                  onChange={(e) => setNewTemplate(prev => ({ ...prev, accent_color: e.target.value }))}
+                />
+                <Input
+                  value={newTemplate.accent_color}
+                  onChange={(e) => setNewTemplate(prev => ({ ...prev, accent_color: e.target.value }))}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="logo-url">Logo URL (Optional)</Label>
+              <Input
+                id="logo-url"
+                placeholder="PNG or JPEG"
+                value={newTemplate.logo_url || ''}
+                onChange={(e) => setNewTemplate(prev => ({ ...prev, logo_url: e.target.value }))}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="payment-terms">Payment Terms</Label>
+            <Textarea
+              id="payment-terms"
+              rows={2}
+              value={newTemplate.payment_terms || ''}
+              onChange={(e) => setNewTemplate(prev => ({ ...prev, payment_terms: e.target.value }))}
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="footer-text">Footer Text (Optional)</Label>
+            <Input
+              id="footer-text"
+              placeholder="e.g. Thank you for your business"
+              value={newTemplate.footer_text || ''}
+              onChange={(e) => setNewTemplate(prev => ({ ...prev, footer_text: e.target.value }))}
+            />
+          </div>
+          <div className="flex items-center gap-6">
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={newTemplate.show_line_categories}
+                onCheckedChange={(checked) => setNewTemplate(prev => ({ ...prev, show_line_categories: checked }))}
+              />
+              <Label>Show line item categories</Label>
+            </div>
+            <div className="flex items-center gap-2">
+              <Switch
+                checked={newTemplate.is_default}
+                onCheckedChange={(checked) => setNewTemplate(prev => ({ ...prev, is_default: checked }))}
+              />
+              <Label>Use as default</Label>
+            </div>
+          </div>
+          <Button onClick={createTemplate} disabled={saving}>
+            <Plus className="w-4 h-4 mr-2" />
+            Create Template
+          </Button>
+
+          <div className="space-y-3">
+            {templates.length === 0 ? (
+              <p className="text-sm text-muted-foreground">
+                No templates yet. Invoices use the built-in classic layout until you create one.
+              </p>
+            ) : (
+              templates.map(template => (
+                <div key={template.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div className="flex items-center gap-3">
+                    <div className="w-6 h-6 rounded" style={{ backgroundColor: template.accent_color }} />
+                    <div>
+                      <div className="font-medium flex items-center gap-2">
+                        {template.name}
+                        {template.is_default && <Badge variant="secondary">Default</Badge>}
+                      </div>
+                      <div className="text-xs text-muted-foreground capitalize">{template.layout} layout</div>
+                    </div>
+                  </div>
+                  <div className="flex gap-2">
+                    {!template.is_default && (
+                      <Button variant="outline" size="sm" onClick={() => setDefaultTemplate(template.id!)}>
+                        <Star className="w-4 h-4 mr-2" />
+                        Make Default
+                      </Button>
+                    )}
+                    <Button variant="ghost" size="sm" onClick={() => deleteTemplate(template.id!)}>
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default InvoiceTemplatesManager;
@@ -0,0 +1,309 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { toast } from "sonner";
+import { Clock, History, Loader2, Mail, MessageSquare, Phone, Play, Square } from "lucide-react";
+import type { MessageSequence } from "@/components/MessageSequenceEditor";
+
+interface TimelineLead {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email: string;
+  phone?: string;
+}
+
+interface Enrollment {
+  id: string;
+  sequence_id: string;
+  status: 'active' | 'completed' | 'exited';
+  current_step: number;
+  next_run_at: string | null;
+  exit_reason: string | null;
+  enrolled_at: string;
+  completed_at: string | null;
+  exited_at: string | null;
+}
+
+interface DeliveryLog {
+  id: string;
+  enrollment_id: string | null;
+  sequence_step_id: string | null;
+  fallback_from: string | null;
+  message_type: string;
+  message_content: string;
+  delivery_status: string;
+  error_message: string | null;
+  created_at: string;
+}
+
+const EXIT_REASONS: Record<string, string> = {
+  booked: 'Booked a consultation',
+  status_changed: 'Lead status changed',
+  unreachable: 'No way to contact the lead',
+  manual: 'Stopped manually',
+};
+
+const STATUS_VARIANTS: Record<string, 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  sent: 'default',
+  delivered: 'default',
+  pending: 'secondary',
+  failed: 'destructive',
+  bounced: 'destructive',
+};
+
+const formatDateTime = (value: string) =>
+  new Date(value).toLocaleString('en-GB', { dateStyle: 'medium', timeStyle: 'short' });
+
+/**
+ * Per-lead view of sequence enrollments and every auto-responder message sent
+ */
+export default function LeadMessageTimeline({ leads, sequences }: { leads: TimelineLead[]; sequences: MessageSequence[] }) {
+  const [leadId, setLeadId] = useState('');
+  const [enrollments, setEnrollments] = useState<Enrollment[]>([]);
+  const [logs, setLogs] = useState<DeliveryLog[]>([]);
+  const [enrollSequenceId, setEnrollSequenceId] = useState('');
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (leadId) {
+      fetchTimeline();
+    }
+  }, [leadId]);
+
+  const fetchTimeline = async () => {
+    setLoading(true);
+    try {
+      const [enrollmentsResult, logsResult] = await Promise.all([
+        supabase
+          .from('message_sequence_enrollments')
+          .select('*')
+          .eq('lead_id', leadId)
+          .order('enrolled_at', { ascending: false }),
+        supabase
+          .from('message_delivery_logs')
+          .select('id, enrollment_id, sequence_step_id, fallback_from, message_type, message_content, delivery_status, error_message, created_at')
+          .eq('lead_id', leadId)
+          .order('created_at', { ascending: false }),
+      ]);
+
+      if (enrollmentsResult.error) throw enrollmentsResult.error;
+      if (logsResult.error) throw logsResult.error;
+      setEnrollments(enrollmentsResult.data as Enrollment[]);
+      setLogs(logsResult.data as DeliveryLog[]);
+    } catch (error) {
+      console.error('Error fetching lead timeline:', error);
+      toast.error('Failed to load timeline');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const enrollLead = async () => {
+    if (!enrollSequenceId) return;
+
+    setLoading(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('auto-responder', {
+        body: { leadId, triggerType: 'manual', sequenceId: enrollSequenceId },
+      });
+
+      if (error) throw error;
+      if (data.success) {
+        toast.success('Lead enrolled in sequence');
+      } else {
+        toast.error(data.errorMessage || 'Failed to enroll lead');
+      }
+      setEnrollSequenceId('');
+      fetchTimeline();
+    } catch (error) {
+      console.error('Error enrolling lead:', error);
+      toast.error('Failed to enroll lead');
+      setLoading(false);
+    }
+  };
+
+  const stopEnrollment = async (enrollmentId: string) => {
+    try {
+      const { error } = await supabase
+        .from('message_sequence_enrollments')
+        .update({ status: 'exited', exit_reason: 'manual', exited_at: new Date().toISOString(), next_run_at: null })
+        .eq('id', enrollmentId)
+        .eq('status', 'active');
+
+      if (error) throw error;
+      toast.success('Sequence stopped for this lead');
+      fetchTimeline();
+    } catch (error) {
+      console.error('Error stopping sequence:', error);
+      toast.error('Failed to stop sequence');
+    }
+  };
+
+  const sequenceName = (sequenceId: string) => sequences.find(s => s.id === sequenceId)?.name || 'Deleted sequence';
+
+  const stepLabel = (log: DeliveryLog) => {
+    const enrollment = enrollments.find(e => e.id === log.enrollment_id);
+    if (!enrollment) return 'Auto-responder';
+    const steps = sequences.find(s => s.id === enrollment.sequence_id)?.message_sequence_steps || [];
+    const index = steps.findIndex(step => step.id === log.sequence_step_id);
+    return `${sequenceName(enrollment.sequence_id)}${index >= 0 ? ` • step ${index + 1}` : ''}`;
+  };
+
+  const messageIcon = (type: string) => {
+    switch (type) {
+      case 'email': return <Mail className="h-4 w-4" />;
+      case 'sms': return <Phone className="h-4 w-4" />;
+      default: return <MessageSquare className="h-4 w-4" />;
+    }
+  };
+
+  const lead = leads.find(l => l.id === leadId);
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>Lead Sequences</span>
+          </CardTitle>
+          <CardDescription>
+            Where each lead is in its sequences
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label>Select Lead</Label>
+            <Select value={leadId} onValueChange={setLeadId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a lead" />
+              </SelectTrigger>
+              <SelectContent>
+                {leads.map(l => (
+                  <SelectItem key={l.id} value={l.id}>
+                    {l.first_name} {l.last_name} - {l.email || l.phone || 'No contact details'}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {lead && (
+            <>
+              <div className="flex gap-2">
+                <Select value={enrollSequenceId} onValueChange={setEnrollSequenceId}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Enroll in a sequence" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {sequences.filter(s => s.is_active).map(sequence => (
+                      <SelectItem key={sequence.id} value={sequence.id}>{sequence.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Button onClick={enrollLead} disabled={loading || !enrollSequenceId}>
+                  <Play className="h-4 w-4 mr-1" />
+                  Enroll
+                </Button>
+              </div>
+
+              {enrollments.map(enrollment => {
+                const total = sequences.find(s => s.id === enrollment.sequence_id)?.message_sequence_steps.length;
+                return (
+                  <div key={enrollment.id} className="border rounded p-3 space-y-1">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">{sequenceName(enrollment.sequence_id)}</span>
+                      <div className="flex items-center space-x-2">
+                        <Badge variant={enrollment.status === 'active' ? 'default' : 'secondary'}>
+                          {enrollment.status}
+                        </Badge>
+                        {enrollment.status === 'active' && (
+                          <Button variant="ghost" size="sm" onClick={() => stopEnrollment(enrollment.id)}>
+                            <Square className="h-4 w-4" />
+                          </Button>
+                        )}
+                      </div>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {enrollment.current_step}{total !== undefined && ` of ${total}`} steps sent • enrolled {formatDateTime(enrollment.enrolled_at)}
+                    </div>
+                    {enrollment.status === 'active' && enrollment.next_run_at && (
+                      <div className="flex items-center text-xs text-muted-foreground">
+                        <Clock className="h-3 w-3 mr-1" />
+                        Next step {formatDateTime(enrollment.next_run_at)}
+                      </div>
+                    )}
+                    {enrollment.status === 'exited' && enrollment.exit_reason && (
+                      <div className="text-xs text-muted-foreground">
+                        {EXIT_REASONS[enrollment.exit_reason] || enrollment.exit_reason}
+                        {enrollment.exited_at && ` • ${formatDateTime(enrollment.exited_at)}`}
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+              {!loading && enrollments.length === 0 && (
+                <p className="text-center text-muted-foreground py-4">
+                  This lead isn't in any sequence
+                </p>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Message Timeline</CardTitle>
+          <CardDescription>
+            Every auto-responder message sent to the lead, newest first
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-6 w-6 animate-spin" />
+            </div>
+          ) : (
+            <div className="space-y-3">
+              {logs.map(log => (
+                <div key={log.id} className="border-l-2 pl-3 space-y-1">
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center space-x-2 text-sm">
+                      {messageIcon(log.message_type)}
+                      <span className="font-medium">{stepLabel(log)}</span>
+                    </div>
+                    <Badge variant={STATUS_VARIANTS[log.delivery_status] || 'outline'}>{log.delivery_status}</Badge>
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {formatDateTime(log.created_at)}
+                    {log.fallback_from && ` • sent by ${log.message_type} instead of ${log.fallback_from}`}
+                  </div>
+                  <p className="text-sm text-muted-foreground line-clamp-2">{log.message_content}</p>
+                  {log.error_message && (
+                    <p className="text-xs text-destructive">{log.error_message}</p>
+                  )}
+                </div>
+              ))}
+              {leadId && logs.length === 0 && (
+                <p className="text-center text-muted-foreground py-8">
+                  No messages sent to this lead yet
+                </p>
+              )}
+              {!leadId && (
+                <p className="text-center text-muted-foreground py-8">
+                  Select a lead to see its timeline
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,54 @@
+import { Badge } from "@/components/ui/badge";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Progress } from "@/components/ui/progress";
+import type { Json } from "@/integrations/supabase/types";
+
+interface FactorScore {
+  factor: string;
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+}
+
+const scoreClass = (score: number) =>
+  score >= 70 ? 'bg-green-100 text-green-800' : score >= 40 ? 'bg-yellow-100 text-yellow-800' : 'bg-gray-100 text-gray-800';
+
+/**
+ * A lead's score; click to see how each factor contributed
+ */
+export default function LeadScoreBadge({ score, breakdown, scoredAt }: { score: number | null; breakdown: Json; scoredAt?: string | null }) {
+  if (score == null) {
+    return <Badge variant="outline" className="text-xs">Not scored</Badge>;
+  }
+
+  const factors = (Array.isArray(breakdown) ? breakdown : []) as unknown as FactorScore[];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <button type="button">
+          <Badge className={`text-xs ${scoreClass(score)}`}>{score}</Badge>
+        </button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 space-y-3">
+        <div className="flex items-center justify-between">
+          <span className="font-medium">Lead score {score}/100</span>
+          {scoredAt && (
+            <span className="text-xs text-muted-foreground">{new Date(scoredAt).toLocaleDateString()}</span>
+          )}
+        </div>
+        {factors.map(factor => (
+          <div key={factor.factor} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span>{factor.label}</span>
+              <span className="text-muted-foreground">{factor.points} / {factor.max}</span>
+            </div>
+            <Progress value={factor.max > 0 ? (factor.points / factor.max) * 100 : 0} className="h-1.5" />
+            <p className="text-xs text-muted-foreground">{factor.detail}</p>
+          </div>
+        ))}
+      </PopoverContent>
+    </Popover>
+  );
+}
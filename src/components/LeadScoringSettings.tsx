@@ -0,0 +1,400 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { toast } from "sonner";
+import { Gauge, Loader2, Plus, RefreshCw, Trash2 } from "lucide-react";
+import type { Json } from "@/integrations/supabase/types";
+
+type ScoreFactor = 'budget' | 'project_type' | 'lead_source' | 'distance' | 'engagement' | 'recency';
+
+// A project type or lead source keyword and the share of points it earns, in percent
+interface ShareRow {
+  key: string;
+  percent: number;
+}
+
+const FACTORS: { value: ScoreFactor; label: string; help: string }[] = [
+  { value: 'budget', label: 'Budget', help: 'Full points at the target budget' },
+  { value: 'project_type', label: 'Project type', help: 'Share set per project type below' },
+  { value: 'lead_source', label: 'Lead source', help: 'Share set per lead source below' },
+  { value: 'distance', label: 'Distance', help: 'Full points at your base, none beyond the max distance' },
+  { value: 'engagement', label: 'Engagement', help: 'Email opens, microsite visits and booking link clicks' },
+  { value: 'recency', label: 'Recency', help: 'Halves every half-life without activity' },
+];
+
+// Mirrors the column defaults on lead_scoring_settings
+const DEFAULTS = {
+  base_postcode: '',
+  weights: { budget: 25, project_type: 15, lead_source: 15, distance: 15, engagement: 20, recency: 10 } as Record<ScoreFactor, number>,
+  budget_target: 50000,
+  project_type_scores: [] as ShareRow[],
+  lead_source_scores: [] as ShareRow[],
+  max_distance_km: 50,
+  engagement_points: { email_open: 2, microsite_visit: 1, booking_click: 5 },
+  recency_half_life_days: 14,
+  high_threshold: 70,
+  medium_threshold: 40,
+  auto_priority: true,
+};
+
+const toRows = (scores: Json | null): ShareRow[] =>
+  Object.entries((scores || {}) as Record<string, number>).map(([key, share]) => ({ key, percent: Math.round(share * 100) }));
+
+const fromRows = (rows: ShareRow[]) =>
+  Object.fromEntries(
+    rows.filter(row => row.key.trim()).map(row => [row.key.trim(), Math.min(Math.max(row.percent, 0), 100) / 100])
+  );
+
+/**
+ * How leads are scored. Saving rescores every lead with the new settings.
+ */
+export default function LeadScoringSettings({ onRescored }: { onRescored?: () => void }) {
+  const [settings, setSettings] = useState(DEFAULTS);
+  const [savedPostcode, setSavedPostcode] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('lead_scoring_settings')
+        .select('*')
+        .maybeSingle();
+
+      if (error) throw error;
+      if (data) {
+        setSettings({
+          base_postcode: data.base_postcode || '',
+          weights: { ...DEFAULTS.weights, ...(data.weights as Record<ScoreFactor, number>) },
+          budget_target: Number(data.budget_target),
+          project_type_scores: toRows(data.project_type_scores),
+          lead_source_scores: toRows(data.lead_source_scores),
+          max_distance_km: Number(data.max_distance_km),
+          engagement_points: { ...DEFAULTS.engagement_points, ...(data.engagement_points as typeof DEFAULTS.engagement_points) },
+          recency_half_life_days: data.recency_half_life_days,
+          high_threshold: data.high_threshold,
+          medium_threshold: data.medium_threshold,
+          auto_priority: data.auto_priority,
+        });
+        setSavedPostcode(data.base_postcode || '');
+      }
+    } catch (error) {
+      console.error('Error fetching lead scoring settings:', error);
+      toast.error('Failed to load scoring settings');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const recalculate = async () => {
+    const { data, error } = await supabase.functions.invoke('lead-scoring', {
+      body: { action: 'recalculate' },
+    });
+    if (error || !data.success) {
+      throw error || new Error(data.error);
+    }
+    onRescored?.();
+    return data.scored as number;
+  };
+
+  const saveSettings = async () => {
+    if (settings.medium_threshold > settings.high_threshold) {
+      toast.error('The medium threshold must not be above the high threshold');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: userData } = await supabase.auth.getUser();
+      if (!userData.user) throw new Error('User not authenticated');
+
+      const basePostcode = settings.base_postcode.trim().toUpperCase();
+      const { error } = await supabase
+        .from('lead_scoring_settings')
+        .upsert({
+          user_id: userData.user.id,
+          base_postcode: basePostcode || null,
+          // Geocoded again by the scorer when the postcode changes
+          ...(basePostcode !== savedPostcode ? { base_latitude: null, base_longitude: null } : {}),
+          weights: settings.weights,
+          budget_target: settings.budget_target,
+          project_type_scores: fromRows(settings.project_type_scores),
+          lead_source_scores: fromRows(settings.lead_source_scores),
+          max_distance_km: settings.max_distance_km,
+          engagement_points: settings.engagement_points,
+          recency_half_life_days: settings.recency_half_life_days,
+          high_threshold: settings.high_threshold,
+          medium_threshold: settings.medium_threshold,
+          auto_priority: settings.auto_priority,
+        }, { onConflict: 'user_id' });
+
+      if (error) throw error;
+      setSavedPostcode(basePostcode);
+
+      const scored = await recalculate();
+      toast.success(`Scoring settings saved and ${scored} leads rescored`);
+    } catch (error) {
+      console.error('Error saving lead scoring settings:', error);
+      toast.error('Failed to save scoring settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updateRow = (list: 'project_type_scores' | 'lead_source_scores', index: number, changes: Partial<ShareRow>) => {
+    setSettings(prev => ({
+      ...prev,
+      [list]: prev[list].map((row, i) => (i === index ? { ...row, ...changes } : row)),
+    }));
+  };
+
+  const renderShareRows = (list: 'project_type_scores' | 'lead_source_scores', placeholder: string) => (
+    <div className="space-y-2">
+      {settings[list].map((row, index) => (
+        <div key={index} className="flex items-center gap-2">
+          <Input
+            value={row.key}
+            placeholder={placeholder}
+            onChange={(e) => updateRow(list, index, { key: e.target.value })}
+          />
+          <Input
+            className="w-24"
+            type="number"
+            min="0"
+            max="100"
+            value={row.percent}
+            onChange={(e) => updateRow(list, index, { percent: parseInt(e.target.value) || 0 })}
+          />
+          <span className="text-sm text-muted-foreground">%</span>
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setSettings(prev => ({ ...prev, [list]: prev[list].filter((_, i) => i !== index) }))}
+          >
+            <Trash2 className="h-4 w-4" />
+          </Button>
+        </div>
+      ))}
+      <Button
+        variant="outline"
+        size="sm"
+        className="gap-2"
+        onClick={() => setSettings(prev => ({ ...prev, [list]: [...prev[list], { key: '', percent: 100 }] }))}
+      >
+        <Plus className="h-4 w-4" />
+        Add
+      </Button>
+    </div>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-6 w-6 animate-spin" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gauge className="h-5 w-5" />
+            Lead Scoring
+          </CardTitle>
+          <CardDescription>
+            Each factor earns up to its weight in points; the score is the total as a percentage of all weights
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {FACTORS.map(factor => (
+              <div key={factor.value} className="space-y-1">
+                <Label htmlFor={`weight-${factor.value}`}>{factor.label} weight</Label>
+                <Input
+                  id={`weight-${factor.value}`}
+                  type="number"
+                  min="0"
+                  value={settings.weights[factor.value]}
+                  onChange={(e) => setSettings(prev => ({
+                    ...prev,
+                    weights: { ...prev.weights, [factor.value]: parseInt(e.target.value) || 0 },
+                  }))}
+                />
+                <p className="text-xs text-muted-foreground">{factor.help}</p>
+              </div>
+            ))}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1">
+              <Label htmlFor="budget_target">Target budget</Label>
+              <Input
+                id="budget_target"
+                type="number"
+                min="1"
+                value={settings.budget_target}
+                onChange={(e) => setSettings(prev => ({ ...prev, budget_target: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="base_postcode">Your base postcode</Label>
+              <Input
+                id="base_postcode"
+                value={settings.base_postcode}
+                placeholder="e.g. SW1A 1AA"
+                onChange={(e) => setSettings(prev => ({ ...prev, base_postcode: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="max_distance_km">Max distance (km)</Label>
+              <Input
+                id="max_distance_km"
+                type="number"
+                min="1"
+                value={settings.max_distance_km}
+                onChange={(e) => setSettings(prev => ({ ...prev, max_distance_km: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="points_email_open">Points per email open</Label>
+              <Input
+                id="points_email_open"
+                type="number"
+                min="0"
+                value={settings.engagement_points.email_open}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  engagement_points: { ...prev.engagement_points, email_open: parseFloat(e.target.value) || 0 },
+                }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="points_microsite_visit">Points per microsite visit</Label>
+              <Input
+                id="points_microsite_visit"
+                type="number"
+                min="0"
+                value={settings.engagement_points.microsite_visit}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  engagement_points: { ...prev.engagement_points, microsite_visit: parseFloat(e.target.value) || 0 },
+                }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="points_booking_click">Points per booking link click</Label>
+              <Input
+                id="points_booking_click"
+                type="number"
+                min="0"
+                value={settings.engagement_points.booking_click}
+                onChange={(e) => setSettings(prev => ({
+                  ...prev,
+                  engagement_points: { ...prev.engagement_points, booking_click: parseFloat(e.target.value) || 0 },
+                }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="recency_half_life_days">Recency half-life (days)</Label>
+              <Input
+                id="recency_half_life_days"
+                type="number"
+                min="1"
+                value={settings.recency_half_life_days}
+                onChange={(e) => setSettings(prev => ({ ...prev, recency_half_life_days: parseInt(e.target.value) || 1 }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="high_threshold">High priority from</Label>
+              <Input
+                id="high_threshold"
+                type="number"
+                min="0"
+                max="100"
+                value={settings.high_threshold}
+                onChange={(e) => setSettings(prev => ({ ...prev, high_threshold: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="medium_threshold">Medium priority from</Label>
+              <Input
+                id="medium_threshold"
+                type="number"
+                min="0"
+                max="100"
+                value={settings.medium_threshold}
+                onChange={(e) => setSettings(prev => ({ ...prev, medium_threshold: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+
+          <div className="flex items-center space-x-2">
+            <Switch
+              id="auto_priority"
+              checked={settings.auto_priority}
+              onCheckedChange={(checked) => setSettings(prev => ({ ...prev, auto_priority: checked }))}
+            />
+            <Label htmlFor="auto_priority">Set lead priority from the score</Label>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Project Types</CardTitle>
+            <CardDescription>
+              Share of the project type points for each type. Keywords match anywhere in the project type; unlisted types get 50%.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>{renderShareRows('project_type_scores', 'e.g. extension')}</CardContent>
+        </Card>
+        <Card>
+          <CardHeader>
+            <CardTitle>Lead Sources</CardTitle>
+            <CardDescription>
+              Share of the lead source points for each source. Keywords match anywhere in the source; unlisted sources get 50%.
+            </CardDescription>
+          </CardHeader>
+          <CardContent>{renderShareRows('lead_source_scores', 'e.g. referral')}</CardContent>
+        </Card>
+      </div>
+
+      <div className="flex gap-2">
+        <Button onClick={saveSettings} disabled={saving}>
+          {saving ? <Loader2 className="h-4 w-4 mr-2 animate-spin" /> : null}
+          Save and Rescore Leads
+        </Button>
+        <Button
+          variant="outline"
+          disabled={saving}
+          onClick={async () => {
+            setSaving(true);
+            try {
+              const scored = await recalculate();
+              toast.success(`${scored} leads rescored`);
+            } catch (error) {
+              console.error('Error rescoring leads:', error);
+              toast.error('Failed to rescore leads');
+            } finally {
+              setSaving(false);
+            }
+          }}
+        >
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Rescore Now
+        </Button>
+      </div>
+    </div>
+  );
+}
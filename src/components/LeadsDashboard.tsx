@@ -13,6 +13,9 @@ import { Users, Plus, Eye, MessageSquare, Calendar, FileText, DollarSign, Trendi
 import PlanningDataScraper from "./PlanningDataScraper";
 import CalendlyIntegration from "./CalendlyIntegration";
 import AutoResponderSystem from "./AutoResponderSystem";
+import LeadScoreBadge from "./LeadScoreBadge";
+import LeadScoringSettings from "./LeadScoringSettings";
+import type { Json } from "@/integrations/supabase/types";
 
 interface Lead {
   id: string;
@@ -26,6 +29,9 @@ interface Lead {
   last_contact_date?: string;
   notes?: string;
   created_at: string;
+  score: number | null;
+  score_breakdown: Json;
+  scored_at: string | null;
 }
 
 interface Invoice {
@@ -44,6 +50,7 @@ const LeadsDashboard = () => {
   const [loading, setLoading] = useState(true);
   const [statusFilter, setStatusFilter] = useState("all");
   const [searchTerm, setSearchTerm] = useState("");
+  const [sortBy, setSortBy] = useState<"newest" | "score">("newest");
   const [selectedLead, setSelectedLead] = useState<Lead | null>(null);
   const [newNote, setNewNote] = useState("");
 
@@ -67,14 +74,20 @@ const LeadsDashboard = () => {
       );
     }
     
+    if (sortBy === "score") {
+      // Unscored leads last
+      filtered = [...filtered].sort((a, b) => (b.score ?? -1) - (a.score ?? -1));
+    }
+    
     setFilteredLeads(filtered);
-  }, [leads, statusFilter, searchTerm]);
+  }, [leads, statusFilter, searchTerm, sortBy]);
 
   const fetchLeads = async () => {
     try {
       const { data, error } = await supabase
         .from('leads')
         .select('*')
+        .is('archived_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -186,11 +199,12 @@ const LeadsDashboard = () => {
       </div>
 
       <Tabs defaultValue="current-leads" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="current-leads">Current Leads</TabsTrigger>
           <TabsTrigger value="planning-data">Planning Data</TabsTrigger>
           <TabsTrigger value="calendly">Calendly Meetings</TabsTrigger>
           <TabsTrigger value="lead-engagement">Lead Engagement</TabsTrigger>
+          <TabsTrigger value="scoring">Scoring</TabsTrigger>
         </TabsList>
 
         <TabsContent value="current-leads" className="space-y-4">
@@ -226,6 +240,15 @@ const LeadsDashboard = () => {
                     <SelectItem value="lost">Lost</SelectItem>
                   </SelectContent>
                 </Select>
+                <Select value={sortBy} onValueChange={(value) => setSortBy(value as "newest" | "score")}>
+                  <SelectTrigger className="w-[180px]">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="newest">Newest first</SelectItem>
+                    <SelectItem value="score">Highest score first</SelectItem>
+                  </SelectContent>
+                </Select>
               </div>
 
               {/* Leads Table */}
@@ -234,6 +257,7 @@ const LeadsDashboard = () => {
                   <table className="w-full">
                     <thead className="bg-muted/50">
                       <tr>
+                        <th className="text-left p-3 font-medium">Score</th>
                         <th className="text-left p-3 font-medium">Name</th>
                         <th className="text-left p-3 font-medium">Email</th>
                         <th className="text-left p-3 font-medium">Source</th>
@@ -245,6 +269,9 @@ const LeadsDashboard = () => {
                     <tbody>
                       {filteredLeads.map((lead) => (
                         <tr key={lead.id} className="border-b hover:bg-muted/25">
+                          <td className="p-3">
+                            <LeadScoreBadge score={lead.score} breakdown={lead.score_breakdown} scoredAt={lead.scored_at} />
+                          </td>
                           <td className="p-3">
                             <div className="font-medium">
                               {lead.first_name} {lead.last_name}
@@ -406,6 +433,10 @@ const LeadsDashboard = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="scoring" className="space-y-4">
+          <LeadScoringSettings onRescored={fetchLeads} />
+        </TabsContent>
       </Tabs>
     </div>
   );
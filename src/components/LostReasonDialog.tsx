@@ -0,0 +1,87 @@
+import { useEffect, useState } from "react";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { LOST_REASONS } from "@/lib/pipelineAnalytics";
+
+interface LostReasonDialogProps {
+  open: boolean;
+  leadName?: string;
+  onCancel: () => void;
+  onConfirm: (reason: string) => void;
+}
+
+const OTHER = 'other';
+
+/**
+ * Asks why a lead was lost before it's moved to the lost stage
+ */
+const LostReasonDialog = ({ open, leadName, onCancel, onConfirm }: LostReasonDialogProps) => {
+  const [reason, setReason] = useState('');
+  const [otherReason, setOtherReason] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setReason('');
+      setOtherReason('');
+    }
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Mark lead as lost</DialogTitle>
+          <DialogDescription>
+            {leadName ? `Why was ${leadName} lost?` : 'Why was this lead lost?'} Reasons are reported in the pipeline analytics.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label>Reason</Label>
+            <Select value={reason} onValueChange={setReason}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {LOST_REASONS.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+                <SelectItem value={OTHER}>Other</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+          {reason === OTHER && (
+            <div>
+              <Label htmlFor="other_reason">Describe the reason</Label>
+              <Textarea
+                id="other_reason"
+                value={otherReason}
+                onChange={(e) => setOtherReason(e.target.value)}
+                rows={3}
+              />
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end gap-2 pt-4">
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={() => onConfirm(reason === OTHER ? otherReason.trim() : reason)}
+            disabled={!reason || (reason === OTHER && !otherReason.trim())}
+          >
+            Mark as lost
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LostReasonDialog;
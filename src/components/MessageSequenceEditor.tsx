@@ -0,0 +1,565 @@
+import { useState, useEffect } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { toast } from "sonner";
+import { ArrowDown, ArrowUp, Clock, Edit, ListOrdered, Loader2, Mail, MessageSquare, Plus, Trash2 } from "lucide-react";
+
+type SequenceChannel = 'email' | 'whatsapp';
+type DelayUnit = 'minutes' | 'hours' | 'days';
+
+export interface MessageSequence {
+  id: string;
+  name: string;
+  description: string | null;
+  trigger_on: string[];
+  conditions: Record<string, unknown>;
+  exit_on_booking: boolean;
+  exit_on_status_change: boolean;
+  is_active: boolean;
+  message_sequence_steps: SequenceStep[];
+}
+
+interface SequenceStep {
+  id: string;
+  step_order: number;
+  delay_minutes: number;
+  channel: SequenceChannel;
+  fallback_channel: SequenceChannel | null;
+  subject_template: string | null;
+  message_template: string;
+  calendly_link_template: string | null;
+}
+
+interface StepForm {
+  id?: string;
+  delay: number;
+  delay_unit: DelayUnit;
+  channel: SequenceChannel;
+  fallback_channel: SequenceChannel | 'none';
+  subject_template: string;
+  message_template: string;
+  calendly_link_template: string;
+}
+
+const TRIGGERS = [
+  { value: 'lead_created', label: 'Lead created' },
+  { value: 'lead_updated', label: 'Lead updated' },
+  { value: 'manual', label: 'Manual' },
+];
+
+const LEAD_STATUSES = ['new', 'contacted', 'qualified', 'proposal_sent', 'won', 'lost'];
+
+const UNIT_MINUTES: Record<DelayUnit, number> = { minutes: 1, hours: 60, days: 1440 };
+
+const DEFAULT_CALENDLY_LINK = 'https://calendly.com/your-company/consultation';
+
+const toDelayForm = (minutes: number): { delay: number; delay_unit: DelayUnit } => {
+  if (minutes > 0 && minutes % 1440 === 0) return { delay: minutes / 1440, delay_unit: 'days' };
+  if (minutes > 0 && minutes % 60 === 0) return { delay: minutes / 60, delay_unit: 'hours' };
+  return { delay: minutes, delay_unit: 'minutes' };
+};
+
+const describeDelay = (minutes: number, isFirst: boolean) => {
+  if (minutes === 0) return isFirst ? 'Immediately' : 'Straight after previous step';
+  const { delay, delay_unit } = toDelayForm(minutes);
+  const unit = delay === 1 ? delay_unit.slice(0, -1) : delay_unit;
+  return `${delay} ${unit} ${isFirst ? 'after enrollment' : 'later'}`;
+};
+
+const emptyStep = (): StepForm => ({
+  delay: 0,
+  delay_unit: 'days',
+  channel: 'email',
+  fallback_channel: 'whatsapp',
+  subject_template: '',
+  message_template: '',
+  calendly_link_template: DEFAULT_CALENDLY_LINK,
+});
+
+const emptySequence = () => ({
+  name: '',
+  description: '',
+  trigger_on: ['lead_created'],
+  status_condition: 'any',
+  exit_on_booking: true,
+  exit_on_status_change: true,
+  is_active: true,
+});
+
+/**
+ * Editor for auto-responder drip sequences: an ordered list of messages, each
+ * sent a set delay after the previous one, with an optional fallback channel
+ */
+export default function MessageSequenceEditor({ onChange }: { onChange?: (sequences: MessageSequence[]) => void }) {
+  const [sequences, setSequences] = useState<MessageSequence[]>([]);
+  const [editing, setEditing] = useState<MessageSequence | null>(null);
+  const [form, setForm] = useState(emptySequence());
+  const [steps, setSteps] = useState<StepForm[]>([emptyStep()]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchSequences();
+  }, []);
+
+  /**
+   * Fetch sequences with their steps
+   */
+  const fetchSequences = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('message_sequences')
+        .select('*, message_sequence_steps(*)')
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      const loaded = (data || []).map(sequence => ({
+        ...sequence,
+        message_sequence_steps: [...sequence.message_sequence_steps].sort((a, b) => a.step_order - b.step_order),
+      })) as unknown as MessageSequence[];
+      setSequences(loaded);
+      onChange?.(loaded);
+    } catch (error) {
+      console.error('Error fetching sequences:', error);
+      toast.error('Failed to load sequences');
+    }
+  };
+
+  const resetForm = () => {
+    setEditing(null);
+    setForm(emptySequence());
+    setSteps([emptyStep()]);
+  };
+
+  const editSequence = (sequence: MessageSequence) => {
+    setEditing(sequence);
+    setForm({
+      name: sequence.name,
+      description: sequence.description || '',
+      trigger_on: sequence.trigger_on,
+      status_condition: typeof sequence.conditions?.status === 'string' ? sequence.conditions.status : 'any',
+      exit_on_booking: sequence.exit_on_booking,
+      exit_on_status_change: sequence.exit_on_status_change,
+      is_active: sequence.is_active,
+    });
+    setSteps(sequence.message_sequence_steps.map(step => ({
+      id: step.id,
+      ...toDelayForm(step.delay_minutes),
+      channel: step.channel,
+      fallback_channel: step.fallback_channel || 'none',
+      subject_template: step.subject_template || '',
+      message_template: step.message_template,
+      calendly_link_template: step.calendly_link_template || '',
+    })));
+  };
+
+  const updateStep = (index: number, changes: Partial<StepForm>) => {
+    setSteps(steps.map((step, i) => {
+      if (i !== index) return step;
+      const updated = { ...step, ...changes };
+      // The fallback has to be the other channel
+      if (updated.fallback_channel === updated.channel) updated.fallback_channel = 'none';
+      return updated;
+    }));
+  };
+
+  const moveStep = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= steps.length) return;
+    const reordered = [...steps];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setSteps(reordered);
+  };
+
+  const toggleTrigger = (trigger: string, checked: boolean) => {
+    setForm({
+      ...form,
+      trigger_on: checked ? [...form.trigger_on, trigger] : form.trigger_on.filter(t => t !== trigger),
+    });
+  };
+
+  /**
+   * Save the sequence, then bring its steps in line with the form. Existing
+   * steps are updated in place so delivery logs keep pointing at them.
+   */
+  const saveSequence = async () => {
+    if (!form.name.trim()) {
+      toast.error('Please give the sequence a name');
+      return;
+    }
+    if (form.trigger_on.length === 0) {
+      toast.error('Choose at least one trigger');
+      return;
+    }
+    if (steps.length === 0 || steps.some(step => !step.message_template.trim())) {
+      toast.error('Every step needs a message');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data: { user } } = await supabase.auth.getUser();
+      if (!user) throw new Error('User not authenticated');
+
+      const sequenceData = {
+        user_id: user.id,
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        trigger_on: form.trigger_on,
+        conditions: form.status_condition === 'any' ? {} : { status: form.status_condition },
+        exit_on_booking: form.exit_on_booking,
+        exit_on_status_change: form.exit_on_status_change,
+        is_active: form.is_active,
+      };
+
+      let sequenceId = editing?.id;
+      if (sequenceId) {
+        const { error } = await supabase.from('message_sequences').update(sequenceData).eq('id', sequenceId);
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase.from('message_sequences').insert(sequenceData).select('id').single();
+        if (error) throw error;
+        sequenceId = data.id;
+      }
+
+      const stepRows = steps.map((step, index) => ({
+        sequence_id: sequenceId!,
+        user_id: user.id,
+        step_order: index,
+        delay_minutes: Math.max(0, Math.round(step.delay * UNIT_MINUTES[step.delay_unit])),
+        channel: step.channel,
+        fallback_channel: step.fallback_channel === 'none' ? null : step.fallback_channel,
+        subject_template: step.channel === 'email' || step.fallback_channel === 'email' ? step.subject_template || null : null,
+        message_template: step.message_template,
+        calendly_link_template: step.calendly_link_template || null,
+      }));
+
+      const keptIds = steps.map(step => step.id).filter(Boolean) as string[];
+      const removedIds = (editing?.message_sequence_steps || []).map(step => step.id).filter(id => !keptIds.includes(id));
+      if (removedIds.length > 0) {
+        const { error } = await supabase.from('message_sequence_steps').delete().in('id', removedIds);
+        if (error) throw error;
+      }
+
+      for (const [index, step] of steps.entries()) {
+        const { error } = step.id
+          ? await supabase.from('message_sequence_steps').update(stepRows[index]).eq('id', step.id)
+          : await supabase.from('message_sequence_steps').insert(stepRows[index]);
+        if (error) throw error;
+      }
+
+      toast.success(editing ? 'Sequence updated!' : 'Sequence created!');
+      resetForm();
+      fetchSequences();
+    } catch (error) {
+      console.error('Error saving sequence:', error);
+      toast.error('Failed to save sequence');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const deleteSequence = async (sequenceId: string) => {
+    if (!confirm('Delete this sequence? Leads currently in it will stop receiving its messages.')) return;
+
+    try {
+      const { error } = await supabase.from('message_sequences').delete().eq('id', sequenceId);
+      if (error) throw error;
+      toast.success('Sequence deleted');
+      if (editing?.id === sequenceId) resetForm();
+      fetchSequences();
+    } catch (error) {
+      console.error('Error deleting sequence:', error);
+      toast.error('Failed to delete sequence');
+    }
+  };
+
+  const channelIcon = (channel: SequenceChannel) =>
+    channel === 'email' ? <Mail className="h-4 w-4" /> : <MessageSquare className="h-4 w-4" />;
+
+  return (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+      {/* Sequence Form */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ListOrdered className="h-5 w-5" />
+            <span>{editing ? 'Edit Sequence' : 'Create Sequence'}</span>
+          </CardTitle>
+          <CardDescription>
+            Send a series of follow-ups, each a set time after the one before
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div>
+            <Label htmlFor="sequenceName">Sequence Name</Label>
+            <Input
+              id="sequenceName"
+              placeholder="e.g., New lead nurture"
+              value={form.name}
+              onChange={(e) => setForm({ ...form, name: e.target.value })}
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="sequenceDescription">Description</Label>
+            <Input
+              id="sequenceDescription"
+              value={form.description}
+              onChange={(e) => setForm({ ...form, description: e.target.value })}
+            />
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Start when</Label>
+              {TRIGGERS.map(trigger => (
+                <div key={trigger.value} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`trigger-${trigger.value}`}
+                    checked={form.trigger_on.includes(trigger.value)}
+                    onCheckedChange={(checked) => toggleTrigger(trigger.value, checked === true)}
+                  />
+                  <Label htmlFor={`trigger-${trigger.value}`} className="font-normal">{trigger.label}</Label>
+                </div>
+              ))}
+            </div>
+            <div>
+              <Label>Lead status</Label>
+              <Select value={form.status_condition} onValueChange={(value) => setForm({ ...form, status_condition: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="any">Any status</SelectItem>
+                  {LEAD_STATUSES.map(status => (
+                    <SelectItem key={status} value={status}>{status.replace('_', ' ')}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={form.exit_on_booking}
+                onCheckedChange={(checked) => setForm({ ...form, exit_on_booking: checked })}
+              />
+              <Label>Stop when the lead books via Calendly</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={form.exit_on_status_change}
+                onCheckedChange={(checked) => setForm({ ...form, exit_on_status_change: checked })}
+              />
+              <Label>Stop when the lead's status changes</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+              <Label>Active Sequence</Label>
+            </div>
+          </div>
+
+          <div className="space-y-3">
+            <Label>Steps</Label>
+            {steps.map((step, index) => (
+              <div key={step.id || `new-${index}`} className="border rounded p-3 space-y-3">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium text-sm">Step {index + 1}</span>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => moveStep(index, -1)} disabled={index === 0}>
+                      <ArrowUp className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => moveStep(index, 1)} disabled={index === steps.length - 1}>
+                      <ArrowDown className="h-4 w-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setSteps(steps.filter((_, i) => i !== index))}
+                      disabled={steps.length === 1}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-2">
+                  <div>
+                    <Label className="text-xs">{index === 0 ? 'Wait after enrollment' : 'Wait after previous step'}</Label>
+                    <div className="flex gap-2">
+                      <Input
+                        type="number"
+                        min="0"
+                        value={step.delay}
+                        onChange={(e) => updateStep(index, { delay: Number(e.target.value) || 0 })}
+                      />
+                      <Select value={step.delay_unit} onValueChange={(value: DelayUnit) => updateStep(index, { delay_unit: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="minutes">Minutes</SelectItem>
+                          <SelectItem value="hours">Hours</SelectItem>
+                          <SelectItem value="days">Days</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div>
+                      <Label className="text-xs">Channel</Label>
+                      <Select value={step.channel} onValueChange={(value: SequenceChannel) => updateStep(index, { channel: value })}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="email">Email</SelectItem>
+                          <SelectItem value="whatsapp">WhatsApp</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div>
+                      <Label className="text-xs">Fallback</Label>
+                      <Select
+                        value={step.fallback_channel}
+                        onValueChange={(value: SequenceChannel | 'none') => updateStep(index, { fallback_channel: value })}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="none">None</SelectItem>
+                          {step.channel !== 'email' && <SelectItem value="email">Email</SelectItem>}
+                          {step.channel !== 'whatsapp' && <SelectItem value="whatsapp">WhatsApp</SelectItem>}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                {(step.channel === 'email' || step.fallback_channel === 'email') && (
+                  <Input
+                    placeholder="Email subject, e.g. Your {ProjectType} project"
+                    value={step.subject_template}
+                    onChange={(e) => updateStep(index, { subject_template: e.target.value })}
+                  />
+                )}
+                <Textarea
+                  placeholder="Hi {FirstName}, just following up on your {ProjectType} enquiry..."
+                  value={step.message_template}
+                  onChange={(e) => updateStep(index, { message_template: e.target.value })}
+                  rows={4}
+                />
+                <Input
+                  placeholder="Calendly booking link"
+                  value={step.calendly_link_template}
+                  onChange={(e) => updateStep(index, { calendly_link_template: e.target.value })}
+                />
+              </div>
+            ))}
+            <Button variant="outline" size="sm" onClick={() => setSteps([...steps, { ...emptyStep(), delay: 2 }])}>
+              <Plus className="h-4 w-4 mr-1" />
+              Add Step
+            </Button>
+            <p className="text-xs text-muted-foreground">
+              Available fields: {"{FirstName}, {LastName}, {ProjectType}, {CalendlyLink}, {BudgetRange}"}.
+              The fallback is used when the lead has no email or phone for the channel, the send fails, or the email bounces.
+            </p>
+          </div>
+
+          <div className="flex space-x-2">
+            <Button onClick={saveSequence} disabled={saving} className="flex-1">
+              {saving ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                <>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {editing ? 'Update' : 'Create'} Sequence
+                </>
+              )}
+            </Button>
+            {editing && (
+              <Button variant="outline" onClick={resetForm}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Sequences List */}
+      <Card>
+        <CardHeader>
+          <CardTitle>Sequences</CardTitle>
+          <CardDescription>
+            Leads are enrolled when a sequence's trigger and status match
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {sequences.map(sequence => (
+              <div key={sequence.id} className="border rounded p-4 space-y-2">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{sequence.name}</span>
+                  <div className="flex items-center space-x-2">
+                    <Badge variant={sequence.is_active ? 'default' : 'secondary'}>
+                      {sequence.is_active ? 'Active' : 'Inactive'}
+                    </Badge>
+                    <Button variant="ghost" size="sm" onClick={() => editSequence(sequence)}>
+                      <Edit className="h-4 w-4" />
+                    </Button>
+                    <Button variant="ghost" size="sm" onClick={() => deleteSequence(sequence.id)}>
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+                {sequence.description && (
+                  <p className="text-sm text-muted-foreground">{sequence.description}</p>
+                )}
+                <div className="text-xs text-muted-foreground">
+                  Starts on {sequence.trigger_on.map(t => TRIGGERS.find(trigger => trigger.value === t)?.label || t).join(', ')}
+                  {typeof sequence.conditions?.status === 'string' && ` • status ${sequence.conditions.status}`}
+                </div>
+                <ol className="space-y-1">
+                  {sequence.message_sequence_steps.map((step, index) => (
+                    <li key={step.id} className="flex items-center text-sm space-x-2">
+                      {channelIcon(step.channel)}
+                      <span className="truncate flex-1">{step.subject_template || step.message_template}</span>
+                      <span className="flex items-center text-xs text-muted-foreground whitespace-nowrap">
+                        <Clock className="h-3 w-3 mr-1" />
+                        {describeDelay(step.delay_minutes, index === 0)}
+                      </span>
+                      {step.fallback_channel && (
+                        <Badge variant="outline" className="text-xs">or {step.fallback_channel}</Badge>
+                      )}
+                    </li>
+                  ))}
+                </ol>
+              </div>
+            ))}
+            {sequences.length === 0 && (
+              <p className="text-center text-muted-foreground py-8">
+                No sequences created yet
+              </p>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
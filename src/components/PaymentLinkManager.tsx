@@ -8,6 +8,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { useToast } from "@/hooks/use-toast";
 import { supabase } from "@/integrations/supabase/client";
+import { formatMoney } from "@/lib/currency";
 import { Send, Mail, MessageCircle, ExternalLink, RefreshCw, Clock, CheckCircle, XCircle } from "lucide-react";
 
 interface PaymentLinkManagerProps {
@@ -21,6 +22,7 @@ interface PaymentLinkManagerProps {
     currency: string;
     status: string;
     due_date: string;
+    balance_due?: number | null;
   };
   onStatusUpdate?: () => void;
 }
@@ -56,6 +58,7 @@ export const PaymentLinkManager: React.FC<PaymentLinkManagerProps> = ({
           deliveryMethod,
           recipientContact: recipientContact.trim(),
           customMessage: customMessage.trim() || undefined,
+          appUrl: window.location.origin,
         },
       });
 
@@ -176,7 +179,11 @@ export const PaymentLinkManager: React.FC<PaymentLinkManagerProps> = ({
             </div>
           </CardTitle>
           <CardDescription>
-            {invoice.customer_name} • {invoice.currency} {invoice.amount} • Due: {invoice.due_date}
+            {invoice.customer_name} • {formatMoney(invoice.amount, invoice.currency)}
+            {invoice.balance_due != null && invoice.balance_due !== invoice.amount && (
+              <> ({formatMoney(invoice.balance_due, invoice.currency)} outstanding)</>
+            )}
+            {' '}• Due: {invoice.due_date}
           </CardDescription>
         </CardHeader>
         <CardContent>
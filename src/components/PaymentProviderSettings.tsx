@@ -7,7 +7,7 @@ import { Label } from '@/components/ui/label';
 import { Switch } from '@/components/ui/switch';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
-import { CreditCard, Settings, Zap, Shield } from 'lucide-react';
+import { CreditCard, Settings, Zap, Shield, Eye, Trash2 } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
 
@@ -18,13 +18,22 @@ interface PaymentProvider {
   webhook_url?: string;
   sync_enabled: boolean;
   zapier_webhook?: string;
+  has_credentials?: boolean;
+  has_webhook_secret?: boolean;
+  credentials_updated_at?: string;
 }
 
+// Secrets stay in the database as ciphertext; only credential-vault can decrypt them
+const PROVIDER_COLUMNS = 'id, provider_type, is_active, webhook_url, sync_enabled, zapier_webhook, credentials_updated_at, encrypted_credentials, webhook_signing_secret';
+
 const PaymentProviderSettings = () => {
   const [providers, setProviders] = useState<PaymentProvider[]>([]);
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const [accountIds, setAccountIds] = useState<Record<string, string>>({});
+  const [webhookSecret, setWebhookSecret] = useState('');
+  const [hints, setHints] = useState<Record<string, Record<string, string>>>({});
   const { user } = useAuth();
 
   useEffect(() => {
@@ -37,18 +46,24 @@ const PaymentProviderSettings = () => {
     try {
       const { data, error } = await supabase
         .from('payment_provider_settings')
-        .select('*')
+        .select(PROVIDER_COLUMNS)
         .eq('user_id', user?.id);
 
       if (error) throw error;
 
+      const stored: PaymentProvider[] = (data || []).map(({ encrypted_credentials, webhook_signing_secret, ...provider }) => ({
+        ...provider,
+        has_credentials: !!encrypted_credentials,
+        has_webhook_secret: !!webhook_signing_secret,
+      }));
+
       // Initialize with default providers if none exist
       const defaultProviders = ['stripe', 'quickbooks', 'xero'];
-      const existingTypes = (data || []).map(p => p.provider_type);
+      const existingTypes = stored.map(p => p.provider_type);
       const missingProviders = defaultProviders.filter(type => !existingTypes.includes(type));
 
       const allProviders = [
-        ...(data || []),
+        ...stored,
         ...missingProviders.map(type => ({
           provider_type: type,
           is_active: false,
@@ -70,26 +85,46 @@ const PaymentProviderSettings = () => {
 
     setSaving(true);
     try {
-      const apiKey = credentials[providerType];
-      const encryptedCredentials = apiKey ? btoa(apiKey) : undefined; // Simple encoding - use proper encryption in production
+      const { id, is_active, webhook_url, sync_enabled, zapier_webhook } = { ...providers.find(p => p.provider_type === providerType), ...settings };
 
       const { error } = await supabase
         .from('payment_provider_settings')
         .upsert({
+          ...(id ? { id } : {}),
           user_id: user.id,
           provider_type: providerType,
-          encrypted_credentials: encryptedCredentials,
-          ...settings,
+          is_active,
+          webhook_url,
+          sync_enabled,
+          zapier_webhook,
           updated_at: new Date().toISOString(),
-        });
+        }, { onConflict: 'user_id,provider_type' });
 
       if (error) throw error;
 
-      setProviders(prev => prev.map(p => 
-        p.provider_type === providerType 
-          ? { ...p, ...settings }
-          : p
-      ));
+      // New secrets are encrypted server-side by credential-vault
+      const apiKey = credentials[providerType];
+      const signingSecret = providerType === 'stripe' ? webhookSecret : '';
+      if (apiKey || signingSecret) {
+        const { data, error: vaultError } = await supabase.functions.invoke('credential-vault', {
+          body: {
+            action: 'save',
+            providerType,
+            apiKey: apiKey || undefined,
+            accountId: accountIds[providerType] || undefined,
+            webhookSigningSecret: signingSecret || undefined,
+          }
+        });
+
+        if (vaultError) throw vaultError;
+        if (!data.success) throw new Error(data.error);
+
+        setCredentials(prev => ({ ...prev, [providerType]: '' }));
+        if (signingSecret) setWebhookSecret('');
+        setHints(prev => ({ ...prev, [providerType]: {} }));
+      }
+
+      await fetchProviderSettings();
 
       toast.success(`${providerType} settings saved successfully`);
     } catch (error) {
@@ -100,6 +135,41 @@ const PaymentProviderSettings = () => {
     }
   };
 
+  // Reading a credential, even masked, is recorded in audit_logs by credential-vault
+  const revealHint = async (providerType: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('credential-vault', {
+        body: { action: 'hint', providerType }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      setHints(prev => ({ ...prev, [providerType]: data.hints }));
+    } catch (error) {
+      console.error('Error reading credential hint:', error);
+      toast.error('Failed to read stored credentials');
+    }
+  };
+
+  const clearStoredCredentials = async (providerType: string) => {
+    try {
+      const { data, error } = await supabase.functions.invoke('credential-vault', {
+        body: { action: 'clear', providerType }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error);
+
+      setHints(prev => ({ ...prev, [providerType]: {} }));
+      toast.success(`${providerType} credentials removed`);
+      fetchProviderSettings();
+    } catch (error) {
+      console.error('Error clearing credentials:', error);
+      toast.error(`Failed to remove ${providerType} credentials`);
+    }
+  };
+
   const getProviderIcon = (type: string) => {
     switch (type) {
       case 'stripe': return '💳';
@@ -205,11 +275,76 @@ const PaymentProviderSettings = () => {
                           }))
                         }
                       />
-                      <p className="text-xs text-muted-foreground">
-                        Your API key is encrypted and stored securely
-                      </p>
+                      {provider.has_credentials ? (
+                        <div className="flex items-center justify-between gap-2">
+                          <p className="text-xs text-muted-foreground">
+                            Key stored {hints[provider.provider_type]?.apiKey || ''}
+                            {provider.credentials_updated_at && ` • updated ${new Date(provider.credentials_updated_at).toLocaleDateString()}`}
+                            . Enter a new key to replace it.
+                          </p>
+                          <div className="flex gap-1">
+                            <Button variant="ghost" size="sm" onClick={() => revealHint(provider.provider_type)}>
+                              <Eye className="w-4 h-4" />
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => clearStoredCredentials(provider.provider_type)}>
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </div>
+                      ) : (
+                        <p className="text-xs text-muted-foreground">
+                          Your API key is encrypted and stored securely
+                        </p>
+                      )}
                     </div>
 
+                    {provider.provider_type !== 'stripe' && (
+                      <div className="space-y-2">
+                        <Label htmlFor={`${provider.provider_type}-account-id`}>
+                          {provider.provider_type === 'quickbooks' ? 'Company ID (Realm ID)' : 'Tenant ID (Optional)'}
+                        </Label>
+                        <Input
+                          id={`${provider.provider_type}-account-id`}
+                          placeholder={provider.provider_type === 'quickbooks'
+                            ? 'Required to create invoices'
+                            : 'Defaults to your first connected organisation'}
+                          value={accountIds[provider.provider_type] || ''}
+                          onChange={(e) =>
+                            setAccountIds(prev => ({
+                              ...prev,
+                              [provider.provider_type]: e.target.value
+                            }))
+                          }
+                        />
+                      </div>
+                    )}
+
+                    {provider.provider_type === 'stripe' && (
+                      <div className="space-y-2">
+                        <Label>Stripe Webhook Endpoint</Label>
+                        <Input
+                          value={provider.id
+                            ? `https://oolfnlkrwythebmlocaj.supabase.co/functions/v1/stripe-webhook?account=${provider.id}`
+                            : 'Save your Stripe settings to get your endpoint URL'}
+                          disabled
+                          className="bg-muted"
+                        />
+                        <p className="text-xs text-muted-foreground">
+                          Add this endpoint in your Stripe dashboard for payment_intent.*, checkout.session.completed,
+                          charge.refunded and charge.dispute.created, then paste its signing secret below
+                        </p>
+                        <Input
+                          id="stripe-webhook-secret"
+                          type="password"
+                          placeholder={provider.has_webhook_secret
+                            ? `Signing secret stored ${hints.stripe?.webhookSigningSecret || ''}`
+                            : 'whsec_...'}
+                          value={webhookSecret}
+                          onChange={(e) => setWebhookSecret(e.target.value)}
+                        />
+                      </div>
+                    )}
+
                     <div className="space-y-2">
                       <Label htmlFor={`${provider.provider_type}-webhook`}>
                         Webhook URL (Optional)
@@ -284,8 +419,9 @@ const PaymentProviderSettings = () => {
                       <div className="text-xs text-muted-foreground">
                         <p className="font-medium mb-1">Security Notice</p>
                         <p>
-                          All API keys are encrypted before storage. We recommend using restricted API keys 
-                          with minimal required permissions for enhanced security.
+                          API keys are encrypted with AES-GCM on our servers and only decrypted when an invoice or
+                          payment link is created. Every read and change is recorded in your audit log. We recommend
+                          using restricted API keys with minimal required permissions.
                         </p>
                       </div>
                     </div>
@@ -0,0 +1,490 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { CalendarClock, FileText, Plus, Send, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { CIS_RATES, VAT_RATES } from '@/lib/invoiceCalculations';
+
+type StageType = 'deposit' | 'first_fix' | 'second_fix' | 'completion' | 'retention' | 'other';
+
+interface StageDraft {
+  name: string;
+  stage_type: StageType;
+  amount_type: 'percentage' | 'fixed';
+  percentage?: number;
+  fixed_amount?: number;
+  due_date: string;
+}
+
+interface PaymentStage {
+  id: string;
+  position: number;
+  name: string;
+  stage_type: StageType;
+  stage_value: number;
+  retention_amount: number;
+  due_date: string | null;
+  invoice_id: string | null;
+  status: 'pending' | 'invoiced' | 'paid' | 'cancelled';
+}
+
+interface PaymentSchedule {
+  id: string;
+  lead_id: string;
+  name: string;
+  contract_value: number;
+  currency: string;
+  retention_percentage: number;
+  retention_release_date: string | null;
+  status: 'active' | 'completed' | 'cancelled';
+  invoiced_amount: number;
+  paid_amount: number;
+  payment_schedule_stages: PaymentStage[];
+}
+
+interface LeadOption {
+  id: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
+  project_type?: string;
+}
+
+const defaultStages: StageDraft[] = [
+  { name: 'Deposit', stage_type: 'deposit', amount_type: 'percentage', percentage: 10, due_date: '' },
+  { name: 'First fix', stage_type: 'first_fix', amount_type: 'percentage', percentage: 30, due_date: '' },
+  { name: 'Second fix', stage_type: 'second_fix', amount_type: 'percentage', percentage: 30, due_date: '' },
+  { name: 'Completion', stage_type: 'completion', amount_type: 'percentage', percentage: 30, due_date: '' },
+];
+
+const stageTypeLabels: Record<StageType, string> = {
+  deposit: 'Deposit',
+  first_fix: 'First fix',
+  second_fix: 'Second fix',
+  completion: 'Completion',
+  retention: 'Retention',
+  other: 'Other',
+};
+
+const formatGBP = (amount: number) =>
+  `£${Number(amount).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+const PaymentScheduleManager = () => {
+  const [schedules, setSchedules] = useState<PaymentSchedule[]>([]);
+  const [leads, setLeads] = useState<LeadOption[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyStage, setBusyStage] = useState<string | null>(null);
+  const [leadId, setLeadId] = useState('');
+  const [name, setName] = useState('');
+  const [contractValue, setContractValue] = useState('');
+  const [vatRate, setVatRate] = useState('20');
+  const [cisRate, setCisRate] = useState('0');
+  const [retention, setRetention] = useState('5');
+  const [defectDays, setDefectDays] = useState('365');
+  const [stages, setStages] = useState<StageDraft[]>(defaultStages);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchSchedules();
+      fetchLeads();
+    }
+  }, [user]);
+
+  const fetchSchedules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('payment_schedules')
+        .select('*, payment_schedule_stages(*)')
+        .eq('user_id', user?.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+      setSchedules((data || []) as PaymentSchedule[]);
+    } catch (error) {
+      console.error('Error fetching payment schedules:', error);
+      toast.error('Failed to load payment schedules');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchLeads = async () => {
+    const { data } = await supabase
+      .from('leads')
+      .select('id, first_name, last_name, email, project_type')
+      .eq('created_by', user?.id)
+      .order('created_at', { ascending: false });
+
+    setLeads(data || []);
+  };
+
+  const contract = parseFloat(contractValue) || 0;
+  const stageValue = (stage: StageDraft) =>
+    stage.amount_type === 'fixed' ? stage.fixed_amount || 0 : contract * (stage.percentage || 0) / 100;
+  const allocated = stages.reduce((sum, stage) => sum + stageValue(stage), 0);
+
+  const updateStage = (index: number, changes: Partial<StageDraft>) => {
+    setStages(prev => prev.map((stage, i) => (i === index ? { ...stage, ...changes } : stage)));
+  };
+
+  const createSchedule = async () => {
+    if (!leadId || !name || contract <= 0) {
+      toast.error('Please select a lead, name the schedule and enter the contract value');
+      return;
+    }
+    if (Math.abs(allocated - contract) > 0.01 * stages.length) {
+      toast.error(`Stages add up to ${formatGBP(allocated)}, not the contract value of ${formatGBP(contract)}`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { error } = await supabase.rpc('create_payment_schedule', {
+        p_lead_id: leadId,
+        p_name: name,
+        p_contract_value: contract,
+        p_stages: stages.map(stage => ({ ...stage, due_date: stage.due_date || null })),
+        p_vat_rate: parseFloat(vatRate),
+        p_cis_rate: parseInt(cisRate),
+        p_retention_percentage: parseFloat(retention) || 0,
+        p_defect_period_days: parseInt(defectDays) || 0,
+      });
+
+      if (error) throw error;
+
+      toast.success('Payment schedule created');
+      setName('');
+      setContractValue('');
+      setStages(defaultStages);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error creating payment schedule:', error);
+      toast.error(error.message || 'Failed to create payment schedule');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const invoiceStage = async (stage: PaymentStage) => {
+    setBusyStage(stage.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('invoice-generator', {
+        body: { action: 'invoice_stage', stageId: stage.id, syncToSheets: true },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to invoice stage');
+
+      toast.success(`Invoice ${data.invoice.invoice_number} created for ${stage.name}`);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error invoicing stage:', error);
+      toast.error(error.message || 'Failed to invoice stage');
+    } finally {
+      setBusyStage(null);
+    }
+  };
+
+  const sendStageLink = async (schedule: PaymentSchedule, stage: PaymentStage) => {
+    const lead = leads.find(l => l.id === schedule.lead_id);
+    if (!lead?.email) {
+      toast.error('The lead has no email address');
+      return;
+    }
+
+    setBusyStage(stage.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('payment-link-generator', {
+        body: {
+          stageId: stage.id,
+          deliveryMethod: 'email',
+          recipientContact: lead.email,
+          appUrl: window.location.origin,
+        },
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to send payment link');
+
+      toast.success(`Payment link for ${stage.name} sent to ${lead.email}`);
+      fetchSchedules();
+    } catch (error) {
+      console.error('Error sending stage payment link:', error);
+      toast.error(error.message || 'Failed to send payment link');
+    } finally {
+      setBusyStage(null);
+    }
+  };
+
+  const cancelSchedule = async (id: string) => {
+    const { error } = await supabase
+      .from('payment_schedules')
+      .update({ status: 'cancelled' })
+      .eq('id', id);
+
+    if (error) {
+      toast.error('Failed to cancel payment schedule');
+      return;
+    }
+    fetchSchedules();
+  };
+
+  const getStageStatusColor = (status: PaymentStage['status']) => {
+    switch (status) {
+      case 'paid': return 'bg-success text-success-foreground';
+      case 'invoiced': return 'bg-accent text-accent-foreground';
+      case 'cancelled': return 'bg-destructive text-destructive-foreground';
+      default: return 'bg-secondary text-secondary-foreground';
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading payment schedules...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <CalendarClock className="w-5 h-5" />
+            New Payment Schedule
+          </CardTitle>
+          <CardDescription>
+            Bill a project in stages. Retention is held back from each stage and released after the defect period.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label>Lead / Project</Label>
+              <Select value={leadId} onValueChange={setLeadId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a lead" />
+                </SelectTrigger>
+                <SelectContent>
+                  {leads.map(lead => (
+                    <SelectItem key={lead.id} value={lead.id}>
+                      {`${lead.first_name} ${lead.last_name}`} - {(lead.project_type || '').replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="schedule-name">Schedule Name</Label>
+              <Input id="schedule-name" placeholder="e.g. Kitchen extension" value={name} onChange={(e) => setName(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="contract-value">Contract Value (net of VAT)</Label>
+              <Input id="contract-value" type="number" value={contractValue} onChange={(e) => setContractValue(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label>VAT Rate</Label>
+              <Select value={vatRate} onValueChange={setVatRate}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {VAT_RATES.map(rate => (
+                    <SelectItem key={rate} value={rate.toString()}>{rate}%</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>CIS Deduction</Label>
+              <Select value={cisRate} onValueChange={setCisRate}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CIS_RATES.map(rate => (
+                    <SelectItem key={rate} value={rate.toString()}>{rate === 0 ? 'None' : `${rate}%`}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              <div className="space-y-2">
+                <Label htmlFor="retention">Retention %</Label>
+                <Input id="retention" type="number" min="0" max="10" value={retention} onChange={(e) => setRetention(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="defect-days">Defect Period (days)</Label>
+                <Input id="defect-days" type="number" min="0" value={defectDays} onChange={(e) => setDefectDays(e.target.value)} />
+              </div>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Stages</Label>
+            {stages.map((stage, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-center">
+                <Input
+                  className="col-span-3"
+                  value={stage.name}
+                  onChange={(e) => updateStage(index, { name: e.target.value })}
+                />
+                <Select value={stage.stage_type} onValueChange={(value) => updateStage(index, { stage_type: value as StageType })}>
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(stageTypeLabels)
+                      .filter(([value]) => value !== 'retention')
+                      .map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+                <Select
+                  value={stage.amount_type}
+                  onValueChange={(value) => updateStage(index, { amount_type: value as StageDraft['amount_type'] })}
+                >
+                  <SelectTrigger className="col-span-2">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">% of contract</SelectItem>
+                    <SelectItem value="fixed">Fixed amount</SelectItem>
+                  </SelectContent>
+                </Select>
+                <Input
+                  className="col-span-2"
+                  type="number"
+                  value={(stage.amount_type === 'fixed' ? stage.fixed_amount : stage.percentage) ?? ''}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value) || undefined;
+                    updateStage(index, stage.amount_type === 'fixed' ? { fixed_amount: value } : { percentage: value });
+                  }}
+                />
+                <Input
+                  className="col-span-2"
+                  type="date"
+                  value={stage.due_date}
+                  onChange={(e) => updateStage(index, { due_date: e.target.value })}
+                />
+                <Button variant="ghost" size="icon" onClick={() => setStages(prev => prev.filter((_, i) => i !== index))}>
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <div className="flex justify-between items-center">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setStages(prev => [...prev, { name: '', stage_type: 'other', amount_type: 'percentage', due_date: '' }])}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Stage
+              </Button>
+              <span className={`text-sm ${Math.abs(allocated - contract) > 0.01 * stages.length ? 'text-destructive' : 'text-muted-foreground'}`}>
+                Allocated {formatGBP(allocated)} of {formatGBP(contract)}
+              </span>
+            </div>
+          </div>
+
+          <Button onClick={createSchedule} disabled={saving}>
+            {saving ? 'Creating...' : 'Create Payment Schedule'}
+          </Button>
+        </CardContent>
+      </Card>
+
+      {schedules.map(schedule => {
+        const lead = leads.find(l => l.id === schedule.lead_id);
+        const sortedStages = [...schedule.payment_schedule_stages].sort((a, b) => a.position - b.position);
+
+        return (
+          <Card key={schedule.id}>
+            <CardHeader>
+              <div className="flex justify-between items-start">
+                <div>
+                  <CardTitle className="flex items-center gap-2">
+                    {schedule.name}
+                    <Badge variant={schedule.status === 'active' ? 'default' : 'secondary'}>{schedule.status}</Badge>
+                  </CardTitle>
+                  <CardDescription>
+                    {lead ? `${lead.first_name} ${lead.last_name}` : 'Unknown lead'} • Contract {formatGBP(schedule.contract_value)}
+                    {schedule.retention_percentage > 0 && ` • ${schedule.retention_percentage}% retention`}
+                  </CardDescription>
+                </div>
+                {schedule.status === 'active' && (
+                  <Button variant="ghost" size="sm" onClick={() => cancelSchedule(schedule.id)}>
+                    Cancel Schedule
+                  </Button>
+                )}
+              </div>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-1">
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Paid {formatGBP(schedule.paid_amount)} of {formatGBP(schedule.invoiced_amount)} invoiced
+                  </span>
+                  {schedule.retention_release_date && (
+                    <span className="text-muted-foreground">
+                      Retention released {new Date(schedule.retention_release_date).toLocaleDateString()}
+                    </span>
+                  )}
+                </div>
+                <Progress value={schedule.invoiced_amount > 0 ? (schedule.paid_amount / schedule.invoiced_amount) * 100 : 0} />
+              </div>
+
+              {sortedStages.map(stage => (
+                <div key={stage.id} className="flex items-center justify-between p-3 border rounded-lg">
+                  <div>
+                    <div className="font-medium flex items-center gap-2">
+                      {stage.name}
+                      <Badge className={getStageStatusColor(stage.status)}>{stage.status}</Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {formatGBP(stage.stage_value)}
+                      {stage.retention_amount > 0 && ` (less ${formatGBP(stage.retention_amount)} retention)`}
+                      {stage.due_date && ` • Due ${new Date(stage.due_date).toLocaleDateString()}`}
+                    </div>
+                  </div>
+                  {schedule.status === 'active' && (
+                    <div className="flex gap-2">
+                      {/* An invoiced stage without an invoice is a claim that didn't finish; it can be retried */}
+                      {(stage.status === 'pending' || !stage.invoice_id) && stage.status !== 'cancelled' && (
+                        <Button size="sm" variant="outline" onClick={() => invoiceStage(stage)} disabled={busyStage === stage.id}>
+                          <FileText className="w-4 h-4 mr-2" />
+                          Invoice
+                        </Button>
+                      )}
+                      {stage.status !== 'paid' && stage.status !== 'cancelled' && (
+                        <Button size="sm" onClick={() => sendStageLink(schedule, stage)} disabled={busyStage === stage.id}>
+                          <Send className="w-4 h-4 mr-2" />
+                          Send Payment Link
+                        </Button>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  );
+};
+
+export default PaymentScheduleManager;
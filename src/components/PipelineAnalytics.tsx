@@ -0,0 +1,252 @@
+import { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Label } from '@/components/ui/label';
+import { Progress } from '@/components/ui/progress';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import {
+  PipelineLead,
+  StageTransition,
+  buildFunnel,
+  buildLostReasons,
+  buildStageDurations,
+  buildWinRateBySource,
+} from '@/lib/pipelineAnalytics';
+
+type Period = '30' | '90' | '365' | 'all';
+
+const percent = (value: number | null) => (value === null ? '-' : `${Math.round(value * 100)}%`);
+const days = (value: number | null) => (value === null ? '-' : `${value.toFixed(1)} days`);
+
+/**
+ * Funnel report for leads created in the chosen period: how far leads get,
+ * how long they sit in each stage, win rate by lead source and lost reasons
+ */
+const PipelineAnalytics = ({ refreshKey }: { refreshKey?: number }) => {
+  const { user } = useAuth();
+  const [leads, setLeads] = useState<PipelineLead[]>([]);
+  const [transitions, setTransitions] = useState<StageTransition[]>([]);
+  const [period, setPeriod] = useState<Period>('90');
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    if (user) {
+      loadPipelineData();
+    }
+  }, [user, refreshKey]);
+
+  const loadPipelineData = async () => {
+    try {
+      const [leadsRes, transitionsRes] = await Promise.all([
+        supabase
+          .from('leads')
+          .select('id, status, lead_source, lost_reason, created_at')
+          .eq('created_by', user!.id)
+          .is('archived_at', null),
+        supabase
+          .from('lead_stage_transitions')
+          .select('lead_id, from_status, to_status, created_at')
+          .eq('user_id', user!.id),
+      ]);
+
+      if (leadsRes.error) throw leadsRes.error;
+      if (transitionsRes.error) throw transitionsRes.error;
+
+      setLeads(leadsRes.data || []);
+      setTransitions(transitionsRes.data || []);
+    } catch (error) {
+      console.error('Error loading pipeline analytics:', error);
+      toast.error('Failed to load pipeline analytics');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const periodLeads = useMemo(() => {
+    if (period === 'all') return leads;
+    const since = Date.now() - Number(period) * 24 * 60 * 60 * 1000;
+    return leads.filter(lead => lead.created_at && new Date(lead.created_at).getTime() >= since);
+  }, [leads, period]);
+
+  const funnel = useMemo(() => buildFunnel(periodLeads, transitions), [periodLeads, transitions]);
+  const durations = useMemo(() => buildStageDurations(periodLeads, transitions), [periodLeads, transitions]);
+  const bySource = useMemo(() => buildWinRateBySource(periodLeads), [periodLeads]);
+  const lostReasons = useMemo(() => buildLostReasons(periodLeads), [periodLeads]);
+
+  const won = periodLeads.filter(lead => lead.status === 'won').length;
+  const lost = periodLeads.filter(lead => lead.status === 'lost').length;
+
+  if (loading) {
+    return (
+      <div className="text-center py-12">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-primary mx-auto mb-4"></div>
+        <p className="text-muted-foreground">Loading pipeline analytics...</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardContent className="pt-6">
+          <div className="space-y-2">
+            <Label>Leads created</Label>
+            <Select value={period} onValueChange={(value) => setPeriod(value as Period)}>
+              <SelectTrigger className="w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="30">Last 30 days</SelectItem>
+                <SelectItem value="90">Last 90 days</SelectItem>
+                <SelectItem value="365">Last 12 months</SelectItem>
+                <SelectItem value="all">All time</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid md:grid-cols-4 gap-6">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Leads</CardDescription>
+            <CardTitle className="text-2xl">{periodLeads.length}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Open</CardDescription>
+            <CardTitle className="text-2xl">{periodLeads.length - won - lost}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Won / lost</CardDescription>
+            <CardTitle className="text-2xl">{won} / {lost}</CardTitle>
+          </CardHeader>
+        </Card>
+        <Card>
+          <CardHeader className="pb-2">
+            <CardDescription>Win rate (closed leads)</CardDescription>
+            <CardTitle className="text-2xl text-success">{percent(won + lost > 0 ? won / (won + lost) : null)}</CardTitle>
+          </CardHeader>
+        </Card>
+      </div>
+
+      <div className="grid lg:grid-cols-2 gap-6">
+        <Card>
+          <CardHeader>
+            <CardTitle>Stage Conversion</CardTitle>
+            <CardDescription>Leads reaching each stage, and the share that went on to the next</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {funnel.map(row => (
+              <div key={row.status} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span className="font-medium">{row.label}</span>
+                  <span className="text-muted-foreground">
+                    {row.reached} lead{row.reached === 1 ? '' : 's'}
+                    {row.conversionRate !== null && ` · ${percent(row.conversionRate)} moved on`}
+                  </span>
+                </div>
+                <Progress value={row.shareOfTotal * 100} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Time in Stage</CardTitle>
+            <CardDescription>Average days before leaving a stage, and for leads still in it</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Stage</TableHead>
+                  <TableHead className="text-right">Average</TableHead>
+                  <TableHead className="text-right">In stage now</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {durations.map(row => (
+                  <TableRow key={row.status}>
+                    <TableCell>
+                      {row.label}
+                      <span className="text-xs text-muted-foreground ml-2">{row.stays} moved on</span>
+                    </TableCell>
+                    <TableCell className="text-right">{days(row.averageDays)}</TableCell>
+                    <TableCell className="text-right">
+                      {row.current > 0 ? `${row.current} · ${days(row.currentAverageDays)}` : '-'}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Win Rate by Lead Source</CardTitle>
+            <CardDescription>Won as a share of won and lost leads</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Source</TableHead>
+                  <TableHead className="text-right">Leads</TableHead>
+                  <TableHead className="text-right">Won</TableHead>
+                  <TableHead className="text-right">Lost</TableHead>
+                  <TableHead className="text-right">Win rate</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {bySource.length === 0 ? (
+                  <TableRow>
+                    <TableCell colSpan={5} className="text-center text-muted-foreground">No leads in this period</TableCell>
+                  </TableRow>
+                ) : bySource.map(row => (
+                  <TableRow key={row.source}>
+                    <TableCell>{row.source.replace(/_/g, ' ')}</TableCell>
+                    <TableCell className="text-right">{row.leads}</TableCell>
+                    <TableCell className="text-right">{row.won}</TableCell>
+                    <TableCell className="text-right">{row.lost}</TableCell>
+                    <TableCell className="text-right font-medium">{percent(row.winRate)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Lost Reasons</CardTitle>
+            <CardDescription>Why leads in this period were lost</CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {lostReasons.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No lost leads in this period</p>
+            ) : lostReasons.map(row => (
+              <div key={row.reason} className="space-y-1">
+                <div className="flex items-center justify-between text-sm">
+                  <span>{row.reason}</span>
+                  <span className="text-muted-foreground">{row.leads}</span>
+                </div>
+                <Progress value={(row.leads / lost) * 100} className="h-2" />
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default PipelineAnalytics;
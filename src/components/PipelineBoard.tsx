@@ -0,0 +1,228 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { ArrowRight, Clock, History } from "lucide-react";
+import { toast } from "sonner";
+import { LeadStatus, PIPELINE_STAGES, stageLabel } from "@/lib/pipelineAnalytics";
+
+export interface PipelineBoardLead {
+  id: string;
+  first_name: string;
+  last_name: string;
+  status: LeadStatus | null;
+  project_type?: string | null;
+  lead_source?: string | null;
+  estimated_budget_min?: number | null;
+  estimated_budget_max?: number | null;
+  lost_reason?: string | null;
+  stage_entered_at?: string | null;
+  created_at: string | null;
+}
+
+interface PipelineBoardProps<T extends PipelineBoardLead> {
+  leads: T[];
+  onStatusChange: (lead: T, status: LeadStatus) => void;
+}
+
+interface HistoryEntry {
+  id: string;
+  from_status: LeadStatus | null;
+  to_status: LeadStatus;
+  lost_reason: string | null;
+  created_at: string;
+  changed_by_name: string | null;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const daysSince = (date: string | null | undefined) =>
+  date ? Math.max(0, Math.floor((Date.now() - new Date(date).getTime()) / MS_PER_DAY)) : null;
+
+const formatBudget = (min?: number | null, max?: number | null) => {
+  const value = max ?? min;
+  return value ? `£${value.toLocaleString()}` : null;
+};
+
+const columnClass = (status: LeadStatus) => {
+  switch (status) {
+    case 'won': return 'border-t-green-500';
+    case 'lost': return 'border-t-gray-400';
+    default: return 'border-t-primary';
+  }
+};
+
+/**
+ * Leads as cards in one column per stage. Drag a card to another column to
+ * change its status; click it to see its stage history.
+ */
+const PipelineBoard = <T extends PipelineBoardLead>({ leads, onStatusChange }: PipelineBoardProps<T>) => {
+  const [draggedId, setDraggedId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<LeadStatus | null>(null);
+  const [historyLead, setHistoryLead] = useState<PipelineBoardLead | null>(null);
+  const [history, setHistory] = useState<HistoryEntry[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(false);
+
+  const drop = (status: LeadStatus) => {
+    const lead = leads.find(candidate => candidate.id === draggedId);
+    setDraggedId(null);
+    setDropTarget(null);
+    if (lead && (lead.status ?? 'new') !== status) {
+      onStatusChange(lead, status);
+    }
+  };
+
+  const openHistory = async (lead: PipelineBoardLead) => {
+    setHistoryLead(lead);
+    setHistory([]);
+    setHistoryLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('lead_stage_transitions')
+        .select('id, from_status, to_status, lost_reason, created_at, changed_by')
+        .eq('lead_id', lead.id)
+        .order('created_at', { ascending: false });
+
+      if (error) throw error;
+
+      const userIds = [...new Set((data || []).map(entry => entry.changed_by).filter((id): id is string => !!id))];
+      const { data: profiles } = userIds.length
+        ? await supabase.from('profiles').select('id, full_name, email').in('id', userIds)
+        : { data: [] };
+      const names = new Map((profiles || []).map(profile => [profile.id, profile.full_name || profile.email]));
+
+      setHistory((data || []).map(entry => ({
+        ...entry,
+        changed_by_name: entry.changed_by ? names.get(entry.changed_by) || 'Unknown user' : null,
+      })));
+    } catch (error) {
+      console.error('Error loading stage history:', error);
+      toast.error('Failed to load stage history');
+    } finally {
+      setHistoryLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="flex gap-4 overflow-x-auto pb-4">
+        {PIPELINE_STAGES.map(stage => {
+          const stageLeads = leads.filter(lead => (lead.status ?? 'new') === stage.status);
+          return (
+            <div
+              key={stage.status}
+              className={`flex-shrink-0 w-72 rounded-lg border border-t-4 bg-muted/40 ${columnClass(stage.status)} ${
+                dropTarget === stage.status ? 'ring-2 ring-primary' : ''
+              }`}
+              onDragOver={(e) => {
+                e.preventDefault();
+                setDropTarget(stage.status);
+              }}
+              onDragLeave={() => setDropTarget(current => (current === stage.status ? null : current))}
+              onDrop={(e) => {
+                e.preventDefault();
+                drop(stage.status);
+              }}
+            >
+              <div className="flex items-center justify-between p-3">
+                <span className="font-medium">{stage.label}</span>
+                <Badge variant="secondary">{stageLeads.length}</Badge>
+              </div>
+              <div className="space-y-2 p-2 min-h-[120px]">
+                {stageLeads.map(lead => {
+                  const days = daysSince(lead.stage_entered_at ?? lead.created_at);
+                  const budget = formatBudget(lead.estimated_budget_min, lead.estimated_budget_max);
+                  return (
+                    <Card
+                      key={lead.id}
+                      draggable
+                      onDragStart={(e) => {
+                        e.dataTransfer.effectAllowed = 'move';
+                        setDraggedId(lead.id);
+                      }}
+                      onDragEnd={() => {
+                        setDraggedId(null);
+                        setDropTarget(null);
+                      }}
+                      onClick={() => openHistory(lead)}
+                      className={`cursor-grab active:cursor-grabbing hover:shadow-md transition-shadow ${
+                        draggedId === lead.id ? 'opacity-50' : ''
+                      }`}
+                    >
+                      <CardContent className="p-3 space-y-1">
+                        <div className="font-medium text-sm">{`${lead.first_name} ${lead.last_name}`}</div>
+                        {lead.project_type && (
+                          <div className="text-xs text-muted-foreground">{lead.project_type.replace(/_/g, ' ')}</div>
+                        )}
+                        {lead.status === 'lost' && lead.lost_reason && (
+                          <div className="text-xs text-muted-foreground italic">{lead.lost_reason}</div>
+                        )}
+                        <div className="flex items-center justify-between pt-1">
+                          <span className="text-xs font-medium text-success">{budget}</span>
+                          {days !== null && (
+                            <span className="flex items-center gap-1 text-xs text-muted-foreground">
+                              <Clock className="w-3 h-3" />
+                              {days}d in stage
+                            </span>
+                          )}
+                        </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!historyLead} onOpenChange={(open) => !open && setHistoryLead(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <History className="w-5 h-5" />
+              Stage history
+            </DialogTitle>
+            <DialogDescription>
+              {historyLead && `${historyLead.first_name} ${historyLead.last_name}`}
+            </DialogDescription>
+          </DialogHeader>
+          {historyLoading ? (
+            <p className="text-sm text-muted-foreground">Loading history...</p>
+          ) : history.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No stage changes recorded yet.</p>
+          ) : (
+            <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+              {history.map(entry => (
+                <div key={entry.id} className="border-l-2 border-primary pl-3">
+                  <div className="flex items-center gap-2 text-sm font-medium">
+                    {entry.from_status ? (
+                      <>
+                        {stageLabel(entry.from_status)}
+                        <ArrowRight className="w-3 h-3" />
+                        {stageLabel(entry.to_status)}
+                      </>
+                    ) : (
+                      `Created as ${stageLabel(entry.to_status)}`
+                    )}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {new Date(entry.created_at).toLocaleString()}
+                    {' · '}
+                    {entry.changed_by_name ?? 'Automation'}
+                  </div>
+                  {entry.lost_reason && (
+                    <div className="text-xs mt-1">Reason: {entry.lost_reason}</div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default PipelineBoard;
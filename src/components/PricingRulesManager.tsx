@@ -7,9 +7,21 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Switch } from '@/components/ui/switch';
 import { Badge } from '@/components/ui/badge';
-import { Calculator, Plus, Edit, Trash2, DollarSign } from 'lucide-react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Calculator, Plus, Edit, Trash2, DollarSign, MapPin } from 'lucide-react';
 import { toast } from 'sonner';
 import { useAuth } from '@/contexts/AuthContext';
+import type { Json } from '@/integrations/supabase/types';
+import {
+  COMPLEXITY_LEVELS,
+  Complexity,
+  DEFAULT_COMPLEXITY_MULTIPLIERS,
+  PricingTier,
+  ProjectMeasurements,
+  RegionalMultiplier,
+  evaluatePricingRule,
+} from '@/lib/pricingEngine';
+import { formatMoney } from '@/lib/currency';
 
 interface PricingRule {
   id?: string;
@@ -19,20 +31,38 @@ interface PricingRule {
   unit_type?: string;
   currency: string;
   is_active: boolean;
+  tiers: PricingTier[];
+  minimum_charge: number;
+  complexity_multipliers: Record<Complexity, number>;
+  material_markup_percentage: number;
 }
 
+interface RegionRow extends RegionalMultiplier {
+  id: string;
+}
+
+const emptyRule = (): PricingRule => ({
+  project_type: '',
+  base_price: 0,
+  price_per_unit: 0,
+  unit_type: 'sqm',
+  currency: 'GBP',
+  is_active: true,
+  tiers: [],
+  minimum_charge: 0,
+  complexity_multipliers: { ...DEFAULT_COMPLEXITY_MULTIPLIERS },
+  material_markup_percentage: 0,
+});
+
 const PricingRulesManager = () => {
   const [rules, setRules] = useState<PricingRule[]>([]);
   const [loading, setLoading] = useState(true);
   const [editing, setEditing] = useState<string | null>(null);
-  const [newRule, setNewRule] = useState<PricingRule>({
-    project_type: '',
-    base_price: 0,
-    price_per_unit: 0,
-    unit_type: 'sqft',
-    currency: 'GBP',
-    is_active: true,
-  });
+  const [newRule, setNewRule] = useState<PricingRule>(emptyRule());
+  const [regions, setRegions] = useState<RegionRow[]>([]);
+  const [newRegion, setNewRegion] = useState({ postcode_prefix: '', multiplier: '', label: '' });
+  const [previewRuleId, setPreviewRuleId] = useState<string>('');
+  const [preview, setPreview] = useState<ProjectMeasurements>({ complexity: 'standard' });
   const { user } = useAuth();
 
   const projectTypes = [
@@ -67,6 +97,7 @@ const PricingRulesManager = () => {
   useEffect(() => {
     if (user) {
       fetchPricingRules();
+      fetchRegions();
     }
   }, [user]);
 
@@ -79,7 +110,14 @@ const PricingRulesManager = () => {
         .order('project_type');
 
       if (error) throw error;
-      setRules(data || []);
+      setRules((data || []).map(rule => ({
+        ...rule,
+        tiers: (rule.tiers as unknown as PricingTier[]) || [],
+        complexity_multipliers: {
+          ...DEFAULT_COMPLEXITY_MULTIPLIERS,
+          ...(rule.complexity_multipliers as Partial<Record<Complexity, number>>),
+        },
+      })) as PricingRule[]);
     } catch (error) {
       console.error('Error fetching pricing rules:', error);
       toast.error('Failed to load pricing rules');
@@ -88,9 +126,37 @@ const PricingRulesManager = () => {
     }
   };
 
+  const fetchRegions = async () => {
+    const { data, error } = await supabase
+      .from('pricing_regional_multipliers')
+      .select('id, postcode_prefix, multiplier, label')
+      .eq('user_id', user?.id)
+      .order('postcode_prefix');
+
+    if (error) {
+      console.error('Error fetching regional multipliers:', error);
+      return;
+    }
+    setRegions(data || []);
+  };
+
   const saveRule = async (rule: PricingRule) => {
     if (!user) return;
 
+    const tiers = rule.tiers
+      .filter(tier => tier.price_per_unit > 0)
+      .sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity));
+    if (tiers.filter(tier => tier.up_to == null).length > 1) {
+      toast.error('Only the last price band can be open-ended');
+      return;
+    }
+    const engineFields = {
+      tiers: tiers as unknown as Json,
+      minimum_charge: rule.minimum_charge || 0,
+      complexity_multipliers: rule.complexity_multipliers as unknown as Json,
+      material_markup_percentage: rule.material_markup_percentage || 0,
+    };
+
     try {
       if (rule.id) {
         // Update existing rule
@@ -103,13 +169,14 @@ const PricingRulesManager = () => {
             unit_type: rule.unit_type,
             currency: rule.currency,
             is_active: rule.is_active,
+            ...engineFields,
             updated_at: new Date().toISOString(),
           })
           .eq('id', rule.id);
 
         if (error) throw error;
         
-        setRules(prev => prev.map(r => r.id === rule.id ? rule : r));
+        setRules(prev => prev.map(r => r.id === rule.id ? { ...rule, tiers } : r));
         setEditing(null);
         toast.success('Pricing rule updated successfully');
       } else {
@@ -124,21 +191,15 @@ const PricingRulesManager = () => {
             unit_type: rule.unit_type,
             currency: rule.currency,
             is_active: rule.is_active,
+            ...engineFields,
           })
           .select()
           .single();
 
         if (error) throw error;
         
-        setRules(prev => [...prev, data]);
-        setNewRule({
-          project_type: '',
-          base_price: 0,
-          price_per_unit: 0,
-          unit_type: 'sqft',
-          currency: 'GBP',
-          is_active: true,
-        });
+        setRules(prev => [...prev, { ...rule, id: data.id, tiers }]);
+        setNewRule(emptyRule());
         toast.success('Pricing rule created successfully');
       }
     } catch (error) {
@@ -164,11 +225,143 @@ const PricingRulesManager = () => {
     }
   };
 
-  const calculateEstimate = (rule: PricingRule, units: number = 100) => {
-    const unitCost = (rule.price_per_unit || 0) * units;
-    return rule.base_price + unitCost;
+  const addRegion = async () => {
+    const prefix = newRegion.postcode_prefix.toUpperCase().replace(/\s+/g, '');
+    const multiplier = parseFloat(newRegion.multiplier);
+    if (!/^[A-Z0-9]+$/.test(prefix) || !(multiplier > 0)) {
+      toast.error('Enter a postcode prefix such as SW1 or M and a multiplier such as 1.2');
+      return;
+    }
+
+    const { error } = await supabase.from('pricing_regional_multipliers').upsert({
+      user_id: user!.id,
+      postcode_prefix: prefix,
+      multiplier,
+      label: newRegion.label.trim() || null,
+    }, { onConflict: 'user_id,postcode_prefix' });
+
+    if (error) {
+      console.error('Error saving regional multiplier:', error);
+      toast.error('Failed to save regional multiplier');
+      return;
+    }
+    setNewRegion({ postcode_prefix: '', multiplier: '', label: '' });
+    fetchRegions();
+  };
+
+  const deleteRegion = async (id: string) => {
+    const { error } = await supabase.from('pricing_regional_multipliers').delete().eq('id', id);
+    if (error) {
+      toast.error('Failed to delete regional multiplier');
+      return;
+    }
+    setRegions(prev => prev.filter(region => region.id !== id));
   };
 
+  // Tiers, minimum charge, complexity and markup, shared by the add and edit forms
+  const renderEngineFields = (rule: PricingRule, update: (changes: Partial<PricingRule>) => void) => (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4">
+        <div className="space-y-2">
+          <Label>Minimum Charge</Label>
+          <Input
+            type="number"
+            min="0"
+            value={rule.minimum_charge || ''}
+            onChange={(e) => update({ minimum_charge: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        <div className="space-y-2">
+          <Label>Materials Markup %</Label>
+          <Input
+            type="number"
+            min="0"
+            value={rule.material_markup_percentage || ''}
+            onChange={(e) => update({ material_markup_percentage: parseFloat(e.target.value) || 0 })}
+          />
+        </div>
+        {COMPLEXITY_LEVELS.filter(level => level.value !== 'standard').map(level => (
+          <div key={level.value} className="space-y-2">
+            <Label>{level.label} Multiplier</Label>
+            <Input
+              type="number"
+              step="0.05"
+              min="0"
+              value={rule.complexity_multipliers[level.value]}
+              onChange={(e) => update({
+                complexity_multipliers: {
+                  ...rule.complexity_multipliers,
+                  [level.value]: parseFloat(e.target.value) || 1,
+                },
+              })}
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-2">
+        <Label>Price Bands (optional)</Label>
+        <p className="text-xs text-muted-foreground">
+          Each band of the quantity is charged at its own rate, e.g. the first 20 {rule.unit_type} at one price and the rest at another.
+          Without bands every unit is charged at the price per unit.
+        </p>
+        {rule.tiers.map((tier, index) => (
+          <div key={index} className="flex items-center gap-2">
+            <span className="text-sm text-muted-foreground w-20">
+              {index === 0 ? 'From 0' : `From ${rule.tiers[index - 1].up_to ?? '—'}`}
+            </span>
+            <Input
+              type="number"
+              placeholder="Up to (blank = no limit)"
+              value={tier.up_to ?? ''}
+              onChange={(e) => update({
+                tiers: rule.tiers.map((t, i) => i === index ? { ...t, up_to: e.target.value ? parseFloat(e.target.value) : null } : t),
+              })}
+            />
+            <Input
+              type="number"
+              placeholder={`Price per ${rule.unit_type}`}
+              value={tier.price_per_unit || ''}
+              onChange={(e) => update({
+                tiers: rule.tiers.map((t, i) => i === index ? { ...t, price_per_unit: parseFloat(e.target.value) || 0 } : t),
+              })}
+            />
+            <Button variant="ghost" size="icon" onClick={() => update({ tiers: rule.tiers.filter((_, i) => i !== index) })}>
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => update({ tiers: [...rule.tiers, { up_to: null, price_per_unit: rule.price_per_unit || 0 }] })}
+        >
+          <Plus className="w-4 h-4 mr-2" />
+          Add Band
+        </Button>
+      </div>
+    </div>
+  );
+
+  const describeRule = (rule: PricingRule) => {
+    const parts: string[] = [];
+    if (rule.tiers.length > 0) parts.push(`${rule.tiers.length} price bands per ${rule.unit_type}`);
+    if (rule.minimum_charge > 0) parts.push(`minimum ${formatMoney(rule.minimum_charge, rule.currency)}`);
+    if (rule.material_markup_percentage > 0) parts.push(`${rule.material_markup_percentage}% materials markup`);
+    return parts.join(' • ');
+  };
+
+  const previewRule = rules.find(rule => rule.id === previewRuleId);
+  let previewResult: ReturnType<typeof evaluatePricingRule> | null = null;
+  let previewError: string | null = null;
+  if (previewRule) {
+    try {
+      previewResult = evaluatePricingRule(previewRule, preview, regions);
+    } catch (error) {
+      previewError = error.message;
+    }
+  }
+
   if (loading) {
     return (
       <Card>
@@ -299,6 +492,8 @@ const PricingRulesManager = () => {
                 </div>
               </div>
 
+              {renderEngineFields(newRule, (changes) => setNewRule(prev => ({ ...prev, ...changes })))}
+
               <div className="flex items-center gap-4">
                 <Button
                   onClick={() => saveRule(newRule)}
@@ -306,12 +501,6 @@ const PricingRulesManager = () => {
                 >
                   Add Pricing Rule
                 </Button>
-                
-                {newRule.price_per_unit && newRule.price_per_unit > 0 && (
-                  <div className="text-sm text-muted-foreground">
-                    Example (100 {newRule.unit_type}): £{calculateEstimate(newRule, 100).toLocaleString()}
-                  </div>
-                )}
               </div>
             </CardContent>
           </Card>
@@ -390,8 +579,34 @@ const PricingRulesManager = () => {
                                 }
                               />
                             </div>
+                            <div className="space-y-2">
+                              <Label>Unit Type</Label>
+                              <Select
+                                value={rule.unit_type}
+                                onValueChange={(value) =>
+                                  setRules(prev => prev.map(r =>
+                                    r.id === rule.id ? { ...r, unit_type: value } : r
+                                  ))
+                                }
+                              >
+                                <SelectTrigger>
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {unitTypes.map(type => (
+                                    <SelectItem key={type} value={type}>
+                                      {type.replace(/_/g, ' ')}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
                           </div>
 
+                          {renderEngineFields(rule, (changes) =>
+                            setRules(prev => prev.map(r => r.id === rule.id ? { ...r, ...changes } : r))
+                          )}
+
                           <div className="flex gap-2">
                             <Button
                               onClick={() => saveRule(rule)}
@@ -426,10 +641,8 @@ const PricingRulesManager = () => {
                                 <span> + £{rule.price_per_unit}/{rule.unit_type}</span>
                               )}
                             </div>
-                            {rule.price_per_unit && rule.price_per_unit > 0 && (
-                              <div className="text-xs text-muted-foreground">
-                                Example (100 {rule.unit_type}): £{calculateEstimate(rule, 100).toLocaleString()}
-                              </div>
+                            {describeRule(rule) && (
+                              <div className="text-xs text-muted-foreground">{describeRule(rule)}</div>
                             )}
                           </div>
                           
@@ -459,6 +672,211 @@ const PricingRulesManager = () => {
           </div>
         </CardContent>
       </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <MapPin className="w-5 h-5" />
+            Regional Multipliers
+          </CardTitle>
+          <CardDescription>
+            Adjust labour prices by postcode area. The longest matching prefix wins, so SW1A can override SW.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-4 gap-4 items-end">
+            <div className="space-y-2">
+              <Label>Postcode Prefix</Label>
+              <Input
+                placeholder="e.g. SW1"
+                value={newRegion.postcode_prefix}
+                onChange={(e) => setNewRegion(prev => ({ ...prev, postcode_prefix: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Multiplier</Label>
+              <Input
+                type="number"
+                step="0.05"
+                placeholder="e.g. 1.2"
+                value={newRegion.multiplier}
+                onChange={(e) => setNewRegion(prev => ({ ...prev, multiplier: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Label</Label>
+              <Input
+                placeholder="e.g. Central London"
+                value={newRegion.label}
+                onChange={(e) => setNewRegion(prev => ({ ...prev, label: e.target.value }))}
+              />
+            </div>
+            <Button onClick={addRegion}>
+              <Plus className="w-4 h-4 mr-2" />
+              Save Region
+            </Button>
+          </div>
+
+          {regions.length > 0 && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Prefix</TableHead>
+                  <TableHead>Label</TableHead>
+                  <TableHead className="text-right">Multiplier</TableHead>
+                  <TableHead />
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {regions.map(region => (
+                  <TableRow key={region.id}>
+                    <TableCell className="font-mono">{region.postcode_prefix}</TableCell>
+                    <TableCell>{region.label || '—'}</TableCell>
+                    <TableCell className="text-right">x{Number(region.multiplier)}</TableCell>
+                    <TableCell className="text-right">
+                      <Button variant="ghost" size="icon" onClick={() => deleteRegion(region.id)}>
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <DollarSign className="w-5 h-5" />
+            Price Preview
+          </CardTitle>
+          <CardDescription>
+            Try a rule against a project's measurements to see the line items an invoice or quote would get
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2 lg:col-span-2">
+              <Label>Pricing Rule</Label>
+              <Select value={previewRuleId} onValueChange={setPreviewRuleId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a rule" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rules.filter(rule => rule.id).map(rule => (
+                    <SelectItem key={rule.id} value={rule.id!}>
+                      {rule.project_type.replace(/_/g, ' ')}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Quantity</Label>
+              <div className="flex gap-2">
+                <Input
+                  type="number"
+                  min="0"
+                  value={preview.quantity ?? ''}
+                  onChange={(e) => setPreview(prev => ({ ...prev, quantity: parseFloat(e.target.value) || undefined }))}
+                />
+                <Select
+                  value={preview.unit || previewRule?.unit_type || 'sqm'}
+                  onValueChange={(value) => setPreview(prev => ({ ...prev, unit: value }))}
+                >
+                  <SelectTrigger className="w-28">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {unitTypes.map(type => (
+                      <SelectItem key={type} value={type}>
+                        {type.replace(/_/g, ' ')}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label>Postcode</Label>
+              <Input
+                placeholder="e.g. SW1A 1AA"
+                value={preview.postcode || ''}
+                onChange={(e) => setPreview(prev => ({ ...prev, postcode: e.target.value }))}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Complexity</Label>
+              <Select
+                value={preview.complexity || 'standard'}
+                onValueChange={(value) => setPreview(prev => ({ ...prev, complexity: value as Complexity }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {COMPLEXITY_LEVELS.map(level => (
+                    <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Materials Cost</Label>
+              <Input
+                type="number"
+                min="0"
+                value={preview.materials_cost ?? ''}
+                onChange={(e) => setPreview(prev => ({ ...prev, materials_cost: parseFloat(e.target.value) || undefined }))}
+              />
+            </div>
+          </div>
+
+          {previewError && <p className="text-sm text-destructive">{previewError}</p>}
+
+          {previewRule && previewResult && (
+            <div className="grid lg:grid-cols-2 gap-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Line</TableHead>
+                    <TableHead className="text-right">Qty</TableHead>
+                    <TableHead className="text-right">Unit Price</TableHead>
+                    <TableHead className="text-right">Amount</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {previewResult.lines.map((line, index) => (
+                    <TableRow key={index}>
+                      <TableCell>
+                        {line.description}
+                        {line.category === 'materials' && <Badge variant="outline" className="ml-2">materials</Badge>}
+                      </TableCell>
+                      <TableCell className="text-right">{line.quantity} {line.unit?.replace(/_/g, ' ')}</TableCell>
+                      <TableCell className="text-right">{formatMoney(line.unitPrice, previewRule.currency)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(line.quantity * line.unitPrice, previewRule.currency)}</TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="font-medium">Total before VAT</TableCell>
+                    <TableCell className="text-right font-bold">{formatMoney(previewResult.total, previewRule.currency)}</TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+              <div className="space-y-2">
+                <h4 className="text-sm font-medium">How this price was worked out</h4>
+                <ol className="list-decimal list-inside space-y-1 text-sm text-muted-foreground">
+                  {previewResult.explanation.map((step, index) => (
+                    <li key={index}>{step}</li>
+                  ))}
+                </ol>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
     </div>
   );
 };
@@ -88,6 +88,7 @@ interface QuoteFormData {
   selected_service_id: string;
   selected_service_name: string;
   additional_notes?: string;
+  promo_code?: string;
 }
 
 export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = ({
@@ -120,7 +121,8 @@ export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = (
     preferred_timeline: '',
     selected_service_id: '',
     selected_service_name: '',
-    additional_notes: ''
+    additional_notes: '',
+    promo_code: ''
   });
   const { toast } = useToast();
 
@@ -370,6 +372,29 @@ export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = (
         .from('quote_requests')
         .insert(quoteRequestData);
 
+      // Promo codes are checked and redeemed server-side against the stored request
+      let promoMessage = '';
+      if (quoteForm.promo_code?.trim() && micrositeId) {
+        const { data: redemption, error: redemptionError } = await supabase.functions.invoke('microsite-generator', {
+          body: {
+            action: 'redeem_code',
+            micrositeId,
+            email: quoteForm.customer_email,
+            code: quoteForm.promo_code.trim()
+          }
+        });
+        if (redemption?.success) {
+          promoMessage = ` Code ${redemption.code} applied: ${redemption.description}.`;
+        } else {
+          const details = await redemptionError?.context?.json?.().catch(() => null);
+          toast({
+            title: "Promo code not applied",
+            description: details?.error || redemption?.error || "The code couldn't be applied to your request.",
+            variant: "destructive",
+          });
+        }
+      }
+
       // Track analytics
       await trackQuoteRequest(quoteForm.selected_service_id, quoteForm.selected_service_name, quoteForm);
 
@@ -381,7 +406,7 @@ export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = (
       // Success notification
       toast({
         title: "✅ Quote Request Submitted!",
-        description: `Thank you ${quoteForm.customer_name}! We'll contact you about ${quoteForm.selected_service_name} within 24 hours.`,
+        description: `Thank you ${quoteForm.customer_name}! We'll contact you about ${quoteForm.selected_service_name} within 24 hours.${promoMessage}`,
       });
 
       // Open Calendly for immediate booking (optional)
@@ -498,7 +523,8 @@ export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = (
       preferred_timeline: '',
       selected_service_id: '',
       selected_service_name: '',
-      additional_notes: ''
+      additional_notes: '',
+      promo_code: ''
     });
     setQuoteDialogOpen(false);
     setSelectedService(null);
@@ -892,6 +918,19 @@ export const ProductCatalogueDisplay: React.FC<ProductCatalogueDisplayProps> = (
                   rows={3}
                 />
               </div>
+
+              {micrositeId && (
+                <div>
+                  <Label htmlFor="promo_code">Promo Code</Label>
+                  <Input
+                    id="promo_code"
+                    value={quoteForm.promo_code}
+                    onChange={(e) => setQuoteForm(prev => ({ ...prev, promo_code: e.target.value.toUpperCase() }))}
+                    placeholder="e.g. SPRING10"
+                    maxLength={32}
+                  />
+                </div>
+              )}
             </div>
 
             {/* Action Buttons */}
@@ -0,0 +1,817 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Copy, Edit, FileSignature, FolderKanban, Plus, Send } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+import { InvoiceLineItemsEditor, InvoiceTotalsSummary } from '@/components/InvoiceLineItemsEditor';
+import { CIS_RATES, InvoiceLineItemDraft, calculateInvoiceTotals, createLineItem, roundCurrency } from '@/lib/invoiceCalculations';
+import { fetchCompanyCurrency, formatMoney } from '@/lib/currency';
+import { PricingRuleConfig, ProjectMeasurements, RegionalMultiplier, evaluatePricingRule, readMeasurements } from '@/lib/pricingEngine';
+import type { Json } from '@/integrations/supabase/types';
+
+type QuoteStatus = 'draft' | 'sent' | 'viewed' | 'accepted' | 'declined' | 'expired';
+
+interface Quote {
+  id: string;
+  quote_request_id: string | null;
+  lead_id: string | null;
+  quote_number: string;
+  title: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string | null;
+  currency: string;
+  status: QuoteStatus;
+  current_revision: number;
+  sent_revision: number | null;
+  public_token: string;
+  valid_until: string | null;
+  accepted_revision: number | null;
+  accepted_at: string | null;
+  signer_name: string | null;
+  signature_image: string | null;
+  decline_reason: string | null;
+  deposit_invoice_id: string | null;
+  project_id: string | null;
+  conversion_error: string | null;
+  created_at: string;
+}
+
+interface QuoteRevision {
+  id: string;
+  revision_number: number;
+  line_items: InvoiceLineItemDraft[];
+  cis_rate: number;
+  total_amount: number;
+  deposit_percentage: number;
+  deposit_amount: number;
+  valid_until: string | null;
+  notes: string | null;
+  terms: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface QuoteRequestRow {
+  id: string;
+  catalogue_item_id: string | null;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string | null;
+  project_description: string | null;
+  estimated_budget: string | null;
+  form_data: Json | null;
+  project_measurements: Json;
+  created_at: string;
+}
+
+interface CatalogueItemOption {
+  id: string;
+  name: string;
+  price: number | null;
+  short_description: string | null;
+}
+
+interface PricingRuleOption extends PricingRuleConfig {
+  id: string;
+}
+
+interface QuoteDraft {
+  quote: Quote | null;
+  quoteRequestId: string | null;
+  leadId: string | null;
+  currency: string;
+  title: string;
+  customer_name: string;
+  customer_email: string;
+  customer_phone: string;
+  valid_until: string;
+  deposit_percentage: number;
+  cis_rate: number;
+  notes: string;
+  terms: string;
+  lineItems: InvoiceLineItemDraft[];
+  measurements: ProjectMeasurements;
+}
+
+const DEFAULT_VALIDITY_DAYS = 30;
+
+const addDays = (days: number) => {
+  const date = new Date();
+  date.setDate(date.getDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+const statusStyles: Record<QuoteStatus, string> = {
+  draft: 'bg-gray-500',
+  sent: 'bg-blue-500',
+  viewed: 'bg-indigo-500',
+  accepted: 'bg-green-500',
+  declined: 'bg-red-500',
+  expired: 'bg-orange-500',
+};
+
+const QuoteBuilder = () => {
+  const [quotes, setQuotes] = useState<Quote[]>([]);
+  const [requests, setRequests] = useState<QuoteRequestRow[]>([]);
+  const [requestPromos, setRequestPromos] = useState<Record<string, string>>({});
+  const [catalogueItems, setCatalogueItems] = useState<CatalogueItemOption[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRuleOption[]>([]);
+  const [regions, setRegions] = useState<RegionalMultiplier[]>([]);
+  const [draft, setDraft] = useState<QuoteDraft | null>(null);
+  const [revisions, setRevisions] = useState<QuoteRevision[]>([]);
+  const [ruleQuantity, setRuleQuantity] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [busyQuoteId, setBusyQuoteId] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const [quotesRes, requestsRes, catalogueRes, rulesRes, regionsRes] = await Promise.all([
+        supabase.from('quotes').select('*').eq('user_id', user?.id).order('created_at', { ascending: false }),
+        supabase
+          .from('quote_requests')
+          .select('id, catalogue_item_id, customer_name, customer_email, customer_phone, project_description, estimated_budget, form_data, project_measurements, created_at')
+          .eq('user_id', user?.id)
+          .order('created_at', { ascending: false })
+          .limit(50),
+        supabase.from('catalogue_items').select('id, name, price, short_description').eq('user_id', user?.id).eq('is_active', true).order('name'),
+        supabase.from('pricing_rules').select('*').eq('user_id', user?.id).eq('is_active', true).order('project_type'),
+        supabase.from('pricing_regional_multipliers').select('postcode_prefix, multiplier, label').eq('user_id', user?.id),
+      ]);
+
+      if (quotesRes.error) throw quotesRes.error;
+
+      const loadedQuotes = (quotesRes.data || []) as Quote[];
+      const quotedRequestIds = new Set(loadedQuotes.map(quote => quote.quote_request_id));
+      setQuotes(loadedQuotes);
+      const openRequests = (requestsRes.data || []).filter(request => !quotedRequestIds.has(request.id));
+      setRequests(openRequests);
+      await fetchRequestPromos(openRequests.map(request => request.id));
+      setCatalogueItems(catalogueRes.data || []);
+      setPricingRules((rulesRes.data || []) as unknown as PricingRuleOption[]);
+      setRegions(regionsRes.data || []);
+    } catch (error) {
+      console.error('Error loading quotes:', error);
+      toast.error('Failed to load quotes');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // Promo codes customers redeemed on the microsite quote form
+  const fetchRequestPromos = async (requestIds: string[]) => {
+    if (requestIds.length === 0) return;
+    const { data } = await supabase
+      .from('discount_applications')
+      .select('quote_request_id, discount_codes(code), discount_rules(discount_type, discount_value)')
+      .in('quote_request_id', requestIds)
+      .not('discount_code_id', 'is', null);
+
+    const promos: Record<string, string> = {};
+    (data || []).forEach(application => {
+      const rule = application.discount_rules;
+      if (!application.quote_request_id || !application.discount_codes || !rule) return;
+      const amount = rule.discount_type === 'percentage' ? `${Number(rule.discount_value)}% off` : `${formatMoney(Number(rule.discount_value))} off`;
+      promos[application.quote_request_id] = `${application.discount_codes.code} (${amount})`;
+    });
+    setRequestPromos(promos);
+  };
+
+  const startQuote = async (request?: QuoteRequestRow) => {
+    const { baseCurrency } = await fetchCompanyCurrency(user!.id);
+    const formData = (request?.form_data || {}) as Record<string, unknown>;
+    const catalogueItem = catalogueItems.find(item => item.id === request?.catalogue_item_id);
+
+    // Link the lead the microsite created for the same customer, if there is one
+    let leadId: string | null = null;
+    if (request) {
+      const { data: lead } = await supabase
+        .from('leads')
+        .select('id')
+        .eq('created_by', user?.id)
+        .eq('email', request.customer_email)
+        .order('created_at', { ascending: false })
+        .limit(1)
+        .maybeSingle();
+      leadId = lead?.id || null;
+    }
+
+    const measurements = readMeasurements(request?.project_measurements, request?.form_data);
+    setRuleQuantity(measurements.quantity ? String(measurements.quantity) : '');
+    setRevisions([]);
+    setDraft({
+      quote: null,
+      quoteRequestId: request?.id || null,
+      leadId,
+      currency: baseCurrency,
+      title: (formData.serviceName as string) || catalogueItem?.name || request?.project_description?.slice(0, 80) || '',
+      customer_name: request?.customer_name || '',
+      customer_email: request?.customer_email || '',
+      customer_phone: request?.customer_phone || '',
+      valid_until: addDays(DEFAULT_VALIDITY_DAYS),
+      deposit_percentage: 25,
+      cis_rate: 0,
+      notes: [
+        request?.project_description,
+        request && requestPromos[request.id] && `Promo code ${requestPromos[request.id]} applied to this request.`,
+      ].filter(Boolean).join('\n\n'),
+      terms: '',
+      lineItems: catalogueItem
+        ? [{ ...createLineItem(), description: catalogueItem.name, unitPrice: catalogueItem.price || 0 }]
+        : [createLineItem()],
+      measurements,
+    });
+  };
+
+  const openQuote = async (quote: Quote) => {
+    const { data, error } = await supabase
+      .from('quote_revisions')
+      .select('*')
+      .eq('quote_id', quote.id)
+      .order('revision_number', { ascending: false });
+
+    if (error) {
+      toast.error('Failed to load quote revisions');
+      return;
+    }
+
+    const loaded = (data || []).map(revision => ({
+      ...revision,
+      line_items: revision.line_items as unknown as InvoiceLineItemDraft[],
+    })) as QuoteRevision[];
+    const current = loaded.find(revision => revision.revision_number === quote.current_revision);
+
+    let measurements: ProjectMeasurements = {};
+    if (quote.quote_request_id) {
+      const { data: request } = await supabase
+        .from('quote_requests')
+        .select('project_measurements, form_data')
+        .eq('id', quote.quote_request_id)
+        .maybeSingle();
+      measurements = readMeasurements(request?.project_measurements, request?.form_data);
+    }
+    setRuleQuantity(measurements.quantity ? String(measurements.quantity) : '');
+
+    setRevisions(loaded);
+    setDraft({
+      quote,
+      quoteRequestId: quote.quote_request_id,
+      leadId: quote.lead_id,
+      currency: quote.currency,
+      title: quote.title,
+      customer_name: quote.customer_name,
+      customer_email: quote.customer_email,
+      customer_phone: quote.customer_phone || '',
+      valid_until: current?.valid_until || addDays(DEFAULT_VALIDITY_DAYS),
+      deposit_percentage: Number(current?.deposit_percentage ?? 25),
+      cis_rate: Number(current?.cis_rate ?? 0),
+      notes: current?.notes || '',
+      terms: current?.terms || '',
+      lineItems: current?.line_items || [createLineItem()],
+      measurements,
+    });
+  };
+
+  const updateDraft = (changes: Partial<QuoteDraft>) => {
+    setDraft(prev => (prev ? { ...prev, ...changes } : prev));
+  };
+
+  const addCatalogueItem = (itemId: string) => {
+    const item = catalogueItems.find(i => i.id === itemId);
+    if (!item || !draft) return;
+    updateDraft({
+      lineItems: [...draft.lineItems, { ...createLineItem(), description: item.name, unitPrice: item.price || 0 }],
+    });
+  };
+
+  // Same lines invoice-generator builds from a pricing rule, using the request's measurements
+  const addPricingRule = (ruleId: string) => {
+    const rule = pricingRules.find(r => r.id === ruleId);
+    if (!rule || !draft) return;
+
+    const quantity = parseFloat(ruleQuantity) || undefined;
+    // A size typed over the request's measurement is taken to be in the rule's unit
+    const unit = quantity === draft.measurements.quantity ? draft.measurements.unit : undefined;
+
+    let breakdown;
+    try {
+      breakdown = evaluatePricingRule(rule, { ...draft.measurements, quantity, unit }, regions);
+    } catch (error) {
+      toast.error(error.message);
+      return;
+    }
+
+    const lines: InvoiceLineItemDraft[] = breakdown.lines.map(line => ({
+      ...createLineItem(line.category),
+      description: line.description,
+      quantity: line.quantity,
+      unit: line.unit || '',
+      unitPrice: line.unitPrice,
+    }));
+
+    updateDraft({ lineItems: [...draft.lineItems.filter(line => line.description || line.unitPrice), ...lines] });
+  };
+
+  const saveQuote = async () => {
+    if (!draft) return;
+    if (!draft.title.trim() || !draft.customer_name.trim() || !draft.customer_email.trim()) {
+      toast.error('Please add a title and the customer name and email');
+      return;
+    }
+
+    const lineItems = draft.lineItems.filter(line => line.description.trim());
+    if (lineItems.length === 0) {
+      toast.error('Add at least one line item with a description');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const totals = calculateInvoiceTotals(lineItems, draft.cis_rate);
+      const revisionFields = {
+        line_items: lineItems as unknown as Json,
+        cis_rate: draft.cis_rate,
+        subtotal: totals.subtotal,
+        vat_total: totals.vatTotal,
+        total_amount: totals.totalAmount,
+        deposit_percentage: draft.deposit_percentage,
+        valid_until: draft.valid_until || null,
+        notes: draft.notes.trim() || null,
+        terms: draft.terms.trim() || null,
+      };
+      const quoteFields = {
+        title: draft.title.trim(),
+        customer_name: draft.customer_name.trim(),
+        customer_email: draft.customer_email.trim(),
+        customer_phone: draft.customer_phone.trim() || null,
+      };
+
+      let savedRevision: number;
+
+      if (!draft.quote) {
+        const { data: quote, error } = await supabase
+          .from('quotes')
+          .insert({
+            ...quoteFields,
+            user_id: user!.id,
+            quote_request_id: draft.quoteRequestId,
+            lead_id: draft.leadId,
+            currency: draft.currency,
+          })
+          .select()
+          .single();
+        if (error) throw error;
+
+        const { error: revisionError } = await supabase
+          .from('quote_revisions')
+          .insert({ ...revisionFields, quote_id: quote.id, user_id: user!.id, revision_number: 1 });
+        if (revisionError) {
+          await supabase.from('quotes').delete().eq('id', quote.id);
+          throw revisionError;
+        }
+        savedRevision = 1;
+      } else {
+        const current = revisions.find(revision => revision.revision_number === draft.quote!.current_revision);
+        savedRevision = draft.quote.current_revision;
+
+        // A sent revision is what the customer saw, so changes go into a new one
+        if (!current || current.sent_at) {
+          savedRevision = draft.quote.current_revision + 1;
+          const { error } = await supabase
+            .from('quote_revisions')
+            .insert({ ...revisionFields, quote_id: draft.quote.id, user_id: user!.id, revision_number: savedRevision });
+          if (error) throw error;
+        } else {
+          const { error } = await supabase
+            .from('quote_revisions')
+            .update(revisionFields)
+            .eq('id', current.id);
+          if (error) throw error;
+        }
+
+        const { error } = await supabase
+          .from('quotes')
+          .update({ ...quoteFields, current_revision: savedRevision })
+          .eq('id', draft.quote.id);
+        if (error) throw error;
+      }
+
+      toast.success(`Quote saved as revision ${savedRevision}`);
+      setDraft(null);
+      fetchData();
+    } catch (error) {
+      console.error('Error saving quote:', error);
+      toast.error(error.message || 'Failed to save quote');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const acceptanceLink = (quote: Quote) => `${window.location.origin}/quote/${quote.public_token}`;
+
+  const copyLink = async (quote: Quote) => {
+    await navigator.clipboard.writeText(acceptanceLink(quote));
+    toast.success('Acceptance link copied');
+  };
+
+  const sendQuote = async (quote: Quote) => {
+    setBusyQuoteId(quote.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('quote-manager', {
+        body: { action: 'send', quoteId: quote.id, appUrl: window.location.origin },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message);
+
+      if (data.emailSent) {
+        toast.success(`Revision ${data.revision} sent to ${quote.customer_email}`);
+      } else {
+        await navigator.clipboard.writeText(data.acceptUrl);
+        toast.warning(`Email failed (${data.emailError}). The acceptance link has been copied so you can share it.`);
+      }
+      fetchData();
+    } catch (error) {
+      console.error('Error sending quote:', error);
+      toast.error(error.message || 'Failed to send quote');
+    } finally {
+      setBusyQuoteId(null);
+    }
+  };
+
+  const convertQuote = async (quote: Quote) => {
+    setBusyQuoteId(quote.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('invoice-generator', {
+        body: { action: 'invoice_quote', quoteId: quote.id },
+      });
+      if (error || !data?.success) throw new Error(data?.error || error?.message);
+
+      toast.success(data.invoice
+        ? `Deposit invoice ${data.invoice.invoice_number} and project created`
+        : 'Project created');
+      fetchData();
+    } catch (error) {
+      console.error('Error converting quote:', error);
+      toast.error(error.message || 'Failed to convert quote');
+    } finally {
+      setBusyQuoteId(null);
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="py-12 text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Loading quotes...</p>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  const locked = !!draft?.quote && ['accepted', 'declined'].includes(draft.quote.status);
+  const draftTotals = draft ? calculateInvoiceTotals(draft.lineItems, draft.cis_rate) : null;
+  const currentRevision = draft?.quote
+    ? revisions.find(revision => revision.revision_number === draft.quote!.current_revision)
+    : undefined;
+
+  return (
+    <div className="space-y-6">
+      {requests.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle>Quote Requests</CardTitle>
+            <CardDescription>Requests from your microsites that haven't been quoted yet</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-3">
+              {requests.map(request => (
+                <div key={request.id} className="flex items-start justify-between gap-4 p-3 border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="font-medium">{request.customer_name}</div>
+                    <div className="text-sm text-muted-foreground">
+                      {request.customer_email}
+                      {request.estimated_budget && ` • Budget ${request.estimated_budget}`}
+                      {' • '}{new Date(request.created_at).toLocaleDateString()}
+                    </div>
+                    {request.project_description && (
+                      <p className="text-sm mt-1 line-clamp-2">{request.project_description}</p>
+                    )}
+                    {requestPromos[request.id] && (
+                      <Badge variant="outline" className="mt-1">Promo {requestPromos[request.id]}</Badge>
+                    )}
+                  </div>
+                  <Button size="sm" onClick={() => startQuote(request)}>
+                    <FileSignature className="w-4 h-4 mr-2" />
+                    Build Quote
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Quotes</CardTitle>
+              <CardDescription>
+                Customers accept and sign quotes online; accepted quotes become a deposit invoice and a project
+              </CardDescription>
+            </div>
+            <Button onClick={() => startQuote()}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Quote
+            </Button>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {quotes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No quotes yet</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Quote</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Valid Until</TableHead>
+                  <TableHead className="text-right">Actions</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {quotes.map(quote => {
+                  const needsConversion = quote.status === 'accepted' && (!quote.deposit_invoice_id || !quote.project_id);
+                  return (
+                    <TableRow key={quote.id}>
+                      <TableCell>
+                        <div className="font-medium">{quote.quote_number}</div>
+                        <div className="text-sm text-muted-foreground">{quote.title}</div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{quote.customer_name}</div>
+                        <div className="text-sm text-muted-foreground">{quote.customer_email}</div>
+                      </TableCell>
+                      <TableCell>
+                        <Badge className={statusStyles[quote.status]}>{quote.status}</Badge>
+                        <div className="text-xs text-muted-foreground mt-1">
+                          Revision {quote.current_revision}
+                          {quote.sent_revision && quote.sent_revision !== quote.current_revision && ` (customer has ${quote.sent_revision})`}
+                        </div>
+                        {quote.conversion_error && (
+                          <div className="text-xs text-destructive mt-1">{quote.conversion_error}</div>
+                        )}
+                      </TableCell>
+                      <TableCell>{quote.valid_until ? new Date(quote.valid_until).toLocaleDateString() : '—'}</TableCell>
+                      <TableCell className="text-right space-x-2 whitespace-nowrap">
+                        <Button size="sm" variant="ghost" onClick={() => openQuote(quote)}>
+                          <Edit className="w-4 h-4" />
+                        </Button>
+                        {quote.sent_revision && (
+                          <Button size="sm" variant="ghost" onClick={() => copyLink(quote)}>
+                            <Copy className="w-4 h-4" />
+                          </Button>
+                        )}
+                        {!['accepted', 'declined'].includes(quote.status) && (
+                          <Button size="sm" variant="outline" onClick={() => sendQuote(quote)} disabled={busyQuoteId === quote.id}>
+                            <Send className="w-4 h-4 mr-2" />
+                            {quote.sent_revision ? 'Resend' : 'Send'}
+                          </Button>
+                        )}
+                        {needsConversion && (
+                          <Button size="sm" onClick={() => convertQuote(quote)} disabled={busyQuoteId === quote.id}>
+                            <FolderKanban className="w-4 h-4 mr-2" />
+                            Convert
+                          </Button>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!draft} onOpenChange={(open) => !open && setDraft(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          {draft && draftTotals && (
+            <>
+              <DialogHeader>
+                <DialogTitle>{draft.quote ? `Quote ${draft.quote.quote_number}` : 'New Quote'}</DialogTitle>
+                <DialogDescription>
+                  {draft.quote
+                    ? currentRevision?.sent_at
+                      ? `Revision ${draft.quote.current_revision} has been sent; saving creates revision ${draft.quote.current_revision + 1}`
+                      : `Editing revision ${draft.quote.current_revision}`
+                    : 'Price the work from your catalogue and pricing rules'}
+                </DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-6">
+                {draft.quote?.status === 'accepted' && (
+                  <div className="p-3 border rounded-lg bg-green-50 space-y-2">
+                    <p className="text-sm">
+                      Revision {draft.quote.accepted_revision} accepted by <strong>{draft.quote.signer_name}</strong> on{' '}
+                      {draft.quote.accepted_at && new Date(draft.quote.accepted_at).toLocaleString()}
+                    </p>
+                    {draft.quote.signature_image && (
+                      <img src={draft.quote.signature_image} alt="Customer signature" className="h-16 bg-white border rounded" />
+                    )}
+                  </div>
+                )}
+                {draft.quote?.status === 'declined' && (
+                  <p className="p-3 border rounded-lg text-sm">
+                    Declined{draft.quote.decline_reason ? `: ${draft.quote.decline_reason}` : ''}
+                  </p>
+                )}
+
+                <div className="grid md:grid-cols-2 gap-4">
+                  <div className="space-y-2 md:col-span-2">
+                    <Label>Title</Label>
+                    <Input value={draft.title} onChange={(e) => updateDraft({ title: e.target.value })} disabled={locked} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Customer Name</Label>
+                    <Input value={draft.customer_name} onChange={(e) => updateDraft({ customer_name: e.target.value })} disabled={locked} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Customer Email</Label>
+                    <Input type="email" value={draft.customer_email} onChange={(e) => updateDraft({ customer_email: e.target.value })} disabled={locked} />
+                  </div>
+                  <div className="space-y-2">
+                    <Label>Valid Until</Label>
+                    <Input type="date" value={draft.valid_until} onChange={(e) => updateDraft({ valid_until: e.target.value })} disabled={locked} />
+                  </div>
+                  <div className="grid grid-cols-2 gap-2">
+                    <div className="space-y-2">
+                      <Label>Deposit %</Label>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={draft.deposit_percentage}
+                        onChange={(e) => updateDraft({ deposit_percentage: parseFloat(e.target.value) || 0 })}
+                        disabled={locked}
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>CIS Rate</Label>
+                      <Select
+                        value={draft.cis_rate.toString()}
+                        onValueChange={(value) => updateDraft({ cis_rate: parseInt(value) })}
+                        disabled={locked}
+                      >
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CIS_RATES.map(rate => (
+                            <SelectItem key={rate} value={rate.toString()}>{rate === 0 ? 'No CIS' : `${rate}%`}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                </div>
+
+                {!locked && (
+                  <div className="grid md:grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label>Add from Catalogue</Label>
+                      <Select value="" onValueChange={addCatalogueItem} disabled={catalogueItems.length === 0}>
+                        <SelectTrigger>
+                          <SelectValue placeholder={catalogueItems.length ? 'Choose a catalogue item' : 'No catalogue items'} />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {catalogueItems.map(item => (
+                            <SelectItem key={item.id} value={item.id}>
+                              {item.name}{item.price != null && ` — ${formatMoney(item.price, draft.currency)}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Add from Pricing Rule</Label>
+                      <div className="flex gap-2">
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          placeholder="Size"
+                          className="w-24"
+                          value={ruleQuantity}
+                          onChange={(e) => setRuleQuantity(e.target.value)}
+                        />
+                        <Select value="" onValueChange={addPricingRule} disabled={pricingRules.length === 0}>
+                          <SelectTrigger>
+                            <SelectValue placeholder={pricingRules.length ? 'Choose a pricing rule' : 'No pricing rules'} />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {pricingRules.map(rule => (
+                              <SelectItem key={rule.id} value={rule.id}>
+                                {rule.project_type.replace(/_/g, ' ')}
+                                {rule.price_per_unit ? ` — ${formatMoney(rule.price_per_unit, draft.currency)}/${rule.unit_type || 'unit'}` : ''}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  </div>
+                )}
+
+                <div className={locked ? 'pointer-events-none opacity-70' : ''}>
+                  <InvoiceLineItemsEditor
+                    lineItems={draft.lineItems}
+                    onChange={(lineItems) => updateDraft({ lineItems })}
+                    currency={draft.currency}
+                  />
+                </div>
+
+                <div className="grid md:grid-cols-2 gap-6">
+                  <div className="space-y-4">
+                    <div className="space-y-2">
+                      <Label>Scope & Notes</Label>
+                      <Textarea rows={3} value={draft.notes} onChange={(e) => updateDraft({ notes: e.target.value })} disabled={locked} />
+                    </div>
+                    <div className="space-y-2">
+                      <Label>Terms</Label>
+                      <Textarea rows={3} value={draft.terms} onChange={(e) => updateDraft({ terms: e.target.value })} disabled={locked} />
+                    </div>
+                  </div>
+                  <div className="space-y-3">
+                    <InvoiceTotalsSummary totals={draftTotals} currency={draft.currency} />
+                    <div className="flex justify-between text-sm border-t pt-2">
+                      <span className="text-muted-foreground">Deposit on acceptance ({draft.deposit_percentage}%)</span>
+                      <span className="font-medium">
+                        {formatMoney(roundCurrency(draftTotals.totalAmount * draft.deposit_percentage / 100), draft.currency)}
+                      </span>
+                    </div>
+                  </div>
+                </div>
+
+                {revisions.length > 0 && (
+                  <div className="space-y-2">
+                    <Label>Revisions</Label>
+                    <div className="space-y-1 text-sm">
+                      {revisions.map(revision => (
+                        <div key={revision.id} className="flex justify-between p-2 border rounded">
+                          <span>
+                            Revision {revision.revision_number}
+                            {revision.revision_number === draft.quote?.accepted_revision && <Badge className="ml-2 bg-green-500">Accepted</Badge>}
+                            {revision.revision_number === draft.quote?.sent_revision && !draft.quote?.accepted_revision && (
+                              <Badge variant="outline" className="ml-2">With customer</Badge>
+                            )}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {formatMoney(revision.total_amount, draft.currency)}
+                            {' • '}
+                            {revision.sent_at ? `sent ${new Date(revision.sent_at).toLocaleDateString()}` : 'draft'}
+                          </span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex justify-end gap-2">
+                  <Button variant="outline" onClick={() => setDraft(null)}>
+                    {locked ? 'Close' : 'Cancel'}
+                  </Button>
+                  {!locked && (
+                    <Button onClick={saveQuote} disabled={saving}>
+                      {saving ? 'Saving...' : 'Save Quote'}
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default QuoteBuilder;
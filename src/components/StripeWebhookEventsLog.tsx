@@ -0,0 +1,156 @@
+import { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { RefreshCw, RotateCcw, Webhook } from 'lucide-react';
+import { toast } from 'sonner';
+import { useAuth } from '@/contexts/AuthContext';
+
+interface WebhookEvent {
+  id: string;
+  event_id: string;
+  event_type: string;
+  livemode: boolean;
+  status: 'received' | 'processed' | 'ignored' | 'failed';
+  invoice_id: string | null;
+  attempts: number;
+  last_error: string | null;
+  received_at: string;
+}
+
+const statusVariants: Record<WebhookEvent['status'], 'default' | 'secondary' | 'destructive' | 'outline'> = {
+  processed: 'default',
+  ignored: 'secondary',
+  received: 'outline',
+  failed: 'destructive',
+};
+
+const StripeWebhookEventsLog = () => {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [replaying, setReplaying] = useState<string | null>(null);
+  const { user } = useAuth();
+
+  useEffect(() => {
+    if (user) {
+      fetchEvents();
+    }
+  }, [user]);
+
+  const fetchEvents = async () => {
+    setLoading(true);
+    try {
+      const { data, error } = await supabase
+        .from('stripe_webhook_events')
+        .select('id, event_id, event_type, livemode, status, invoice_id, attempts, last_error, received_at')
+        .eq('user_id', user?.id)
+        .order('received_at', { ascending: false })
+        .limit(50);
+
+      if (error) throw error;
+      setEvents((data || []) as WebhookEvent[]);
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      toast.error('Failed to load Stripe webhook events');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const replayEvent = async (event: WebhookEvent) => {
+    setReplaying(event.id);
+    try {
+      const { data, error } = await supabase.functions.invoke('stripe-webhook', {
+        body: { replayEventId: event.id }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Replay failed');
+
+      toast.success(`Event ${data.status}`);
+      fetchEvents();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      toast.error(error.message || 'Failed to replay event');
+      fetchEvents();
+    } finally {
+      setReplaying(null);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Webhook className="w-5 h-5" />
+              Stripe Webhook Events
+            </CardTitle>
+            <CardDescription>
+              Payments, refunds and disputes reported by Stripe. Failed events can be replayed once the problem is fixed.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" onClick={fetchEvents} disabled={loading}>
+            <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {events.length === 0 ? (
+          <p className="text-sm text-muted-foreground">
+            {loading ? 'Loading events...' : 'No events received yet.'}
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Received</TableHead>
+                <TableHead>Event</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead>Details</TableHead>
+                <TableHead></TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {events.map(event => (
+                <TableRow key={event.id}>
+                  <TableCell className="text-sm">{new Date(event.received_at).toLocaleString()}</TableCell>
+                  <TableCell>
+                    <div className="font-mono text-xs">{event.event_type}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {event.event_id}{event.livemode ? '' : ' • test'}
+                    </div>
+                  </TableCell>
+                  <TableCell>
+                    <Badge variant={statusVariants[event.status]} className="capitalize">{event.status}</Badge>
+                  </TableCell>
+                  <TableCell className="text-xs text-muted-foreground max-w-xs truncate">
+                    {event.last_error || (event.attempts > 1 ? `${event.attempts} attempts` : '')}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {(event.status === 'failed' || event.status === 'received') && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={() => replayEvent(event)}
+                        disabled={replaying === event.id}
+                      >
+                        <RotateCcw className="w-4 h-4 mr-2" />
+                        {replaying === event.id ? 'Replaying...' : 'Replay'}
+                      </Button>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default StripeWebhookEventsLog;
@@ -14,6 +14,114 @@ export type Database = {
   }
   public: {
     Tables: {
+      accounting_entity_mappings: {
+        Row: {
+          acknowledged_remote_at: string | null
+          created_at: string
+          drift: Json
+          entity_type: string
+          external_id: string
+          external_number: string | null
+          id: string
+          last_error: string | null
+          last_pulled_at: string | null
+          last_pushed_at: string | null
+          local_id: string
+          provider: string
+          remote_snapshot: Json
+          remote_updated_at: string | null
+          sync_status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          acknowledged_remote_at?: string | null
+          created_at?: string
+          drift?: Json
+          entity_type: string
+          external_id: string
+          external_number?: string | null
+          id?: string
+          last_error?: string | null
+          last_pulled_at?: string | null
+          last_pushed_at?: string | null
+          local_id: string
+          provider: string
+          remote_snapshot?: Json
+          remote_updated_at?: string | null
+          sync_status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          acknowledged_remote_at?: string | null
+          created_at?: string
+          drift?: Json
+          entity_type?: string
+          external_id?: string
+          external_number?: string | null
+          id?: string
+          last_error?: string | null
+          last_pulled_at?: string | null
+          last_pushed_at?: string | null
+          local_id?: string
+          provider?: string
+          remote_snapshot?: Json
+          remote_updated_at?: string | null
+          sync_status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      accounting_sync_settings: {
+        Row: {
+          conflict_policy: string
+          created_at: string
+          id: string
+          last_error: string | null
+          last_pulled_at: string | null
+          last_run_at: string | null
+          last_run_stats: Json
+          last_run_status: string | null
+          provider: string
+          pull_enabled: boolean
+          sync_contacts: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conflict_policy?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_pulled_at?: string | null
+          last_run_at?: string | null
+          last_run_stats?: Json
+          last_run_status?: string | null
+          provider: string
+          pull_enabled?: boolean
+          sync_contacts?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conflict_policy?: string
+          created_at?: string
+          id?: string
+          last_error?: string | null
+          last_pulled_at?: string | null
+          last_run_at?: string | null
+          last_run_stats?: Json
+          last_run_status?: string | null
+          provider?: string
+          pull_enabled?: boolean
+          sync_contacts?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       audit_logs: {
         Row: {
           action: string
@@ -80,38 +188,135 @@ export type Database = {
         }
         Relationships: []
       }
+      automation_events: {
+        Row: {
+          attempts: number
+          created_at: string
+          dedupe_key: string | null
+          entity_id: string
+          entity_type: string
+          event_type: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          payload: Json
+          processed_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string | null
+          entity_id: string
+          entity_type: string
+          event_type: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          created_at?: string
+          dedupe_key?: string | null
+          entity_id?: string
+          entity_type?: string
+          event_type?: string
+          id?: string
+          last_error?: string | null
+          locked_at?: string | null
+          payload?: Json
+          processed_at?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       automation_logs: {
         Row: {
+          action_results: Json
+          conditions_matched: boolean | null
           created_at: string | null
+          dry_run: boolean
+          entity_id: string | null
+          entity_type: string | null
+          error_message: string | null
+          event_id: string | null
           event_type: string | null
           id: string
           payload: Json | null
+          rule_id: string | null
           status: string | null
+          user_id: string | null
         }
         Insert: {
+          action_results?: Json
+          conditions_matched?: boolean | null
           created_at?: string | null
+          dry_run?: boolean
+          entity_id?: string | null
+          entity_type?: string | null
+          error_message?: string | null
+          event_id?: string | null
           event_type?: string | null
           id?: string
           payload?: Json | null
+          rule_id?: string | null
           status?: string | null
+          user_id?: string | null
         }
         Update: {
+          action_results?: Json
+          conditions_matched?: boolean | null
           created_at?: string | null
+          dry_run?: boolean
+          entity_id?: string | null
+          entity_type?: string | null
+          error_message?: string | null
+          event_id?: string | null
           event_type?: string | null
           id?: string
           payload?: Json | null
+          rule_id?: string | null
           status?: string | null
+          user_id?: string | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "automation_logs_event_id_fkey"
+            columns: ["event_id"]
+            isOneToOne: false
+            referencedRelation: "automation_events"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "automation_logs_rule_id_fkey"
+            columns: ["rule_id"]
+            isOneToOne: false
+            referencedRelation: "automation_rules"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       automation_rules: {
         Row: {
           actions: Json | null
           conditions: Json | null
           created_at: string
+          description: string | null
           id: string
           is_active: boolean | null
+          last_run_at: string | null
+          priority: number
           rule_name: string
+          run_count: number
           trigger_type: string
           updated_at: string
           user_id: string
@@ -120,9 +325,13 @@ export type Database = {
           actions?: Json | null
           conditions?: Json | null
           created_at?: string
+          description?: string | null
           id?: string
           is_active?: boolean | null
+          last_run_at?: string | null
+          priority?: number
           rule_name: string
+          run_count?: number
           trigger_type: string
           updated_at?: string
           user_id?: string
@@ -131,9 +340,13 @@ export type Database = {
           actions?: Json | null
           conditions?: Json | null
           created_at?: string
+          description?: string | null
           id?: string
           is_active?: boolean | null
+          last_run_at?: string | null
+          priority?: number
           rule_name?: string
+          run_count?: number
           trigger_type?: string
           updated_at?: string
           user_id?: string
@@ -267,8 +480,12 @@ export type Database = {
       business_settings: {
         Row: {
           automation_settings: Json | null
+          business_address: string | null
+          business_email: string | null
           business_name: string | null
+          business_phone: string | null
           business_type: string | null
+          company_number: string | null
           created_at: string
           default_currency: string | null
           facebook_connected: boolean | null
@@ -282,12 +499,17 @@ export type Database = {
           stripe_account_id: string | null
           updated_at: string
           user_id: string
+          vat_number: string | null
           whatsapp_number: string | null
         }
         Insert: {
           automation_settings?: Json | null
+          business_address?: string | null
+          business_email?: string | null
           business_name?: string | null
+          business_phone?: string | null
           business_type?: string | null
+          company_number?: string | null
           created_at?: string
           default_currency?: string | null
           facebook_connected?: boolean | null
@@ -301,12 +523,17 @@ export type Database = {
           stripe_account_id?: string | null
           updated_at?: string
           user_id: string
+          vat_number?: string | null
           whatsapp_number?: string | null
         }
         Update: {
           automation_settings?: Json | null
+          business_address?: string | null
+          business_email?: string | null
           business_name?: string | null
+          business_phone?: string | null
           business_type?: string | null
+          company_number?: string | null
           created_at?: string
           default_currency?: string | null
           facebook_connected?: boolean | null
@@ -320,6 +547,7 @@ export type Database = {
           stripe_account_id?: string | null
           updated_at?: string
           user_id?: string
+          vat_number?: string | null
           whatsapp_number?: string | null
         }
         Relationships: []
@@ -500,6 +728,7 @@ export type Database = {
       }
       companies: {
         Row: {
+          base_currency: string
           created_at: string | null
           description: string | null
           id: string
@@ -510,6 +739,7 @@ export type Database = {
           website: string | null
         }
         Insert: {
+          base_currency?: string
           created_at?: string | null
           description?: string | null
           id?: string
@@ -520,6 +750,7 @@ export type Database = {
           website?: string | null
         }
         Update: {
+          base_currency?: string
           created_at?: string | null
           description?: string | null
           id?: string
@@ -539,65 +770,261 @@ export type Database = {
           },
         ]
       }
+      company_integration_rate_limits: {
+        Row: {
+          company_id: string
+          requests_per_day: number | null
+          requests_per_hour: number
+          requests_per_minute: number
+          service_name: string
+          updated_at: string
+          updated_by: string | null
+        }
+        Insert: {
+          company_id: string
+          requests_per_day?: number | null
+          requests_per_hour: number
+          requests_per_minute: number
+          service_name: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Update: {
+          company_id?: string
+          requests_per_day?: number | null
+          requests_per_hour?: number
+          requests_per_minute?: number
+          service_name?: string
+          updated_at?: string
+          updated_by?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "company_integration_rate_limits_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      construyo_invoice_line_items: {
+        Row: {
+          category: string
+          cis_applicable: boolean
+          created_at: string
+          description: string
+          id: string
+          invoice_id: string
+          net_amount: number | null
+          position: number
+          quantity: number
+          unit: string | null
+          unit_price: number
+          updated_at: string
+          user_id: string
+          vat_amount: number | null
+          vat_rate: number
+        }
+        Insert: {
+          category?: string
+          cis_applicable?: boolean
+          created_at?: string
+          description: string
+          id?: string
+          invoice_id: string
+          net_amount?: number | null
+          position?: number
+          quantity?: number
+          unit?: string | null
+          unit_price: number
+          updated_at?: string
+          user_id: string
+          vat_amount?: number | null
+          vat_rate?: number
+        }
+        Update: {
+          category?: string
+          cis_applicable?: boolean
+          created_at?: string
+          description?: string
+          id?: string
+          invoice_id?: string
+          net_amount?: number | null
+          position?: number
+          quantity?: number
+          unit?: string | null
+          unit_price?: number
+          updated_at?: string
+          user_id?: string
+          vat_amount?: number | null
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "construyo_invoice_line_items_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       construyo_invoices: {
         Row: {
           amount: number
+          amount_base: number | null
+          amount_credited: number
+          amount_paid: number
+          amount_refunded: number
+          balance_due: number | null
+          base_currency: string | null
+          cis_deduction: number
+          cis_rate: number
           created_at: string
           currency: string | null
           customer_email: string | null
           customer_name: string
+          discount_total: number
           due_date: string | null
+          dunning_paused_until: string | null
+          dunning_policy_id: string | null
+          dunning_status: string
+          exchange_rate: number | null
+          exchange_rate_date: string | null
+          exchange_rate_source: string | null
           id: string
           invoice_number: string
+          last_reminder_at: string | null
+          late_fee_amount: number
           lead_id: string | null
           notes: string | null
           paid_date: string | null
+          payment_token: string | null
+          payment_url: string | null
+          pdf_generated_at: string | null
+          pdf_path: string | null
           project_title: string
+          reminder_count: number
           sent_date: string | null
           status: string | null
           stripe_payment_intent_id: string | null
+          stripe_payment_link_id: string | null
+          subtotal: number | null
+          template_id: string | null
+          total_amount: number | null
           updated_at: string
           user_id: string
+          vat_total: number | null
         }
         Insert: {
           amount: number
+          amount_base?: never
+          amount_credited?: number
+          amount_paid?: number
+          amount_refunded?: number
+          balance_due?: number | null
+          base_currency?: string | null
+          cis_deduction?: number
+          cis_rate?: number
           created_at?: string
           currency?: string | null
           customer_email?: string | null
           customer_name: string
+          discount_total?: number
           due_date?: string | null
+          dunning_paused_until?: string | null
+          dunning_policy_id?: string | null
+          dunning_status?: string
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
+          exchange_rate_source?: string | null
           id?: string
           invoice_number: string
+          last_reminder_at?: string | null
+          late_fee_amount?: number
           lead_id?: string | null
           notes?: string | null
           paid_date?: string | null
+          payment_token?: string | null
+          payment_url?: string | null
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
           project_title: string
+          reminder_count?: number
           sent_date?: string | null
           status?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_payment_link_id?: string | null
+          subtotal?: number | null
+          template_id?: string | null
+          total_amount?: number | null
           updated_at?: string
           user_id: string
+          vat_total?: number | null
         }
         Update: {
           amount?: number
+          amount_base?: never
+          amount_credited?: number
+          amount_paid?: number
+          amount_refunded?: number
+          balance_due?: number | null
+          base_currency?: string | null
+          cis_deduction?: number
+          cis_rate?: number
           created_at?: string
           currency?: string | null
           customer_email?: string | null
           customer_name?: string
+          discount_total?: number
           due_date?: string | null
+          dunning_paused_until?: string | null
+          dunning_policy_id?: string | null
+          dunning_status?: string
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
+          exchange_rate_source?: string | null
           id?: string
           invoice_number?: string
+          last_reminder_at?: string | null
+          late_fee_amount?: number
           lead_id?: string | null
           notes?: string | null
           paid_date?: string | null
+          payment_token?: string | null
+          payment_url?: string | null
+          pdf_generated_at?: string | null
+          pdf_path?: string | null
           project_title?: string
+          reminder_count?: number
           sent_date?: string | null
           status?: string | null
           stripe_payment_intent_id?: string | null
+          stripe_payment_link_id?: string | null
+          subtotal?: number | null
+          template_id?: string | null
+          total_amount?: number | null
           updated_at?: string
           user_id?: string
+          vat_total?: number | null
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "construyo_invoices_dunning_policy_id_fkey"
+            columns: ["dunning_policy_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "construyo_invoices_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_templates"
+            referencedColumns: ["id"]
+          },
+        ]
       }
       construyo_reviews: {
         Row: {
@@ -872,14 +1299,19 @@ export type Database = {
           client_notified_at: string | null
           client_response: Json | null
           created_at: string
+          customer_email: string | null
           discount_amount: number
+          discount_code_id: string | null
           discount_rule_id: string
           final_amount: number
           id: string
-          invoice_id: string
+          invoice_id: string | null
           notification_channel: string | null
           notification_status: string | null
           original_amount: number
+          quote_request_id: string | null
+          redemption_channel: string
+          stack_position: number
           user_id: string
         }
         Insert: {
@@ -887,14 +1319,19 @@ export type Database = {
           client_notified_at?: string | null
           client_response?: Json | null
           created_at?: string
+          customer_email?: string | null
           discount_amount: number
+          discount_code_id?: string | null
           discount_rule_id: string
           final_amount: number
           id?: string
-          invoice_id: string
+          invoice_id?: string | null
           notification_channel?: string | null
           notification_status?: string | null
           original_amount: number
+          quote_request_id?: string | null
+          redemption_channel?: string
+          stack_position?: number
           user_id: string
         }
         Update: {
@@ -902,17 +1339,36 @@ export type Database = {
           client_notified_at?: string | null
           client_response?: Json | null
           created_at?: string
+          customer_email?: string | null
           discount_amount?: number
+          discount_code_id?: string | null
           discount_rule_id?: string
           final_amount?: number
           id?: string
-          invoice_id?: string
+          invoice_id?: string | null
           notification_channel?: string | null
           notification_status?: string | null
           original_amount?: number
+          quote_request_id?: string | null
+          redemption_channel?: string
+          stack_position?: number
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "discount_applications_discount_code_id_fkey"
+            columns: ["discount_code_id"]
+            isOneToOne: false
+            referencedRelation: "discount_codes"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "discount_applications_quote_request_id_fkey"
+            columns: ["quote_request_id"]
+            isOneToOne: false
+            referencedRelation: "quote_requests"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "discount_applications_discount_rule_id_fkey"
             columns: ["discount_rule_id"]
@@ -922,6 +1378,95 @@ export type Database = {
           },
         ]
       }
+      discount_code_attempts: {
+        Row: {
+          attempted_code: string
+          created_at: string
+          id: string
+          ip_address: string
+          succeeded: boolean
+          target: string
+          user_id: string | null
+        }
+        Insert: {
+          attempted_code: string
+          created_at?: string
+          id?: string
+          ip_address: string
+          succeeded?: boolean
+          target: string
+          user_id?: string | null
+        }
+        Update: {
+          attempted_code?: string
+          created_at?: string
+          id?: string
+          ip_address?: string
+          succeeded?: boolean
+          target?: string
+          user_id?: string | null
+        }
+        Relationships: []
+      }
+      discount_codes: {
+        Row: {
+          channels: string[]
+          code: string
+          created_at: string
+          description: string | null
+          discount_rule_id: string
+          expires_at: string | null
+          id: string
+          is_active: boolean
+          max_redemptions: number | null
+          max_redemptions_per_customer: number | null
+          redemption_count: number
+          starts_at: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          channels?: string[]
+          code: string
+          created_at?: string
+          description?: string | null
+          discount_rule_id: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          max_redemptions_per_customer?: number | null
+          redemption_count?: number
+          starts_at?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          channels?: string[]
+          code?: string
+          created_at?: string
+          description?: string | null
+          discount_rule_id?: string
+          expires_at?: string | null
+          id?: string
+          is_active?: boolean
+          max_redemptions?: number | null
+          max_redemptions_per_customer?: number | null
+          redemption_count?: number
+          starts_at?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "discount_codes_discount_rule_id_fkey"
+            columns: ["discount_rule_id"]
+            isOneToOne: false
+            referencedRelation: "discount_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       discount_rules: {
         Row: {
           conditions: Json
@@ -930,9 +1475,12 @@ export type Database = {
           discount_value: number
           id: string
           is_active: boolean
+          is_exclusive: boolean
           max_usage: number | null
+          priority: number
           rule_name: string
           rule_type: string
+          stacking_group: string | null
           updated_at: string
           usage_count: number | null
           user_id: string
@@ -946,9 +1494,12 @@ export type Database = {
           discount_value: number
           id?: string
           is_active?: boolean
+          is_exclusive?: boolean
           max_usage?: number | null
+          priority?: number
           rule_name: string
           rule_type: string
+          stacking_group?: string | null
           updated_at?: string
           usage_count?: number | null
           user_id: string
@@ -962,9 +1513,12 @@ export type Database = {
           discount_value?: number
           id?: string
           is_active?: boolean
+          is_exclusive?: boolean
           max_usage?: number | null
+          priority?: number
           rule_name?: string
           rule_type?: string
+          stacking_group?: string | null
           updated_at?: string
           usage_count?: number | null
           user_id?: string
@@ -973,39 +1527,194 @@ export type Database = {
         }
         Relationships: []
       }
-      external_crm_settings: {
+      dunning_policies: {
         Row: {
-          auto_sync: boolean
           created_at: string
-          external_crm: string
-          field_mappings: Json
           id: string
           is_active: boolean
-          sync_enabled: boolean
+          is_default: boolean
+          late_fee_grace_days: number
+          late_fee_type: string
+          late_fee_value: number
+          name: string
+          reminder_steps: Json
+          templates: Json
           updated_at: string
           user_id: string
-          zapier_webhook: string
         }
         Insert: {
-          auto_sync?: boolean
           created_at?: string
-          external_crm: string
-          field_mappings?: Json
           id?: string
           is_active?: boolean
-          sync_enabled?: boolean
+          is_default?: boolean
+          late_fee_grace_days?: number
+          late_fee_type?: string
+          late_fee_value?: number
+          name: string
+          reminder_steps?: Json
+          templates?: Json
           updated_at?: string
           user_id: string
-          zapier_webhook: string
         }
         Update: {
-          auto_sync?: boolean
           created_at?: string
-          external_crm?: string
-          field_mappings?: Json
           id?: string
           is_active?: boolean
-          sync_enabled?: boolean
+          is_default?: boolean
+          late_fee_grace_days?: number
+          late_fee_type?: string
+          late_fee_value?: number
+          name?: string
+          reminder_steps?: Json
+          templates?: Json
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      endpoint_rate_limits: {
+        Row: {
+          day_count: number
+          day_window_start: string
+          endpoint: string
+          hour_count: number
+          hour_window_start: string
+          last_refill_at: string
+          scope_id: string
+          tokens: number
+        }
+        Insert: {
+          day_count?: number
+          day_window_start?: string
+          endpoint: string
+          hour_count?: number
+          hour_window_start?: string
+          last_refill_at?: string
+          scope_id: string
+          tokens: number
+        }
+        Update: {
+          day_count?: number
+          day_window_start?: string
+          endpoint?: string
+          hour_count?: number
+          hour_window_start?: string
+          last_refill_at?: string
+          scope_id?: string
+          tokens?: number
+        }
+        Relationships: []
+      }
+      exchange_rate_overrides: {
+        Row: {
+          base_currency: string
+          company_id: string
+          created_at: string
+          created_by: string | null
+          currency: string
+          effective_from: string
+          id: string
+          note: string | null
+          rate: number
+          updated_at: string
+        }
+        Insert: {
+          base_currency: string
+          company_id: string
+          created_at?: string
+          created_by?: string | null
+          currency: string
+          effective_from?: string
+          id?: string
+          note?: string | null
+          rate: number
+          updated_at?: string
+        }
+        Update: {
+          base_currency?: string
+          company_id?: string
+          created_at?: string
+          created_by?: string | null
+          currency?: string
+          effective_from?: string
+          id?: string
+          note?: string | null
+          rate?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rate_overrides_company_id_fkey"
+            columns: ["company_id"]
+            isOneToOne: false
+            referencedRelation: "companies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          currency: string
+          id: string
+          rate: number
+          rate_date: string
+          source: string
+        }
+        Insert: {
+          base_currency?: string
+          created_at?: string
+          currency: string
+          id?: string
+          rate: number
+          rate_date: string
+          source?: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          currency?: string
+          id?: string
+          rate?: number
+          rate_date?: string
+          source?: string
+        }
+        Relationships: []
+      }
+      external_crm_settings: {
+        Row: {
+          auto_sync: boolean
+          created_at: string
+          external_crm: string
+          field_mappings: Json
+          id: string
+          is_active: boolean
+          sync_enabled: boolean
+          updated_at: string
+          user_id: string
+          zapier_webhook: string
+        }
+        Insert: {
+          auto_sync?: boolean
+          created_at?: string
+          external_crm: string
+          field_mappings?: Json
+          id?: string
+          is_active?: boolean
+          sync_enabled?: boolean
+          updated_at?: string
+          user_id: string
+          zapier_webhook: string
+        }
+        Update: {
+          auto_sync?: boolean
+          created_at?: string
+          external_crm?: string
+          field_mappings?: Json
+          id?: string
+          is_active?: boolean
+          sync_enabled?: boolean
           updated_at?: string
           user_id?: string
           zapier_webhook?: string
@@ -1512,25 +2221,94 @@ export type Database = {
           encrypted_config: Json
           id: string
           is_active: boolean
+          rate_limits: Json | null
           service_name: string
+          settings: Json
           updated_at: string
           user_id: string
+          version: number
         }
         Insert: {
           created_at?: string
           encrypted_config?: Json
           id?: string
           is_active?: boolean
+          rate_limits?: Json | null
           service_name: string
+          settings?: Json
           updated_at?: string
           user_id: string
+          version?: number
         }
         Update: {
           created_at?: string
           encrypted_config?: Json
           id?: string
           is_active?: boolean
+          rate_limits?: Json | null
+          service_name?: string
+          settings?: Json
+          updated_at?: string
+          user_id?: string
+          version?: number
+        }
+        Relationships: []
+      }
+      integration_jobs: {
+        Row: {
+          action: string
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          metadata: Json
+          next_run_at: string
+          payload: Json
+          result: Json | null
+          service_name: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          action: string
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          metadata?: Json
+          next_run_at?: string
+          payload?: Json
+          result?: Json | null
+          service_name: string
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          action?: string
+          attempts?: number
+          completed_at?: string | null
+          created_at?: string
+          id?: string
+          idempotency_key?: string
+          last_error?: string | null
+          locked_at?: string | null
+          max_attempts?: number
+          metadata?: Json
+          next_run_at?: string
+          payload?: Json
+          result?: Json | null
           service_name?: string
+          status?: string
           updated_at?: string
           user_id?: string
         }
@@ -1574,12 +2352,212 @@ export type Database = {
           },
         ]
       }
+      invoice_payments: {
+        Row: {
+          accounting_job_id: string | null
+          accounting_provider: string | null
+          accounting_synced_at: string | null
+          amount: number
+          created_at: string
+          credit_note_number: string | null
+          currency: string | null
+          entry_type: string
+          error_message: string | null
+          id: string
+          invoice_id: string
+          method: string
+          reason: string | null
+          recorded_at: string
+          reference: string | null
+          status: string
+          stripe_charge_id: string | null
+          stripe_payment_intent_id: string | null
+          stripe_refund_id: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accounting_job_id?: string | null
+          accounting_provider?: string | null
+          accounting_synced_at?: string | null
+          amount: number
+          created_at?: string
+          credit_note_number?: string | null
+          currency?: string | null
+          entry_type: string
+          error_message?: string | null
+          id?: string
+          invoice_id: string
+          method?: string
+          reason?: string | null
+          recorded_at?: string
+          reference?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_refund_id?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accounting_job_id?: string | null
+          accounting_provider?: string | null
+          accounting_synced_at?: string | null
+          amount?: number
+          created_at?: string
+          credit_note_number?: string | null
+          currency?: string | null
+          entry_type?: string
+          error_message?: string | null
+          id?: string
+          invoice_id?: string
+          method?: string
+          reason?: string | null
+          recorded_at?: string
+          reference?: string | null
+          status?: string
+          stripe_charge_id?: string | null
+          stripe_payment_intent_id?: string | null
+          stripe_refund_id?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_payments_accounting_job_id_fkey"
+            columns: ["accounting_job_id"]
+            isOneToOne: false
+            referencedRelation: "integration_jobs"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_payments_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_reminders: {
+        Row: {
+          channel: string
+          created_at: string
+          error_message: string | null
+          id: string
+          invoice_id: string
+          late_fee_amount: number
+          message_delivery_log_ids: string[]
+          offset_days: number
+          policy_id: string | null
+          status: string
+          step_index: number
+          tone: string
+          user_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          invoice_id: string
+          late_fee_amount?: number
+          message_delivery_log_ids?: string[]
+          offset_days: number
+          policy_id?: string | null
+          status: string
+          step_index: number
+          tone: string
+          user_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          invoice_id?: string
+          late_fee_amount?: number
+          message_delivery_log_ids?: string[]
+          offset_days?: number
+          policy_id?: string | null
+          status?: string
+          step_index?: number
+          tone?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_reminders_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoice_reminders_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "dunning_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_templates: {
+        Row: {
+          accent_color: string
+          created_at: string
+          footer_text: string | null
+          id: string
+          is_default: boolean
+          layout: string
+          logo_url: string | null
+          name: string
+          payment_terms: string | null
+          show_line_categories: boolean
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          accent_color?: string
+          created_at?: string
+          footer_text?: string | null
+          id?: string
+          is_default?: boolean
+          layout?: string
+          logo_url?: string | null
+          name: string
+          payment_terms?: string | null
+          show_line_categories?: boolean
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          accent_color?: string
+          created_at?: string
+          footer_text?: string | null
+          id?: string
+          is_default?: boolean
+          layout?: string
+          logo_url?: string | null
+          name?: string
+          payment_terms?: string | null
+          show_line_categories?: boolean
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       invoices: {
         Row: {
           amount: number
+          amount_base: number | null
+          base_currency: string | null
           company_id: string | null
           created_at: string | null
           currency: string | null
+          exchange_rate: number | null
+          exchange_rate_date: string | null
+          exchange_rate_source: string | null
           id: string
           project_id: string | null
           status: string | null
@@ -1587,9 +2565,14 @@ export type Database = {
         }
         Insert: {
           amount: number
+          amount_base?: never
+          base_currency?: string | null
           company_id?: string | null
           created_at?: string | null
           currency?: string | null
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
+          exchange_rate_source?: string | null
           id?: string
           project_id?: string | null
           status?: string | null
@@ -1597,9 +2580,14 @@ export type Database = {
         }
         Update: {
           amount?: number
+          amount_base?: never
+          base_currency?: string | null
           company_id?: string | null
           created_at?: string | null
           currency?: string | null
+          exchange_rate?: number | null
+          exchange_rate_date?: string | null
+          exchange_rate_source?: string | null
           id?: string
           project_id?: string | null
           status?: string | null
@@ -1986,35 +2974,255 @@ export type Database = {
         }
         Relationships: []
       }
-      leads: {
+      lead_duplicate_settings: {
         Row: {
-          address: string | null
-          archived_at: string | null
-          assigned_to: string | null
-          city: string | null
-          company_id: string
-          conversion_notes: string | null
-          converted_at: string | null
-          converted_to_customer_id: string | null
-          country: string | null
-          created_at: string | null
-          created_by: string
-          email: string | null
-          estimated_budget_max: number | null
-          estimated_budget_min: number | null
-          estimated_timeline: string | null
-          first_name: string
+          auto_attach_min_confidence: number
+          channel_actions: Json
+          created_at: string
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          auto_attach_min_confidence?: number
+          channel_actions?: Json
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          auto_attach_min_confidence?: number
+          channel_actions?: Json
+          created_at?: string
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      lead_duplicates: {
+        Row: {
+          confidence: number
+          created_at: string
+          duplicate_of_id: string
+          id: string
+          lead_id: string
+          match_reasons: string[]
+          resolved_at: string | null
+          status: string
+          user_id: string
+        }
+        Insert: {
+          confidence: number
+          created_at?: string
+          duplicate_of_id: string
+          id?: string
+          lead_id: string
+          match_reasons?: string[]
+          resolved_at?: string | null
+          status?: string
+          user_id: string
+        }
+        Update: {
+          confidence?: number
+          created_at?: string
+          duplicate_of_id?: string
+          id?: string
+          lead_id?: string
+          match_reasons?: string[]
+          resolved_at?: string | null
+          status?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_duplicates_duplicate_of_id_fkey"
+            columns: ["duplicate_of_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "lead_duplicates_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_score_queue: {
+        Row: {
+          lead_id: string
+          queued_at: string
+          reason: string
+        }
+        Insert: {
+          lead_id: string
+          queued_at?: string
+          reason: string
+        }
+        Update: {
+          lead_id?: string
+          queued_at?: string
+          reason?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_score_queue_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: true
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      lead_scoring_settings: {
+        Row: {
+          auto_priority: boolean
+          base_latitude: number | null
+          base_longitude: number | null
+          base_postcode: string | null
+          budget_target: number
+          created_at: string
+          engagement_points: Json
+          high_threshold: number
+          id: string
+          lead_source_scores: Json
+          max_distance_km: number
+          medium_threshold: number
+          project_type_scores: Json
+          recency_half_life_days: number
+          updated_at: string
+          user_id: string
+          weights: Json
+        }
+        Insert: {
+          auto_priority?: boolean
+          base_latitude?: number | null
+          base_longitude?: number | null
+          base_postcode?: string | null
+          budget_target?: number
+          created_at?: string
+          engagement_points?: Json
+          high_threshold?: number
+          id?: string
+          lead_source_scores?: Json
+          max_distance_km?: number
+          medium_threshold?: number
+          project_type_scores?: Json
+          recency_half_life_days?: number
+          updated_at?: string
+          user_id?: string
+          weights?: Json
+        }
+        Update: {
+          auto_priority?: boolean
+          base_latitude?: number | null
+          base_longitude?: number | null
+          base_postcode?: string | null
+          budget_target?: number
+          created_at?: string
+          engagement_points?: Json
+          high_threshold?: number
+          id?: string
+          lead_source_scores?: Json
+          max_distance_km?: number
+          medium_threshold?: number
+          project_type_scores?: Json
+          recency_half_life_days?: number
+          updated_at?: string
+          user_id?: string
+          weights?: Json
+        }
+        Relationships: []
+      }
+      lead_stage_transitions: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["lead_status"] | null
+          id: string
+          lead_id: string
+          lost_reason: string | null
+          to_status: Database["public"]["Enums"]["lead_status"]
+          user_id: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["lead_status"] | null
+          id?: string
+          lead_id: string
+          lost_reason?: string | null
+          to_status: Database["public"]["Enums"]["lead_status"]
+          user_id: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["lead_status"] | null
+          id?: string
+          lead_id?: string
+          lost_reason?: string | null
+          to_status?: Database["public"]["Enums"]["lead_status"]
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "lead_stage_transitions_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      leads: {
+        Row: {
+          address: string | null
+          archived_at: string | null
+          assigned_to: string | null
+          city: string | null
+          company_id: string
+          conversion_notes: string | null
+          converted_at: string | null
+          converted_to_customer_id: string | null
+          country: string | null
+          created_at: string | null
+          created_by: string
+          email: string | null
+          email_normalized: string | null
+          estimated_budget_max: number | null
+          estimated_budget_min: number | null
+          estimated_timeline: string | null
+          first_name: string
+          first_name_key: string | null
+          geocoded_postcode: string | null
           id: string
           last_contact_date: string | null
           last_name: string
+          last_name_key: string | null
+          latitude: number | null
           lead_source: string | null
+          longitude: number | null
+          lost_reason: string | null
+          merged_into_id: string | null
           next_follow_up: string | null
           notes: string | null
           phone: string | null
+          phone_e164: string | null
           postal_code: string | null
+          postcode_key: string | null
           priority: string | null
           project_description: string | null
+          project_measurements: Json
           project_type: string | null
+          score: number | null
+          score_breakdown: Json
+          scored_at: string | null
+          stage_entered_at: string
           status: Database["public"]["Enums"]["lead_status"] | null
           tags: string[] | null
           updated_at: string | null
@@ -2032,21 +3240,36 @@ export type Database = {
           created_at?: string | null
           created_by: string
           email?: string | null
+          email_normalized?: never
           estimated_budget_max?: number | null
           estimated_budget_min?: number | null
           estimated_timeline?: string | null
           first_name: string
+          first_name_key?: never
+          geocoded_postcode?: string | null
           id?: string
           last_contact_date?: string | null
           last_name: string
+          last_name_key?: never
+          latitude?: number | null
           lead_source?: string | null
+          longitude?: number | null
+          lost_reason?: string | null
+          merged_into_id?: string | null
           next_follow_up?: string | null
           notes?: string | null
           phone?: string | null
+          phone_e164?: never
           postal_code?: string | null
+          postcode_key?: never
           priority?: string | null
           project_description?: string | null
+          project_measurements?: Json
           project_type?: string | null
+          score?: number | null
+          score_breakdown?: Json
+          scored_at?: string | null
+          stage_entered_at?: string
           status?: Database["public"]["Enums"]["lead_status"] | null
           tags?: string[] | null
           updated_at?: string | null
@@ -2064,26 +3287,48 @@ export type Database = {
           created_at?: string | null
           created_by?: string
           email?: string | null
+          email_normalized?: never
           estimated_budget_max?: number | null
           estimated_budget_min?: number | null
           estimated_timeline?: string | null
           first_name?: string
+          first_name_key?: never
+          geocoded_postcode?: string | null
           id?: string
           last_contact_date?: string | null
           last_name?: string
+          last_name_key?: never
+          latitude?: number | null
           lead_source?: string | null
+          longitude?: number | null
+          lost_reason?: string | null
+          merged_into_id?: string | null
           next_follow_up?: string | null
           notes?: string | null
           phone?: string | null
+          phone_e164?: never
           postal_code?: string | null
+          postcode_key?: never
           priority?: string | null
           project_description?: string | null
+          project_measurements?: Json
           project_type?: string | null
+          score?: number | null
+          score_breakdown?: Json
+          scored_at?: string | null
+          stage_entered_at?: string
           status?: Database["public"]["Enums"]["lead_status"] | null
           tags?: string[] | null
           updated_at?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "leads_merged_into_id_fkey"
+            columns: ["merged_into_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "fk_leads_converted_customer"
             columns: ["converted_to_customer_id"]
@@ -2150,16 +3395,20 @@ export type Database = {
           created_at: string
           delivered_at: string | null
           delivery_status: string
+          enrollment_id: string | null
           error_message: string | null
           external_message_id: string | null
+          fallback_from: string | null
           id: string
           lead_id: string | null
           message_content: string
           message_type: string
+          opened_at: string | null
           recipient_email: string | null
           recipient_phone: string | null
           retry_count: number | null
           sent_at: string | null
+          sequence_step_id: string | null
           template_id: string | null
           updated_at: string
           user_id: string
@@ -2171,16 +3420,20 @@ export type Database = {
           created_at?: string
           delivered_at?: string | null
           delivery_status?: string
+          enrollment_id?: string | null
           error_message?: string | null
           external_message_id?: string | null
+          fallback_from?: string | null
           id?: string
           lead_id?: string | null
           message_content: string
           message_type: string
+          opened_at?: string | null
           recipient_email?: string | null
           recipient_phone?: string | null
           retry_count?: number | null
           sent_at?: string | null
+          sequence_step_id?: string | null
           template_id?: string | null
           updated_at?: string
           user_id: string
@@ -2192,21 +3445,39 @@ export type Database = {
           created_at?: string
           delivered_at?: string | null
           delivery_status?: string
+          enrollment_id?: string | null
           error_message?: string | null
           external_message_id?: string | null
+          fallback_from?: string | null
           id?: string
           lead_id?: string | null
           message_content?: string
           message_type?: string
+          opened_at?: string | null
           recipient_email?: string | null
           recipient_phone?: string | null
           retry_count?: number | null
           sent_at?: string | null
+          sequence_step_id?: string | null
           template_id?: string | null
           updated_at?: string
           user_id?: string
         }
         Relationships: [
+          {
+            foreignKeyName: "message_delivery_logs_enrollment_id_fkey"
+            columns: ["enrollment_id"]
+            isOneToOne: false
+            referencedRelation: "message_sequence_enrollments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_delivery_logs_sequence_step_id_fkey"
+            columns: ["sequence_step_id"]
+            isOneToOne: false
+            referencedRelation: "message_sequence_steps"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "message_delivery_logs_template_id_fkey"
             columns: ["template_id"]
@@ -2216,6 +3487,170 @@ export type Database = {
           },
         ]
       }
+      message_sequence_enrollments: {
+        Row: {
+          completed_at: string | null
+          created_at: string
+          current_step: number
+          enrolled_at: string
+          exit_reason: string | null
+          exited_at: string | null
+          id: string
+          last_sent_at: string | null
+          lead_id: string
+          next_run_at: string | null
+          sequence_id: string
+          status: string
+          trigger_type: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          completed_at?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_at?: string
+          exit_reason?: string | null
+          exited_at?: string | null
+          id?: string
+          last_sent_at?: string | null
+          lead_id: string
+          next_run_at?: string | null
+          sequence_id: string
+          status?: string
+          trigger_type?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          completed_at?: string | null
+          created_at?: string
+          current_step?: number
+          enrolled_at?: string
+          exit_reason?: string | null
+          exited_at?: string | null
+          id?: string
+          last_sent_at?: string | null
+          lead_id?: string
+          next_run_at?: string | null
+          sequence_id?: string
+          status?: string
+          trigger_type?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_sequence_enrollments_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_sequence_enrollments_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "message_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_sequence_steps: {
+        Row: {
+          calendly_link_template: string | null
+          channel: string
+          created_at: string
+          delay_minutes: number
+          fallback_channel: string | null
+          id: string
+          message_template: string
+          sequence_id: string
+          step_order: number
+          subject_template: string | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          calendly_link_template?: string | null
+          channel: string
+          created_at?: string
+          delay_minutes?: number
+          fallback_channel?: string | null
+          id?: string
+          message_template: string
+          sequence_id: string
+          step_order: number
+          subject_template?: string | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          calendly_link_template?: string | null
+          channel?: string
+          created_at?: string
+          delay_minutes?: number
+          fallback_channel?: string | null
+          id?: string
+          message_template?: string
+          sequence_id?: string
+          step_order?: number
+          subject_template?: string | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_sequence_steps_sequence_id_fkey"
+            columns: ["sequence_id"]
+            isOneToOne: false
+            referencedRelation: "message_sequences"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_sequences: {
+        Row: {
+          conditions: Json
+          created_at: string
+          description: string | null
+          exit_on_booking: boolean
+          exit_on_status_change: boolean
+          id: string
+          is_active: boolean
+          name: string
+          trigger_on: string[]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          conditions?: Json
+          created_at?: string
+          description?: string | null
+          exit_on_booking?: boolean
+          exit_on_status_change?: boolean
+          id?: string
+          is_active?: boolean
+          name: string
+          trigger_on?: string[]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          conditions?: Json
+          created_at?: string
+          description?: string | null
+          exit_on_booking?: boolean
+          exit_on_status_change?: boolean
+          id?: string
+          is_active?: boolean
+          name?: string
+          trigger_on?: string[]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       message_templates: {
         Row: {
           calendly_link_template: string | null
@@ -2265,6 +3700,7 @@ export type Database = {
           event_type: string
           id: string
           ip_address: unknown | null
+          lead_id: string | null
           microsite_id: string
           user_agent: string | null
         }
@@ -2274,6 +3710,7 @@ export type Database = {
           event_type: string
           id?: string
           ip_address?: unknown | null
+          lead_id?: string | null
           microsite_id: string
           user_agent?: string | null
         }
@@ -2283,10 +3720,18 @@ export type Database = {
           event_type?: string
           id?: string
           ip_address?: unknown | null
+          lead_id?: string | null
           microsite_id?: string
           user_agent?: string | null
         }
         Relationships: [
+          {
+            foreignKeyName: "microsite_analytics_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "microsite_analytics_microsite_id_fkey"
             columns: ["microsite_id"]
@@ -2353,6 +3798,8 @@ export type Database = {
       payment_provider_settings: {
         Row: {
           created_at: string | null
+          credentials_key_id: string | null
+          credentials_updated_at: string | null
           encrypted_credentials: string | null
           id: string
           is_active: boolean | null
@@ -2360,11 +3807,14 @@ export type Database = {
           sync_enabled: boolean | null
           updated_at: string | null
           user_id: string
+          webhook_signing_secret: string | null
           webhook_url: string | null
           zapier_webhook: string | null
         }
         Insert: {
           created_at?: string | null
+          credentials_key_id?: string | null
+          credentials_updated_at?: string | null
           encrypted_credentials?: string | null
           id?: string
           is_active?: boolean | null
@@ -2372,11 +3822,14 @@ export type Database = {
           sync_enabled?: boolean | null
           updated_at?: string | null
           user_id: string
+          webhook_signing_secret?: string | null
           webhook_url?: string | null
           zapier_webhook?: string | null
         }
         Update: {
           created_at?: string | null
+          credentials_key_id?: string | null
+          credentials_updated_at?: string | null
           encrypted_credentials?: string | null
           id?: string
           is_active?: boolean | null
@@ -2384,11 +3837,149 @@ export type Database = {
           sync_enabled?: boolean | null
           updated_at?: string | null
           user_id?: string
+          webhook_signing_secret?: string | null
           webhook_url?: string | null
           zapier_webhook?: string | null
         }
         Relationships: []
       }
+      payment_schedule_stages: {
+        Row: {
+          amount_type: string
+          created_at: string
+          due_date: string | null
+          fixed_amount: number | null
+          id: string
+          invoice_id: string | null
+          name: string
+          percentage: number | null
+          position: number
+          retention_amount: number
+          schedule_id: string
+          stage_type: string
+          stage_value: number
+          status: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount_type?: string
+          created_at?: string
+          due_date?: string | null
+          fixed_amount?: number | null
+          id?: string
+          invoice_id?: string | null
+          name: string
+          percentage?: number | null
+          position?: number
+          retention_amount?: number
+          schedule_id: string
+          stage_type?: string
+          stage_value: number
+          status?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount_type?: string
+          created_at?: string
+          due_date?: string | null
+          fixed_amount?: number | null
+          id?: string
+          invoice_id?: string | null
+          name?: string
+          percentage?: number | null
+          position?: number
+          retention_amount?: number
+          schedule_id?: string
+          stage_type?: string
+          stage_value?: number
+          status?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_schedule_stages_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payment_schedule_stages_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "payment_schedules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_schedules: {
+        Row: {
+          cis_rate: number
+          contract_value: number
+          created_at: string
+          currency: string
+          defect_period_days: number
+          id: string
+          invoiced_amount: number
+          lead_id: string
+          name: string
+          paid_amount: number
+          retention_percentage: number
+          retention_release_date: string | null
+          status: string
+          updated_at: string
+          user_id: string
+          vat_rate: number
+        }
+        Insert: {
+          cis_rate?: number
+          contract_value: number
+          created_at?: string
+          currency?: string
+          defect_period_days?: number
+          id?: string
+          invoiced_amount?: number
+          lead_id: string
+          name: string
+          paid_amount?: number
+          retention_percentage?: number
+          retention_release_date?: string | null
+          status?: string
+          updated_at?: string
+          user_id: string
+          vat_rate?: number
+        }
+        Update: {
+          cis_rate?: number
+          contract_value?: number
+          created_at?: string
+          currency?: string
+          defect_period_days?: number
+          id?: string
+          invoiced_amount?: number
+          lead_id?: string
+          name?: string
+          paid_amount?: number
+          retention_percentage?: number
+          retention_release_date?: string | null
+          status?: string
+          updated_at?: string
+          user_id?: string
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_schedules_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       payments: {
         Row: {
           amount: number
@@ -2520,39 +4111,81 @@ export type Database = {
         }
         Relationships: []
       }
+      pricing_regional_multipliers: {
+        Row: {
+          created_at: string
+          id: string
+          label: string | null
+          multiplier: number
+          postcode_prefix: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          multiplier: number
+          postcode_prefix: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          label?: string | null
+          multiplier?: number
+          postcode_prefix?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
       pricing_rules: {
         Row: {
           base_price: number
+          complexity_multipliers: Json
           created_at: string | null
           currency: string | null
           id: string
           is_active: boolean | null
+          material_markup_percentage: number
+          minimum_charge: number
           price_per_unit: number | null
           project_type: string
+          tiers: Json
           unit_type: string | null
           updated_at: string | null
           user_id: string
         }
         Insert: {
           base_price: number
+          complexity_multipliers?: Json
           created_at?: string | null
           currency?: string | null
           id?: string
           is_active?: boolean | null
+          material_markup_percentage?: number
+          minimum_charge?: number
           price_per_unit?: number | null
           project_type: string
+          tiers?: Json
           unit_type?: string | null
           updated_at?: string | null
           user_id: string
         }
         Update: {
           base_price?: number
+          complexity_multipliers?: Json
           created_at?: string | null
           currency?: string | null
           id?: string
           is_active?: boolean | null
+          material_markup_percentage?: number
+          minimum_charge?: number
           price_per_unit?: number | null
           project_type?: string
+          tiers?: Json
           unit_type?: string | null
           updated_at?: string | null
           user_id?: string
@@ -2810,6 +4443,7 @@ export type Database = {
           microsite_id: string | null
           preferred_timeline: string | null
           project_description: string | null
+          project_measurements: Json
           quote_amount: number | null
           quote_notes: string | null
           source_url: string | null
@@ -2831,6 +4465,7 @@ export type Database = {
           microsite_id?: string | null
           preferred_timeline?: string | null
           project_description?: string | null
+          project_measurements?: Json
           quote_amount?: number | null
           quote_notes?: string | null
           source_url?: string | null
@@ -2852,6 +4487,7 @@ export type Database = {
           microsite_id?: string | null
           preferred_timeline?: string | null
           project_description?: string | null
+          project_measurements?: Json
           quote_amount?: number | null
           quote_notes?: string | null
           source_url?: string | null
@@ -2883,6 +4519,205 @@ export type Database = {
           },
         ]
       }
+      quote_revisions: {
+        Row: {
+          cis_rate: number
+          created_at: string
+          deposit_amount: number
+          deposit_percentage: number
+          id: string
+          line_items: Json
+          notes: string | null
+          quote_id: string
+          revision_number: number
+          sent_at: string | null
+          subtotal: number
+          terms: string | null
+          total_amount: number
+          updated_at: string
+          user_id: string
+          valid_until: string | null
+          vat_total: number
+        }
+        Insert: {
+          cis_rate?: number
+          created_at?: string
+          deposit_amount?: never
+          deposit_percentage?: number
+          id?: string
+          line_items?: Json
+          notes?: string | null
+          quote_id: string
+          revision_number: number
+          sent_at?: string | null
+          subtotal?: number
+          terms?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id: string
+          valid_until?: string | null
+          vat_total?: number
+        }
+        Update: {
+          cis_rate?: number
+          created_at?: string
+          deposit_amount?: never
+          deposit_percentage?: number
+          id?: string
+          line_items?: Json
+          notes?: string | null
+          quote_id?: string
+          revision_number?: number
+          sent_at?: string | null
+          subtotal?: number
+          terms?: string | null
+          total_amount?: number
+          updated_at?: string
+          user_id?: string
+          valid_until?: string | null
+          vat_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quote_revisions_quote_id_fkey"
+            columns: ["quote_id"]
+            isOneToOne: false
+            referencedRelation: "quotes"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      quotes: {
+        Row: {
+          accepted_at: string | null
+          accepted_revision: number | null
+          conversion_error: string | null
+          converted_at: string | null
+          created_at: string
+          currency: string
+          current_revision: number
+          customer_email: string
+          customer_name: string
+          customer_phone: string | null
+          decline_reason: string | null
+          declined_at: string | null
+          deposit_invoice_id: string | null
+          id: string
+          lead_id: string | null
+          project_id: string | null
+          public_token: string
+          quote_number: string
+          quote_request_id: string | null
+          sent_at: string | null
+          sent_revision: number | null
+          signature_image: string | null
+          signer_ip: string | null
+          signer_name: string | null
+          signer_user_agent: string | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+          valid_until: string | null
+          viewed_at: string | null
+        }
+        Insert: {
+          accepted_at?: string | null
+          accepted_revision?: number | null
+          conversion_error?: string | null
+          converted_at?: string | null
+          created_at?: string
+          currency?: string
+          current_revision?: number
+          customer_email: string
+          customer_name: string
+          customer_phone?: string | null
+          decline_reason?: string | null
+          declined_at?: string | null
+          deposit_invoice_id?: string | null
+          id?: string
+          lead_id?: string | null
+          project_id?: string | null
+          public_token?: string
+          quote_number?: string
+          quote_request_id?: string | null
+          sent_at?: string | null
+          sent_revision?: number | null
+          signature_image?: string | null
+          signer_ip?: string | null
+          signer_name?: string | null
+          signer_user_agent?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          user_id: string
+          valid_until?: string | null
+          viewed_at?: string | null
+        }
+        Update: {
+          accepted_at?: string | null
+          accepted_revision?: number | null
+          conversion_error?: string | null
+          converted_at?: string | null
+          created_at?: string
+          currency?: string
+          current_revision?: number
+          customer_email?: string
+          customer_name?: string
+          customer_phone?: string | null
+          decline_reason?: string | null
+          declined_at?: string | null
+          deposit_invoice_id?: string | null
+          id?: string
+          lead_id?: string | null
+          project_id?: string | null
+          public_token?: string
+          quote_number?: string
+          quote_request_id?: string | null
+          sent_at?: string | null
+          sent_revision?: number | null
+          signature_image?: string | null
+          signer_ip?: string | null
+          signer_name?: string | null
+          signer_user_agent?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+          valid_until?: string | null
+          viewed_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "quotes_deposit_invoice_id_fkey"
+            columns: ["deposit_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_project_id_fkey"
+            columns: ["project_id"]
+            isOneToOne: false
+            referencedRelation: "projects"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "quotes_quote_request_id_fkey"
+            columns: ["quote_request_id"]
+            isOneToOne: false
+            referencedRelation: "quote_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       referral_clicks: {
         Row: {
           clicked_at: string
@@ -3321,6 +5156,72 @@ export type Database = {
         }
         Relationships: []
       }
+      stripe_webhook_events: {
+        Row: {
+          attempts: number
+          event_id: string
+          event_type: string
+          id: string
+          invoice_id: string | null
+          last_error: string | null
+          livemode: boolean
+          payload: Json
+          processed_at: string | null
+          provider_settings_id: string | null
+          received_at: string
+          status: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          attempts?: number
+          event_id: string
+          event_type: string
+          id?: string
+          invoice_id?: string | null
+          last_error?: string | null
+          livemode?: boolean
+          payload: Json
+          processed_at?: string | null
+          provider_settings_id?: string | null
+          received_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          attempts?: number
+          event_id?: string
+          event_type?: string
+          id?: string
+          invoice_id?: string | null
+          last_error?: string | null
+          livemode?: boolean
+          payload?: Json
+          processed_at?: string | null
+          provider_settings_id?: string | null
+          received_at?: string
+          status?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stripe_webhook_events_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stripe_webhook_events_provider_settings_id_fkey"
+            columns: ["provider_settings_id"]
+            isOneToOne: false
+            referencedRelation: "payment_provider_settings"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       submission_rate_limits: {
         Row: {
           blocked_until: string | null
@@ -3351,6 +5252,76 @@ export type Database = {
         }
         Relationships: []
       }
+      tasks: {
+        Row: {
+          assigned_to: string | null
+          automation_rule_id: string | null
+          completed_at: string | null
+          created_at: string
+          description: string | null
+          due_date: string | null
+          id: string
+          invoice_id: string | null
+          lead_id: string | null
+          status: string
+          title: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          automation_rule_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          lead_id?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+          user_id?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          automation_rule_id?: string | null
+          completed_at?: string | null
+          created_at?: string
+          description?: string | null
+          due_date?: string | null
+          id?: string
+          invoice_id?: string | null
+          lead_id?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tasks_automation_rule_id_fkey"
+            columns: ["automation_rule_id"]
+            isOneToOne: false
+            referencedRelation: "automation_rules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "construyo_invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "tasks_lead_id_fkey"
+            columns: ["lead_id"]
+            isOneToOne: false
+            referencedRelation: "leads"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       user_roles: {
         Row: {
           assigned_at: string | null
@@ -3645,35 +5616,185 @@ export type Database = {
         Args: { "": string }
         Returns: string
       }
+      attach_to_existing_lead: {
+        Args: { p_channel: string; p_contact: Json; p_user_id?: string }
+        Returns: string
+      }
       check_auth_rate_limit: {
         Args: { p_email?: string; p_ip_address: unknown }
         Returns: boolean
       }
-      check_endpoint_rate_limit: {
-        Args: {
-          p_endpoint: string
-          p_ip_address: unknown
-          p_max_requests?: number
-          p_window_minutes?: number
-        }
+      check_endpoint_rate_limit:
+        | {
+            Args: {
+              p_cost?: number
+              p_endpoint: string
+              p_requests_per_day?: number
+              p_requests_per_hour?: number
+              p_requests_per_minute: number
+              p_scope_id: string
+            }
+            Returns: {
+              allowed: boolean
+              remaining: number
+              reset_in: number
+            }[]
+          }
+        | {
+            Args: {
+              p_endpoint: string
+              p_ip_address: unknown
+              p_max_requests?: number
+              p_window_minutes?: number
+            }
+            Returns: boolean
+          }
+      claim_automation_events: {
+        Args: { p_limit?: number }
+        Returns: {
+          attempts: number
+          created_at: string
+          dedupe_key: string | null
+          entity_id: string
+          entity_type: string
+          event_type: string
+          id: string
+          last_error: string | null
+          locked_at: string | null
+          payload: Json
+          processed_at: string | null
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      claim_discount_rule_usage: {
+        Args: { p_rule_id: string }
         Returns: boolean
       }
+      claim_integration_jobs: {
+        Args: { p_job_id?: string; p_limit?: number }
+        Returns: {
+          action: string
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          metadata: Json
+          next_run_at: string
+          payload: Json
+          result: Json | null
+          service_name: string
+          status: string
+          updated_at: string
+          user_id: string
+        }[]
+      }
+      claim_lead_scores: {
+        Args: { p_limit?: number }
+        Returns: string[]
+      }
       cleanup_planning_cache: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      consume_integration_rate_limit: {
+        Args: {
+          p_cost?: number
+          p_service_name: string
+          p_user_id?: string
+        }
+        Returns: {
+          allowed: boolean
+          remaining: number
+          reset_in: number
+        }[]
+      }
       convert_lead_to_customer: {
         Args: { p_conversion_notes?: string; p_lead_id: string }
         Returns: string
       }
+      create_payment_schedule: {
+        Args: {
+          p_cis_rate?: number
+          p_contract_value: number
+          p_defect_period_days?: number
+          p_lead_id: string
+          p_name: string
+          p_retention_percentage?: number
+          p_stages: Json
+          p_vat_rate?: number
+        }
+        Returns: string
+      }
       dearmor: {
         Args: { "": string }
         Returns: string
       }
+      decrypt_sensitive_data: {
+        Args: { data: string }
+        Returns: string
+      }
+      discount_code_attempts_allowed: {
+        Args: { p_ip_address: string; p_target: string }
+        Returns: boolean
+      }
       encrypt_sensitive_data: {
         Args: { data: string }
         Returns: string
       }
+      enqueue_automation_event: {
+        Args: {
+          p_dedupe_key?: string
+          p_entity_id: string
+          p_entity_type: string
+          p_event_type: string
+          p_payload?: Json
+          p_user_id: string
+        }
+        Returns: string
+      }
+      enqueue_integration_job: {
+        Args: {
+          p_action: string
+          p_idempotency_key?: string
+          p_max_attempts?: number
+          p_metadata?: Json
+          p_payload?: Json
+          p_service_name: string
+        }
+        Returns: {
+          action: string
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          metadata: Json
+          next_run_at: string
+          payload: Json
+          result: Json | null
+          service_name: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      enqueue_overdue_invoice_events: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      flag_lead_duplicates: {
+        Args: { p_lead_id: string }
+        Returns: number
+      }
       gen_random_bytes: {
         Args: { "": number }
         Returns: string
@@ -3691,7 +5812,7 @@ export type Database = {
         Returns: string
       }
       generate_invoice_number: {
-        Args: Record<PropertyKey, never>
+        Args: { p_prefix?: string; p_user_id?: string }
         Returns: string
       }
       generate_referral_code: {
@@ -3702,10 +5823,71 @@ export type Database = {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_aged_receivables: {
+        Args: {
+          p_as_of: string
+          p_base_currency: string
+        }
+        Returns: {
+          current: number
+          customer_name: string
+          days_0_30: number
+          days_31_60: number
+          days_61_90: number
+          days_90_plus: number
+          invoices: number
+          is_total: boolean
+          total: number
+          unconverted: number
+        }[]
+      }
+      get_cash_forecast: {
+        Args: {
+          p_as_of: string
+          p_base_currency: string
+          p_weeks: number
+        }
+        Returns: {
+          invoiced: number
+          invoices: number
+          scheduled: number
+          unconverted: number
+          undated: number
+          week: number
+        }[]
+      }
       get_current_user_role: {
         Args: Record<PropertyKey, never>
         Returns: string
       }
+      get_discount_cost: {
+        Args: {
+          p_base_currency: string
+          p_from?: string
+          p_to?: string
+        }
+        Returns: {
+          applications: number
+          codes: number
+          is_total: boolean
+          rule_name: string
+          total: number
+          unconverted: number
+        }[]
+      }
+      get_exchange_rate: {
+        Args: {
+          p_company_id?: string
+          p_from: string
+          p_on?: string
+          p_to: string
+        }
+        Returns: {
+          rate: number
+          rate_date: string
+          source: string
+        }[]
+      }
       get_integration_analytics: {
         Args: {
           end_date?: string
@@ -3715,16 +5897,55 @@ export type Database = {
         }
         Returns: {
           action: string
-          created_at: string
-          duration_ms: number
-          error_message: string
+          avg_duration_ms: number
+          breakdown: string
+          error: string
+          errors: number
+          hour: string
+          last_seen: string
+          p50_duration_ms: number
+          p95_duration_ms: number
+          sample_error: string
+          service_name: string
+          services: string[]
+          total: number
+        }[]
+      }
+      get_integration_configs: {
+        Args: Record<PropertyKey, never>
+        Returns: {
           id: string
-          metadata: Json
-          request_data: string
-          response_data: string
+          is_active: boolean
+          rate_limits: Json
+          secrets: Json
+          service_name: string
+          settings: Json
+          updated_at: string
+          version: number
+        }[]
+      }
+      get_integration_rate_limit_config: {
+        Args: { p_scope_id: string; p_service_name: string }
+        Returns: {
+          requests_per_day: number
+          requests_per_hour: number
+          requests_per_minute: number
+        }[]
+      }
+      get_integration_rate_limit_scope: {
+        Args: { p_user_id: string }
+        Returns: string
+      }
+      get_integration_rate_limit_stats: {
+        Args: Record<PropertyKey, never>
+        Returns: {
+          day_limit: number
+          day_used: number
+          hour_limit: number
+          hour_used: number
+          minute_limit: number
+          minute_used: number
           service_name: string
-          status: string
-          user_id: string
         }[]
       }
       get_last_integration_activity: {
@@ -3743,6 +5964,23 @@ export type Database = {
           user_id: string
         }[]
       }
+      get_revenue_breakdown: {
+        Args: {
+          p_base_currency: string
+          p_from?: string
+          p_group_by: string
+          p_to?: string
+        }
+        Returns: {
+          collected: number
+          invoiced: number
+          invoices: number
+          is_total: boolean
+          key: string
+          outstanding: number
+          unconverted: number
+        }[]
+      }
       get_user_companies: {
         Args: { _user_id?: string }
         Returns: {
@@ -3794,6 +6032,10 @@ export type Database = {
         }
         Returns: boolean
       }
+      invoke_scheduled_function: {
+        Args: { p_body?: Json; p_function: string }
+        Returns: number
+      }
       is_company_admin: {
         Args: { _company_id: string; _user_id: string }
         Returns: boolean
@@ -3848,6 +6090,48 @@ export type Database = {
         }
         Returns: undefined
       }
+      match_lead_contact: {
+        Args: {
+          p_email: string
+          p_exclude_lead_id?: string
+          p_first_name: string
+          p_last_name: string
+          p_phone: string
+          p_postal_code: string
+          p_user_id: string
+        }
+        Returns: {
+          confidence: number
+          lead_id: string
+          match_reasons: string[]
+        }[]
+      }
+      merge_leads: {
+        Args: { p_duplicate_id: string; p_fields?: Json; p_primary_id: string }
+        Returns: string
+      }
+      normalize_email: {
+        Args: { p_email: string }
+        Returns: string
+      }
+      normalize_integration_error: {
+        Args: {
+          p_message: string
+        }
+        Returns: string
+      }
+      normalize_name_key: {
+        Args: { p_name: string }
+        Returns: string
+      }
+      normalize_phone_e164: {
+        Args: { p_phone: string }
+        Returns: string
+      }
+      normalize_postcode: {
+        Args: { p_postcode: string }
+        Returns: string
+      }
       pgp_armor_headers: {
         Args: { "": string }
         Returns: Record<string, unknown>[]
@@ -3856,6 +6140,80 @@ export type Database = {
         Args: { "": string }
         Returns: string
       }
+      queue_lead_score: {
+        Args: { p_lead_id: string; p_reason: string }
+        Returns: undefined
+      }
+      redeem_discount_code: {
+        Args: {
+          p_channel: string
+          p_code_id: string
+          p_customer_email: string
+          p_discount_amount: number
+          p_invoice_id: string
+          p_original_amount: number
+          p_quote_request_id: string
+        }
+        Returns: string
+      }
+      refresh_missing_invoice_exchange_rates: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      release_discount_rule_usage: {
+        Args: { p_rule_id: string }
+        Returns: undefined
+      }
+      replay_integration_job: {
+        Args: { p_job_id: string }
+        Returns: {
+          action: string
+          attempts: number
+          completed_at: string | null
+          created_at: string
+          id: string
+          idempotency_key: string
+          last_error: string | null
+          locked_at: string | null
+          max_attempts: number
+          metadata: Json
+          next_run_at: string
+          payload: Json
+          result: Json | null
+          service_name: string
+          status: string
+          updated_at: string
+          user_id: string
+        }
+      }
+      report_base_amount: {
+        Args: {
+          p_amount: number
+          p_currency: string
+          p_exchange_rate: number
+          p_report_currency: string
+          p_snapshot_currency: string
+        }
+        Returns: number
+      }
+      save_integration_config: {
+        Args: {
+          p_expected_version?: number
+          p_is_active?: boolean
+          p_rate_limits?: Json
+          p_secrets?: Json
+          p_service_name: string
+          p_settings?: Json
+        }
+        Returns: {
+          id: string
+          version: number
+        }[]
+      }
+      scan_lead_duplicates: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
       upsert_crm_settings: {
         Args: {
           p_auto_sync: boolean
@@ -3868,15 +6226,6 @@ export type Database = {
         }
         Returns: undefined
       }
-      upsert_integration_config: {
-        Args: {
-          p_encrypted_config: Json
-          p_is_active: boolean
-          p_service_name: string
-          p_user_id: string
-        }
-        Returns: string
-      }
     }
     Enums: {
       app_role: "super_user" | "admin" | "builder" | "viewer" | "customer"
@@ -0,0 +1,98 @@
+/**
+ * Currency formatting and base-currency conversion
+ * Invoices carry an exchange-rate snapshot (exchange_rate, amount_base) taken
+ * when they are issued; reports add up those snapshots rather than raw amounts
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export const DEFAULT_CURRENCY = 'GBP';
+
+export const SUPPORTED_CURRENCIES: { code: string; label: string }[] = [
+  { code: 'GBP', label: 'British Pound' },
+  { code: 'EUR', label: 'Euro' },
+  { code: 'USD', label: 'US Dollar' },
+  { code: 'CHF', label: 'Swiss Franc' },
+  { code: 'SEK', label: 'Swedish Krona' },
+  { code: 'NOK', label: 'Norwegian Krone' },
+  { code: 'DKK', label: 'Danish Krone' },
+  { code: 'PLN', label: 'Polish Zloty' },
+  { code: 'CAD', label: 'Canadian Dollar' },
+  { code: 'AUD', label: 'Australian Dollar' },
+];
+
+export const formatMoney = (amount: number | null | undefined, currency: string | null = DEFAULT_CURRENCY): string => {
+  const code = (currency || DEFAULT_CURRENCY).toUpperCase();
+  try {
+    return new Intl.NumberFormat('en-GB', { style: 'currency', currency: code }).format(Number(amount ?? 0));
+  } catch {
+    // Unknown ISO code; show it rather than guessing a symbol
+    return `${code} ${Number(amount ?? 0).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+  }
+};
+
+export interface ConvertibleAmount {
+  amount: number;
+  currency?: string | null;
+  base_currency?: string | null;
+  exchange_rate?: number | null;
+}
+
+/**
+ * Converts an amount from the invoice's currency into baseCurrency using its
+ * snapshot. Returns null when the invoice has no snapshot in that base.
+ */
+export const toBaseAmount = (
+  row: ConvertibleAmount,
+  baseCurrency: string,
+  amount: number = row.amount
+): number | null => {
+  const currency = (row.currency || DEFAULT_CURRENCY).toUpperCase();
+  if (currency === baseCurrency) return Number(amount);
+  if (row.exchange_rate == null || (row.base_currency || '').toUpperCase() !== baseCurrency) return null;
+  return Math.round(Number(amount) * Number(row.exchange_rate) * 100) / 100;
+};
+
+/**
+ * Sums rows in baseCurrency. Rows without a usable snapshot are left out and
+ * counted in `unconverted` so reports can say so instead of mixing currencies.
+ */
+export const sumInBase = <T extends ConvertibleAmount>(
+  rows: T[],
+  baseCurrency: string,
+  getAmount: (row: T) => number = row => row.amount
+): { total: number; unconverted: number } =>
+  rows.reduce(
+    (acc, row) => {
+      const converted = toBaseAmount(row, baseCurrency, getAmount(row));
+      if (converted === null) return { ...acc, unconverted: acc.unconverted + 1 };
+      return { ...acc, total: Math.round((acc.total + converted) * 100) / 100 };
+    },
+    { total: 0, unconverted: 0 }
+  );
+
+/**
+ * The signed-in user's company and its reporting currency
+ */
+export const fetchCompanyCurrency = async (
+  userId: string
+): Promise<{ companyId: string | null; baseCurrency: string }> => {
+  const { data: role } = await supabase
+    .from('user_roles')
+    .select('company_id')
+    .eq('user_id', userId)
+    .eq('is_active', true)
+    .not('company_id', 'is', null)
+    .order('assigned_at')
+    .limit(1)
+    .maybeSingle();
+
+  if (!role?.company_id) return { companyId: null, baseCurrency: DEFAULT_CURRENCY };
+
+  const { data: company } = await supabase
+    .from('companies')
+    .select('base_currency')
+    .eq('id', role.company_id)
+    .single();
+
+  return { companyId: role.company_id, baseCurrency: company?.base_currency || DEFAULT_CURRENCY };
+};
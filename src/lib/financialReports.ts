@@ -0,0 +1,199 @@
+/**
+ * Financial reports: aged receivables, revenue breakdowns, discount cost and
+ * cash forecast. The totals are worked out in SQL (see the get_* report
+ * functions) in the company's base currency using each invoice's
+ * exchange-rate snapshot; rows without a snapshot in that currency are counted
+ * as unconverted rather than mixed in.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export const AGEING_BUCKETS = [
+  { key: 'current', label: 'Not yet due' },
+  { key: 'days_0_30', label: '0-30 days' },
+  { key: 'days_31_60', label: '31-60 days' },
+  { key: 'days_61_90', label: '61-90 days' },
+  { key: 'days_90_plus', label: '90+ days' },
+] as const;
+
+export type AgeingBucket = typeof AGEING_BUCKETS[number]['key'];
+
+export interface AgedDebtor {
+  customer_name: string;
+  invoices: number;
+  buckets: Record<AgeingBucket, number>;
+  total: number;
+}
+
+export interface RevenueRow {
+  key: string;
+  invoices: number;
+  invoiced: number;
+  collected: number;
+  outstanding: number;
+}
+
+export interface DiscountCostRow {
+  rule_name: string;
+  applications: number;
+  codes: number;
+  total: number;
+}
+
+export interface ForecastRow {
+  label: string;
+  start: string;
+  invoices: number;
+  invoiced: number;
+  scheduled: number;
+  total: number;
+}
+
+const round = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const num = (value: number | string | null | undefined) => Number(value ?? 0);
+
+const optionalDay = (day: string) => day || undefined;
+
+const addDays = (day: string, days: number) => {
+  const date = new Date(`${day}T00:00:00Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+};
+
+// Grouped reports lead with their rollup row, so totals survive a truncated response
+const splitTotal = <T extends { is_total: boolean }>(data: T[] | null) => ({
+  total: (data || []).find(row => row.is_total),
+  rows: (data || []).filter(row => !row.is_total),
+});
+
+/**
+ * Unpaid balances per customer, aged by days past the due date as at asOf.
+ * Only invoices issued on or before asOf are included.
+ */
+export const fetchAgedReceivables = async (baseCurrency: string, asOf: string) => {
+  const { data, error } = await supabase.rpc('get_aged_receivables', {
+    p_base_currency: baseCurrency,
+    p_as_of: asOf,
+  });
+  if (error) throw error;
+
+  const { total, rows } = splitTotal(data);
+  const bucketsOf = (row?: typeof total): Record<AgeingBucket, number> => ({
+    current: num(row?.current),
+    days_0_30: num(row?.days_0_30),
+    days_31_60: num(row?.days_31_60),
+    days_61_90: num(row?.days_61_90),
+    days_90_plus: num(row?.days_90_plus),
+  });
+
+  return {
+    rows: rows.map((row): AgedDebtor => ({
+      customer_name: row.customer_name,
+      invoices: row.invoices,
+      buckets: bucketsOf(row),
+      total: num(row.total),
+    })),
+    totals: bucketsOf(total),
+    total: num(total?.total),
+    invoices: total?.invoices ?? 0,
+    unconverted: total?.unconverted ?? 0,
+  };
+};
+
+/**
+ * Invoiced, collected and outstanding amounts for invoices issued in the
+ * range, grouped by the originating lead's project type or lead source
+ */
+export const fetchRevenueBreakdown = async (
+  groupBy: 'project_type' | 'lead_source',
+  baseCurrency: string,
+  range: DateRange
+) => {
+  const { data, error } = await supabase.rpc('get_revenue_breakdown', {
+    p_base_currency: baseCurrency,
+    p_group_by: groupBy,
+    p_from: optionalDay(range.from),
+    p_to: optionalDay(range.to),
+  });
+  if (error) throw error;
+
+  const { total, rows } = splitTotal(data);
+  const revenueRow = (row?: typeof total): RevenueRow => ({
+    key: row?.key || 'Total',
+    invoices: row?.invoices ?? 0,
+    invoiced: num(row?.invoiced),
+    collected: num(row?.collected),
+    outstanding: num(row?.outstanding),
+  });
+
+  return {
+    rows: rows.map(revenueRow),
+    total: revenueRow(total),
+    unconverted: total?.unconverted ?? 0,
+  };
+};
+
+/**
+ * Discounts given in the range, by rule. Discounts are in the invoice's
+ * currency; quote-request redemptions without an invoice have no cost yet.
+ */
+export const fetchDiscountCost = async (baseCurrency: string, range: DateRange) => {
+  const { data, error } = await supabase.rpc('get_discount_cost', {
+    p_base_currency: baseCurrency,
+    p_from: optionalDay(range.from),
+    p_to: optionalDay(range.to),
+  });
+  if (error) throw error;
+
+  const { total, rows } = splitTotal(data);
+  return {
+    rows: rows.map((row): DiscountCostRow => ({
+      rule_name: row.rule_name,
+      applications: row.applications,
+      codes: row.codes,
+      total: num(row.total),
+    })),
+    total: num(total?.total),
+    unconverted: total?.unconverted ?? 0,
+  };
+};
+
+/**
+ * Expected cash per week from asOf: unpaid invoice balances by due date, plus
+ * payment schedule stages not yet invoiced (less retention, plus VAT). Money
+ * already overdue is shown on its own line, since when it arrives is unknown.
+ */
+export const fetchCashForecast = async (baseCurrency: string, asOf: string, weeks: number) => {
+  const { data, error } = await supabase.rpc('get_cash_forecast', {
+    p_base_currency: baseCurrency,
+    p_as_of: asOf,
+    p_weeks: weeks,
+  });
+  if (error) throw error;
+
+  const rows = (data || []).map((row): ForecastRow => {
+    const start = row.week < 0 ? '' : addDays(asOf, row.week * 7);
+    const invoiced = num(row.invoiced);
+    const scheduled = num(row.scheduled);
+    return {
+      label: row.week < 0 ? 'Overdue' : `Week of ${start}`,
+      start,
+      invoices: row.invoices,
+      invoiced,
+      scheduled,
+      total: round(invoiced + scheduled),
+    };
+  });
+
+  return {
+    rows,
+    total: round(rows.reduce((sum, row) => sum + row.total, 0)),
+    undated: data?.[0]?.undated ?? 0,
+    unconverted: data?.[0]?.unconverted ?? 0,
+  };
+};
@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 import { ZapierService } from "./services/ZapierService";
 import { AirtableService } from "./services/AirtableService";
 import { StripeService } from "./services/StripeService";
@@ -10,6 +11,19 @@ import { OpenAIRunwayService } from "./services/OpenAIRunwayService";
 import { RateLimiter } from "./utils/RateLimiter";
 import { RetryHandler } from "./utils/RetryHandler";
 import { IntegrationLogger } from "./utils/IntegrationLogger";
+import {
+  listActions,
+  parseActionData,
+  type ActionDescriptor,
+  type IntegrationActionData,
+  type IntegrationActionName,
+  type IntegrationServiceName
+} from "./actions/ActionRegistry";
+
+import type { SandboxOptions, SandboxProvider } from "./sandbox/SandboxProvider";
+
+export type { ActionDescriptor, ActionField } from "./actions/ActionRegistry";
+export type { SandboxFailure, SandboxOptions, SandboxProvider } from "./sandbox/SandboxProvider";
 
 export interface IntegrationConfig {
   serviceName: string;
@@ -19,23 +33,61 @@ export interface IntegrationConfig {
   rateLimits?: {
     requestsPerMinute: number;
     requestsPerHour: number;
+    requestsPerDay?: number;
   };
+  // Additional secrets such as secretKey or accessToken, stored encrypted
+  credentials?: Record<string, string>;
+  // Non-secret settings such as baseId, tenantId or companyId
+  settings?: Record<string, any>;
+  // Version the caller last loaded; saving against a stale version fails
+  version?: number;
 }
 
-export interface WorkflowTrigger {
-  triggerType: 'zapier' | 'airtable' | 'stripe' | 'calendly' | 'xero' | 'quickbooks' | 'buffer' | 'canva' | 'webflow' | 'typedream' | 'openai' | 'runwayml';
-  action: string;
-  data: Record<string, any>;
-  metadata?: {
-    userId?: string;
-    projectId?: string;
-    leadId?: string;
-    customerId?: string;
-  };
+export type WorkflowMetadata = {
+  userId?: string;
+  projectId?: string;
+  leadId?: string;
+  customerId?: string;
+};
+
+interface ServiceWorkflowTrigger<S extends IntegrationServiceName, A extends IntegrationActionName<S>> {
+  triggerType: S;
+  action: A;
+  data: IntegrationActionData<S, A>;
+  metadata?: WorkflowMetadata;
+  // Repeated triggers with the same key are only executed once
+  idempotencyKey?: string;
 }
 
+// Discriminated on triggerType and action, so data is checked against that action's contract
+export type WorkflowTrigger = {
+  [S in IntegrationServiceName]: {
+    [A in IntegrationActionName<S>]: ServiceWorkflowTrigger<S, A>;
+  }[IntegrationActionName<S>];
+}[IntegrationServiceName];
+
+export type IntegrationJob = Database['public']['Tables']['integration_jobs']['Row'];
+export type IntegrationJobStatus = 'pending' | 'running' | 'succeeded' | 'failed' | 'dead_lettered';
+
+// Outbound writes that must survive the tab closing are executed by the integration-job-worker
+// edge function, which implements exactly these actions; reads and every other action return
+// results the UI waits on and run inline.
+const QUEUED_ACTIONS: { [S in IntegrationServiceName]?: IntegrationActionName<S>[] | 'all' } = {
+  zapier: 'all',
+  airtable: ['create_project', 'update_project', 'track_lead'],
+  stripe: ['create_customer', 'create_payment_link', 'process_payment'],
+  xero: ['sync_invoice', 'sync_credit_note', 'create_contact'],
+  quickbooks: ['sync_invoice', 'sync_credit_note', 'create_contact']
+};
+
+const isQueuedAction = (trigger: WorkflowTrigger) => {
+  const queued = QUEUED_ACTIONS[trigger.triggerType] as string[] | 'all' | undefined;
+  return queued === 'all' || !!queued?.includes(trigger.action);
+};
+
 export class IntegrationManager {
   private services: Map<string, any> = new Map();
+  private configs: Map<string, IntegrationConfig> = new Map();
   private rateLimiter: RateLimiter;
   private retryHandler: RetryHandler;
   private logger: IntegrationLogger;
@@ -62,6 +114,11 @@ export class IntegrationManager {
     this.services.set('openai', new OpenAIRunwayService(this.rateLimiter, this.retryHandler, this.logger, 'openai'));
     this.services.set('runwayml', new OpenAIRunwayService(this.rateLimiter, this.retryHandler, this.logger, 'runwayml'));
 
+    // Demo and offline test builds run every service against the sandbox provider
+    if (import.meta.env.VITE_INTEGRATIONS_SANDBOX === 'true') {
+      this.services.forEach(service => service.enableSandbox());
+    }
+
     // Load configurations from database
     await this.loadConfigurations();
   }
@@ -71,29 +128,55 @@ export class IntegrationManager {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return;
 
-      // Use existing table temporarily to avoid type errors
-      const { data: configs } = await supabase
-        .from('business_settings')
-        .select('*')
-        .eq('user_id', user.id);
-
-      if (configs) {
-        configs.forEach((config: any) => {
-          const service = this.services.get(config.service_name);
-          if (service) {
-            service.configure(config);
-          }
-        });
-      }
+      const { data: configs, error } = await supabase.rpc('get_integration_configs');
+      if (error) throw error;
+
+      (configs || []).forEach(row => {
+        const { apiKey, webhookUrl, ...credentials } = (row.secrets || {}) as Record<string, string>;
+        const config: IntegrationConfig = {
+          serviceName: row.service_name,
+          apiKey,
+          webhookUrl,
+          enabled: row.is_active,
+          rateLimits: (row.rate_limits as IntegrationConfig['rateLimits']) || undefined,
+          credentials,
+          settings: (row.settings || {}) as Record<string, any>,
+          version: row.version
+        };
+
+        this.applyConfiguration(config);
+      });
     } catch (error) {
       console.error('Failed to load integration configurations:', error);
     }
   }
 
-  async triggerWorkflow(trigger: WorkflowTrigger): Promise<{ success: boolean; data?: any; error?: string }> {
-    const { triggerType, action, data, metadata } = trigger;
+  private applyConfiguration(config: IntegrationConfig) {
+    const service = this.services.get(config.serviceName);
+    if (service) {
+      service.configure(config);
+
+      // settings.sandbox is either true or a set of SandboxOptions
+      if (config.settings?.sandbox) {
+        service.enableSandbox(config.settings.sandbox === true ? {} : config.settings.sandbox);
+      }
+    }
+
+    if (config.rateLimits) {
+      this.rateLimiter.setConfig(config.serviceName, config.rateLimits);
+    }
+
+    this.configs.set(config.serviceName, config);
+  }
+
+  async triggerWorkflow(trigger: WorkflowTrigger): Promise<{ success: boolean; data?: any; error?: string; jobId?: string }> {
+    const { triggerType, action, metadata } = trigger;
+    let data: Record<string, any> = trigger.data;
     
     try {
+      // Reject unknown actions and malformed data before anything is queued or sent
+      data = parseActionData(triggerType, action, data);
+
       // Log the workflow trigger
       await this.logger.logActivity({
         serviceName: triggerType,
@@ -108,8 +191,14 @@ export class IntegrationManager {
         throw new Error(`Service ${triggerType} not found or not configured`);
       }
 
-      // Check rate limits
-      const rateLimitCheck = await this.rateLimiter.checkLimit(triggerType);
+      // Sandboxed services never leave the browser, so they always run inline
+      if (isQueuedAction(trigger) && !service.isSandboxed()) {
+        const job = await this.enqueueJob(trigger, data);
+        return { success: true, data: { jobId: job.id, status: job.status }, jobId: job.id };
+      }
+
+      // Check rate limits without consuming; the service consumes a token per upstream call
+      const rateLimitCheck = await this.rateLimiter.checkLimit(triggerType, 0);
       if (!rateLimitCheck.allowed) {
         throw new Error(`Rate limit exceeded for ${triggerType}. Try again in ${rateLimitCheck.resetIn} seconds`);
       }
@@ -148,33 +237,106 @@ export class IntegrationManager {
     }
   }
 
+  private async enqueueJob(trigger: WorkflowTrigger, payload: Record<string, any>): Promise<IntegrationJob> {
+    const { data: job, error } = await supabase.rpc('enqueue_integration_job', {
+      p_service_name: trigger.triggerType,
+      p_action: trigger.action,
+      p_payload: payload,
+      p_metadata: trigger.metadata || {},
+      p_idempotency_key: trigger.idempotencyKey
+    });
+
+    if (error) throw error;
+
+    // A duplicate key returns the existing job, which is only re-run if it is still due
+    if (job.status === 'pending') {
+      await this.runJob(job.id);
+    }
+
+    return job;
+  }
+
+  private async runJob(jobId: string) {
+    // The job stays queued for the scheduled worker if this immediate run cannot be started
+    const { error } = await supabase.functions.invoke('integration-job-worker', {
+      body: { jobId }
+    });
+
+    if (error) {
+      console.warn(`Integration job ${jobId} queued; immediate run failed:`, error.message);
+    }
+  }
+
+  async getJobs(statuses?: IntegrationJobStatus[], limit: number = 50): Promise<IntegrationJob[]> {
+    let query = supabase
+      .from('integration_jobs')
+      .select('*')
+      .order('created_at', { ascending: false })
+      .limit(limit);
+
+    if (statuses?.length) {
+      query = query.in('status', statuses);
+    }
+
+    const { data, error } = await query;
+    if (error) throw error;
+
+    return data || [];
+  }
+
+  async replayJob(jobId: string): Promise<IntegrationJob> {
+    const { data: job, error } = await supabase.rpc('replay_integration_job', { p_job_id: jobId });
+    if (error) throw error;
+
+    await this.logger.logActivity({
+      serviceName: job.service_name,
+      action: 'job_replayed',
+      data: { jobId, action: job.action },
+      status: 'success'
+    });
+
+    await this.runJob(job.id);
+    return job;
+  }
+
   async configureIntegration(serviceName: string, config: IntegrationConfig): Promise<boolean> {
     try {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) throw new Error('User not authenticated');
 
-      // Save configuration to database
-      // Use existing table temporarily to avoid type errors  
-      const { error } = await supabase
-        .from('business_settings')
-        .upsert({
-          user_id: user.id,
-          business_name: serviceName, // Temporary mapping
-          updated_at: new Date().toISOString()
-        });
+      // Secrets are encrypted server-side; blank values keep the stored secret
+      const secrets = {
+        ...config.credentials,
+        ...(config.apiKey && { apiKey: config.apiKey }),
+        ...(config.webhookUrl && { webhookUrl: config.webhookUrl })
+      };
+
+      const { data, error } = await supabase.rpc('save_integration_config', {
+        p_service_name: serviceName,
+        p_secrets: secrets,
+        p_settings: config.settings || {},
+        p_rate_limits: config.rateLimits || null,
+        p_is_active: config.enabled,
+        p_expected_version: config.version ?? this.configs.get(serviceName)?.version
+      });
 
       if (error) throw error;
 
-      // Update service configuration
-      const service = this.services.get(serviceName);
-      if (service) {
-        service.configure(config);
-      }
+      // Keep previously stored secrets when only settings were changed
+      const previous = this.configs.get(serviceName);
+      this.applyConfiguration({
+        ...config,
+        serviceName,
+        apiKey: config.apiKey || previous?.apiKey,
+        webhookUrl: config.webhookUrl || previous?.webhookUrl,
+        credentials: { ...previous?.credentials, ...config.credentials },
+        version: data?.[0]?.version
+      });
 
       await this.logger.logActivity({
         serviceName,
         action: 'configuration_updated',
-        data: { enabled: config.enabled },
+        data: { enabled: config.enabled, version: data?.[0]?.version },
         status: 'success'
       });
 
@@ -183,7 +345,7 @@ export class IntegrationManager {
       await this.logger.logActivity({
         serviceName,
         action: 'configuration_updated',
-        data: config,
+        data: { enabled: config.enabled, settings: config.settings, rateLimits: config.rateLimits },
         status: 'error',
         error: error.message
       });
@@ -191,26 +353,59 @@ export class IntegrationManager {
     }
   }
 
+  getConfiguration(serviceName: string): IntegrationConfig | undefined {
+    return this.configs.get(serviceName);
+  }
+
   async getIntegrationStatus(serviceName?: string): Promise<any> {
     if (serviceName) {
       const service = this.services.get(serviceName);
-      return service ? await service.getStatus() : null;
+      return service ? { ...await service.getStatus(), sandbox: service.isSandboxed() } : null;
     }
 
     const statuses = {};
     for (const [name, service] of this.services.entries()) {
-      statuses[name] = await service.getStatus();
+      statuses[name] = { ...await service.getStatus(), sandbox: service.isSandboxed() };
     }
     return statuses;
   }
 
+  // Switch a service between its live API and the offline sandbox provider (not persisted;
+  // save settings.sandbox through configureIntegration to keep it across sessions)
+  setSandboxMode(serviceName: string, enabled: boolean, options?: SandboxOptions): SandboxProvider | null {
+    const service = this.services.get(serviceName);
+    if (!service) {
+      throw new Error(`Service ${serviceName} not found`);
+    }
+
+    if (!enabled) {
+      service.disableSandbox();
+      return null;
+    }
+
+    return service.enableSandbox(options);
+  }
+
+  getSandbox(serviceName: string): SandboxProvider | null {
+    return this.services.get(serviceName)?.getSandbox() || null;
+  }
+
+  listActions(serviceName?: IntegrationServiceName): ActionDescriptor[] {
+    return listActions(serviceName);
+  }
+
+  async getRateLimitStats(): Promise<any> {
+    return await this.rateLimiter.getAllStats();
+  }
+
   async getAnalytics(serviceName?: string, timeRange?: { start: Date; end: Date }): Promise<any> {
     return await this.logger.getAnalytics(serviceName, timeRange);
   }
 
   // Sample method to trigger Zapier workflow for new lead
-  async triggerZapierForNewLead(leadId: string, leadData: any): Promise<{ success: boolean; data?: any; error?: string }> {
+  async triggerZapierForNewLead(leadId: string, leadData: any): Promise<{ success: boolean; data?: any; error?: string; jobId?: string }> {
     return await this.triggerWorkflow({
+      idempotencyKey: `zapier:new_lead:${leadId}`,
       triggerType: 'zapier',
       action: 'new_lead',
       data: {
@@ -0,0 +1,153 @@
+import { z } from 'zod';
+import type { ActionDefinition } from './defineAction';
+import { zapierActions } from './ZapierActions';
+import { airtableActions } from './AirtableActions';
+import { stripeActions } from './StripeActions';
+import { calendlyActions } from './CalendlyActions';
+import { accountingActions } from './XeroQuickBooksActions';
+import { bufferActions, canvaActions } from './BufferCanvaActions';
+import { webflowActions, typedreamActions } from './WebflowTypedreamActions';
+import { openAIActions, runwayActions } from './OpenAIRunwayActions';
+
+export const actionRegistry = {
+  zapier: zapierActions,
+  airtable: airtableActions,
+  stripe: stripeActions,
+  calendly: calendlyActions,
+  xero: accountingActions,
+  quickbooks: accountingActions,
+  buffer: bufferActions,
+  canva: canvaActions,
+  webflow: webflowActions,
+  typedream: typedreamActions,
+  openai: openAIActions,
+  runwayml: runwayActions
+};
+
+type ActionRegistry = typeof actionRegistry;
+
+export type IntegrationServiceName = keyof ActionRegistry;
+export type IntegrationActionName<S extends IntegrationServiceName> = keyof ActionRegistry[S] & string;
+
+// Input shape accepted by an action; optional fields stay optional
+export type IntegrationActionData<
+  S extends IntegrationServiceName,
+  A extends IntegrationActionName<S>
+> = ActionRegistry[S][A] extends ActionDefinition<infer Schema> ? z.input<Schema> : never;
+
+export type ActionFieldType = 'string' | 'number' | 'boolean' | 'enum' | 'array' | 'object' | 'json';
+
+export interface ActionField {
+  name: string;
+  label: string;
+  type: ActionFieldType;
+  required: boolean;
+  options?: string[];
+}
+
+export interface ActionDescriptor {
+  service: IntegrationServiceName;
+  action: string;
+  description: string;
+  fields: ActionField[];
+}
+
+const getActionDefinition = (serviceName: string, action: string): ActionDefinition | undefined => {
+  const actions = actionRegistry[serviceName as IntegrationServiceName] as Record<string, ActionDefinition> | undefined;
+  return actions && Object.prototype.hasOwnProperty.call(actions, action) ? actions[action] : undefined;
+};
+
+export const isKnownAction = (serviceName: string, action: string): boolean =>
+  !!getActionDefinition(serviceName, action);
+
+// Validate action data against the registered schema; throws with every failing field listed
+export const parseActionData = (serviceName: string, action: string, data: unknown): Record<string, any> => {
+  if (!(serviceName in actionRegistry)) {
+    throw new Error(`Unknown integration service: ${serviceName}`);
+  }
+
+  const definition = getActionDefinition(serviceName, action);
+  if (!definition) {
+    throw new Error(`Unknown ${serviceName} action: ${action}`);
+  }
+
+  const result = definition.schema.safeParse(data ?? {});
+  if (!result.success) {
+    const issues = result.error.issues
+      .map(issue => `${issue.path.join('.') || 'data'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid data for ${serviceName}.${action}: ${issues}`);
+  }
+
+  return result.data;
+};
+
+// Strip optional/default/refinement wrappers to reach the underlying schema
+const unwrap = (schema: z.ZodTypeAny): { inner: z.ZodTypeAny; optional: boolean } => {
+  let inner = schema;
+  let optional = false;
+
+  while (true) {
+    if (inner instanceof z.ZodOptional || inner instanceof z.ZodNullable) {
+      optional = true;
+      inner = inner.unwrap();
+    } else if (inner instanceof z.ZodDefault) {
+      optional = true;
+      inner = inner.removeDefault();
+    } else if (inner instanceof z.ZodEffects) {
+      inner = inner.innerType();
+    } else {
+      return { inner, optional };
+    }
+  }
+};
+
+const describeField = (name: string, schema: z.ZodTypeAny): ActionField => {
+  const { inner, optional } = unwrap(schema);
+  const field: ActionField = {
+    name,
+    label: schema.description || inner.description || name,
+    type: 'json',
+    required: !optional && !(inner instanceof z.ZodAny || inner instanceof z.ZodUnknown)
+  };
+
+  if (inner instanceof z.ZodString) {
+    field.type = 'string';
+  } else if (inner instanceof z.ZodNumber) {
+    field.type = 'number';
+  } else if (inner instanceof z.ZodBoolean) {
+    field.type = 'boolean';
+  } else if (inner instanceof z.ZodEnum) {
+    field.type = 'enum';
+    field.options = [...inner.options];
+  } else if (inner instanceof z.ZodArray) {
+    field.type = 'array';
+  } else if (inner instanceof z.ZodObject || inner instanceof z.ZodRecord) {
+    field.type = 'object';
+  }
+
+  return field;
+};
+
+const describeAction = (service: IntegrationServiceName, action: string, definition: ActionDefinition): ActionDescriptor => {
+  const { inner } = unwrap(definition.schema);
+  const shape = inner instanceof z.ZodObject ? inner.shape : {};
+
+  return {
+    service,
+    action,
+    description: definition.description,
+    fields: Object.entries(shape).map(([name, fieldSchema]) => describeField(name, fieldSchema as z.ZodTypeAny))
+  };
+};
+
+// Self-describing list of actions, used by the dashboard to build action forms
+export const listActions = (serviceName?: IntegrationServiceName): ActionDescriptor[] => {
+  const services = serviceName ? [serviceName] : (Object.keys(actionRegistry) as IntegrationServiceName[]);
+
+  return services.flatMap(service =>
+    Object.entries(actionRegistry[service] as Record<string, ActionDefinition>).map(([action, definition]) =>
+      describeAction(service, action, definition)
+    )
+  );
+};
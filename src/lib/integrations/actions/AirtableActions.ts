@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+const projectFields = z.object({
+  name: z.string().min(1).describe('Project name'),
+  clientName: z.string().optional().describe('Client name'),
+  status: z.string().optional().describe('Status'),
+  type: z.string().optional().describe('Project type'),
+  budget: z.number().optional().describe('Budget'),
+  description: z.string().optional().describe('Description'),
+  leadSource: z.string().optional().describe('Lead source'),
+  crmId: z.string().optional().describe('CRM ID')
+});
+
+export const airtableActions = {
+  create_project: defineAction(
+    'Create a project record in the Projects table',
+    projectFields.passthrough()
+  ),
+  update_project: defineAction(
+    'Update fields on an existing project record',
+    z.object({
+      projectId: z.string().describe('Airtable record ID'),
+      updates: z.record(z.any()).describe('Fields to update')
+    })
+  ),
+  sync_crm_data: defineAction(
+    'Create or update project records from CRM data',
+    z.object({
+      records: z.array(
+        projectFields.extend({
+          id: z.string().optional(),
+          airtableId: z.string().optional()
+        }).passthrough()
+      ).describe('Records to sync')
+    })
+  ),
+  track_lead: defineAction(
+    'Add a lead to the Leads table',
+    z.object({
+      id: z.string().describe('Lead ID'),
+      customerName: z.string().optional().describe('Customer name'),
+      email: z.string().email().optional().describe('Email'),
+      phone: z.string().optional().describe('Phone'),
+      status: z.string().optional().describe('Status'),
+      priority: z.string().optional().describe('Priority'),
+      source: z.string().optional().describe('Source'),
+      createdAt: z.string().optional().describe('Created date'),
+      estimatedValue: z.number().optional().describe('Value'),
+      notes: z.string().optional().describe('Notes')
+    }).passthrough()
+  )
+};
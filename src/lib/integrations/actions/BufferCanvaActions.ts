@@ -0,0 +1,64 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+export const bufferActions = {
+  schedule_post: defineAction(
+    'Schedule a post on one or more profiles',
+    z.object({
+      text: z.string().min(1).describe('Post text'),
+      profileIds: z.array(z.string()).min(1).describe('Profile IDs'),
+      scheduledAt: z.string().optional().describe('Scheduled time'),
+      media: z.record(z.any()).optional().describe('Media'),
+      link: z.string().url().optional().describe('Link')
+    })
+  ),
+  get_profiles: defineAction(
+    'List connected profiles',
+    z.object({})
+  ),
+  get_scheduled_posts: defineAction(
+    'List pending posts for a profile',
+    z.object({
+      profileId: z.string().describe('Profile ID')
+    })
+  ),
+  delete_post: defineAction(
+    'Delete a scheduled post',
+    z.object({
+      postId: z.string().describe('Post ID')
+    })
+  )
+};
+
+export const canvaActions = {
+  create_design: defineAction(
+    'Create a design, optionally from a template',
+    z.object({
+      name: z.string().optional().describe('Design name'),
+      designType: z.string().optional().describe('Design type'),
+      templateId: z.string().optional().describe('Template ID')
+    })
+  ),
+  get_design: defineAction(
+    'Fetch a design',
+    z.object({
+      designId: z.string().describe('Design ID')
+    })
+  ),
+  export_design: defineAction(
+    'Export a design',
+    z.object({
+      designId: z.string().describe('Design ID'),
+      format: z.enum(['png', 'jpg', 'pdf']).optional().describe('Format'),
+      quality: z.enum(['standard', 'pro']).optional().describe('Quality')
+    })
+  ),
+  get_templates: defineAction(
+    'Search design templates',
+    z.object({
+      category: z.string().optional().describe('Category'),
+      query: z.string().optional().describe('Search'),
+      limit: z.number().int().positive().optional().describe('Limit')
+    })
+  )
+};
@@ -0,0 +1,44 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+export const calendlyActions = {
+  schedule_booking: defineAction(
+    'Create a single-use booking link',
+    z.object({
+      eventTypeUri: z.string().url().optional().describe('Event type URI (defaults to the configured one)'),
+      sendInvite: z.boolean().optional().describe('Prepare an invite email'),
+      email: z.string().email().optional().describe('Invitee email'),
+      name: z.string().optional().describe('Invitee name'),
+      meetingType: z.string().optional().describe('Meeting type'),
+      organizerName: z.string().optional().describe('Organizer name')
+    })
+  ),
+  get_availability: defineAction(
+    'List availability schedules',
+    z.object({
+      userUri: z.string().url().optional().describe('User URI (defaults to the configured one)'),
+      startTime: z.string().datetime().optional().describe('Start time'),
+      endTime: z.string().datetime().optional().describe('End time')
+    })
+  ),
+  create_event_type: defineAction(
+    'Create an event type',
+    z.object({
+      name: z.string().min(1).describe('Name'),
+      duration: z.number().int().positive().optional().describe('Duration (minutes)'),
+      description: z.string().optional().describe('Description'),
+      schedulingUrl: z.string().url().optional().describe('Scheduling URL'),
+      slug: z.string().optional().describe('Slug'),
+      color: z.string().optional().describe('Color')
+    })
+  ),
+  get_scheduled_events: defineAction(
+    'List scheduled events',
+    z.object({
+      userUri: z.string().url().optional().describe('User URI (defaults to the configured one)'),
+      status: z.enum(['active', 'canceled']).optional().describe('Status'),
+      minStartTime: z.string().datetime().optional().describe('Earliest start time'),
+      maxStartTime: z.string().datetime().optional().describe('Latest start time')
+    })
+  )
+};
@@ -0,0 +1,88 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+export const openAIActions = {
+  generate_image: defineAction(
+    'Generate images from a prompt',
+    z.object({
+      prompt: z.string().min(1).describe('Prompt'),
+      model: z.string().optional().describe('Model'),
+      count: z.number().int().min(1).max(10).optional().describe('Number of images'),
+      size: z.enum(['1024x1024', '1024x1536', '1536x1024']).optional().describe('Size'),
+      quality: z.string().optional().describe('Quality')
+    })
+  ),
+  generate_content: defineAction(
+    'Generate text from a prompt',
+    z.object({
+      prompt: z.string().min(1).describe('Prompt'),
+      systemPrompt: z.string().optional().describe('System prompt'),
+      model: z.string().optional().describe('Model'),
+      maxTokens: z.number().int().positive().optional().describe('Max tokens'),
+      temperature: z.number().min(0).max(2).optional().describe('Temperature')
+    })
+  ),
+  generate_description: defineAction(
+    'Write a project description',
+    z.object({
+      projectType: z.string().min(1).describe('Project type'),
+      clientName: z.string().optional().describe('Client name'),
+      services: z.array(z.string()).optional().describe('Services'),
+      location: z.string().optional().describe('Location'),
+      features: z.array(z.string()).optional().describe('Special features')
+    })
+  ),
+  optimize_content: defineAction(
+    'Rewrite content for a purpose and audience',
+    z.object({
+      content: z.string().min(1).describe('Content'),
+      purpose: z.string().optional().describe('Purpose'),
+      tone: z.string().optional().describe('Tone'),
+      audience: z.string().optional().describe('Audience'),
+      length: z.string().optional().describe('Length'),
+      includeCallToAction: z.boolean().optional().describe('Include call-to-action'),
+      maxTokens: z.number().int().positive().optional().describe('Max tokens')
+    })
+  )
+};
+
+export const runwayActions = {
+  generate_video: defineAction(
+    'Generate a video from a prompt or image',
+    z.object({
+      prompt: z.string().min(1).describe('Prompt'),
+      mode: z.string().optional().describe('Mode'),
+      duration: z.number().int().positive().optional().describe('Duration (seconds)'),
+      seed: z.number().int().optional().describe('Seed'),
+      imageUrl: z.string().url().optional().describe('Initial image URL'),
+      style: z.string().optional().describe('Style')
+    })
+  ),
+  generate_image: defineAction(
+    'Generate images from a prompt',
+    z.object({
+      prompt: z.string().min(1).describe('Prompt'),
+      model: z.string().optional().describe('Model'),
+      width: z.number().int().positive().optional().describe('Width'),
+      height: z.number().int().positive().optional().describe('Height'),
+      count: z.number().int().min(1).optional().describe('Number of images')
+    })
+  ),
+  upscale_image: defineAction(
+    'Upscale an image',
+    z.object({
+      imageUrl: z.string().url().describe('Image URL'),
+      scaleFactor: z.number().positive().optional().describe('Scale factor'),
+      model: z.string().optional().describe('Model')
+    })
+  ),
+  edit_video: defineAction(
+    'Edit a video with a prompt',
+    z.object({
+      videoUrl: z.string().url().describe('Video URL'),
+      prompt: z.string().min(1).describe('Prompt'),
+      mode: z.string().optional().describe('Mode'),
+      mask: z.any().optional().describe('Mask')
+    })
+  )
+};
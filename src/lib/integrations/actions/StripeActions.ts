@@ -0,0 +1,53 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+const currency = z.string().length(3).optional().describe('Currency (ISO code, defaults to usd)');
+
+export const stripeActions = {
+  create_payment_link: defineAction(
+    'Create a Stripe payment link for a single amount',
+    z.object({
+      productName: z.string().min(1).describe('Product name'),
+      description: z.string().optional().describe('Description'),
+      amount: z.number().positive().describe('Amount'),
+      currency,
+      quantity: z.number().int().positive().optional().describe('Quantity'),
+      metadata: z.record(z.string()).optional().describe('Metadata')
+    })
+  ),
+  create_invoice: defineAction(
+    'Create and finalize a Stripe invoice',
+    z.object({
+      customerId: z.string().optional().describe('Stripe customer ID'),
+      customerEmail: z.string().email().optional().describe('Customer email'),
+      customerName: z.string().optional().describe('Customer name'),
+      crmInvoiceId: z.string().optional().describe('CRM invoice ID'),
+      lineItems: z.array(z.object({
+        customerId: z.string().optional(),
+        amount: z.number(),
+        currency: z.string().optional(),
+        description: z.string().optional()
+      })).min(1).describe('Line items')
+    }).refine(data => data.customerId || data.customerEmail, {
+      message: 'Either customerId or customerEmail is required',
+      path: ['customerId']
+    })
+  ),
+  process_payment: defineAction(
+    'Create a payment intent',
+    z.object({
+      amount: z.number().positive().describe('Amount'),
+      currency,
+      customerId: z.string().optional().describe('Stripe customer ID'),
+      metadata: z.record(z.string()).optional().describe('Metadata')
+    })
+  ),
+  create_customer: defineAction(
+    'Create a Stripe customer',
+    z.object({
+      email: z.string().email().describe('Email'),
+      name: z.string().optional().describe('Name'),
+      crmCustomerId: z.string().optional().describe('CRM customer ID')
+    })
+  )
+};
@@ -0,0 +1,75 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+// A new site needs a name to derive its slug; an existing one is addressed by siteId
+const micrositeFields = z.object({
+  siteId: z.string().optional().describe('Existing site ID'),
+  name: z.string().optional().describe('Site name'),
+  slug: z.string().optional().describe('Slug'),
+  customDomain: z.string().optional().describe('Custom domain'),
+  content: z.any().optional().describe('Content')
+}).passthrough();
+
+const requireSiteIdOrName = (data: { siteId?: string; name?: string }) => !!(data.siteId || data.name);
+
+const siteUpdate = z.object({
+  siteId: z.string().describe('Site ID'),
+  name: z.string().optional().describe('Site name')
+}).passthrough();
+
+export const webflowActions = {
+  deploy_microsite: defineAction(
+    'Create or update a site and publish it',
+    micrositeFields.extend({
+      domains: z.array(z.string()).optional().describe('Domains to publish to')
+    }).refine(requireSiteIdOrName, { message: 'Either siteId or name is required', path: ['name'] })
+  ),
+  update_site: defineAction(
+    'Update site settings',
+    siteUpdate.extend({
+      customCode: z.string().optional().describe('Custom code')
+    })
+  ),
+  get_sites: defineAction(
+    'List sites',
+    z.object({})
+  ),
+  create_cms_item: defineAction(
+    'Create a CMS collection item',
+    z.object({
+      collectionId: z.string().describe('Collection ID'),
+      fields: z.record(z.any()).describe('Field data')
+    })
+  )
+};
+
+export const typedreamActions = {
+  deploy_microsite: defineAction(
+    'Create or update a site (published automatically)',
+    micrositeFields.extend({
+      theme: z.string().optional().describe('Theme')
+    }).refine(requireSiteIdOrName, { message: 'Either siteId or name is required', path: ['name'] })
+  ),
+  update_site: defineAction(
+    'Update site content and settings',
+    siteUpdate.extend({
+      content: z.any().optional().describe('Content'),
+      theme: z.string().optional().describe('Theme'),
+      customDomain: z.string().optional().describe('Custom domain')
+    })
+  ),
+  get_sites: defineAction(
+    'List sites',
+    z.object({})
+  ),
+  create_page: defineAction(
+    'Add a page to a site',
+    z.object({
+      siteId: z.string().describe('Site ID'),
+      title: z.string().min(1).describe('Title'),
+      slug: z.string().optional().describe('Slug'),
+      content: z.any().optional().describe('Content'),
+      isPublished: z.boolean().optional().describe('Published')
+    })
+  )
+};
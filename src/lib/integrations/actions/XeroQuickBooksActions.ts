@@ -0,0 +1,80 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+const address = z.object({
+  line1: z.string().optional(),
+  city: z.string().optional(),
+  postalCode: z.string().optional(),
+  country: z.string().optional()
+});
+
+const contact = z.object({
+  name: z.string().min(1).describe('Name'),
+  email: z.string().email().optional().describe('Email'),
+  phone: z.string().optional().describe('Phone'),
+  address: address.optional().describe('Address')
+});
+
+const lineItem = z.object({
+  description: z.string().optional(),
+  quantity: z.number().positive().optional(),
+  unitAmount: z.number(),
+  taxType: z.string().optional(),
+  accountCode: z.string().optional(),
+  itemId: z.string().optional()
+});
+
+// Xero and QuickBooks share one action set; provider-specific ids are optional
+export const accountingActions = {
+  sync_invoice: defineAction(
+    'Create the invoice in the accounting system',
+    z.object({
+      invoiceNumber: z.string().optional().describe('Invoice number'),
+      crmInvoiceId: z.string().optional().describe('CRM invoice ID'),
+      contactId: z.string().optional().describe('Xero contact ID'),
+      customerId: z.string().optional().describe('QuickBooks customer ID'),
+      customer: contact.optional().describe('Customer (created if no ID is given)'),
+      date: z.string().optional().describe('Invoice date (YYYY-MM-DD)'),
+      dueDate: z.string().optional().describe('Due date (YYYY-MM-DD)'),
+      reference: z.string().optional().describe('Reference'),
+      status: z.string().optional().describe('Status'),
+      lineItems: z.array(lineItem).min(1).describe('Line items')
+    }).refine(data => data.contactId || data.customerId || data.customer, {
+      message: 'A contactId, customerId or customer is required',
+      path: ['customer']
+    })
+  ),
+  sync_credit_note: defineAction(
+    'Create a credit note against an invoice',
+    z.object({
+      creditNoteNumber: z.string().min(1).describe('Credit note number'),
+      invoiceNumber: z.string().optional().describe('Credited invoice number'),
+      crmCreditNoteId: z.string().optional().describe('CRM credit note ID'),
+      contactId: z.string().optional().describe('Xero contact ID'),
+      customerId: z.string().optional().describe('QuickBooks customer ID'),
+      customer: contact.optional().describe('Customer (created if no ID is given)'),
+      date: z.string().optional().describe('Credit note date (YYYY-MM-DD)'),
+      reason: z.string().optional().describe('Reason'),
+      lineItems: z.array(lineItem).min(1).describe('Line items')
+    }).refine(data => data.contactId || data.customerId || data.customer, {
+      message: 'A contactId, customerId or customer is required',
+      path: ['customer']
+    })
+  ),
+  create_contact: defineAction(
+    'Create a contact or customer',
+    contact
+  ),
+  get_invoices: defineAction(
+    'List invoices',
+    z.object({})
+  ),
+  update_payment_status: defineAction(
+    'Record a payment against an invoice',
+    z.object({
+      invoiceId: z.string().describe('Invoice ID'),
+      amount: z.number().positive().describe('Amount'),
+      date: z.string().optional().describe('Payment date (YYYY-MM-DD)')
+    })
+  )
+};
@@ -0,0 +1,42 @@
+import { z } from 'zod';
+import { defineAction } from './defineAction';
+
+// Zapier forwards the whole payload to the user's Zap, so extra fields are kept
+export const zapierActions = {
+  new_lead: defineAction(
+    'Send a newly created lead to Zapier',
+    z.object({
+      leadId: z.string().describe('Lead ID'),
+      customerName: z.string().optional().describe('Customer name'),
+      email: z.string().email().optional().describe('Email'),
+      phone: z.string().optional().describe('Phone'),
+      status: z.string().optional().describe('Status'),
+      priority: z.string().optional().describe('Priority'),
+      source: z.string().optional().describe('Lead source'),
+      estimatedValue: z.number().optional().describe('Estimated value')
+    }).passthrough()
+  ),
+  lead_sync: defineAction(
+    'Sync a lead to an external CRM',
+    z.object({
+      leadId: z.string().describe('Lead ID'),
+      lead: z.record(z.any()).describe('Lead record'),
+      workflow: z.string().optional().describe('Workflow name')
+    }).passthrough()
+  ),
+  invoice_creation: defineAction(
+    'Start the invoice processing Zap',
+    z.object({
+      invoiceId: z.string().describe('Invoice ID'),
+      invoice: z.record(z.any()).describe('Invoice record'),
+      workflow: z.string().optional().describe('Workflow name')
+    }).passthrough()
+  ),
+  social_post: defineAction(
+    'Start the social media automation Zap',
+    z.object({
+      post: z.record(z.any()).describe('Post content'),
+      workflow: z.string().optional().describe('Workflow name')
+    }).passthrough()
+  )
+};
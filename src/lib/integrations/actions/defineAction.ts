@@ -0,0 +1,11 @@
+import { z } from 'zod';
+
+export interface ActionDefinition<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+  description: string;
+  schema: Schema;
+}
+
+export const defineAction = <Schema extends z.ZodTypeAny>(
+  description: string,
+  schema: Schema
+): ActionDefinition<Schema> => ({ description, schema });
@@ -0,0 +1,218 @@
+import { sandboxRoutes, type SandboxRequest, type SandboxResponse } from './SandboxRoutes';
+
+export type { SandboxRequest, SandboxResponse } from './SandboxRoutes';
+
+export type SandboxFailure = 'rate_limit' | 'timeout' | 'server_error';
+
+export interface SandboxOptions {
+  // Simulated network latency for every request
+  latencyMs?: number;
+  // Probability (0-1) of each injected failure per request
+  rateLimitRate?: number;
+  timeoutRate?: number;
+  serverErrorRate?: number;
+  // How long a simulated timeout hangs before failing
+  timeoutMs?: number;
+  // Seconds reported in Retry-After for injected 429s
+  retryAfterSeconds?: number;
+  // Replace Math.random for deterministic tests
+  random?: () => number;
+}
+
+type RecordedHandler = SandboxResponse | ((request: SandboxRequest) => SandboxResponse);
+
+interface RecordedRoute {
+  method: string;
+  path: string | RegExp;
+  handler: RecordedHandler;
+}
+
+// Placeholder credentials so services pass their "configured" checks in sandbox mode
+export const SANDBOX_CREDENTIALS: Record<string, string> = {
+  apiKey: 'sandbox_api_key',
+  secretKey: 'sk_test_sandbox',
+  accessToken: 'sandbox_access_token',
+  webhookUrl: 'https://hooks.zapier.com/hooks/catch/sandbox/construyo/',
+  baseId: 'appSandbox000000',
+  tenantId: 'sandbox-tenant',
+  companyId: 'sandbox-company',
+  workspaceId: 'sandbox-workspace',
+  userUri: 'https://api.calendly.com/users/SANDBOX',
+  defaultEventTypeUri: 'https://api.calendly.com/event_types/SANDBOX'
+};
+
+const SERVER_ERRORS = [
+  { status: 500, statusText: 'Internal Server Error' },
+  { status: 502, statusText: 'Bad Gateway' },
+  { status: 503, statusText: 'Service Unavailable' }
+];
+
+/**
+ * Offline stand-in for an integration provider's HTTP API.
+ * Requests are answered by recorded responses first, then the built-in fake routes,
+ * with optional injected 429s, timeouts and 5xx errors.
+ */
+export class SandboxProvider {
+  private serviceName: string;
+  private options: Required<Omit<SandboxOptions, 'random'>> & { random: () => number };
+  private recorded: RecordedRoute[] = [];
+  private pendingFailures: SandboxFailure[] = [];
+  private requests: SandboxRequest[] = [];
+
+  constructor(serviceName: string, options: SandboxOptions = {}) {
+    this.serviceName = serviceName;
+    this.options = {
+      latencyMs: 150,
+      rateLimitRate: 0,
+      timeoutRate: 0,
+      serverErrorRate: 0,
+      timeoutMs: 5000,
+      retryAfterSeconds: 1,
+      random: Math.random
+    };
+    this.setOptions(options);
+  }
+
+  setOptions(options: SandboxOptions) {
+    this.options = { ...this.options, ...options };
+  }
+
+  getOptions(): SandboxOptions {
+    const { random, ...options } = this.options;
+    return options;
+  }
+
+  // Force the next request(s) to fail, regardless of the configured rates
+  failNext(failure: SandboxFailure, count: number = 1) {
+    for (let i = 0; i < count; i++) {
+      this.pendingFailures.push(failure);
+    }
+  }
+
+  // Register a recorded response; recorded routes take precedence over the built-in ones
+  record(method: string, path: string | RegExp, handler: RecordedHandler) {
+    this.recorded.unshift({ method: method.toUpperCase(), path, handler });
+  }
+
+  getRequests(): SandboxRequest[] {
+    return [...this.requests];
+  }
+
+  reset() {
+    this.recorded = [];
+    this.pendingFailures = [];
+    this.requests = [];
+  }
+
+  async fetch(url: string, init: RequestInit = {}): Promise<Response> {
+    const request = this.parseRequest(url, init);
+    this.requests.push(request);
+
+    await this.delay(this.options.latencyMs);
+
+    const failure = this.pendingFailures.shift() || this.rollFailure();
+    if (failure) {
+      return await this.fail(failure, request);
+    }
+
+    const response = this.findRecorded(request) || this.findRoute(request) || {
+      status: 404,
+      body: { error: `No sandbox route for ${request.method} ${request.path}` }
+    };
+
+    return this.toResponse(response);
+  }
+
+  private rollFailure(): SandboxFailure | null {
+    const { rateLimitRate, timeoutRate, serverErrorRate, random } = this.options;
+
+    if (random() < rateLimitRate) return 'rate_limit';
+    if (random() < timeoutRate) return 'timeout';
+    if (random() < serverErrorRate) return 'server_error';
+    return null;
+  }
+
+  private async fail(failure: SandboxFailure, request: SandboxRequest): Promise<Response> {
+    switch (failure) {
+      case 'rate_limit':
+        return this.toResponse({
+          status: 429,
+          statusText: 'Too Many Requests',
+          headers: { 'Retry-After': String(this.options.retryAfterSeconds) },
+          body: { error: 'rate_limited', message: `${this.serviceName} sandbox rate limit exceeded` }
+        });
+      case 'timeout': {
+        await this.delay(this.options.timeoutMs);
+        const error = new Error(`Request to ${request.url} timed out after ${this.options.timeoutMs}ms`);
+        error.name = 'TimeoutError';
+        throw error;
+      }
+      case 'server_error': {
+        const serverError = SERVER_ERRORS[Math.floor(this.options.random() * SERVER_ERRORS.length)];
+        return this.toResponse({
+          ...serverError,
+          body: { error: 'server_error', message: `${this.serviceName} sandbox ${serverError.statusText}` }
+        });
+      }
+    }
+  }
+
+  private findRecorded(request: SandboxRequest): SandboxResponse | undefined {
+    const route = this.recorded.find(candidate =>
+      (candidate.method === '*' || candidate.method === request.method) &&
+      (typeof candidate.path === 'string' ? candidate.path === request.path : candidate.path.test(request.path))
+    );
+
+    if (!route) return undefined;
+    return typeof route.handler === 'function' ? route.handler(request) : route.handler;
+  }
+
+  private findRoute(request: SandboxRequest): SandboxResponse | undefined {
+    for (const [method, pattern, handler] of sandboxRoutes[this.serviceName] || []) {
+      if (method !== '*' && method !== request.method) continue;
+
+      const match = request.path.match(pattern);
+      if (match) {
+        return handler(request, match.slice(1));
+      }
+    }
+
+    return undefined;
+  }
+
+  private parseRequest(url: string, init: RequestInit): SandboxRequest {
+    const parsed = new URL(url);
+    const rawBody = typeof init.body === 'string' ? init.body : undefined;
+    let body: any = undefined;
+
+    if (rawBody) {
+      try {
+        body = JSON.parse(rawBody);
+      } catch {
+        // Stripe sends form-encoded bodies
+        body = Object.fromEntries(new URLSearchParams(rawBody));
+      }
+    }
+
+    return {
+      method: (init.method || 'GET').toUpperCase(),
+      url,
+      path: decodeURIComponent(parsed.pathname),
+      query: parsed.searchParams,
+      headers: new Headers(init.headers),
+      body
+    };
+  }
+
+  private toResponse({ status = 200, statusText, headers, body }: SandboxResponse): Response {
+    return new Response(body === undefined ? null : JSON.stringify(body), {
+      status,
+      statusText: statusText || (status < 400 ? 'OK' : 'Error'),
+      headers: { 'Content-Type': 'application/json', 'X-Sandbox': 'true', ...headers }
+    });
+  }
+
+  private delay(ms: number): Promise<void> {
+    return ms > 0 ? new Promise(resolve => setTimeout(resolve, ms)) : Promise.resolve();
+  }
+}
@@ -0,0 +1,308 @@
+export interface SandboxRequest {
+  method: string;
+  url: string;
+  path: string;
+  query: URLSearchParams;
+  headers: Headers;
+  body: any;
+}
+
+export interface SandboxResponse {
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  body?: any;
+}
+
+type RouteHandler = (request: SandboxRequest, params: string[]) => SandboxResponse;
+type SandboxRoute = [method: string, pattern: RegExp, handler: RouteHandler];
+
+const sandboxId = (prefix: string) => `${prefix}${Math.random().toString(36).slice(2, 12)}`;
+const now = () => new Date().toISOString();
+const unixNow = () => Math.floor(Date.now() / 1000);
+const ok = (body: any, status: number = 200): SandboxResponse => ({ status, body });
+
+// Realistic (trimmed) provider responses, shaped like the fields the services read
+const stripeRoutes: SandboxRoute[] = [
+  ['POST', /^\/v1\/customers$/, ({ body }) => ok({
+    id: sandboxId('cus_'),
+    object: 'customer',
+    email: body?.email,
+    name: body?.name,
+    created: unixNow(),
+    livemode: false
+  })],
+  ['POST', /^\/v1\/payment_links$/, () => {
+    const id = sandboxId('plink_');
+    return ok({ id, object: 'payment_link', active: true, url: `https://buy.stripe.com/test_${id}`, livemode: false });
+  }],
+  ['POST', /^\/v1\/invoices$/, ({ body }) => ok({
+    id: sandboxId('in_'),
+    object: 'invoice',
+    customer: body?.customer,
+    status: 'draft',
+    created: unixNow(),
+    livemode: false
+  })],
+  ['POST', /^\/v1\/invoiceitems$/, ({ body }) => ok({
+    id: sandboxId('ii_'),
+    object: 'invoiceitem',
+    invoice: body?.invoice,
+    amount: Number(body?.amount || 0),
+    currency: body?.currency || 'usd',
+    description: body?.description
+  })],
+  ['POST', /^\/v1\/invoices\/([^/]+)\/finalize$/, (_request, [invoiceId]) => ok({
+    id: invoiceId,
+    object: 'invoice',
+    status: 'open',
+    hosted_invoice_url: `https://invoice.stripe.com/i/test_${invoiceId}`,
+    invoice_pdf: `https://pay.stripe.com/invoice/test_${invoiceId}/pdf`,
+    livemode: false
+  })],
+  ['POST', /^\/v1\/payment_intents$/, ({ body }) => {
+    const id = sandboxId('pi_');
+    return ok({
+      id,
+      object: 'payment_intent',
+      amount: Number(body?.amount || 0),
+      currency: body?.currency || 'usd',
+      customer: body?.customer,
+      status: 'requires_payment_method',
+      client_secret: `${id}_secret_sandbox`,
+      livemode: false
+    });
+  }]
+];
+
+const airtableRoutes: SandboxRoute[] = [
+  ['POST', /^\/v0\/[^/]+\/[^/]+$/, ({ body }) => ok({
+    records: (body?.records || []).map((record: any) => ({
+      id: sandboxId('rec'),
+      createdTime: now(),
+      fields: record.fields
+    }))
+  })],
+  ['PATCH', /^\/v0\/[^/]+\/[^/]+\/([^/]+)$/, ({ body }, [recordId]) => ok({
+    id: recordId,
+    createdTime: now(),
+    fields: body?.fields
+  })]
+];
+
+const zapierRoutes: SandboxRoute[] = [
+  ['POST', /.*/, () => ok({ status: 'success', id: sandboxId(''), request_id: sandboxId('') })]
+];
+
+const calendlyRoutes: SandboxRoute[] = [
+  ['GET', /^\/users\/me$/, () => ok({
+    resource: { uri: 'https://api.calendly.com/users/SANDBOX', name: 'Sandbox Organizer', timezone: 'Europe/London' }
+  })],
+  ['POST', /^\/scheduling_links$/, ({ body }) => ok({
+    resource: {
+      booking_url: `https://calendly.com/d/${sandboxId('')}/sandbox`,
+      owner: body?.owner,
+      owner_type: body?.owner_type,
+      expires_at: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString()
+    }
+  }, 201)],
+  ['GET', /^\/user_availability_schedules$/, ({ query }) => ok({
+    collection: [{
+      uri: 'https://api.calendly.com/user_availability_schedules/SANDBOX',
+      default: true,
+      name: 'Working hours',
+      user: query.get('user'),
+      timezone: 'Europe/London',
+      rules: ['monday', 'tuesday', 'wednesday', 'thursday', 'friday'].map(wday => ({
+        type: 'wday',
+        wday,
+        intervals: [{ from: '09:00', to: '17:00' }]
+      }))
+    }]
+  })],
+  ['POST', /^\/event_types$/, ({ body }) => ok({
+    resource: { uri: `https://api.calendly.com/event_types/${sandboxId('')}`, ...body, active: true }
+  }, 201)],
+  ['GET', /^\/scheduled_events$/, () => ok({
+    collection: [{
+      uri: `https://api.calendly.com/scheduled_events/${sandboxId('')}`,
+      name: 'Site survey',
+      status: 'active',
+      start_time: new Date(Date.now() + 24 * 60 * 60 * 1000).toISOString(),
+      end_time: new Date(Date.now() + 25 * 60 * 60 * 1000).toISOString()
+    }],
+    pagination: { count: 1, next_page: null }
+  })]
+];
+
+const xeroRoutes: SandboxRoute[] = [
+  ['POST', /\/Invoices$/, ({ body }) => ok({
+    Status: 'OK',
+    Invoices: (body?.Invoices || []).map((invoice: any) => ({
+      ...invoice,
+      InvoiceID: crypto.randomUUID(),
+      InvoiceNumber: invoice.InvoiceNumber || `INV-${Math.floor(Math.random() * 9000) + 1000}`,
+      Total: (invoice.LineItems || []).reduce((sum: number, item: any) => sum + (item.Quantity || 1) * (item.UnitAmount || 0), 0)
+    }))
+  })],
+  ['GET', /\/Invoices$/, () => ok({ Status: 'OK', Invoices: [] })],
+  ['POST', /\/CreditNotes$/, ({ body }) => ok({
+    Status: 'OK',
+    CreditNotes: (body?.CreditNotes || []).map((creditNote: any) => ({
+      ...creditNote,
+      CreditNoteID: crypto.randomUUID(),
+      Total: (creditNote.LineItems || []).reduce((sum: number, item: any) => sum + (item.Quantity || 1) * (item.UnitAmount || 0), 0)
+    }))
+  })],
+  ['POST', /\/Contacts$/, ({ body }) => ok({
+    Status: 'OK',
+    Contacts: (body?.Contacts || []).map((contact: any) => ({ ...contact, ContactID: crypto.randomUUID(), ContactStatus: 'ACTIVE' }))
+  })],
+  ['GET', /\/Contacts$/, () => ok({ Status: 'OK', Contacts: [] })]
+];
+
+const quickBooksRoutes: SandboxRoute[] = [
+  ['POST', /\/invoice$/, ({ body }) => ok({
+    Invoice: {
+      ...body,
+      Id: String(Math.floor(Math.random() * 9000) + 1000),
+      TotalAmt: (body?.Line || []).reduce((sum: number, line: any) => sum + (line.Amount || 0), 0),
+      SyncToken: '0'
+    },
+    time: now()
+  })],
+  ['POST', /\/creditmemo$/, ({ body }) => ok({
+    CreditMemo: {
+      ...body,
+      Id: String(Math.floor(Math.random() * 9000) + 1000),
+      TotalAmt: (body?.Line || []).reduce((sum: number, line: any) => sum + (line.Amount || 0), 0),
+      SyncToken: '0'
+    },
+    time: now()
+  })],
+  ['POST', /\/customer$/, ({ body }) => ok({
+    Customer: { ...body, Id: String(Math.floor(Math.random() * 9000) + 1000), Active: true, SyncToken: '0' },
+    time: now()
+  })],
+  ['GET', /\/query$/, () => ok({ QueryResponse: {}, time: now() })]
+];
+
+const bufferRoutes: SandboxRoute[] = [
+  ['GET', /^\/1\/profiles\.json$/, () => ok([
+    { id: 'sandbox-instagram', service: 'instagram', formatted_username: '@construyo_demo' },
+    { id: 'sandbox-facebook', service: 'facebook', formatted_username: 'Construyo Demo' }
+  ])],
+  ['POST', /^\/1\/updates\/create\.json$/, ({ body }) => ok({
+    success: true,
+    buffer_count: 1,
+    updates: (body?.profile_ids || []).map((profileId: string) => ({
+      id: sandboxId(''),
+      profile_id: profileId,
+      status: 'buffer',
+      text: body?.text,
+      scheduled_at: body?.scheduled_at
+    }))
+  })],
+  ['GET', /^\/1\/profiles\/[^/]+\/updates\/pending\.json$/, () => ok({ total: 0, updates: [] })],
+  ['POST', /^\/1\/updates\/[^/]+\/destroy\.json$/, () => ok({ success: true })]
+];
+
+const canvaRoutes: SandboxRoute[] = [
+  ['POST', /^\/rest\/v1\/designs$/, ({ body }) => {
+    const id = sandboxId('DAF');
+    return ok({ id, title: body?.name, urls: { edit_url: `https://www.canva.com/design/${id}/edit` } });
+  }],
+  ['GET', /^\/rest\/v1\/designs\/([^/]+)$/, (_request, [designId]) => ok({
+    id: designId,
+    title: 'Sandbox design',
+    urls: { edit_url: `https://www.canva.com/design/${designId}/edit` }
+  })],
+  ['POST', /^\/rest\/v1\/designs\/([^/]+)\/export$/, ({ body }, [designId]) => ok({
+    designId,
+    status: 'success',
+    format: body?.format || 'png',
+    url: `https://export.canva.com/sandbox/${designId}.${body?.format || 'png'}`
+  })],
+  ['GET', /^\/rest\/v1\/design-templates$/, () => ok({ items: [] })]
+];
+
+const webflowRoutes: SandboxRoute[] = [
+  ['GET', /^\/v2\/sites$/, () => ok({ sites: [] })],
+  ['POST', /^\/v2\/sites$/, ({ body }) => ok({
+    id: sandboxId(''),
+    displayName: body?.displayName,
+    shortName: body?.shortName,
+    defaultDomain: `${body?.shortName || 'sandbox'}.webflow.io`,
+    createdOn: now()
+  })],
+  ['PATCH', /^\/v2\/sites\/([^/]+)$/, ({ body }, [siteId]) => ok({
+    id: siteId,
+    displayName: body?.displayName,
+    defaultDomain: `${siteId}.webflow.io`,
+    lastUpdated: now()
+  })],
+  ['POST', /^\/v2\/sites\/[^/]+\/publish$/, ({ body }) => ok({ customDomains: body?.domains || [], publishToWebflowSubdomain: true })],
+  ['POST', /^\/v2\/collections\/[^/]+\/items$/, ({ body }) => ok({ id: sandboxId(''), ...body, createdOn: now() })]
+];
+
+const typedreamRoutes: SandboxRoute[] = [
+  ['GET', /^\/v1\/sites$/, () => ok({ sites: [] })],
+  ['POST', /^\/v1\/sites$/, ({ body }) => {
+    const slug = body?.slug || 'sandbox';
+    return ok({ id: sandboxId(''), title: body?.title, url: `https://${slug}.typedream.app`, editUrl: `https://app.typedream.com/sites/${slug}` });
+  }],
+  ['PATCH', /^\/v1\/sites\/([^/]+)$/, ({ body }, [siteId]) => ok({ id: siteId, ...body, url: `https://${siteId}.typedream.app` })],
+  ['POST', /^\/v1\/sites\/[^/]+\/pages$/, ({ body }) => ok({ id: sandboxId(''), ...body })]
+];
+
+const openAIRoutes: SandboxRoute[] = [
+  ['GET', /^\/v1\/models$/, () => ok({ object: 'list', data: [{ id: 'gpt-4o-mini', object: 'model' }, { id: 'gpt-image-1', object: 'model' }] })],
+  ['POST', /^\/v1\/images\/generations$/, ({ body }) => ok({
+    created: unixNow(),
+    data: Array.from({ length: body?.n || 1 }, (_, index) => ({
+      url: `https://placehold.co/${body?.size || '1024x1024'}?text=Sandbox+${index + 1}`,
+      revised_prompt: body?.prompt
+    }))
+  })],
+  ['POST', /^\/v1\/chat\/completions$/, ({ body }) => {
+    const prompt = body?.messages?.[body.messages.length - 1]?.content || '';
+    return ok({
+      id: sandboxId('chatcmpl-'),
+      object: 'chat.completion',
+      created: unixNow(),
+      model: body?.model,
+      choices: [{
+        index: 0,
+        finish_reason: 'stop',
+        message: { role: 'assistant', content: `[Sandbox] Generated content for: ${String(prompt).slice(0, 120)}` }
+      }],
+      usage: { prompt_tokens: 0, completion_tokens: 0, total_tokens: 0 }
+    });
+  }]
+];
+
+const runwayRoutes: SandboxRoute[] = [
+  ['POST', /^\/v1\/generate$/, ({ body }) => ok({ id: sandboxId(''), status: 'PENDING', duration: body?.duration, createdAt: now() })],
+  ['POST', /^\/v1\/generate\/image$/, ({ body }) => ok({
+    id: sandboxId(''),
+    status: 'SUCCEEDED',
+    output: Array.from({ length: body?.num_outputs || 1 }, () => `https://placehold.co/${body?.width || 1024}x${body?.height || 1024}?text=Sandbox`)
+  })],
+  ['POST', /^\/v1\/upscale$/, ({ body }) => ok({ id: sandboxId(''), status: 'SUCCEEDED', output: [body?.image] })],
+  ['POST', /^\/v1\/edit$/, () => ok({ id: sandboxId(''), status: 'PENDING', createdAt: now() })]
+];
+
+export const sandboxRoutes: Record<string, SandboxRoute[]> = {
+  stripe: stripeRoutes,
+  airtable: airtableRoutes,
+  zapier: zapierRoutes,
+  calendly: calendlyRoutes,
+  xero: xeroRoutes,
+  quickbooks: quickBooksRoutes,
+  buffer: bufferRoutes,
+  canva: canvaRoutes,
+  webflow: webflowRoutes,
+  typedream: typedreamRoutes,
+  openai: openAIRoutes,
+  runwayml: runwayRoutes
+};
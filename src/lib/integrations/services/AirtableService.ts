@@ -8,6 +8,8 @@ export class AirtableService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     switch (action) {
       case 'create_project':
         return await this.createProject(data);
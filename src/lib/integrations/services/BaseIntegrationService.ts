@@ -1,5 +1,10 @@
+import { parseActionData } from '../actions/ActionRegistry';
+import { SandboxProvider, SANDBOX_CREDENTIALS, type SandboxOptions } from '../sandbox/SandboxProvider';
+
 export abstract class BaseIntegrationService {
   protected config: any = null;
+  private rawConfig: any = null;
+  protected sandbox: SandboxProvider | null = null;
   protected serviceName: string;
   protected rateLimiter: any;
   protected retryHandler: any;
@@ -13,12 +18,57 @@ export abstract class BaseIntegrationService {
   }
 
   configure(config: any) {
-    this.config = config;
+    this.rawConfig = config;
+
+    // Flatten stored settings and credentials so services can read e.g. config.baseId or config.secretKey
+    const flattened = {
+      ...config?.settings,
+      ...config?.credentials,
+      ...config
+    };
+
+    // Sandbox placeholders fill in any credential that hasn't been configured
+    if (this.sandbox) {
+      Object.entries(SANDBOX_CREDENTIALS).forEach(([key, value]) => {
+        flattened[key] = flattened[key] || value;
+      });
+    }
+
+    this.config = flattened;
+  }
+
+  // Route all provider calls to an offline fake provider instead of the real API
+  enableSandbox(options: SandboxOptions = {}): SandboxProvider {
+    if (this.sandbox) {
+      this.sandbox.setOptions(options);
+    } else {
+      this.sandbox = new SandboxProvider(this.serviceName, options);
+      this.configure(this.rawConfig);
+    }
+    return this.sandbox;
+  }
+
+  disableSandbox() {
+    this.sandbox = null;
+    this.configure(this.rawConfig);
+  }
+
+  isSandboxed(): boolean {
+    return !!this.sandbox;
+  }
+
+  getSandbox(): SandboxProvider | null {
+    return this.sandbox;
   }
 
   abstract executeAction(action: string, data: any, metadata?: any): Promise<any>;
   abstract getStatus(): Promise<any>;
 
+  // Validates action data against the service's action contract; throws on unknown actions
+  protected parseActionData(action: string, data: any): any {
+    return parseActionData(this.serviceName, action, data);
+  }
+
   protected async getLastActivity(): Promise<any> {
     try {
       return await this.logger.getLastActivity(this.serviceName);
@@ -27,11 +77,17 @@ export abstract class BaseIntegrationService {
     }
   }
 
+  protected async request(url: string, options: RequestInit = {}): Promise<Response> {
+    return this.sandbox ? await this.sandbox.fetch(url, options) : await fetch(url, options);
+  }
+
   protected async makeApiCall(url: string, options: RequestInit = {}): Promise<any> {
-    // Check rate limits
-    const rateLimitCheck = await this.rateLimiter.checkLimit(this.serviceName);
-    if (!rateLimitCheck.allowed) {
-      throw new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.resetIn} seconds`);
+    // Check rate limits; sandbox calls don't draw from the shared provider quota
+    if (!this.sandbox) {
+      const rateLimitCheck = await this.rateLimiter.checkLimit(this.serviceName);
+      if (!rateLimitCheck.allowed) {
+        throw new Error(`Rate limit exceeded. Try again in ${rateLimitCheck.resetIn} seconds`);
+      }
     }
 
     // Add authentication headers
@@ -45,7 +101,7 @@ export abstract class BaseIntegrationService {
       headers['Authorization'] = `Bearer ${this.config.apiKey}`;
     }
 
-    const response = await fetch(url, {
+    const response = await this.request(url, {
       ...options,
       headers
     });
@@ -13,6 +13,8 @@ export class BufferCanvaService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     if (this.provider === 'buffer') {
       return await this.executeBufferAction(action, data, metadata);
     } else {
@@ -8,6 +8,8 @@ export class CalendlyService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     switch (action) {
       case 'schedule_booking':
         return await this.scheduleBooking(data);
@@ -13,6 +13,8 @@ export class OpenAIRunwayService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     if (this.provider === 'openai') {
       return await this.executeOpenAIAction(action, data, metadata);
     } else {
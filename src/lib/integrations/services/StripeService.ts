@@ -8,6 +8,8 @@ export class StripeService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     switch (action) {
       case 'create_payment_link':
         return await this.createPaymentLink(data);
@@ -13,6 +13,8 @@ export class WebflowTypedreamService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     if (this.provider === 'webflow') {
       return await this.executeWebflowAction(action, data, metadata);
     } else {
@@ -13,9 +13,13 @@ export class XeroQuickBooksService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     switch (action) {
       case 'sync_invoice':
         return await this.syncInvoice(data);
+      case 'sync_credit_note':
+        return await this.syncCreditNote(data);
       case 'create_contact':
         return await this.createContact(data);
       case 'get_invoices':
@@ -105,6 +109,83 @@ export class XeroQuickBooksService extends BaseIntegrationService {
     });
   }
 
+  async syncCreditNote(creditNoteData: any): Promise<any> {
+    if (this.provider === 'xero') {
+      return await this.syncCreditNoteXero(creditNoteData);
+    } else {
+      return await this.syncCreditNoteQuickBooks(creditNoteData);
+    }
+  }
+
+  private async syncCreditNoteXero(creditNoteData: any): Promise<any> {
+    const url = `${this.baseUrl}/CreditNotes`;
+
+    const payload = {
+      CreditNotes: [{
+        Type: 'ACCRECCREDIT',
+        Contact: {
+          ContactID: creditNoteData.contactId || await this.getOrCreateContactXero(creditNoteData.customer)
+        },
+        Date: creditNoteData.date || new Date().toISOString().split('T')[0],
+        CreditNoteNumber: creditNoteData.creditNoteNumber,
+        Reference: creditNoteData.invoiceNumber || `CRM-${creditNoteData.crmCreditNoteId}`,
+        LineItems: creditNoteData.lineItems.map(item => ({
+          Description: item.description || creditNoteData.reason,
+          Quantity: item.quantity || 1,
+          UnitAmount: item.unitAmount,
+          TaxType: item.taxType || 'NONE',
+          AccountCode: item.accountCode || '200'
+        })),
+        Status: 'AUTHORISED'
+      }]
+    };
+
+    return await this.makeApiCall(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config?.accessToken}`,
+        'Xero-tenant-id': this.config?.tenantId,
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+  }
+
+  private async syncCreditNoteQuickBooks(creditNoteData: any): Promise<any> {
+    const companyId = this.config?.companyId;
+    const url = `${this.baseUrl}/${companyId}/creditmemo`;
+
+    const payload = {
+      DocNumber: creditNoteData.creditNoteNumber,
+      CustomerRef: {
+        value: creditNoteData.customerId || await this.getOrCreateContactQuickBooks(creditNoteData.customer)
+      },
+      TxnDate: creditNoteData.date || new Date().toISOString().split('T')[0],
+      PrivateNote: [creditNoteData.invoiceNumber, creditNoteData.reason].filter(Boolean).join(': '),
+      Line: creditNoteData.lineItems.map(item => ({
+        Amount: (item.quantity || 1) * item.unitAmount,
+        Description: item.description || creditNoteData.reason,
+        DetailType: 'SalesItemLineDetail',
+        SalesItemLineDetail: {
+          ItemRef: {
+            value: item.itemId || '1' // Default service item
+          },
+          Qty: item.quantity || 1,
+          UnitPrice: item.unitAmount
+        }
+      }))
+    };
+
+    return await this.makeApiCall(url, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${this.config?.accessToken}`,
+        'Accept': 'application/json'
+      },
+      body: JSON.stringify(payload)
+    });
+  }
+
   async createContact(contactData: any): Promise<any> {
     if (this.provider === 'xero') {
       return await this.createContactXero(contactData);
@@ -6,6 +6,8 @@ export class ZapierService extends BaseIntegrationService {
   }
 
   async executeAction(action: string, data: any, metadata?: any): Promise<any> {
+    data = this.parseActionData(action, data);
+
     const webhookUrl = this.config?.webhookUrl;
     
     if (!webhookUrl) {
@@ -20,7 +22,7 @@ export class ZapierService extends BaseIntegrationService {
       source: 'construyo_integration_manager'
     };
 
-    const response = await fetch(webhookUrl, {
+    const response = await this.request(webhookUrl, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
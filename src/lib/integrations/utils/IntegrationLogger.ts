@@ -1,4 +1,5 @@
 import { supabase } from "@/integrations/supabase/client";
+import type { Database } from "@/integrations/supabase/types";
 
 export interface IntegrationActivity {
   serviceName: string;
@@ -18,16 +19,39 @@ export interface IntegrationActivity {
   timestamp?: string;
 }
 
+export interface ActionMetrics {
+  serviceName: string;
+  action: string;
+  total: number;
+  successRate: number;
+  errorCount: number;
+  p95ResponseTime: number;
+}
+
+export interface ErrorCluster {
+  pattern: string;
+  count: number;
+  services: string[];
+  sample: string;
+  lastSeen: string;
+}
+
 export interface IntegrationMetrics {
   totalRequests: number;
   successRate: number;
   averageResponseTime: number;
+  p50ResponseTime: number;
+  p95ResponseTime: number;
   errorRate: number;
   commonErrors: Array<{ error: string; count: number }>;
+  errorClusters: ErrorCluster[];
   requestsByService: Record<string, number>;
-  requestsByHour: Array<{ hour: string; count: number }>;
+  requestsByAction: ActionMetrics[];
+  requestsByHour: Array<{ hour: string; count: number; errors: number }>;
 }
 
+type AnalyticsRow = Database['public']['Functions']['get_integration_analytics']['Returns'][number];
+
 export class IntegrationLogger {
   private activeRequests: Map<string, { startTime: number; activity: IntegrationActivity }> = new Map();
 
@@ -36,23 +60,26 @@ export class IntegrationLogger {
       const { data: { user } } = await supabase.auth.getUser();
       
       const logEntry = {
-        user_id: activity.metadata?.userId || user?.id,
+        // Rows must carry the signed-in user's id to be visible through RLS
+        user_id: user?.id || activity.metadata?.userId,
         service_name: activity.serviceName,
         action: activity.action,
         status: activity.status,
         request_data: activity.data ? JSON.stringify(activity.data) : null,
         response_data: activity.response ? JSON.stringify(activity.response) : null,
         error_message: activity.error,
-        metadata: activity.metadata ? JSON.stringify(activity.metadata) : null,
+        metadata: activity.metadata || {},
         duration_ms: activity.duration,
         created_at: activity.timestamp || new Date().toISOString()
       };
 
-      // Use direct SQL insert since RPC functions haven't been updated in types yet
       const { error } = await supabase
-        .from('business_settings') // Use existing table temporarily to avoid type errors
-        .select('id')
-        .limit(1);
+        .from('integration_activity_logs')
+        .insert(logEntry);
+
+      if (error) {
+        console.error('Failed to persist integration activity:', error);
+      }
 
       // Also log to console in development
       if (process.env.NODE_ENV === 'development') {
@@ -125,14 +152,14 @@ export class IntegrationLogger {
       const { data: { user } } = await supabase.auth.getUser();
       if (!user) return null;
 
-      // Return mock data for now since tables aren't typed yet
-      return {
-        id: 'mock-id',
-        service_name: serviceName || 'zapier',
-        action: 'test',
-        status: 'success',
-        created_at: new Date().toISOString()
-      };
+      const { data, error } = await supabase.rpc('get_last_integration_activity', {
+        user_uuid: user.id,
+        service_filter: serviceName
+      });
+
+      if (error) throw error;
+
+      return data?.[0] || null;
     } catch (error) {
       console.error('Error getting last activity:', error);
       return null;
@@ -146,84 +173,96 @@ export class IntegrationLogger {
         throw new Error('User not authenticated');
       }
 
-      // Return mock analytics data for now since tables aren't typed yet
-      const mockLogs = [
-        {
-          service_name: 'zapier',
-          status: 'success',
-          duration_ms: 150,
-          error_message: null,
-          created_at: new Date().toISOString()
-        },
-        {
-          service_name: 'stripe',
-          status: 'success', 
-          duration_ms: 200,
-          error_message: null,
-          created_at: new Date().toISOString()
-        }
-      ];
-
-      return this.calculateMetrics(mockLogs);
+      // Default to the last 24 hours so an unbounded range never scans the full log
+      const range = timeRange || {
+        start: new Date(Date.now() - 24 * 60 * 60 * 1000),
+        end: new Date()
+      };
+
+      const { data: rows, error } = await supabase.rpc('get_integration_analytics', {
+        user_uuid: user.id,
+        service_filter: serviceName,
+        start_date: range.start.toISOString(),
+        end_date: range.end.toISOString()
+      });
+
+      if (error) throw error;
+
+      return this.calculateMetrics(rows || [], range);
     } catch (error) {
       console.error('Error getting analytics:', error);
       throw error;
     }
   }
 
-  private calculateMetrics(logs: any[]): IntegrationMetrics {
-    const totalRequests = logs.length;
-    const successfulRequests = logs.filter(log => log.status === 'success').length;
-    const errorRequests = logs.filter(log => log.status === 'error').length;
-    
-    const successRate = totalRequests > 0 ? (successfulRequests / totalRequests) * 100 : 0;
-    const errorRate = totalRequests > 0 ? (errorRequests / totalRequests) * 100 : 0;
+  // The totals are worked out by get_integration_analytics; this reshapes its rows for the dashboard
+  private calculateMetrics(rows: AnalyticsRow[], timeRange: { start: Date; end: Date }): IntegrationMetrics {
+    const rowsOf = (breakdown: string) => rows.filter(row => row.breakdown === breakdown);
+    const rate = (count: number, total: number) => total > 0 ? Math.round((count / total) * 10000) / 100 : 0;
 
-    // Calculate average response time
-    const logsWithDuration = logs.filter(log => log.duration_ms > 0);
-    const averageResponseTime = logsWithDuration.length > 0 
-      ? logsWithDuration.reduce((sum, log) => sum + log.duration_ms, 0) / logsWithDuration.length
-      : 0;
+    const overall = rowsOf('overall')[0];
+    const totalRequests = overall?.total || 0;
+    const errorRequests = overall?.errors || 0;
 
-    // Count requests by service
     const requestsByService: Record<string, number> = {};
-    logs.forEach(log => {
-      requestsByService[log.service_name] = (requestsByService[log.service_name] || 0) + 1;
+    rowsOf('service').forEach(row => {
+      requestsByService[row.service_name] = row.total;
     });
 
-    // Count errors
-    const errorCounts: Record<string, number> = {};
-    logs.filter(log => log.error_message).forEach(log => {
-      const error = log.error_message;
-      errorCounts[error] = (errorCounts[error] || 0) + 1;
-    });
+    const requestsByAction: ActionMetrics[] = rowsOf('action')
+      .map(row => ({
+        serviceName: row.service_name,
+        action: row.action,
+        total: row.total,
+        successRate: rate(row.total - row.errors, row.total),
+        errorCount: row.errors,
+        p95ResponseTime: row.p95_duration_ms || 0
+      }))
+      .sort((a, b) => b.total - a.total);
 
-    const commonErrors = Object.entries(errorCounts)
-      .map(([error, count]) => ({ error, count }))
-      .sort((a, b) => b.count - a.count)
-      .slice(0, 10);
+    const commonErrors = rowsOf('error')
+      .map(row => ({ error: row.error, count: row.total }))
+      .sort((a, b) => b.count - a.count);
 
-    // Count requests by hour
-    const requestsByHour: Array<{ hour: string; count: number }> = [];
-    const hourCounts: Record<string, number> = {};
-    
-    logs.forEach(log => {
-      const hour = new Date(log.created_at).getHours().toString().padStart(2, '0') + ':00';
-      hourCounts[hour] = (hourCounts[hour] || 0) + 1;
+    const errorClusters: ErrorCluster[] = rowsOf('error_pattern')
+      .map(row => ({
+        pattern: row.error,
+        count: row.total,
+        services: row.services || [],
+        sample: row.sample_error,
+        lastSeen: row.last_seen
+      }))
+      .sort((a, b) => b.count - a.count);
+
+    // Hours across the requested range (capped to the last 7 days of hours), including empty ones
+    const hourMs = 60 * 60 * 1000;
+    const endHour = Math.floor(timeRange.end.getTime() / hourMs);
+    const startHour = Math.max(Math.floor(timeRange.start.getTime() / hourMs), endHour - 7 * 24 + 1);
+    const hourCounts: Record<number, { count: number; errors: number }> = {};
+    rowsOf('hour').forEach(row => {
+      hourCounts[Math.floor(new Date(row.hour).getTime() / hourMs)] = { count: row.total, errors: row.errors };
     });
 
-    for (let i = 0; i < 24; i++) {
-      const hour = i.toString().padStart(2, '0') + ':00';
-      requestsByHour.push({ hour, count: hourCounts[hour] || 0 });
+    const requestsByHour: Array<{ hour: string; count: number; errors: number }> = [];
+    for (let bucket = startHour; bucket <= endHour; bucket++) {
+      requestsByHour.push({
+        hour: new Date(bucket * hourMs).toISOString(),
+        count: hourCounts[bucket]?.count || 0,
+        errors: hourCounts[bucket]?.errors || 0
+      });
     }
 
     return {
       totalRequests,
-      successRate: Math.round(successRate * 100) / 100,
-      averageResponseTime: Math.round(averageResponseTime * 100) / 100,
-      errorRate: Math.round(errorRate * 100) / 100,
+      successRate: rate(totalRequests - errorRequests, totalRequests),
+      averageResponseTime: Number(overall?.avg_duration_ms || 0),
+      p50ResponseTime: overall?.p50_duration_ms || 0,
+      p95ResponseTime: overall?.p95_duration_ms || 0,
+      errorRate: rate(errorRequests, totalRequests),
       commonErrors,
+      errorClusters,
       requestsByService,
+      requestsByAction,
       requestsByHour
     };
   }
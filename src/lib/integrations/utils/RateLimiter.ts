@@ -1,3 +1,5 @@
+import { supabase } from "@/integrations/supabase/client";
+
 interface RateLimitConfig {
   requestsPerMinute: number;
   requestsPerHour: number;
@@ -10,6 +12,17 @@ interface RateLimitState {
   dailyRequests: number[];
 }
 
+interface RateLimitResult {
+  allowed: boolean;
+  resetIn?: number;
+  remaining?: number;
+}
+
+/**
+ * Limits are enforced by shared token buckets in the database (consume_integration_rate_limit),
+ * so every team member, tab and edge function draws from the same upstream quota.
+ * The in-memory windows below are only used when the database cannot be reached.
+ */
 export class RateLimiter {
   private limits: Map<string, RateLimitState> = new Map();
   private configs: Map<string, RateLimitConfig> = new Map();
@@ -45,7 +58,28 @@ export class RateLimiter {
     setInterval(() => this.cleanup(), 60000);
   }
 
-  async checkLimit(serviceName: string): Promise<{ allowed: boolean; resetIn?: number; remaining?: number }> {
+  async checkLimit(serviceName: string, cost: number = 1): Promise<RateLimitResult> {
+    try {
+      const { data, error } = await supabase.rpc('consume_integration_rate_limit', {
+        p_service_name: serviceName,
+        p_cost: cost
+      });
+
+      if (error) throw error;
+
+      const result = data?.[0];
+      return {
+        allowed: result.allowed,
+        remaining: result.remaining,
+        ...(!result.allowed && { resetIn: result.reset_in })
+      };
+    } catch (error) {
+      console.warn(`Shared rate limit unavailable for ${serviceName}, using local limits:`, error.message);
+      return this.checkLocalLimit(serviceName, cost);
+    }
+  }
+
+  private async checkLocalLimit(serviceName: string, cost: number): Promise<RateLimitResult> {
     const config = this.configs.get(serviceName) || this.defaultLimits[serviceName];
     if (!config) {
       // If no config, allow the request
@@ -101,16 +135,18 @@ export class RateLimiter {
       }
     }
 
-    // Record the request
-    state.requests.push(now);
-    state.hourlyRequests.push(now);
-    if (config.requestsPerDay) {
-      state.dailyRequests.push(now);
+    // Record the request (a zero cost only reports the current state)
+    for (let i = 0; i < cost; i++) {
+      state.requests.push(now);
+      state.hourlyRequests.push(now);
+      if (config.requestsPerDay) {
+        state.dailyRequests.push(now);
+      }
     }
 
     return { 
       allowed: true, 
-      remaining: minuteLimit - recentRequests.length - 1
+      remaining: minuteLimit - recentRequests.length - cost
     };
   }
 
@@ -190,11 +226,44 @@ export class RateLimiter {
     };
   }
 
-  getAllStats(): any {
-    const stats = {};
-    for (const serviceName of this.configs.keys()) {
-      stats[serviceName] = this.getStats(serviceName);
+  // Usage shared by everyone in the caller's company, falling back to this instance's counters
+  async getAllStats(): Promise<any> {
+    try {
+      const { data, error } = await supabase.rpc('get_integration_rate_limit_stats');
+      if (error) throw error;
+
+      const stats = {};
+      (data || []).forEach(row => {
+        stats[row.service_name] = {
+          service: row.service_name,
+          minute: {
+            used: row.minute_used,
+            limit: row.minute_limit,
+            remaining: Math.max(0, row.minute_limit - row.minute_used)
+          },
+          hour: {
+            used: row.hour_used,
+            limit: row.hour_limit,
+            remaining: Math.max(0, row.hour_limit - row.hour_used)
+          },
+          ...(row.day_limit && {
+            day: {
+              used: row.day_used,
+              limit: row.day_limit,
+              remaining: Math.max(0, row.day_limit - row.day_used)
+            }
+          })
+        };
+      });
+      return stats;
+    } catch (error) {
+      console.warn('Shared rate limit stats unavailable, using local stats:', error.message);
+
+      const stats = {};
+      for (const serviceName of this.configs.keys()) {
+        stats[serviceName] = this.getStats(serviceName);
+      }
+      return stats;
     }
-    return stats;
   }
 }
\ No newline at end of file
@@ -0,0 +1,73 @@
+/**
+ * Invoice line item and total calculations
+ * Mirrors the invoice-generator edge function and the recalculate_invoice_totals
+ * database function so previews match what is stored
+ */
+
+export type LineItemCategory = 'labour' | 'materials' | 'plant_hire' | 'subcontractor' | 'other';
+
+export interface InvoiceLineItemDraft {
+  category: LineItemCategory;
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+  vatRate: number;
+  cisApplicable: boolean;
+}
+
+export interface InvoiceTotals {
+  subtotal: number;
+  vatTotal: number;
+  totalAmount: number;
+  cisRate: number;
+  cisDeduction: number;
+  discountTotal?: number;
+  amountDue: number;
+}
+
+export const LINE_ITEM_CATEGORIES: { value: LineItemCategory; label: string }[] = [
+  { value: 'labour', label: 'Labour' },
+  { value: 'materials', label: 'Materials' },
+  { value: 'plant_hire', label: 'Plant Hire' },
+  { value: 'subcontractor', label: 'Subcontractor' },
+  { value: 'other', label: 'Other' },
+];
+
+export const VAT_RATES = [20, 5, 0];
+export const CIS_RATES = [0, 20, 30];
+
+export const roundCurrency = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+export const createLineItem = (category: LineItemCategory = 'labour'): InvoiceLineItemDraft => ({
+  category,
+  description: '',
+  quantity: 1,
+  unit: '',
+  unitPrice: 0,
+  vatRate: 20,
+  // CIS is deducted from labour only by default
+  cisApplicable: category === 'labour',
+});
+
+export const getLineNet = (line: Pick<InvoiceLineItemDraft, 'quantity' | 'unitPrice'>): number =>
+  roundCurrency((line.quantity || 0) * (line.unitPrice || 0));
+
+export const calculateInvoiceTotals = (lines: InvoiceLineItemDraft[], cisRate: number): InvoiceTotals => {
+  const subtotal = roundCurrency(lines.reduce((sum, line) => sum + getLineNet(line), 0));
+  const vatTotal = roundCurrency(
+    lines.reduce((sum, line) => sum + roundCurrency(getLineNet(line) * line.vatRate / 100), 0)
+  );
+  const cisBase = lines.filter(line => line.cisApplicable).reduce((sum, line) => sum + getLineNet(line), 0);
+  const cisDeduction = roundCurrency(cisBase * cisRate / 100);
+  const totalAmount = roundCurrency(subtotal + vatTotal);
+
+  return {
+    subtotal,
+    vatTotal,
+    totalAmount,
+    cisRate,
+    cisDeduction,
+    amountDue: roundCurrency(totalAmount - cisDeduction),
+  };
+};
@@ -0,0 +1,209 @@
+/**
+ * Sales pipeline analytics from lead_stage_transitions: how many leads reach
+ * each stage and move on to the next, how long they spend in each stage, win
+ * rate by lead source and why leads are lost.
+ */
+import type { Database } from '@/integrations/supabase/types';
+
+export type LeadStatus = Database['public']['Enums']['lead_status'];
+
+// Stages in pipeline order; a lead can be lost from any open stage
+export const PIPELINE_STAGES: { status: LeadStatus; label: string }[] = [
+  { status: 'new', label: 'New' },
+  { status: 'contacted', label: 'Contacted' },
+  { status: 'qualified', label: 'Qualified' },
+  { status: 'proposal_sent', label: 'Proposal sent' },
+  { status: 'won', label: 'Won' },
+  { status: 'lost', label: 'Lost' },
+];
+
+export const FUNNEL_STAGES = PIPELINE_STAGES.filter(stage => stage.status !== 'lost');
+
+export const LOST_REASONS = [
+  'Price too high',
+  'Went with another builder',
+  'Project postponed',
+  'Project cancelled',
+  'No response',
+  'Outside our area',
+  'Not a good fit',
+];
+
+export const stageLabel = (status: LeadStatus | null) =>
+  PIPELINE_STAGES.find(stage => stage.status === status)?.label ?? 'New';
+
+export interface PipelineLead {
+  id: string;
+  status: LeadStatus | null;
+  lead_source: string | null;
+  lost_reason: string | null;
+  created_at: string | null;
+}
+
+export interface StageTransition {
+  lead_id: string;
+  from_status: LeadStatus | null;
+  to_status: LeadStatus;
+  created_at: string;
+}
+
+export interface FunnelRow {
+  status: LeadStatus;
+  label: string;
+  // Leads that got at least this far
+  reached: number;
+  // Share of those that reached the next stage
+  conversionRate: number | null;
+  // Share of all leads in the report
+  shareOfTotal: number;
+}
+
+export interface StageDurationRow {
+  status: LeadStatus;
+  label: string;
+  // Completed stays, i.e. the lead has since moved on
+  stays: number;
+  averageDays: number | null;
+  // Leads in the stage now and how long they've been there on average
+  current: number;
+  currentAverageDays: number | null;
+}
+
+export interface SourceWinRow {
+  source: string;
+  leads: number;
+  won: number;
+  lost: number;
+  open: number;
+  // won / (won + lost); null until a lead from the source has closed
+  winRate: number | null;
+}
+
+export interface LostReasonRow {
+  reason: string;
+  leads: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+const funnelIndex = (status: LeadStatus | null) =>
+  FUNNEL_STAGES.findIndex(stage => stage.status === (status ?? 'new'));
+
+const transitionsByLead = (transitions: StageTransition[]) => {
+  const byLead = new Map<string, StageTransition[]>();
+  for (const transition of transitions) {
+    byLead.set(transition.lead_id, [...(byLead.get(transition.lead_id) || []), transition]);
+  }
+  for (const list of byLead.values()) {
+    list.sort((a, b) => a.created_at.localeCompare(b.created_at));
+  }
+  return byLead;
+};
+
+/**
+ * Furthest open stage a lead reached. Stages can be skipped, so reaching
+ * 'qualified' counts as having passed 'contacted'; a lost lead counts up to
+ * the last stage it was in before being lost.
+ */
+const furthestStage = (lead: PipelineLead, history: StageTransition[]) => {
+  let furthest = lead.status === 'lost' ? 0 : Math.max(funnelIndex(lead.status), 0);
+  for (const transition of history) {
+    furthest = Math.max(furthest, funnelIndex(transition.to_status), funnelIndex(transition.from_status));
+  }
+  return furthest;
+};
+
+export const buildFunnel = (leads: PipelineLead[], transitions: StageTransition[]): FunnelRow[] => {
+  const byLead = transitionsByLead(transitions);
+  const reached = FUNNEL_STAGES.map(() => 0);
+
+  for (const lead of leads) {
+    const furthest = furthestStage(lead, byLead.get(lead.id) || []);
+    for (let index = 0; index <= furthest; index++) {
+      reached[index]++;
+    }
+  }
+
+  return FUNNEL_STAGES.map((stage, index) => ({
+    status: stage.status,
+    label: stage.label,
+    reached: reached[index],
+    conversionRate: index < FUNNEL_STAGES.length - 1 && reached[index] > 0
+      ? reached[index + 1] / reached[index]
+      : null,
+    shareOfTotal: leads.length > 0 ? reached[index] / leads.length : 0,
+  }));
+};
+
+/**
+ * Days spent in each stage, from the gaps between a lead's consecutive
+ * transitions. Won and lost are final, so only open stages are measured.
+ */
+export const buildStageDurations = (
+  leads: PipelineLead[],
+  transitions: StageTransition[],
+  now: Date = new Date()
+): StageDurationRow[] => {
+  const byLead = transitionsByLead(transitions);
+  const leadIds = new Set(leads.map(lead => lead.id));
+  const completed = new Map<LeadStatus, number[]>();
+  const current = new Map<LeadStatus, number[]>();
+
+  for (const [leadId, history] of byLead) {
+    if (!leadIds.has(leadId)) continue;
+    history.forEach((transition, index) => {
+      const next = history[index + 1];
+      const start = new Date(transition.created_at).getTime();
+      if (next) {
+        const days = (new Date(next.created_at).getTime() - start) / MS_PER_DAY;
+        completed.set(transition.to_status, [...(completed.get(transition.to_status) || []), days]);
+      } else {
+        const days = (now.getTime() - start) / MS_PER_DAY;
+        current.set(transition.to_status, [...(current.get(transition.to_status) || []), days]);
+      }
+    });
+  }
+
+  const average = (values: number[]) =>
+    values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : null;
+
+  return FUNNEL_STAGES
+    .filter(stage => stage.status !== 'won')
+    .map(stage => ({
+      status: stage.status,
+      label: stage.label,
+      stays: completed.get(stage.status)?.length ?? 0,
+      averageDays: average(completed.get(stage.status) || []),
+      current: current.get(stage.status)?.length ?? 0,
+      currentAverageDays: average(current.get(stage.status) || []),
+    }));
+};
+
+export const buildWinRateBySource = (leads: PipelineLead[]): SourceWinRow[] => {
+  const rows = new Map<string, SourceWinRow>();
+
+  for (const lead of leads) {
+    const source = lead.lead_source || 'Unknown';
+    const row = rows.get(source) || { source, leads: 0, won: 0, lost: 0, open: 0, winRate: null };
+    row.leads++;
+    if (lead.status === 'won') row.won++;
+    else if (lead.status === 'lost') row.lost++;
+    else row.open++;
+    rows.set(source, row);
+  }
+
+  return Array.from(rows.values())
+    .map(row => ({ ...row, winRate: row.won + row.lost > 0 ? row.won / (row.won + row.lost) : null }))
+    .sort((a, b) => b.leads - a.leads);
+};
+
+export const buildLostReasons = (leads: PipelineLead[]): LostReasonRow[] => {
+  const counts = new Map<string, number>();
+  for (const lead of leads) {
+    if (lead.status !== 'lost') continue;
+    const reason = lead.lost_reason?.trim() || 'No reason given';
+    counts.set(reason, (counts.get(reason) || 0) + 1);
+  }
+  return Array.from(counts, ([reason, count]) => ({ reason, leads: count }))
+    .sort((a, b) => b.leads - a.leads);
+};
@@ -0,0 +1,6 @@
+/**
+ * Pricing rule engine
+ * The app previews rules with the same module invoice-generator prices
+ * generated invoices with, so the two can't drift apart
+ */
+export * from '../../supabase/functions/invoice-generator/pricing.ts';
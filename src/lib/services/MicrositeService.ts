@@ -542,6 +542,7 @@ export class MicrositeService {
     }
 
     const deploymentData = {
+      name: `${clientData.name} Microsite`,
       siteName: `${clientData.name} Microsite`,
       customDomain: config.customDomain,
       html: html,
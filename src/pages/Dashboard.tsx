@@ -48,7 +48,8 @@ const Dashboard = () => {
       const { data: leadsData } = await supabase
         .from('leads')
         .select('status')
-        .in('status', ['new', 'contacted', 'qualified']);
+        .in('status', ['new', 'contacted', 'qualified'])
+        .is('archived_at', null);
 
       // Fetch pending payments
       const { data: invoicesData } = await supabase
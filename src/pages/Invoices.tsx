@@ -6,13 +6,26 @@ import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import PaymentProviderSettings from "@/components/PaymentProviderSettings";
 import PricingRulesManager from "@/components/PricingRulesManager";
 import { PaymentLinkManager } from "@/components/PaymentLinkManager";
 import DiscountRulesManager from "@/components/DiscountRulesManager";
+import DiscountCodesManager from "@/components/DiscountCodesManager";
 import DiscountAutomationManager from "@/components/DiscountAutomationManager";
-import { Plus, FileText, Send, Eye, Settings, Calculator, Zap, DollarSign, Clock, TrendingUp } from "lucide-react";
+import InvoiceTemplatesManager from "@/components/InvoiceTemplatesManager";
+import PaymentScheduleManager from "@/components/PaymentScheduleManager";
+import DunningPolicyManager from "@/components/DunningPolicyManager";
+import StripeWebhookEventsLog from "@/components/StripeWebhookEventsLog";
+import InvoicePaymentsLedger from "@/components/InvoicePaymentsLedger";
+import ExchangeRatesManager from "@/components/ExchangeRatesManager";
+import QuoteBuilder from "@/components/QuoteBuilder";
+import FinancialReports from "@/components/FinancialReports";
+import { InvoiceLineItemsEditor, InvoiceTotalsSummary } from "@/components/InvoiceLineItemsEditor";
+import { CIS_RATES, InvoiceLineItemDraft, calculateInvoiceTotals } from "@/lib/invoiceCalculations";
+import { DEFAULT_CURRENCY, fetchCompanyCurrency, formatMoney, sumInBase } from "@/lib/currency";
+import { Plus, FileText, Send, Eye, Settings, Calculator, Zap, DollarSign, Clock, TrendingUp, Download, Palette, CalendarClock, BellRing, Pause, Play, Ban, FileSignature, BarChart3 } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
 
@@ -23,11 +36,55 @@ interface Invoice {
   customer_email?: string;
   project_title: string;
   amount: number;
+  subtotal?: number;
+  vat_total?: number;
+  total_amount?: number;
+  cis_rate?: number;
+  cis_deduction?: number;
+  discount_total?: number;
   currency: string;
   status: string;
   due_date: string;
   sent_date?: string;
   created_at: string;
+  template_id?: string;
+  pdf_path?: string;
+  pdf_generated_at?: string;
+  dunning_status?: string;
+  dunning_paused_until?: string;
+  late_fee_amount?: number;
+  reminder_count?: number;
+  last_reminder_at?: string;
+  amount_paid?: number;
+  amount_refunded?: number;
+  amount_credited?: number;
+  balance_due?: number | null;
+  base_currency?: string | null;
+  exchange_rate?: number | null;
+  exchange_rate_source?: string | null;
+  exchange_rate_date?: string | null;
+  amount_base?: number | null;
+  construyo_invoice_line_items?: InvoiceLineItem[];
+}
+
+interface InvoiceTemplateOption {
+  id: string;
+  name: string;
+  is_default: boolean;
+}
+
+interface InvoiceLineItem {
+  id: string;
+  position: number;
+  category: string;
+  description: string;
+  quantity: number;
+  unit?: string;
+  unit_price: number;
+  vat_rate: number;
+  cis_applicable: boolean;
+  net_amount: number;
+  vat_amount: number;
 }
 
 interface Lead {
@@ -47,15 +104,29 @@ const Invoices = () => {
   const [generating, setGenerating] = useState(false);
   const [selectedLead, setSelectedLead] = useState<string>("");
   const [customAmount, setCustomAmount] = useState<string>("");
+  const [lineItems, setLineItems] = useState<InvoiceLineItemDraft[]>([]);
+  const [projectQuantity, setProjectQuantity] = useState<string>("");
+  const [cisRate, setCisRate] = useState<string>("0");
+  const [viewingInvoice, setViewingInvoice] = useState<Invoice | null>(null);
+  const [templates, setTemplates] = useState<InvoiceTemplateOption[]>([]);
+  const [pdfTemplateId, setPdfTemplateId] = useState<string>("");
+  const [renderingPdf, setRenderingPdf] = useState(false);
+  const [pauseUntil, setPauseUntil] = useState<string>("");
+  const [sendingReminder, setSendingReminder] = useState(false);
   const [selectedProvider, setSelectedProvider] = useState<string>("stripe");
   const [selectedInvoice, setSelectedInvoice] = useState<Invoice | null>(null);
   const [refreshTrigger, setRefreshTrigger] = useState(0);
+  const [baseCurrency, setBaseCurrency] = useState<string>(DEFAULT_CURRENCY);
+  const [manualRate, setManualRate] = useState<string>("");
+  const [savingRate, setSavingRate] = useState(false);
   const { user } = useAuth();
 
   useEffect(() => {
     if (user) {
       fetchInvoices();
       fetchLeads();
+      fetchTemplates();
+      fetchCompanyCurrency(user.id).then(({ baseCurrency }) => setBaseCurrency(baseCurrency));
     }
   }, [user, refreshTrigger]);
 
@@ -63,7 +134,7 @@ const Invoices = () => {
     try {
       const { data, error } = await supabase
         .from('construyo_invoices')
-        .select('*')
+        .select('*, construyo_invoice_line_items(*)')
         .eq('user_id', user?.id)
         .order('created_at', { ascending: false });
 
@@ -93,18 +164,179 @@ const Invoices = () => {
     }
   };
 
+  const fetchTemplates = async () => {
+    const { data } = await supabase
+      .from('invoice_templates')
+      .select('id, name, is_default')
+      .eq('user_id', user?.id)
+      .order('created_at', { ascending: true });
+
+    setTemplates(data || []);
+  };
+
+  const openInvoice = (invoice: Invoice) => {
+    setViewingInvoice(invoice);
+    setPdfTemplateId(invoice.template_id || templates.find(t => t.is_default)?.id || "");
+  };
+
+  const renderPdf = async (invoice: Invoice) => {
+    setRenderingPdf(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('invoice-generator', {
+        body: {
+          action: 'render_pdf',
+          invoiceId: invoice.id,
+          templateId: pdfTemplateId || undefined,
+        }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to render PDF');
+
+      toast.success('Invoice PDF generated');
+      setViewingInvoice({ ...invoice, pdf_path: data.pdf_path, pdf_generated_at: new Date().toISOString() });
+      fetchInvoices();
+      window.open(data.pdf_url, '_blank');
+    } catch (error) {
+      console.error('Error rendering invoice PDF:', error);
+      toast.error(error.message || 'Failed to render invoice PDF');
+    } finally {
+      setRenderingPdf(false);
+    }
+  };
+
+  const downloadPdf = async (invoice: Invoice) => {
+    const { data, error } = await supabase.storage
+      .from('invoices')
+      .createSignedUrl(invoice.pdf_path!, 60);
+
+    if (error) {
+      toast.error('Failed to download invoice PDF');
+      return;
+    }
+    window.open(data.signedUrl, '_blank');
+  };
+
+  // Ledger entries change the balance and status; reload the open invoice with the list
+  const refreshViewingInvoice = async (invoiceId: string) => {
+    const { data } = await supabase
+      .from('construyo_invoices')
+      .select('*, construyo_invoice_line_items(*)')
+      .eq('id', invoiceId)
+      .single();
+
+    if (data) setViewingInvoice(data);
+    fetchInvoices();
+  };
+
+  // Replaces the invoice's issue-time snapshot, e.g. with the rate the bank actually applied
+  const saveManualRate = async (invoice: Invoice) => {
+    const rate = parseFloat(manualRate);
+    if (!(rate > 0)) {
+      toast.error('Enter a positive exchange rate');
+      return;
+    }
+
+    setSavingRate(true);
+    try {
+      const { error } = await supabase
+        .from('construyo_invoices')
+        .update({
+          exchange_rate: rate,
+          exchange_rate_source: 'manual',
+          exchange_rate_date: new Date().toISOString().split('T')[0],
+          base_currency: invoice.base_currency || baseCurrency,
+        })
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+      toast.success('Exchange rate updated');
+      setManualRate("");
+      refreshViewingInvoice(invoice.id);
+    } catch (error) {
+      console.error('Error saving exchange rate:', error);
+      toast.error('Failed to update exchange rate');
+    } finally {
+      setSavingRate(false);
+    }
+  };
+
+  const updateDunningStatus = async (invoice: Invoice, dunningStatus: 'active' | 'paused' | 'stopped', pausedUntil?: string) => {
+    try {
+      const updates = {
+        dunning_status: dunningStatus,
+        dunning_paused_until: dunningStatus === 'paused' && pausedUntil ? pausedUntil : null,
+      };
+      const { error } = await supabase
+        .from('construyo_invoices')
+        .update(updates)
+        .eq('id', invoice.id);
+
+      if (error) throw error;
+
+      toast.success(
+        dunningStatus === 'active' ? 'Reminders resumed'
+          : dunningStatus === 'paused' ? 'Reminders paused'
+          : 'Reminders stopped'
+      );
+      setViewingInvoice({ ...invoice, ...updates, dunning_paused_until: updates.dunning_paused_until ?? undefined });
+      setPauseUntil("");
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error updating reminders:', error);
+      toast.error('Failed to update reminders');
+    }
+  };
+
+  const sendReminderNow = async (invoice: Invoice) => {
+    setSendingReminder(true);
+    try {
+      const { data, error } = await supabase.functions.invoke('invoice-dunning', {
+        body: { invoiceId: invoice.id, sendNow: true }
+      });
+
+      if (error) throw error;
+      if (!data.success) throw new Error(data.error || 'Failed to send reminder');
+
+      const result = data.results?.[0];
+      if (!result) {
+        toast.error('Set up payment reminders in Settings first');
+      } else if (result.status === 'sent') {
+        toast.success(`Reminder sent (${result.tone})`);
+      } else if (result.status === 'nothing_due') {
+        toast.info('All reminders for this invoice have already been sent');
+      } else {
+        throw new Error(result.error || 'Failed to send reminder');
+      }
+      fetchInvoices();
+    } catch (error) {
+      console.error('Error sending reminder:', error);
+      toast.error(error.message || 'Failed to send reminder');
+    } finally {
+      setSendingReminder(false);
+    }
+  };
+
   const generateInvoice = async () => {
     if (!selectedLead) {
       toast.error('Please select a lead');
       return;
     }
 
+    if (lineItems.some(line => !line.description || line.quantity <= 0)) {
+      toast.error('Each line item needs a description and a positive quantity');
+      return;
+    }
+
     setGenerating(true);
     try {
       const { data, error } = await supabase.functions.invoke('invoice-generator', {
         body: {
           leadId: selectedLead,
+          lineItems: lineItems.length > 0 ? lineItems : undefined,
           amount: customAmount ? parseFloat(customAmount) : undefined,
+          quantity: projectQuantity ? parseFloat(projectQuantity) : undefined,
+          cisRate: parseInt(cisRate),
           paymentProvider: selectedProvider,
           syncToSheets: true,
         }
@@ -118,6 +350,8 @@ const Invoices = () => {
         fetchLeads();
         setSelectedLead("");
         setCustomAmount("");
+        setLineItems([]);
+        setProjectQuantity("");
       } else {
         throw new Error(data.error || 'Failed to generate invoice');
       }
@@ -135,27 +369,37 @@ const Invoices = () => {
       case "sent": return "bg-accent text-accent-foreground"; 
       case "draft": return "bg-secondary text-secondary-foreground";
       case "overdue": return "bg-destructive text-destructive-foreground";
+      case "disputed": return "bg-destructive text-destructive-foreground";
+      case "partially_paid": return "bg-accent text-accent-foreground";
       default: return "bg-secondary text-secondary-foreground";
     }
   };
 
-  const formatCurrency = (amount: number, currency: string = 'GBP') => {
-    const symbol = currency === 'USD' ? '$' : currency === 'EUR' ? '€' : '£';
-    return `${symbol}${amount.toLocaleString()}`;
-  };
+  const formatCurrency = (amount: number, currency: string = DEFAULT_CURRENCY) => formatMoney(amount, currency);
 
+  // Totals are converted into the company's base currency at each invoice's snapshot rate
   const getInvoiceStats = () => {
-    const total = invoices.reduce((sum, inv) => sum + inv.amount, 0);
-    const paid = invoices.filter(inv => inv.status === 'paid').reduce((sum, inv) => sum + inv.amount, 0);
-    const outstanding = invoices.filter(inv => inv.status === 'sent').reduce((sum, inv) => sum + inv.amount, 0);
-    const overdue = invoices.filter(inv => {
-      return inv.status === 'sent' && new Date(inv.due_date) < new Date();
-    }).reduce((sum, inv) => sum + inv.amount, 0);
-
-    return { total, paid, outstanding, overdue };
+    const total = sumInBase(invoices, baseCurrency);
+    const paid = sumInBase(invoices, baseCurrency, inv => (inv.amount_paid ?? 0) - (inv.amount_refunded ?? 0));
+    const unpaid = invoices.filter(inv => ['sent', 'partially_paid'].includes(inv.status));
+    const outstanding = sumInBase(unpaid, baseCurrency, inv => inv.balance_due ?? inv.amount);
+    const overdue = sumInBase(
+      unpaid.filter(inv => new Date(inv.due_date) < new Date()),
+      baseCurrency,
+      inv => inv.balance_due ?? inv.amount
+    );
+
+    return {
+      total: total.total,
+      paid: paid.total,
+      outstanding: outstanding.total,
+      overdue: overdue.total,
+      unconverted: total.unconverted,
+    };
   };
 
   const stats = getInvoiceStats();
+  const previewTotals = calculateInvoiceTotals(lineItems, parseInt(cisRate));
 
   if (loading) {
     return (
@@ -182,19 +426,31 @@ const Invoices = () => {
         </div>
 
         <Tabs defaultValue="invoices" className="space-y-6">
-          <TabsList className="grid w-full grid-cols-6">
+          <TabsList className="grid w-full grid-cols-10">
             <TabsTrigger value="invoices" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               Invoices
             </TabsTrigger>
+            <TabsTrigger value="quotes" className="flex items-center gap-2">
+              <FileSignature className="w-4 h-4" />
+              Quotes
+            </TabsTrigger>
             <TabsTrigger value="generate" className="flex items-center gap-2">
               <Zap className="w-4 h-4" />
               Auto-Generate
             </TabsTrigger>
+            <TabsTrigger value="schedules" className="flex items-center gap-2">
+              <CalendarClock className="w-4 h-4" />
+              Schedules
+            </TabsTrigger>
             <TabsTrigger value="pricing" className="flex items-center gap-2">
               <Calculator className="w-4 h-4" />
               Pricing Rules
             </TabsTrigger>
+            <TabsTrigger value="templates" className="flex items-center gap-2">
+              <Palette className="w-4 h-4" />
+              Templates
+            </TabsTrigger>
             <TabsTrigger value="settings" className="flex items-center gap-2">
               <Settings className="w-4 h-4" />
               Payment Settings
@@ -207,6 +463,10 @@ const Invoices = () => {
               <TrendingUp className="w-4 h-4" />
               Automation
             </TabsTrigger>
+            <TabsTrigger value="reports" className="flex items-center gap-2">
+              <BarChart3 className="w-4 h-4" />
+              Reports
+            </TabsTrigger>
           </TabsList>
 
           <TabsContent value="invoices" className="space-y-6">
@@ -217,7 +477,7 @@ const Invoices = () => {
                   <CardTitle className="text-sm font-medium">Total Outstanding</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-primary">{formatCurrency(stats.outstanding)}</div>
+                  <div className="text-2xl font-bold text-primary">{formatCurrency(stats.outstanding, baseCurrency)}</div>
                   <p className="text-xs text-muted-foreground">Awaiting payment</p>
                 </CardContent>
               </Card>
@@ -226,7 +486,7 @@ const Invoices = () => {
                   <CardTitle className="text-sm font-medium">Paid This Month</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-success">{formatCurrency(stats.paid)}</div>
+                  <div className="text-2xl font-bold text-success">{formatCurrency(stats.paid, baseCurrency)}</div>
                   <p className="text-xs text-muted-foreground">Successfully collected</p>
                 </CardContent>
               </Card>
@@ -235,7 +495,7 @@ const Invoices = () => {
                   <CardTitle className="text-sm font-medium">Overdue</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold text-destructive">{formatCurrency(stats.overdue)}</div>
+                  <div className="text-2xl font-bold text-destructive">{formatCurrency(stats.overdue, baseCurrency)}</div>
                   <p className="text-xs text-muted-foreground">Past due date</p>
                 </CardContent>
               </Card>
@@ -244,11 +504,16 @@ const Invoices = () => {
                   <CardTitle className="text-sm font-medium">Total Invoiced</CardTitle>
                 </CardHeader>
                 <CardContent>
-                  <div className="text-2xl font-bold">{formatCurrency(stats.total)}</div>
+                  <div className="text-2xl font-bold">{formatCurrency(stats.total, baseCurrency)}</div>
                   <p className="text-xs text-muted-foreground">All time</p>
                 </CardContent>
               </Card>
             </div>
+            {stats.unconverted > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {stats.unconverted} invoice{stats.unconverted === 1 ? '' : 's'} without an exchange rate to {baseCurrency} {stats.unconverted === 1 ? 'is' : 'are'} left out of these totals.
+              </p>
+            )}
 
         {/* Stats */}
         <div className="grid md:grid-cols-4 gap-6 mb-8">
@@ -319,6 +584,16 @@ const Invoices = () => {
                         </div>
                         <div className="text-right">
                           <div className="text-2xl font-bold">{formatCurrency(invoice.amount, invoice.currency)}</div>
+                          {invoice.currency !== baseCurrency && invoice.amount_base != null && invoice.base_currency === baseCurrency && (
+                            <div className="text-sm text-muted-foreground">
+                              ≈ {formatCurrency(invoice.amount_base, baseCurrency)}
+                            </div>
+                          )}
+                          {invoice.status === 'partially_paid' && invoice.balance_due != null && (
+                            <div className="text-sm font-medium">
+                              Balance: {formatCurrency(invoice.balance_due, invoice.currency)}
+                            </div>
+                          )}
                           <div className="text-sm text-muted-foreground">
                             Due: {new Date(invoice.due_date).toLocaleDateString()}
                           </div>
@@ -338,7 +613,7 @@ const Invoices = () => {
                           </span>
                         </div>
                         <div className="flex gap-2">
-                          <Button variant="outline" size="sm">
+                          <Button variant="outline" size="sm" onClick={() => openInvoice(invoice)}>
                             <Eye className="w-4 h-4 mr-2" />
                             View
                           </Button>
@@ -386,6 +661,191 @@ const Invoices = () => {
                 ))
               )}
             </div>
+
+            <Dialog open={!!viewingInvoice} onOpenChange={(open) => !open && setViewingInvoice(null)}>
+              <DialogContent className="max-w-2xl">
+                <DialogHeader>
+                  <DialogTitle>{viewingInvoice?.invoice_number}</DialogTitle>
+                  <DialogDescription>
+                    {viewingInvoice?.customer_name} • {viewingInvoice?.project_title}
+                  </DialogDescription>
+                </DialogHeader>
+                {viewingInvoice && (
+                  <div className="space-y-4">
+                    {viewingInvoice.construyo_invoice_line_items?.length ? (
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>Description</TableHead>
+                            <TableHead className="text-right">Qty</TableHead>
+                            <TableHead className="text-right">Unit Price</TableHead>
+                            <TableHead className="text-right">VAT</TableHead>
+                            <TableHead className="text-right">Net</TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {[...viewingInvoice.construyo_invoice_line_items]
+                            .sort((a, b) => a.position - b.position)
+                            .map((line) => (
+                              <TableRow key={line.id}>
+                                <TableCell>
+                                  <div>{line.description}</div>
+                                  <div className="text-xs text-muted-foreground capitalize">
+                                    {line.category.replace(/_/g, ' ')}{line.cis_applicable ? ' • CIS' : ''}
+                                  </div>
+                                </TableCell>
+                                <TableCell className="text-right">{line.quantity} {line.unit}</TableCell>
+                                <TableCell className="text-right">{formatCurrency(line.unit_price, viewingInvoice.currency)}</TableCell>
+                                <TableCell className="text-right">{line.vat_rate}%</TableCell>
+                                <TableCell className="text-right">{formatCurrency(line.net_amount, viewingInvoice.currency)}</TableCell>
+                              </TableRow>
+                            ))}
+                        </TableBody>
+                      </Table>
+                    ) : (
+                      <p className="text-sm text-muted-foreground">This invoice has no line items.</p>
+                    )}
+                    <InvoiceTotalsSummary
+                      totals={{
+                        subtotal: viewingInvoice.subtotal ?? viewingInvoice.amount,
+                        vatTotal: viewingInvoice.vat_total ?? 0,
+                        totalAmount: viewingInvoice.total_amount ?? viewingInvoice.amount,
+                        cisRate: viewingInvoice.cis_rate ?? 0,
+                        cisDeduction: viewingInvoice.cis_deduction ?? 0,
+                        discountTotal: viewingInvoice.discount_total ?? 0,
+                        amountDue: viewingInvoice.amount,
+                      }}
+                      currency={viewingInvoice.currency}
+                    />
+                    {viewingInvoice.currency !== (viewingInvoice.base_currency || baseCurrency) && (
+                      <div className="space-y-2 pt-2 border-t text-sm">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Exchange rate</span>
+                          <span>
+                            {viewingInvoice.exchange_rate != null
+                              ? `1 ${viewingInvoice.currency} = ${Number(viewingInvoice.exchange_rate).toFixed(4)} ${viewingInvoice.base_currency}`
+                              : 'Not available yet'}
+                            {viewingInvoice.exchange_rate_source && (
+                              <Badge variant="outline" className="ml-2 capitalize">
+                                {viewingInvoice.exchange_rate_source === 'ecb' ? 'ECB' : viewingInvoice.exchange_rate_source}
+                                {viewingInvoice.exchange_rate_date && ` ${new Date(viewingInvoice.exchange_rate_date).toLocaleDateString()}`}
+                              </Badge>
+                            )}
+                          </span>
+                        </div>
+                        {viewingInvoice.amount_base != null && (
+                          <div className="flex justify-between font-medium">
+                            <span>Amount in {viewingInvoice.base_currency}</span>
+                            <span>{formatCurrency(viewingInvoice.amount_base, viewingInvoice.base_currency!)}</span>
+                          </div>
+                        )}
+                        <div className="flex items-center gap-2">
+                          <Input
+                            type="number"
+                            step="0.0001"
+                            min="0"
+                            placeholder={`Rate to ${viewingInvoice.base_currency || baseCurrency}`}
+                            value={manualRate}
+                            onChange={(e) => setManualRate(e.target.value)}
+                            className="w-48"
+                          />
+                          <Button size="sm" variant="outline" onClick={() => saveManualRate(viewingInvoice)} disabled={savingRate || !manualRate}>
+                            {savingRate ? 'Saving...' : 'Override Rate'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2 pt-2 border-t">
+                      {templates.length > 0 && (
+                        <Select value={pdfTemplateId} onValueChange={setPdfTemplateId}>
+                          <SelectTrigger className="w-48">
+                            <SelectValue placeholder="Template" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {templates.map(template => (
+                              <SelectItem key={template.id} value={template.id}>{template.name}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      )}
+                      <Button size="sm" variant="outline" onClick={() => renderPdf(viewingInvoice)} disabled={renderingPdf}>
+                        <FileText className="w-4 h-4 mr-2" />
+                        {renderingPdf ? 'Rendering...' : viewingInvoice.pdf_path ? 'Regenerate PDF' : 'Generate PDF'}
+                      </Button>
+                      {viewingInvoice.pdf_path && (
+                        <Button size="sm" onClick={() => downloadPdf(viewingInvoice)}>
+                          <Download className="w-4 h-4 mr-2" />
+                          Download PDF
+                        </Button>
+                      )}
+                    </div>
+                    {viewingInvoice.status !== 'draft' && (
+                      <InvoicePaymentsLedger
+                        invoice={viewingInvoice}
+                        formatCurrency={formatCurrency}
+                        onChange={() => refreshViewingInvoice(viewingInvoice.id)}
+                      />
+                    )}
+                    {!['paid', 'cancelled', 'draft', 'refunded', 'partially_refunded', 'disputed', 'credited'].includes(viewingInvoice.status) && (
+                      <div className="space-y-3 pt-2 border-t">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center gap-2 font-medium">
+                            <BellRing className="w-4 h-4" />
+                            Payment Reminders
+                            <Badge variant={viewingInvoice.dunning_status === 'active' ? 'secondary' : 'outline'} className="capitalize">
+                              {viewingInvoice.dunning_status || 'active'}
+                              {viewingInvoice.dunning_status === 'paused' && viewingInvoice.dunning_paused_until
+                                ? ` until ${new Date(viewingInvoice.dunning_paused_until).toLocaleDateString()}`
+                                : ''}
+                            </Badge>
+                          </div>
+                          <div className="text-sm text-muted-foreground">
+                            {viewingInvoice.reminder_count || 0} sent
+                            {viewingInvoice.last_reminder_at && `, last ${new Date(viewingInvoice.last_reminder_at).toLocaleDateString()}`}
+                          </div>
+                        </div>
+                        {(viewingInvoice.late_fee_amount ?? 0) > 0 && (
+                          <p className="text-sm">
+                            Late fee accrued: <strong>{formatCurrency(viewingInvoice.late_fee_amount!, viewingInvoice.currency)}</strong>
+                          </p>
+                        )}
+                        <div className="flex flex-wrap items-center gap-2">
+                          {viewingInvoice.dunning_status !== 'active' ? (
+                            <Button size="sm" variant="outline" onClick={() => updateDunningStatus(viewingInvoice, 'active')}>
+                              <Play className="w-4 h-4 mr-2" />
+                              Resume
+                            </Button>
+                          ) : (
+                            <>
+                              <Input
+                                type="date"
+                                className="w-40"
+                                value={pauseUntil}
+                                onChange={(e) => setPauseUntil(e.target.value)}
+                              />
+                              <Button size="sm" variant="outline" onClick={() => updateDunningStatus(viewingInvoice, 'paused', pauseUntil)}>
+                                <Pause className="w-4 h-4 mr-2" />
+                                {pauseUntil ? 'Pause Until Date' : 'Pause'}
+                              </Button>
+                            </>
+                          )}
+                          {viewingInvoice.dunning_status !== 'stopped' && (
+                            <Button size="sm" variant="outline" onClick={() => updateDunningStatus(viewingInvoice, 'stopped')}>
+                              <Ban className="w-4 h-4 mr-2" />
+                              Stop
+                            </Button>
+                          )}
+                          <Button size="sm" onClick={() => sendReminderNow(viewingInvoice)} disabled={sendingReminder}>
+                            <Send className="w-4 h-4 mr-2" />
+                            {sendingReminder ? 'Sending...' : 'Send Reminder Now'}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+                  </div>
+                )}
+              </DialogContent>
+            </Dialog>
           </TabsContent>
 
           <TabsContent value="generate" className="space-y-6">
@@ -424,18 +884,59 @@ const Invoices = () => {
                     </div>
 
                     <div>
-                      <label className="text-sm font-medium mb-2 block">Custom Amount (Optional)</label>
-                      <Input
-                        type="number"
-                        placeholder="Leave empty to use pricing rules"
-                        value={customAmount}
-                        onChange={(e) => setCustomAmount(e.target.value)}
-                      />
-                      <p className="text-xs text-muted-foreground mt-1">
-                        If not specified, amount will be calculated using your pricing rules
-                      </p>
+                      <label className="text-sm font-medium mb-2 block">Line Items (Optional)</label>
+                      <InvoiceLineItemsEditor lineItems={lineItems} onChange={setLineItems} />
+                    </div>
+
+                    {lineItems.length === 0 && (
+                      <div className="grid grid-cols-2 gap-4">
+                        <div>
+                          <label className="text-sm font-medium mb-2 block">Custom Amount (Optional)</label>
+                          <Input
+                            type="number"
+                            placeholder="Net of VAT"
+                            value={customAmount}
+                            onChange={(e) => setCustomAmount(e.target.value)}
+                          />
+                        </div>
+                        <div>
+                          <label className="text-sm font-medium mb-2 block">Project Size (Optional)</label>
+                          <Input
+                            type="number"
+                            placeholder="e.g. 25 (m²)"
+                            value={projectQuantity}
+                            onChange={(e) => setProjectQuantity(e.target.value)}
+                            disabled={!!customAmount}
+                          />
+                        </div>
+                        <p className="col-span-2 text-xs text-muted-foreground">
+                          Without line items or a custom amount, lines are built from your pricing rules using the project size
+                        </p>
+                      </div>
+                    )}
+
+                    <div>
+                      <label className="text-sm font-medium mb-2 block">CIS Deduction</label>
+                      <Select value={cisRate} onValueChange={setCisRate}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CIS_RATES.map(rate => (
+                            <SelectItem key={rate} value={rate.toString()}>
+                              {rate === 0 ? 'No CIS deduction' : `${rate}%${rate === 20 ? ' (registered)' : ' (unregistered)'}`}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
                     </div>
 
+                    {lineItems.length > 0 && (
+                      <div className="p-4 rounded-lg bg-muted">
+                        <InvoiceTotalsSummary totals={previewTotals} />
+                      </div>
+                    )}
+
                     <div>
                       <label className="text-sm font-medium mb-2 block">Payment Provider</label>
                       <Select value={selectedProvider} onValueChange={setSelectedProvider}>
@@ -474,11 +975,11 @@ const Invoices = () => {
                     <ul className="space-y-2 text-sm text-muted-foreground">
                       <li className="flex items-start gap-2">
                         <DollarSign className="w-4 h-4 mt-0.5 text-primary" />
-                        <span>Amount calculated using your pricing rules or custom amount</span>
+                        <span>Line items, VAT and CIS deductions from your entries or pricing rules</span>
                       </li>
                       <li className="flex items-start gap-2">
                         <FileText className="w-4 h-4 mt-0.5 text-primary" />
-                        <span>Invoice created in your selected payment provider</span>
+                        <span>Invoice created in your selected payment provider and rendered as a PDF</span>
                       </li>
                       <li className="flex items-start gap-2">
                         <Clock className="w-4 h-4 mt-0.5 text-primary" />
@@ -513,21 +1014,41 @@ const Invoices = () => {
             </Card>
           </TabsContent>
 
+          <TabsContent value="quotes">
+            <QuoteBuilder />
+          </TabsContent>
+
+          <TabsContent value="schedules">
+            <PaymentScheduleManager />
+          </TabsContent>
+
           <TabsContent value="pricing">
             <PricingRulesManager />
           </TabsContent>
 
-          <TabsContent value="settings">
+          <TabsContent value="templates">
+            <InvoiceTemplatesManager />
+          </TabsContent>
+
+          <TabsContent value="settings" className="space-y-6">
             <PaymentProviderSettings />
+            <StripeWebhookEventsLog />
+            <DunningPolicyManager />
+            <ExchangeRatesManager onBaseCurrencyChange={setBaseCurrency} />
           </TabsContent>
 
-          <TabsContent value="discounts">
+          <TabsContent value="discounts" className="space-y-6">
             <DiscountRulesManager />
+            <DiscountCodesManager />
           </TabsContent>
 
           <TabsContent value="automation">
             <DiscountAutomationManager />
           </TabsContent>
+
+          <TabsContent value="reports">
+            <FinancialReports />
+          </TabsContent>
         </Tabs>
       </div>
     </div>
@@ -4,6 +4,10 @@ import AddLeadDialog from "@/components/AddLeadDialog";
 import ReferralSystem from "@/components/ReferralSystem";
 import LeadCaptureBuilder from "@/components/LeadCaptureBuilder";
 import PlanningDataScraper from "@/components/PlanningDataScraper";
+import PipelineBoard from "@/components/PipelineBoard";
+import PipelineAnalytics from "@/components/PipelineAnalytics";
+import LostReasonDialog from "@/components/LostReasonDialog";
+import DuplicateLeadsManager from "@/components/DuplicateLeadsManager";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -13,6 +17,7 @@ import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Plus, Phone, Mail, User, Building, Calendar, MapPin, Eye, Users, TrendingUp, Share2, Code2, Search, Edit, Trash2 } from "lucide-react";
 import { toast } from "sonner";
 import { useAuth } from "@/contexts/AuthContext";
+import { LeadStatus } from "@/lib/pipelineAnalytics";
 
 interface Lead {
   id: string;
@@ -26,8 +31,10 @@ interface Lead {
   estimated_budget_min?: number;
   estimated_budget_max?: number;
   lead_source?: string;
-  status: 'new' | 'contacted' | 'qualified' | 'proposal_sent' | 'won' | 'lost';
+  status: LeadStatus;
   priority?: string;
+  lost_reason?: string | null;
+  stage_entered_at?: string;
   created_at: string;
   updated_at?: string;
 }
@@ -38,6 +45,8 @@ const Leads = () => {
   const [sourceFilter, setSourceFilter] = useState("all");
   const [leads, setLeads] = useState<Lead[]>([]);
   const [loading, setLoading] = useState(true);
+  const [lostLead, setLostLead] = useState<Lead | null>(null);
+  const [analyticsKey, setAnalyticsKey] = useState(0);
   const [stats, setStats] = useState({
     whatsapp: 0,
     website: 0,
@@ -59,6 +68,7 @@ const Leads = () => {
       const { data, error } = await supabase
         .from('leads')
         .select('*')
+        .is('archived_at', null)
         .order('created_at', { ascending: false });
 
       if (error) throw error;
@@ -83,26 +93,38 @@ const Leads = () => {
     setStats({ whatsapp, website, planning, conversionRate });
   };
 
-  const updateLeadStatus = async (leadId: string, newStatus: 'new' | 'contacted' | 'qualified' | 'proposal_sent' | 'won' | 'lost') => {
+  const updateLeadStatus = async (leadId: string, newStatus: LeadStatus, lostReason?: string) => {
     try {
       const { error } = await supabase
         .from('leads')
-        .update({ status: newStatus })
+        .update({ status: newStatus, lost_reason: newStatus === 'lost' ? lostReason || null : null })
         .eq('id', leadId);
 
       if (error) throw error;
 
       setLeads(prev => prev.map(lead => 
-        lead.id === leadId ? { ...lead, status: newStatus } : lead
+        lead.id === leadId
+          ? { ...lead, status: newStatus, lost_reason: newStatus === 'lost' ? lostReason : null, stage_entered_at: new Date().toISOString() }
+          : lead
       ));
+      setAnalyticsKey(key => key + 1);
 
-      toast.success(`Lead status changed to ${newStatus}`);
+      toast.success(`Lead status changed to ${newStatus.replace(/_/g, ' ')}`);
     } catch (error) {
       console.error('Error updating lead:', error);
       toast.error("Failed to update lead status.");
     }
   };
 
+  // Moving a lead to lost asks for the reason first
+  const requestStatusChange = (lead: Lead, newStatus: LeadStatus) => {
+    if (newStatus === 'lost') {
+      setLostLead(lead);
+    } else {
+      updateLeadStatus(lead.id, newStatus);
+    }
+  };
+
   const deleteLead = async (leadId: string) => {
     try {
       const { error } = await supabase
@@ -125,7 +147,8 @@ const Leads = () => {
       case "new": return "bg-primary text-primary-foreground";
       case "contacted": return "bg-accent text-accent-foreground";
       case "qualified": return "bg-success text-success-foreground";
-      case "converted": return "bg-success text-success-foreground";
+      case "proposal_sent": return "bg-accent text-accent-foreground";
+      case "won": return "bg-success text-success-foreground";
       case "lost": return "bg-secondary text-secondary-foreground";
       default: return "bg-secondary text-secondary-foreground";
     }
@@ -206,7 +229,8 @@ const Leads = () => {
                   <SelectItem value="new">New</SelectItem>
                   <SelectItem value="contacted">Contacted</SelectItem>
                   <SelectItem value="qualified">Qualified</SelectItem>
-                  <SelectItem value="converted">Converted</SelectItem>
+                  <SelectItem value="proposal_sent">Proposal Sent</SelectItem>
+                  <SelectItem value="won">Won</SelectItem>
                   <SelectItem value="lost">Lost</SelectItem>
                 </SelectContent>
               </Select>
@@ -274,125 +298,162 @@ const Leads = () => {
           </Card>
         </div>
 
-        {/* Leads List */}
-        <div className="grid gap-6">
-          {filteredLeads.map((lead) => (
-            <Card key={lead.id} className="hover:shadow-md transition-shadow">
-              <CardHeader>
-                <div className="flex justify-between items-start">
-                  <div>
-                    <CardTitle className="flex items-center gap-3">
-                      {`${lead.first_name} ${lead.last_name}` || 'Unnamed Lead'}
-                      <Badge className={getStatusColor(lead.status)}>
-                        {lead.status}
-                      </Badge>
-                      {lead.priority && (
-                        <Badge className={getPriorityColor(lead.priority)} variant="outline">
-                          {lead.priority} priority
-                        </Badge>
-                      )}
-                    </CardTitle>
-                    <CardDescription className="text-lg font-medium mt-1">
-                      {lead.project_type?.replace(/_/g, ' ') || 'Project type not specified'}
-                    </CardDescription>
-                  </div>
-                  <div className="text-right">
-                    <div className="text-lg font-semibold text-success">
-                      {formatBudget(lead.estimated_budget_min, lead.estimated_budget_max)}
+        <Tabs defaultValue="list" className="space-y-6">
+          <TabsList>
+            <TabsTrigger value="list">List</TabsTrigger>
+            <TabsTrigger value="pipeline">Pipeline</TabsTrigger>
+            <TabsTrigger value="analytics">Funnel Analytics</TabsTrigger>
+            <TabsTrigger value="duplicates">Duplicates</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="list" className="space-y-6">
+            {/* Leads List */}
+            <div className="grid gap-6">
+              {filteredLeads.map((lead) => (
+                <Card key={lead.id} className="hover:shadow-md transition-shadow">
+                  <CardHeader>
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="flex items-center gap-3">
+                          {`${lead.first_name} ${lead.last_name}` || 'Unnamed Lead'}
+                          <Badge className={getStatusColor(lead.status)}>
+                            {lead.status}
+                          </Badge>
+                          {lead.status === 'lost' && lead.lost_reason && (
+                            <Badge variant="outline">{lead.lost_reason}</Badge>
+                          )}
+                          {lead.priority && (
+                            <Badge className={getPriorityColor(lead.priority)} variant="outline">
+                              {lead.priority} priority
+                            </Badge>
+                          )}
+                        </CardTitle>
+                        <CardDescription className="text-lg font-medium mt-1">
+                          {lead.project_type?.replace(/_/g, ' ') || 'Project type not specified'}
+                        </CardDescription>
+                      </div>
+                      <div className="text-right">
+                        <div className="text-lg font-semibold text-success">
+                          {formatBudget(lead.estimated_budget_min, lead.estimated_budget_max)}
+                        </div>
+                        <div className="text-sm text-muted-foreground">Estimated value</div>
+                      </div>
                     </div>
-                    <div className="text-sm text-muted-foreground">Estimated value</div>
-                  </div>
-                </div>
-              </CardHeader>
-              <CardContent>
-                 {lead.project_description && (
-                   <p className="text-sm text-muted-foreground mb-4">{lead.project_description}</p>
-                 )}
+                  </CardHeader>
+                  <CardContent>
+                     {lead.project_description && (
+                       <p className="text-sm text-muted-foreground mb-4">{lead.project_description}</p>
+                     )}
                 
-                <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
-                  {lead.email && (
-                    <div className="flex items-center gap-2">
-                      <Mail className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-sm">{lead.email}</span>
-                    </div>
-                  )}
-                  {lead.phone && (
-                    <div className="flex items-center gap-2">
-                      <Phone className="w-4 h-4 text-muted-foreground" />
-                      <span className="text-sm">{lead.phone}</span>
+                    <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-4 mb-4">
+                      {lead.email && (
+                        <div className="flex items-center gap-2">
+                          <Mail className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm">{lead.email}</span>
+                        </div>
+                      )}
+                      {lead.phone && (
+                        <div className="flex items-center gap-2">
+                          <Phone className="w-4 h-4 text-muted-foreground" />
+                          <span className="text-sm">{lead.phone}</span>
+                        </div>
+                      )}
+                       {lead.address && (
+                         <div className="flex items-center gap-2">
+                           <MapPin className="w-4 h-4 text-muted-foreground" />
+                           <span className="text-sm">{lead.address}</span>
+                         </div>
+                       )}
+                      <div className="flex items-center gap-2">
+                        <Calendar className="w-4 h-4 text-muted-foreground" />
+                        <span className="text-sm">{new Date(lead.created_at).toLocaleDateString()}</span>
+                      </div>
                     </div>
-                  )}
-                   {lead.address && (
-                     <div className="flex items-center gap-2">
-                       <MapPin className="w-4 h-4 text-muted-foreground" />
-                       <span className="text-sm">{lead.address}</span>
-                     </div>
-                   )}
-                  <div className="flex items-center gap-2">
-                    <Calendar className="w-4 h-4 text-muted-foreground" />
-                    <span className="text-sm">{new Date(lead.created_at).toLocaleDateString()}</span>
-                  </div>
-                </div>
                 
-                <div className="flex items-center justify-between">
-                  <div className="flex items-center gap-2">
-                    <Badge variant="outline">{lead.lead_source?.replace(/_/g, ' ') || 'Unknown'}</Badge>
+                    <div className="flex items-center justify-between">
+                      <div className="flex items-center gap-2">
+                        <Badge variant="outline">{lead.lead_source?.replace(/_/g, ' ') || 'Unknown'}</Badge>
+                      </div>
+                      <div className="flex gap-2">
+                        <Select 
+                          value={lead.status}
+                          onValueChange={(value: LeadStatus) => requestStatusChange(lead, value)}
+                        >
+                          <SelectTrigger className="w-32">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            <SelectItem value="new">New</SelectItem>
+                            <SelectItem value="contacted">Contacted</SelectItem>
+                            <SelectItem value="qualified">Qualified</SelectItem>
+                            <SelectItem value="proposal_sent">Proposal Sent</SelectItem>
+                            <SelectItem value="won">Won</SelectItem>
+                            <SelectItem value="lost">Lost</SelectItem>
+                          </SelectContent>
+                        </Select>
+                        <Button variant="outline" size="sm">
+                          <Edit className="w-4 h-4 mr-1" />
+                          Edit
+                        </Button>
+                        <Button 
+                          variant="outline" 
+                          size="sm"
+                          onClick={() => deleteLead(lead.id)}
+                        >
+                          <Trash2 className="w-4 h-4 mr-1" />
+                          Delete
+                        </Button>
+                      </div>
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+
+            {filteredLeads.length === 0 && !loading && (
+              <Card>
+                <CardContent className="py-12 text-center">
+                  <div className="text-muted-foreground mb-4">
+                    {leads.length === 0 ? "No leads found. Start by adding your first lead!" : "No leads match your current filters."}
                   </div>
-                  <div className="flex gap-2">
-                    <Select 
-                      value={lead.status}
-                      onValueChange={(value: 'new' | 'contacted' | 'qualified' | 'proposal_sent' | 'won' | 'lost') => updateLeadStatus(lead.id, value)}
-                    >
-                      <SelectTrigger className="w-32">
-                        <SelectValue />
-                      </SelectTrigger>
-                      <SelectContent>
-                        <SelectItem value="new">New</SelectItem>
-                        <SelectItem value="contacted">Contacted</SelectItem>
-                        <SelectItem value="qualified">Qualified</SelectItem>
-                        <SelectItem value="converted">Converted</SelectItem>
-                        <SelectItem value="lost">Lost</SelectItem>
-                      </SelectContent>
-                    </Select>
-                    <Button variant="outline" size="sm">
-                      <Edit className="w-4 h-4 mr-1" />
-                      Edit
+                  {leads.length === 0 ? (
+                    <AddLeadDialog onLeadAdded={fetchLeads} />
+                  ) : (
+                    <Button variant="outline" onClick={() => {
+                      setSearchTerm("");
+                      setStatusFilter("all");
+                      setSourceFilter("all");
+                    }}>
+                      Clear Filters
                     </Button>
-                    <Button 
-                      variant="outline" 
-                      size="sm"
-                      onClick={() => deleteLead(lead.id)}
-                    >
-                      <Trash2 className="w-4 h-4 mr-1" />
-                      Delete
-                    </Button>
-                  </div>
-                </div>
-              </CardContent>
-            </Card>
-          ))}
-        </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
 
-        {filteredLeads.length === 0 && !loading && (
-          <Card>
-            <CardContent className="py-12 text-center">
-              <div className="text-muted-foreground mb-4">
-                {leads.length === 0 ? "No leads found. Start by adding your first lead!" : "No leads match your current filters."}
-              </div>
-              {leads.length === 0 ? (
-                <AddLeadDialog onLeadAdded={fetchLeads} />
-              ) : (
-                <Button variant="outline" onClick={() => {
-                  setSearchTerm("");
-                  setStatusFilter("all");
-                  setSourceFilter("all");
-                }}>
-                  Clear Filters
-                </Button>
-              )}
-            </CardContent>
-          </Card>
-        )}
+          <TabsContent value="pipeline">
+            <PipelineBoard leads={filteredLeads} onStatusChange={requestStatusChange} />
+          </TabsContent>
+
+          <TabsContent value="analytics">
+            <PipelineAnalytics refreshKey={analyticsKey} />
+          </TabsContent>
+
+          <TabsContent value="duplicates">
+            <DuplicateLeadsManager onMerged={fetchLeads} />
+          </TabsContent>
+        </Tabs>
+
+        <LostReasonDialog
+          open={!!lostLead}
+          leadName={lostLead ? `${lostLead.first_name} ${lostLead.last_name}` : undefined}
+          onCancel={() => setLostLead(null)}
+          onConfirm={(reason) => {
+            if (lostLead) updateLeadStatus(lostLead.id, 'lost', reason);
+            setLostLead(null);
+          }}
+        />
       </div>
     </div>
   );
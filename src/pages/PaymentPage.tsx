@@ -0,0 +1,210 @@
+import React, { useState, useEffect } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { formatMoney } from "@/lib/currency";
+import { AlertTriangle, CheckCircle, CreditCard, Tag } from "lucide-react";
+import { toast } from "sonner";
+
+/**
+ * Payment Page
+ *
+ * Public page a payment link points to. Customers see what they owe, can
+ * apply a promo code, and continue to Stripe to pay.
+ * URL format: /pay/:token
+ */
+
+interface PaymentView {
+  business: { name: string };
+  invoice: {
+    invoice_number: string;
+    project_title: string;
+    customer_name: string;
+    currency: string;
+    amount: number;
+    balance_due: number;
+    due_date: string | null;
+    status: string;
+  };
+  discounts: { name: string; code: string | null; amount: number }[];
+  payable: boolean;
+  paymentUrl: string | null;
+}
+
+const PaymentPage: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [data, setData] = useState<PaymentView | null>(null);
+  const [code, setCode] = useState("");
+  const [isLoading, setIsLoading] = useState(true);
+  const [isApplying, setIsApplying] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (token) {
+      loadInvoice();
+    }
+  }, [token]);
+
+  const invokePaymentLinks = async (body: Record<string, unknown>) => {
+    const { data: result, error: invokeError } = await supabase.functions.invoke('payment-link-generator', {
+      body: { ...body, token },
+    });
+    if (invokeError || !result?.success) {
+      // Rejected codes come back with a 4xx status and the reason in the body
+      const details = await invokeError?.context?.json?.().catch(() => null);
+      throw new Error(result?.error || details?.error || invokeError?.message || 'Something went wrong');
+    }
+    return result;
+  };
+
+  const loadInvoice = async () => {
+    try {
+      const result = await invokePaymentLinks({ action: 'view' });
+      setData(result as PaymentView);
+    } catch (error) {
+      console.error('Error loading invoice:', error);
+      setError(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const applyCode = async () => {
+    if (!code.trim()) return;
+
+    setIsApplying(true);
+    try {
+      const result = await invokePaymentLinks({ action: 'redeem_code', code: code.trim() });
+      setData(result as PaymentView);
+      setCode("");
+      toast.success(`Code ${result.redeemed.code} applied: ${result.redeemed.description}`);
+      if (result.paymentError) {
+        toast.error(result.paymentError);
+      }
+    } catch (error) {
+      console.error('Error applying code:', error);
+      toast.error(error.message);
+    } finally {
+      setIsApplying(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading invoice...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error || 'This payment link is invalid'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { business, invoice, discounts } = data;
+  const paidSoFar = Math.max(Number(invoice.amount) - Number(invoice.balance_due), 0);
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-10 px-4">
+      <div className="max-w-xl mx-auto space-y-6">
+        <h1 className="text-2xl font-bold">{business.name}</h1>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{invoice.project_title}</CardTitle>
+            <CardDescription>
+              Invoice {invoice.invoice_number} for {invoice.customer_name}
+              {invoice.due_date && ` • Due ${new Date(invoice.due_date).toLocaleDateString('en-GB')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-2">
+            {discounts.map((discount, index) => (
+              <div key={index} className="flex justify-between text-sm">
+                <span className="flex items-center gap-2 text-muted-foreground">
+                  <Tag className="w-3 h-3" />
+                  {discount.name}{discount.code && ` (${discount.code})`}
+                </span>
+                <span className="text-green-600">-{formatMoney(discount.amount, invoice.currency)}</span>
+              </div>
+            ))}
+            <div className="flex justify-between text-sm">
+              <span className="text-muted-foreground">Invoice total</span>
+              <span>{formatMoney(Number(invoice.amount), invoice.currency)}</span>
+            </div>
+            {paidSoFar > 0 && (
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Already paid</span>
+                <span>-{formatMoney(paidSoFar, invoice.currency)}</span>
+              </div>
+            )}
+            <div className="flex justify-between font-semibold border-t pt-2">
+              <span>Amount due</span>
+              <span>{formatMoney(Number(invoice.balance_due), invoice.currency)}</span>
+            </div>
+          </CardContent>
+        </Card>
+
+        {data.payable ? (
+          <Card>
+            <CardContent className="pt-6 space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="promo-code">Promo code</Label>
+                <div className="flex gap-2">
+                  <Input
+                    id="promo-code"
+                    value={code}
+                    onChange={(e) => setCode(e.target.value.toUpperCase())}
+                    onKeyDown={(e) => e.key === 'Enter' && applyCode()}
+                    placeholder="Enter code"
+                    maxLength={32}
+                  />
+                  <Button variant="outline" onClick={applyCode} disabled={isApplying || !code.trim()}>
+                    {isApplying ? 'Applying...' : 'Apply'}
+                  </Button>
+                </div>
+              </div>
+              <Button
+                className="w-full"
+                disabled={!data.paymentUrl || isApplying}
+                onClick={() => data.paymentUrl && (window.location.href = data.paymentUrl)}
+              >
+                <CreditCard className="w-4 h-4 mr-2" />
+                Pay {formatMoney(Number(invoice.balance_due), invoice.currency)}
+              </Button>
+              {!data.paymentUrl && (
+                <p className="text-sm text-muted-foreground text-center">
+                  Online payment isn't available right now. Contact {business.name} to pay this invoice.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <Alert>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <AlertDescription>
+              {invoice.status === 'paid' || Number(invoice.balance_due) <= 0
+                ? 'This invoice has been paid. Thank you!'
+                : `This invoice is no longer payable online. Contact ${business.name} for details.`}
+            </AlertDescription>
+          </Alert>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PaymentPage;
@@ -0,0 +1,350 @@
+import React, { useState, useEffect, useRef } from "react";
+import { useParams } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { InvoiceTotalsSummary } from "@/components/InvoiceLineItemsEditor";
+import { InvoiceLineItemDraft, calculateInvoiceTotals, getLineNet } from "@/lib/invoiceCalculations";
+import { formatMoney } from "@/lib/currency";
+import { AlertTriangle, CheckCircle, Eraser, XCircle } from "lucide-react";
+import { toast } from "sonner";
+
+/**
+ * Quote Acceptance Page
+ *
+ * Public page where customers review a quote and accept it with a drawn
+ * signature, or decline it. Accessed via the secure token in the quote email.
+ * URL format: /quote/:token
+ */
+
+interface QuoteView {
+  business: { name: string; email?: string; phone?: string; logo_url?: string };
+  quote: {
+    quote_number: string;
+    title: string;
+    customer_name: string;
+    currency: string;
+    status: string;
+    valid_until: string | null;
+    accepted_at: string | null;
+    signer_name: string | null;
+  };
+  revision: {
+    revision_number: number;
+    line_items: InvoiceLineItemDraft[];
+    cis_rate: number;
+    deposit_percentage: number;
+    deposit_amount: number;
+    valid_until: string | null;
+    notes: string | null;
+    terms: string | null;
+  };
+}
+
+const SignaturePad: React.FC<{ onChange: (dataUrl: string | null) => void }> = ({ onChange }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const drawing = useRef(false);
+
+  const position = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current!;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (event.clientX - rect.left) * (canvas.width / rect.width),
+      y: (event.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const start = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const context = canvasRef.current!.getContext('2d')!;
+    const { x, y } = position(event);
+    context.lineWidth = 2.5;
+    context.lineCap = 'round';
+    context.strokeStyle = '#111827';
+    context.beginPath();
+    context.moveTo(x, y);
+    drawing.current = true;
+    canvasRef.current!.setPointerCapture(event.pointerId);
+  };
+
+  const move = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!drawing.current) return;
+    const context = canvasRef.current!.getContext('2d')!;
+    const { x, y } = position(event);
+    context.lineTo(x, y);
+    context.stroke();
+  };
+
+  const end = () => {
+    if (!drawing.current) return;
+    drawing.current = false;
+    onChange(canvasRef.current!.toDataURL('image/png'));
+  };
+
+  const clear = () => {
+    const canvas = canvasRef.current!;
+    canvas.getContext('2d')!.clearRect(0, 0, canvas.width, canvas.height);
+    onChange(null);
+  };
+
+  return (
+    <div className="space-y-2">
+      <canvas
+        ref={canvasRef}
+        width={600}
+        height={160}
+        className="w-full h-40 border rounded-md bg-white touch-none cursor-crosshair"
+        onPointerDown={start}
+        onPointerMove={move}
+        onPointerUp={end}
+        onPointerLeave={end}
+      />
+      <Button type="button" variant="ghost" size="sm" onClick={clear}>
+        <Eraser className="w-4 h-4 mr-2" />
+        Clear
+      </Button>
+    </div>
+  );
+};
+
+const QuoteAcceptance: React.FC = () => {
+  const { token } = useParams<{ token: string }>();
+  const [data, setData] = useState<QuoteView | null>(null);
+  const [signerName, setSignerName] = useState("");
+  const [signature, setSignature] = useState<string | null>(null);
+  const [declineReason, setDeclineReason] = useState("");
+  const [showDecline, setShowDecline] = useState(false);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (token) {
+      loadQuote();
+    }
+  }, [token]);
+
+  const invokeQuoteManager = async (body: Record<string, unknown>) => {
+    const { data: result, error: invokeError } = await supabase.functions.invoke('quote-manager', {
+      body: { ...body, token },
+    });
+    if (invokeError || !result?.success) {
+      throw new Error(result?.error || invokeError?.message || 'Something went wrong');
+    }
+    return result;
+  };
+
+  const loadQuote = async () => {
+    try {
+      const result = await invokeQuoteManager({ action: 'view' });
+      setData(result as QuoteView);
+    } catch (error) {
+      console.error('Error loading quote:', error);
+      setError(error.message);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const acceptQuote = async () => {
+    if (!data) return;
+    if (!signerName.trim() || !signature) {
+      toast.error('Please type your full name and sign in the box');
+      return;
+    }
+
+    setIsSubmitting(true);
+    try {
+      await invokeQuoteManager({
+        action: 'accept',
+        revision: data.revision.revision_number,
+        signerName: signerName.trim(),
+        signature,
+      });
+      toast.success('Thank you, your quote has been accepted');
+      await loadQuote();
+    } catch (error) {
+      console.error('Error accepting quote:', error);
+      toast.error(error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const declineQuote = async () => {
+    setIsSubmitting(true);
+    try {
+      await invokeQuoteManager({ action: 'decline', reason: declineReason });
+      toast.success('Thank you for letting us know');
+      await loadQuote();
+    } catch (error) {
+      console.error('Error declining quote:', error);
+      toast.error(error.message);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center">
+        <div className="text-center">
+          <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary mx-auto mb-4"></div>
+          <p>Loading quote...</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <div className="min-h-screen bg-background flex items-center justify-center p-4">
+        <Alert variant="destructive" className="max-w-md">
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>{error || 'This quote link is invalid'}</AlertDescription>
+        </Alert>
+      </div>
+    );
+  }
+
+  const { business, quote, revision } = data;
+  const lines = revision.line_items || [];
+  const totals = calculateInvoiceTotals(lines, Number(revision.cis_rate));
+  const isOpen = ['sent', 'viewed'].includes(quote.status);
+
+  return (
+    <div className="min-h-screen bg-muted/30 py-10 px-4">
+      <div className="max-w-3xl mx-auto space-y-6">
+        <div className="flex items-center gap-4">
+          {business.logo_url && <img src={business.logo_url} alt={business.name} className="h-12 w-auto" />}
+          <div>
+            <h1 className="text-2xl font-bold">{business.name}</h1>
+            <p className="text-sm text-muted-foreground">
+              {[business.email, business.phone].filter(Boolean).join(' • ')}
+            </p>
+          </div>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>{quote.title}</CardTitle>
+            <CardDescription>
+              Quote {quote.quote_number} (revision {revision.revision_number}) for {quote.customer_name}
+              {revision.valid_until && ` • Valid until ${new Date(revision.valid_until).toLocaleDateString('en-GB')}`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {revision.notes && <p className="text-sm whitespace-pre-line">{revision.notes}</p>}
+
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Description</TableHead>
+                  <TableHead className="text-right">Qty</TableHead>
+                  <TableHead className="text-right">Unit Price</TableHead>
+                  <TableHead className="text-right">VAT</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {lines.map((line, index) => (
+                  <TableRow key={index}>
+                    <TableCell>{line.description}</TableCell>
+                    <TableCell className="text-right">{line.quantity} {line.unit}</TableCell>
+                    <TableCell className="text-right">{formatMoney(line.unitPrice, quote.currency)}</TableCell>
+                    <TableCell className="text-right">{line.vatRate}%</TableCell>
+                    <TableCell className="text-right">{formatMoney(getLineNet(line), quote.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+
+            <div className="ml-auto max-w-xs space-y-2">
+              <InvoiceTotalsSummary totals={totals} currency={quote.currency} />
+              {Number(revision.deposit_percentage) > 0 && (
+                <div className="flex justify-between text-sm border-t pt-2">
+                  <span className="text-muted-foreground">Deposit due on acceptance ({Number(revision.deposit_percentage)}%)</span>
+                  <span className="font-medium">{formatMoney(Number(revision.deposit_amount), quote.currency)}</span>
+                </div>
+              )}
+            </div>
+
+            {revision.terms && (
+              <div className="space-y-1">
+                <h3 className="text-sm font-medium">Terms</h3>
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{revision.terms}</p>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        {quote.status === 'accepted' && (
+          <Alert>
+            <CheckCircle className="h-4 w-4 text-green-500" />
+            <AlertDescription>
+              Accepted by {quote.signer_name} on {quote.accepted_at && new Date(quote.accepted_at).toLocaleString('en-GB')}.
+              {' '}{business.name} will be in touch with your deposit invoice.
+            </AlertDescription>
+          </Alert>
+        )}
+        {quote.status === 'declined' && (
+          <Alert>
+            <XCircle className="h-4 w-4" />
+            <AlertDescription>You declined this quote. Contact {business.name} if you'd like a revised quote.</AlertDescription>
+          </Alert>
+        )}
+        {quote.status === 'expired' && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription>This quote has expired. Contact {business.name} for an updated quote.</AlertDescription>
+          </Alert>
+        )}
+
+        {isOpen && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Accept this Quote</CardTitle>
+              <CardDescription>
+                By signing you accept the quote and terms above{Number(revision.deposit_percentage) > 0 && ' and agree to pay the deposit'}.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="signer-name">Full Name</Label>
+                <Input id="signer-name" value={signerName} onChange={(e) => setSignerName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Signature</Label>
+                <SignaturePad onChange={setSignature} />
+              </div>
+              <div className="flex gap-2">
+                <Button onClick={acceptQuote} disabled={isSubmitting}>
+                  <CheckCircle className="w-4 h-4 mr-2" />
+                  {isSubmitting ? 'Submitting...' : 'Accept & Sign'}
+                </Button>
+                <Button variant="outline" onClick={() => setShowDecline(!showDecline)} disabled={isSubmitting}>
+                  Decline
+                </Button>
+              </div>
+              {showDecline && (
+                <div className="space-y-2 border-t pt-4">
+                  <Label htmlFor="decline-reason">Reason (optional)</Label>
+                  <Textarea id="decline-reason" rows={3} value={declineReason} onChange={(e) => setDeclineReason(e.target.value)} />
+                  <Button variant="destructive" onClick={declineQuote} disabled={isSubmitting}>
+                    Decline Quote
+                  </Button>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default QuoteAcceptance;
@@ -0,0 +1,1023 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  ProviderError,
+  ServiceConfig,
+  callProvider,
+  checkSharedRateLimit,
+  loadServiceConfig,
+  requireConfig,
+} from "../integration-job-worker/provider-client.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Pulls invoice, payment and contact changes from Xero and QuickBooks and
+ * reconciles them with Construyo.
+ *
+ * - Called on a schedule (every 15 minutes) with the service role key, which
+ *   pulls for every user with an active Xero or QuickBooks integration.
+ * - Called by a signed-in user to pull now ({ action: 'pull', provider, full })
+ *   or to settle drift on one record ({ action: 'resolve', mappingId, resolution }).
+ *
+ * Records are matched through accounting_entity_mappings (invoices also by
+ * invoice number, contacts by email). Each difference is applied, reported as
+ * drift or held as a conflict according to the user's conflict_policy.
+ */
+type Provider = 'xero' | 'quickbooks';
+type ConflictPolicy = 'accounting_wins' | 'construyo_wins' | 'manual';
+
+interface SyncRequest {
+  action?: 'pull' | 'resolve';
+  provider?: Provider;
+  full?: boolean;
+  mappingId?: string;
+  resolution?: 'accept_remote' | 'keep_local';
+}
+
+interface RemoteInvoice {
+  externalId: string;
+  number?: string;
+  status: 'draft' | 'open' | 'paid' | 'void' | 'deleted';
+  total: number;
+  amountDue: number;
+  currency?: string;
+  contactExternalId?: string;
+  updatedAt: string | null;
+}
+
+interface RemotePayment {
+  externalId: string;
+  invoiceExternalId?: string;
+  amount: number;
+  date?: string;
+  reference?: string;
+  deleted: boolean;
+  updatedAt: string | null;
+}
+
+interface RemoteContact {
+  externalId: string;
+  name: string;
+  email: string | null;
+  phone: string | null;
+  deleted: boolean;
+  updatedAt: string | null;
+}
+
+interface DriftChange {
+  key: string;
+  field: string;
+  label: string;
+  local: any;
+  remote: any;
+  // Whether accepting the accounting value can be done from Construyo
+  applicable: boolean;
+  requires_decision?: boolean;
+  data?: Record<string, any>;
+}
+
+interface SyncStats {
+  invoices: number;
+  payments: number;
+  contacts: number;
+  applied: number;
+  drift: number;
+  conflicts: number;
+  unmatched: number;
+}
+
+interface SyncContext {
+  supabase: any;
+  userId: string;
+  provider: Provider;
+  policy: ConflictPolicy;
+  stats: SyncStats;
+}
+
+// Changes found for one mapping during a run; keys not evaluated keep their earlier drift
+interface PendingMapping {
+  mapping: any;
+  remote?: RemoteInvoice | RemoteContact;
+  changes: DriftChange[];
+  evaluatedKeys: Set<string>;
+}
+
+const PROVIDER_LABELS: Record<Provider, string> = { xero: 'Xero', quickbooks: 'QuickBooks' };
+const XERO_API_URL = 'https://api.xero.com/api.xro/2.0';
+const XERO_PAGE_SIZE = 100;
+const MAX_PAGES = 20;
+// Re-read a few minutes before the cursor so edits saved mid-run are not missed
+const CURSOR_OVERLAP_MS = 5 * 60 * 1000;
+// QuickBooks change data capture only looks back 30 days
+const QUICKBOOKS_CDC_WINDOW_MS = 30 * 24 * 60 * 60 * 1000;
+// Pulled payments are linked to a Construyo payment of the same amount recorded this close
+const PAYMENT_MATCH_WINDOW_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [ACCOUNTING-SYNC] ${step}${detailsStr}`);
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Listings are read oldest change first. When MAX_PAGES cuts one short, the next pull resumes
+// from the last change it read; null means that change had no timestamp, so the cursor can't move.
+const nextPullCursor = (cutoffs: Array<string | null>, runStartedAt: string, previous: string | null) => {
+  if (cutoffs.length === 0) return runStartedAt;
+  if (cutoffs.includes(null)) return previous;
+  return [...cutoffs].sort()[0];
+};
+
+// Xero wraps timestamps as /Date(1573755038314+0000)/
+const parseXeroDate = (value?: string): string | null => {
+  if (!value) return null;
+  const match = /\/Date\((-?\d+)/.exec(value);
+  return match ? new Date(Number(match[1])).toISOString() : new Date(value).toISOString();
+};
+
+const xeroInvoiceStatus = (invoice: any): RemoteInvoice['status'] => {
+  switch (invoice.Status) {
+    case 'VOIDED': return 'void';
+    case 'DELETED': return 'deleted';
+    case 'PAID': return 'paid';
+    case 'DRAFT':
+    case 'SUBMITTED': return 'draft';
+    default: return Number(invoice.AmountDue) === 0 && Number(invoice.Total) > 0 ? 'paid' : 'open';
+  }
+};
+
+const fetchXeroChanges = async (ctx: SyncContext, config: ServiceConfig, since: string | null, includeContacts: boolean) => {
+  requireConfig(config, 'accessToken', 'tenantId');
+  const headers: Record<string, string> = {
+    'Authorization': `Bearer ${config.accessToken}`,
+    'Xero-tenant-id': config.tenantId,
+    'Accept': 'application/json',
+    // Xero expects UTC without a zone suffix
+    ...(since ? { 'If-Modified-Since': since.slice(0, 19) } : {}),
+  };
+
+  const cutoffs: Array<string | null> = [];
+  const getPages = async (path: string, key: string) => {
+    const items: any[] = [];
+    for (let page = 1; page <= MAX_PAGES; page++) {
+      await checkSharedRateLimit(ctx.supabase, ctx.userId, 'xero');
+      const separator = path.includes('?') ? '&' : '?';
+      const response = await callProvider(
+        'xero',
+        `${XERO_API_URL}/${path}${separator}order=UpdatedDateUTC&page=${page}`,
+        { headers }
+      );
+      const batch = response?.[key] || [];
+      items.push(...batch);
+      if (batch.length < XERO_PAGE_SIZE) return items;
+    }
+    cutoffs.push(parseXeroDate(items[items.length - 1]?.UpdatedDateUTC));
+    return items;
+  };
+
+  const invoices: RemoteInvoice[] = (await getPages(`Invoices?where=${encodeURIComponent('Type=="ACCREC"')}`, 'Invoices'))
+    .map((invoice: any) => ({
+      externalId: invoice.InvoiceID,
+      number: invoice.InvoiceNumber,
+      status: xeroInvoiceStatus(invoice),
+      total: Number(invoice.Total ?? 0),
+      amountDue: Number(invoice.AmountDue ?? 0),
+      currency: invoice.CurrencyCode,
+      contactExternalId: invoice.Contact?.ContactID,
+      updatedAt: parseXeroDate(invoice.UpdatedDateUTC),
+    }));
+
+  const payments: RemotePayment[] = (await getPages('Payments', 'Payments'))
+    .filter((payment: any) => payment.Invoice?.InvoiceID)
+    .map((payment: any) => ({
+      externalId: payment.PaymentID,
+      invoiceExternalId: payment.Invoice.InvoiceID,
+      amount: Number(payment.Amount ?? 0),
+      date: parseXeroDate(payment.Date)?.split('T')[0],
+      reference: payment.Reference,
+      deleted: payment.Status === 'DELETED',
+      updatedAt: parseXeroDate(payment.UpdatedDateUTC),
+    }));
+
+  const contacts: RemoteContact[] = includeContacts
+    ? (await getPages('Contacts', 'Contacts')).map((contact: any) => {
+      const phone = (contact.Phones || []).find((p: any) => p.PhoneNumber);
+      return {
+        externalId: contact.ContactID,
+        name: contact.Name,
+        email: contact.EmailAddress || null,
+        phone: phone ? [phone.PhoneCountryCode, phone.PhoneAreaCode, phone.PhoneNumber].filter(Boolean).join(' ') : null,
+        deleted: contact.ContactStatus === 'ARCHIVED',
+        updatedAt: parseXeroDate(contact.UpdatedDateUTC),
+      };
+    })
+    : [];
+
+  return { invoices, payments, contacts, cutoffs };
+};
+
+const quickBooksInvoiceStatus = (invoice: any): RemoteInvoice['status'] => {
+  if (invoice.status === 'Deleted') return 'deleted';
+  // QuickBooks keeps voided invoices with a zero total and a "Voided" note
+  if (Number(invoice.TotalAmt) === 0 && /void/i.test(invoice.PrivateNote || '')) return 'void';
+  if (Number(invoice.Balance) === 0 && Number(invoice.TotalAmt) > 0) return 'paid';
+  return 'open';
+};
+
+const fetchQuickBooksChanges = async (ctx: SyncContext, config: ServiceConfig, since: string | null, includeContacts: boolean) => {
+  requireConfig(config, 'accessToken', 'companyId');
+  const baseUrl = `https://sandbox-quickbooks.api.intuit.com/v3/company/${config.companyId}`;
+  const headers = {
+    'Authorization': `Bearer ${config.accessToken}`,
+    'Accept': 'application/json',
+  };
+  const entities = includeContacts ? ['Invoice', 'Payment', 'Customer'] : ['Invoice', 'Payment'];
+  const records: Record<string, any[]> = { Invoice: [], Payment: [], Customer: [] };
+  const cutoffs: Array<string | null> = [];
+
+  if (since && Date.now() - Date.parse(since) < QUICKBOOKS_CDC_WINDOW_MS) {
+    // Change data capture also reports deletions
+    await checkSharedRateLimit(ctx.supabase, ctx.userId, 'quickbooks');
+    const response = await callProvider(
+      'quickbooks',
+      `${baseUrl}/cdc?entities=${entities.join(',')}&changedSince=${encodeURIComponent(since)}`,
+      { headers }
+    );
+    for (const queryResponse of response?.CDCResponse?.[0]?.QueryResponse || []) {
+      for (const entity of entities) {
+        records[entity].push(...(queryResponse[entity] || []));
+      }
+    }
+  } else {
+    for (const entity of entities) {
+      let complete = false;
+      for (let page = 0; page < MAX_PAGES && !complete; page++) {
+        await checkSharedRateLimit(ctx.supabase, ctx.userId, 'quickbooks');
+        const where = since ? ` WHERE MetaData.LastUpdatedTime > '${since}'` : '';
+        const query = encodeURIComponent(
+          `SELECT * FROM ${entity}${where} ORDERBY MetaData.LastUpdatedTime STARTPOSITION ${page * 500 + 1} MAXRESULTS 500`
+        );
+        const response = await callProvider('quickbooks', `${baseUrl}/query?query=${query}`, { headers });
+        const batch = response?.QueryResponse?.[entity] || [];
+        records[entity].push(...batch);
+        complete = batch.length < 500;
+      }
+      if (!complete) {
+        const lastUpdated = records[entity][records[entity].length - 1]?.MetaData?.LastUpdatedTime;
+        cutoffs.push(lastUpdated ? new Date(lastUpdated).toISOString() : null);
+      }
+    }
+  }
+
+  const invoices: RemoteInvoice[] = records.Invoice.map((invoice: any) => ({
+    externalId: invoice.Id,
+    number: invoice.DocNumber,
+    status: quickBooksInvoiceStatus(invoice),
+    total: Number(invoice.TotalAmt ?? 0),
+    amountDue: Number(invoice.Balance ?? 0),
+    currency: invoice.CurrencyRef?.value,
+    contactExternalId: invoice.CustomerRef?.value,
+    updatedAt: invoice.MetaData?.LastUpdatedTime ? new Date(invoice.MetaData.LastUpdatedTime).toISOString() : null,
+  }));
+
+  // A QuickBooks payment can settle several invoices; each invoice line is tracked as its own payment
+  const payments: RemotePayment[] = records.Payment.flatMap((payment: any) => {
+    const updatedAt = payment.MetaData?.LastUpdatedTime ? new Date(payment.MetaData.LastUpdatedTime).toISOString() : null;
+    if (payment.status === 'Deleted') {
+      return [{ externalId: payment.Id, amount: 0, deleted: true, updatedAt }];
+    }
+    return (payment.Line || []).flatMap((line: any) =>
+      (line.LinkedTxn || [])
+        .filter((txn: any) => txn.TxnType === 'Invoice')
+        .map((txn: any) => ({
+          externalId: `${payment.Id}:${txn.TxnId}`,
+          invoiceExternalId: txn.TxnId,
+          amount: Number(line.Amount ?? 0),
+          date: payment.TxnDate,
+          reference: payment.PaymentRefNum,
+          deleted: false,
+          updatedAt,
+        }))
+    );
+  });
+
+  const contacts: RemoteContact[] = records.Customer.map((customer: any) => ({
+    externalId: customer.Id,
+    name: customer.DisplayName,
+    email: customer.PrimaryEmailAddr?.Address || null,
+    phone: customer.PrimaryPhone?.FreeFormNumber || null,
+    deleted: customer.status === 'Deleted' || customer.Active === false,
+    updatedAt: customer.MetaData?.LastUpdatedTime ? new Date(customer.MetaData.LastUpdatedTime).toISOString() : null,
+  }));
+
+  return { invoices, payments, contacts, cutoffs };
+};
+
+const isAcknowledged = (mapping: any, updatedAt: string | null) =>
+  !!mapping.acknowledged_remote_at && !!updatedAt && Date.parse(updatedAt) <= Date.parse(mapping.acknowledged_remote_at);
+
+const insertMapping = async (ctx: SyncContext, mapping: Record<string, any>) => {
+  const { data, error } = await ctx.supabase
+    .from('accounting_entity_mappings')
+    .insert({ user_id: ctx.userId, provider: ctx.provider, last_pulled_at: new Date().toISOString(), ...mapping })
+    .select('*')
+    .single();
+
+  if (error) throw new Error(`Failed to record ${mapping.entity_type} mapping: ${error.message}`);
+  return data;
+};
+
+const findMapping = async (ctx: SyncContext, entityType: string, externalId: string) => {
+  const { data } = await ctx.supabase
+    .from('accounting_entity_mappings')
+    .select('*')
+    .eq('user_id', ctx.userId)
+    .eq('provider', ctx.provider)
+    .eq('entity_type', entityType)
+    .eq('external_id', externalId)
+    .maybeSingle();
+  return data;
+};
+
+// Accept the accounting system's value for one change
+const applyChange = async (ctx: SyncContext, mapping: any, change: DriftChange) => {
+  const label = PROVIDER_LABELS[ctx.provider];
+
+  if (mapping.entity_type === 'contact') {
+    const updates: Record<string, any> = {};
+    if (change.field === 'name') {
+      const [firstName, ...rest] = String(change.remote || '').trim().split(/\s+/);
+      updates.first_name = firstName;
+      updates.last_name = rest.join(' ');
+    } else {
+      updates[change.field] = change.remote;
+    }
+    const { error } = await ctx.supabase.from('customers').update(updates).eq('id', mapping.local_id);
+    if (error) throw new Error(`Failed to update customer: ${error.message}`);
+    return;
+  }
+
+  if (change.field === 'status') {
+    const { error } = await ctx.supabase
+      .from('construyo_invoices')
+      .update({ status: change.remote })
+      .eq('id', mapping.local_id)
+      .eq('user_id', ctx.userId);
+    if (error) throw new Error(`Failed to update invoice status: ${error.message}`);
+    return;
+  }
+
+  if (change.key.startsWith('payment_deleted:')) {
+    const { error } = await ctx.supabase
+      .from('invoice_payments')
+      .update({ status: 'failed', error_message: `Deleted in ${label}` })
+      .eq('id', change.data?.entryId)
+      .eq('user_id', ctx.userId);
+    if (error) throw new Error(`Failed to reverse payment: ${error.message}`);
+    return;
+  }
+
+  if (change.key.startsWith('payment:')) {
+    const { data: invoice } = await ctx.supabase
+      .from('construyo_invoices')
+      .select('currency')
+      .eq('id', mapping.local_id)
+      .single();
+
+    const { data: entry, error } = await ctx.supabase
+      .from('invoice_payments')
+      .insert({
+        invoice_id: mapping.local_id,
+        user_id: ctx.userId,
+        entry_type: 'payment',
+        amount: change.data?.amount,
+        currency: invoice?.currency,
+        method: 'bank_transfer',
+        status: 'succeeded',
+        reference: `${label} payment ${change.data?.reference || change.data?.externalId}`,
+        accounting_provider: ctx.provider,
+        accounting_synced_at: new Date().toISOString(),
+        recorded_at: change.data?.date ? new Date(change.data.date).toISOString() : new Date().toISOString(),
+      })
+      .select('id')
+      .single();
+    if (error) throw new Error(`Failed to record payment: ${error.message}`);
+
+    await insertMapping(ctx, {
+      entity_type: 'payment',
+      local_id: entry.id,
+      external_id: change.data?.externalId,
+      remote_updated_at: change.data?.updatedAt ?? null,
+    });
+    return;
+  }
+
+  throw new Error(`${change.label} cannot be applied automatically`);
+};
+
+// Apply the change, report it as drift or hold it as a conflict, per the conflict policy
+const settleChange = async (ctx: SyncContext, pending: PendingMapping, change: DriftChange, safe: boolean) => {
+  pending.evaluatedKeys.add(change.key);
+
+  const outcome = ctx.policy === 'accounting_wins' && change.applicable && safe
+    ? 'apply'
+    : ctx.policy === 'construyo_wins' || !change.applicable ? 'drift' : 'conflict';
+
+  if (outcome === 'apply') {
+    try {
+      await applyChange(ctx, pending.mapping, change);
+      ctx.stats.applied++;
+      return;
+    } catch (error) {
+      logStep("Failed to apply change", { mappingId: pending.mapping.id, key: change.key, error: error.message });
+      pending.changes.push({ ...change, requires_decision: true, data: { ...change.data, error: error.message } });
+      return;
+    }
+  }
+
+  pending.changes.push({ ...change, requires_decision: outcome === 'conflict' });
+};
+
+const saveMapping = async (ctx: SyncContext, pending: PendingMapping) => {
+  const kept = (pending.mapping.drift || []).filter((change: DriftChange) => !pending.evaluatedKeys.has(change.key));
+  const drift = [...kept, ...pending.changes];
+  const syncStatus = drift.some(change => change.requires_decision) ? 'conflict' : drift.length > 0 ? 'drift' : 'in_sync';
+
+  if (syncStatus === 'conflict') ctx.stats.conflicts++;
+  if (syncStatus === 'drift') ctx.stats.drift++;
+
+  const { error } = await ctx.supabase
+    .from('accounting_entity_mappings')
+    .update({
+      drift,
+      sync_status: syncStatus,
+      remote_snapshot: pending.remote ?? pending.mapping.remote_snapshot,
+      remote_updated_at: pending.remote?.updatedAt ?? pending.mapping.remote_updated_at,
+      external_number: (pending.remote as RemoteInvoice | undefined)?.number ?? pending.mapping.external_number,
+      last_pulled_at: new Date().toISOString(),
+      last_error: null,
+    })
+    .eq('id', pending.mapping.id);
+
+  if (error) throw new Error(`Failed to save mapping: ${error.message}`);
+};
+
+const reconcileContact = async (ctx: SyncContext, contact: RemoteContact, companyIds: string[]) => {
+  ctx.stats.contacts++;
+  let mapping = await findMapping(ctx, 'contact', contact.externalId);
+
+  if (!mapping) {
+    if (!contact.email || contact.deleted || companyIds.length === 0) return;
+    const { data: customer } = await ctx.supabase
+      .from('customers')
+      .select('id')
+      .in('company_id', companyIds)
+      .ilike('email', contact.email.replace(/[\\%_]/g, '\\$&'))
+      .limit(1)
+      .maybeSingle();
+    if (!customer) return;
+    mapping = await insertMapping(ctx, { entity_type: 'contact', local_id: customer.id, external_id: contact.externalId, external_number: contact.name });
+  }
+
+  const pending: PendingMapping = { mapping, remote: contact, changes: [], evaluatedKeys: new Set(['name', 'email', 'phone']) };
+  const { data: customer } = await ctx.supabase
+    .from('customers')
+    .select('first_name, last_name, email, phone')
+    .eq('id', mapping.local_id)
+    .maybeSingle();
+
+  if (customer && !contact.deleted && !isAcknowledged(mapping, contact.updatedAt)) {
+    const label = PROVIDER_LABELS[ctx.provider];
+    const local = {
+      name: `${customer.first_name || ''} ${customer.last_name || ''}`.trim(),
+      email: customer.email,
+      phone: customer.phone,
+    };
+    const remote = { name: contact.name, email: contact.email, phone: contact.phone };
+
+    for (const field of ['name', 'email', 'phone'] as const) {
+      const normalise = (value: string | null) => (value || '').trim().toLowerCase();
+      if (remote[field] && normalise(local[field]) !== normalise(remote[field])) {
+        await settleChange(ctx, pending, {
+          key: field,
+          field,
+          label: `Customer ${field} changed in ${label}`,
+          local: local[field],
+          remote: remote[field],
+          applicable: true,
+        }, true);
+      }
+    }
+  }
+
+  await saveMapping(ctx, pending);
+};
+
+const matchInvoice = async (ctx: SyncContext, invoice: RemoteInvoice) => {
+  const mapping = await findMapping(ctx, 'invoice', invoice.externalId);
+  if (mapping) return mapping;
+  if (!invoice.number) return null;
+
+  const { data: local } = await ctx.supabase
+    .from('construyo_invoices')
+    .select('id')
+    .eq('user_id', ctx.userId)
+    .eq('invoice_number', invoice.number)
+    .maybeSingle();
+  if (!local) return null;
+
+  return await insertMapping(ctx, {
+    entity_type: 'invoice',
+    local_id: local.id,
+    external_id: invoice.externalId,
+    external_number: invoice.number,
+  }).catch((error: Error) => {
+    // The invoice is already mapped to another accounting record
+    logStep("Invoice not mapped", { invoiceNumber: invoice.number, error: error.message });
+    return null;
+  });
+};
+
+const reconcilePayment = async (ctx: SyncContext, payment: RemotePayment, pendingInvoices: Map<string, PendingMapping>) => {
+  ctx.stats.payments++;
+  const label = PROVIDER_LABELS[ctx.provider];
+
+  const getPending = async (invoiceMapping: any) => {
+    if (!pendingInvoices.has(invoiceMapping.id)) {
+      pendingInvoices.set(invoiceMapping.id, { mapping: invoiceMapping, changes: [], evaluatedKeys: new Set() });
+    }
+    return pendingInvoices.get(invoiceMapping.id)!;
+  };
+
+  if (payment.deleted) {
+    // QuickBooks deletions only carry the payment id, which prefixes each of its invoice lines
+    const { data: mappings } = await ctx.supabase
+      .from('accounting_entity_mappings')
+      .select('local_id, external_id')
+      .eq('user_id', ctx.userId)
+      .eq('provider', ctx.provider)
+      .eq('entity_type', 'payment')
+      .or(`external_id.eq.${payment.externalId},external_id.like.${payment.externalId}:*`);
+
+    for (const paymentMapping of mappings || []) {
+      const { data: entry } = await ctx.supabase
+        .from('invoice_payments')
+        .select('id, invoice_id, amount, status')
+        .eq('id', paymentMapping.local_id)
+        .maybeSingle();
+      if (!entry || entry.status !== 'succeeded') continue;
+
+      const { data: invoiceMapping } = await ctx.supabase
+        .from('accounting_entity_mappings')
+        .select('*')
+        .eq('user_id', ctx.userId)
+        .eq('provider', ctx.provider)
+        .eq('entity_type', 'invoice')
+        .eq('local_id', entry.invoice_id)
+        .maybeSingle();
+      if (!invoiceMapping) continue;
+
+      await settleChange(ctx, await getPending(invoiceMapping), {
+        key: `payment_deleted:${paymentMapping.external_id}`,
+        field: 'payment',
+        label: `Payment of ${Number(entry.amount).toFixed(2)} was deleted in ${label}`,
+        local: Number(entry.amount),
+        remote: null,
+        applicable: true,
+        data: { entryId: entry.id },
+      }, true);
+    }
+    return;
+  }
+
+  if (await findMapping(ctx, 'payment', payment.externalId)) return;
+
+  const invoiceMapping = payment.invoiceExternalId ? await findMapping(ctx, 'invoice', payment.invoiceExternalId) : null;
+  if (!invoiceMapping) {
+    ctx.stats.unmatched++;
+    return;
+  }
+  if (isAcknowledged(invoiceMapping, payment.updatedAt)) return;
+
+  // A payment recorded in both systems (e.g. a Stripe payment reconciled by the bookkeeper) is linked, not doubled
+  const { data: candidates } = await ctx.supabase
+    .from('invoice_payments')
+    .select('id, amount, recorded_at')
+    .eq('invoice_id', invoiceMapping.local_id)
+    .eq('entry_type', 'payment')
+    .eq('status', 'succeeded')
+    .eq('amount', payment.amount);
+
+  const { data: linked } = candidates?.length
+    ? await ctx.supabase
+      .from('accounting_entity_mappings')
+      .select('local_id')
+      .eq('user_id', ctx.userId)
+      .eq('provider', ctx.provider)
+      .eq('entity_type', 'payment')
+      .in('local_id', candidates.map((entry: any) => entry.id))
+    : { data: [] };
+  const linkedIds = new Set((linked || []).map((row: any) => row.local_id));
+
+  const paidAt = payment.date ? Date.parse(payment.date) : Date.now();
+  const match = (candidates || []).find((entry: any) =>
+    !linkedIds.has(entry.id) && Math.abs(Date.parse(entry.recorded_at) - paidAt) <= PAYMENT_MATCH_WINDOW_MS
+  );
+
+  if (match) {
+    await insertMapping(ctx, {
+      entity_type: 'payment',
+      local_id: match.id,
+      external_id: payment.externalId,
+      remote_updated_at: payment.updatedAt,
+    });
+    return;
+  }
+
+  const { data: invoice } = await ctx.supabase
+    .from('construyo_invoices')
+    .select('amount, balance_due')
+    .eq('id', invoiceMapping.local_id)
+    .single();
+  const balanceDue = Number(invoice?.balance_due ?? invoice?.amount ?? 0);
+
+  await settleChange(ctx, await getPending(invoiceMapping), {
+    key: `payment:${payment.externalId}`,
+    field: 'payment',
+    label: `Payment of ${payment.amount.toFixed(2)}${payment.date ? ` on ${payment.date}` : ''} recorded in ${label}`,
+    local: null,
+    remote: payment.amount,
+    applicable: true,
+    data: { ...payment },
+  }, payment.amount <= roundCurrency(balanceDue + 0.01));
+};
+
+// Compare invoice-level fields once pulled payments have been applied
+const reconcileInvoice = async (ctx: SyncContext, pending: PendingMapping) => {
+  const remote = (pending.remote ?? (pending.mapping.remote_snapshot?.externalId ? pending.mapping.remote_snapshot : null)) as RemoteInvoice | null;
+  if (!remote || isAcknowledged(pending.mapping, remote.updatedAt)) {
+    if (remote) ['status', 'amount', 'balance'].forEach(key => pending.evaluatedKeys.add(key));
+    await saveMapping(ctx, pending);
+    return;
+  }
+
+  const { data: local } = await ctx.supabase
+    .from('construyo_invoices')
+    .select('status, amount, balance_due, amount_paid, amount_refunded')
+    .eq('id', pending.mapping.local_id)
+    .maybeSingle();
+
+  if (!local) {
+    pending.changes.push({
+      key: 'missing',
+      field: 'invoice',
+      label: 'Invoice no longer exists in Construyo',
+      local: null,
+      remote: remote.number,
+      applicable: false,
+    });
+    pending.evaluatedKeys.add('missing');
+    await saveMapping(ctx, pending);
+    return;
+  }
+
+  const label = PROVIDER_LABELS[ctx.provider];
+  ['status', 'amount', 'balance'].forEach(key => pending.evaluatedKeys.add(key));
+
+  if (['void', 'deleted'].includes(remote.status) && local.status !== 'cancelled') {
+    const netPaid = Number(local.amount_paid ?? 0) - Number(local.amount_refunded ?? 0);
+    // Cancelling an invoice that has taken money needs a person to decide about the money
+    await settleChange(ctx, pending, {
+      key: 'status',
+      field: 'status',
+      label: `Invoice was ${remote.status === 'void' ? 'voided' : 'deleted'} in ${label}`,
+      local: local.status,
+      remote: 'cancelled',
+      applicable: true,
+    }, netPaid <= 0);
+  } else if (!['void', 'deleted', 'draft'].includes(remote.status)) {
+    if (Math.abs(remote.total - Number(local.amount)) > 0.01) {
+      await settleChange(ctx, pending, {
+        key: 'amount',
+        field: 'amount',
+        label: `Invoice total differs in ${label}`,
+        local: Number(local.amount),
+        remote: remote.total,
+        applicable: false,
+      }, false);
+    }
+
+    const hasPendingPayments = pending.changes.some(change => change.field === 'payment');
+    const localBalance = Number(local.balance_due ?? local.amount);
+    if (!hasPendingPayments && Math.abs(remote.amountDue - localBalance) > 0.01) {
+      await settleChange(ctx, pending, {
+        key: 'balance',
+        field: 'balance_due',
+        label: `Outstanding balance differs in ${label}`,
+        local: localBalance,
+        remote: remote.amountDue,
+        applicable: false,
+      }, false);
+    }
+  }
+
+  await saveMapping(ctx, pending);
+};
+
+const getSyncSettings = async (supabase: any, userId: string, provider: Provider) => {
+  const { data: existing } = await supabase
+    .from('accounting_sync_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider', provider)
+    .maybeSingle();
+  if (existing) return existing;
+
+  const { data: created, error } = await supabase
+    .from('accounting_sync_settings')
+    .insert({ user_id: userId, provider })
+    .select('*')
+    .single();
+  if (error) throw new Error(`Failed to create sync settings: ${error.message}`);
+  return created;
+};
+
+const pullChanges = async (supabase: any, settings: any, full: boolean) => {
+  const startTime = Date.now();
+  const runStartedAt = new Date().toISOString();
+  const ctx: SyncContext = {
+    supabase,
+    userId: settings.user_id,
+    provider: settings.provider,
+    policy: settings.conflict_policy,
+    stats: { invoices: 0, payments: 0, contacts: 0, applied: 0, drift: 0, conflicts: 0, unmatched: 0 },
+  };
+
+  await supabase
+    .from('accounting_sync_settings')
+    .update({ last_run_status: 'running', last_run_at: runStartedAt })
+    .eq('id', settings.id);
+
+  try {
+    const config = await loadServiceConfig(supabase, ctx.userId, ctx.provider);
+    const since = full || !settings.last_pulled_at
+      ? null
+      : new Date(Date.parse(settings.last_pulled_at) - CURSOR_OVERLAP_MS).toISOString();
+
+    logStep("Pulling changes", { userId: ctx.userId, provider: ctx.provider, since });
+    const remote = ctx.provider === 'xero'
+      ? await fetchXeroChanges(ctx, config, since, settings.sync_contacts)
+      : await fetchQuickBooksChanges(ctx, config, since, settings.sync_contacts);
+
+    if (settings.sync_contacts && remote.contacts.length > 0) {
+      const { data: roles } = await supabase
+        .from('user_roles')
+        .select('company_id')
+        .eq('user_id', ctx.userId)
+        .eq('is_active', true)
+        .not('company_id', 'is', null);
+      const companyIds = (roles || []).map((role: any) => role.company_id);
+
+      for (const contact of remote.contacts) {
+        await reconcileContact(ctx, contact, companyIds);
+      }
+    }
+
+    // Invoices are matched first so their payments can find them
+    const pendingInvoices = new Map<string, PendingMapping>();
+    for (const invoice of remote.invoices) {
+      ctx.stats.invoices++;
+      const mapping = await matchInvoice(ctx, invoice);
+      if (!mapping) {
+        ctx.stats.unmatched++;
+        continue;
+      }
+      pendingInvoices.set(mapping.id, { mapping, remote: invoice, changes: [], evaluatedKeys: new Set() });
+    }
+
+    for (const payment of remote.payments) {
+      await reconcilePayment(ctx, payment, pendingInvoices);
+    }
+
+    for (const pending of pendingInvoices.values()) {
+      await reconcileInvoice(ctx, pending);
+    }
+
+    const lastPulledAt = nextPullCursor(remote.cutoffs, runStartedAt, settings.last_pulled_at);
+    if (remote.cutoffs.length > 0) {
+      logStep("Pull stopped at the page limit, resuming next run", { userId: ctx.userId, provider: ctx.provider, lastPulledAt });
+    }
+
+    await supabase
+      .from('accounting_sync_settings')
+      .update({
+        last_pulled_at: lastPulledAt,
+        last_run_status: 'succeeded',
+        last_run_stats: ctx.stats,
+        last_error: null,
+      })
+      .eq('id', settings.id);
+
+    await supabase.from('integration_activity_logs').insert({
+      user_id: ctx.userId,
+      service_name: ctx.provider,
+      action: 'accounting_pull',
+      status: 'success',
+      metadata: { ...ctx.stats, full, since },
+      duration_ms: Date.now() - startTime,
+    });
+
+    logStep("Pull completed", { userId: ctx.userId, provider: ctx.provider, stats: ctx.stats });
+    return { provider: ctx.provider, success: true, stats: ctx.stats };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    await supabase
+      .from('accounting_sync_settings')
+      .update({ last_run_status: 'failed', last_run_stats: ctx.stats, last_error: errorMessage })
+      .eq('id', settings.id);
+
+    await supabase.from('integration_activity_logs').insert({
+      user_id: ctx.userId,
+      service_name: ctx.provider,
+      action: 'accounting_pull',
+      status: 'error',
+      metadata: { ...ctx.stats, full },
+      duration_ms: Date.now() - startTime,
+      error_message: errorMessage,
+    });
+
+    logStep("Pull failed", { userId: ctx.userId, provider: ctx.provider, error: errorMessage });
+    return { provider: ctx.provider, success: false, error: errorMessage, stats: ctx.stats };
+  }
+};
+
+const resolveMapping = async (supabase: any, userId: string, mappingId: string, resolution: 'accept_remote' | 'keep_local') => {
+  const { data: mapping, error } = await supabase
+    .from('accounting_entity_mappings')
+    .select('*')
+    .eq('id', mappingId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !mapping) {
+    throw new Error("Mapping not found");
+  }
+
+  const settings = await getSyncSettings(supabase, userId, mapping.provider);
+  const ctx: SyncContext = {
+    supabase,
+    userId,
+    provider: mapping.provider,
+    policy: settings.conflict_policy,
+    stats: { invoices: 0, payments: 0, contacts: 0, applied: 0, drift: 0, conflicts: 0, unmatched: 0 },
+  };
+
+  const remaining: DriftChange[] = [];
+  if (resolution === 'accept_remote') {
+    for (const change of (mapping.drift || []) as DriftChange[]) {
+      if (!change.applicable) continue;
+      try {
+        await applyChange(ctx, mapping, change);
+        ctx.stats.applied++;
+      } catch (applyError) {
+        remaining.push({ ...change, requires_decision: true, data: { ...change.data, error: applyError.message } });
+      }
+    }
+  }
+
+  // Differences that were kept or could not be applied are not raised again for this accounting version
+  await supabase
+    .from('accounting_entity_mappings')
+    .update({
+      drift: remaining,
+      sync_status: remaining.length > 0 ? 'error' : 'in_sync',
+      acknowledged_remote_at: mapping.remote_updated_at ?? new Date().toISOString(),
+      last_error: remaining.length > 0 ? remaining[0].data?.error : null,
+    })
+    .eq('id', mapping.id);
+
+  logStep("Drift resolved", { mappingId, resolution, applied: ctx.stats.applied, failed: remaining.length });
+  return { applied: ctx.stats.applied, failed: remaining.length };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Accounting sync started");
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: SyncRequest = await req.json().catch(() => ({}));
+    const { action = 'pull', provider, full = false, mappingId, resolution } = body;
+
+    if (provider && !['xero', 'quickbooks'].includes(provider)) {
+      throw new Error("provider must be xero or quickbooks");
+    }
+
+    let userId: string | null = null;
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+      userId = userData.user.id;
+    }
+
+    if (action === 'resolve') {
+      if (!userId || !mappingId || !['accept_remote', 'keep_local'].includes(resolution || '')) {
+        throw new Error("Resolving drift requires a signed-in user, mappingId and resolution");
+      }
+      const result = await resolveMapping(supabase, userId, mappingId, resolution!);
+      return new Response(
+        JSON.stringify({ success: true, ...result }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    let configQuery = supabase
+      .from('integration_configs')
+      .select('user_id, service_name')
+      .in('service_name', provider ? [provider] : ['xero', 'quickbooks'])
+      .eq('is_active', true);
+    if (userId) {
+      configQuery = configQuery.eq('user_id', userId);
+    }
+
+    const { data: configs, error: configsError } = await configQuery;
+    if (configsError) {
+      throw new Error(`Failed to load integrations: ${configsError.message}`);
+    }
+    if (userId && (!configs || configs.length === 0)) {
+      throw new Error("Connect Xero or QuickBooks before syncing");
+    }
+
+    const results = [];
+    for (const config of configs || []) {
+      const settings = await getSyncSettings(supabase, config.user_id, config.service_name);
+      // Scheduled runs skip users who switched pulling off; a manual pull always runs
+      if (!userId && !settings.pull_enabled) continue;
+      results.push({ userId: config.user_id, ...(await pullChanges(supabase, settings, full)) });
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in accounting sync", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALL:
+
+const pullFromXero = async () => {
+  const { data, error } = await supabase.functions.invoke('accounting-sync', {
+    body: { action: 'pull', provider: 'xero' }
+  });
+
+  if (error) throw error;
+  console.log('Applied', data.results[0].stats.applied, 'changes;', data.results[0].stats.conflicts, 'need a decision');
+};
+*/
@@ -12,17 +12,23 @@ const corsHeaders = {
 const MAX_RETRIES = 3;
 const INITIAL_RETRY_DELAY = 1000; // 1 second
 const RATE_LIMIT_DELAY = 5000; // 5 seconds for rate limits
+const MINUTE_MS = 60 * 1000;
+const DEFAULT_CALENDLY_LINK = 'https://calendly.com/your-company/consultation';
+const DUE_BATCH_SIZE = 100;
 
 interface Lead {
   id: string;
-  customer_name: string;
-  email: string;
+  created_by: string;
+  first_name: string;
+  last_name: string;
+  email?: string;
   phone?: string;
   project_type?: string;
-  source?: string;
+  lead_source?: string;
   status: string;
-  description?: string;
-  budget_range?: string;
+  project_description?: string;
+  estimated_budget_min?: number;
+  estimated_budget_max?: number;
 }
 
 interface MessageTemplate {
@@ -35,10 +41,65 @@ interface MessageTemplate {
   trigger_conditions: any;
 }
 
+type SequenceChannel = 'email' | 'whatsapp';
+
+interface MessageSequence {
+  id: string;
+  user_id: string;
+  name: string;
+  trigger_on: string[];
+  conditions: Record<string, unknown>;
+  exit_on_booking: boolean;
+  exit_on_status_change: boolean;
+  is_active: boolean;
+}
+
+interface SequenceStep {
+  id: string;
+  sequence_id: string;
+  step_order: number;
+  delay_minutes: number;
+  channel: SequenceChannel;
+  fallback_channel: SequenceChannel | null;
+  subject_template: string | null;
+  message_template: string;
+  calendly_link_template: string | null;
+}
+
+interface SequenceEnrollment {
+  id: string;
+  sequence_id: string;
+  lead_id: string;
+  user_id: string;
+  status: 'active' | 'completed' | 'exited';
+  current_step: number;
+  next_run_at: string | null;
+  enrolled_at: string;
+}
+
+/*
+ * Besides sending a single templated message, the auto-responder runs drip
+ * sequences:
+ *
+ * - A lead_created / lead_updated / manual trigger enrolls the lead in every
+ *   active sequence whose trigger matches (or in sequenceId), falling back to
+ *   the single-template behaviour when no sequence matches.
+ * - { action: 'process_due' } sends every step that has come due. It is
+ *   called on a schedule (every few minutes) with the service role key.
+ * - Resend webhook events ({ type: 'email.bounced' | 'email.delivered' |
+ *   'email.opened' | 'email.clicked' }), forwarded with the service role key
+ *   by resend-webhook once their signature is verified, update the delivery
+ *   log; a bounced sequence email is resent by the step's fallback channel,
+ *   and a click on a Calendly link is recorded in booking_link_analytics.
+ */
 interface AutoResponderRequest {
   leadId: string;
   triggerType?: 'lead_created' | 'lead_updated' | 'manual';
   templateId?: string;
+  sequenceId?: string;
+  action?: 'process_due';
+  type?: string;
+  data?: { email_id?: string; click?: { link?: string } };
   customMessage?: {
     type: 'email' | 'whatsapp' | 'sms';
     subject?: string;
@@ -54,6 +115,35 @@ interface AutoResponderRequest {
 const sleep = (ms: number): Promise<void> => 
   new Promise(resolve => setTimeout(resolve, ms));
 
+const budgetRange = (lead: Lead): string => {
+  const min = lead.estimated_budget_min;
+  const max = lead.estimated_budget_max;
+  if (min && max) return `£${min.toLocaleString('en-GB')} - £${max.toLocaleString('en-GB')}`;
+  if (max) return `up to £${max.toLocaleString('en-GB')}`;
+  if (min) return `from £${min.toLocaleString('en-GB')}`;
+  return 'to be discussed';
+};
+
+// Links to a microsite, served at /microsite/<slug> or by the edge function directly
+const MICROSITE_LINK = /https?:\/\/[^\s"'<>]*\/(?:microsite|functions\/v1\/microsite-generator)\/[^\s"'<>]*[^\s"'<>.,;:!?)]/gi;
+
+/**
+ * Add ?lead=<id> to microsite links so the lead's visits count towards its score
+ * @param text - Message text
+ * @param leadId - Lead the message is sent to
+ * @returns Text with tagged microsite links
+ */
+const tagMicrositeLinks = (text: string, leadId: string): string =>
+  text.replace(MICROSITE_LINK, (link) => {
+    try {
+      const url = new URL(link);
+      url.searchParams.set('lead', leadId);
+      return url.toString();
+    } catch {
+      return link;
+    }
+  });
+
 /**
  * Replace template variables with actual lead data
  * @param template - Template string with placeholders
@@ -62,15 +152,16 @@ const sleep = (ms: number): Promise<void> =>
  * @returns Processed template string
  */
 const processTemplate = (template: string, lead: Lead, calendlyLink: string): string => {
+  const fullName = `${lead.first_name || ''} ${lead.last_name || ''}`.trim();
   const replacements: Record<string, string> = {
-    '{FirstName}': lead.customer_name?.split(' ')[0] || 'there',
-    '{LastName}': lead.customer_name?.split(' ').slice(1).join(' ') || '',
-    '{FullName}': lead.customer_name || 'Valued Customer',
+    '{FirstName}': lead.first_name || 'there',
+    '{LastName}': lead.last_name || '',
+    '{FullName}': fullName || 'Valued Customer',
     '{ProjectType}': lead.project_type || 'construction',
     '{Email}': lead.email || '',
     '{Phone}': lead.phone || '',
-    '{BudgetRange}': lead.budget_range || 'to be discussed',
-    '{Description}': lead.description || '',
+    '{BudgetRange}': budgetRange(lead),
+    '{Description}': lead.project_description || '',
     '{CalendlyLink}': calendlyLink,
     '{LeadId}': lead.id
   };
@@ -80,7 +171,7 @@ const processTemplate = (template: string, lead: Lead, calendlyLink: string): st
     processed = processed.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), value);
   }
 
-  return processed;
+  return tagMicrositeLinks(processed, lead.id);
 };
 
 /**
@@ -224,6 +315,15 @@ const logMessageDelivery = async (supabase: any, logData: any): Promise<void> =>
   }
 };
 
+/**
+ * Check a lead against trigger conditions, e.g. { status: 'new' }
+ * @param lead - Lead data
+ * @param conditions - Field values the lead must have (optional)
+ * @returns True when every condition matches
+ */
+const matchesConditions = (lead: Lead, conditions?: Record<string, unknown>): boolean =>
+  Object.entries(conditions || {}).every(([key, value]) => lead[key as keyof Lead] === value);
+
 /**
  * Get appropriate message template based on lead and trigger conditions
  * @param supabase - Supabase client
@@ -275,21 +375,8 @@ const getMessageTemplate = async (
       // Check if template matches trigger type
       if (conditions.trigger_on && conditions.trigger_on.includes(triggerType)) {
         // Check additional conditions
-        if (conditions.conditions) {
-          let matches = true;
-          
-          for (const [key, value] of Object.entries(conditions.conditions)) {
-            if (lead[key as keyof Lead] !== value) {
-              matches = false;
-              break;
-            }
-          }
-          
-          if (matches) {
-            return template;
-          }
-        } else {
-          return template; // No additional conditions, trigger type match is enough
+        if (matchesConditions(lead, conditions.conditions)) {
+          return template;
         }
       }
     }
@@ -302,9 +389,394 @@ const getMessageTemplate = async (
   }
 };
 
+/**
+ * Send a message on one channel
+ * @param channel - Channel to send on
+ * @param lead - Lead data
+ * @param subject - Email subject (ignored for WhatsApp)
+ * @param message - Message content
+ * @returns Message ID from the messaging service
+ */
+const sendOnChannel = async (
+  channel: SequenceChannel,
+  lead: Lead,
+  subject: string,
+  message: string
+): Promise<string | null> => {
+  if (channel === 'email') {
+    const resend = new Resend(Deno.env.get('RESEND_API_KEY'));
+    return await sendEmailWithRetry(lead.email!, subject, message, resend);
+  }
+  return await sendWhatsAppWithRetry(lead.phone!, message);
+};
+
+/**
+ * Whether the lead's email address has bounced before
+ * @param supabase - Supabase client
+ * @param lead - Lead data
+ */
+const hasBouncedEmail = async (supabase: any, lead: Lead): Promise<boolean> => {
+  if (!lead.email) return false;
+  const { data } = await supabase
+    .from('message_delivery_logs')
+    .select('id')
+    .eq('lead_id', lead.id)
+    .eq('recipient_email', lead.email)
+    .eq('delivery_status', 'bounced')
+    .limit(1);
+  return (data || []).length > 0;
+};
+
+/**
+ * Send one sequence step, trying the fallback channel when the primary one
+ * can't reach the lead or the send fails. Every attempt is logged.
+ * @param supabase - Supabase client
+ * @param enrollment - Enrollment the step belongs to
+ * @param step - Step to send
+ * @param lead - Lead data
+ * @param channels - Channels to try, in order (defaults to primary then fallback)
+ * @returns Outcome of the step
+ */
+const sendSequenceStep = async (
+  supabase: any,
+  enrollment: SequenceEnrollment,
+  step: SequenceStep,
+  lead: Lead,
+  channels: SequenceChannel[] = [step.channel, ...(step.fallback_channel ? [step.fallback_channel] : [])]
+): Promise<{ status: 'sent' | 'failed' | 'unreachable'; channel?: SequenceChannel; error?: string }> => {
+  const emailBounced = await hasBouncedEmail(supabase, lead);
+  const reachable = channels.filter(channel =>
+    channel === 'email' ? Boolean(lead.email) && !emailBounced : Boolean(lead.phone)
+  );
+
+  if (reachable.length === 0) {
+    console.log(`⚠️ Step ${step.step_order + 1} can't reach lead ${lead.id} on ${channels.join(' or ')}`);
+    return { status: 'unreachable' };
+  }
+
+  const calendlyLink = step.calendly_link_template || DEFAULT_CALENDLY_LINK;
+  const subject = processTemplate(step.subject_template || '', lead, calendlyLink);
+  const message = processTemplate(step.message_template, lead, calendlyLink);
+  let lastError = '';
+
+  for (const channel of reachable) {
+    let externalMessageId: string | null = null;
+    let errorMessage: string | null = null;
+
+    try {
+      console.log(`📤 Sequence step ${step.step_order + 1} via ${channel} to lead ${lead.id}`);
+      externalMessageId = await sendOnChannel(channel, lead, subject, message);
+    } catch (error) {
+      errorMessage = error.message;
+      lastError = error.message;
+    }
+
+    await logMessageDelivery(supabase, {
+      user_id: enrollment.user_id,
+      lead_id: lead.id,
+      enrollment_id: enrollment.id,
+      sequence_step_id: step.id,
+      fallback_from: channel === step.channel ? null : step.channel,
+      message_type: channel,
+      recipient_email: channel === 'email' ? lead.email : null,
+      recipient_phone: channel === 'whatsapp' ? lead.phone : null,
+      message_content: message,
+      calendly_link: calendlyLink,
+      delivery_status: errorMessage ? 'failed' : 'sent',
+      external_message_id: externalMessageId,
+      error_message: errorMessage,
+      sent_at: errorMessage ? null : new Date().toISOString()
+    });
+
+    if (!errorMessage) {
+      return { status: 'sent', channel };
+    }
+  }
+
+  return { status: 'failed', error: lastError };
+};
+
+/**
+ * Claim the enrollment's next step by scheduling the one after it (or
+ * completing the enrollment), then send it. A step that can't reach the
+ * lead on any of its channels is skipped; if the lead has no usable email
+ * or phone at all the enrollment is exited.
+ * @param supabase - Supabase client
+ * @param enrollment - Active enrollment
+ * @returns Result for the response
+ */
+const processEnrollment = async (supabase: any, enrollment: SequenceEnrollment) => {
+  const [{ data: lead }, { data: steps }] = await Promise.all([
+    supabase.from('leads').select('*').eq('id', enrollment.lead_id).single(),
+    supabase
+      .from('message_sequence_steps')
+      .select('*')
+      .eq('sequence_id', enrollment.sequence_id)
+      .order('step_order', { ascending: true })
+  ]);
+
+  const orderedSteps = (steps || []) as SequenceStep[];
+  const step = orderedSteps[enrollment.current_step];
+  const now = new Date();
+
+  if (!lead || !step) {
+    await supabase
+      .from('message_sequence_enrollments')
+      .update({ status: 'completed', completed_at: now.toISOString(), next_run_at: null })
+      .eq('id', enrollment.id)
+      .eq('status', 'active');
+    return { enrollmentId: enrollment.id, status: 'completed' };
+  }
+
+  // Claim the step before sending by moving on from the step we loaded, so an
+  // overlapping run or an exit in the meantime means it is never sent twice
+  const nextStep = orderedSteps[enrollment.current_step + 1];
+  const { data: claimed, error: claimError } = await supabase
+    .from('message_sequence_enrollments')
+    .update({
+      current_step: enrollment.current_step + 1,
+      next_run_at: nextStep ? new Date(now.getTime() + nextStep.delay_minutes * MINUTE_MS).toISOString() : null,
+      ...(nextStep ? {} : { status: 'completed', completed_at: now.toISOString() })
+    })
+    .eq('id', enrollment.id)
+    .eq('status', 'active')
+    .eq('current_step', enrollment.current_step)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim sequence step: ${claimError.message}`);
+  }
+  if (!claimed) {
+    return { enrollmentId: enrollment.id, step: step.step_order, status: 'skipped' };
+  }
+
+  const result = await sendSequenceStep(supabase, enrollment, step, lead);
+
+  if (result.status === 'unreachable' && !lead.phone && (!lead.email || await hasBouncedEmail(supabase, lead))) {
+    await supabase
+      .from('message_sequence_enrollments')
+      .update({ status: 'exited', exit_reason: 'unreachable', exited_at: now.toISOString(), completed_at: null, next_run_at: null })
+      .eq('id', enrollment.id)
+      .in('status', ['active', 'completed'])
+      .eq('current_step', enrollment.current_step + 1);
+    return { enrollmentId: enrollment.id, step: step.step_order, status: 'exited', exitReason: 'unreachable' };
+  }
+
+  if (result.status === 'sent') {
+    await supabase
+      .from('message_sequence_enrollments')
+      .update({ last_sent_at: now.toISOString() })
+      .eq('id', enrollment.id);
+  }
+
+  return {
+    enrollmentId: enrollment.id,
+    step: step.step_order,
+    status: result.status,
+    channel: result.channel,
+    error: result.error
+  };
+};
+
+/**
+ * Enroll a lead in matching sequences and send any first step with no delay
+ * @param supabase - Supabase client
+ * @param lead - Lead data
+ * @param triggerType - Type of trigger event
+ * @param sequenceId - Specific sequence to enroll in (optional)
+ * @returns Enrollments created
+ */
+const enrollLead = async (
+  supabase: any,
+  lead: Lead,
+  triggerType: string,
+  sequenceId?: string
+) => {
+  let query = supabase
+    .from('message_sequences')
+    .select('*, message_sequence_steps(step_order, delay_minutes)')
+    .eq('user_id', lead.created_by)
+    .eq('is_active', true);
+
+  if (sequenceId) {
+    query = query.eq('id', sequenceId);
+  }
+
+  const { data: sequences, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load sequences: ${error.message}`);
+  }
+
+  const matching = (sequences || []).filter((sequence: any) =>
+    sequenceId || (sequence.trigger_on.includes(triggerType) && matchesConditions(lead, sequence.conditions))
+  );
+
+  const enrolled = [];
+  for (const sequence of matching) {
+    const steps = [...(sequence.message_sequence_steps || [])].sort((a: any, b: any) => a.step_order - b.step_order);
+    if (steps.length === 0) continue;
+
+    const { data: enrollment, error: enrollError } = await supabase
+      .from('message_sequence_enrollments')
+      .insert({
+        sequence_id: sequence.id,
+        lead_id: lead.id,
+        user_id: sequence.user_id,
+        trigger_type: triggerType,
+        next_run_at: new Date(Date.now() + steps[0].delay_minutes * MINUTE_MS).toISOString()
+      })
+      .select()
+      .single();
+
+    if (enrollError) {
+      // 23505: the lead is already active in this sequence
+      if (enrollError.code !== '23505') {
+        console.error('❌ Failed to enroll lead:', enrollError);
+      }
+      continue;
+    }
+
+    console.log(`🧭 Lead ${lead.id} enrolled in sequence "${sequence.name}"`);
+    const firstStep = steps[0].delay_minutes === 0 ? await processEnrollment(supabase, enrollment) : null;
+    enrolled.push({ enrollmentId: enrollment.id, sequence: sequence.name, firstStep });
+  }
+
+  return enrolled;
+};
+
+/**
+ * Send every sequence step that has come due
+ * @param supabase - Supabase client
+ * @returns Results per enrollment
+ */
+const processDueSteps = async (supabase: any) => {
+  const { data: enrollments, error } = await supabase
+    .from('message_sequence_enrollments')
+    .select('*')
+    .eq('status', 'active')
+    .lte('next_run_at', new Date().toISOString())
+    .order('next_run_at', { ascending: true })
+    .limit(DUE_BATCH_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load due enrollments: ${error.message}`);
+  }
+
+  const results = [];
+  for (const enrollment of (enrollments || []) as SequenceEnrollment[]) {
+    try {
+      results.push(await processEnrollment(supabase, enrollment));
+    } catch (error) {
+      console.error(`❌ Enrollment ${enrollment.id} failed:`, error);
+      results.push({ enrollmentId: enrollment.id, status: 'error', error: error.message });
+    }
+  }
+  return results;
+};
+
+/**
+ * Record an open or click on a sent email. Only the first open and click set
+ * the timestamps; every click on a Calendly link is logged as a booking link
+ * click for the lead.
+ * @param supabase - Supabase client
+ * @param eventType - 'email.opened' or 'email.clicked'
+ * @param emailId - Resend email ID
+ * @param link - URL that was clicked
+ */
+const recordEmailEngagement = async (supabase: any, eventType: string, emailId: string, link?: string) => {
+  const { data: log } = await supabase
+    .from('message_delivery_logs')
+    .select('id, user_id, lead_id, opened_at, clicked_at')
+    .eq('external_message_id', emailId)
+    .eq('message_type', 'email')
+    .maybeSingle();
+
+  if (!log) {
+    return { handled: false };
+  }
+
+  const now = new Date().toISOString();
+  // A click means the email was opened even if the open pixel was blocked
+  const updates: Record<string, string> = {};
+  if (!log.opened_at) updates.opened_at = now;
+  if (eventType === 'email.clicked' && !log.clicked_at) updates.clicked_at = now;
+  if (Object.keys(updates).length > 0) {
+    await supabase.from('message_delivery_logs').update(updates).eq('id', log.id);
+  }
+
+  if (eventType === 'email.clicked' && link && /calendly\.com/i.test(link) && log.lead_id) {
+    const { error: clickError } = await supabase.from('booking_link_analytics').insert({
+      user_id: log.user_id,
+      lead_id: log.lead_id,
+      message_log_id: log.id,
+      event_type: 'link_clicked',
+      event_data: { link, channel: 'email' },
+    });
+    if (clickError) {
+      throw new Error(`Failed to record booking link click: ${clickError.message}`);
+    }
+  }
+
+  return { handled: true };
+};
+
+/**
+ * Record Resend delivery events. A bounced sequence email is resent on the
+ * step's fallback channel while the lead is still in the sequence.
+ * @param supabase - Supabase client
+ * @param eventType - Resend event type
+ * @param emailId - Resend email ID
+ * @param link - URL that was clicked, for email.clicked
+ */
+const handleEmailEvent = async (supabase: any, eventType: string, emailId?: string, link?: string) => {
+  if (emailId && (eventType === 'email.opened' || eventType === 'email.clicked')) {
+    return await recordEmailEngagement(supabase, eventType, emailId, link);
+  }
+  if (!emailId || !['email.bounced', 'email.delivered'].includes(eventType)) {
+    return { handled: false };
+  }
+
+  // Resend redelivers webhooks: only the delivery that first marks the email as bounced
+  // changes a row, so the fallback is sent once. A late "delivered" doesn't undo a bounce.
+  const bounced = eventType === 'email.bounced';
+  const { data: log, error: logError } = await supabase
+    .from('message_delivery_logs')
+    .update(bounced
+      ? { delivery_status: 'bounced', error_message: 'Email bounced' }
+      : { delivery_status: 'delivered', delivered_at: new Date().toISOString() })
+    .eq('external_message_id', emailId)
+    .eq('message_type', 'email')
+    .neq('delivery_status', 'bounced')
+    .select('lead_id, enrollment_id, sequence_step_id')
+    .maybeSingle();
+
+  if (logError) {
+    throw new Error(`Failed to update delivery log: ${logError.message}`);
+  }
+
+  if (!bounced || !log?.enrollment_id || !log.sequence_step_id) {
+    return { handled: true, fallback: null };
+  }
+
+  const [{ data: enrollment }, { data: step }, { data: lead }] = await Promise.all([
+    supabase.from('message_sequence_enrollments').select('*').eq('id', log.enrollment_id).single(),
+    supabase.from('message_sequence_steps').select('*').eq('id', log.sequence_step_id).single(),
+    supabase.from('leads').select('*').eq('id', log.lead_id).single()
+  ]);
+
+  if (enrollment?.status !== 'active' || step?.fallback_channel !== 'whatsapp' || !lead) {
+    return { handled: true, fallback: null };
+  }
+
+  console.log(`↩️ Email bounced for lead ${lead.id}, resending step ${step.step_order + 1} by WhatsApp`);
+  return { handled: true, fallback: await sendSequenceStep(supabase, enrollment, step, lead, ['whatsapp']) };
+};
+
 /**
  * Main auto-responder function
  * Sample call: { "leadId": "lead456", "triggerType": "lead_created" }
+ * Scheduled call (service role key): { "action": "process_due" }
  */
 serve(async (req) => {
   // Handle CORS preflight requests
@@ -331,9 +803,54 @@ serve(async (req) => {
 
   try {
     const requestBody: AutoResponderRequest = await req.json();
-    const { leadId, triggerType = 'manual', templateId, customMessage } = requestBody;
+    const { leadId, triggerType = 'manual', templateId, sequenceId, customMessage } = requestBody;
 
-    console.log('🚀 Auto-responder triggered:', { leadId, triggerType, templateId });
+    // Resend webhook events, verified and forwarded by resend-webhook
+    if (requestBody.type?.startsWith('email.')) {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (token !== supabaseServiceKey) {
+        return new Response(
+          JSON.stringify({ error: 'Email events must come through the resend-webhook function' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const result = await handleEmailEvent(
+        supabase,
+        requestBody.type,
+        requestBody.data?.email_id,
+        requestBody.data?.click?.link
+      );
+      return new Response(
+        JSON.stringify({ success: true, ...result }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    if (requestBody.action === 'process_due') {
+      const token = req.headers.get('Authorization')?.replace('Bearer ', '');
+      if (token !== supabaseServiceKey) {
+        return new Response(
+          JSON.stringify({ error: 'Processing due sequence steps requires the service role key' }),
+          {
+            status: 401,
+            headers: { ...corsHeaders, 'Content-Type': 'application/json' }
+          }
+        );
+      }
+
+      const results = await processDueSteps(supabase);
+      console.log(`✅ Processed ${results.length} due sequence steps`);
+      return new Response(
+        JSON.stringify({ success: true, processed: results.length, results }),
+        { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+      );
+    }
+
+    console.log('🚀 Auto-responder triggered:', { leadId, triggerType, templateId, sequenceId });
 
     // Validate required parameters
     if (!leadId) {
@@ -364,7 +881,24 @@ serve(async (req) => {
       );
     }
 
-    console.log(`📋 Processing lead: ${lead.customer_name} (${lead.email})`);
+    console.log(`📋 Processing lead: ${lead.first_name} ${lead.last_name} (${lead.email})`);
+
+    // Triggers start any matching sequences; a lead with none gets a single template
+    if (!templateId && !customMessage) {
+      const enrollments = await enrollLead(supabase, lead, triggerType, sequenceId);
+      if (enrollments.length > 0 || sequenceId) {
+        return new Response(
+          JSON.stringify({
+            success: enrollments.length > 0,
+            leadId,
+            enrollments,
+            errorMessage: enrollments.length > 0 ? null : 'Lead is already in this sequence or it has no steps',
+            timestamp: new Date().toISOString()
+          }),
+          { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+        );
+      }
+    }
 
     let messageType: 'email' | 'whatsapp' | 'sms';
     let subject: string = '';
@@ -376,11 +910,11 @@ serve(async (req) => {
       // Use custom message
       messageType = customMessage.type;
       subject = customMessage.subject || '';
-      message = customMessage.message;
-      calendlyLink = customMessage.calendlyLink || 'https://calendly.com/your-company/consultation';
+      message = tagMicrositeLinks(customMessage.message, lead.id);
+      calendlyLink = customMessage.calendlyLink || DEFAULT_CALENDLY_LINK;
     } else {
       // Get appropriate template
-      templateUsed = await getMessageTemplate(supabase, lead.customer_id, lead, triggerType, templateId);
+      templateUsed = await getMessageTemplate(supabase, lead.created_by, lead, triggerType, templateId);
       
       if (!templateUsed) {
         console.error('❌ No suitable template found');
@@ -403,7 +937,7 @@ serve(async (req) => {
       message = processTemplate(templateUsed.message_template, lead, calendlyLink);
     }
 
-    console.log(`📤 Sending ${messageType} message to ${lead.customer_name}`);
+    console.log(`📤 Sending ${messageType} message to ${lead.first_name} ${lead.last_name}`);
 
     // Initialize messaging services
     let externalMessageId: string | null = null;
@@ -441,7 +975,7 @@ serve(async (req) => {
 
     // Log message delivery
     await logMessageDelivery(supabase, {
-      user_id: lead.customer_id,
+      user_id: lead.created_by,
       lead_id: leadId,
       template_id: templateUsed?.id || null,
       message_type: messageType,
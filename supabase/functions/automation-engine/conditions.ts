@@ -0,0 +1,139 @@
+/*
+ * Automation rule conditions. Uses the same operators as discount rule
+ * conditions, over a flat map of fields built from the event's entity.
+ * Pure, so test runs and real runs always agree.
+ */
+
+export type FieldValue = string | number | string[] | null;
+
+export type EventContext = Record<string, FieldValue>;
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'starts_with'
+  | 'contains_any'
+  | 'contains_all'
+  | 'gte'
+  | 'lte'
+  | 'between'
+  | 'is_empty'
+  | 'is_not_empty';
+
+export interface RuleCondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number | (string | number)[];
+}
+
+export interface RuleConditions {
+  match?: 'all' | 'any';
+  rules?: RuleCondition[];
+}
+
+export interface ConditionResult {
+  condition: string;
+  passed: boolean;
+  actual: FieldValue;
+}
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const asList = (value: RuleCondition['value']) => (Array.isArray(value) ? value : [value ?? '']);
+
+const isEmpty = (value: FieldValue) =>
+  value == null || value === '' || (Array.isArray(value) && value.length === 0);
+
+export const describeCondition = (condition: RuleCondition): string => {
+  const label = `${condition.field.replace(/_/g, ' ')} ${condition.operator.replace(/_/g, ' ')}`;
+  return condition.operator === 'is_empty' || condition.operator === 'is_not_empty'
+    ? label
+    : `${label} ${asList(condition.value).join(', ')}`;
+};
+
+export const matchesCondition = (condition: RuleCondition, context: EventContext): boolean => {
+  const actual = context[condition.field] ?? null;
+
+  if (condition.operator === 'is_empty') return isEmpty(actual);
+  if (condition.operator === 'is_not_empty') return !isEmpty(actual);
+  if (actual == null) return condition.operator === 'not_equals' || condition.operator === 'not_in';
+
+  if (Array.isArray(actual)) {
+    const items = actual.map(normalize);
+    const wanted = asList(condition.value).map(normalize);
+    switch (condition.operator) {
+      case 'contains_any':
+      case 'in':
+      case 'equals':
+        return wanted.some(item => items.includes(item));
+      case 'contains_all':
+        return wanted.every(item => items.includes(item));
+      case 'not_in':
+      case 'not_equals':
+        return !wanted.some(item => items.includes(item));
+      default:
+        return false;
+    }
+  }
+
+  // Dates are ISO strings and compare correctly as text; amounts compare as numbers
+  const compare = (a: string | number, b: string | number) =>
+    typeof actual === 'number' ? Number(a) - Number(b) : String(a).localeCompare(String(b));
+
+  switch (condition.operator) {
+    case 'equals':
+      return normalize(actual) === normalize(condition.value);
+    case 'not_equals':
+      return normalize(actual) !== normalize(condition.value);
+    case 'in':
+      return asList(condition.value).map(normalize).includes(normalize(actual));
+    case 'not_in':
+      return !asList(condition.value).map(normalize).includes(normalize(actual));
+    case 'starts_with':
+      return asList(condition.value).some(prefix =>
+        normalize(actual).replace(/\s+/g, '').startsWith(normalize(prefix).replace(/\s+/g, ''))
+      );
+    case 'contains_any':
+      return asList(condition.value).some(part => normalize(actual).includes(normalize(part)));
+    case 'gte':
+      return compare(actual, condition.value as string | number) >= 0;
+    case 'lte':
+      return compare(actual, condition.value as string | number) <= 0;
+    case 'between': {
+      const [from, to] = asList(condition.value);
+      return (from === '' || from == null || compare(actual, from) >= 0) &&
+        (to === '' || to == null || compare(actual, to) <= 0);
+    }
+    default:
+      return false;
+  }
+};
+
+/**
+ * Evaluate a rule's conditions. A rule with no conditions always matches.
+ */
+export const evaluateConditions = (conditions: RuleConditions | null, context: EventContext) => {
+  const rules = conditions?.rules || [];
+  const results: ConditionResult[] = rules.map(condition => ({
+    condition: describeCondition(condition),
+    passed: matchesCondition(condition, context),
+    actual: context[condition.field] ?? null,
+  }));
+
+  const matched = results.length === 0 || (conditions?.match === 'any'
+    ? results.some(result => result.passed)
+    : results.every(result => result.passed));
+
+  return { matched, results };
+};
+
+/**
+ * Replace {{field}} placeholders in action text with context values
+ */
+export const fillPlaceholders = (text: string, context: EventContext): string =>
+  text.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (_, field: string) => {
+    const value = context[field];
+    return Array.isArray(value) ? value.join(', ') : value == null ? '' : String(value);
+  });
@@ -0,0 +1,578 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { EventContext, RuleConditions, evaluateConditions, fillPlaceholders } from "./conditions.ts";
+import { fetchPublicUrl, publicUrlBlocker } from "./public-url.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Central rules engine for automation_rules.
+ *
+ * - Called on a schedule (every minute) with the service role key and no
+ *   body: queues overdue-invoice events, then drains automation_events,
+ *   running every active rule whose trigger_type matches each event.
+ * - Called by the client with { action: 'test', rule | ruleId, entityId } to
+ *   dry-run a rule against one of the owner's leads, invoices or feedback
+ *   responses. Nothing is executed; the planned actions are returned and
+ *   logged with dry_run = true.
+ */
+interface EngineRequest {
+  action?: 'test';
+  ruleId?: string;
+  rule?: Pick<AutomationRule, 'rule_name' | 'trigger_type' | 'conditions' | 'actions'>;
+  entityId?: string;
+  payload?: Record<string, unknown>;
+  limit?: number;
+}
+
+type EventType = 'lead_created' | 'lead_status_changed' | 'invoice_overdue' | 'feedback_submitted' | 'booking_made';
+type EntityType = 'lead' | 'invoice' | 'feedback';
+
+type AutomationAction =
+  | { type: 'send_template'; template_id: string }
+  | { type: 'assign_lead'; assigned_to: string }
+  | { type: 'create_task'; title: string; description?: string; due_in_days?: number; assigned_to?: string }
+  | { type: 'call_webhook'; url: string }
+  | { type: 'apply_discount'; discount_rule_id?: string };
+
+interface AutomationRule {
+  id: string;
+  user_id: string;
+  rule_name: string;
+  trigger_type: EventType;
+  conditions: RuleConditions | null;
+  actions: AutomationAction[] | null;
+  priority: number;
+  run_count: number;
+}
+
+interface AutomationEvent {
+  id: string;
+  user_id: string;
+  event_type: EventType;
+  entity_type: EntityType;
+  entity_id: string;
+  payload: Record<string, unknown>;
+}
+
+// A queued event, or the stand-in for one during a dry run
+type RunEvent = { id: string | null; event_type: EventType; entity_id: string };
+
+interface ActionResult {
+  type: string;
+  status: 'succeeded' | 'failed' | 'skipped' | 'planned';
+  detail: string;
+}
+
+// The entity each event is about
+const ENTITY_TYPES: Record<EventType, EntityType> = {
+  lead_created: 'lead',
+  lead_status_changed: 'lead',
+  invoice_overdue: 'invoice',
+  feedback_submitted: 'feedback',
+  booking_made: 'lead',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const WEBHOOK_TIMEOUT_MS = 10000;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [AUTOMATION-ENGINE] ${step}${detailsStr}`);
+};
+
+const leadFields = (lead: any): EventContext => ({
+  lead_id: lead.id,
+  first_name: lead.first_name,
+  last_name: lead.last_name,
+  email: lead.email,
+  phone: lead.phone,
+  status: lead.status,
+  project_type: lead.project_type,
+  lead_source: lead.lead_source,
+  priority: lead.priority,
+  postcode: lead.postal_code ? lead.postal_code.toUpperCase().replace(/\s+/g, '') : null,
+  city: lead.city,
+  budget_max: lead.estimated_budget_max != null ? Number(lead.estimated_budget_max) : null,
+  tags: lead.tags || [],
+  assigned_to: lead.assigned_to,
+  score: lead.score,
+});
+
+/**
+ * Load the event's entity and flatten it into the fields conditions and
+ * placeholders can use. Returns null when the entity is gone or isn't the
+ * user's.
+ */
+const buildContext = async (
+  supabase: any,
+  userId: string,
+  eventType: EventType,
+  entityId: string,
+  payload: Record<string, unknown>
+): Promise<{ context: EventContext; leadId: string | null; invoiceId: string | null } | null> => {
+  const entityType = ENTITY_TYPES[eventType];
+
+  if (entityType === 'lead') {
+    const { data: lead } = await supabase
+      .from('leads')
+      .select('*')
+      .eq('id', entityId)
+      .eq('created_by', userId)
+      .maybeSingle();
+    if (!lead) return null;
+
+    return {
+      context: {
+        ...leadFields(lead),
+        previous_status: (payload.previous_status as string) ?? null,
+        event_type_name: (payload.event_type_name as string) ?? null,
+      },
+      leadId: lead.id,
+      invoiceId: null,
+    };
+  }
+
+  if (entityType === 'invoice') {
+    const { data: invoice } = await supabase
+      .from('construyo_invoices')
+      .select('*')
+      .eq('id', entityId)
+      .eq('user_id', userId)
+      .maybeSingle();
+    if (!invoice) return null;
+
+    const { data: lead } = invoice.lead_id
+      ? await supabase.from('leads').select('*').eq('id', invoice.lead_id).maybeSingle()
+      : { data: null };
+
+    const daysOverdue = invoice.due_date
+      ? Math.max(0, Math.floor((Date.now() - new Date(invoice.due_date).getTime()) / MS_PER_DAY))
+      : 0;
+
+    return {
+      context: {
+        ...(lead ? leadFields(lead) : {}),
+        invoice_id: invoice.id,
+        invoice_number: invoice.invoice_number,
+        customer_name: invoice.customer_name,
+        invoice_status: invoice.status,
+        invoice_amount: Number(invoice.amount),
+        balance_due: Number(invoice.balance_due ?? invoice.amount),
+        currency: invoice.currency,
+        due_date: invoice.due_date,
+        days_overdue: daysOverdue,
+        reminder_count: invoice.reminder_count ?? 0,
+      },
+      leadId: lead?.id ?? null,
+      invoiceId: invoice.id,
+    };
+  }
+
+  const { data: feedback } = await supabase
+    .from('feedback_responses')
+    .select('*')
+    .eq('id', entityId)
+    .eq('user_id', userId)
+    .maybeSingle();
+  if (!feedback) return null;
+
+  return {
+    context: {
+      feedback_id: feedback.id,
+      rating: Number(feedback.rating),
+      comments: feedback.comments,
+      customer_name: feedback.customer_name,
+      customer_email: feedback.customer_email,
+      customer_phone: feedback.customer_phone,
+    },
+    leadId: null,
+    invoiceId: null,
+  };
+};
+
+const describeAction = (action: AutomationAction): string => {
+  switch (action.type) {
+    case 'send_template': return `Send message template ${action.template_id}`;
+    case 'assign_lead': return `Assign lead to ${action.assigned_to}`;
+    case 'create_task': return `Create task "${action.title}"${action.due_in_days != null ? ` due in ${action.due_in_days} days` : ''}`;
+    case 'call_webhook': return `POST event to ${action.url}`;
+    case 'apply_discount': return action.discount_rule_id ? `Apply discount rule ${action.discount_rule_id}` : 'Apply eligible discounts';
+    default: return `Unknown action ${(action as any).type}`;
+  }
+};
+
+// Why an action can't run for this event, or null when it can
+const actionBlocker = (action: AutomationAction, target: { leadId: string | null; invoiceId: string | null }) => {
+  if ((action.type === 'send_template' || action.type === 'assign_lead') && !target.leadId) {
+    return 'Event has no lead';
+  }
+  if (action.type === 'apply_discount' && !target.invoiceId) {
+    return 'Event has no invoice';
+  }
+  if (action.type === 'call_webhook') {
+    return publicUrlBlocker(action.url, 'Webhook URL');
+  }
+  return null;
+};
+
+// Call another edge function with the service role key
+const invokeFunction = async (name: string, body: Record<string, unknown>) => {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/${name}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+  if (!response.ok || result.success === false) {
+    throw new Error(result.error || result.errorMessage || result.message || response.statusText);
+  }
+  return result;
+};
+
+const runAction = async (
+  supabase: any,
+  rule: AutomationRule,
+  event: RunEvent,
+  action: AutomationAction,
+  context: EventContext,
+  target: { leadId: string | null; invoiceId: string | null }
+): Promise<string> => {
+  switch (action.type) {
+    case 'send_template': {
+      const result = await invokeFunction('auto-responder', { leadId: target.leadId, templateId: action.template_id });
+      return `Sent ${result.messageType} using "${result.templateUsed}"`;
+    }
+
+    case 'assign_lead': {
+      const { error } = await supabase
+        .from('leads')
+        .update({ assigned_to: action.assigned_to })
+        .eq('id', target.leadId)
+        .eq('created_by', rule.user_id);
+      if (error) throw new Error(error.message);
+      return `Lead assigned to ${action.assigned_to}`;
+    }
+
+    case 'create_task': {
+      const dueDate = action.due_in_days != null
+        ? new Date(Date.now() + action.due_in_days * MS_PER_DAY).toISOString().split('T')[0]
+        : null;
+      const { data: task, error } = await supabase
+        .from('tasks')
+        .insert({
+          user_id: rule.user_id,
+          title: fillPlaceholders(action.title, context),
+          description: action.description ? fillPlaceholders(action.description, context) : null,
+          due_date: dueDate,
+          assigned_to: action.assigned_to || null,
+          lead_id: target.leadId,
+          invoice_id: target.invoiceId,
+          automation_rule_id: rule.id,
+        })
+        .select('id, title')
+        .single();
+      if (error) throw new Error(error.message);
+      return `Task "${task.title}" created`;
+    }
+
+    case 'call_webhook': {
+      const response = await fetchPublicUrl(action.url, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'User-Agent': 'Construyo-Automation/1.0' },
+        body: JSON.stringify({
+          event: event.event_type,
+          event_id: event.id,
+          rule: { id: rule.id, name: rule.rule_name },
+          data: context,
+          timestamp: new Date().toISOString(),
+        }),
+        signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+      }, 'Webhook URL');
+      if (!response.ok) {
+        throw new Error(`Webhook responded ${response.status}`);
+      }
+      return `Webhook responded ${response.status}`;
+    }
+
+    case 'apply_discount': {
+      const result = await invokeFunction('discount-automation', {
+        invoiceId: target.invoiceId,
+        ruleId: action.discount_rule_id,
+        userId: rule.user_id,
+      });
+      return `Discount of ${result.data?.discountAmount ?? 0} applied`;
+    }
+
+    default:
+      throw new Error(`Unknown action ${(action as any).type}`);
+  }
+};
+
+/**
+ * Evaluate one rule for an event and, unless dryRun, run its actions in
+ * order. Each run is written to automation_logs.
+ */
+const runRule = async (
+  supabase: any,
+  rule: AutomationRule,
+  event: RunEvent,
+  built: { context: EventContext; leadId: string | null; invoiceId: string | null },
+  dryRun: boolean
+) => {
+  const evaluation = evaluateConditions(rule.conditions, built.context);
+  const actionResults: ActionResult[] = [];
+
+  if (evaluation.matched) {
+    for (const action of rule.actions || []) {
+      const blocker = actionBlocker(action, built);
+      if (blocker) {
+        actionResults.push({ type: action.type, status: 'skipped', detail: blocker });
+        continue;
+      }
+      if (dryRun) {
+        actionResults.push({ type: action.type, status: 'planned', detail: describeAction(action) });
+        continue;
+      }
+      try {
+        const detail = await runAction(supabase, rule, event, action, built.context, built);
+        actionResults.push({ type: action.type, status: 'succeeded', detail });
+      } catch (error) {
+        logStep("Action failed", { ruleId: rule.id, type: action.type, error: error.message });
+        actionResults.push({ type: action.type, status: 'failed', detail: error.message });
+      }
+    }
+  }
+
+  const failed = actionResults.filter(result => result.status === 'failed').length;
+  const succeeded = actionResults.filter(result => result.status === 'succeeded').length;
+  const status = dryRun
+    ? 'dry_run'
+    : !evaluation.matched
+      ? 'not_matched'
+      : failed === 0
+        ? 'succeeded'
+        : succeeded > 0 ? 'partial' : 'failed';
+
+  await supabase.from('automation_logs').insert({
+    user_id: rule.user_id,
+    rule_id: rule.id || null,
+    event_id: event.id,
+    event_type: event.event_type,
+    entity_type: ENTITY_TYPES[event.event_type],
+    entity_id: event.entity_id,
+    dry_run: dryRun,
+    conditions_matched: evaluation.matched,
+    status,
+    payload: { conditions: evaluation.results },
+    action_results: actionResults,
+    error_message: failed > 0 ? actionResults.filter(result => result.status === 'failed').map(result => result.detail).join('; ') : null,
+  });
+
+  if (!dryRun && evaluation.matched && rule.id) {
+    await supabase
+      .from('automation_rules')
+      .update({ run_count: (rule.run_count || 0) + 1, last_run_at: new Date().toISOString() })
+      .eq('id', rule.id);
+  }
+
+  return {
+    ruleId: rule.id,
+    ruleName: rule.rule_name,
+    matched: evaluation.matched,
+    conditions: evaluation.results,
+    actions: actionResults,
+    status,
+  };
+};
+
+const processEvent = async (supabase: any, event: AutomationEvent) => {
+  const { data: rules, error: rulesError } = await supabase
+    .from('automation_rules')
+    .select('*')
+    .eq('user_id', event.user_id)
+    .eq('trigger_type', event.event_type)
+    .eq('is_active', true)
+    .order('priority', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (rulesError) {
+    throw new Error(`Failed to load rules: ${rulesError.message}`);
+  }
+
+  const built = await buildContext(supabase, event.user_id, event.event_type, event.entity_id, event.payload || {});
+  const results = [];
+
+  if (built) {
+    for (const rule of (rules || []) as AutomationRule[]) {
+      results.push(await runRule(supabase, rule, event, built, false));
+    }
+  }
+
+  await supabase
+    .from('automation_events')
+    .update({ status: 'processed', processed_at: new Date().toISOString(), locked_at: null, last_error: null })
+    .eq('id', event.id);
+
+  return { eventId: event.id, eventType: event.event_type, entityFound: Boolean(built), rules: results };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: EngineRequest = await req.json().catch(() => ({}));
+
+    if (body.action === 'test') {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+      const userId = userData.user.id;
+
+      let rule: AutomationRule;
+      if (body.ruleId) {
+        const { data: saved } = await supabase
+          .from('automation_rules')
+          .select('*')
+          .eq('id', body.ruleId)
+          .eq('user_id', userId)
+          .single();
+        if (!saved) throw new Error("Rule not found");
+        rule = saved;
+      } else if (body.rule) {
+        // Unsaved rule from the builder
+        rule = { ...body.rule, id: '', user_id: userId, priority: 0, run_count: 0 } as AutomationRule;
+      } else {
+        throw new Error("ruleId or rule is required");
+      }
+
+      if (!ENTITY_TYPES[rule.trigger_type]) {
+        throw new Error(`Unknown trigger type ${rule.trigger_type}`);
+      }
+      if (!body.entityId) {
+        throw new Error(`Choose a ${ENTITY_TYPES[rule.trigger_type]} to test against`);
+      }
+
+      const built = await buildContext(supabase, userId, rule.trigger_type, body.entityId, body.payload || {});
+      if (!built) {
+        throw new Error(`${ENTITY_TYPES[rule.trigger_type]} not found`);
+      }
+
+      const result = await runRule(
+        supabase,
+        rule,
+        { id: null, event_type: rule.trigger_type, entity_id: body.entityId },
+        built,
+        true
+      );
+      logStep("Dry run", { ruleId: rule.id || 'unsaved', matched: result.matched });
+
+      return new Response(
+        JSON.stringify({ success: true, dryRun: true, context: built.context, ...result }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (token !== serviceRoleKey) {
+      throw new Error("Processing automation events requires the service role key");
+    }
+
+    logStep("Engine run started");
+
+    const { data: queued, error: overdueError } = await supabase.rpc('enqueue_overdue_invoice_events');
+    if (overdueError) {
+      logStep("Failed to queue overdue invoices", { error: overdueError.message });
+    }
+
+    const { data: events, error: claimError } = await supabase.rpc('claim_automation_events', {
+      p_limit: Math.min(Math.max(body.limit ?? 25, 1), 100),
+    });
+    if (claimError) {
+      throw new Error(`Failed to claim events: ${claimError.message}`);
+    }
+
+    logStep("Events claimed", { count: events?.length || 0, overdueQueued: queued || 0 });
+
+    const results = [];
+    for (const event of (events || []) as AutomationEvent[]) {
+      try {
+        results.push(await processEvent(supabase, event));
+      } catch (error) {
+        logStep("Event processing failed", { eventId: event.id, error: error.message });
+        await supabase
+          .from('automation_events')
+          .update({ status: 'failed', locked_at: null, last_error: error.message })
+          .eq('id', event.id);
+        results.push({ eventId: event.id, eventType: event.event_type, error: error.message });
+      }
+    }
+
+    logStep("Engine run completed", { processed: results.length });
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in automation engine", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALLS
+
+// Scheduled run (every minute) with the service role key
+POST /functions/v1/automation-engine
+Authorization: Bearer <service role key>
+{}
+
+// Dry-run a rule against a lead
+const { data } = await supabase.functions.invoke('automation-engine', {
+  body: { action: 'test', ruleId: 'rule-uuid', entityId: 'lead-uuid' }
+});
+// data.matched, data.conditions[], data.actions[] (status 'planned' or 'skipped')
+*/
@@ -0,0 +1,80 @@
+/*
+ * Guards for URLs users supply that edge functions fetch server-side
+ * (automation webhooks, invoice logos), so they can't reach private hosts
+ * such as cloud metadata endpoints. Shared by automation-engine and
+ * invoice-generator.
+ */
+
+const BLOCKED_HOSTNAMES = /(^localhost$)|\.(localhost|local|internal|lan|home\.arpa)$/i;
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved addresses
+export const isPrivateAddress = (host: string) => {
+  const address = host.toLowerCase().replace(/^\[|\]$/g, '');
+  const v4 = address.match(/^(?:::ffff:)?(\d+)\.(\d+)\.(\d+)\.(\d+)$/);
+  if (v4) {
+    const [a, b] = [Number(v4[1]), Number(v4[2])];
+    return a === 0 || a === 10 || a === 127 || a >= 224 ||
+      (a === 100 && b >= 64 && b <= 127) ||
+      (a === 169 && b === 254) ||
+      (a === 172 && b >= 16 && b <= 31) ||
+      (a === 192 && b === 168) ||
+      (a === 198 && (b === 18 || b === 19));
+  }
+  if (address.includes(':')) {
+    return address === '::' || address === '::1' || /^f[cd]/.test(address) || /^fe[89ab]/.test(address) ||
+      /^::ffff:/.test(address);
+  }
+  return false;
+};
+
+// Why a URL may not be fetched, or null for a public https URL
+export const publicUrlBlocker = (value: string | null | undefined, label: string) => {
+  let url: URL;
+  try {
+    url = new URL(value || '');
+  } catch {
+    return `${label} is invalid`;
+  }
+  if (url.protocol !== 'https:') {
+    return `${label} must use https`;
+  }
+  const host = url.hostname.replace(/\.$/, '');
+  if (BLOCKED_HOSTNAMES.test(host) || isPrivateAddress(host)) {
+    return `${label} must be a public host`;
+  }
+  return null;
+};
+
+// A public name can still point at a private address, so check what it resolves to
+export const assertPublicHost = async (url: string, label: string) => {
+  const host = new URL(url).hostname.replace(/\.$/, '');
+  if (/^[\d.]+$|^\[/.test(host) || typeof Deno.resolveDns !== 'function') return;
+
+  const [v4, v6] = await Promise.all([
+    Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+    Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+  ]);
+  const addresses = [...v4, ...v6];
+  if (addresses.length === 0) {
+    throw new Error(`${label} host could not be resolved`);
+  }
+  if (addresses.some(isPrivateAddress)) {
+    throw new Error(`${label} must be a public host`);
+  }
+};
+
+// Fetch a user-supplied URL. Redirects are not followed, since one could lead anywhere,
+// including private hosts.
+export const fetchPublicUrl = async (url: string, init: RequestInit, label: string) => {
+  const blocker = publicUrlBlocker(url, label);
+  if (blocker) {
+    throw new Error(blocker);
+  }
+  await assertPublicHost(url, label);
+
+  const response = await fetch(url, { ...init, redirect: 'manual' });
+  if (response.status >= 300 && response.status < 400) {
+    throw new Error(`${label} responded with a redirect (${response.status}), which is not followed`);
+  }
+  return response;
+};
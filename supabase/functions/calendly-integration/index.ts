@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.45.0';
+import { intakeLead } from '../crm-manager/lead-intake.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -219,6 +220,91 @@ async function logBookingAnalytics(
   }
 }
 
+/**
+ * Stop auto-responder sequences for a lead who has booked a consultation
+ */
+async function exitSequencesOnBooking(supabase: any, leadId: string): Promise<void> {
+  const { data: enrollments } = await supabase
+    .from('message_sequence_enrollments')
+    .select('id, message_sequences!inner(exit_on_booking)')
+    .eq('lead_id', leadId)
+    .eq('status', 'active')
+    .eq('message_sequences.exit_on_booking', true);
+
+  const enrollmentIds = (enrollments || []).map((enrollment: any) => enrollment.id);
+  if (enrollmentIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('message_sequence_enrollments')
+    .update({ status: 'exited', exit_reason: 'booked', exited_at: new Date().toISOString(), next_run_at: null })
+    .in('id', enrollmentIds);
+
+  if (error) {
+    console.error('❌ Failed to exit sequences:', error);
+  } else {
+    console.log(`🛑 Exited ${enrollmentIds.length} sequence(s) for booked lead ${leadId}`);
+  }
+}
+
+/**
+ * Queue a booking_made event for the automation engine
+ */
+async function queueBookingEvent(supabase: any, leadId: string, appointmentData: any): Promise<void> {
+  const { data: lead } = await supabase.from('leads').select('created_by').eq('id', leadId).maybeSingle();
+  if (!lead) return;
+
+  const { error } = await supabase.rpc('enqueue_automation_event', {
+    p_user_id: lead.created_by,
+    p_event_type: 'booking_made',
+    p_entity_type: 'lead',
+    p_entity_id: leadId,
+    p_payload: {
+      event_type_name: appointmentData.event_type_name,
+      start_time: appointmentData.start_time
+    },
+    p_dedupe_key: `booking_made:${appointmentData.event_uri}`
+  });
+
+  if (error) {
+    console.error('❌ Failed to queue booking automation event:', error);
+  }
+}
+
+/**
+ * Lead for a booking made without a tracked booking link. The organiser is
+ * matched to a user by email; the invitee is attached to that user's
+ * existing lead or created as a new one, per their duplicate settings.
+ */
+async function resolveBookingLead(supabase: any, webhookData: CalendlyWebhookPayload): Promise<string | null> {
+  const organiserEmails = (webhookData.payload.scheduled_event.event_memberships || [])
+    .map(member => member.user_email?.toLowerCase())
+    .filter(Boolean);
+  if (!organiserEmails.length) return null;
+
+  const { data: owner } = await supabase
+    .from('profiles')
+    .select('id')
+    .in('email', organiserEmails)
+    .limit(1)
+    .maybeSingle();
+  if (!owner) return null;
+
+  try {
+    const { lead, attached } = await intakeLead(supabase, owner.id, 'calendly', {
+      name: webhookData.payload.invitee.name,
+      email: webhookData.payload.invitee.email,
+      lead_source: 'calendly',
+      project_description: webhookData.payload.event_type.name,
+      notes: `Booked ${webhookData.payload.event_type.name} for ${webhookData.payload.scheduled_event.start_time}`
+    });
+    console.log(attached ? '🔗 Booking matched to existing lead:' : '🆕 Lead created from booking:', lead?.id);
+    return lead?.id ?? null;
+  } catch (error) {
+    console.error('❌ Failed to match booking to a lead:', error);
+    return null;
+  }
+}
+
 /**
  * Sync appointment to Construyo CRM
  */
@@ -350,7 +436,7 @@ serve(async (req) => {
       console.log(`📅 Received Calendly webhook: ${webhookData.event}`);
       
       // Extract lead ID from tracking data
-      const leadId = webhookData.payload.tracking?.utm_campaign?.includes('lead_') 
+      let leadId = webhookData.payload.tracking?.utm_campaign?.includes('lead_') 
         ? webhookData.payload.tracking.utm_campaign.split('lead_')[1] 
         : null;
       
@@ -365,9 +451,19 @@ serve(async (req) => {
           end_time: webhookData.payload.scheduled_event.end_time,
           questions_and_answers: webhookData.payload.questions_and_answers
         };
+
+        if (!leadId) {
+          leadId = await resolveBookingLead(supabase, webhookData);
+        }
         
         // Sync to CRM
         await syncAppointmentToCRM(supabase, appointmentData, leadId);
+
+        // Booking ends the lead's drip sequences and runs booking_made automation rules
+        if (leadId) {
+          await exitSequencesOnBooking(supabase, leadId);
+          await queueBookingEvent(supabase, leadId, appointmentData);
+        }
         
         // Log analytics
         await logBookingAnalytics(supabase, 'appointment_booked', leadId, {
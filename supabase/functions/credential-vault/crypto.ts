@@ -0,0 +1,188 @@
+/*
+ * AES-GCM envelope encryption for stored provider credentials.
+ *
+ * Each value is encrypted with its own random data key, and the data key is
+ * wrapped with a master key that only exists in edge function secrets:
+ *
+ *   CREDENTIAL_MASTER_KEYS     JSON map of key id -> base64 encoded 256-bit key
+ *   CREDENTIAL_ACTIVE_KEY_ID   id of the key new values are wrapped with
+ *
+ * Envelope format: enc:v1:<key id>:<base64 wrapped data key>:<base64 ciphertext>
+ * where both base64 parts are a 12 byte IV followed by the AES-GCM output.
+ * Rotating the master key only re-wraps the data key; the ciphertext is kept.
+ */
+
+const ENVELOPE_PREFIX = 'enc:v1:';
+const IV_BYTES = 12;
+
+const masterKeyCache = new Map<string, CryptoKey>();
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const loadMasterKeyMaterial = (): Record<string, string> => {
+  const raw = Deno.env.get("CREDENTIAL_MASTER_KEYS");
+  if (!raw) {
+    throw new Error("CREDENTIAL_MASTER_KEYS not configured");
+  }
+
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new Error("CREDENTIAL_MASTER_KEYS must be a JSON object of key id to base64 key");
+  }
+};
+
+export const getActiveKeyId = (): string => {
+  const keyId = Deno.env.get("CREDENTIAL_ACTIVE_KEY_ID");
+  if (!keyId) {
+    throw new Error("CREDENTIAL_ACTIVE_KEY_ID not configured");
+  }
+  return keyId;
+};
+
+const getMasterKey = async (keyId: string): Promise<CryptoKey> => {
+  const cached = masterKeyCache.get(keyId);
+  if (cached) return cached;
+
+  const material = loadMasterKeyMaterial()[keyId];
+  if (!material) {
+    throw new Error(`Master key ${keyId} is not available`);
+  }
+
+  const bytes = fromBase64(material);
+  if (bytes.length !== 32) {
+    throw new Error(`Master key ${keyId} must be 32 bytes`);
+  }
+
+  const key = await crypto.subtle.importKey('raw', bytes, 'AES-GCM', false, ['encrypt', 'decrypt']);
+  masterKeyCache.set(keyId, key);
+  return key;
+};
+
+const seal = async (key: CryptoKey, plaintext: Uint8Array) => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, plaintext));
+  const sealed = new Uint8Array(IV_BYTES + ciphertext.length);
+  sealed.set(iv);
+  sealed.set(ciphertext, IV_BYTES);
+  return toBase64(sealed);
+};
+
+const open = async (key: CryptoKey, sealed: string) => {
+  const bytes = fromBase64(sealed);
+  return new Uint8Array(await crypto.subtle.decrypt(
+    { name: 'AES-GCM', iv: bytes.slice(0, IV_BYTES) },
+    key,
+    bytes.slice(IV_BYTES)
+  ));
+};
+
+const parseEnvelope = (envelope: string) => {
+  const [keyId, wrappedKey, ciphertext] = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+  if (!keyId || !wrappedKey || !ciphertext) {
+    throw new Error("Malformed credential envelope");
+  }
+  return { keyId, wrappedKey, ciphertext };
+};
+
+export const isEnvelope = (value: string | null | undefined): value is string =>
+  !!value && value.startsWith(ENVELOPE_PREFIX);
+
+// Key id an envelope is wrapped with; legacy base64 values have none
+export const getEnvelopeKeyId = (value: string): string | null =>
+  isEnvelope(value) ? parseEnvelope(value).keyId : null;
+
+export const encryptSecret = async (plaintext: string): Promise<string> => {
+  const keyId = getActiveKeyId();
+  const masterKey = await getMasterKey(keyId);
+
+  const dataKeyBytes = crypto.getRandomValues(new Uint8Array(32));
+  const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['encrypt']);
+
+  const ciphertext = await seal(dataKey, new TextEncoder().encode(plaintext));
+  const wrappedKey = await seal(masterKey, dataKeyBytes);
+
+  return `${ENVELOPE_PREFIX}${keyId}:${wrappedKey}:${ciphertext}`;
+};
+
+export const decryptSecret = async (value: string): Promise<string> => {
+  // Rows saved before envelope encryption hold plain base64 until they are rotated
+  if (!isEnvelope(value)) {
+    try {
+      return atob(value);
+    } catch {
+      throw new Error('Failed to decrypt data');
+    }
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  try {
+    const masterKey = await getMasterKey(keyId);
+    const dataKeyBytes = await open(masterKey, wrappedKey);
+    const dataKey = await crypto.subtle.importKey('raw', dataKeyBytes, 'AES-GCM', false, ['decrypt']);
+    return new TextDecoder().decode(await open(dataKey, ciphertext));
+  } catch (error) {
+    throw new Error(`Failed to decrypt data: ${error.message}`);
+  }
+};
+
+// Re-wrap the data key with the active master key; legacy values are encrypted from scratch
+export const rewrapSecret = async (value: string): Promise<string> => {
+  if (!isEnvelope(value)) {
+    return await encryptSecret(await decryptSecret(value));
+  }
+
+  const { keyId, wrappedKey, ciphertext } = parseEnvelope(value);
+  const activeKeyId = getActiveKeyId();
+  if (keyId === activeKeyId) {
+    return value;
+  }
+
+  const dataKeyBytes = await open(await getMasterKey(keyId), wrappedKey);
+  const rewrapped = await seal(await getMasterKey(activeKeyId), dataKeyBytes);
+  return `${ENVELOPE_PREFIX}${activeKeyId}:${rewrapped}:${ciphertext}`;
+};
+
+// Record who read or changed a credential; failures are logged but never block the caller
+export const logCredentialAccess = async (
+  supabase: any,
+  entry: {
+    userId: string;
+    recordId: string;
+    action: 'CREDENTIAL_READ' | 'CREDENTIAL_UPDATE' | 'CREDENTIAL_DELETE' | 'CREDENTIAL_ROTATE';
+    fields: string[];
+    userAgent?: string | null;
+  }
+) => {
+  const { error } = await supabase.from('audit_logs').insert({
+    user_id: entry.userId,
+    table_name: 'payment_provider_settings',
+    action: entry.action,
+    record_id: entry.recordId,
+    sensitive_fields: entry.fields,
+    user_agent: entry.userAgent ?? null,
+  });
+
+  if (error) {
+    console.error(`Failed to write credential audit log: ${error.message}`);
+  }
+};
+
+// Decrypt one credential column of a payment_provider_settings row and audit the read
+export const readProviderSecret = async (
+  supabase: any,
+  settings: { id: string; user_id: string; [column: string]: any },
+  column: 'encrypted_credentials' | 'webhook_signing_secret',
+  userAgent?: string | null
+): Promise<string> => {
+  const plaintext = await decryptSecret(settings[column]);
+  await logCredentialAccess(supabase, {
+    userId: settings.user_id,
+    recordId: settings.id,
+    action: 'CREDENTIAL_READ',
+    fields: [column],
+    userAgent,
+  });
+  return plaintext;
+};
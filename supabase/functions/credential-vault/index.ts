@@ -0,0 +1,347 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  encryptSecret,
+  getActiveKeyId,
+  getEnvelopeKeyId,
+  logCredentialAccess,
+  readProviderSecret,
+  rewrapSecret,
+} from "./crypto.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * The only writer of payment_provider_settings credentials. Plaintext never
+ * leaves edge functions: the client sends new secrets here and gets back
+ * masked hints at most.
+ *
+ * - save / clear / hint are called by the client for the authenticated owner.
+ * - rotate is called with the service role key after CREDENTIAL_ACTIVE_KEY_ID
+ *   changes, and re-wraps every row still on an older key (or legacy base64).
+ */
+interface VaultRequest {
+  action: 'save' | 'clear' | 'hint' | 'rotate';
+  providerType?: string;
+  apiKey?: string;
+  // QuickBooks realm id or Xero tenant id stored alongside the token
+  accountId?: string;
+  webhookSigningSecret?: string;
+  fields?: Array<'encrypted_credentials' | 'webhook_signing_secret'>;
+  limit?: number;
+}
+
+const SECRET_COLUMNS = ['encrypted_credentials', 'webhook_signing_secret'] as const;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [CREDENTIAL-VAULT] ${step}${detailsStr}`);
+};
+
+const maskSecret = (secret: string) =>
+  secret.length <= 4 ? '••••' : `••••${secret.slice(-4)}`;
+
+// Accounting providers also need the organisation the token belongs to
+const buildCredentialPayload = (providerType: string, apiKey: string, accountId?: string) =>
+  accountId
+    ? JSON.stringify({
+        accessToken: apiKey,
+        ...(providerType === 'quickbooks' ? { realmId: accountId } : { tenantId: accountId }),
+      })
+    : apiKey;
+
+const saveCredentials = async (supabase: any, userId: string, body: VaultRequest, userAgent: string | null) => {
+  const { providerType, apiKey, accountId, webhookSigningSecret } = body;
+  if (!providerType) {
+    throw new Error("providerType is required");
+  }
+  if (!apiKey && !webhookSigningSecret) {
+    throw new Error("Nothing to save");
+  }
+
+  const updates: Record<string, unknown> = {
+    user_id: userId,
+    provider_type: providerType,
+    credentials_updated_at: new Date().toISOString(),
+  };
+  const fields: string[] = [];
+
+  if (apiKey) {
+    updates.encrypted_credentials = await encryptSecret(buildCredentialPayload(providerType, apiKey, accountId));
+    fields.push('encrypted_credentials');
+  }
+  if (webhookSigningSecret) {
+    if (providerType !== 'stripe') {
+      throw new Error("Webhook signing secrets are only used for Stripe");
+    }
+    updates.webhook_signing_secret = await encryptSecret(webhookSigningSecret);
+    fields.push('webhook_signing_secret');
+  }
+
+  // The row's key id must describe every stored secret, not just the ones saved now:
+  // a secret left on an older key (or legacy base64) keeps the row in the rotation queue
+  const { data: existing, error: existingError } = await supabase
+    .from('payment_provider_settings')
+    .select('encrypted_credentials, webhook_signing_secret')
+    .eq('user_id', userId)
+    .eq('provider_type', providerType)
+    .maybeSingle();
+
+  if (existingError) {
+    throw new Error(`Failed to load credentials: ${existingError.message}`);
+  }
+
+  const activeKeyId = getActiveKeyId();
+  const staleSecret = SECRET_COLUMNS
+    .map(column => (updates[column] as string | undefined) ?? existing?.[column])
+    .find(value => value && getEnvelopeKeyId(value) !== activeKeyId);
+  updates.credentials_key_id = staleSecret ? getEnvelopeKeyId(staleSecret) : activeKeyId;
+
+  const { data: settings, error } = await supabase
+    .from('payment_provider_settings')
+    .upsert(updates, { onConflict: 'user_id,provider_type' })
+    .select('id')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to save credentials: ${error.message}`);
+  }
+
+  await logCredentialAccess(supabase, {
+    userId,
+    recordId: settings.id,
+    action: 'CREDENTIAL_UPDATE',
+    fields,
+    userAgent,
+  });
+
+  logStep("Credentials saved", { providerType, fields });
+  return { id: settings.id, fields };
+};
+
+const getOwnSettings = async (supabase: any, userId: string, providerType?: string) => {
+  if (!providerType) {
+    throw new Error("providerType is required");
+  }
+
+  const { data: settings } = await supabase
+    .from('payment_provider_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider_type', providerType)
+    .maybeSingle();
+
+  if (!settings) {
+    throw new Error(`No ${providerType} settings found`);
+  }
+  return settings;
+};
+
+const clearCredentials = async (supabase: any, userId: string, body: VaultRequest, userAgent: string | null) => {
+  const settings = await getOwnSettings(supabase, userId, body.providerType);
+  const fields = (body.fields?.length ? body.fields : [...SECRET_COLUMNS])
+    .filter(field => SECRET_COLUMNS.includes(field) && settings[field]);
+
+  if (fields.length === 0) {
+    return { fields };
+  }
+
+  const { error } = await supabase
+    .from('payment_provider_settings')
+    .update(Object.fromEntries(fields.map(field => [field, null])))
+    .eq('id', settings.id);
+
+  if (error) {
+    throw new Error(`Failed to clear credentials: ${error.message}`);
+  }
+
+  await logCredentialAccess(supabase, {
+    userId,
+    recordId: settings.id,
+    action: 'CREDENTIAL_DELETE',
+    fields,
+    userAgent,
+  });
+
+  return { fields };
+};
+
+// Last four characters of each stored secret so owners can tell which key is configured
+const getCredentialHints = async (supabase: any, userId: string, body: VaultRequest, userAgent: string | null) => {
+  const settings = await getOwnSettings(supabase, userId, body.providerType);
+  const hints: Record<string, string> = {};
+
+  if (settings.encrypted_credentials) {
+    const decrypted = await readProviderSecret(supabase, settings, 'encrypted_credentials', userAgent);
+    let token = decrypted;
+    try {
+      const parsed = JSON.parse(decrypted);
+      token = parsed.accessToken || parsed.apiKey || decrypted;
+    } catch {
+      // Bare API key
+    }
+    hints.apiKey = maskSecret(token);
+  }
+
+  if (settings.webhook_signing_secret) {
+    hints.webhookSigningSecret = maskSecret(
+      await readProviderSecret(supabase, settings, 'webhook_signing_secret', userAgent)
+    );
+  }
+
+  return { hints, keyId: settings.credentials_key_id };
+};
+
+const rotateCredentials = async (supabase: any, limit: number) => {
+  const activeKeyId = getActiveKeyId();
+
+  const { data: rows, error } = await supabase
+    .from('payment_provider_settings')
+    .select('id, user_id, encrypted_credentials, webhook_signing_secret, credentials_key_id')
+    .or(`credentials_key_id.is.null,credentials_key_id.neq.${activeKeyId}`)
+    .or('encrypted_credentials.not.is.null,webhook_signing_secret.not.is.null')
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load credentials for rotation: ${error.message}`);
+  }
+
+  let rotated = 0;
+  const failures: Array<{ id: string; error: string }> = [];
+
+  for (const row of rows || []) {
+    try {
+      const updates: Record<string, unknown> = { credentials_key_id: activeKeyId };
+      const fields: string[] = [];
+
+      for (const column of SECRET_COLUMNS) {
+        if (row[column] && getEnvelopeKeyId(row[column]) !== activeKeyId) {
+          updates[column] = await rewrapSecret(row[column]);
+          fields.push(column);
+        }
+      }
+
+      const { error: updateError } = await supabase
+        .from('payment_provider_settings')
+        .update(updates)
+        .eq('id', row.id);
+
+      if (updateError) throw updateError;
+
+      if (fields.length > 0) {
+        await logCredentialAccess(supabase, {
+          userId: row.user_id,
+          recordId: row.id,
+          action: 'CREDENTIAL_ROTATE',
+          fields,
+        });
+      }
+      rotated++;
+    } catch (error) {
+      logStep("Rotation failed for row", { id: row.id, error: error.message });
+      failures.push({ id: row.id, error: error.message });
+    }
+  }
+
+  logStep("Rotation batch completed", { activeKeyId, rotated, failed: failures.length });
+  return { activeKeyId, rotated, failures, remaining: (rows?.length || 0) === limit };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: VaultRequest = await req.json();
+    logStep("Request received", { action: body.action, providerType: body.providerType });
+
+    let result: Record<string, unknown>;
+
+    if (body.action === 'rotate') {
+      if (token !== serviceRoleKey) {
+        throw new Error("Key rotation requires the service role key");
+      }
+      result = await rotateCredentials(supabase, Math.min(Math.max(body.limit ?? 100, 1), 500));
+    } else {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+
+      const userId = userData.user.id;
+      const userAgent = req.headers.get("user-agent");
+
+      switch (body.action) {
+        case 'save':
+          result = await saveCredentials(supabase, userId, body, userAgent);
+          break;
+        case 'clear':
+          result = await clearCredentials(supabase, userId, body, userAgent);
+          break;
+        case 'hint':
+          result = await getCredentialHints(supabase, userId, body, userAgent);
+          break;
+        default:
+          throw new Error(`Unknown action: ${body.action}`);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in credential vault", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALLS:
+
+// Save a Stripe secret key and webhook signing secret
+await supabase.functions.invoke('credential-vault', {
+  body: { action: 'save', providerType: 'stripe', apiKey: 'sk_live_...', webhookSigningSecret: 'whsec_...' }
+});
+
+// Rotate after adding a new key to CREDENTIAL_MASTER_KEYS and switching CREDENTIAL_ACTIVE_KEY_ID
+// (repeat while `remaining` is true)
+curl -X POST "$SUPABASE_URL/functions/v1/credential-vault" \
+  -H "Authorization: Bearer $SUPABASE_SERVICE_ROLE_KEY" \
+  -H "Content-Type: application/json" \
+  -d '{"action": "rotate", "limit": 100}'
+*/
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2";
+import { intakeLead } from "./lead-intake.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -21,6 +22,7 @@ interface CRMRecord {
   timeline?: string;
   description?: string;
   address?: string;
+  postal_code?: string;
   priority?: 'low' | 'medium' | 'high';
   notes?: string;
 }
@@ -90,15 +92,6 @@ function validateCRMRecord(record: CRMRecord): { isValid: boolean; errors: strin
   };
 }
 
-/**
- * Encrypts sensitive data for GDPR compliance
- * In production, use proper encryption libraries
- */
-function encryptSensitiveData(data: string): string {
-  // For demo purposes - in production use proper encryption
-  return btoa(data); // Base64 encoding (NOT secure for production)
-}
-
 /**
  * Logs security events for GDPR compliance
  */
@@ -129,7 +122,7 @@ async function logSecurityEvent(
 /**
  * Creates a single CRM record in the database
  */
-async function createCRMRecord(record: CRMRecord, userId?: string): Promise<{ success: boolean; data?: any; error?: string }> {
+async function createCRMRecord(record: CRMRecord, userId?: string): Promise<{ success: boolean; data?: any; attached?: boolean; error?: string }> {
   try {
     console.log('🏗️ Creating CRM record for:', record.name);
 
@@ -142,37 +135,39 @@ async function createCRMRecord(record: CRMRecord, userId?: string): Promise<{ su
       };
     }
 
-    // Prepare data for insertion
-    const leadData = {
-      customer_name: record.name.trim(),
-      email: record.email.trim().toLowerCase(),
-      phone: record.phone?.trim() || null,
-      project_type: record.project_type?.trim() || null,
-      source: record.source || 'crm',
-      budget_range: record.budget_range?.trim() || null,
-      timeline: record.timeline?.trim() || null,
-      description: record.description?.trim() || null,
-      address: record.address?.trim() || null,
-      priority: record.priority || 'medium',
-      notes: record.notes?.trim() || null,
-      status: 'new',
-      customer_id: userId || null
-    };
-
-    // Insert into leads table
-    const { data, error } = await supabase
-      .from('leads')
-      .insert([leadData])
-      .select()
-      .single();
+    if (!userId) {
+      return {
+        success: false,
+        error: 'User not authenticated'
+      };
+    }
 
-    if (error) {
+    // Attach to the user's existing lead for this person or create a new one
+    let intake;
+    try {
+      intake = await intakeLead(supabase, userId, 'crm_import', {
+        name: record.name,
+        email: record.email,
+        phone: record.phone,
+        project_type: record.project_type,
+        project_description: record.description,
+        address: record.address,
+        postal_code: record.postal_code,
+        lead_source: record.source || 'crm',
+        priority: record.priority,
+        estimated_timeline: record.timeline,
+        notes: [record.notes?.trim(), record.budget_range?.trim() && `Budget: ${record.budget_range.trim()}`]
+          .filter(Boolean)
+          .join('\n') || null
+      });
+    } catch (error) {
       console.error('❌ Database insert failed:', error);
       return {
         success: false,
         error: `Database error: ${error.message}`
       };
     }
+    const data = intake.lead;
 
     // Log security event for GDPR compliance
     await logSecurityEvent(
@@ -182,10 +177,11 @@ async function createCRMRecord(record: CRMRecord, userId?: string): Promise<{ su
       userId
     );
 
-    console.log('✅ CRM record created successfully:', data.id);
+    console.log(intake.attached ? '✅ CRM record attached to existing lead:' : '✅ CRM record created successfully:', data.id);
     return {
       success: true,
-      data: data
+      data: data,
+      attached: intake.attached
     };
 
   } catch (error) {
@@ -224,7 +220,8 @@ async function createBatchCRMRecords(records: CRMRecord[], userId?: string): Pro
   }
 
   const successCount = results.filter(r => r.success).length;
-  console.log(`✅ Batch processing completed: ${successCount}/${records.length} successful`);
+  const attachedCount = results.filter(r => r.attached).length;
+  console.log(`✅ Batch processing completed: ${successCount}/${records.length} successful, ${attachedCount} attached to existing leads`);
 
   return {
     success: errors.length === 0,
@@ -0,0 +1,121 @@
+/*
+ * Lead intake shared by the channels that create leads (lead capture forms,
+ * microsite forms, CRM imports, Calendly bookings). A repeat enquiry from
+ * someone the owner already has as a lead is attached to that lead when the
+ * owner has set the channel to attach; otherwise a new lead is created and
+ * the duplicate trigger flags it for review if it matches an existing one.
+ */
+
+export type IntakeChannel = 'form' | 'microsite' | 'catalogue' | 'crm_import' | 'calendly';
+
+export interface IntakeContact {
+  // Full name, split into first and last name when those aren't given
+  name?: string | null;
+  first_name?: string | null;
+  last_name?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  postal_code?: string | null;
+  address?: string | null;
+  project_type?: string | null;
+  project_description?: string | null;
+  lead_source?: string | null;
+  priority?: 'low' | 'medium' | 'high';
+  estimated_timeline?: string | null;
+  notes?: string | null;
+}
+
+export interface IntakeResult {
+  lead: any;
+  // True when the enquiry was added to an existing lead
+  attached: boolean;
+}
+
+const clean = (value?: string | null) => {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : null;
+};
+
+export const splitName = (contact: IntakeContact) => {
+  const [first, ...rest] = (clean(contact.name) || '').split(/\s+/);
+  const firstName = clean(contact.first_name) || first || 'Unknown';
+  const lastName = clean(contact.last_name) || rest.join(' ') || firstName;
+  return { firstName, lastName };
+};
+
+/**
+ * Attach the enquiry to the owner's matching lead or create a new one
+ */
+export async function intakeLead(
+  supabase: any,
+  ownerId: string,
+  channel: IntakeChannel,
+  contact: IntakeContact
+): Promise<IntakeResult> {
+  const { firstName, lastName } = splitName(contact);
+
+  const { data: attachedId, error: attachError } = await supabase.rpc('attach_to_existing_lead', {
+    p_channel: channel,
+    p_user_id: ownerId,
+    p_contact: {
+      first_name: firstName,
+      last_name: lastName,
+      email: clean(contact.email),
+      phone: clean(contact.phone),
+      postal_code: clean(contact.postal_code),
+      address: clean(contact.address),
+      project_type: clean(contact.project_type),
+      project_description: clean(contact.project_description),
+      notes: clean(contact.notes),
+    },
+  });
+
+  if (attachError) {
+    // Never lose an enquiry over duplicate handling; fall back to a new lead
+    console.error('Duplicate check failed, creating a new lead:', attachError);
+  } else if (attachedId) {
+    const { data: lead } = await supabase.from('leads').select('*').eq('id', attachedId).single();
+    console.log(`🔗 Enquiry via ${channel} attached to existing lead:`, attachedId);
+    return { lead, attached: true };
+  }
+
+  const { data: role } = await supabase
+    .from('user_roles')
+    .select('company_id')
+    .eq('user_id', ownerId)
+    .eq('is_active', true)
+    .limit(1)
+    .maybeSingle();
+
+  if (!role?.company_id) {
+    throw new Error('Lead owner has no company');
+  }
+
+  const { data: lead, error } = await supabase
+    .from('leads')
+    .insert({
+      company_id: role.company_id,
+      created_by: ownerId,
+      first_name: firstName,
+      last_name: lastName,
+      email: clean(contact.email)?.toLowerCase() ?? null,
+      phone: clean(contact.phone),
+      postal_code: clean(contact.postal_code),
+      address: clean(contact.address),
+      project_type: clean(contact.project_type),
+      project_description: clean(contact.project_description),
+      lead_source: clean(contact.lead_source) || channel,
+      priority: contact.priority || 'medium',
+      estimated_timeline: clean(contact.estimated_timeline),
+      notes: clean(contact.notes),
+      status: 'new',
+    })
+    .select()
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create lead: ${error.message}`);
+  }
+
+  return { lead, attached: false };
+}
@@ -0,0 +1,131 @@
+/*
+ * Promo codes entered by customers on microsite quote forms and payment link
+ * pages. Lookups are throttled per IP and per page, and failures all look the
+ * same so codes can't be discovered by guessing.
+ */
+
+import { DiscountRule } from "./evaluator.ts";
+
+export type RedemptionChannel = 'microsite' | 'payment_link';
+
+export interface DiscountCode {
+  id: string;
+  user_id: string;
+  code: string;
+  description: string | null;
+  channels: RedemptionChannel[];
+  discount_rules: DiscountRule;
+}
+
+export class DiscountCodeError extends Error {
+  constructor(message: string, public status: number = 400) {
+    super(message);
+  }
+}
+
+export const INVALID_CODE_MESSAGE = 'This code is invalid or has expired';
+
+// Slows down scripted guessing without making a mistyped code feel broken
+const FAILED_ATTEMPT_DELAY_MS = 750;
+
+const REDEMPTION_ERRORS: Record<string, string> = {
+  inactive: INVALID_CODE_MESSAGE,
+  expired: INVALID_CODE_MESSAGE,
+  exhausted: 'This code has already been used the maximum number of times',
+  customer_limit: "You've already used this code",
+  already_applied: 'This discount has already been applied',
+  stale: 'The amount changed while applying the code, please try again',
+};
+
+export const normalizeCode = (code: string) => (code || '').toUpperCase().replace(/\s+/g, '');
+
+export const clientIp = (req: Request) =>
+  req.headers.get('x-forwarded-for')?.split(',')[0].trim() || req.headers.get('x-real-ip') || 'unknown';
+
+export const describeCodeDiscount = (rule: Pick<DiscountRule, 'discount_type' | 'discount_value'>, currency = 'GBP') =>
+  rule.discount_type === 'percentage'
+    ? `${Number(rule.discount_value)}% off`
+    : `${new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(Number(rule.discount_value))} off`;
+
+/**
+ * Looks up a code for a business, recording the attempt. Throws the same
+ * error for unknown, inactive and out-of-window codes.
+ */
+export const lookupDiscountCode = async (
+  supabase: any,
+  params: { userId: string; target: string; ip: string; code: string; channel: RedemptionChannel }
+): Promise<DiscountCode> => {
+  const code = normalizeCode(params.code);
+
+  const { data: allowed, error: limitError } = await supabase.rpc('discount_code_attempts_allowed', {
+    p_ip_address: params.ip,
+    p_target: params.target,
+  });
+  if (limitError) throw new Error(`Failed to check code attempts: ${limitError.message}`);
+  if (!allowed) {
+    throw new DiscountCodeError('Too many attempts. Please wait a while before trying another code', 429);
+  }
+
+  let found: DiscountCode | null = null;
+  if (/^[A-Z0-9-]{6,32}$/.test(code)) {
+    const { data } = await supabase
+      .from('discount_codes')
+      .select('id, user_id, code, description, channels, starts_at, expires_at, is_active, discount_rules(*)')
+      .eq('user_id', params.userId)
+      .eq('code', code)
+      .maybeSingle();
+
+    const now = new Date();
+    const usable = data
+      && data.is_active
+      && data.discount_rules?.is_active
+      && data.channels.includes(params.channel)
+      && (!data.starts_at || new Date(data.starts_at) <= now)
+      && (!data.expires_at || new Date(data.expires_at) >= now);
+    if (usable) found = data;
+  }
+
+  await supabase.from('discount_code_attempts').insert({
+    user_id: params.userId,
+    target: params.target,
+    ip_address: params.ip,
+    attempted_code: code.slice(0, 32),
+    succeeded: !!found,
+  });
+
+  if (!found) {
+    await new Promise(resolve => setTimeout(resolve, FAILED_ATTEMPT_DELAY_MS));
+    throw new DiscountCodeError(INVALID_CODE_MESSAGE);
+  }
+
+  return found;
+};
+
+// Redeems a looked-up code in one locked transaction (see redeem_discount_code)
+export const redeemDiscountCode = async (
+  supabase: any,
+  params: {
+    code: DiscountCode;
+    channel: RedemptionChannel;
+    customerEmail: string;
+    invoiceId?: string;
+    quoteRequestId?: string;
+    originalAmount: number;
+    discountAmount: number;
+  }
+) => {
+  const { data: status, error } = await supabase.rpc('redeem_discount_code', {
+    p_code_id: params.code.id,
+    p_channel: params.channel,
+    p_customer_email: params.customerEmail,
+    p_invoice_id: params.invoiceId ?? null,
+    p_quote_request_id: params.quoteRequestId ?? null,
+    p_original_amount: params.originalAmount,
+    p_discount_amount: params.discountAmount,
+  });
+
+  if (error) throw new Error(`Failed to redeem code: ${error.message}`);
+  if (status !== 'ok') {
+    throw new DiscountCodeError(REDEMPTION_ERRORS[status] || INVALID_CODE_MESSAGE, 409);
+  }
+};
@@ -0,0 +1,71 @@
+/*
+ * Discount context: what rule conditions are evaluated against for an invoice.
+ * Shared by discount-automation and the promo code redemption in payment-link-generator.
+ */
+
+import { DiscountContext } from "./evaluator.ts";
+
+// Gather what the rule conditions look at: the lead, the customer's history and tags
+export const buildDiscountContext = async (
+  supabase: any,
+  userId: string,
+  invoice: any,
+  leadId?: string
+): Promise<DiscountContext> => {
+  let lead: any = null;
+  if (leadId) {
+    const { data, error } = await supabase
+      .from('leads')
+      .select('id, email, project_type, lead_source, postal_code, tags')
+      .eq('id', leadId)
+      .maybeSingle();
+    if (error) console.log(`[DISCOUNTS] Lead lookup failed for ${leadId}: ${error.message}`);
+    lead = data;
+  }
+
+  const customerEmail = invoice.customer_email || lead?.email || null;
+  const tags = new Set<string>(lead?.tags || []);
+  let previousPaidInvoices = 0;
+
+  if (customerEmail) {
+    const { count } = await supabase
+      .from('construyo_invoices')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .eq('customer_email', customerEmail)
+      .eq('status', 'paid')
+      .neq('id', invoice.id);
+    previousPaidInvoices = count || 0;
+
+    const { data: customers } = await supabase
+      .from('customers')
+      .select('tags')
+      .eq('created_by', userId)
+      .eq('email', customerEmail);
+    for (const customer of customers || []) {
+      for (const tag of customer.tags || []) tags.add(tag);
+    }
+  }
+
+  let referred = false;
+  if (lead) {
+    const { data: click } = await supabase
+      .from('referral_clicks')
+      .select('id')
+      .eq('lead_id', lead.id)
+      .limit(1)
+      .maybeSingle();
+    referred = !!click;
+  }
+
+  return {
+    invoiceAmount: Number(invoice.amount),
+    invoiceDate: new Date(),
+    projectType: lead?.project_type || null,
+    leadSource: lead?.lead_source || null,
+    postcode: lead?.postal_code || null,
+    customerTags: [...tags],
+    referred,
+    previousPaidInvoices,
+  };
+};
@@ -0,0 +1,290 @@
+/*
+ * Discount rule evaluator: decides which discount rules apply to an invoice,
+ * in priority order, and how they stack. Pure, so the dry run and the real
+ * application always agree.
+ */
+
+export type ConditionField =
+  | 'project_type'
+  | 'lead_source'
+  | 'postcode'
+  | 'customer_tags'
+  | 'invoice_date'
+  | 'invoice_amount';
+
+export type ConditionOperator =
+  | 'equals'
+  | 'not_equals'
+  | 'in'
+  | 'not_in'
+  | 'starts_with'
+  | 'contains_any'
+  | 'contains_all'
+  | 'gte'
+  | 'lte'
+  | 'between';
+
+export interface DiscountCondition {
+  field: ConditionField;
+  operator: ConditionOperator;
+  value: string | number | (string | number)[];
+}
+
+export interface DiscountConditions {
+  min_amount?: number;
+  min_previous_orders?: number;
+  match?: 'all' | 'any';
+  rules?: DiscountCondition[];
+}
+
+export interface DiscountRule {
+  id: string;
+  rule_name: string;
+  rule_type: string;
+  discount_type: string;
+  discount_value: number;
+  conditions: DiscountConditions | null;
+  max_usage?: number | null;
+  usage_count: number | null;
+  is_active: boolean;
+  valid_from?: string | null;
+  valid_until?: string | null;
+  priority: number;
+  stacking_group?: string | null;
+  is_exclusive: boolean;
+}
+
+export interface DiscountContext {
+  invoiceAmount: number;
+  invoiceDate: Date;
+  projectType: string | null;
+  leadSource: string | null;
+  postcode: string | null;
+  customerTags: string[];
+  referred: boolean;
+  previousPaidInvoices: number;
+}
+
+export interface RuleEvaluation {
+  rule_id: string;
+  rule_name: string;
+  rule_type: string;
+  priority: number;
+  stacking_group: string | null;
+  eligible: boolean;
+  applied: boolean;
+  reason: string;
+  discount_amount: number;
+  amount_before: number;
+  amount_after: number;
+}
+
+export interface DiscountEvaluation {
+  originalAmount: number;
+  totalDiscount: number;
+  finalAmount: number;
+  evaluations: RuleEvaluation[];
+  applied: RuleEvaluation[];
+}
+
+const round = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const normalize = (value: unknown) => String(value ?? '').trim().toLowerCase();
+
+const asList = (value: DiscountCondition['value']) => (Array.isArray(value) ? value : [value]);
+
+const formatValue = (value: DiscountCondition['value']) => asList(value).join(', ');
+
+const readField = (field: ConditionField, context: DiscountContext): string | number | string[] | null => {
+  switch (field) {
+    case 'project_type': return context.projectType;
+    case 'lead_source': return context.leadSource;
+    case 'postcode': return context.postcode ? context.postcode.toUpperCase().replace(/\s+/g, '') : null;
+    case 'customer_tags': return context.customerTags;
+    case 'invoice_date': return context.invoiceDate.toISOString().split('T')[0];
+    case 'invoice_amount': return context.invoiceAmount;
+    default: return null;
+  }
+};
+
+const matchesCondition = (condition: DiscountCondition, context: DiscountContext): boolean => {
+  const actual = readField(condition.field, context);
+  if (actual == null) return condition.operator === 'not_equals' || condition.operator === 'not_in';
+
+  if (Array.isArray(actual)) {
+    const tags = actual.map(normalize);
+    const wanted = asList(condition.value).map(normalize);
+    switch (condition.operator) {
+      case 'contains_any':
+      case 'in':
+      case 'equals':
+        return wanted.some(tag => tags.includes(tag));
+      case 'contains_all':
+        return wanted.every(tag => tags.includes(tag));
+      case 'not_in':
+      case 'not_equals':
+        return !wanted.some(tag => tags.includes(tag));
+      default:
+        return false;
+    }
+  }
+
+  // Dates are ISO strings and compare correctly as text; amounts compare as numbers
+  const compare = (a: string | number, b: string | number) =>
+    typeof actual === 'number' ? Number(a) - Number(b) : String(a).localeCompare(String(b));
+
+  switch (condition.operator) {
+    case 'equals':
+      return normalize(actual) === normalize(condition.value);
+    case 'not_equals':
+      return normalize(actual) !== normalize(condition.value);
+    case 'in':
+      return asList(condition.value).map(normalize).includes(normalize(actual));
+    case 'not_in':
+      return !asList(condition.value).map(normalize).includes(normalize(actual));
+    case 'starts_with':
+      return asList(condition.value).some(prefix =>
+        normalize(actual).replace(/\s+/g, '').startsWith(normalize(prefix).replace(/\s+/g, ''))
+      );
+    case 'gte':
+      return compare(actual, condition.value as string | number) >= 0;
+    case 'lte':
+      return compare(actual, condition.value as string | number) <= 0;
+    case 'between': {
+      const [from, to] = asList(condition.value);
+      return (from === '' || from == null || compare(actual, from) >= 0) &&
+        (to === '' || to == null || compare(actual, to) <= 0);
+    }
+    default:
+      return false;
+  }
+};
+
+export const describeCondition = (condition: DiscountCondition): string =>
+  `${condition.field.replace(/_/g, ' ')} ${condition.operator.replace(/_/g, ' ')} ${formatValue(condition.value)}`;
+
+// Returns why the rule doesn't apply, or null when it does
+const checkRule = (rule: DiscountRule, context: DiscountContext, force: boolean): string | null => {
+  if (!rule.is_active) return 'Rule is inactive';
+  if (rule.max_usage && (rule.usage_count || 0) >= rule.max_usage) return 'Usage limit reached';
+
+  // A rule picked by hand skips its conditions
+  if (force) return null;
+
+  const conditions = rule.conditions || {};
+  const now = context.invoiceDate;
+  if (rule.valid_from && now < new Date(rule.valid_from)) return 'Not started yet';
+  if (rule.valid_until && now > new Date(rule.valid_until)) return 'Expired';
+
+  const minAmount = Number(conditions.min_amount || (rule.rule_type === 'volume' ? 5000 : 0));
+  if (context.invoiceAmount < minAmount) return `Invoice is below the ${minAmount.toFixed(2)} minimum`;
+
+  switch (rule.rule_type) {
+    case 'referral':
+      return context.referred ? null : 'Customer was not referred';
+
+    case 'repeat_client': {
+      const required = conditions.min_previous_orders || 2;
+      return context.previousPaidInvoices >= required
+        ? null
+        : `Customer has ${context.previousPaidInvoices} paid invoices, needs ${required}`;
+    }
+
+    case 'volume':
+    case 'seasonal':
+      return null;
+
+    case 'custom': {
+      const rules = conditions.rules || [];
+      if (rules.length === 0) return null;
+      const failed = rules.filter(condition => !matchesCondition(condition, context));
+      if (conditions.match === 'any') {
+        return failed.length < rules.length ? null : `None of the conditions match`;
+      }
+      return failed.length === 0 ? null : `Condition not met: ${describeCondition(failed[0])}`;
+    }
+
+    default:
+      return `Unknown rule type ${rule.rule_type}`;
+  }
+};
+
+const calculateDiscount = (amount: number, rule: DiscountRule): number => {
+  if (rule.discount_type === 'percentage') {
+    return round((amount * Number(rule.discount_value)) / 100);
+  }
+  return round(Math.min(Number(rule.discount_value), amount));
+};
+
+// Highest priority first; ties go to the bigger discount, as before priorities existed
+export const sortRules = (rules: DiscountRule[]) =>
+  [...rules].sort((a, b) => (b.priority - a.priority) || (Number(b.discount_value) - Number(a.discount_value)));
+
+/**
+ * Applies eligible rules in priority order. Each discount is taken off what
+ * is left after the ones before it. Within a stacking group only the first
+ * eligible rule applies, and an exclusive rule only applies on its own.
+ */
+export const evaluateDiscounts = (
+  rules: DiscountRule[],
+  context: DiscountContext,
+  forcedRuleId?: string
+): DiscountEvaluation => {
+  const originalAmount = round(context.invoiceAmount);
+  const evaluations: RuleEvaluation[] = [];
+  const usedGroups = new Set<string>();
+  let running = originalAmount;
+  let exclusiveApplied = false;
+
+  for (const rule of sortRules(rules)) {
+    const group = rule.stacking_group?.trim() || null;
+    const base = {
+      rule_id: rule.id,
+      rule_name: rule.rule_name,
+      rule_type: rule.rule_type,
+      priority: rule.priority,
+      stacking_group: group,
+      amount_before: running,
+    };
+    const skip = (reason: string, eligible: boolean) => evaluations.push({
+      ...base, eligible, applied: false, reason, discount_amount: 0, amount_after: running,
+    });
+
+    const ineligible = checkRule(rule, context, rule.id === forcedRuleId);
+    const appliedCount = evaluations.filter(evaluation => evaluation.applied).length;
+
+    if (ineligible) {
+      skip(ineligible, false);
+    } else if (exclusiveApplied) {
+      skip('An exclusive discount already applies', true);
+    } else if (rule.is_exclusive && appliedCount > 0) {
+      skip('Exclusive, and higher-priority discounts already apply', true);
+    } else if (group && usedGroups.has(group)) {
+      skip(`Another discount in the "${group}" group already applies`, true);
+    } else if (running <= 0) {
+      skip('Nothing left to discount', true);
+    } else {
+      const discount = calculateDiscount(running, rule);
+      running = round(running - discount);
+      if (group) usedGroups.add(group);
+      if (rule.is_exclusive) exclusiveApplied = true;
+      evaluations.push({
+        ...base,
+        eligible: true,
+        applied: true,
+        reason: rule.id === forcedRuleId ? 'Chosen manually' : 'Eligible',
+        discount_amount: discount,
+        amount_after: running,
+      });
+    }
+  }
+
+  const applied = evaluations.filter(evaluation => evaluation.applied);
+  return {
+    originalAmount,
+    totalDiscount: round(originalAmount - running),
+    finalAmount: running,
+    evaluations,
+    applied,
+  };
+};
@@ -1,6 +1,8 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
 import Stripe from "https://esm.sh/stripe@14.21.0";
+import { DiscountEvaluation, DiscountRule, RuleEvaluation, evaluateDiscounts } from "./evaluator.ts";
+import { buildDiscountContext } from "./context.ts";
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -17,27 +19,14 @@ interface DiscountApplicationRequest {
     phone?: string;
   };
   notificationChannel?: 'email' | 'whatsapp' | 'both';
+  // Evaluate the rules without applying anything
+  dryRun?: boolean;
+  // Invoice owner, for service role calls from the automation engine
+  userId?: string;
 }
 
-interface DiscountRule {
-  id: string;
-  rule_name: string;
-  rule_type: string;
-  discount_type: string;
-  discount_value: number;
-  conditions: any;
-  max_usage?: number;
-  usage_count: number;
-  is_active: boolean;
-}
-
-interface LeadHistory {
-  customer_email: string;
-  customer_name: string;
-  total_invoices: number;
-  total_amount: number;
-  referral_code_id?: string;
-}
+// Claims are retried with exhausted rules left out when another invoice took the last use
+const MAX_CLAIM_ATTEMPTS = 3;
 
 // Enhanced logging with user context
 const logStep = (step: string, details: any = {}, userId?: string) => {
@@ -67,133 +56,41 @@ const retryWithBackoff = async <T>(
   throw new Error('Max retries exceeded');
 };
 
-// Check if customer qualifies for discount based on rules
-const checkDiscountEligibility = async (
-  supabase: any,
-  userId: string,
-  leadId: string,
-  invoiceAmount: number,
-  ruleId?: string
-): Promise<DiscountRule | null> => {
-  logStep('Checking discount eligibility', { userId, leadId, invoiceAmount, ruleId });
-
-  // If specific rule provided, validate it
-  if (ruleId) {
-    const { data: rule, error } = await supabase
-      .from('discount_rules')
-      .select('*')
-      .eq('id', ruleId)
-      .eq('user_id', userId)
-      .eq('is_active', true)
-      .single();
-
-    if (error || !rule) {
-      logStep('Specific rule not found or inactive', { ruleId, error });
-      return null;
-    }
-
-    return rule;
-  }
-
-  // Get lead information
-  const { data: lead, error: leadError } = await supabase
-    .from('leads')
-    .select('customer_email, customer_name, referral_code_id')
-    .eq('id', leadId)
-    .single();
-
-  if (leadError || !lead) {
-    logStep('Lead not found', { leadId, leadError });
-    return null;
-  }
-
-  // Get customer history
-  const { data: customerHistory, error: historyError } = await supabase
-    .from('construyo_invoices')
-    .select('amount, status')
-    .eq('user_id', userId)
-    .eq('customer_email', lead.customer_email)
-    .eq('status', 'paid');
-
-  const totalPaidInvoices = customerHistory?.length || 0;
-  const totalPaidAmount = customerHistory?.reduce((sum, inv) => sum + Number(inv.amount), 0) || 0;
-
-  // Get all active rules for this user
-  const { data: rules, error: rulesError } = await supabase
-    .from('discount_rules')
-    .select('*')
-    .eq('user_id', userId)
-    .eq('is_active', true)
-    .order('discount_value', { ascending: false }); // Highest discount first
-
-  if (rulesError || !rules?.length) {
-    logStep('No active discount rules found', { userId, rulesError });
-    return null;
-  }
-
-  // Check each rule for eligibility
-  for (const rule of rules) {
-    const conditions = rule.conditions || {};
-    let isEligible = true;
-
-    switch (rule.rule_type) {
-      case 'referral':
-        isEligible = !!lead.referral_code_id && 
-                    invoiceAmount >= (conditions.min_amount || 0);
-        break;
-
-      case 'repeat_client':
-        isEligible = totalPaidInvoices >= (conditions.min_previous_orders || 2) &&
-                    invoiceAmount >= (conditions.min_amount || 0);
-        break;
-
-      case 'volume':
-        isEligible = invoiceAmount >= (conditions.min_amount || 5000);
-        break;
-
-      case 'seasonal':
-        const now = new Date();
-        const validFrom = rule.valid_from ? new Date(rule.valid_from) : null;
-        const validUntil = rule.valid_until ? new Date(rule.valid_until) : null;
-        isEligible = (!validFrom || now >= validFrom) && 
-                    (!validUntil || now <= validUntil) &&
-                    invoiceAmount >= (conditions.min_amount || 0);
-        break;
-
-      case 'custom':
-        // Custom logic can be added here
-        isEligible = invoiceAmount >= (conditions.min_amount || 0);
-        break;
+const loadDiscountRules = async (supabase: any, userId: string, ruleId?: string): Promise<DiscountRule[]> => {
+  let query = supabase.from('discount_rules').select('*').eq('user_id', userId);
+  // A specific rule can be chosen even if it's inactive, so the dry run can explain why it won't apply
+  query = ruleId ? query.eq('id', ruleId) : query.eq('is_active', true);
 
-      default:
-        isEligible = false;
-    }
+  const { data, error } = await query;
+  if (error) throw new Error(`Failed to load discount rules: ${error.message}`);
+  return data || [];
+};
 
-    // Check usage limits
-    if (isEligible && rule.max_usage && rule.usage_count >= rule.max_usage) {
-      isEligible = false;
+// Claim a use of every applied rule; if one is used up, give the others back and report it
+const claimRuleUsage = async (
+  supabase: any,
+  applied: RuleEvaluation[]
+): Promise<{ claimed: boolean; exhaustedRuleId?: string }> => {
+  const claimed: string[] = [];
+  for (const evaluation of applied) {
+    const { data: ok, error } = await supabase.rpc('claim_discount_rule_usage', { p_rule_id: evaluation.rule_id });
+    if (error) {
+      await releaseRuleUsage(supabase, claimed);
+      throw new Error(`Failed to claim discount usage: ${error.message}`);
     }
-
-    if (isEligible) {
-      logStep('Found eligible discount rule', { 
-        ruleId: rule.id, 
-        ruleName: rule.rule_name, 
-        discountValue: rule.discount_value 
-      });
-      return rule;
+    if (!ok) {
+      await releaseRuleUsage(supabase, claimed);
+      return { claimed: false, exhaustedRuleId: evaluation.rule_id };
     }
+    claimed.push(evaluation.rule_id);
   }
-
-  logStep('No eligible discount rules found', { customerHistory: { totalPaidInvoices, totalPaidAmount } });
-  return null;
+  return { claimed: true };
 };
 
-// Calculate discount amount
-const calculateDiscountAmount = (originalAmount: number, rule: DiscountRule): number => {
-  if (rule.discount_type === 'percentage') {
-    return (originalAmount * rule.discount_value) / 100;
-  } else {
-    return Math.min(rule.discount_value, originalAmount);
+const releaseRuleUsage = async (supabase: any, ruleIds: string[]) => {
+  for (const ruleId of ruleIds) {
+    const { error } = await supabase.rpc('release_discount_rule_usage', { p_rule_id: ruleId });
+    if (error) logStep('Failed to release discount usage', { ruleId, error: error.message });
   }
 };
 
@@ -247,13 +144,12 @@ const updateInvoiceInProvider = async (
 // Send discount notification
 const sendDiscountNotification = async (
   clientInfo: any,
-  discountAmount: number,
-  finalAmount: number,
-  rule: DiscountRule,
+  evaluation: DiscountEvaluation,
   channel: string
 ): Promise<boolean> => {
   try {
-    const message = `🎉 Great news! You qualify for a ${rule.discount_value}${rule.discount_type === 'percentage' ? '%' : ''} discount (${rule.rule_name})! Your new total is $${finalAmount.toFixed(2)} (saved $${discountAmount.toFixed(2)}).`;
+    const names = evaluation.applied.map(applied => applied.rule_name).join(', ');
+    const message = `🎉 Great news! You qualify for ${evaluation.applied.length > 1 ? 'discounts' : 'a discount'} (${names})! Your new total is $${evaluation.finalAmount.toFixed(2)} (saved $${evaluation.totalDiscount.toFixed(2)}).`;
 
     if (channel === 'email' || channel === 'both') {
       // Email notification using Resend
@@ -318,9 +214,7 @@ const logDiscountAnalytics = async (
   userId: string,
   applicationId: string,
   rule: DiscountRule,
-  originalAmount: number,
-  discountAmount: number,
-  finalAmount: number
+  applied: RuleEvaluation
 ): Promise<void> => {
   try {
     await supabase.from('invoice_analytics').insert({
@@ -333,10 +227,14 @@ const logDiscountAnalytics = async (
         rule_type: rule.rule_type,
         discount_type: rule.discount_type,
         discount_value: rule.discount_value,
-        original_amount: originalAmount,
-        discount_amount: discountAmount,
-        final_amount: finalAmount,
-        savings_percentage: ((discountAmount / originalAmount) * 100).toFixed(2),
+        priority: rule.priority,
+        stacking_group: rule.stacking_group || null,
+        original_amount: applied.amount_before,
+        discount_amount: applied.discount_amount,
+        final_amount: applied.amount_after,
+        savings_percentage: applied.amount_before > 0
+          ? ((applied.discount_amount / applied.amount_before) * 100).toFixed(2)
+          : '0.00',
       },
     });
 
@@ -365,31 +263,37 @@ serve(async (req) => {
   );
 
   try {
-    // Authenticate user
+    // Parse request body
+    const request: DiscountApplicationRequest = await req.json();
+
+    // Authenticate user; the automation engine acts for the invoice owner with the service role key
     const authHeader = req.headers.get('Authorization')!;
     const token = authHeader.replace('Bearer ', '');
-    const { data } = await supabaseClient.auth.getUser(token);
-    const user = data.user;
+    let user: { id: string } | null = null;
+    if (request.userId && token === Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')) {
+      user = { id: request.userId };
+    } else {
+      const { data } = await supabaseClient.auth.getUser(token);
+      user = data.user?.email ? data.user : null;
+    }
 
-    if (!user?.email) {
+    if (!user) {
       throw new Error('User not authenticated');
     }
 
     logStep('Starting discount automation', { userId: user.id });
-
-    // Parse request body
-    const request: DiscountApplicationRequest = await req.json();
     const { 
       invoiceId, 
       ruleId, 
       leadId, 
       clientInfo, 
-      notificationChannel = 'email' 
+      notificationChannel = 'email',
+      dryRun = false,
     } = request;
 
     // Get invoice details
     const { data: invoice, error: invoiceError } = await retryWithBackoff(() =>
-      supabaseClient
+      supabaseService
         .from('construyo_invoices')
         .select('*')
         .eq('id', invoiceId)
@@ -402,30 +306,50 @@ serve(async (req) => {
     }
 
     // Check if discount already applied
-    const { data: existingDiscount } = await supabaseClient
+    const { data: existingDiscounts } = await supabaseService
       .from('discount_applications')
       .select('id')
       .eq('invoice_id', invoiceId)
-      .single();
+      .limit(1);
+    const alreadyDiscounted = (existingDiscounts?.length || 0) > 0;
 
-    if (existingDiscount) {
+    if (alreadyDiscounted && !dryRun) {
       throw new Error('Discount already applied to this invoice');
     }
 
-    // Find eligible discount rule
-    const eligibleRule = await checkDiscountEligibility(
-      supabaseClient,
-      user.id,
-      leadId || invoice.lead_id,
-      Number(invoice.amount),
-      ruleId
-    );
+    const context = await buildDiscountContext(supabaseService, user.id, invoice, leadId || invoice.lead_id);
+    let rules = await loadDiscountRules(supabaseService, user.id, ruleId);
+    let evaluation = evaluateDiscounts(rules, context, ruleId);
 
-    if (!eligibleRule) {
+    if (dryRun) {
+      logStep('Discount dry run', { invoiceId, applied: evaluation.applied.length }, user.id);
+      return new Response(
+        JSON.stringify({ success: true, dryRun: true, alreadyDiscounted, data: evaluation }),
+        {
+          headers: { ...corsHeaders, 'Content-Type': 'application/json' },
+          status: 200,
+        }
+      );
+    }
+
+    // Usage limits are claimed atomically; a rule used up since it was loaded is dropped and the rest re-evaluated
+    for (let attempt = 1; evaluation.applied.length > 0; attempt++) {
+      const claim = await claimRuleUsage(supabaseService, evaluation.applied);
+      if (claim.claimed) break;
+      if (attempt >= MAX_CLAIM_ATTEMPTS) {
+        throw new Error('Discount rules are being used by other invoices, please try again');
+      }
+      logStep('Discount rule usage exhausted, re-evaluating', { ruleId: claim.exhaustedRuleId }, user.id);
+      rules = rules.filter(rule => rule.id !== claim.exhaustedRuleId);
+      evaluation = evaluateDiscounts(rules, context, ruleId);
+    }
+
+    if (evaluation.applied.length === 0) {
       return new Response(
         JSON.stringify({ 
           success: false, 
-          message: 'No eligible discount rules found for this invoice' 
+          message: 'No eligible discount rules found for this invoice',
+          data: evaluation,
         }),
         {
           headers: { ...corsHeaders, 'Content-Type': 'application/json' },
@@ -434,36 +358,37 @@ serve(async (req) => {
       );
     }
 
-    // Calculate discount
-    const originalAmount = Number(invoice.amount);
-    const discountAmount = calculateDiscountAmount(originalAmount, eligibleRule);
-    const finalAmount = originalAmount - discountAmount;
+    const { originalAmount, totalDiscount: discountAmount, finalAmount } = evaluation;
 
     logStep('Discount calculated', {
       originalAmount,
       discountAmount,
       finalAmount,
-      rule: eligibleRule.rule_name
+      rules: evaluation.applied.map(applied => applied.rule_name),
     });
 
-    // Apply discount to invoice record
-    const { data: discountApplication, error: applicationError } = await retryWithBackoff(() =>
-      supabaseService.from('discount_applications').insert({
+    // Apply discounts to invoice record, one application per stacked rule
+    const { data: discountApplications, error: applicationError } = await supabaseService
+      .from('discount_applications')
+      .insert(evaluation.applied.map((applied, index) => ({
         user_id: user.id,
         invoice_id: invoiceId,
-        discount_rule_id: eligibleRule.id,
-        original_amount: originalAmount,
-        discount_amount: discountAmount,
-        final_amount: finalAmount,
+        discount_rule_id: applied.rule_id,
+        original_amount: applied.amount_before,
+        discount_amount: applied.discount_amount,
+        final_amount: applied.amount_after,
+        stack_position: index + 1,
         notification_channel: notificationChannel,
-      }).select().single()
-    );
+      })))
+      .select();
 
-    if (applicationError || !discountApplication) {
+    if (applicationError || !discountApplications?.length) {
+      await releaseRuleUsage(supabaseService, evaluation.applied.map(applied => applied.rule_id));
       throw new Error(`Failed to apply discount: ${applicationError?.message}`);
     }
 
-    // Update invoice amount
+    // Update invoice amount. Itemised invoices have already been recalculated from
+    // their discount_total when the applications were inserted, to the same amount
     await retryWithBackoff(() =>
       supabaseService
         .from('construyo_invoices')
@@ -471,16 +396,8 @@ serve(async (req) => {
         .eq('id', invoiceId)
     );
 
-    // Update rule usage count
-    await retryWithBackoff(() =>
-      supabaseService
-        .from('discount_rules')
-        .update({ usage_count: eligibleRule.usage_count + 1 })
-        .eq('id', eligibleRule.id)
-    );
-
     // Get payment provider settings for invoice updates
-    const { data: providerSettings } = await supabaseClient
+    const { data: providerSettings } = await supabaseService
       .from('payment_provider_settings')
       .select('*')
       .eq('user_id', user.id)
@@ -501,9 +418,7 @@ serve(async (req) => {
     if (clientInfo && (clientInfo.email || clientInfo.phone)) {
       notificationSent = await sendDiscountNotification(
         clientInfo,
-        discountAmount,
-        finalAmount,
-        eligibleRule,
+        evaluation,
         notificationChannel
       );
 
@@ -515,23 +430,19 @@ serve(async (req) => {
             client_notified_at: new Date().toISOString(),
             notification_status: 'sent'
           })
-          .eq('id', discountApplication.id);
+          .eq('invoice_id', invoiceId);
       }
     }
 
     // Log analytics
-    await logDiscountAnalytics(
-      supabaseService,
-      user.id,
-      discountApplication.id,
-      eligibleRule,
-      originalAmount,
-      discountAmount,
-      finalAmount
-    );
+    for (const application of discountApplications) {
+      const rule = rules.find(r => r.id === application.discount_rule_id)!;
+      const applied = evaluation.applied.find(a => a.rule_id === application.discount_rule_id)!;
+      await logDiscountAnalytics(supabaseService, user.id, application.id, rule, applied);
+    }
 
     logStep('Discount automation completed successfully', {
-      discountApplicationId: discountApplication.id,
+      discountApplicationIds: discountApplications.map((application: any) => application.id),
       savings: discountAmount,
       providerUpdated,
       notificationSent
@@ -542,16 +453,17 @@ serve(async (req) => {
         success: true,
         message: 'Discount applied successfully',
         data: {
-          applicationId: discountApplication.id,
+          applicationIds: discountApplications.map((application: any) => application.id),
           originalAmount,
           discountAmount,
           finalAmount,
           savings: discountAmount,
-          rule: {
-            name: eligibleRule.rule_name,
-            type: eligibleRule.rule_type,
-            value: eligibleRule.discount_value,
-          },
+          rules: evaluation.applied.map(applied => ({
+            id: applied.rule_id,
+            name: applied.rule_name,
+            type: applied.rule_type,
+            discountAmount: applied.discount_amount,
+          })),
           providerUpdated,
           notificationSent,
         },
@@ -579,7 +491,7 @@ serve(async (req) => {
 });
 
 /* 
-SAMPLE CALL TO APPLY 10% REFERRAL DISCOUNT TO INVOICE "inv123":
+SAMPLE CALL TO APPLY ELIGIBLE DISCOUNTS TO INVOICE "inv123":
 
 POST https://your-project.supabase.co/functions/v1/discount-automation
 Authorization: Bearer YOUR_JWT_TOKEN
@@ -587,14 +499,15 @@ Content-Type: application/json
 
 {
   "invoiceId": "inv123",
-  "ruleId": "rule-id-for-referral-discount", // Optional - if not provided, will auto-detect
+  "ruleId": "rule-id-for-referral-discount", // Optional - applies only this rule, skipping its conditions
   "leadId": "lead789",
   "clientInfo": {
     "name": "John Doe",
     "email": "john@example.com",
     "phone": "+1234567890"
   },
-  "notificationChannel": "both"
+  "notificationChannel": "both",
+  "dryRun": false // true returns the evaluation below without applying anything
 }
 
 Expected Response:
@@ -602,18 +515,34 @@ Expected Response:
   "success": true,
   "message": "Discount applied successfully",
   "data": {
-    "applicationId": "app-123",
+    "applicationIds": ["app-123", "app-124"],
     "originalAmount": 5000,
-    "discountAmount": 500,
-    "finalAmount": 4500,
-    "savings": 500,
-    "rule": {
-      "name": "Referral Discount",
-      "type": "referral",
-      "value": 10
-    },
+    "discountAmount": 700,
+    "finalAmount": 4300,
+    "savings": 700,
+    "rules": [
+      { "id": "rule-1", "name": "Referral Discount", "type": "referral", "discountAmount": 500 },
+      { "id": "rule-2", "name": "Kitchens in SW", "type": "custom", "discountAmount": 200 }
+    ],
     "providerUpdated": true,
     "notificationSent": true
   }
 }
+
+Dry run response:
+{
+  "success": true,
+  "dryRun": true,
+  "alreadyDiscounted": false,
+  "data": {
+    "originalAmount": 5000,
+    "totalDiscount": 700,
+    "finalAmount": 4300,
+    "evaluations": [
+      { "rule_name": "Referral Discount", "priority": 10, "eligible": true, "applied": true, "reason": "Eligible", "discount_amount": 500, ... },
+      { "rule_name": "Spring Offer", "priority": 5, "eligible": true, "applied": false, "reason": "Another discount in the \"promo\" group already applies", ... }
+    ],
+    "applied": [...]
+  }
+}
 */
\ No newline at end of file
@@ -0,0 +1,164 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Loads ECB reference rates (published against EUR) into exchange_rates.
+ * Run daily with the service role key; signed-in users may also trigger a refresh.
+ * Invoices issued while no rate was available are snapshotted afterwards.
+ */
+interface SyncRequest {
+  date?: string; // YYYY-MM-DD; defaults to the latest published rates
+}
+
+const RATES_API_URL = "https://api.frankfurter.app";
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [EXCHANGE-RATE-SYNC] ${step}${detailsStr}`);
+};
+
+// Retry mechanism with exponential backoff
+const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000
+): Promise<T> => {
+  let lastError: Error;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error as Error;
+      logStep(`Attempt ${attempt} failed`, { error: error.message });
+
+      if (attempt === maxRetries) break;
+
+      const delay = baseDelay * Math.pow(2, attempt - 1);
+      logStep(`Retrying in ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError!;
+};
+
+const fetchReferenceRates = async (date?: string) => {
+  const response = await fetch(`${RATES_API_URL}/${date || 'latest'}?from=EUR`);
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Rates API error: ${error}`);
+  }
+
+  return await response.json() as { base: string; date: string; rates: Record<string, number> };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Exchange rate sync started");
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+    }
+
+    const { date }: SyncRequest = await req.json().catch(() => ({}));
+    if (date && !/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+      throw new Error("date must be formatted YYYY-MM-DD");
+    }
+
+    const published = await retryWithBackoff(() => fetchReferenceRates(date));
+    logStep("Rates fetched", { date: published.date, count: Object.keys(published.rates).length });
+
+    const rows = Object.entries(published.rates).map(([currency, rate]) => ({
+      base_currency: published.base,
+      currency,
+      rate,
+      rate_date: published.date,
+      source: 'ecb',
+    }));
+
+    const { error: upsertError } = await supabase
+      .from('exchange_rates')
+      .upsert(rows, { onConflict: 'base_currency,currency,rate_date' });
+
+    if (upsertError) {
+      throw new Error(`Failed to store rates: ${upsertError.message}`);
+    }
+
+    const { data: snapshotted, error: refreshError } = await supabase.rpc('refresh_missing_invoice_exchange_rates');
+    if (refreshError) {
+      logStep("Failed to refresh missing invoice snapshots", { error: refreshError.message });
+    }
+
+    logStep("Exchange rate sync completed", { rateDate: published.date, snapshotted });
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        rateDate: published.date,
+        rates: rows.length,
+        invoicesSnapshotted: snapshotted ?? 0,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in exchange rate sync", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALL:
+
+const refreshRates = async () => {
+  const { data, error } = await supabase.functions.invoke('exchange-rate-sync', {
+    body: {}
+  });
+
+  if (error) throw error;
+  console.log(`Loaded ${data.rates} rates for ${data.rateDate}`);
+};
+*/
@@ -1,6 +1,7 @@
 import "https://deno.land/x/xhr@0.1.0/mod.ts";
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts";
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2';
+import { intakeLead } from '../crm-manager/lead-intake.ts';
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -20,6 +21,8 @@ interface FormSubmissionPayload {
 interface FormSubmissionResult {
   submissionId: string;
   leadId: string;
+  // True when the submission was added to the form owner's existing lead
+  attachedToExisting?: boolean;
   success: boolean;
   zapierSuccess?: boolean;
   errors?: string[];
@@ -382,30 +385,37 @@ async function processSecureFormSubmission(
   // Sanitize input data
   const sanitizedData = sanitizeFormData(payload.formData);
 
-  // Create lead record with security validation
-  const leadData = {
-    customer_name: sanitizedData.name || sanitizedData.customer_name,
-    email: sanitizedData.email,
-    phone: sanitizedData.phone,
-    project_type: sanitizedData.project || sanitizedData.project_type,
-    description: sanitizedData.message || sanitizedData.description,
-    timeline: sanitizedData.timeline,
-    budget_range: sanitizedData.budget || sanitizedData.budget_range,
-    address: sanitizedData.address,
-    source: 'microsite_form',
-    form_id: payload.formId,
-    status: 'new',
-    notes: `Secure form submission from ${payload.referrer || 'unknown'} at ${payload.timestamp}`,
-    customer_id: null // Will be set by RLS/trigger if user is authenticated
-  };
-
-  const { data: leadResult, error: leadError } = await supabase
-    .from('leads')
-    .insert([leadData])
-    .select()
+  // Leads belong to the form's owner
+  const { data: form } = await supabase
+    .from('lead_capture_forms')
+    .select('user_id')
+    .eq('id', payload.formId)
     .single();
 
-  if (leadError) {
+  if (!form) {
+    throw new Error('Form not found');
+  }
+
+  // Create lead record, or attach the submission to the owner's existing lead
+  let leadResult;
+  let attachedToExisting = false;
+  try {
+    const budget = sanitizedData.budget || sanitizedData.budget_range;
+    const intake = await intakeLead(supabase, form.user_id, 'form', {
+      name: sanitizedData.name || sanitizedData.customer_name,
+      email: sanitizedData.email,
+      phone: sanitizedData.phone,
+      project_type: sanitizedData.project || sanitizedData.project_type,
+      project_description: sanitizedData.message || sanitizedData.description,
+      estimated_timeline: sanitizedData.timeline,
+      address: sanitizedData.address,
+      postal_code: sanitizedData.postcode || sanitizedData.postal_code,
+      lead_source: 'microsite_form',
+      notes: `Secure form submission from ${payload.referrer || 'unknown'} at ${payload.timestamp}${budget ? `. Budget: ${budget}` : ''}`
+    });
+    leadResult = intake.lead;
+    attachedToExisting = intake.attached;
+  } catch (leadError) {
     console.error('Lead creation error:', leadError);
     throw new Error('Failed to create lead record');
   }
@@ -452,6 +462,7 @@ async function processSecureFormSubmission(
   return {
     submissionId: submissionResult.id,
     leadId: leadResult.id,
+    attachedToExisting,
     success: true,
     zapierSuccess
   };
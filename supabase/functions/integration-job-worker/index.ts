@@ -0,0 +1,567 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  ProviderError,
+  ServiceConfig,
+  callProvider,
+  checkSharedRateLimit,
+  loadServiceConfig,
+  requireConfig,
+} from "./provider-client.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Executes queued integration_jobs rows.
+ *
+ * - Called by the client right after enqueueing or replaying a job ({ jobId }),
+ *   which only processes that job for the authenticated owner.
+ * - Called on a schedule (every minute) with the service role key and no jobId,
+ *   which drains up to `limit` due jobs across all users.
+ */
+interface WorkerRequest {
+  jobId?: string;
+  limit?: number;
+}
+
+interface IntegrationJob {
+  id: string;
+  user_id: string;
+  service_name: string;
+  action: string;
+  payload: Record<string, any>;
+  metadata: Record<string, any>;
+  attempts: number;
+  max_attempts: number;
+}
+
+// Backoff schedule: 1, 2, 4 ... minutes, capped at 6 hours between attempts
+const BASE_BACKOFF_MS = 60 * 1000;
+const MAX_BACKOFF_MS = 6 * 60 * 60 * 1000;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [INTEGRATION-JOB-WORKER] ${step}${detailsStr}`);
+};
+
+const stripeForm = (data: Record<string, any>, prefix = '', form = new URLSearchParams()) => {
+  for (const [key, value] of Object.entries(data)) {
+    if (value === undefined || value === null) continue;
+    const formKey = prefix ? `${prefix}[${key}]` : key;
+    if (typeof value === 'object') {
+      stripeForm(value, formKey, form);
+    } else {
+      form.append(formKey, String(value));
+    }
+  }
+  return form;
+};
+
+// QuickBooks references customers by id; look the customer up by email before creating one
+const findOrCreateQuickBooksCustomer = async (baseUrl: string, headers: Record<string, string>, customer: any) => {
+  if (!customer?.name) {
+    throw new ProviderError('QuickBooks documents require a customerId or customer', 400);
+  }
+
+  if (customer.email) {
+    const query = encodeURIComponent(`SELECT * FROM Customer WHERE PrimaryEmailAddr = '${customer.email.replace(/'/g, "\\'")}'`);
+    const found = await callProvider('quickbooks', `${baseUrl}/query?query=${query}`, { headers });
+    const existing = found?.QueryResponse?.Customer?.[0];
+    if (existing) return existing.Id;
+  }
+
+  const created = await callProvider('quickbooks', `${baseUrl}/customer`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({
+      DisplayName: customer.name,
+      PrimaryEmailAddr: customer.email ? { Address: customer.email } : undefined,
+      PrimaryPhone: customer.phone ? { FreeFormNumber: customer.phone } : undefined
+    }),
+  });
+  return created.Customer.Id;
+};
+
+// Server-side equivalents of the client integration services' outbound actions
+const handlers: Record<string, (action: string, data: any, metadata: any, config: ServiceConfig) => Promise<any>> = {
+  zapier: async (action, data, metadata, config) => {
+    requireConfig(config, 'webhookUrl');
+    return await callProvider('zapier', config.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'User-Agent': 'Construyo-Integration/1.0' },
+      body: JSON.stringify({
+        action,
+        data,
+        metadata,
+        timestamp: new Date().toISOString(),
+        source: 'construyo_integration_manager'
+      }),
+    });
+  },
+
+  airtable: async (action, data, _metadata, config) => {
+    requireConfig(config, 'apiKey', 'baseId');
+    const headers = { 'Authorization': `Bearer ${config.apiKey}`, 'Content-Type': 'application/json' };
+    const projectsUrl = `https://api.airtable.com/v0/${config.baseId}/${config.projectTableId || 'Projects'}`;
+
+    switch (action) {
+      case 'create_project':
+        return await callProvider('airtable', projectsUrl, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            records: [{
+              fields: {
+                'Project Name': data.name,
+                'Client Name': data.clientName,
+                'Status': data.status || 'Active',
+                'Created Date': new Date().toISOString(),
+                'Project Type': data.type,
+                'Budget': data.budget,
+                'Description': data.description,
+                'Lead Source': data.leadSource,
+                'CRM ID': data.crmId
+              }
+            }]
+          }),
+        });
+      case 'update_project':
+        return await callProvider('airtable', `${projectsUrl}/${data.projectId}`, {
+          method: 'PATCH',
+          headers,
+          body: JSON.stringify({ fields: { ...data.updates, 'Last Updated': new Date().toISOString() } }),
+        });
+      case 'track_lead':
+        return await callProvider('airtable', `https://api.airtable.com/v0/${config.baseId}/${config.leadTableId || 'Leads'}`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            records: [{
+              fields: {
+                'Lead ID': data.id,
+                'Customer Name': data.customerName,
+                'Email': data.email,
+                'Phone': data.phone,
+                'Status': data.status,
+                'Priority': data.priority,
+                'Source': data.source,
+                'Created Date': data.createdAt,
+                'Value': data.estimatedValue,
+                'Notes': data.notes
+              }
+            }]
+          }),
+        });
+      default:
+        throw new ProviderError(`Unknown Airtable action: ${action}`, 400);
+    }
+  },
+
+  stripe: async (action, data, _metadata, config) => {
+    const secretKey = config.secretKey || config.apiKey;
+    if (!secretKey) {
+      throw new ProviderError('Integration is missing required setting: secretKey', 400);
+    }
+    const post = (path: string, body: Record<string, any>) => callProvider('stripe', `https://api.stripe.com/v1/${path}`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${secretKey}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+        // Stripe deduplicates retried POSTs with the same key
+        'Idempotency-Key': data.idempotencyKey,
+      },
+      body: stripeForm(body).toString(),
+    });
+
+    switch (action) {
+      case 'create_customer':
+        return await post('customers', {
+          email: data.email,
+          name: data.name,
+          metadata: { crm_customer_id: data.crmCustomerId, source: 'construyo_crm' }
+        });
+      case 'create_payment_link':
+        return await post('payment_links', {
+          line_items: { 0: {
+            price_data: {
+              currency: data.currency || 'usd',
+              product_data: { name: data.productName, description: data.description },
+              unit_amount: Math.round(data.amount * 100)
+            },
+            quantity: data.quantity || 1
+          } },
+          metadata: { ...data.metadata, source: 'construyo_crm' }
+        });
+      case 'process_payment':
+        return await post('payment_intents', {
+          amount: Math.round(data.amount * 100),
+          currency: data.currency || 'usd',
+          customer: data.customerId,
+          metadata: { ...data.metadata, source: 'construyo_crm' }
+        });
+      default:
+        throw new ProviderError(`Unknown Stripe action: ${action}`, 400);
+    }
+  },
+
+  xero: async (action, data, _metadata, config) => {
+    requireConfig(config, 'accessToken', 'tenantId');
+    const headers = {
+      'Authorization': `Bearer ${config.accessToken}`,
+      'Xero-tenant-id': config.tenantId,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+
+    switch (action) {
+      case 'sync_invoice':
+        return await callProvider('xero', 'https://api.xero.com/api.xro/2.0/Invoices', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            Invoices: [{
+              Type: 'ACCREC',
+              Contact: data.contactId
+                ? { ContactID: data.contactId }
+                : { Name: data.customer?.name, EmailAddress: data.customer?.email },
+              Date: data.date || new Date().toISOString().split('T')[0],
+              DueDate: data.dueDate,
+              InvoiceNumber: data.invoiceNumber,
+              Reference: data.reference || `CRM-${data.crmInvoiceId}`,
+              LineItems: (data.lineItems || []).map((item: any) => ({
+                Description: item.description,
+                Quantity: item.quantity || 1,
+                UnitAmount: item.unitAmount,
+                TaxType: item.taxType || 'NONE',
+                AccountCode: item.accountCode || '200'
+              })),
+              Status: data.status || 'DRAFT'
+            }]
+          }),
+        });
+      case 'sync_credit_note':
+        return await callProvider('xero', 'https://api.xero.com/api.xro/2.0/CreditNotes', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            CreditNotes: [{
+              Type: 'ACCRECCREDIT',
+              Contact: data.contactId
+                ? { ContactID: data.contactId }
+                : { Name: data.customer?.name, EmailAddress: data.customer?.email },
+              Date: data.date || new Date().toISOString().split('T')[0],
+              CreditNoteNumber: data.creditNoteNumber,
+              Reference: data.invoiceNumber || `CRM-${data.crmCreditNoteId}`,
+              LineItems: (data.lineItems || []).map((item: any) => ({
+                Description: item.description || data.reason,
+                Quantity: item.quantity || 1,
+                UnitAmount: item.unitAmount,
+                TaxType: item.taxType || 'NONE',
+                AccountCode: item.accountCode || '200'
+              })),
+              Status: 'AUTHORISED'
+            }]
+          }),
+        });
+      case 'create_contact':
+        return await callProvider('xero', 'https://api.xero.com/api.xro/2.0/Contacts', {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            Contacts: [{
+              Name: data.name,
+              EmailAddress: data.email,
+              Phones: data.phone ? [{ PhoneType: 'DEFAULT', PhoneNumber: data.phone }] : []
+            }]
+          }),
+        });
+      default:
+        throw new ProviderError(`Unknown Xero action: ${action}`, 400);
+    }
+  },
+
+  quickbooks: async (action, data, _metadata, config) => {
+    requireConfig(config, 'accessToken', 'companyId');
+    const baseUrl = `https://sandbox-quickbooks.api.intuit.com/v3/company/${config.companyId}`;
+    const headers = {
+      'Authorization': `Bearer ${config.accessToken}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    };
+
+    switch (action) {
+      case 'sync_invoice':
+        if (!data.customerId) {
+          throw new ProviderError('QuickBooks invoices require a customerId', 400);
+        }
+        return await callProvider('quickbooks', `${baseUrl}/invoice`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            CustomerRef: { value: data.customerId },
+            TxnDate: data.date || new Date().toISOString().split('T')[0],
+            DueDate: data.dueDate,
+            DocNumber: data.invoiceNumber,
+            Line: (data.lineItems || []).map((item: any) => ({
+              Amount: (item.quantity || 1) * item.unitAmount,
+              DetailType: 'SalesItemLineDetail',
+              SalesItemLineDetail: {
+                ItemRef: { value: item.itemId || '1' },
+                Qty: item.quantity || 1,
+                UnitPrice: item.unitAmount
+              }
+            }))
+          }),
+        });
+      case 'sync_credit_note':
+        return await callProvider('quickbooks', `${baseUrl}/creditmemo`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            DocNumber: data.creditNoteNumber,
+            CustomerRef: { value: data.customerId || await findOrCreateQuickBooksCustomer(baseUrl, headers, data.customer) },
+            TxnDate: data.date || new Date().toISOString().split('T')[0],
+            PrivateNote: [data.invoiceNumber, data.reason].filter(Boolean).join(': '),
+            Line: (data.lineItems || []).map((item: any) => ({
+              Amount: (item.quantity || 1) * item.unitAmount,
+              Description: item.description || data.reason,
+              DetailType: 'SalesItemLineDetail',
+              SalesItemLineDetail: {
+                ItemRef: { value: item.itemId || '1' },
+                Qty: item.quantity || 1,
+                UnitPrice: item.unitAmount
+              }
+            }))
+          }),
+        });
+      case 'create_contact':
+        return await callProvider('quickbooks', `${baseUrl}/customer`, {
+          method: 'POST',
+          headers,
+          body: JSON.stringify({
+            DisplayName: data.name,
+            PrimaryEmailAddr: data.email ? { Address: data.email } : undefined,
+            PrimaryPhone: data.phone ? { FreeFormNumber: data.phone } : undefined
+          }),
+        });
+      default:
+        throw new ProviderError(`Unknown QuickBooks action: ${action}`, 400);
+    }
+  },
+};
+
+// Remember which accounting record a pushed invoice or credit note became, so
+// accounting-sync can match the changes it pulls back
+const recordAccountingMapping = async (supabase: any, job: IntegrationJob, result: any) => {
+  if (!['xero', 'quickbooks'].includes(job.service_name)) return;
+
+  let mapping: { entity_type: string; local_id?: string; external_id?: string; external_number?: string } | null = null;
+  if (job.action === 'sync_invoice' && job.payload.crmInvoiceId) {
+    const { data: invoice } = await supabase
+      .from('construyo_invoices')
+      .select('id')
+      .eq('id', job.payload.crmInvoiceId)
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+    mapping = {
+      entity_type: 'invoice',
+      local_id: invoice?.id,
+      external_id: result?.Invoices?.[0]?.InvoiceID ?? result?.Invoice?.Id,
+      external_number: result?.Invoices?.[0]?.InvoiceNumber ?? result?.Invoice?.DocNumber ?? job.payload.invoiceNumber,
+    };
+  } else if (job.action === 'sync_credit_note' && job.payload.crmCreditNoteId) {
+    const { data: entry } = await supabase
+      .from('invoice_payments')
+      .select('id')
+      .eq('id', job.payload.crmCreditNoteId)
+      .eq('user_id', job.user_id)
+      .maybeSingle();
+    mapping = {
+      entity_type: 'credit_note',
+      local_id: entry?.id,
+      external_id: result?.CreditNotes?.[0]?.CreditNoteID ?? result?.CreditMemo?.Id,
+      external_number: job.payload.creditNoteNumber,
+    };
+  }
+
+  if (!mapping?.local_id || !mapping.external_id) return;
+
+  const { error } = await supabase.from('accounting_entity_mappings').upsert({
+    user_id: job.user_id,
+    provider: job.service_name,
+    ...mapping,
+    last_pushed_at: new Date().toISOString(),
+  }, { onConflict: 'user_id,provider,entity_type,local_id' });
+
+  if (error) {
+    logStep("Failed to record accounting mapping", { jobId: job.id, error: error.message });
+  }
+};
+
+const logActivity = async (supabase: any, job: IntegrationJob, status: string, durationMs: number, extra: Record<string, any> = {}) => {
+  await supabase.from('integration_activity_logs').insert({
+    user_id: job.user_id,
+    service_name: job.service_name,
+    action: job.action,
+    status,
+    request_data: JSON.stringify(job.payload),
+    metadata: { ...job.metadata, jobId: job.id, attempt: job.attempts, source: 'job_queue' },
+    duration_ms: durationMs,
+    ...extra,
+  });
+};
+
+const processJob = async (supabase: any, job: IntegrationJob) => {
+  const startTime = Date.now();
+  logStep("Processing job", { jobId: job.id, service: job.service_name, action: job.action, attempt: job.attempts });
+
+  try {
+    const handler = handlers[job.service_name];
+    if (!handler) {
+      throw new ProviderError(`Service ${job.service_name} is not supported by the job worker`, 400);
+    }
+
+    const config = await loadServiceConfig(supabase, job.user_id, job.service_name);
+    // An exhausted bucket reschedules the job once the bucket has refilled
+    await checkSharedRateLimit(supabase, job.user_id, job.service_name);
+    const result = await handler(job.action, { ...job.payload, idempotencyKey: job.id }, job.metadata, config);
+
+    await supabase
+      .from('integration_jobs')
+      .update({
+        status: 'succeeded',
+        result,
+        last_error: null,
+        locked_at: null,
+        completed_at: new Date().toISOString(),
+      })
+      .eq('id', job.id);
+
+    await recordAccountingMapping(supabase, job, result);
+    await logActivity(supabase, job, 'success', Date.now() - startTime, { response_data: JSON.stringify(result) });
+    logStep("Job succeeded", { jobId: job.id });
+    return { id: job.id, status: 'succeeded' };
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    const retryable = !(error instanceof ProviderError) || error.retryable;
+    const exhausted = job.attempts >= job.max_attempts;
+
+    let backoffMs = Math.min(BASE_BACKOFF_MS * Math.pow(2, job.attempts - 1), MAX_BACKOFF_MS);
+    if (error instanceof ProviderError && error.retryAfterSeconds) {
+      backoffMs = Math.max(backoffMs, error.retryAfterSeconds * 1000);
+    }
+    // Jitter spreads out retries of jobs that failed together
+    backoffMs += Math.floor(Math.random() * 0.1 * backoffMs);
+
+    const status = retryable && !exhausted ? 'failed' : 'dead_lettered';
+
+    await supabase
+      .from('integration_jobs')
+      .update({
+        status,
+        last_error: errorMessage,
+        locked_at: null,
+        next_run_at: new Date(Date.now() + backoffMs).toISOString(),
+      })
+      .eq('id', job.id);
+
+    await logActivity(supabase, job, status === 'failed' ? 'retry' : 'error', Date.now() - startTime, { error_message: errorMessage });
+    logStep(status === 'failed' ? "Job failed, retry scheduled" : "Job dead-lettered", {
+      jobId: job.id,
+      error: errorMessage,
+      retryInMs: status === 'failed' ? backoffMs : undefined,
+    });
+    return { id: job.id, status, error: errorMessage };
+  }
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Worker run started");
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: WorkerRequest = await req.json().catch(() => ({}));
+    const { jobId, limit = 10 } = body;
+
+    if (jobId) {
+      // Users may only kick their own jobs
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+
+      const { data: job } = await supabase
+        .from('integration_jobs')
+        .select('user_id')
+        .eq('id', jobId)
+        .single();
+
+      if (!job || job.user_id !== userData.user.id) {
+        throw new Error("Job not found");
+      }
+    } else if (token !== serviceRoleKey) {
+      throw new Error("Draining the queue requires the service role key");
+    }
+
+    const { data: jobs, error: claimError } = await supabase.rpc('claim_integration_jobs', {
+      p_limit: Math.min(Math.max(limit, 1), 50),
+      p_job_id: jobId ?? null,
+    });
+
+    if (claimError) {
+      throw new Error(`Failed to claim jobs: ${claimError.message}`);
+    }
+
+    logStep("Jobs claimed", { count: jobs?.length || 0 });
+
+    const results = [];
+    for (const job of (jobs || []) as IntegrationJob[]) {
+      results.push(await processJob(supabase, job));
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in integration job worker", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
@@ -0,0 +1,92 @@
+/*
+ * Provider HTTP calls and integration_configs loading shared by the job worker
+ * and accounting-sync, and the shared rate limit check used by every edge
+ * function that calls a provider.
+ */
+export type ServiceConfig = Record<string, any>;
+
+// Error raised for provider responses; 4xx other than 408/429 are not worth retrying
+export class ProviderError extends Error {
+  status: number;
+  retryAfterSeconds?: number;
+
+  constructor(message: string, status: number, retryAfterSeconds?: number) {
+    super(message);
+    this.status = status;
+    this.retryAfterSeconds = retryAfterSeconds;
+  }
+
+  get retryable(): boolean {
+    return this.status === 408 || this.status === 429 || this.status >= 500;
+  }
+}
+
+export const callProvider = async (serviceName: string, url: string, init: RequestInit) => {
+  const response = await fetch(url, init);
+
+  if (!response.ok) {
+    const body = await response.text();
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ProviderError(
+      `${serviceName} API error: ${response.status} ${body.slice(0, 500)}`,
+      response.status,
+      Number.isFinite(retryAfter) && retryAfter > 0 ? retryAfter : undefined
+    );
+  }
+
+  return await response.json().catch(() => ({ status: 'ok' }));
+};
+
+export const requireConfig = (config: ServiceConfig, ...keys: string[]) => {
+  for (const key of keys) {
+    if (!config[key]) {
+      throw new ProviderError(`Integration is missing required setting: ${key}`, 400);
+    }
+  }
+};
+
+// Load and decrypt a user's configuration for the service
+export const loadServiceConfig = async (supabase: any, userId: string, serviceName: string): Promise<ServiceConfig> => {
+  const { data: row, error } = await supabase
+    .from('integration_configs')
+    .select('encrypted_config, settings, is_active')
+    .eq('user_id', userId)
+    .eq('service_name', serviceName)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load ${serviceName} configuration: ${error.message}`);
+  if (!row || !row.is_active) {
+    throw new ProviderError(`${serviceName} integration is not configured or disabled`, 400);
+  }
+
+  const config: ServiceConfig = { ...row.settings };
+  for (const [key, value] of Object.entries(row.encrypted_config || {})) {
+    const { data: decrypted, error: decryptError } = await supabase.rpc('decrypt_sensitive_data', { data: value });
+    if (decryptError) throw new Error(`Failed to decrypt ${serviceName} ${key}: ${decryptError.message}`);
+    config[key] = decrypted;
+  }
+
+  return config;
+};
+
+// Draw from the same shared rate limit bucket as the client IntegrationManager. The 429 it
+// raises when the bucket is empty carries the refill time for callers that retry.
+export const checkSharedRateLimit = async (supabase: any, userId: string, serviceName: string) => {
+  const { data, error } = await supabase.rpc('consume_integration_rate_limit', {
+    p_service_name: serviceName,
+    p_user_id: userId,
+  });
+
+  if (error) {
+    console.warn(`Shared rate limit check failed for ${serviceName}, continuing: ${error.message}`);
+    return;
+  }
+
+  if (!data?.[0]?.allowed) {
+    throw new ProviderError(
+      `Rate limit exceeded for ${serviceName}. Try again in ${data?.[0]?.reset_in} seconds`,
+      429,
+      data?.[0]?.reset_in
+    );
+  }
+};
@@ -0,0 +1,608 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { checkSharedRateLimit } from "../integration-job-worker/provider-client.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Sends payment reminders for unpaid invoices following each user's dunning policy.
+ *
+ * - Called on a schedule (daily) with the service role key and no invoiceId,
+ *   which processes every open invoice across all users.
+ * - Called by the client with { invoiceId } to process one invoice for the
+ *   authenticated owner; with sendNow it sends the next step even if not yet due.
+ */
+interface DunningRequest {
+  invoiceId?: string;
+  sendNow?: boolean;
+}
+
+type ReminderTone = 'friendly' | 'reminder' | 'firm' | 'final';
+type ReminderChannel = 'email' | 'whatsapp' | 'both';
+
+interface ReminderStep {
+  offset_days: number;
+  channel: ReminderChannel;
+  tone: ReminderTone;
+}
+
+interface DunningPolicy {
+  id: string;
+  user_id: string;
+  is_active: boolean;
+  is_default: boolean;
+  reminder_steps: ReminderStep[];
+  templates: Partial<Record<ReminderTone, { subject?: string; body?: string }>>;
+  late_fee_type: 'none' | 'fixed' | 'percentage' | 'daily_interest';
+  late_fee_value: number;
+  late_fee_grace_days: number;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Escalating wording; policies can override subject and body per tone
+const DEFAULT_TEMPLATES: Record<ReminderTone, { subject: string; body: string }> = {
+  friendly: {
+    subject: 'Upcoming payment - {{invoice_number}}',
+    body: 'Just a friendly reminder that invoice {{invoice_number}} for {{project_title}} ({{amount_due}}) is due on {{due_date}}.',
+  },
+  reminder: {
+    subject: 'Payment due today - {{invoice_number}}',
+    body: 'Invoice {{invoice_number}} for {{project_title}} ({{amount_due}}) is due for payment today.',
+  },
+  firm: {
+    subject: 'Overdue invoice - {{invoice_number}}',
+    body: 'Invoice {{invoice_number}} for {{project_title}} is now {{days_overdue}} days overdue. Please arrange payment of {{amount_due}} as soon as possible.',
+  },
+  final: {
+    subject: 'Final notice - {{invoice_number}}',
+    body: 'This is a final notice: invoice {{invoice_number}} is {{days_overdue}} days overdue and {{amount_due}} remains outstanding. Please pay immediately or contact us to avoid further action.',
+  },
+};
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [INVOICE-DUNNING] ${step}${detailsStr}`);
+};
+
+// Retry mechanism with exponential backoff
+const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000
+): Promise<T> => {
+  let lastError: Error;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error as Error;
+      logStep(`Attempt ${attempt} failed`, { error: error.message });
+
+      if (attempt === maxRetries) break;
+
+      const delay = baseDelay * Math.pow(2, attempt - 1);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError!;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Whole days between the due date and today; negative before the due date
+const daysFromDueDate = (dueDate: string, today: Date) => {
+  const due = Date.UTC(
+    Number(dueDate.slice(0, 4)),
+    Number(dueDate.slice(5, 7)) - 1,
+    Number(dueDate.slice(8, 10))
+  );
+  const now = Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate());
+  return Math.round((now - due) / MS_PER_DAY);
+};
+
+const calculateLateFee = (policy: DunningPolicy, amount: number, daysOverdue: number) => {
+  if (daysOverdue <= policy.late_fee_grace_days || daysOverdue <= 0) {
+    return 0;
+  }
+
+  const value = Number(policy.late_fee_value) || 0;
+  switch (policy.late_fee_type) {
+    case 'fixed':
+      return roundCurrency(value);
+    case 'percentage':
+      return roundCurrency(amount * value / 100);
+    case 'daily_interest':
+      // Simple interest at an annual rate, accruing from the due date
+      return roundCurrency(amount * (value / 100) / 365 * daysOverdue);
+    default:
+      return 0;
+  }
+};
+
+const formatMoney = (currency: string | null, value: number) =>
+  `${currency || 'GBP'} ${value.toFixed(2)}`;
+
+// What is still owed after part payments and credit notes
+const getOutstanding = (invoice: any) => Number(invoice.balance_due ?? invoice.amount);
+
+const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, key) => values[key] ?? match);
+
+const buildReminder = (invoice: any, policy: DunningPolicy, step: ReminderStep, daysFromDue: number) => {
+  const template = { ...DEFAULT_TEMPLATES[step.tone], ...(policy.templates?.[step.tone] || {}) };
+  const lateFee = Number(invoice.late_fee_amount) || 0;
+  const values = {
+    customer_name: invoice.customer_name,
+    invoice_number: invoice.invoice_number,
+    project_title: invoice.project_title,
+    amount_due: formatMoney(invoice.currency, getOutstanding(invoice) + lateFee),
+    late_fee: formatMoney(invoice.currency, lateFee),
+    due_date: invoice.due_date,
+    days_overdue: String(Math.max(daysFromDue, 0)),
+    payment_url: invoice.payment_url || '',
+  };
+
+  return {
+    subject: renderTemplate(template.subject, values),
+    body: renderTemplate(template.body, values),
+    lateFee,
+  };
+};
+
+// Send via email using Resend
+const sendReminderEmail = async (
+  recipientEmail: string,
+  invoice: any,
+  reminder: { subject: string; body: string; lateFee: number }
+) => {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    throw new Error("RESEND_API_KEY not configured");
+  }
+
+  const emailContent = `
+    <h2>${reminder.subject}</h2>
+    <p>Dear ${invoice.customer_name},</p>
+
+    <p>${reminder.body}</p>
+
+    <ul>
+      <li><strong>Invoice Number:</strong> ${invoice.invoice_number}</li>
+      <li><strong>Project:</strong> ${invoice.project_title}</li>
+      <li><strong>Amount Due:</strong> ${formatMoney(invoice.currency, getOutstanding(invoice))}</li>
+      ${reminder.lateFee > 0 ? `<li><strong>Late Fee:</strong> ${formatMoney(invoice.currency, reminder.lateFee)}</li>` : ''}
+      <li><strong>Due Date:</strong> ${invoice.due_date}</li>
+    </ul>
+
+    ${invoice.payment_url ? `
+    <p>
+      <a href="${invoice.payment_url}"
+         style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+        Pay Now
+      </a>
+    </p>` : ''}
+
+    <p>If you have already paid, please disregard this reminder.</p>
+    <p>Best regards,<br>Your Construction Team</p>
+  `;
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'invoices@construyo.app',
+      to: [recipientEmail],
+      subject: reminder.subject,
+      html: emailContent,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Email API error: ${error}`);
+  }
+
+  const result = await response.json();
+  return result.id;
+};
+
+// Send via WhatsApp using respond.io
+const sendReminderWhatsApp = async (
+  recipientPhone: string,
+  invoice: any,
+  reminder: { subject: string; body: string; lateFee: number }
+) => {
+  const respondIoApiKey = Deno.env.get("RESPOND_IO_API_KEY");
+  if (!respondIoApiKey) {
+    throw new Error("RESPOND_IO_API_KEY not configured");
+  }
+
+  const message = `
+💼 *${reminder.subject}*
+
+Hello ${invoice.customer_name},
+
+${reminder.body}
+${reminder.lateFee > 0 ? `\n• Late fee: ${formatMoney(invoice.currency, reminder.lateFee)}\n` : ''}
+${invoice.payment_url ? `💳 *Pay Now:* ${invoice.payment_url}\n` : ''}
+If you have already paid, please ignore this message.
+  `.trim();
+
+  const response = await fetch('https://api.respond.io/v2/contact/message', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${respondIoApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      channelId: "whatsapp",
+      contact: {
+        phone: recipientPhone
+      },
+      message: {
+        type: "text",
+        text: message
+      }
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`WhatsApp API error: ${error}`);
+  }
+
+  const result = await response.json();
+  return result.messageId;
+};
+
+// Log every attempt, failed or not, so the delivery history is complete
+const logMessageDelivery = async (
+  supabase: any,
+  invoice: any,
+  messageType: 'email' | 'whatsapp',
+  recipient: string,
+  messageContent: string,
+  externalId?: string,
+  errorMessage?: string
+) => {
+  const { data } = await supabase.from('message_delivery_logs').insert({
+    user_id: invoice.user_id,
+    lead_id: invoice.lead_id,
+    message_type: messageType,
+    recipient_email: messageType === 'email' ? recipient : null,
+    recipient_phone: messageType === 'whatsapp' ? recipient : null,
+    message_content: messageContent,
+    external_message_id: externalId,
+    delivery_status: errorMessage ? 'failed' : 'sent',
+    error_message: errorMessage,
+    sent_at: errorMessage ? null : new Date().toISOString(),
+  }).select('id').single();
+
+  return data?.id as string | undefined;
+};
+
+// Deliver one reminder step over its channels; missing contact details are recorded as failures
+const deliverReminder = async (
+  supabase: any,
+  invoice: any,
+  step: ReminderStep,
+  reminder: { subject: string; body: string; lateFee: number }
+) => {
+  const channels: Array<'email' | 'whatsapp'> = step.channel === 'both' ? ['email', 'whatsapp'] : [step.channel];
+  const logIds: string[] = [];
+  const errors: string[] = [];
+
+  for (const channel of channels) {
+    const recipient = channel === 'email' ? invoice.customer_email : invoice.lead_phone;
+    if (!recipient) {
+      errors.push(`No ${channel === 'email' ? 'customer email' : 'lead phone number'} on file`);
+      continue;
+    }
+
+    let externalId: string | undefined;
+    let errorMessage: string | undefined;
+    try {
+      externalId = await retryWithBackoff(async () => {
+        await checkSharedRateLimit(supabase, invoice.user_id, channel === 'email' ? 'resend' : 'respond_io');
+        return channel === 'email'
+          ? await sendReminderEmail(recipient, invoice, reminder)
+          : await sendReminderWhatsApp(recipient, invoice, reminder);
+      });
+    } catch (error) {
+      errorMessage = error.message;
+      errors.push(`${channel}: ${error.message}`);
+    }
+
+    const logId = await logMessageDelivery(
+      supabase,
+      invoice,
+      channel,
+      recipient,
+      `${reminder.subject}\n\n${reminder.body}`,
+      externalId,
+      errorMessage
+    );
+    if (logId) logIds.push(logId);
+  }
+
+  return {
+    delivered: errors.length < channels.length,
+    logIds,
+    error: errors.length > 0 ? errors.join('; ') : undefined,
+  };
+};
+
+const processInvoice = async (
+  supabase: any,
+  invoice: any,
+  policy: DunningPolicy,
+  today: Date,
+  sendNow: boolean
+) => {
+  const daysFromDue = daysFromDueDate(invoice.due_date, today);
+  const lateFee = calculateLateFee(policy, getOutstanding(invoice), daysFromDue);
+
+  if (lateFee !== Number(invoice.late_fee_amount)) {
+    await supabase
+      .from('construyo_invoices')
+      .update({ late_fee_amount: lateFee })
+      .eq('id', invoice.id);
+    invoice.late_fee_amount = lateFee;
+  }
+
+  const { data: history } = await supabase
+    .from('invoice_reminders')
+    .select('step_index, status')
+    .eq('invoice_id', invoice.id);
+
+  // Failed steps are retried on the next run
+  const handled = new Set(
+    (history || []).filter((row: any) => row.status !== 'failed').map((row: any) => row.step_index)
+  );
+
+  const steps = policy.reminder_steps || [];
+  const pending = steps
+    .map((step, index) => ({ step, index }))
+    .filter(({ index }) => !handled.has(index))
+    .sort((a, b) => a.step.offset_days - b.step.offset_days);
+
+  const due = pending.filter(({ step }) => step.offset_days <= daysFromDue);
+  if (due.length === 0 && sendNow && pending.length > 0) {
+    due.push(pending[0]);
+  }
+
+  if (due.length === 0) {
+    return { invoiceId: invoice.id, status: 'nothing_due', lateFee };
+  }
+
+  // Only the most escalated due step goes out; earlier ones missed (e.g. while paused) are skipped
+  const { step, index } = due[due.length - 1];
+  const skipped = due.slice(0, -1);
+
+  if (skipped.length > 0) {
+    await supabase.from('invoice_reminders').upsert(
+      skipped.map(({ step: skippedStep, index: skippedIndex }) => ({
+        invoice_id: invoice.id,
+        user_id: invoice.user_id,
+        policy_id: policy.id,
+        step_index: skippedIndex,
+        offset_days: skippedStep.offset_days,
+        tone: skippedStep.tone,
+        channel: skippedStep.channel,
+        status: 'skipped',
+      })),
+      { onConflict: 'invoice_id,step_index' }
+    );
+  }
+
+  const reminder = buildReminder(invoice, policy, step, daysFromDue);
+  const result = await deliverReminder(supabase, invoice, step, reminder);
+
+  await supabase.from('invoice_reminders').upsert({
+    invoice_id: invoice.id,
+    user_id: invoice.user_id,
+    policy_id: policy.id,
+    step_index: index,
+    offset_days: step.offset_days,
+    tone: step.tone,
+    channel: step.channel,
+    status: result.delivered ? 'sent' : 'failed',
+    late_fee_amount: lateFee,
+    message_delivery_log_ids: result.logIds,
+    error_message: result.error,
+  }, { onConflict: 'invoice_id,step_index' });
+
+  if (result.delivered) {
+    await supabase
+      .from('construyo_invoices')
+      .update({
+        reminder_count: (invoice.reminder_count || 0) + 1,
+        last_reminder_at: new Date().toISOString(),
+      })
+      .eq('id', invoice.id);
+
+    await supabase.from('invoice_analytics').insert({
+      user_id: invoice.user_id,
+      invoice_id: invoice.id,
+      event_type: 'reminder_sent',
+      event_data: {
+        step_index: index,
+        tone: step.tone,
+        channel: step.channel,
+        days_from_due: daysFromDue,
+        late_fee: lateFee,
+      },
+    });
+  }
+
+  logStep("Reminder processed", { invoiceId: invoice.id, stepIndex: index, delivered: result.delivered });
+
+  return {
+    invoiceId: invoice.id,
+    status: result.delivered ? 'sent' : 'failed',
+    tone: step.tone,
+    lateFee,
+    error: result.error,
+  };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Dunning run started");
+
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: DunningRequest = await req.json().catch(() => ({}));
+    const { invoiceId, sendNow = false } = body;
+
+    let query = supabase
+      .from('construyo_invoices')
+      .select('*')
+      // Settled invoices, including refunded or disputed payments, are never chased
+      .not('status', 'in', '(paid,cancelled,draft,refunded,partially_refunded,disputed,credited)')
+      .gt('balance_due', 0)
+      .not('due_date', 'is', null);
+
+    if (invoiceId) {
+      // Users may only chase their own invoices
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+      query = query.eq('id', invoiceId).eq('user_id', userData.user.id);
+    } else if (token !== serviceRoleKey) {
+      throw new Error("Running dunning for all invoices requires the service role key");
+    } else {
+      query = query.neq('dunning_status', 'stopped');
+    }
+
+    const { data: invoices, error: invoicesError } = await query;
+    if (invoicesError) {
+      throw new Error(`Failed to load invoices: ${invoicesError.message}`);
+    }
+
+    if (invoiceId && (!invoices || invoices.length === 0)) {
+      throw new Error("Invoice not found or not open for reminders");
+    }
+
+    const userIds = [...new Set((invoices || []).map((invoice: any) => invoice.user_id))];
+    const { data: policies } = userIds.length > 0
+      ? await supabase.from('dunning_policies').select('*').in('user_id', userIds).eq('is_active', true)
+      : { data: [] };
+
+    // WhatsApp reminders go to the lead's phone number
+    const leadIds = [...new Set((invoices || []).map((invoice: any) => invoice.lead_id).filter(Boolean))];
+    const { data: leads } = leadIds.length > 0
+      ? await supabase.from('leads').select('id, phone').in('id', leadIds)
+      : { data: [] };
+    const leadPhones = new Map<string, string>((leads || []).map((lead: any) => [lead.id, lead.phone]));
+
+    const policiesById = new Map<string, DunningPolicy>();
+    const defaultPolicies = new Map<string, DunningPolicy>();
+    for (const policy of (policies || []) as DunningPolicy[]) {
+      policiesById.set(policy.id, policy);
+      if (policy.is_default) defaultPolicies.set(policy.user_id, policy);
+    }
+
+    const today = new Date();
+    const todayIso = today.toISOString().split('T')[0];
+    const results = [];
+
+    for (const invoice of invoices || []) {
+      // A manual send goes out even while reminders are paused or stopped
+      if (invoice.dunning_status === 'stopped' && !sendNow) {
+        continue;
+      }
+
+      if (invoice.dunning_status === 'paused' && !sendNow) {
+        if (!invoice.dunning_paused_until || invoice.dunning_paused_until > todayIso) {
+          continue;
+        }
+        // Pause has lapsed
+        await supabase
+          .from('construyo_invoices')
+          .update({ dunning_status: 'active', dunning_paused_until: null })
+          .eq('id', invoice.id);
+      }
+
+      const policy = (invoice.dunning_policy_id && policiesById.get(invoice.dunning_policy_id))
+        || defaultPolicies.get(invoice.user_id);
+      if (!policy) {
+        continue;
+      }
+
+      invoice.lead_phone = invoice.lead_id ? leadPhones.get(invoice.lead_id) : undefined;
+
+      try {
+        results.push(await processInvoice(supabase, invoice, policy, today, sendNow));
+      } catch (error) {
+        logStep("Invoice processing failed", { invoiceId: invoice.id, error: error.message });
+        results.push({ invoiceId: invoice.id, status: 'error', error: error.message });
+      }
+    }
+
+    logStep("Dunning run completed", { invoices: invoices?.length || 0, processed: results.length });
+
+    return new Response(
+      JSON.stringify({ success: true, processed: results.length, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in invoice dunning", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALL TO SEND THE NEXT REMINDER FOR AN INVOICE NOW:
+
+const sendReminder = async () => {
+  const { data, error } = await supabase.functions.invoke('invoice-dunning', {
+    body: { invoiceId: 'inv123', sendNow: true }
+  });
+
+  if (error) throw error;
+  console.log('Reminder result:', data.results[0]);
+};
+*/
@@ -1,15 +1,48 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { BusinessDetails, DEFAULT_TEMPLATE, InvoiceTemplate, renderInvoicePdf } from "./pdf.ts";
+import { readProviderSecret } from "../credential-vault/crypto.ts";
+import { checkSharedRateLimit } from "../integration-job-worker/provider-client.ts";
+import { PriceBreakdown, ProjectMeasurements, RegionalMultiplier, evaluatePricingRule, readMeasurements } from "./pricing.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
   "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
 };
 
+type LineItemCategory = 'labour' | 'materials' | 'plant_hire' | 'subcontractor' | 'other';
+
+interface LineItemInput {
+  category?: LineItemCategory;
+  description: string;
+  quantity?: number;
+  unit?: string;
+  unitPrice: number;
+  vatRate?: number;
+  cisApplicable?: boolean;
+}
+
 interface InvoiceGenerationRequest {
+  // 'render_pdf' re-renders the PDF of an existing invoice, e.g. with another template;
+  // 'invoice_stage' invoices one stage of a payment schedule;
+  // 'invoice_quote' raises the deposit invoice and project for an accepted quote
+  action?: 'generate' | 'render_pdf' | 'invoice_stage' | 'invoice_quote';
+  invoiceId?: string;
+  stageId?: string;
+  quoteId?: string;
+  templateId?: string;
   leadId: string;
   projectType?: string;
   amount?: number;
+  // Explicit line items; otherwise lines are built from pricing rules
+  lineItems?: LineItemInput[];
+  // Project size in the pricing rule's unit (e.g. m²); falls back to the measurements
+  // on the quote request, then the lead
+  quantity?: number;
+  measurements?: ProjectMeasurements;
+  quoteRequestId?: string;
+  vatRate?: number;
+  cisRate?: 0 | 20 | 30;
   customFields?: {
     client_name?: string;
     project_details?: string;
@@ -26,19 +59,76 @@ interface PricingRule {
   price_per_unit: number;
   unit_type: string;
   currency: string;
+  tiers: { up_to: number | null; price_per_unit: number }[];
+  minimum_charge: number;
+  complexity_multipliers: Record<string, number>;
+  material_markup_percentage: number;
 }
 
 interface Lead {
   id: string;
-  customer_name: string;
+  first_name: string;
+  last_name: string;
   email: string;
   phone: string;
   project_type: string;
+  project_description: string;
+  postal_code?: string;
+  project_measurements?: Record<string, unknown>;
+  estimated_budget_min?: number;
+  estimated_budget_max?: number;
+}
+
+interface InvoiceLineItem {
+  position: number;
+  category: LineItemCategory;
   description: string;
-  budget_min?: number;
-  budget_max?: number;
+  quantity: number;
+  unit: string | null;
+  unit_price: number;
+  vat_rate: number;
+  cis_applicable: boolean;
+  net_amount: number;
+  vat_amount: number;
+}
+
+interface InvoiceTotals {
+  subtotal: number;
+  vat_total: number;
+  total_amount: number;
+  cis_rate: number;
+  cis_deduction: number;
+  amount: number;
+}
+
+interface InvoiceDraft {
+  // Quotes from microsites may not have a lead; the customer fields are used instead
+  lead: Lead | null;
+  lineItems: InvoiceLineItem[];
+  totals: InvoiceTotals;
+  customerName?: string;
+  customerEmail?: string;
+  currency?: string;
+  projectTitle?: string;
+  dueDate?: string;
+  templateId?: string;
+  paymentProvider: 'stripe' | 'quickbooks' | 'xero';
+  syncToSheets: boolean;
+}
+
+interface ProviderCredentials {
+  accessToken: string;
+  tenantId?: string;
+  realmId?: string;
 }
 
+const DEFAULT_VAT_RATE = 20;
+const CIS_RATES = [0, 20, 30];
+const INVOICE_BUCKET = 'invoices';
+const PDF_LINK_EXPIRY_SECONDS = 60 * 60 * 24 * 7;
+// A stage claimed for invoicing but never linked to an invoice is released after this long
+const STAGE_CLAIM_TIMEOUT_MS = 15 * 60 * 1000;
+
 // Enhanced logging with timestamp and context
 const logStep = (step: string, details?: any) => {
   const timestamp = new Date().toISOString();
@@ -72,160 +162,543 @@ const retryWithBackoff = async <T>(
   throw lastError!;
 };
 
-// Encrypt sensitive data (simple implementation - use proper encryption in production)
-const encryptData = (data: string): string => {
-  // In production, use proper encryption like AES-256
-  return btoa(data);
-};
-
-// Decrypt sensitive data
-const decryptData = (encryptedData: string): string => {
+// Credentials are either a bare access token / API key or JSON with provider-specific ids
+const parseProviderCredentials = (decrypted: string): ProviderCredentials => {
   try {
-    return atob(encryptedData);
+    const parsed = JSON.parse(decrypted);
+    return {
+      accessToken: parsed.accessToken || parsed.apiKey,
+      tenantId: parsed.tenantId,
+      realmId: parsed.realmId || parsed.companyId,
+    };
   } catch {
-    throw new Error('Failed to decrypt data');
+    return { accessToken: decrypted };
   }
 };
 
-// Calculate invoice amount based on pricing rules
-const calculateInvoiceAmount = (lead: Lead, pricingRules: PricingRule[]): number => {
-  const rule = pricingRules.find(r => r.project_type.toLowerCase() === lead.project_type.toLowerCase());
-  
-  if (!rule) {
-    // Fallback to lead budget or default pricing
-    return lead.budget_max || lead.budget_min || 5000;
+const roundCurrency = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const toLineItem = (input: LineItemInput, position: number, defaultVatRate: number): InvoiceLineItem => {
+  const category = input.category || 'labour';
+  const quantity = input.quantity ?? 1;
+  const vatRate = input.vatRate ?? defaultVatRate;
+
+  if (!input.description) {
+    throw new Error(`Line ${position + 1}: description is required`);
   }
-  
-  // Simple calculation - in production, consider project size, complexity, etc.
-  let amount = rule.base_price;
-  
-  // Add per-unit pricing if applicable (you'd need project size data)
-  if (rule.price_per_unit) {
-    // Default to 100 units if no specific size data
-    amount += rule.price_per_unit * 100;
+  if (!(quantity > 0) || !Number.isFinite(input.unitPrice)) {
+    throw new Error(`Line ${position + 1}: quantity must be positive and unit price a number`);
   }
-  
-  return amount;
+  if (vatRate < 0 || vatRate > 100) {
+    throw new Error(`Line ${position + 1}: VAT rate must be between 0 and 100`);
+  }
+
+  const netAmount = roundCurrency(quantity * input.unitPrice);
+
+  return {
+    position,
+    category,
+    description: input.description,
+    quantity,
+    unit: input.unit || null,
+    unit_price: roundCurrency(input.unitPrice),
+    vat_rate: vatRate,
+    // CIS is only deducted from labour unless the line says otherwise
+    cis_applicable: input.cisApplicable ?? category === 'labour',
+    net_amount: netAmount,
+    vat_amount: roundCurrency(netAmount * vatRate / 100),
+  };
+};
+
+// Build line items from the project type's pricing rule and the project's measurements
+const buildLineItemsFromPricing = (
+  lead: Lead,
+  pricingRules: PricingRule[],
+  measurements: ProjectMeasurements,
+  regions: RegionalMultiplier[],
+  vatRate: number
+): { lines: LineItemInput[]; breakdown: PriceBreakdown | null } => {
+  const projectType = lead.project_type || 'Project';
+  const rule = pricingRules.find(r => r.project_type.toLowerCase() === projectType.toLowerCase());
+  const breakdown = rule ? evaluatePricingRule(rule, measurements, regions) : null;
+
+  if (breakdown && breakdown.lines.length > 0) {
+    return {
+      lines: breakdown.lines.map(line => ({ ...line, vatRate })),
+      breakdown,
+    };
+  }
+
+  // Fallback to lead budget or default pricing
+  return {
+    lines: [{
+      category: 'labour',
+      description: lead.project_description || projectType.replace(/_/g, ' '),
+      quantity: 1,
+      unitPrice: lead.estimated_budget_max || lead.estimated_budget_min || 5000,
+      vatRate,
+    }],
+    breakdown: null,
+  };
+};
+
+// Explicit measurements win, then the quote request's, then the lead's; the lead's
+// postcode is used when none was measured
+const resolveMeasurements = (lead: Lead, quoteRequest: any, body: InvoiceGenerationRequest): ProjectMeasurements => {
+  const defined = (measurements: ProjectMeasurements) =>
+    Object.fromEntries(Object.entries(measurements).filter(([, value]) => value !== undefined));
+
+  const measurements: ProjectMeasurements = {
+    ...defined(readMeasurements(lead.project_measurements)),
+    ...(quoteRequest ? defined(readMeasurements(quoteRequest.project_measurements, quoteRequest.form_data)) : {}),
+    ...defined(body.measurements || {}),
+  };
+
+  if (body.quantity) {
+    measurements.quantity = body.quantity;
+    measurements.unit = undefined;
+  }
+  measurements.postcode = measurements.postcode || lead.postal_code;
+  return measurements;
+};
+
+const calculateTotals = (lineItems: InvoiceLineItem[], cisRate: number): InvoiceTotals => {
+  const subtotal = roundCurrency(lineItems.reduce((sum, line) => sum + line.net_amount, 0));
+  const vatTotal = roundCurrency(lineItems.reduce((sum, line) => sum + line.vat_amount, 0));
+  const cisBase = lineItems.filter(line => line.cis_applicable).reduce((sum, line) => sum + line.net_amount, 0);
+  const cisDeduction = roundCurrency(cisBase * cisRate / 100);
+  const totalAmount = roundCurrency(subtotal + vatTotal);
+
+  return {
+    subtotal,
+    vat_total: vatTotal,
+    total_amount: totalAmount,
+    cis_rate: cisRate,
+    cis_deduction: cisDeduction,
+    amount: roundCurrency(totalAmount - cisDeduction),
+  };
 };
 
+const describeLine = (line: InvoiceLineItem): string =>
+  line.unit ? `${line.description} (${line.quantity} ${line.unit})` : line.description;
+
 // Stripe integration
-const createStripeInvoice = async (invoiceData: any, credentials: string) => {
-  logStep("Creating Stripe invoice");
-  
-  const apiKey = decryptData(credentials);
-  
-  const response = await fetch('https://api.stripe.com/v1/invoices', {
-    method: 'POST',
+const stripeRequest = async (apiKey: string, path: string, params?: Record<string, string>) => {
+  const response = await fetch(`https://api.stripe.com/v1/${path}`, {
+    method: params ? 'POST' : 'GET',
     headers: {
       'Authorization': `Bearer ${apiKey}`,
       'Content-Type': 'application/x-www-form-urlencoded',
     },
-    body: new URLSearchParams({
-      'customer[email]': invoiceData.customer_email,
-      'customer[name]': invoiceData.customer_name,
-      'description': invoiceData.project_title,
-      'amount_due': (invoiceData.amount * 100).toString(), // Stripe uses cents
-      'currency': invoiceData.currency.toLowerCase(),
-      'due_date': Math.floor(new Date(invoiceData.due_date).getTime() / 1000).toString(),
-    }),
+    body: params ? new URLSearchParams(params) : undefined,
   });
-  
+
   if (!response.ok) {
     const error = await response.text();
     throw new Error(`Stripe API error: ${error}`);
   }
+
+  return await response.json();
+};
+
+// Reuse an existing exclusive VAT tax rate with the same percentage, or create one
+const getStripeTaxRateId = async (apiKey: string, vatRate: number, cache: Map<number, string>): Promise<string> => {
+  if (cache.has(vatRate)) return cache.get(vatRate)!;
+
+  const { data: taxRates } = await stripeRequest(apiKey, 'tax_rates?active=true&inclusive=false&limit=100');
+  let taxRate = (taxRates || []).find((rate: any) => rate.display_name === 'VAT' && Number(rate.percentage) === vatRate);
+
+  if (!taxRate) {
+    taxRate = await stripeRequest(apiKey, 'tax_rates', {
+      display_name: 'VAT',
+      percentage: vatRate.toString(),
+      inclusive: 'false',
+      country: 'GB',
+    });
+  }
+
+  cache.set(vatRate, taxRate.id);
+  return taxRate.id;
+};
+
+const createStripeInvoice = async (invoiceData: any, lineItems: InvoiceLineItem[], totals: InvoiceTotals, credentials: string) => {
+  logStep("Creating Stripe invoice", { lines: lineItems.length });
   
-  const stripeInvoice = await response.json();
+  const { accessToken: apiKey } = parseProviderCredentials(credentials);
+  const currency = invoiceData.currency.toLowerCase();
+
+  const customer = await stripeRequest(apiKey, 'customers', {
+    email: invoiceData.customer_email,
+    name: invoiceData.customer_name,
+  });
+
+  const stripeInvoice = await stripeRequest(apiKey, 'invoices', {
+    customer: customer.id,
+    currency,
+    description: invoiceData.project_title,
+    collection_method: 'send_invoice',
+    due_date: Math.floor(new Date(invoiceData.due_date).getTime() / 1000).toString(),
+    pending_invoice_items_behavior: 'exclude',
+    'metadata[invoice_number]': invoiceData.invoice_number,
+    'metadata[source]': 'construyo_crm',
+  });
+
+  const taxRateCache = new Map<number, string>();
+  for (const line of lineItems) {
+    // Stripe invoice item quantities are whole numbers; fractional quantities and
+    // credits (e.g. retention held back) are sent as one line total
+    const wholeQuantity = Number.isInteger(line.quantity) && line.net_amount >= 0;
+    const params: Record<string, string> = {
+      customer: customer.id,
+      invoice: stripeInvoice.id,
+      currency,
+      description: wholeQuantity ? line.description : describeLine(line),
+      'metadata[category]': line.category,
+    };
+    if (wholeQuantity) {
+      params.quantity = line.quantity.toString();
+      params.unit_amount_decimal = (line.unit_price * 100).toFixed(2);
+    } else {
+      params.amount = Math.round(line.net_amount * 100).toString();
+    }
+
+    if (line.vat_rate > 0) {
+      params['tax_rates[0]'] = await getStripeTaxRateId(apiKey, line.vat_rate, taxRateCache);
+    }
+
+    await stripeRequest(apiKey, 'invoiceitems', params);
+  }
+
+  if (totals.cis_deduction > 0) {
+    await stripeRequest(apiKey, 'invoiceitems', {
+      customer: customer.id,
+      invoice: stripeInvoice.id,
+      currency,
+      description: `CIS deduction (${totals.cis_rate}%)`,
+      amount: Math.round(-totals.cis_deduction * 100).toString(),
+    });
+  }
+
+  const finalizedInvoice = await stripeRequest(apiKey, `invoices/${stripeInvoice.id}/finalize`, {});
+
   return {
-    external_id: stripeInvoice.id,
-    payment_url: stripeInvoice.hosted_invoice_url,
-    status: 'draft',
+    external_id: finalizedInvoice.id,
+    payment_url: finalizedInvoice.hosted_invoice_url,
+    status: finalizedInvoice.status,
   };
 };
 
-// QuickBooks integration (simplified)
-const createQuickBooksInvoice = async (invoiceData: any, credentials: string) => {
-  logStep("Creating QuickBooks invoice");
-  
-  // QuickBooks requires OAuth setup - this is a simplified example
-  const authToken = decryptData(credentials);
+// QuickBooks integration
+const quickBooksRequest = async (credentials: ProviderCredentials, path: string, body?: any) => {
+  const response = await fetch(`https://sandbox-quickbooks.api.intuit.com/v3/company/${credentials.realmId}/${path}`, {
+    method: body ? 'POST' : 'GET',
+    headers: {
+      'Authorization': `Bearer ${credentials.accessToken}`,
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`QuickBooks API error: ${error}`);
+  }
+
+  return await response.json();
+};
+
+const quickBooksQuery = (credentials: ProviderCredentials, query: string) =>
+  quickBooksRequest(credentials, `query?query=${encodeURIComponent(query)}&minorversion=65`);
+
+// Map VAT percentages to the company's sales tax codes via their tax rates
+const getQuickBooksTaxCodes = async (credentials: ProviderCredentials): Promise<Map<number, string>> => {
+  const [rateResponse, codeResponse] = await Promise.all([
+    quickBooksQuery(credentials, 'SELECT * FROM TaxRate'),
+    quickBooksQuery(credentials, 'SELECT * FROM TaxCode WHERE Active = true'),
+  ]);
+
+  const rateValues = new Map<string, number>(
+    (rateResponse.QueryResponse?.TaxRate || []).map((rate: any) => [rate.Id, Number(rate.RateValue)])
+  );
+  const taxCodes = new Map<number, string>();
+
+  for (const code of codeResponse.QueryResponse?.TaxCode || []) {
+    const details = code.SalesTaxRateList?.TaxRateDetail || [];
+    if (details.length !== 1) continue;
+
+    const rate = rateValues.get(details[0].TaxRateRef?.value);
+    if (rate !== undefined && !taxCodes.has(rate)) {
+      taxCodes.set(rate, code.Id);
+    }
+  }
+
+  return taxCodes;
+};
+
+const getOrCreateQuickBooksCustomer = async (credentials: ProviderCredentials, invoiceData: any): Promise<string> => {
+  const escapedName = invoiceData.customer_name.replace(/'/g, "\\'");
+  const existing = await quickBooksQuery(credentials, `SELECT * FROM Customer WHERE DisplayName = '${escapedName}'`);
+  const customer = existing.QueryResponse?.Customer?.[0];
+  if (customer) return customer.Id;
+
+  const created = await quickBooksRequest(credentials, 'customer?minorversion=65', {
+    DisplayName: invoiceData.customer_name,
+    PrimaryEmailAddr: invoiceData.customer_email ? { Address: invoiceData.customer_email } : undefined,
+  });
+  return created.Customer.Id;
+};
+
+const createQuickBooksInvoice = async (invoiceData: any, lineItems: InvoiceLineItem[], totals: InvoiceTotals, credentials: string) => {
+  logStep("Creating QuickBooks invoice", { lines: lineItems.length });
   
-  const qbInvoiceData = {
-    Line: [{
-      Amount: invoiceData.amount,
+  const qbCredentials = parseProviderCredentials(credentials);
+  if (!qbCredentials.realmId) {
+    throw new Error('QuickBooks credentials must include the company realmId');
+  }
+
+  const [customerId, taxCodes] = await Promise.all([
+    getOrCreateQuickBooksCustomer(qbCredentials, invoiceData),
+    getQuickBooksTaxCodes(qbCredentials),
+  ]);
+
+  const taxCodeFor = (vatRate: number) => {
+    const taxCode = taxCodes.get(vatRate);
+    if (!taxCode) {
+      throw new Error(`No QuickBooks tax code found for ${vatRate}% VAT`);
+    }
+    return { value: taxCode };
+  };
+
+  const lines = lineItems.map(line => ({
+    Description: describeLine(line),
+    Amount: line.net_amount,
+    DetailType: "SalesItemLineDetail",
+    SalesItemLineDetail: {
+      ItemRef: {
+        value: "1", // Default service item
+      },
+      Qty: line.quantity,
+      UnitPrice: line.unit_price,
+      TaxCodeRef: taxCodeFor(line.vat_rate),
+    }
+  }));
+
+  if (totals.cis_deduction > 0) {
+    lines.push({
+      Description: `CIS deduction (${totals.cis_rate}%)`,
+      Amount: -totals.cis_deduction,
       DetailType: "SalesItemLineDetail",
       SalesItemLineDetail: {
-        ItemRef: {
-          value: "1", // Default service item
-        }
+        ItemRef: { value: "1" },
+        Qty: 1,
+        UnitPrice: -totals.cis_deduction,
+        TaxCodeRef: taxCodeFor(0),
       }
-    }],
-    CustomerRef: {
-      name: invoiceData.customer_name,
-    },
-    BillEmail: {
-      Address: invoiceData.customer_email,
-    },
+    });
+  }
+
+  const { Invoice: qbInvoice } = await quickBooksRequest(qbCredentials, 'invoice?minorversion=65&include=invoiceLink', {
+    DocNumber: invoiceData.invoice_number,
+    CustomerRef: { value: customerId },
+    BillEmail: invoiceData.customer_email ? { Address: invoiceData.customer_email } : undefined,
+    CurrencyRef: { value: invoiceData.currency },
     DueDate: invoiceData.due_date,
-  };
-  
-  // This would be the actual QuickBooks API call
-  // const response = await fetch(`https://sandbox-quickbooks.api.intuit.com/v3/company/${companyId}/invoice`, {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${authToken}`,
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify(qbInvoiceData),
-  // });
-  
-  // Simulated response for now
+    GlobalTaxCalculation: "TaxExcluded",
+    Line: lines,
+  });
+
   return {
-    external_id: `QB-${Date.now()}`,
-    payment_url: `https://quickbooks.com/invoice/${Date.now()}`,
+    external_id: qbInvoice.Id,
+    payment_url: qbInvoice.InvoiceLink,
     status: 'draft',
   };
 };
 
-// Xero integration (simplified)
-const createXeroInvoice = async (invoiceData: any, credentials: string) => {
-  logStep("Creating Xero invoice");
-  
-  const authToken = decryptData(credentials);
+// Xero integration
+const XERO_TAX_TYPES: Record<number, string> = {
+  20: 'OUTPUT2',
+  5: 'RROUTPUT',
+  0: 'ZERORATEDOUTPUT',
+};
+
+const getXeroTenantId = async (accessToken: string): Promise<string> => {
+  const response = await fetch('https://api.xero.com/connections', {
+    headers: { 'Authorization': `Bearer ${accessToken}`, 'Accept': 'application/json' },
+  });
+
+  if (!response.ok) {
+    throw new Error(`Xero API error: ${await response.text()}`);
+  }
+
+  const connections = await response.json();
+  const tenant = connections.find((connection: any) => connection.tenantType === 'ORGANISATION');
+  if (!tenant) {
+    throw new Error('No Xero organisation connected');
+  }
+  return tenant.tenantId;
+};
+
+const createXeroInvoice = async (invoiceData: any, lineItems: InvoiceLineItem[], totals: InvoiceTotals, credentials: string) => {
+  logStep("Creating Xero invoice", { lines: lineItems.length });
   
+  const { accessToken, tenantId } = parseProviderCredentials(credentials);
+
+  const taxTypeFor = (vatRate: number) => {
+    const taxType = XERO_TAX_TYPES[vatRate];
+    if (!taxType) {
+      throw new Error(`Unsupported VAT rate for Xero: ${vatRate}%`);
+    }
+    return taxType;
+  };
+
+  const xeroLineItems = lineItems.map(line => ({
+    Description: describeLine(line),
+    Quantity: line.quantity,
+    UnitAmount: line.unit_price,
+    TaxType: taxTypeFor(line.vat_rate),
+    AccountCode: '200',
+  }));
+
+  if (totals.cis_deduction > 0) {
+    xeroLineItems.push({
+      Description: `CIS deduction (${totals.cis_rate}%)`,
+      Quantity: 1,
+      UnitAmount: -totals.cis_deduction,
+      TaxType: 'NONE',
+      AccountCode: '200',
+    });
+  }
+
   const xeroInvoiceData = {
     Type: "ACCREC",
     Contact: {
       Name: invoiceData.customer_name,
       EmailAddress: invoiceData.customer_email,
     },
-    LineItems: [{
-      Description: invoiceData.project_title,
-      Quantity: 1,
-      UnitAmount: invoiceData.amount,
-    }],
+    InvoiceNumber: invoiceData.invoice_number,
+    Reference: invoiceData.project_title,
+    CurrencyCode: invoiceData.currency,
+    LineAmountTypes: "Exclusive",
+    LineItems: xeroLineItems,
     DueDate: invoiceData.due_date,
     Status: "DRAFT",
   };
   
-  // This would be the actual Xero API call
-  // const response = await fetch('https://api.xero.com/api.xro/2.0/Invoices', {
-  //   method: 'POST',
-  //   headers: {
-  //     'Authorization': `Bearer ${authToken}`,
-  //     'Content-Type': 'application/json',
-  //   },
-  //   body: JSON.stringify({ Invoices: [xeroInvoiceData] }),
-  // });
+  const response = await fetch('https://api.xero.com/api.xro/2.0/Invoices', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${accessToken}`,
+      'Xero-tenant-id': tenantId || await getXeroTenantId(accessToken),
+      'Accept': 'application/json',
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ Invoices: [xeroInvoiceData] }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Xero API error: ${error}`);
+  }
+
+  const { Invoices } = await response.json();
   
-  // Simulated response for now
   return {
-    external_id: `XR-${Date.now()}`,
-    payment_url: `https://xero.com/invoice/${Date.now()}`,
+    external_id: Invoices[0].InvoiceID,
+    payment_url: undefined,
     status: 'draft',
   };
 };
 
+// Business name, contact details and logo printed on the invoice
+const loadBusinessDetails = async (supabase: any, userId: string): Promise<BusinessDetails> => {
+  const [{ data: settings }, { data: role }] = await Promise.all([
+    supabase
+      .from('business_settings')
+      .select('business_name, business_address, business_email, business_phone, vat_number, company_number')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('user_roles')
+      .select('companies(name, logo_url, website)')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .not('company_id', 'is', null)
+      .order('assigned_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  const company = role?.companies;
+
+  return {
+    name: settings?.business_name || company?.name || 'Construyo',
+    address: settings?.business_address,
+    email: settings?.business_email,
+    phone: settings?.business_phone,
+    website: company?.website,
+    vat_number: settings?.vat_number,
+    company_number: settings?.company_number,
+    logo_url: company?.logo_url,
+  };
+};
+
+// The requested template, else the user's default, else the built-in classic layout
+const loadTemplate = async (supabase: any, userId: string, templateId?: string): Promise<InvoiceTemplate> => {
+  let query = supabase.from('invoice_templates').select('*').eq('user_id', userId);
+  query = templateId ? query.eq('id', templateId) : query.eq('is_default', true);
+
+  const { data: template } = await query.maybeSingle();
+  if (templateId && !template) {
+    throw new Error('Invoice template not found');
+  }
+
+  return template || DEFAULT_TEMPLATE;
+};
+
+// Render the invoice PDF, store it under the user's folder and return a signed download link
+const storeInvoicePdf = async (supabase: any, userId: string, invoiceId: string, templateId?: string) => {
+  const { data: invoice, error } = await supabase
+    .from('construyo_invoices')
+    .select('*, construyo_invoice_line_items(*)')
+    .eq('id', invoiceId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !invoice) {
+    throw new Error(`Invoice not found: ${error?.message || 'Invalid invoice ID'}`);
+  }
+
+  const [business, template] = await Promise.all([
+    loadBusinessDetails(supabase, userId),
+    loadTemplate(supabase, userId, templateId || invoice.template_id || undefined),
+  ]);
+
+  const pdf = await renderInvoicePdf(invoice, invoice.construyo_invoice_line_items || [], business, template);
+  const pdfPath = `${userId}/${invoice.invoice_number}.pdf`;
+
+  const { error: uploadError } = await supabase.storage
+    .from(INVOICE_BUCKET)
+    .upload(pdfPath, pdf, { contentType: 'application/pdf', upsert: true });
+
+  if (uploadError) {
+    throw new Error(`Failed to store invoice PDF: ${uploadError.message}`);
+  }
+
+  await supabase
+    .from('construyo_invoices')
+    .update({ pdf_path: pdfPath, pdf_generated_at: new Date().toISOString(), template_id: template.id || null })
+    .eq('id', invoiceId);
+
+  const { data: signed } = await supabase.storage
+    .from(INVOICE_BUCKET)
+    .createSignedUrl(pdfPath, PDF_LINK_EXPIRY_SECONDS);
+
+  logStep("Invoice PDF stored", { invoiceId, pdfPath, layout: template.layout });
+
+  return { pdf_path: pdfPath, pdf_url: signed?.signedUrl };
+};
+
 // Sync to Google Sheets via Zapier
 const syncToGoogleSheets = async (invoiceData: any, zapierWebhook: string) => {
   logStep("Syncing to Google Sheets via Zapier");
@@ -235,6 +708,9 @@ const syncToGoogleSheets = async (invoiceData: any, zapierWebhook: string) => {
     customer_name: invoiceData.customer_name,
     customer_email: invoiceData.customer_email,
     project_title: invoiceData.project_title,
+    subtotal: invoiceData.subtotal,
+    vat_total: invoiceData.vat_total,
+    cis_deduction: invoiceData.cis_deduction,
     amount: invoiceData.amount,
     currency: invoiceData.currency,
     due_date: invoiceData.due_date,
@@ -275,6 +751,452 @@ const logAnalyticsEvent = async (
   });
 };
 
+// Create the invoice with the payment provider and in the CRM, then render its PDF
+const createInvoice = async (supabase: any, userId: string, draft: InvoiceDraft) => {
+  const { lead, lineItems, totals, paymentProvider } = draft;
+
+  // Generate invoice number
+  const { data: invoiceNumber } = await supabase.rpc('generate_invoice_number', { p_user_id: userId });
+
+  // Prepare invoice data
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() + 30); // 30 days from now
+
+  const invoiceData = {
+    user_id: userId,
+    lead_id: lead?.id ?? null,
+    invoice_number: invoiceNumber,
+    customer_name: draft.customerName || `${lead?.first_name} ${lead?.last_name}`.trim(),
+    customer_email: draft.customerEmail || lead?.email,
+    project_title: draft.projectTitle || `${lead?.project_type} - ${lead?.project_description}`,
+    ...totals,
+    currency: draft.currency || 'GBP',
+    due_date: draft.dueDate || dueDate.toISOString().split('T')[0],
+    status: 'draft',
+  };
+
+  logStep("Invoice data prepared", { invoiceNumber, ...totals });
+
+  // Get payment provider settings
+  const { data: providerSettings } = await supabase
+    .from('payment_provider_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider_type', paymentProvider)
+    .eq('is_active', true)
+    .single();
+
+  let externalInvoiceData = null;
+
+  // Create invoice in external payment provider with retry logic
+  if (providerSettings?.encrypted_credentials) {
+    try {
+      const credentials = await readProviderSecret(supabase, providerSettings, 'encrypted_credentials');
+
+      externalInvoiceData = await retryWithBackoff(async () => {
+        await checkSharedRateLimit(supabase, userId, paymentProvider);
+
+        switch (paymentProvider) {
+          case 'stripe':
+            return await createStripeInvoice(invoiceData, lineItems, totals, credentials);
+          case 'quickbooks':
+            return await createQuickBooksInvoice(invoiceData, lineItems, totals, credentials);
+          case 'xero':
+            return await createXeroInvoice(invoiceData, lineItems, totals, credentials);
+          default:
+            throw new Error(`Unsupported payment provider: ${paymentProvider}`);
+        }
+      });
+
+      logStep("External invoice created", { provider: paymentProvider, externalId: externalInvoiceData.external_id });
+    } catch (error) {
+      logStep("External invoice creation failed", { error: error.message });
+      // Continue with local invoice creation even if external fails
+    }
+  }
+
+  // Create invoice in Construyo CRM
+  const { data: createdInvoice, error: invoiceError } = await supabase
+    .from('construyo_invoices')
+    .insert({
+      ...invoiceData,
+      stripe_payment_intent_id: externalInvoiceData?.external_id,
+      payment_url: externalInvoiceData?.payment_url,
+      template_id: draft.templateId,
+    })
+    .select()
+    .single();
+
+  if (invoiceError) {
+    throw new Error(`Failed to create invoice: ${invoiceError.message}`);
+  }
+
+  // Line amounts are generated columns and a trigger keeps the invoice totals in step with them
+  const { data: createdLineItems, error: lineItemsError } = await supabase
+    .from('construyo_invoice_line_items')
+    .insert(lineItems.map(({ net_amount, vat_amount, ...line }) => ({ ...line, invoice_id: createdInvoice.id, user_id: userId })))
+    .select('id, position, category, description, quantity, unit, unit_price, vat_rate, cis_applicable, net_amount, vat_amount');
+
+  if (lineItemsError) {
+    await supabase.from('construyo_invoices').delete().eq('id', createdInvoice.id);
+    throw new Error(`Failed to create invoice line items: ${lineItemsError.message}`);
+  }
+
+  logStep("Invoice created in CRM", { invoiceId: createdInvoice.id, lines: createdLineItems.length });
+
+  // A missing PDF can be re-rendered later, so it doesn't fail invoice creation
+  let pdfResult: { pdf_path: string; pdf_url?: string } | null = null;
+  try {
+    pdfResult = await storeInvoicePdf(supabase, userId, createdInvoice.id, draft.templateId);
+  } catch (error) {
+    logStep("Invoice PDF generation failed", { error: error.message });
+  }
+
+  // Log analytics event
+  await logAnalyticsEvent(
+    supabase,
+    userId,
+    createdInvoice.id,
+    'invoice_created',
+    {
+      payment_provider: paymentProvider,
+      ...totals,
+      line_items: lineItems.length,
+      external_id: externalInvoiceData?.external_id,
+      auto_generated: true,
+    },
+    paymentProvider
+  );
+
+  // Sync to Google Sheets if enabled
+  if (draft.syncToSheets && providerSettings?.zapier_webhook) {
+    try {
+      await retryWithBackoff(() => 
+        syncToGoogleSheets(createdInvoice, providerSettings.zapier_webhook)
+      );
+      
+      await logAnalyticsEvent(
+        supabase,
+        userId,
+        createdInvoice.id,
+        'synced_to_sheets'
+      );
+    } catch (error) {
+      logStep("Google Sheets sync failed", { error: error.message });
+      // Don't fail the whole operation for sync errors
+    }
+  }
+
+  return { createdInvoice, createdLineItems, externalInvoiceData, pdfResult };
+};
+
+const describeCreatedInvoice = (
+  createdInvoice: any,
+  createdLineItems: any[],
+  totals: InvoiceTotals,
+  externalInvoiceData: any,
+  pdfResult: { pdf_url?: string } | null
+) => ({
+  id: createdInvoice.id,
+  invoice_number: createdInvoice.invoice_number,
+  subtotal: totals.subtotal,
+  vat_total: totals.vat_total,
+  total_amount: totals.total_amount,
+  cis_rate: totals.cis_rate,
+  cis_deduction: totals.cis_deduction,
+  amount: totals.amount,
+  currency: createdInvoice.currency,
+  line_items: createdLineItems,
+  due_date: createdInvoice.due_date,
+  payment_url: externalInvoiceData?.payment_url,
+  external_id: externalInvoiceData?.external_id,
+  pdf_url: pdfResult?.pdf_url,
+});
+
+// Invoice one stage of a payment schedule: the stage value less any retention held back
+const invoicePaymentStage = async (supabase: any, userId: string, stageId: string, body: InvoiceGenerationRequest) => {
+  const { data: stage, error: stageError } = await supabase
+    .from('payment_schedule_stages')
+    .select('*, payment_schedules(*)')
+    .eq('id', stageId)
+    .eq('user_id', userId)
+    .single();
+
+  if (stageError || !stage) {
+    throw new Error(`Payment stage not found: ${stageError?.message || 'Invalid stage ID'}`);
+  }
+
+  const schedule = stage.payment_schedules;
+  if (stage.invoice_id) {
+    throw new Error(`Stage "${stage.name}" has already been invoiced`);
+  }
+  if (schedule.status === 'cancelled') {
+    throw new Error("Payment schedule has been cancelled");
+  }
+  // Retention is only released once the defect period has ended
+  if (stage.stage_type === 'retention' && stage.due_date && new Date(stage.due_date) > new Date()) {
+    throw new Error(`Retention can't be invoiced until the defect period ends on ${stage.due_date}`);
+  }
+
+  const { data: lead, error: leadError } = await supabase
+    .from('leads')
+    .select('*')
+    .eq('id', schedule.lead_id)
+    .single();
+
+  if (leadError || !lead) {
+    throw new Error(`Lead not found: ${leadError?.message || 'Invalid lead ID'}`);
+  }
+
+  // Claim the stage before invoicing it, so a double submit can't invoice it twice.
+  // A claim that never got its invoice linked (the function died mid-way) can be
+  // taken again once it is STAGE_CLAIM_TIMEOUT_MS old.
+  const staleClaimBefore = new Date(Date.now() - STAGE_CLAIM_TIMEOUT_MS).toISOString();
+  const { data: claimed, error: claimError } = await supabase
+    .from('payment_schedule_stages')
+    .update({ status: 'invoiced' })
+    .eq('id', stageId)
+    .is('invoice_id', null)
+    .or(`status.eq.pending,and(status.eq.invoiced,updated_at.lt.${staleClaimBefore})`)
+    .select('id')
+    .maybeSingle();
+
+  if (claimError) {
+    throw new Error(`Failed to claim payment stage: ${claimError.message}`);
+  }
+  if (!claimed) {
+    throw new Error(`Stage "${stage.name}" has already been invoiced`);
+  }
+
+  const cisApplicable = schedule.cis_rate > 0;
+  const lineInputs: LineItemInput[] = [{
+    category: 'labour',
+    description: `${schedule.name} - ${stage.name}`,
+    quantity: 1,
+    unitPrice: stage.stage_value,
+    vatRate: schedule.vat_rate,
+    cisApplicable,
+  }];
+
+  if (stage.retention_amount > 0) {
+    lineInputs.push({
+      category: 'other',
+      description: `Retention held (${schedule.retention_percentage}%)`,
+      quantity: 1,
+      unitPrice: -stage.retention_amount,
+      vatRate: schedule.vat_rate,
+      cisApplicable,
+    });
+  }
+
+  const lineItems = lineInputs.map((line, index) => toLineItem(line, index, schedule.vat_rate));
+  const totals = calculateTotals(lineItems, schedule.cis_rate);
+
+  let created;
+  try {
+    created = await createInvoice(supabase, userId, {
+      lead,
+      lineItems,
+      totals,
+      projectTitle: `${schedule.name} - ${stage.name}`,
+      dueDate: stage.due_date || undefined,
+      templateId: body.templateId,
+      paymentProvider: body.paymentProvider || 'stripe',
+      syncToSheets: body.syncToSheets || false,
+    });
+  } catch (error) {
+    // Release the claim so the stage can be invoiced again
+    await supabase
+      .from('payment_schedule_stages')
+      .update({ status: 'pending' })
+      .eq('id', stageId)
+      .is('invoice_id', null);
+    throw error;
+  }
+
+  // Linking the invoice lets the database roll payment status up to the schedule
+  const { error: linkError } = await supabase
+    .from('payment_schedule_stages')
+    .update({ invoice_id: created.createdInvoice.id })
+    .eq('id', stageId);
+
+  if (linkError) {
+    throw new Error(`Invoice ${created.createdInvoice.invoice_number} was created but not linked to the stage: ${linkError.message}`);
+  }
+
+  logStep("Payment stage invoiced", { stageId, scheduleId: schedule.id, invoiceId: created.createdInvoice.id });
+
+  return { ...created, totals };
+};
+
+// Find the quote's customer in the user's company by email, or add them
+const getOrCreateQuoteCustomer = async (supabase: any, userId: string, companyId: string, quote: any) => {
+  const { data: existing } = await supabase
+    .from('customers')
+    .select('id')
+    .eq('company_id', companyId)
+    .ilike('email', quote.customer_email.replace(/[\\%_]/g, '\\$&'))
+    .limit(1)
+    .maybeSingle();
+
+  if (existing) return existing.id;
+
+  const [firstName, ...rest] = quote.customer_name.trim().split(/\s+/);
+  const { data: customer, error } = await supabase
+    .from('customers')
+    .insert({
+      company_id: companyId,
+      created_by: userId,
+      first_name: firstName || quote.customer_name,
+      last_name: rest.join(' '),
+      email: quote.customer_email,
+      phone: quote.customer_phone,
+      original_lead_id: quote.lead_id,
+      conversion_date: new Date().toISOString(),
+    })
+    .select('id')
+    .single();
+
+  if (error) throw new Error(`Failed to create customer: ${error.message}`);
+  return customer.id;
+};
+
+// Deposit lines take the deposit percentage of each VAT rate and CIS treatment in the
+// accepted revision, so the deposit carries the same tax as the quoted work
+const buildDepositLines = (quote: any, revision: any): LineItemInput[] => {
+  const groups = new Map<string, { vatRate: number; cisApplicable: boolean; net: number }>();
+
+  for (const line of revision.line_items || []) {
+    const key = `${line.vatRate}:${line.cisApplicable}`;
+    const group = groups.get(key) || { vatRate: line.vatRate, cisApplicable: line.cisApplicable, net: 0 };
+    group.net += roundCurrency((line.quantity || 0) * (line.unitPrice || 0));
+    groups.set(key, group);
+  }
+
+  const percentage = Number(revision.deposit_percentage);
+  return Array.from(groups.values())
+    .filter(group => group.net !== 0)
+    .map(group => ({
+      category: group.cisApplicable ? 'labour' as const : 'other' as const,
+      description: `Deposit (${percentage}%) - ${quote.title}${groups.size > 1 ? ` at ${group.vatRate}% VAT` : ''}`,
+      quantity: 1,
+      unitPrice: roundCurrency(group.net * percentage / 100),
+      vatRate: group.vatRate,
+      cisApplicable: group.cisApplicable,
+    }));
+};
+
+// Convert an accepted quote into its deposit invoice and a project. Each step is skipped
+// if it has already been done, so a failed conversion can simply be run again.
+const invoiceQuote = async (supabase: any, userId: string, quoteId: string, body: InvoiceGenerationRequest) => {
+  const { data: quote, error: quoteError } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', quoteId)
+    .eq('user_id', userId)
+    .single();
+
+  if (quoteError || !quote) {
+    throw new Error(`Quote not found: ${quoteError?.message || 'Invalid quote ID'}`);
+  }
+  if (quote.status !== 'accepted' || !quote.accepted_revision) {
+    throw new Error(`Quote ${quote.quote_number} has not been accepted`);
+  }
+
+  const { data: revision, error: revisionError } = await supabase
+    .from('quote_revisions')
+    .select('*')
+    .eq('quote_id', quoteId)
+    .eq('revision_number', quote.accepted_revision)
+    .single();
+
+  if (revisionError || !revision) {
+    throw new Error(`Accepted revision not found: ${revisionError?.message || quote.accepted_revision}`);
+  }
+
+  let created: Awaited<ReturnType<typeof createInvoice>> | null = null;
+  let totals: InvoiceTotals | null = null;
+  let depositInvoiceId = quote.deposit_invoice_id;
+
+  const depositLines = buildDepositLines(quote, revision);
+  if (!depositInvoiceId && depositLines.length > 0) {
+    const { data: lead } = quote.lead_id
+      ? await supabase.from('leads').select('*').eq('id', quote.lead_id).maybeSingle()
+      : { data: null };
+
+    const lineItems = depositLines.map((line, index) => toLineItem(line, index, DEFAULT_VAT_RATE));
+    totals = calculateTotals(lineItems, Number(revision.cis_rate));
+
+    created = await createInvoice(supabase, userId, {
+      lead,
+      lineItems,
+      totals,
+      customerName: quote.customer_name,
+      customerEmail: quote.customer_email,
+      currency: quote.currency,
+      projectTitle: `${quote.title} - deposit (${quote.quote_number})`,
+      templateId: body.templateId,
+      paymentProvider: body.paymentProvider || 'stripe',
+      syncToSheets: body.syncToSheets || false,
+    });
+    depositInvoiceId = created.createdInvoice.id;
+
+    await supabase
+      .from('quotes')
+      .update({ deposit_invoice_id: depositInvoiceId })
+      .eq('id', quoteId);
+  }
+
+  let projectId = quote.project_id;
+  if (!projectId) {
+    const { data: role } = await supabase
+      .from('user_roles')
+      .select('company_id')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .not('company_id', 'is', null)
+      .order('assigned_at', { ascending: true })
+      .limit(1)
+      .maybeSingle();
+
+    if (!role?.company_id) {
+      throw new Error("Join or create a company before converting quotes into projects");
+    }
+
+    const customerId = await getOrCreateQuoteCustomer(supabase, userId, role.company_id, quote);
+    const { data: project, error: projectError } = await supabase
+      .from('projects')
+      .insert({
+        company_id: role.company_id,
+        customer_id: customerId,
+        title: quote.title,
+        description: [`Accepted quote ${quote.quote_number} (revision ${revision.revision_number})`, revision.notes]
+          .filter(Boolean)
+          .join('\n\n'),
+        status: 'planning',
+      })
+      .select('id')
+      .single();
+
+    if (projectError) throw new Error(`Failed to create project: ${projectError.message}`);
+    projectId = project.id;
+  }
+
+  await supabase
+    .from('quotes')
+    .update({ project_id: projectId, converted_at: new Date().toISOString(), conversion_error: null })
+    .eq('id', quoteId);
+
+  if (quote.lead_id) {
+    const { error: leadError } = await supabase.from('leads').update({ status: 'won' }).eq('id', quote.lead_id);
+    if (leadError) throw new Error(`Failed to mark lead as won: ${leadError.message}`);
+  }
+
+  logStep("Quote converted", { quoteId, invoiceId: depositInvoiceId, projectId });
+
+  return { created, totals, depositInvoiceId, projectId };
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -284,34 +1206,136 @@ serve(async (req) => {
     logStep("Invoice generation request started");
 
     // Initialize Supabase client with service role key for full access
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
     const supabase = createClient(
       Deno.env.get("SUPABASE_URL") ?? "",
-      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      serviceRoleKey,
       { auth: { persistSession: false } }
     );
 
-    // Authenticate user
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
       throw new Error("No authorization header provided");
     }
 
+    // Parse request body
+    const body: InvoiceGenerationRequest = await req.json();
     const token = authHeader.replace("Bearer ", "");
-    const { data: userData, error: userError } = await supabase.auth.getUser(token);
-    if (userError) {
-      throw new Error(`Authentication error: ${userError.message}`);
-    }
 
-    const user = userData.user;
-    if (!user) {
-      throw new Error("User not authenticated");
+    // quote-manager converts quotes the customer accepts with the service role key,
+    // on behalf of the quote's owner
+    let user: { id: string };
+    if (token === serviceRoleKey && body.action === 'invoice_quote' && body.quoteId) {
+      const { data: quoteOwner, error: ownerError } = await supabase
+        .from('quotes')
+        .select('user_id')
+        .eq('id', body.quoteId)
+        .single();
+      if (ownerError || !quoteOwner) {
+        throw new Error(`Quote not found: ${ownerError?.message || 'Invalid quote ID'}`);
+      }
+      user = { id: quoteOwner.user_id };
+    } else {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError) {
+        throw new Error(`Authentication error: ${userError.message}`);
+      }
+      if (!userData.user) {
+        throw new Error("User not authenticated");
+      }
+      user = userData.user;
     }
 
     logStep("User authenticated", { userId: user.id });
 
-    // Parse request body
-    const body: InvoiceGenerationRequest = await req.json();
-    const { leadId, projectType, amount, customFields, paymentProvider = 'stripe', syncToSheets = false } = body;
+    if (body.action === 'render_pdf') {
+      if (!body.invoiceId) {
+        throw new Error("invoiceId is required to render a PDF");
+      }
+
+      const pdfResult = await storeInvoicePdf(supabase, user.id, body.invoiceId, body.templateId);
+      await logAnalyticsEvent(supabase, user.id, body.invoiceId, 'pdf_generated', { template_id: body.templateId });
+
+      return new Response(
+        JSON.stringify({ success: true, ...pdfResult }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    if (body.action === 'invoice_quote') {
+      if (!body.quoteId) {
+        throw new Error("quoteId is required to convert a quote");
+      }
+
+      try {
+        const { created, totals, depositInvoiceId, projectId } = await invoiceQuote(supabase, user.id, body.quoteId, body);
+
+        return new Response(
+          JSON.stringify({
+            success: true,
+            invoice: created && totals
+              ? describeCreatedInvoice(created.createdInvoice, created.createdLineItems, totals, created.externalInvoiceData, created.pdfResult)
+              : null,
+            depositInvoiceId,
+            projectId,
+            message: "Quote converted successfully",
+          }),
+          {
+            headers: { ...corsHeaders, "Content-Type": "application/json" },
+            status: 200,
+          }
+        );
+      } catch (error) {
+        // Kept on the quote so the owner can see why and convert it again
+        await supabase
+          .from('quotes')
+          .update({ conversion_error: error instanceof Error ? error.message : String(error) })
+          .eq('id', body.quoteId)
+          .eq('user_id', user.id);
+        throw error;
+      }
+    }
+
+    if (body.action === 'invoice_stage') {
+      if (!body.stageId) {
+        throw new Error("stageId is required to invoice a payment stage");
+      }
+
+      const { createdInvoice, createdLineItems, externalInvoiceData, pdfResult, totals } =
+        await invoicePaymentStage(supabase, user.id, body.stageId, body);
+
+      return new Response(
+        JSON.stringify({
+          success: true,
+          invoice: describeCreatedInvoice(createdInvoice, createdLineItems, totals, externalInvoiceData, pdfResult),
+          message: "Stage invoice generated successfully",
+        }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    const {
+      leadId,
+      projectType,
+      amount,
+      lineItems: requestedLineItems,
+      quoteRequestId,
+      vatRate = DEFAULT_VAT_RATE,
+      cisRate = 0,
+      customFields,
+      paymentProvider = 'stripe',
+      syncToSheets = false
+    } = body;
+
+    if (!CIS_RATES.includes(cisRate)) {
+      throw new Error(`CIS rate must be one of ${CIS_RATES.join(', ')}%`);
+    }
 
     logStep("Request parsed", { leadId, projectType, paymentProvider });
 
@@ -320,7 +1344,7 @@ serve(async (req) => {
       .from('leads')
       .select('*')
       .eq('id', leadId)
-      .eq('customer_id', user.id)
+      .eq('created_by', user.id)
       .single();
 
     if (leadError || !leadData) {
@@ -330,125 +1354,68 @@ serve(async (req) => {
     const lead = leadData as Lead;
     logStep("Lead data retrieved", { leadId: lead.id, projectType: lead.project_type });
 
-    // Fetch pricing rules if amount not provided
-    let calculatedAmount = amount;
-    if (!calculatedAmount) {
-      const { data: pricingRules } = await supabase
-        .from('pricing_rules')
-        .select('*')
-        .eq('user_id', user.id)
-        .eq('is_active', true);
-
-      calculatedAmount = calculateInvoiceAmount(lead, pricingRules || []);
-      logStep("Amount calculated using pricing rules", { amount: calculatedAmount });
-    }
-
-    // Generate invoice number
-    const { data: invoiceNumber } = await supabase.rpc('generate_invoice_number');
-
-    // Prepare invoice data
-    const dueDate = new Date();
-    dueDate.setDate(dueDate.getDate() + 30); // 30 days from now
-
-    const invoiceData = {
-      user_id: user.id,
-      lead_id: leadId,
-      invoice_number: invoiceNumber,
-      customer_name: customFields?.client_name || lead.customer_name,
-      customer_email: lead.email,
-      project_title: customFields?.project_details || `${lead.project_type} - ${lead.description}`,
-      amount: calculatedAmount,
-      currency: 'GBP',
-      due_date: customFields?.due_date || dueDate.toISOString().split('T')[0],
-      status: 'draft',
-    };
+    // Explicit line items win, then a custom (net) amount, then pricing rules
+    let lineInputs: LineItemInput[];
+    let pricingExplanation: string[] | undefined;
+    if (requestedLineItems?.length) {
+      lineInputs = requestedLineItems;
+    } else if (amount) {
+      lineInputs = [{
+        category: 'labour',
+        description: customFields?.project_details || `${projectType || lead.project_type}`.replace(/_/g, ' '),
+        quantity: 1,
+        unitPrice: amount,
+        vatRate,
+      }];
+    } else {
+      const [{ data: pricingRules }, { data: regions }] = await Promise.all([
+        supabase
+          .from('pricing_rules')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('is_active', true),
+        supabase
+          .from('pricing_regional_multipliers')
+          .select('postcode_prefix, multiplier, label')
+          .eq('user_id', user.id),
+      ]);
 
-    logStep("Invoice data prepared", { invoiceNumber, amount: calculatedAmount });
+      const { data: quoteRequest } = quoteRequestId
+        ? await supabase
+          .from('quote_requests')
+          .select('project_measurements, form_data')
+          .eq('id', quoteRequestId)
+          .eq('user_id', user.id)
+          .maybeSingle()
+        : { data: null };
 
-    // Get payment provider settings
-    const { data: providerSettings } = await supabase
-      .from('payment_provider_settings')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('provider_type', paymentProvider)
-      .eq('is_active', true)
-      .single();
-
-    let externalInvoiceData = null;
-
-    // Create invoice in external payment provider with retry logic
-    if (providerSettings?.encrypted_credentials) {
-      try {
-        externalInvoiceData = await retryWithBackoff(async () => {
-          switch (paymentProvider) {
-            case 'stripe':
-              return await createStripeInvoice(invoiceData, providerSettings.encrypted_credentials);
-            case 'quickbooks':
-              return await createQuickBooksInvoice(invoiceData, providerSettings.encrypted_credentials);
-            case 'xero':
-              return await createXeroInvoice(invoiceData, providerSettings.encrypted_credentials);
-            default:
-              throw new Error(`Unsupported payment provider: ${paymentProvider}`);
-          }
-        });
-
-        logStep("External invoice created", { provider: paymentProvider, externalId: externalInvoiceData.external_id });
-      } catch (error) {
-        logStep("External invoice creation failed", { error: error.message });
-        // Continue with local invoice creation even if external fails
-      }
+      const measurements = resolveMeasurements(lead, quoteRequest, body);
+      const priced = buildLineItemsFromPricing(
+        { ...lead, project_type: projectType || lead.project_type },
+        pricingRules || [],
+        measurements,
+        regions || [],
+        vatRate
+      );
+      lineInputs = priced.lines;
+      pricingExplanation = priced.breakdown?.explanation;
+      logStep("Line items built from pricing rules", { lines: lineInputs.length, measurements });
     }
 
-    // Create invoice in Construyo CRM
-    const { data: createdInvoice, error: invoiceError } = await supabase
-      .from('construyo_invoices')
-      .insert({
-        ...invoiceData,
-        stripe_payment_intent_id: externalInvoiceData?.external_id,
-        notes: externalInvoiceData?.payment_url ? `Payment URL: ${externalInvoiceData.payment_url}` : undefined,
-      })
-      .select()
-      .single();
-
-    if (invoiceError) {
-      throw new Error(`Failed to create invoice: ${invoiceError.message}`);
-    }
-
-    logStep("Invoice created in CRM", { invoiceId: createdInvoice.id });
-
-    // Log analytics event
-    await logAnalyticsEvent(
-      supabase,
-      user.id,
-      createdInvoice.id,
-      'invoice_created',
-      {
-        payment_provider: paymentProvider,
-        amount: calculatedAmount,
-        external_id: externalInvoiceData?.external_id,
-        auto_generated: true,
-      },
-      paymentProvider
-    );
+    const lineItems = lineInputs.map((line, index) => toLineItem(line, index, vatRate));
+    const totals = calculateTotals(lineItems, cisRate);
 
-    // Sync to Google Sheets if enabled
-    if (syncToSheets && providerSettings?.zapier_webhook) {
-      try {
-        await retryWithBackoff(() => 
-          syncToGoogleSheets(createdInvoice, providerSettings.zapier_webhook)
-        );
-        
-        await logAnalyticsEvent(
-          supabase,
-          user.id,
-          createdInvoice.id,
-          'synced_to_sheets'
-        );
-      } catch (error) {
-        logStep("Google Sheets sync failed", { error: error.message });
-        // Don't fail the whole operation for sync errors
-      }
-    }
+    const { createdInvoice, createdLineItems, externalInvoiceData, pdfResult } = await createInvoice(supabase, user.id, {
+      lead,
+      lineItems,
+      totals,
+      customerName: customFields?.client_name,
+      projectTitle: customFields?.project_details,
+      dueDate: customFields?.due_date,
+      templateId: body.templateId,
+      paymentProvider,
+      syncToSheets,
+    });
 
     // Update lead status to indicate invoice created
     await supabase
@@ -461,15 +1428,8 @@ serve(async (req) => {
     return new Response(
       JSON.stringify({
         success: true,
-        invoice: {
-          id: createdInvoice.id,
-          invoice_number: createdInvoice.invoice_number,
-          amount: createdInvoice.amount,
-          currency: createdInvoice.currency,
-          due_date: createdInvoice.due_date,
-          payment_url: externalInvoiceData?.payment_url,
-          external_id: externalInvoiceData?.external_id,
-        },
+        invoice: describeCreatedInvoice(createdInvoice, createdLineItems, totals, externalInvoiceData, pdfResult),
+        pricing: pricingExplanation,
         message: "Invoice generated successfully",
       }),
       {
@@ -504,7 +1464,11 @@ const generateInvoice = async () => {
       body: {
         leadId: 'lead789',
         projectType: 'Kitchen',
-        amount: 5000,
+        lineItems: [
+          { category: 'labour', description: 'Fitting', quantity: 3, unit: 'day', unitPrice: 250 },
+          { category: 'materials', description: 'Worktops', quantity: 1, unitPrice: 1200 }
+        ],
+        cisRate: 20,
         customFields: {
           client_name: 'John Smith',
           project_details: 'Kitchen Renovation - Modern Design',
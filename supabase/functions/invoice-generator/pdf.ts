@@ -0,0 +1,476 @@
+import { PDFDocument, PDFFont, PDFImage, PDFPage, StandardFonts, rgb } from "https://esm.sh/pdf-lib@1.17.1";
+import { fetchPublicUrl } from "../automation-engine/public-url.ts";
+
+export type InvoiceTemplateLayout = 'classic' | 'modern' | 'minimal';
+
+export interface InvoiceTemplate {
+  id?: string;
+  layout: InvoiceTemplateLayout;
+  accent_color: string;
+  logo_url?: string | null;
+  show_line_categories: boolean;
+  payment_terms?: string | null;
+  footer_text?: string | null;
+}
+
+export interface BusinessDetails {
+  name: string;
+  address?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  website?: string | null;
+  vat_number?: string | null;
+  company_number?: string | null;
+  logo_url?: string | null;
+}
+
+export interface PdfInvoice {
+  invoice_number: string;
+  customer_name: string;
+  customer_email?: string | null;
+  project_title: string;
+  currency: string;
+  created_at: string;
+  due_date?: string | null;
+  amount: number;
+  subtotal?: number | null;
+  vat_total?: number | null;
+  total_amount?: number | null;
+  cis_rate?: number | null;
+  cis_deduction?: number | null;
+  discount_total?: number | null;
+  payment_url?: string | null;
+}
+
+export interface PdfLineItem {
+  position: number;
+  category: string;
+  description: string;
+  quantity: number;
+  unit?: string | null;
+  unit_price: number;
+  vat_rate: number;
+  net_amount: number;
+}
+
+export const DEFAULT_TEMPLATE: InvoiceTemplate = {
+  layout: 'classic',
+  accent_color: '#1f2937',
+  show_line_categories: true,
+  payment_terms: 'Payment due within 30 days of the invoice date.',
+};
+
+const PAGE_WIDTH = 595.28; // A4
+const PAGE_HEIGHT = 841.89;
+const MARGIN = 50;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+const BLACK = rgb(0.1, 0.1, 0.1);
+const GREY = rgb(0.45, 0.45, 0.45);
+const LIGHT_GREY = rgb(0.9, 0.9, 0.9);
+const WHITE = rgb(1, 1, 1);
+
+const LOGO_TIMEOUT_MS = 10_000;
+
+// Table columns: description takes the remaining width
+const COLUMNS = [
+  { key: 'qty', label: 'Qty', width: 60 },
+  { key: 'unit_price', label: 'Unit Price', width: 80 },
+  { key: 'vat', label: 'VAT', width: 45 },
+  { key: 'net', label: 'Net', width: 80 },
+];
+const DESCRIPTION_WIDTH = CONTENT_WIDTH - COLUMNS.reduce((sum, col) => sum + col.width, 0);
+
+const hexToRgb = (hex: string) => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return rgb(((value >> 16) & 255) / 255, ((value >> 8) & 255) / 255, (value & 255) / 255);
+};
+
+// Standard fonts only cover WinAnsi; replace anything else rather than failing the render
+const safeText = (text: string): string =>
+  (text || '').replace(/[^\x20-\x7E\xA0-\xFF€•–—‘’“”]/g, '?');
+
+const formatMoney = (amount: number, currency: string): string => {
+  const symbol = currency === 'USD' ? '$' : currency === 'EUR' ? '€' : currency === 'GBP' ? '£' : `${currency} `;
+  const formatted = Math.abs(amount).toLocaleString('en-GB', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+  return `${amount < 0 ? '-' : ''}${symbol}${formatted}`;
+};
+
+const formatDate = (date?: string | null): string =>
+  date ? new Date(date).toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric' }) : '';
+
+const wrapText = (text: string, font: PDFFont, size: number, maxWidth: number): string[] => {
+  const lines: string[] = [];
+
+  for (const paragraph of safeText(text).split('\n')) {
+    let current = '';
+    for (const word of paragraph.split(' ')) {
+      const candidate = current ? `${current} ${word}` : word;
+      if (font.widthOfTextAtSize(candidate, size) <= maxWidth || !current) {
+        current = candidate;
+      } else {
+        lines.push(current);
+        current = word;
+      }
+    }
+    lines.push(current);
+  }
+
+  return lines;
+};
+
+// Logos are optional: unreachable, private or unsupported images are skipped
+const loadLogo = async (doc: PDFDocument, url?: string | null): Promise<PDFImage | null> => {
+  if (!url) return null;
+
+  try {
+    // The URL is user-supplied, so it gets the same public-host guard as automation webhooks
+    const response = await fetchPublicUrl(url, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) }, 'Logo URL');
+    if (!response.ok) return null;
+
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const contentType = response.headers.get('content-type') || '';
+    const isPng = contentType.includes('png') || (bytes[0] === 0x89 && bytes[1] === 0x50);
+    return isPng ? await doc.embedPng(bytes) : await doc.embedJpg(bytes);
+  } catch {
+    return null;
+  }
+};
+
+class InvoicePdfWriter {
+  private page: PDFPage;
+  private y = PAGE_HEIGHT - MARGIN;
+
+  constructor(
+    readonly doc: PDFDocument,
+    readonly font: PDFFont,
+    readonly bold: PDFFont,
+    private accent: ReturnType<typeof rgb>
+  ) {
+    this.page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+  }
+
+  get cursor() {
+    return this.y;
+  }
+
+  moveTo(y: number) {
+    this.y = y;
+  }
+
+  move(delta: number) {
+    this.y -= delta;
+  }
+
+  get currentPage() {
+    return this.page;
+  }
+
+  // Start a new page when fewer than `height` points remain
+  ensureSpace(height: number, onNewPage?: () => void) {
+    if (this.y - height < MARGIN + 30) {
+      this.page = this.doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]);
+      this.y = PAGE_HEIGHT - MARGIN;
+      onNewPage?.();
+    }
+  }
+
+  text(value: string, x: number, options: { size?: number; bold?: boolean; color?: ReturnType<typeof rgb>; align?: 'left' | 'right'; y?: number } = {}) {
+    const size = options.size ?? 10;
+    const font = options.bold ? this.bold : this.font;
+    const text = safeText(value);
+    const drawX = options.align === 'right' ? x - font.widthOfTextAtSize(text, size) : x;
+
+    this.page.drawText(text, { x: drawX, y: options.y ?? this.y, size, font, color: options.color ?? BLACK });
+  }
+
+  line(color = LIGHT_GREY, thickness = 1) {
+    this.page.drawLine({
+      start: { x: MARGIN, y: this.y },
+      end: { x: PAGE_WIDTH - MARGIN, y: this.y },
+      thickness,
+      color,
+    });
+  }
+
+  band(height: number, color = this.accent) {
+    this.page.drawRectangle({ x: 0, y: this.y - height, width: PAGE_WIDTH, height, color });
+  }
+
+  image(image: PDFImage, x: number, maxWidth: number, maxHeight: number, alignRight = false) {
+    const { width, height } = image.scaleToFit(maxWidth, maxHeight);
+    this.page.drawImage(image, { x: alignRight ? x - width : x, y: this.y - height, width, height });
+    return height;
+  }
+}
+
+const businessLines = (business: BusinessDetails): string[] =>
+  [
+    ...(business.address ? business.address.split('\n') : []),
+    business.phone,
+    business.email,
+    business.website,
+  ].filter(Boolean) as string[];
+
+const drawHeader = (
+  writer: InvoicePdfWriter,
+  template: InvoiceTemplate,
+  business: BusinessDetails,
+  logo: PDFImage | null,
+  accent: ReturnType<typeof rgb>
+) => {
+  const details = businessLines(business);
+  const right = PAGE_WIDTH - MARGIN;
+
+  if (template.layout === 'modern') {
+    // Accent band with the business name reversed out, details underneath
+    writer.moveTo(PAGE_HEIGHT);
+    writer.band(90, accent);
+    writer.text(business.name, MARGIN, { size: 20, bold: true, color: WHITE, y: PAGE_HEIGHT - 55 });
+    writer.text('INVOICE', right, { size: 14, bold: true, color: WHITE, align: 'right', y: PAGE_HEIGHT - 55 });
+    writer.moveTo(PAGE_HEIGHT - 110);
+
+    if (logo) {
+      writer.image(logo, right, 120, 50, true);
+    }
+    details.forEach(detail => {
+      writer.text(detail, MARGIN, { size: 9, color: GREY });
+      writer.move(12);
+    });
+    writer.moveTo(Math.min(writer.cursor, PAGE_HEIGHT - 170));
+    return;
+  }
+
+  if (template.layout === 'minimal') {
+    writer.text(business.name, MARGIN, { size: 14, bold: true });
+    writer.text('Invoice', right, { size: 14, align: 'right' });
+    writer.move(16);
+    writer.text(details.join('  •  '), MARGIN, { size: 8, color: GREY });
+    writer.move(30);
+    return;
+  }
+
+  // Classic: logo on the left, business details right-aligned, accent rule
+  const top = writer.cursor;
+  const logoHeight = logo ? writer.image(logo, MARGIN, 150, 60) : 0;
+
+  writer.text(business.name, right, { size: 14, bold: true, align: 'right' });
+  writer.move(16);
+  details.forEach(detail => {
+    writer.text(detail, right, { size: 9, color: GREY, align: 'right' });
+    writer.move(12);
+  });
+
+  writer.moveTo(Math.min(writer.cursor, top - logoHeight) - 20);
+  writer.text('INVOICE', MARGIN, { size: 22, bold: true, color: accent });
+  writer.move(10);
+  writer.line(accent, 2);
+  writer.move(25);
+};
+
+const drawInvoiceDetails = (writer: InvoicePdfWriter, invoice: PdfInvoice) => {
+  const right = PAGE_WIDTH - MARGIN;
+  const top = writer.cursor;
+
+  writer.text('BILL TO', MARGIN, { size: 8, bold: true, color: GREY });
+  writer.move(14);
+  writer.text(invoice.customer_name, MARGIN, { size: 11, bold: true });
+  writer.move(13);
+  if (invoice.customer_email) {
+    writer.text(invoice.customer_email, MARGIN, { size: 9, color: GREY });
+    writer.move(13);
+  }
+  const leftBottom = writer.cursor;
+
+  writer.moveTo(top);
+  [
+    ['Invoice Number', invoice.invoice_number],
+    ['Invoice Date', formatDate(invoice.created_at)],
+    ['Due Date', formatDate(invoice.due_date)],
+  ].forEach(([label, value]) => {
+    writer.text(label, right - 150, { size: 9, color: GREY });
+    writer.text(value, right, { size: 9, bold: true, align: 'right' });
+    writer.move(14);
+  });
+
+  writer.moveTo(Math.min(leftBottom, writer.cursor) - 15);
+  wrapText(invoice.project_title, writer.bold, 11, CONTENT_WIDTH).forEach(line => {
+    writer.text(line, MARGIN, { size: 11, bold: true });
+    writer.move(14);
+  });
+  writer.move(10);
+};
+
+const drawTableHeader = (writer: InvoicePdfWriter, template: InvoiceTemplate, accent: ReturnType<typeof rgb>) => {
+  const filled = template.layout !== 'minimal';
+  if (filled) {
+    writer.currentPage.drawRectangle({ x: MARGIN, y: writer.cursor - 6, width: CONTENT_WIDTH, height: 20, color: accent });
+  }
+
+  const color = filled ? WHITE : GREY;
+  writer.text('Description', MARGIN + 6, { size: 9, bold: true, color, y: writer.cursor });
+  let x = MARGIN + DESCRIPTION_WIDTH;
+  COLUMNS.forEach(col => {
+    x += col.width;
+    writer.text(col.label, x - 6, { size: 9, bold: true, color, align: 'right', y: writer.cursor });
+  });
+  writer.move(22);
+};
+
+const drawLineItems = (
+  writer: InvoicePdfWriter,
+  template: InvoiceTemplate,
+  invoice: PdfInvoice,
+  lineItems: PdfLineItem[],
+  font: PDFFont,
+  accent: ReturnType<typeof rgb>
+) => {
+  drawTableHeader(writer, template, accent);
+
+  lineItems.forEach(line => {
+    const descriptionLines = wrapText(line.description, font, 9, DESCRIPTION_WIDTH - 12);
+    const rowHeight = descriptionLines.length * 12 + (template.show_line_categories ? 11 : 0) + 8;
+    writer.ensureSpace(rowHeight, () => drawTableHeader(writer, template, accent));
+
+    const rowTop = writer.cursor;
+    const values = {
+      qty: `${line.quantity}${line.unit ? ` ${line.unit}` : ''}`,
+      unit_price: formatMoney(line.unit_price, invoice.currency),
+      vat: `${line.vat_rate}%`,
+      net: formatMoney(line.net_amount, invoice.currency),
+    };
+
+    let x = MARGIN + DESCRIPTION_WIDTH;
+    COLUMNS.forEach(col => {
+      x += col.width;
+      writer.text(values[col.key as keyof typeof values], x - 6, { size: 9, align: 'right', y: rowTop });
+    });
+
+    descriptionLines.forEach(text => {
+      writer.text(text, MARGIN + 6, { size: 9 });
+      writer.move(12);
+    });
+    if (template.show_line_categories) {
+      writer.text(line.category.replace(/_/g, ' '), MARGIN + 6, { size: 7, color: GREY, y: writer.cursor + 2 });
+      writer.move(11);
+    }
+
+    writer.move(2);
+    writer.line();
+    writer.move(14);
+  });
+};
+
+const drawTotals = (writer: InvoicePdfWriter, invoice: PdfInvoice, accent: ReturnType<typeof rgb>) => {
+  const right = PAGE_WIDTH - MARGIN;
+  const labelX = right - 200;
+  const rows: [string, number][] = [
+    ['Subtotal', invoice.subtotal ?? invoice.amount],
+    ['VAT', invoice.vat_total ?? 0],
+    ['Total', invoice.total_amount ?? invoice.amount],
+  ];
+  if (invoice.discount_total) {
+    rows.push(['Discount', -invoice.discount_total]);
+  }
+  if (invoice.cis_deduction) {
+    rows.push([`CIS deduction (${invoice.cis_rate}%)`, -invoice.cis_deduction]);
+  }
+
+  writer.ensureSpace(rows.length * 16 + 40);
+  writer.move(6);
+  rows.forEach(([label, value]) => {
+    writer.text(label, labelX, { size: 10, color: GREY });
+    writer.text(formatMoney(value, invoice.currency), right, { size: 10, align: 'right' });
+    writer.move(16);
+  });
+
+  writer.move(4);
+  writer.currentPage.drawLine({ start: { x: labelX, y: writer.cursor + 12 }, end: { x: right, y: writer.cursor + 12 }, thickness: 1.5, color: accent });
+  writer.text('Amount Due', labelX, { size: 12, bold: true });
+  writer.text(formatMoney(invoice.amount, invoice.currency), right, { size: 12, bold: true, color: accent, align: 'right' });
+  writer.move(30);
+};
+
+const drawFooter = (
+  writer: InvoicePdfWriter,
+  template: InvoiceTemplate,
+  business: BusinessDetails,
+  invoice: PdfInvoice,
+  font: PDFFont
+) => {
+  const notes: string[] = [];
+  if (template.payment_terms) notes.push(template.payment_terms);
+  if (invoice.cis_deduction) {
+    notes.push('CIS has been deducted at source from labour. Please provide a payment and deduction statement.');
+  }
+
+  if (notes.length > 0 || invoice.payment_url) {
+    writer.ensureSpace(80);
+    writer.text('PAYMENT', MARGIN, { size: 8, bold: true, color: GREY });
+    writer.move(14);
+    notes.forEach(note => {
+      wrapText(note, font, 9, CONTENT_WIDTH).forEach(line => {
+        writer.text(line, MARGIN, { size: 9 });
+        writer.move(12);
+      });
+    });
+    if (invoice.payment_url) {
+      writer.text(`Pay online: ${invoice.payment_url}`, MARGIN, { size: 9 });
+      writer.move(12);
+    }
+  }
+
+  // Registration details on the bottom of every page
+  const registration = [
+    template.footer_text,
+    business.vat_number ? `VAT No. ${business.vat_number}` : null,
+    business.company_number ? `Company No. ${business.company_number}` : null,
+  ].filter(Boolean).join('  •  ');
+
+  if (registration) {
+    writer.doc.getPages().forEach(page => {
+      const text = safeText(registration);
+      const width = font.widthOfTextAtSize(text, 8);
+      page.drawText(text, { x: (PAGE_WIDTH - width) / 2, y: MARGIN - 20, size: 8, font, color: GREY });
+    });
+  }
+};
+
+export const renderInvoicePdf = async (
+  invoice: PdfInvoice,
+  lineItems: PdfLineItem[],
+  business: BusinessDetails,
+  template: InvoiceTemplate = DEFAULT_TEMPLATE
+): Promise<Uint8Array> => {
+  const doc = await PDFDocument.create();
+  doc.setTitle(`Invoice ${invoice.invoice_number}`);
+  doc.setAuthor(business.name);
+  doc.setCreator('Construyo');
+
+  const font = await doc.embedFont(StandardFonts.Helvetica);
+  const bold = await doc.embedFont(StandardFonts.HelveticaBold);
+  const accent = template.layout === 'minimal' ? BLACK : hexToRgb(template.accent_color);
+  const logo = await loadLogo(doc, template.logo_url || business.logo_url);
+
+  // Invoices created before itemisation are shown as a single line
+  const lines: PdfLineItem[] = lineItems.length > 0
+    ? [...lineItems].sort((a, b) => a.position - b.position)
+    : [{
+        position: 0,
+        category: 'other',
+        description: invoice.project_title,
+        quantity: 1,
+        unit_price: invoice.subtotal ?? invoice.amount,
+        vat_rate: 0,
+        net_amount: invoice.subtotal ?? invoice.amount,
+      }];
+
+  const writer = new InvoicePdfWriter(doc, font, bold, accent);
+  drawHeader(writer, template, business, logo, accent);
+  drawInvoiceDetails(writer, invoice);
+  drawLineItems(writer, template, invoice, lines, font, accent);
+  drawTotals(writer, invoice, accent);
+  drawFooter(writer, template, business, invoice, font);
+
+  return await doc.save();
+};
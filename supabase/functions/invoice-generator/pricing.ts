@@ -0,0 +1,266 @@
+/*
+ * Pricing rule engine: turns a pricing rule and a project's measurements into
+ * explained line items. Also used by the app for previews through src/lib/pricingEngine.ts,
+ * so it must not import anything Deno-specific.
+ */
+
+export type Complexity = 'standard' | 'moderate' | 'complex';
+
+export interface PricingTier {
+  // Upper bound of the band in the rule's unit; null for the open-ended last band
+  up_to: number | null;
+  price_per_unit: number;
+}
+
+export interface PricingRuleConfig {
+  project_type: string;
+  base_price: number;
+  price_per_unit?: number | null;
+  unit_type?: string | null;
+  tiers?: PricingTier[] | null;
+  minimum_charge?: number | null;
+  complexity_multipliers?: Partial<Record<Complexity, number>> | null;
+  material_markup_percentage?: number | null;
+}
+
+export interface RegionalMultiplier {
+  postcode_prefix: string;
+  multiplier: number;
+  label?: string | null;
+}
+
+export interface ProjectMeasurements {
+  quantity?: number;
+  unit?: string;
+  postcode?: string;
+  complexity?: Complexity;
+  materials_cost?: number;
+}
+
+export interface PricedLine {
+  category: 'labour' | 'materials';
+  description: string;
+  quantity: number;
+  unit?: string;
+  unitPrice: number;
+}
+
+export interface PriceBreakdown {
+  lines: PricedLine[];
+  explanation: string[];
+  quantity: number | null;
+  complexityMultiplier: number;
+  regionalMultiplier: number;
+  region: string | null;
+  minimumApplied: boolean;
+  total: number;
+}
+
+export const COMPLEXITY_LEVELS: { value: Complexity; label: string }[] = [
+  { value: 'standard', label: 'Standard' },
+  { value: 'moderate', label: 'Moderate' },
+  { value: 'complex', label: 'Complex' },
+];
+
+export const DEFAULT_COMPLEXITY_MULTIPLIERS: Record<Complexity, number> = {
+  standard: 1,
+  moderate: 1.15,
+  complex: 1.35,
+};
+
+// Factor to multiply a measurement in the inner unit by to get the outer unit
+const UNIT_CONVERSIONS: Record<string, Record<string, number>> = {
+  sqm: { sqft: 0.092903 },
+  sqft: { sqm: 10.7639 },
+  linear_m: { linear_ft: 0.3048 },
+  linear_ft: { linear_m: 3.28084 },
+};
+
+const round = (value: number): number => Math.round((value + Number.EPSILON) * 100) / 100;
+
+const formatUnit = (unit: string) => unit.replace(/_/g, ' ');
+
+export const convertQuantity = (value: number, from: string | undefined, to: string): number => {
+  if (!from || from === to) return value;
+  const factor = UNIT_CONVERSIONS[to]?.[from];
+  if (!factor) {
+    throw new Error(`Can't convert ${formatUnit(from)} to ${formatUnit(to)}`);
+  }
+  return round(value * factor);
+};
+
+const isDigit = (char: string | undefined) => !!char && char >= '0' && char <= '9';
+
+// The outward code of a UK postcode ("SW1A 1AA" -> "SW1A")
+const outwardCode = (postcode: string) => {
+  const normalized = postcode.toUpperCase().trim();
+  if (normalized.includes(' ')) return normalized.split(/\s+/)[0];
+  return normalized.length > 4 ? normalized.slice(0, -3) : normalized;
+};
+
+// Longest matching prefix wins. A prefix only matches at a letter/digit boundary,
+// so "S" doesn't match "SW1A" and "SW1" doesn't match "SW10"
+export const findRegionalMultiplier = (postcode: string | undefined, regions: RegionalMultiplier[]) => {
+  if (!postcode) return null;
+  const outward = outwardCode(postcode);
+
+  return regions
+    .filter(region => {
+      const prefix = region.postcode_prefix.toUpperCase();
+      if (outward === prefix) return true;
+      return outward.startsWith(prefix) && isDigit(outward[prefix.length]) !== isDigit(prefix[prefix.length - 1]);
+    })
+    .sort((a, b) => b.postcode_prefix.length - a.postcode_prefix.length)[0] || null;
+};
+
+export const evaluatePricingRule = (
+  rule: PricingRuleConfig,
+  measurements: ProjectMeasurements,
+  regions: RegionalMultiplier[] = []
+): PriceBreakdown => {
+  const label = rule.project_type.replace(/_/g, ' ');
+  const unit = rule.unit_type || 'unit';
+  const lines: PricedLine[] = [];
+  const explanation: string[] = [];
+
+  let quantity: number | null = null;
+  if (unit === 'project') {
+    quantity = 1;
+  } else if (measurements.quantity && measurements.quantity > 0) {
+    quantity = convertQuantity(measurements.quantity, measurements.unit, unit);
+    explanation.push(measurements.unit && measurements.unit !== unit
+      ? `${measurements.quantity} ${formatUnit(measurements.unit)} is ${quantity} ${formatUnit(unit)}`
+      : `Measured ${quantity} ${formatUnit(unit)}`);
+  }
+
+  if (rule.base_price) {
+    lines.push({ category: 'labour', description: `${label} - base price`, quantity: 1, unitPrice: rule.base_price });
+    explanation.push(`Base price ${rule.base_price.toFixed(2)}`);
+  }
+
+  const tiers = (rule.tiers || [])
+    .filter(tier => tier.price_per_unit > 0)
+    .sort((a, b) => (a.up_to ?? Infinity) - (b.up_to ?? Infinity));
+
+  if (quantity && tiers.length > 0) {
+    // Graduated bands: each band of the quantity is priced at its own rate
+    let bandStart = 0;
+    for (const tier of tiers) {
+      const bandEnd = tier.up_to ?? Infinity;
+      const bandQuantity = round(Math.min(quantity, bandEnd) - bandStart);
+      if (bandQuantity > 0) {
+        const range = tier.up_to != null ? `${bandStart}-${tier.up_to}` : `over ${bandStart}`;
+        lines.push({
+          category: 'labour',
+          description: `${label} - ${range} ${formatUnit(unit)}`,
+          quantity: bandQuantity,
+          unit,
+          unitPrice: tier.price_per_unit,
+        });
+        explanation.push(`${bandQuantity} ${formatUnit(unit)} at ${tier.price_per_unit.toFixed(2)} (${range} band)`);
+      }
+      bandStart = bandEnd;
+      if (bandStart >= quantity) break;
+    }
+  } else if (quantity && rule.price_per_unit) {
+    lines.push({
+      category: 'labour',
+      description: `${label} - per ${formatUnit(unit)}`,
+      quantity,
+      unit,
+      unitPrice: rule.price_per_unit,
+    });
+    explanation.push(`${quantity} ${formatUnit(unit)} at ${rule.price_per_unit.toFixed(2)}`);
+  } else if (!quantity && (rule.price_per_unit || tiers.length > 0)) {
+    explanation.push(`No measurement in ${formatUnit(unit)}, so only the base price applies`);
+  }
+
+  const labourSubtotal = round(lines.reduce((sum, line) => sum + line.quantity * line.unitPrice, 0));
+
+  const complexity = measurements.complexity || 'standard';
+  const complexityMultiplier = rule.complexity_multipliers?.[complexity] ?? DEFAULT_COMPLEXITY_MULTIPLIERS[complexity];
+  const complexityAdjustment = round(labourSubtotal * (complexityMultiplier - 1));
+  if (complexityAdjustment !== 0) {
+    lines.push({
+      category: 'labour',
+      description: `${complexity.charAt(0).toUpperCase()}${complexity.slice(1)} complexity (x${complexityMultiplier})`,
+      quantity: 1,
+      unitPrice: complexityAdjustment,
+    });
+    explanation.push(`${complexity} complexity: x${complexityMultiplier} on ${labourSubtotal.toFixed(2)} labour`);
+  }
+
+  const region = findRegionalMultiplier(measurements.postcode, regions);
+  const regionalMultiplier = region ? Number(region.multiplier) : 1;
+  const regionalAdjustment = round((labourSubtotal + complexityAdjustment) * (regionalMultiplier - 1));
+  if (region && regionalAdjustment !== 0) {
+    const regionLabel = region.label ? `${region.postcode_prefix} ${region.label}` : region.postcode_prefix;
+    lines.push({
+      category: 'labour',
+      description: `Regional rate ${regionLabel} (x${regionalMultiplier})`,
+      quantity: 1,
+      unitPrice: regionalAdjustment,
+    });
+    explanation.push(`Postcode ${measurements.postcode} is in ${regionLabel}: x${regionalMultiplier}`);
+  }
+
+  const labourTotal = round(labourSubtotal + complexityAdjustment + regionalAdjustment);
+  const minimumCharge = Number(rule.minimum_charge || 0);
+  const minimumApplied = labourTotal > 0 && minimumCharge > labourTotal;
+  if (minimumApplied) {
+    lines.push({
+      category: 'labour',
+      description: `Minimum charge for ${label}`,
+      quantity: 1,
+      unitPrice: round(minimumCharge - labourTotal),
+    });
+    explanation.push(`Below the ${minimumCharge.toFixed(2)} minimum charge, topped up by ${(minimumCharge - labourTotal).toFixed(2)}`);
+  }
+
+  const materialsCost = Number(measurements.materials_cost || 0);
+  if (materialsCost > 0) {
+    const markup = Number(rule.material_markup_percentage || 0);
+    const materialsPrice = round(materialsCost * (1 + markup / 100));
+    lines.push({
+      category: 'materials',
+      description: markup > 0 ? `Materials (${materialsCost.toFixed(2)} plus ${markup}% markup)` : 'Materials',
+      quantity: 1,
+      unitPrice: materialsPrice,
+    });
+    explanation.push(`Materials ${materialsCost.toFixed(2)}${markup > 0 ? ` + ${markup}% markup` : ''} = ${materialsPrice.toFixed(2)}`);
+  }
+
+  const total = round(lines.reduce((sum, line) => sum + round(line.quantity * line.unitPrice), 0));
+  explanation.push(`Total ${total.toFixed(2)} before VAT`);
+
+  return {
+    lines,
+    explanation,
+    quantity,
+    complexityMultiplier,
+    regionalMultiplier,
+    region: region?.postcode_prefix || null,
+    minimumApplied,
+    total,
+  };
+};
+
+// Measurements saved on a lead or quote request; older quote requests only have a size in form_data
+export const readMeasurements = (value: unknown, formData?: unknown): ProjectMeasurements => {
+  const measurements = (value && typeof value === 'object' ? value : {}) as Record<string, unknown>;
+  const form = (formData && typeof formData === 'object' ? formData : {}) as Record<string, unknown>;
+  const toNumber = (input: unknown) => {
+    const parsed = typeof input === 'string' ? parseFloat(input) : input;
+    return typeof parsed === 'number' && parsed > 0 ? parsed : undefined;
+  };
+
+  return {
+    quantity: toNumber(measurements.quantity) ?? toNumber(form.quantity ?? form.area ?? form.size),
+    unit: typeof measurements.unit === 'string' ? measurements.unit : undefined,
+    postcode: typeof measurements.postcode === 'string' ? measurements.postcode : undefined,
+    complexity: COMPLEXITY_LEVELS.some(level => level.value === measurements.complexity)
+      ? measurements.complexity as Complexity
+      : undefined,
+    materials_cost: toNumber(measurements.materials_cost),
+  };
+};
@@ -0,0 +1,309 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { readProviderSecret } from "../credential-vault/crypto.ts";
+import { logAnalyticsEvent } from "../payment-status-tracker/invoice-status.ts";
+import { checkSharedRateLimit } from "../integration-job-worker/provider-client.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Refunds Stripe payments recorded in an invoice's payments ledger.
+ *
+ * Each refund is written to invoice_payments as pending before Stripe is called
+ * (its id doubles as the Stripe idempotency key), so the charge.refunded webhook
+ * never records it a second time. Larger refunds are split across the invoice's
+ * Stripe payments, newest first. Manual (non-Stripe) refunds are recorded by the
+ * client directly.
+ */
+interface RefundRequest {
+  invoiceId: string;
+  amount: number;
+  reason?: string;
+  stripeReason?: 'requested_by_customer' | 'duplicate' | 'fraudulent';
+}
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [INVOICE-REFUND] ${step}${detailsStr}`);
+};
+
+// Retry mechanism with exponential backoff
+const retryWithBackoff = async <T>(
+  fn: () => Promise<T>,
+  maxRetries: number = 3,
+  baseDelay: number = 1000
+): Promise<T> => {
+  let lastError: Error;
+
+  for (let attempt = 1; attempt <= maxRetries; attempt++) {
+    try {
+      return await fn();
+    } catch (error) {
+      lastError = error as Error;
+      logStep(`Attempt ${attempt} failed`, { error: error.message });
+
+      if (attempt === maxRetries) break;
+
+      const delay = baseDelay * Math.pow(2, attempt - 1);
+      logStep(`Retrying in ${delay}ms...`);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  throw lastError!;
+};
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Amount still refundable on each Stripe PaymentIntent, newest payment first
+const getRefundablePayments = async (supabase: any, invoiceId: string) => {
+  const { data: entries, error } = await supabase
+    .from('invoice_payments')
+    .select('entry_type, amount, stripe_payment_intent_id, recorded_at')
+    .eq('invoice_id', invoiceId)
+    .eq('method', 'stripe')
+    .neq('status', 'failed')
+    .not('stripe_payment_intent_id', 'is', null)
+    .order('recorded_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load payments: ${error.message}`);
+  }
+
+  const refundable = new Map<string, number>();
+  for (const entry of entries || []) {
+    const sign = entry.entry_type === 'payment' ? 1 : entry.entry_type === 'refund' ? -1 : 0;
+    refundable.set(
+      entry.stripe_payment_intent_id,
+      roundCurrency((refundable.get(entry.stripe_payment_intent_id) || 0) + sign * Number(entry.amount))
+    );
+  }
+
+  return [...refundable.entries()]
+    .filter(([, amount]) => amount > 0)
+    .map(([paymentIntentId, amount]) => ({ paymentIntentId, amount }));
+};
+
+const createStripeRefund = async (
+  apiKey: string,
+  entry: { id: string; invoice_id: string; amount: number; stripe_payment_intent_id: string },
+  stripeReason?: string
+) => {
+  const response = await fetch('https://api.stripe.com/v1/refunds', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      // Retries of the same ledger entry never refund twice
+      'Idempotency-Key': `invoice-refund-${entry.id}`,
+    },
+    body: new URLSearchParams({
+      payment_intent: entry.stripe_payment_intent_id,
+      amount: Math.round(Number(entry.amount) * 100).toString(),
+      'metadata[invoice_id]': entry.invoice_id,
+      'metadata[ledger_entry_id]': entry.id,
+      ...(stripeReason ? { reason: stripeReason } : {}),
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Stripe API error: ${error}`);
+  }
+
+  return await response.json();
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    logStep("Refund request started");
+
+    // Initialize Supabase client with service role key for full access
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    // Authenticate user
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+
+    const token = authHeader.replace("Bearer ", "");
+    const { data: userData, error: userError } = await supabase.auth.getUser(token);
+    if (userError || !userData.user) {
+      throw new Error("User not authenticated");
+    }
+
+    const user = userData.user;
+    const { invoiceId, amount, reason, stripeReason }: RefundRequest = await req.json();
+    const requested = roundCurrency(Number(amount));
+
+    if (!invoiceId || !(requested > 0)) {
+      throw new Error("invoiceId and a positive amount are required");
+    }
+
+    logStep("Request parsed", { invoiceId, amount: requested });
+
+    const { data: invoice, error: invoiceError } = await supabase
+      .from('construyo_invoices')
+      .select('id, user_id, invoice_number, currency, status')
+      .eq('id', invoiceId)
+      .eq('user_id', user.id)
+      .single();
+
+    if (invoiceError || !invoice) {
+      throw new Error(`Invoice not found: ${invoiceError?.message || 'Invalid invoice ID'}`);
+    }
+
+    const payments = await getRefundablePayments(supabase, invoice.id);
+    const refundable = roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0));
+    if (requested > refundable) {
+      throw new Error(`Only ${refundable.toFixed(2)} ${invoice.currency} was paid through Stripe and can be refunded`);
+    }
+
+    const { data: providerSettings } = await supabase
+      .from('payment_provider_settings')
+      .select('*')
+      .eq('user_id', user.id)
+      .eq('provider_type', 'stripe')
+      .single();
+
+    if (!providerSettings?.encrypted_credentials) {
+      throw new Error("Stripe payment provider not configured");
+    }
+
+    const apiKey = await readProviderSecret(
+      supabase,
+      providerSettings,
+      'encrypted_credentials',
+      req.headers.get("user-agent")
+    );
+
+    const refunds = [];
+    let remaining = requested;
+
+    for (const payment of payments) {
+      if (remaining <= 0) break;
+      const portion = roundCurrency(Math.min(remaining, payment.amount));
+
+      const { data: entry, error: entryError } = await supabase
+        .from('invoice_payments')
+        .insert({
+          invoice_id: invoice.id,
+          user_id: user.id,
+          entry_type: 'refund',
+          amount: portion,
+          currency: invoice.currency,
+          method: 'stripe',
+          status: 'pending',
+          reason: reason || null,
+          stripe_payment_intent_id: payment.paymentIntentId,
+        })
+        .select('*')
+        .single();
+
+      if (entryError) {
+        throw new Error(`Failed to record refund: ${entryError.message}`);
+      }
+
+      try {
+        const refund = await retryWithBackoff(async () => {
+          await checkSharedRateLimit(supabase, user.id, 'stripe');
+          return await createStripeRefund(apiKey, entry, stripeReason);
+        });
+
+        const status = refund.status === 'succeeded' ? 'succeeded'
+          : ['failed', 'canceled'].includes(refund.status) ? 'failed'
+          : 'pending';
+
+        await supabase
+          .from('invoice_payments')
+          .update({
+            status,
+            stripe_refund_id: refund.id,
+            stripe_charge_id: refund.charge,
+            error_message: status === 'failed' ? refund.failure_reason || refund.status : null,
+          })
+          .eq('id', entry.id);
+
+        logStep("Stripe refund created", { refundId: refund.id, amount: portion, status });
+        refunds.push({ id: entry.id, stripeRefundId: refund.id, amount: portion, status });
+      } catch (error) {
+        await supabase
+          .from('invoice_payments')
+          .update({ status: 'failed', error_message: error.message })
+          .eq('id', entry.id);
+        throw error;
+      }
+
+      remaining = roundCurrency(remaining - portion);
+    }
+
+    await logAnalyticsEvent(supabase, user.id, invoice.id, 'refund_issued', {
+      amount: requested,
+      currency: invoice.currency,
+      refund_count: refunds.length,
+      reason: reason || null,
+    });
+
+    const { data: updated } = await supabase
+      .from('construyo_invoices')
+      .select('status, balance_due, amount_refunded')
+      .eq('id', invoice.id)
+      .single();
+
+    return new Response(
+      JSON.stringify({
+        success: true,
+        refunds,
+        invoiceStatus: updated?.status,
+        balanceDue: updated?.balance_due,
+        amountRefunded: updated?.amount_refunded,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in invoice refund", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALL:
+
+const refundInvoice = async (invoiceId: string, amount: number) => {
+  const { data, error } = await supabase.functions.invoke('invoice-refund', {
+    body: { invoiceId, amount, reason: 'Snagging works not completed', stripeReason: 'requested_by_customer' }
+  });
+
+  if (error) throw error;
+  console.log('Invoice is now', data.invoiceStatus, 'with', data.balanceDue, 'outstanding');
+};
+*/
@@ -0,0 +1,338 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { DEFAULT_SCORING_SETTINGS, LeadSignals, ScoringSettings, scoreLead } from "./scoring.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+/*
+ * Lead scoring.
+ *
+ * - Called on a schedule (every few minutes) with the service role key and
+ *   no body: rescores leads queued in lead_score_queue by lead and
+ *   engagement triggers, then leads last scored over a day ago so recency
+ *   keeps decaying.
+ * - Called by the client with { leadId } to rescore one lead, or
+ *   { action: 'recalculate' } to rescore all of the user's leads after
+ *   changing the scoring settings.
+ */
+interface ScoringRequest {
+  action?: 'recalculate';
+  leadId?: string;
+  limit?: number;
+}
+
+const POSTCODE_API = 'https://api.postcodes.io';
+const RESCORE_AFTER_MS = 24 * 60 * 60 * 1000;
+const RECALCULATE_LIMIT = 2000;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [LEAD-SCORING] ${step}${detailsStr}`);
+};
+
+const normalizePostcode = (postcode: string | null) =>
+  postcode ? postcode.toUpperCase().replace(/\s+/g, '') : null;
+
+/**
+ * Latitude and longitude of a UK postcode, falling back to its outward code
+ * (e.g. 'SW1A') when the full postcode isn't recognised. Null when neither is.
+ */
+const geocodePostcode = async (postcode: string): Promise<{ latitude: number; longitude: number } | null> => {
+  const outcode = postcode.length > 3 ? postcode.slice(0, -3) : postcode;
+  for (const path of [`/postcodes/${encodeURIComponent(postcode)}`, `/outcodes/${encodeURIComponent(outcode)}`]) {
+    try {
+      const response = await fetch(`${POSTCODE_API}${path}`, { signal: AbortSignal.timeout(5000) });
+      if (!response.ok) continue;
+      const { result } = await response.json();
+      if (result?.latitude != null && result?.longitude != null) {
+        return { latitude: result.latitude, longitude: result.longitude };
+      }
+    } catch (error) {
+      logStep("Postcode lookup failed", { postcode, error: error.message });
+      return null;
+    }
+  }
+  return null;
+};
+
+/**
+ * The user's scoring settings merged over the defaults. Geocodes the base
+ * postcode the first time it's seen.
+ */
+const loadSettings = async (supabase: any, userId: string): Promise<ScoringSettings> => {
+  const { data: row } = await supabase
+    .from('lead_scoring_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (!row) return DEFAULT_SCORING_SETTINGS;
+
+  let baseLatitude = row.base_latitude != null ? Number(row.base_latitude) : null;
+  let baseLongitude = row.base_longitude != null ? Number(row.base_longitude) : null;
+  const basePostcode = normalizePostcode(row.base_postcode);
+
+  if (basePostcode && baseLatitude == null) {
+    const location = await geocodePostcode(basePostcode);
+    if (location) {
+      baseLatitude = location.latitude;
+      baseLongitude = location.longitude;
+      await supabase
+        .from('lead_scoring_settings')
+        .update({ base_latitude: baseLatitude, base_longitude: baseLongitude })
+        .eq('id', row.id);
+    }
+  }
+
+  return {
+    base_latitude: baseLatitude,
+    base_longitude: baseLongitude,
+    weights: { ...DEFAULT_SCORING_SETTINGS.weights, ...(row.weights || {}) },
+    budget_target: Number(row.budget_target) || DEFAULT_SCORING_SETTINGS.budget_target,
+    project_type_scores: row.project_type_scores || {},
+    lead_source_scores: row.lead_source_scores || {},
+    max_distance_km: Number(row.max_distance_km) || DEFAULT_SCORING_SETTINGS.max_distance_km,
+    engagement_points: { ...DEFAULT_SCORING_SETTINGS.engagement_points, ...(row.engagement_points || {}) },
+    recency_half_life_days: row.recency_half_life_days || DEFAULT_SCORING_SETTINGS.recency_half_life_days,
+    high_threshold: row.high_threshold,
+    medium_threshold: row.medium_threshold,
+    auto_priority: row.auto_priority,
+  };
+};
+
+// Count of an engagement signal and when it last happened
+const countSignal = async (query: any) => {
+  const { data, count } = await query.order('created_at', { ascending: false }).limit(1);
+  return { count: count || 0, latest: data?.[0]?.created_at ? new Date(data[0].created_at) : null };
+};
+
+const scoreOneLead = async (supabase: any, lead: any, settings: ScoringSettings) => {
+  // Geocode when the postcode is new or has changed since the last lookup
+  const postcode = normalizePostcode(lead.postal_code);
+  let latitude = lead.latitude != null ? Number(lead.latitude) : null;
+  let longitude = lead.longitude != null ? Number(lead.longitude) : null;
+  const geocodeUpdate: Record<string, unknown> = {};
+  if (postcode !== lead.geocoded_postcode) {
+    const location = postcode ? await geocodePostcode(postcode) : null;
+    latitude = location?.latitude ?? null;
+    longitude = location?.longitude ?? null;
+    Object.assign(geocodeUpdate, { geocoded_postcode: postcode, latitude, longitude });
+  }
+
+  const [opens, visits, clicks] = await Promise.all([
+    countSignal(
+      supabase
+        .from('message_delivery_logs')
+        .select('created_at', { count: 'exact' })
+        .eq('lead_id', lead.id)
+        .not('opened_at', 'is', null)
+    ),
+    countSignal(
+      supabase
+        .from('microsite_analytics')
+        .select('created_at', { count: 'exact' })
+        .eq('lead_id', lead.id)
+        .eq('event_type', 'page_view')
+    ),
+    countSignal(
+      supabase
+        .from('booking_link_analytics')
+        .select('created_at', { count: 'exact' })
+        .eq('lead_id', lead.id)
+        .in('event_type', ['link_clicked', 'appointment_booked'])
+    ),
+  ]);
+
+  const activity = [lead.created_at, lead.last_contact_date, opens.latest, visits.latest, clicks.latest]
+    .filter(Boolean)
+    .map(value => new Date(value).getTime());
+
+  const signals: LeadSignals = {
+    budgetMin: lead.estimated_budget_min != null ? Number(lead.estimated_budget_min) : null,
+    budgetMax: lead.estimated_budget_max != null ? Number(lead.estimated_budget_max) : null,
+    projectType: lead.project_type,
+    leadSource: lead.lead_source,
+    latitude,
+    longitude,
+    emailOpens: opens.count,
+    micrositeVisits: visits.count,
+    bookingClicks: clicks.count,
+    lastActivityAt: new Date(Math.max(...activity)),
+  };
+
+  const result = scoreLead(signals, settings);
+
+  const { error } = await supabase
+    .from('leads')
+    .update({
+      ...geocodeUpdate,
+      score: result.score,
+      score_breakdown: result.breakdown,
+      scored_at: new Date().toISOString(),
+      ...(settings.auto_priority ? { priority: result.priority } : {}),
+    })
+    .eq('id', lead.id);
+
+  if (error) {
+    throw new Error(`Failed to save score: ${error.message}`);
+  }
+
+  return { leadId: lead.id, score: result.score, priority: result.priority };
+};
+
+/**
+ * Score a batch of leads, loading each owner's settings once. Leads that
+ * fail are put back on the queue for the next run.
+ */
+const scoreLeads = async (supabase: any, leads: any[]) => {
+  const settingsByUser = new Map<string, ScoringSettings>();
+  const results = [];
+
+  for (const lead of leads) {
+    try {
+      if (!settingsByUser.has(lead.created_by)) {
+        settingsByUser.set(lead.created_by, await loadSettings(supabase, lead.created_by));
+      }
+      results.push(await scoreOneLead(supabase, lead, settingsByUser.get(lead.created_by)!));
+    } catch (error) {
+      logStep("Lead scoring failed", { leadId: lead.id, error: error.message });
+      await supabase.rpc('queue_lead_score', { p_lead_id: lead.id, p_reason: 'retry' });
+      results.push({ leadId: lead.id, error: error.message });
+    }
+  }
+
+  return results;
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const serviceRoleKey = Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "";
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      serviceRoleKey,
+      { auth: { persistSession: false } }
+    );
+
+    const authHeader = req.headers.get("Authorization");
+    if (!authHeader) {
+      throw new Error("No authorization header provided");
+    }
+    const token = authHeader.replace("Bearer ", "");
+
+    const body: ScoringRequest = await req.json().catch(() => ({}));
+
+    if (token !== serviceRoleKey) {
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+      const userId = userData.user.id;
+
+      let query = supabase.from('leads').select('*').eq('created_by', userId);
+      if (body.leadId) {
+        query = query.eq('id', body.leadId);
+      } else if (body.action === 'recalculate') {
+        query = query.is('archived_at', null).limit(RECALCULATE_LIMIT);
+      } else {
+        throw new Error("leadId or action 'recalculate' is required");
+      }
+
+      const { data: leads, error: leadsError } = await query;
+      if (leadsError) {
+        throw new Error(`Failed to load leads: ${leadsError.message}`);
+      }
+      if (body.leadId && !leads?.length) {
+        throw new Error("Lead not found");
+      }
+
+      const results = await scoreLeads(supabase, leads || []);
+      logStep("Scored leads for user", { userId, count: results.length });
+
+      return new Response(
+        JSON.stringify({ success: true, scored: results.length, results }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
+    logStep("Scheduled run started");
+    const limit = Math.min(Math.max(body.limit ?? 100, 1), 500);
+
+    const { data: claimed, error: claimError } = await supabase.rpc('claim_lead_scores', { p_limit: limit });
+    if (claimError) {
+      throw new Error(`Failed to claim queued leads: ${claimError.message}`);
+    }
+
+    const queuedIds = (claimed || []) as string[];
+    const { data: queuedLeads } = queuedIds.length
+      ? await supabase.from('leads').select('*').in('id', queuedIds)
+      : { data: [] };
+
+    // Recency decays with time alone, so stale scores are refreshed daily
+    const { data: staleLeads } = await supabase
+      .from('leads')
+      .select('*')
+      .is('archived_at', null)
+      .not('status', 'in', '(won,lost)')
+      .or(`scored_at.is.null,scored_at.lt.${new Date(Date.now() - RESCORE_AFTER_MS).toISOString()}`)
+      .order('scored_at', { ascending: true, nullsFirst: true })
+      .limit(limit);
+
+    const leads = [...(queuedLeads || []), ...(staleLeads || []).filter((lead: any) => !queuedIds.includes(lead.id))];
+    const results = await scoreLeads(supabase, leads);
+
+    logStep("Scheduled run completed", { queued: queuedIds.length, stale: leads.length - queuedIds.length });
+
+    return new Response(
+      JSON.stringify({ success: true, scored: results.length, results }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR in lead scoring", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALLS
+
+// Scheduled run with the service role key
+POST /functions/v1/lead-scoring
+Authorization: Bearer <service role key>
+{}
+
+// Rescore one lead
+const { data } = await supabase.functions.invoke('lead-scoring', {
+  body: { leadId: 'lead-uuid' }
+});
+// data.results[0] = { leadId, score: 72, priority: 'high' }
+
+// Rescore every lead after changing the settings
+await supabase.functions.invoke('lead-scoring', { body: { action: 'recalculate' } });
+*/
@@ -0,0 +1,196 @@
+/*
+ * Lead scoring model: turns a lead's signals into a 0-100 score with a
+ * per-factor explanation. Pure, so every caller scores a lead the same way.
+ */
+
+export type ScoreFactor = 'budget' | 'project_type' | 'lead_source' | 'distance' | 'engagement' | 'recency';
+
+export interface ScoringSettings {
+  base_latitude: number | null;
+  base_longitude: number | null;
+  weights: Record<ScoreFactor, number>;
+  budget_target: number;
+  project_type_scores: Record<string, number>;
+  lead_source_scores: Record<string, number>;
+  max_distance_km: number;
+  engagement_points: { email_open: number; microsite_visit: number; booking_click: number };
+  recency_half_life_days: number;
+  high_threshold: number;
+  medium_threshold: number;
+  // Keep leads.priority in step with the score
+  auto_priority: boolean;
+}
+
+export interface LeadSignals {
+  budgetMin: number | null;
+  budgetMax: number | null;
+  projectType: string | null;
+  leadSource: string | null;
+  latitude: number | null;
+  longitude: number | null;
+  emailOpens: number;
+  micrositeVisits: number;
+  bookingClicks: number;
+  lastActivityAt: Date;
+}
+
+export interface FactorScore {
+  factor: ScoreFactor;
+  label: string;
+  points: number;
+  max: number;
+  detail: string;
+}
+
+export interface LeadScore {
+  score: number;
+  priority: 'high' | 'medium' | 'low';
+  breakdown: FactorScore[];
+}
+
+export const DEFAULT_SCORING_SETTINGS: ScoringSettings = {
+  base_latitude: null,
+  base_longitude: null,
+  weights: { budget: 25, project_type: 15, lead_source: 15, distance: 15, engagement: 20, recency: 10 },
+  budget_target: 50000,
+  project_type_scores: {},
+  lead_source_scores: {},
+  max_distance_km: 50,
+  engagement_points: { email_open: 2, microsite_visit: 1, booking_click: 5 },
+  recency_half_life_days: 14,
+  high_threshold: 70,
+  medium_threshold: 40,
+  auto_priority: true,
+};
+
+// Share of a factor's points when there is nothing to judge it on
+const UNKNOWN_SHARE = 0.5;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+const EARTH_RADIUS_KM = 6371;
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+export const distanceKm = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
+  const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a = Math.sin(dLat / 2) ** 2 + Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) ** 2;
+  return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(a));
+};
+
+/**
+ * Share (0-1) configured for a value. Keys match case-insensitively anywhere
+ * in the value, so 'kitchen' covers 'Kitchen refit' and 'catalogue' covers
+ * 'Catalogue: Loft conversion'; the longest matching key wins.
+ */
+const lookupShare = (scores: Record<string, number>, value: string | null) => {
+  if (!value) return null;
+  const text = value.toLowerCase();
+  const match = Object.keys(scores)
+    .filter(key => key.trim() && text.includes(key.trim().toLowerCase()))
+    .sort((a, b) => b.length - a.length)[0];
+  return match === undefined ? null : { key: match, share: Math.min(Math.max(Number(scores[match]) || 0, 0), 1) };
+};
+
+const scoreBudget = (signals: LeadSignals, settings: ScoringSettings) => {
+  const budget = signals.budgetMax ?? signals.budgetMin;
+  if (budget == null || budget <= 0) {
+    return { share: 0, detail: 'No budget given' };
+  }
+  return {
+    share: Math.min(budget / settings.budget_target, 1),
+    detail: `Budget ${budget.toLocaleString('en-GB')} against a target of ${settings.budget_target.toLocaleString('en-GB')}`,
+  };
+};
+
+const scoreMapped = (scores: Record<string, number>, value: string | null, label: string) => {
+  if (!value) return { share: 0, detail: `No ${label}` };
+  const match = lookupShare(scores, value);
+  return match
+    ? { share: match.share, detail: `"${value}" matches "${match.key}"` }
+    : { share: UNKNOWN_SHARE, detail: `"${value}" has no configured score` };
+};
+
+const scoreDistance = (signals: LeadSignals, settings: ScoringSettings) => {
+  if (settings.base_latitude == null || settings.base_longitude == null) {
+    return { share: UNKNOWN_SHARE, detail: 'No base postcode set' };
+  }
+  if (signals.latitude == null || signals.longitude == null) {
+    return { share: UNKNOWN_SHARE, detail: 'Lead postcode unknown' };
+  }
+  const km = distanceKm(settings.base_latitude, settings.base_longitude, signals.latitude, signals.longitude);
+  return {
+    share: Math.max(0, 1 - km / settings.max_distance_km),
+    detail: `${round1(km)} km away (no points beyond ${settings.max_distance_km} km)`,
+  };
+};
+
+const scoreEngagement = (signals: LeadSignals, settings: ScoringSettings, max: number) => {
+  const points = settings.engagement_points;
+  const raw = signals.emailOpens * points.email_open +
+    signals.micrositeVisits * points.microsite_visit +
+    signals.bookingClicks * points.booking_click;
+  const parts = [
+    `${signals.emailOpens} email open${signals.emailOpens === 1 ? '' : 's'}`,
+    `${signals.micrositeVisits} microsite visit${signals.micrositeVisits === 1 ? '' : 's'}`,
+    `${signals.bookingClicks} booking link click${signals.bookingClicks === 1 ? '' : 's'}`,
+  ];
+  return { share: max > 0 ? Math.min(raw / max, 1) : 0, detail: parts.join(', ') };
+};
+
+const scoreRecency = (signals: LeadSignals, settings: ScoringSettings, now: Date) => {
+  const days = Math.max(0, (now.getTime() - signals.lastActivityAt.getTime()) / MS_PER_DAY);
+  return {
+    // Halves every recency_half_life_days without activity
+    share: Math.pow(0.5, days / settings.recency_half_life_days),
+    detail: days < 1 ? 'Active today' : `Last activity ${Math.floor(days)} day${Math.floor(days) === 1 ? '' : 's'} ago`,
+  };
+};
+
+const FACTOR_LABELS: Record<ScoreFactor, string> = {
+  budget: 'Budget',
+  project_type: 'Project type',
+  lead_source: 'Lead source',
+  distance: 'Distance',
+  engagement: 'Engagement',
+  recency: 'Recency',
+};
+
+/**
+ * Score a lead. Each factor earns up to its weight in points; the score is
+ * the total as a percentage of all weights, so weights needn't sum to 100.
+ */
+export const scoreLead = (signals: LeadSignals, settings: ScoringSettings, now: Date = new Date()): LeadScore => {
+  const weights = { ...DEFAULT_SCORING_SETTINGS.weights, ...settings.weights };
+
+  const shares: Record<ScoreFactor, { share: number; detail: string }> = {
+    budget: scoreBudget(signals, settings),
+    project_type: scoreMapped(settings.project_type_scores, signals.projectType, 'project type'),
+    lead_source: scoreMapped(settings.lead_source_scores, signals.leadSource, 'lead source'),
+    distance: scoreDistance(signals, settings),
+    engagement: scoreEngagement(signals, settings, weights.engagement),
+    recency: scoreRecency(signals, settings, now),
+  };
+
+  const breakdown: FactorScore[] = (Object.keys(FACTOR_LABELS) as ScoreFactor[]).map(factor => {
+    const max = Math.max(Number(weights[factor]) || 0, 0);
+    return {
+      factor,
+      label: FACTOR_LABELS[factor],
+      points: round1(shares[factor].share * max),
+      max,
+      detail: shares[factor].detail,
+    };
+  });
+
+  const totalMax = breakdown.reduce((sum, factor) => sum + factor.max, 0);
+  const total = breakdown.reduce((sum, factor) => sum + factor.points, 0);
+  const score = totalMax > 0 ? Math.min(100, Math.round((total / totalMax) * 100)) : 0;
+
+  return {
+    score,
+    priority: score >= settings.high_threshold ? 'high' : score >= settings.medium_threshold ? 'medium' : 'low',
+    breakdown,
+  };
+};
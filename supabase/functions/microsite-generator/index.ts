@@ -1,5 +1,14 @@
 import { serve } from "https://deno.land/std@0.168.0/http/server.ts"
 import { createClient } from 'https://esm.sh/@supabase/supabase-js@2'
+import { evaluateDiscounts } from '../discount-automation/evaluator.ts'
+import { intakeLead } from '../crm-manager/lead-intake.ts'
+import {
+  DiscountCodeError,
+  clientIp,
+  describeCodeDiscount,
+  lookupDiscountCode,
+  redeemDiscountCode,
+} from '../discount-automation/codes.ts'
 
 const corsHeaders = {
   'Access-Control-Allow-Origin': '*',
@@ -31,7 +40,10 @@ const corsHeaders = {
  * 1. Create microsite: POST with action: 'create'
  * 2. Serve microsite: GET /:slug
  * 3. Handle form submissions: POST with action: 'submit'
- * 4. Track analytics: POST with action: 'track'
+ * 4. Track analytics: POST with action: 'track' (with leadId when the
+ *    visitor arrived from a link sent to a lead)
+ * 5. Redeem a promo code on a quote request: POST with action: 'redeem_code'
+ *    ({ micrositeId, email, code }, sent right after the quote request is stored)
  * 
  * Sample call for client "client789":
  * ```javascript
@@ -126,7 +138,7 @@ serve(async (req) => {
     // Serve existing microsite (GET /:slug)
     if (req.method === 'GET' && pathParts.length === 1) {
       const slug = pathParts[0];
-      return await serveMicrosite(supabase, slug);
+      return await serveMicrosite(supabase, slug, url.searchParams.get('lead'));
     }
 
     // Handle POST requests (create, submit, analytics)
@@ -141,6 +153,8 @@ serve(async (req) => {
           return await handleFormSubmission(supabase, body, req);
         case 'track':
           return await trackAnalytics(supabase, body, req);
+        case 'redeem_code':
+          return await redeemMicrositeCode(supabase, body, req);
         default:
           throw new Error('Invalid action');
       }
@@ -156,7 +170,7 @@ serve(async (req) => {
         timestamp: new Date().toISOString()
       }),
       { 
-        status: 500, 
+        status: error instanceof DiscountCodeError ? error.status : 500, 
         headers: { ...corsHeaders, 'Content-Type': 'application/json' } 
       }
     );
@@ -294,7 +308,7 @@ async function createMicrosite(supabase: any, micrositeData: MicrositeData, req:
 /**
  * Serves a microsite HTML page by slug with performance optimization
  */
-async function serveMicrosite(supabase: any, slug: string) {
+async function serveMicrosite(supabase: any, slug: string, leadId?: string | null) {
   console.log('🌐 Serving microsite:', slug);
 
   // Get microsite data
@@ -313,7 +327,7 @@ async function serveMicrosite(supabase: any, slug: string) {
   }
 
   // Track page view with enhanced analytics
-  await trackPageView(supabase, microsite.id);
+  await trackPageView(supabase, microsite.id, leadId);
 
   // Generate or retrieve cached HTML with performance optimization
   const html = microsite.microsite_data.html || await generateMicrositeHTML(microsite.microsite_data, supabase);
@@ -1094,6 +1108,8 @@ async function generateMicrositeHTML(data: any, supabase: any): Promise<string>
                     body: JSON.stringify({
                         action: 'track',
                         micrositeId: '${data.micrositeId || 'current-microsite-id'}',
+                        // Links sent to a lead carry ?lead=<id> so visits count towards its score
+                        leadId: new URLSearchParams(window.location.search).get('lead') || undefined,
                         eventType: eventType,
                         eventData: eventData
                     })
@@ -1615,37 +1631,33 @@ async function handleFormSubmission(supabase: any, submissionData: FormSubmissio
     throw new Error('Microsite not found');
   }
 
-  // Create lead in Construyo CRM with enhanced data
-  const { data: lead, error: leadError } = await supabase
-    .from('leads')
-    .insert({
-      customer_name: submissionData.formData.name || submissionData.formData.fullName,
-      email: submissionData.formData.email,
-      phone: submissionData.formData.phone,
-      project_type: submissionData.formData.projectType || 'Microsite Inquiry',
-      description: submissionData.formData.message || submissionData.formData.description,
-      source: `Microsite: ${microsite.client_name}`,
-      form_id: microsite.form_id,
-      budget_range: submissionData.formData.budget,
-      customer_id: microsite.user_id, // Associate with business owner
-      address: submissionData.formData.address,
-      timeline: submissionData.formData.timeline,
+  // Create lead in Construyo CRM for the business owner, or attach the
+  // enquiry to their existing lead for this person
+  let lead;
+  try {
+    const formData = submissionData.formData;
+    const intake = await intakeLead(supabase, microsite.user_id, 'microsite', {
+      name: formData.name || formData.fullName,
+      email: formData.email,
+      phone: formData.phone,
+      project_type: formData.projectType || 'Microsite Inquiry',
+      project_description: formData.message || formData.description,
+      lead_source: `Microsite: ${microsite.client_name}`,
+      address: formData.address,
+      postal_code: formData.postcode || formData.postalCode,
+      estimated_timeline: formData.timeline,
       priority: 'medium',
-      status: 'new',
-      notes: `Submitted via microsite: ${microsite.domain_slug}`
-    })
-    .select()
-    .single();
-
-  console.log('✅ Lead created in Construyo CRM:', lead?.id);
-
-  if (leadError) {
+      notes: `Submitted via microsite: ${microsite.domain_slug}${formData.budget ? `. Budget: ${formData.budget}` : ''}`
+    });
+    lead = intake.lead;
+    console.log(intake.attached ? '✅ Enquiry attached to existing lead:' : '✅ Lead created in Construyo CRM:', lead?.id);
+  } catch (leadError) {
     console.error('Error creating lead:', leadError);
     throw new Error('Failed to save lead');
   }
 
   // Track form submission
-  await trackFormSubmission(supabase, microsite.id, submissionData.formData);
+  await trackFormSubmission(supabase, microsite.id, submissionData.formData, lead.id);
 
   // Send to Zapier webhook for external CRM sync
   if (submissionData.zapierWebhook || microsite.microsite_data.zapierWebhook) {
@@ -1679,11 +1691,34 @@ async function handleFormSubmission(supabase: any, submissionData: FormSubmissio
   );
 }
 
+/**
+ * Lead a microsite visit can be credited to. Links sent to a lead carry its
+ * id; it is only trusted when the lead belongs to the microsite's owner.
+ */
+async function attributedLeadId(supabase: any, micrositeId: string, leadId?: string | null): Promise<string | null> {
+  if (!leadId) return null;
+
+  const { data: microsite } = await supabase
+    .from('microsites')
+    .select('user_id')
+    .eq('id', micrositeId)
+    .maybeSingle();
+  if (!microsite) return null;
+
+  const { data: lead } = await supabase
+    .from('leads')
+    .select('id')
+    .eq('id', leadId)
+    .eq('created_by', microsite.user_id)
+    .maybeSingle();
+  return lead?.id ?? null;
+}
+
 /**
  * Enhanced analytics tracking with comprehensive metrics
  */
 async function trackAnalytics(supabase: any, analyticsData: any, req: Request) {
-  const { micrositeId, eventType, eventData } = analyticsData;
+  const { micrositeId, eventType, eventData, leadId } = analyticsData;
 
   console.log('📊 Tracking analytics event:', eventType, 'for microsite:', micrositeId);
 
@@ -1692,6 +1727,7 @@ async function trackAnalytics(supabase: any, analyticsData: any, req: Request) {
     .from('microsite_analytics')
     .insert({
       microsite_id: micrositeId,
+      lead_id: await attributedLeadId(supabase, micrositeId, leadId),
       event_type: eventType,
       event_data: {
         ...eventData,
@@ -1721,10 +1757,110 @@ async function trackAnalytics(supabase: any, analyticsData: any, req: Request) {
   );
 }
 
+/**
+ * Promo code entered on a microsite quote form. The code is redeemed against
+ * the customer's quote request from the last hour, priced at the catalogue
+ * item's fixed price when it has one.
+ */
+async function redeemMicrositeCode(supabase: any, redemption: any, req: Request) {
+  const { micrositeId, email, code } = redemption;
+  if (!micrositeId || !email || !code) {
+    throw new DiscountCodeError('micrositeId, email and code are required');
+  }
+
+  const { data: microsite } = await supabase
+    .from('microsites')
+    .select('id, user_id')
+    .eq('id', micrositeId)
+    .eq('is_active', true)
+    .maybeSingle();
+  if (!microsite) {
+    throw new DiscountCodeError('Microsite not found', 404);
+  }
+
+  const discountCode = await lookupDiscountCode(supabase, {
+    userId: microsite.user_id,
+    target: `microsite:${microsite.id}`,
+    ip: clientIp(req),
+    code,
+    channel: 'microsite',
+  });
+
+  const since = new Date(Date.now() - 60 * 60 * 1000).toISOString();
+  const { data: quoteRequest } = await supabase
+    .from('quote_requests')
+    .select('id, customer_email, catalogue_item_id, catalogue_items(name, price, pricing_type)')
+    .eq('microsite_id', microsite.id)
+    .ilike('customer_email', email.trim().replace(/[\\%_]/g, '\\$&'))
+    .gte('created_at', since)
+    .order('created_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+  if (!quoteRequest) {
+    throw new DiscountCodeError('Submit your quote request before applying a code', 404);
+  }
+
+  const item = quoteRequest.catalogue_items;
+  const price = item?.pricing_type === 'fixed' ? Number(item.price || 0) : 0;
+  const rule = discountCode.discount_rules;
+
+  // Without a fixed price there is nothing to check amount conditions against yet;
+  // the code is recorded on the request and priced when the quote is written
+  const evaluation = evaluateDiscounts([rule], {
+    invoiceAmount: price,
+    invoiceDate: new Date(),
+    projectType: item?.name || null,
+    leadSource: 'microsite',
+    postcode: null,
+    customerTags: [],
+    referred: false,
+    previousPaidInvoices: 0,
+  }, price > 0 ? undefined : rule.id);
+  const [result] = evaluation.evaluations;
+  if (!result?.applied && price > 0) {
+    throw new DiscountCodeError(`This code doesn't apply to ${item?.name || 'this service'}: ${result?.reason || 'not eligible'}`);
+  }
+
+  await redeemDiscountCode(supabase, {
+    code: discountCode,
+    channel: 'microsite',
+    customerEmail: quoteRequest.customer_email,
+    quoteRequestId: quoteRequest.id,
+    originalAmount: price,
+    discountAmount: price > 0 ? result.discount_amount : 0,
+  });
+
+  await supabase
+    .from('microsite_analytics')
+    .insert({
+      microsite_id: microsite.id,
+      event_type: 'discount_code_redeemed',
+      event_data: {
+        code: discountCode.code,
+        rule_id: rule.id,
+        quote_request_id: quoteRequest.id,
+        timestamp: new Date().toISOString(),
+      },
+      ip_address: clientIp(req),
+      user_agent: req.headers.get('user-agent'),
+      referrer: req.headers.get('referer')
+    });
+
+  return new Response(
+    JSON.stringify({
+      success: true,
+      code: discountCode.code,
+      description: describeCodeDiscount(rule),
+      discountAmount: price > 0 ? result.discount_amount : null,
+    }),
+    { headers: { ...corsHeaders, 'Content-Type': 'application/json' } }
+  );
+}
+
 /**
  * Enhanced page view tracking with performance metrics
  */
-async function trackPageView(supabase: any, micrositeId: string) {
+async function trackPageView(supabase: any, micrositeId: string, leadId?: string | null) {
   console.log('👀 Tracking page view for microsite:', micrositeId);
   
   try {
@@ -1732,6 +1868,8 @@ async function trackPageView(supabase: any, micrositeId: string) {
       .from('microsite_analytics')
       .insert({
         microsite_id: micrositeId,
+        // Links sent to a lead carry ?lead=<id> so visits count towards its score
+        lead_id: await attributedLeadId(supabase, micrositeId, leadId),
         event_type: 'page_view',
         event_data: { 
           timestamp: new Date().toISOString(),
@@ -1762,7 +1900,7 @@ async function trackPageView(supabase: any, micrositeId: string) {
 /**
  * Enhanced form submission tracking with conversion metrics
  */
-async function trackFormSubmission(supabase: any, micrositeId: string, formData: any) {
+async function trackFormSubmission(supabase: any, micrositeId: string, formData: any, leadId?: string) {
   console.log('📝 Tracking form submission for microsite:', micrositeId);
   
   try {
@@ -1770,6 +1908,7 @@ async function trackFormSubmission(supabase: any, micrositeId: string, formData:
       .from('microsite_analytics')
       .insert({
         microsite_id: micrositeId,
+        lead_id: leadId ?? null,
         event_type: 'form_submission',
         event_data: { 
           fields: Object.keys(formData),
@@ -1,5 +1,16 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { readProviderSecret } from "../credential-vault/crypto.ts";
+import { checkSharedRateLimit } from "../integration-job-worker/provider-client.ts";
+import { evaluateDiscounts } from "../discount-automation/evaluator.ts";
+import { buildDiscountContext } from "../discount-automation/context.ts";
+import {
+  DiscountCodeError,
+  clientIp,
+  describeCodeDiscount,
+  lookupDiscountCode,
+  redeemDiscountCode,
+} from "../discount-automation/codes.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -7,12 +18,29 @@ const corsHeaders = {
 };
 
 interface PaymentLinkRequest {
-  invoiceId: string;
+  invoiceId?: string;
+  // Payment schedule stage; its invoice is generated first if needed
+  stageId?: string;
   deliveryMethod: 'email' | 'whatsapp';
   recipientContact: string;
   customMessage?: string;
+  // Origin of the app; when set, customers get the /pay/:token page instead of the bare Stripe link
+  appUrl?: string;
 }
 
+// Customer actions from the /pay/:token page; these don't need a signed-in user
+interface PaymentPageRequest {
+  action: 'view' | 'redeem_code';
+  token: string;
+  code?: string;
+}
+
+const PUBLIC_ACTIONS = ['view', 'redeem_code'];
+const CLOSED_STATUSES = ['paid', 'cancelled', 'void'];
+
+const INVOICE_BUCKET = 'invoices';
+const PDF_LINK_EXPIRY_SECONDS = 60 * 60 * 24 * 30;
+
 // Enhanced logging with timestamp and context
 const logStep = (step: string, details?: any) => {
   const timestamp = new Date().toISOString();
@@ -47,8 +75,11 @@ const retryWithBackoff = async <T>(
 };
 
 // Generate Stripe payment link
-const generateStripePaymentLink = async (invoiceData: any, apiKey: string) => {
+const generateStripePaymentLink = async (invoiceData: any, apiKey: string, stage?: any) => {
   logStep("Creating Stripe payment link");
+
+  // Part-paid or credited invoices are only charged what is still outstanding
+  const amountDue = Number(invoiceData.balance_due ?? invoiceData.amount);
   
   const response = await fetch('https://api.stripe.com/v1/payment_links', {
     method: 'POST',
@@ -59,10 +90,13 @@ const generateStripePaymentLink = async (invoiceData: any, apiKey: string) => {
     body: new URLSearchParams({
       'line_items[0][price_data][currency]': invoiceData.currency.toLowerCase(),
       'line_items[0][price_data][product_data][name]': invoiceData.project_title,
-      'line_items[0][price_data][unit_amount]': (invoiceData.amount * 100).toString(),
+      'line_items[0][price_data][unit_amount]': Math.round(amountDue * 100).toString(),
       'line_items[0][quantity]': '1',
       'metadata[invoice_id]': invoiceData.id,
       'metadata[customer_email]': invoiceData.customer_email,
+      // Lets stripe-webhook match payment_intent.* events back to the invoice
+      'payment_intent_data[metadata][invoice_id]': invoiceData.id,
+      ...(stage ? { 'metadata[payment_stage_id]': stage.id, 'metadata[payment_schedule_id]': stage.schedule_id } : {}),
       'after_completion[type]': 'redirect',
       'after_completion[redirect][url]': `${Deno.env.get("SUPABASE_URL")}/payment-success?invoice=${invoiceData.id}`,
     }),
@@ -74,7 +108,99 @@ const generateStripePaymentLink = async (invoiceData: any, apiKey: string) => {
   }
   
   const paymentLink = await response.json();
-  return paymentLink.url;
+  return { id: paymentLink.id as string, url: paymentLink.url as string };
+};
+
+// Stop a superseded payment link from taking payments
+const deactivateStripePaymentLink = async (apiKey: string, paymentLinkId: string) => {
+  const response = await fetch(`https://api.stripe.com/v1/payment_links/${paymentLinkId}`, {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${apiKey}`,
+      'Content-Type': 'application/x-www-form-urlencoded',
+    },
+    body: new URLSearchParams({ active: 'false' }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Stripe API error: ${error}`);
+  }
+};
+
+// Decrypt the user's Stripe secret key
+const getStripeApiKey = async (supabase: any, userId: string, userAgent: string | null) => {
+  const { data: providerSettings } = await supabase
+    .from('payment_provider_settings')
+    .select('*')
+    .eq('user_id', userId)
+    .eq('provider_type', 'stripe')
+    .eq('is_active', true)
+    .single();
+
+  if (!providerSettings?.encrypted_credentials) {
+    throw new Error("Stripe payment provider not configured");
+  }
+
+  return await readProviderSecret(supabase, providerSettings, 'encrypted_credentials', userAgent);
+};
+
+// Call invoice-generator on behalf of the user
+const invokeInvoiceGenerator = async (authHeader: string, body: Record<string, unknown>) => {
+  const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/invoice-generator`, {
+    method: 'POST',
+    headers: {
+      'Authorization': authHeader,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json();
+  if (!response.ok || !result.success) {
+    throw new Error(result.error || response.statusText);
+  }
+  return result;
+};
+
+// Resolve a payment stage to its invoice, invoicing the stage if it hasn't been yet
+const getStageInvoiceId = async (supabase: any, userId: string, stageId: string, authHeader: string) => {
+  const { data: stage, error } = await supabase
+    .from('payment_schedule_stages')
+    .select('*')
+    .eq('id', stageId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !stage) {
+    throw new Error(`Payment stage not found: ${error?.message || 'Invalid stage ID'}`);
+  }
+
+  if (stage.invoice_id) {
+    return { stage, invoiceId: stage.invoice_id };
+  }
+
+  logStep("Invoicing payment stage", { stageId });
+  const result = await invokeInvoiceGenerator(authHeader, { action: 'invoice_stage', stageId });
+  return { stage, invoiceId: result.invoice.id };
+};
+
+// Signed link to the invoice PDF, rendering it through invoice-generator if it hasn't been yet
+const getInvoicePdfLink = async (supabase: any, invoiceData: any, authHeader: string): Promise<string | undefined> => {
+  if (!invoiceData.pdf_path) {
+    const result = await invokeInvoiceGenerator(authHeader, { action: 'render_pdf', invoiceId: invoiceData.id });
+    invoiceData.pdf_path = result.pdf_path;
+  }
+
+  const { data, error } = await supabase.storage
+    .from(INVOICE_BUCKET)
+    .createSignedUrl(invoiceData.pdf_path, PDF_LINK_EXPIRY_SECONDS);
+
+  if (error) {
+    throw new Error(`Failed to sign invoice PDF link: ${error.message}`);
+  }
+
+  return data.signedUrl;
 };
 
 // Send via email using Resend
@@ -82,7 +208,8 @@ const sendEmailPaymentLink = async (
   recipientEmail: string,
   paymentLink: string,
   invoiceData: any,
-  customMessage?: string
+  customMessage?: string,
+  pdfLink?: string
 ) => {
   logStep("Sending payment link via email");
   
@@ -112,6 +239,8 @@ const sendEmailPaymentLink = async (
       </a>
     </p>
     
+    ${pdfLink ? `<p><a href="${pdfLink}">Download your invoice (PDF)</a></p>` : ''}
+    
     <p>If you have any questions, please don't hesitate to contact us.</p>
     <p>Best regards,<br>Your Construction Team</p>
   `;
@@ -144,7 +273,8 @@ const sendWhatsAppPaymentLink = async (
   recipientPhone: string,
   paymentLink: string,
   invoiceData: any,
-  customMessage?: string
+  customMessage?: string,
+  pdfLink?: string
 ) => {
   logStep("Sending payment link via WhatsApp");
   
@@ -166,7 +296,7 @@ ${customMessage || 'Please find your invoice payment link below:'}
 • Due Date: ${invoiceData.due_date}
 
 💳 *Pay Now:* ${paymentLink}
-
+${pdfLink ? `\n📄 *Invoice PDF:* ${pdfLink}\n` : ''}
 If you have any questions, please reply to this message.
   `.trim();
   
@@ -236,6 +366,180 @@ const logMessageDelivery = async (
   });
 };
 
+const loadInvoiceByToken = async (supabase: any, token: string) => {
+  const { data: invoice, error } = await supabase
+    .from('construyo_invoices')
+    .select('*')
+    .eq('payment_token', token)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load invoice: ${error.message}`);
+  if (!invoice) throw new Error("This payment link is invalid");
+  return invoice;
+};
+
+const loadBusinessName = async (supabase: any, userId: string) => {
+  const { data: settings } = await supabase
+    .from('business_settings')
+    .select('business_name')
+    .eq('user_id', userId)
+    .maybeSingle();
+  return settings?.business_name || 'Construyo';
+};
+
+// What the customer sees on /pay/:token
+const viewPaymentPage = async (supabase: any, token: string) => {
+  const invoice = await loadInvoiceByToken(supabase, token);
+
+  const { data: discounts } = await supabase
+    .from('discount_applications')
+    .select('discount_amount, redemption_channel, discount_rules(rule_name), discount_codes(code)')
+    .eq('invoice_id', invoice.id)
+    .order('created_at');
+
+  const balanceDue = Number(invoice.balance_due ?? invoice.amount);
+  const payable = balanceDue > 0 && !CLOSED_STATUSES.includes(invoice.status);
+
+  return {
+    business: { name: await loadBusinessName(supabase, invoice.user_id) },
+    invoice: {
+      invoice_number: invoice.invoice_number,
+      project_title: invoice.project_title,
+      customer_name: invoice.customer_name,
+      currency: invoice.currency || 'GBP',
+      amount: Number(invoice.amount),
+      balance_due: balanceDue,
+      due_date: invoice.due_date,
+      status: invoice.status,
+    },
+    discounts: (discounts || []).map((discount: any) => ({
+      name: discount.discount_rules?.rule_name,
+      code: discount.discount_codes?.code || null,
+      amount: Number(discount.discount_amount),
+    })),
+    payable,
+    paymentUrl: payable ? invoice.payment_url : null,
+  };
+};
+
+// Apply a promo code to the invoice and re-issue the Stripe link for the new balance
+const redeemPaymentPageCode = async (supabase: any, req: Request, body: PaymentPageRequest) => {
+  const invoice = await loadInvoiceByToken(supabase, body.token);
+  const balanceDue = Number(invoice.balance_due ?? invoice.amount);
+  if (balanceDue <= 0 || CLOSED_STATUSES.includes(invoice.status)) {
+    throw new DiscountCodeError("This invoice can no longer be discounted");
+  }
+  if (!invoice.customer_email) {
+    throw new DiscountCodeError("Codes can't be used on this invoice");
+  }
+
+  const code = await lookupDiscountCode(supabase, {
+    userId: invoice.user_id,
+    target: `invoice:${invoice.id}`,
+    ip: clientIp(req),
+    code: body.code || '',
+    channel: 'payment_link',
+  });
+  const rule = code.discount_rules;
+
+  // Codes stack with discounts already on the invoice under the same rules as automatic ones
+  const { data: existing } = await supabase
+    .from('discount_applications')
+    .select('discount_rules(id, stacking_group, is_exclusive)')
+    .eq('invoice_id', invoice.id);
+  const appliedRules = (existing || []).map((application: any) => application.discount_rules).filter(Boolean);
+  if (appliedRules.length > 0 && (rule.is_exclusive || appliedRules.some((applied: any) => applied.is_exclusive))) {
+    throw new DiscountCodeError("This code can't be combined with the discount already on this invoice");
+  }
+  if (rule.stacking_group && appliedRules.some((applied: any) => applied.stacking_group === rule.stacking_group)) {
+    throw new DiscountCodeError("This code can't be combined with the discount already on this invoice");
+  }
+
+  const context = await buildDiscountContext(supabase, invoice.user_id, invoice, invoice.lead_id);
+  const [evaluation] = evaluateDiscounts([rule], context).evaluations;
+  if (!evaluation?.applied) {
+    throw new DiscountCodeError(`This code doesn't apply to this invoice: ${evaluation?.reason || 'not eligible'}`);
+  }
+
+  // Loaded before redeeming, so a missing Stripe setup doesn't use up the code
+  const apiKey = await getStripeApiKey(supabase, invoice.user_id, req.headers.get("user-agent"));
+
+  // Never discount below what has already been paid
+  const discountAmount = Math.min(evaluation.discount_amount, balanceDue);
+  await redeemDiscountCode(supabase, {
+    code,
+    channel: 'payment_link',
+    customerEmail: invoice.customer_email,
+    invoiceId: invoice.id,
+    originalAmount: Number(invoice.amount),
+    discountAmount,
+  });
+
+  logStep("Discount code redeemed", { invoiceId: invoice.id, code: code.code, discountAmount });
+
+  const { data: updated } = await supabase
+    .from('construyo_invoices')
+    .select('*')
+    .eq('id', invoice.id)
+    .single();
+
+  // The existing link charges the undiscounted balance, so it is replaced even if
+  // no new link can be issued; the customer is then told to try again later
+  let paymentLink: { id: string; url: string } | null = null;
+  let paymentError: string | undefined;
+  if (Number(updated.balance_due ?? updated.amount) > 0) {
+    const { data: stage } = await supabase
+      .from('payment_schedule_stages')
+      .select('id, schedule_id')
+      .eq('invoice_id', invoice.id)
+      .maybeSingle();
+    try {
+      paymentLink = await retryWithBackoff(async () => {
+        await checkSharedRateLimit(supabase, invoice.user_id, 'stripe');
+        return await generateStripePaymentLink(updated, apiKey, stage);
+      });
+    } catch (error) {
+      logStep("Payment link re-issue failed", { invoiceId: invoice.id, error: error.message });
+      paymentError = "Your code has been applied, but online payment is unavailable right now. Please try again shortly.";
+    }
+  }
+
+  const { error: linkError } = await supabase
+    .from('construyo_invoices')
+    .update({ payment_url: paymentLink?.url ?? null, stripe_payment_link_id: paymentLink?.id ?? null })
+    .eq('id', invoice.id);
+
+  if (linkError) {
+    throw new Error(`Failed to update payment link: ${linkError.message}`);
+  }
+
+  if (invoice.stripe_payment_link_id) {
+    try {
+      await retryWithBackoff(() => deactivateStripePaymentLink(apiKey, invoice.stripe_payment_link_id));
+    } catch (error) {
+      logStep("Old payment link could not be deactivated", {
+        invoiceId: invoice.id,
+        paymentLinkId: invoice.stripe_payment_link_id,
+        error: error.message,
+      });
+    }
+  }
+
+  await logAnalyticsEvent(supabase, invoice.user_id, invoice.id, 'discount_code_redeemed', {
+    code: code.code,
+    rule_id: rule.id,
+    rule_name: rule.rule_name,
+    discount_amount: discountAmount,
+    channel: 'payment_link',
+  });
+
+  return {
+    ...(await viewPaymentPage(supabase, body.token)),
+    redeemed: { code: code.code, description: describeCodeDiscount(rule, invoice.currency || 'GBP'), amount: discountAmount },
+    paymentError,
+  };
+};
+
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
@@ -251,6 +555,27 @@ serve(async (req) => {
       { auth: { persistSession: false } }
     );
 
+    const rawBody = await req.json();
+
+    if (PUBLIC_ACTIONS.includes(rawBody.action)) {
+      const pageRequest = rawBody as PaymentPageRequest;
+      if (!pageRequest.token) {
+        throw new Error("token is required");
+      }
+
+      const result = pageRequest.action === 'view'
+        ? await viewPaymentPage(supabase, pageRequest.token)
+        : await redeemPaymentPageCode(supabase, req, pageRequest);
+
+      return new Response(
+        JSON.stringify({ success: true, ...result }),
+        {
+          headers: { ...corsHeaders, "Content-Type": "application/json" },
+          status: 200,
+        }
+      );
+    }
+
     // Authenticate user
     const authHeader = req.headers.get("Authorization");
     if (!authHeader) {
@@ -271,10 +596,20 @@ serve(async (req) => {
     logStep("User authenticated", { userId: user.id });
 
     // Parse request body
-    const body: PaymentLinkRequest = await req.json();
-    const { invoiceId, deliveryMethod, recipientContact, customMessage } = body;
+    const body = rawBody as PaymentLinkRequest;
+    const { stageId, deliveryMethod, recipientContact, customMessage } = body;
+    let { invoiceId } = body;
 
-    logStep("Request parsed", { invoiceId, deliveryMethod });
+    logStep("Request parsed", { invoiceId, stageId, deliveryMethod });
+
+    let stage = null;
+    if (stageId) {
+      ({ stage, invoiceId } = await getStageInvoiceId(supabase, user.id, stageId, authHeader));
+    }
+
+    if (!invoiceId) {
+      throw new Error("Either invoiceId or stageId must be provided");
+    }
 
     // Fetch invoice data
     const { data: invoiceData, error: invoiceError } = await supabase
@@ -290,38 +625,45 @@ serve(async (req) => {
 
     logStep("Invoice data retrieved", { invoiceId: invoiceData.id, amount: invoiceData.amount });
 
-    // Get payment provider settings (assuming Stripe for now)
-    const { data: providerSettings } = await supabase
-      .from('payment_provider_settings')
-      .select('*')
-      .eq('user_id', user.id)
-      .eq('provider_type', 'stripe')
-      .eq('is_active', true)
-      .single();
-
-    if (!providerSettings?.encrypted_credentials) {
-      throw new Error("Stripe payment provider not configured");
+    if (invoiceData.balance_due !== null && Number(invoiceData.balance_due) <= 0) {
+      throw new Error("This invoice has no outstanding balance");
     }
 
+    // Get payment provider settings (assuming Stripe for now)
+    const apiKey = await getStripeApiKey(supabase, user.id, req.headers.get("user-agent"));
+
     // Generate payment link with retry logic
-    const paymentLink = await retryWithBackoff(async () => {
-      // In production, decrypt the credentials properly
-      const apiKey = atob(providerSettings.encrypted_credentials); // Simple decode for demo
-      return await generateStripePaymentLink(invoiceData, apiKey);
+    const stripeLink = await retryWithBackoff(async () => {
+      await checkSharedRateLimit(supabase, user.id, 'stripe');
+      return await generateStripePaymentLink(invoiceData, apiKey, stage);
     });
+    const paymentLink = stripeLink.url;
 
     logStep("Payment link generated", { paymentLink });
 
+    // Customers get the payment page, where they can enter a promo code before paying
+    const sharedLink = body.appUrl && invoiceData.payment_token
+      ? `${body.appUrl.replace(/\/$/, '')}/pay/${invoiceData.payment_token}`
+      : paymentLink;
+
+    // The payment request still goes out if the PDF can't be produced
+    let pdfLink: string | undefined;
+    try {
+      pdfLink = await getInvoicePdfLink(supabase, invoiceData, authHeader);
+    } catch (error) {
+      logStep("Invoice PDF link unavailable", { error: error.message });
+    }
+
     // Send payment link based on delivery method with retry logic
     let deliveryResult: string | undefined;
-    const messageContent = `Payment link for invoice ${invoiceData.invoice_number}: ${paymentLink}`;
+    const messageContent = `Payment link for invoice ${invoiceData.invoice_number}: ${sharedLink}`;
 
     try {
       deliveryResult = await retryWithBackoff(async () => {
         if (deliveryMethod === 'email') {
-          return await sendEmailPaymentLink(recipientContact, paymentLink, invoiceData, customMessage);
+          return await sendEmailPaymentLink(recipientContact, sharedLink, invoiceData, customMessage, pdfLink);
         } else {
-          return await sendWhatsAppPaymentLink(recipientContact, paymentLink, invoiceData, customMessage);
+          return await sendWhatsAppPaymentLink(recipientContact, sharedLink, invoiceData, customMessage, pdfLink);
         }
       });
 
@@ -352,6 +694,9 @@ serve(async (req) => {
         delivery_method: deliveryMethod,
         recipient: recipientContact,
         payment_link: paymentLink,
+        payment_page_link: sharedLink !== paymentLink ? sharedLink : undefined,
+        payment_stage_id: stage?.id,
+        pdf_attached: !!pdfLink,
         delivery_successful: !!deliveryResult,
       }
     );
@@ -360,18 +705,36 @@ serve(async (req) => {
     await supabase
       .from('construyo_invoices')
       .update({ 
+        payment_url: paymentLink,
+        stripe_payment_link_id: stripeLink.id,
         notes: invoiceData.notes 
-          ? `${invoiceData.notes}\n\nPayment link shared via ${deliveryMethod}: ${paymentLink}`
-          : `Payment link shared via ${deliveryMethod}: ${paymentLink}`
+          ? `${invoiceData.notes}\n\nPayment link shared via ${deliveryMethod}: ${sharedLink}`
+          : `Payment link shared via ${deliveryMethod}: ${sharedLink}`
       })
       .eq('id', invoiceId);
 
+    // A delivered link or PDF marks a draft invoice as sent, which starts dunning and reporting
+    if (deliveryResult) {
+      const { error: sentError } = await supabase
+        .from('construyo_invoices')
+        .update({ status: 'sent', sent_date: invoiceData.sent_date || new Date().toISOString() })
+        .eq('id', invoiceId)
+        .eq('status', 'draft');
+
+      if (sentError) {
+        throw new Error(`Failed to mark invoice as sent: ${sentError.message}`);
+      }
+    }
+
     logStep("Payment link sharing completed successfully");
 
     return new Response(
       JSON.stringify({
         success: true,
         paymentLink,
+        paymentPageLink: sharedLink !== paymentLink ? sharedLink : undefined,
+        pdfLink,
+        invoiceId,
         deliveryResult,
         message: `Payment link generated and ${deliveryResult ? 'sent' : 'ready to send'} via ${deliveryMethod}`,
       }),
@@ -392,7 +755,7 @@ serve(async (req) => {
       }),
       {
         headers: { ...corsHeaders, "Content-Type": "application/json" },
-        status: 500,
+        status: error instanceof DiscountCodeError ? error.status : 500,
       }
     );
   }
@@ -424,4 +787,9 @@ const sharePaymentLink = async () => {
 
 // Call the function
 sharePaymentLink();
+
+// Pass appUrl: window.location.origin to send customers to /pay/:token, where they can enter a promo code.
+// The page calls this function without signing in:
+//   { action: 'view', token }                      -> invoice summary, discounts and the Stripe link
+//   { action: 'redeem_code', token, code: 'SPRING10' } -> applies the code and re-issues the Stripe link
 */
\ No newline at end of file
@@ -1,5 +1,6 @@
 import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
 import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import { logAnalyticsEvent, logPaymentEvent, updateInvoiceStatus } from "./invoice-status.ts";
 
 const corsHeaders = {
   "Access-Control-Allow-Origin": "*",
@@ -64,6 +65,7 @@ const checkStripePaymentStatus = async (paymentIntentId: string, apiKey: string)
   
   const paymentIntent = await response.json();
   return {
+    paymentIntentId: paymentIntent.id,
     status: paymentIntent.status,
     amount: paymentIntent.amount / 100, // Convert from cents
     currency: paymentIntent.currency.toUpperCase(),
@@ -72,90 +74,6 @@ const checkStripePaymentStatus = async (paymentIntentId: string, apiKey: string)
   };
 };
 
-// Log analytics event
-const logAnalyticsEvent = async (
-  supabase: any,
-  userId: string,
-  invoiceId: string,
-  eventType: string,
-  eventData: any = {}
-) => {
-  await supabase.from('invoice_analytics').insert({
-    user_id: userId,
-    invoice_id: invoiceId,
-    event_type: eventType,
-    event_data: eventData,
-  });
-};
-
-// Update invoice status based on payment status
-const updateInvoiceStatus = async (
-  supabase: any,
-  invoiceId: string,
-  paymentStatus: string,
-  paymentData: any
-) => {
-  let invoiceStatus = 'draft';
-  let paidDate = null;
-  
-  switch (paymentStatus) {
-    case 'succeeded':
-      invoiceStatus = 'paid';
-      paidDate = new Date().toISOString();
-      break;
-    case 'processing':
-      invoiceStatus = 'processing';
-      break;
-    case 'requires_payment_method':
-    case 'requires_confirmation':
-    case 'requires_action':
-      invoiceStatus = 'pending';
-      break;
-    case 'canceled':
-      invoiceStatus = 'cancelled';
-      break;
-    default:
-      invoiceStatus = 'pending';
-  }
-  
-  const updateData: any = { status: invoiceStatus };
-  if (paidDate) {
-    updateData.paid_date = paidDate;
-  }
-  
-  await supabase
-    .from('construyo_invoices')
-    .update(updateData)
-    .eq('id', invoiceId);
-  
-  return invoiceStatus;
-};
-
-// Handle GDPR-compliant logging (only log necessary business data)
-const logPaymentEvent = async (
-  supabase: any,
-  userId: string,
-  invoiceId: string,
-  eventType: string,
-  paymentData: any
-) => {
-  // Only log business-relevant data, not personal information
-  const gdprCompliantData = {
-    amount: paymentData.amount,
-    currency: paymentData.currency,
-    payment_status: paymentData.status,
-    timestamp: paymentData.created || new Date().toISOString(),
-  };
-  
-  await logAnalyticsEvent(
-    supabase,
-    userId,
-    invoiceId,
-    eventType,
-    gdprCompliantData
-  );
-};
-
 serve(async (req) => {
   if (req.method === "OPTIONS") {
     return new Response(null, { headers: corsHeaders });
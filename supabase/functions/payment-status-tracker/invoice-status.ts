@@ -0,0 +1,232 @@
+/*
+ * Invoice status updates shared by payment-status-tracker (polling) and
+ * stripe-webhook (push).
+ *
+ * Settled payments and refunds go into the invoice_payments ledger, whose
+ * trigger sets the invoice's balance and paid / partially_paid / refunded status.
+ */
+
+// Log analytics event
+export const logAnalyticsEvent = async (
+  supabase: any,
+  userId: string,
+  invoiceId: string,
+  eventType: string,
+  eventData: any = {}
+) => {
+  await supabase.from('invoice_analytics').insert({
+    user_id: userId,
+    invoice_id: invoiceId,
+    event_type: eventType,
+    event_data: eventData,
+  });
+};
+
+const getLedgerStatus = async (supabase: any, invoiceId: string): Promise<string> => {
+  const { data } = await supabase
+    .from('construyo_invoices')
+    .select('status')
+    .eq('id', invoiceId)
+    .single();
+  return data?.status;
+};
+
+// Record a succeeded Stripe PaymentIntent in the ledger once, however often it is reported
+export const recordStripePayment = async (
+  supabase: any,
+  invoiceId: string,
+  paymentData: { paymentIntentId: string; amount: number; currency?: string; created?: string }
+) => {
+  const { data: invoice } = await supabase
+    .from('construyo_invoices')
+    .select('user_id')
+    .eq('id', invoiceId)
+    .single();
+
+  const { error } = await supabase.from('invoice_payments').insert({
+    invoice_id: invoiceId,
+    user_id: invoice.user_id,
+    entry_type: 'payment',
+    amount: paymentData.amount,
+    currency: paymentData.currency,
+    method: 'stripe',
+    stripe_payment_intent_id: paymentData.paymentIntentId,
+    recorded_at: paymentData.created || new Date().toISOString(),
+  });
+
+  // 23505: this PaymentIntent is already in the ledger
+  if (error && error.code !== '23505') {
+    throw new Error(`Failed to record payment: ${error.message}`);
+  }
+
+  return await getLedgerStatus(supabase, invoiceId);
+};
+
+// Bring the ledger up to a charge's amount_refunded. Refunds started from the CRM are
+// already there (pending or settled), so only refunds made in the Stripe dashboard are added.
+export const recordStripeRefund = async (
+  supabase: any,
+  invoiceId: string,
+  refundData: {
+    paymentIntentId?: string;
+    chargeId: string;
+    refundId?: string;
+    amountRefunded: number;
+    currency?: string;
+    created?: string;
+  }
+) => {
+  const { data: invoice } = await supabase
+    .from('construyo_invoices')
+    .select('user_id')
+    .eq('id', invoiceId)
+    .single();
+
+  // amount_refunded is per charge, and an invoice can be paid by several
+  const chargeFilter = refundData.paymentIntentId
+    ? `stripe_charge_id.eq.${refundData.chargeId},stripe_payment_intent_id.eq.${refundData.paymentIntentId}`
+    : `stripe_charge_id.eq.${refundData.chargeId}`;
+
+  const { data: recorded } = await supabase
+    .from('invoice_payments')
+    .select('amount, stripe_refund_id')
+    .eq('invoice_id', invoiceId)
+    .eq('entry_type', 'refund')
+    .eq('method', 'stripe')
+    .neq('status', 'failed')
+    .or(chargeFilter);
+
+  const alreadyRecorded = (recorded || []).reduce((sum: number, entry: any) => sum + Number(entry.amount), 0);
+  const missing = Math.round((refundData.amountRefunded - alreadyRecorded) * 100) / 100;
+  const refundId = refundData.refundId && !(recorded || []).some((entry: any) => entry.stripe_refund_id === refundData.refundId)
+    ? refundData.refundId
+    : null;
+
+  if (missing > 0) {
+    const { error } = await supabase.from('invoice_payments').insert({
+      invoice_id: invoiceId,
+      user_id: invoice.user_id,
+      entry_type: 'refund',
+      amount: missing,
+      currency: refundData.currency,
+      method: 'stripe',
+      reason: 'Refunded in Stripe',
+      stripe_payment_intent_id: refundData.paymentIntentId ?? null,
+      stripe_charge_id: refundData.chargeId,
+      stripe_refund_id: refundId,
+      recorded_at: refundData.created || new Date().toISOString(),
+    });
+
+    if (error && error.code !== '23505') {
+      throw new Error(`Failed to record refund: ${error.message}`);
+    }
+  }
+
+  return await getLedgerStatus(supabase, invoiceId);
+};
+
+// Settle or fail a refund already in the ledger (Stripe refunds can fail after being accepted)
+export const updateStripeRefund = async (
+  supabase: any,
+  refundId: string,
+  refundStatus: string,
+  failureReason?: string
+) => {
+  const status = refundStatus === 'succeeded' ? 'succeeded'
+    : ['failed', 'canceled'].includes(refundStatus) ? 'failed'
+    : 'pending';
+
+  const { data: entry } = await supabase
+    .from('invoice_payments')
+    .update({ status, error_message: status === 'failed' ? failureReason || refundStatus : null })
+    .eq('stripe_refund_id', refundId)
+    .select('invoice_id, user_id')
+    .maybeSingle();
+
+  return entry
+    ? { invoiceId: entry.invoice_id, userId: entry.user_id, status: await getLedgerStatus(supabase, entry.invoice_id) }
+    : null;
+};
+
+// Update invoice status based on payment status
+export const updateInvoiceStatus = async (
+  supabase: any,
+  invoiceId: string,
+  paymentStatus: string,
+  paymentData: any
+) => {
+  // Succeeded payments are settled through the ledger, which also handles part payments
+  if (paymentStatus === 'succeeded' && paymentData?.paymentIntentId) {
+    return await recordStripePayment(supabase, invoiceId, paymentData);
+  }
+
+  let invoiceStatus = 'draft';
+  let paidDate = null;
+  
+  switch (paymentStatus) {
+    case 'succeeded':
+      invoiceStatus = 'paid';
+      paidDate = new Date().toISOString();
+      break;
+    case 'processing':
+      invoiceStatus = 'processing';
+      break;
+    case 'requires_payment_method':
+    case 'requires_confirmation':
+    case 'requires_action':
+      invoiceStatus = 'pending';
+      break;
+    case 'canceled':
+      invoiceStatus = 'cancelled';
+      break;
+    // Charge-level outcomes reported by stripe-webhook
+    case 'refunded':
+      invoiceStatus = 'refunded';
+      break;
+    case 'partially_refunded':
+      invoiceStatus = 'partially_refunded';
+      break;
+    case 'disputed':
+      invoiceStatus = 'disputed';
+      break;
+    default:
+      invoiceStatus = 'pending';
+  }
+  
+  const updateData: any = { status: invoiceStatus };
+  if (paidDate) {
+    updateData.paid_date = paidDate;
+  }
+  
+  await supabase
+    .from('construyo_invoices')
+    .update(updateData)
+    .eq('id', invoiceId);
+  
+  return invoiceStatus;
+};
+
+// Handle GDPR-compliant logging (only log necessary business data)
+export const logPaymentEvent = async (
+  supabase: any,
+  userId: string,
+  invoiceId: string,
+  eventType: string,
+  paymentData: any
+) => {
+  // Only log business-relevant data, not personal information
+  const gdprCompliantData = {
+    amount: paymentData.amount,
+    currency: paymentData.currency,
+    payment_status: paymentData.status,
+    timestamp: paymentData.created || new Date().toISOString(),
+  };
+  
+  await logAnalyticsEvent(
+    supabase,
+    userId,
+    invoiceId,
+    eventType,
+    gdprCompliantData
+  );
+};
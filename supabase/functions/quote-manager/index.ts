@@ -0,0 +1,445 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type",
+};
+
+interface QuoteRequest {
+  // 'send' is used by the quote's owner; 'view', 'accept' and 'decline' by the
+  // customer through the public acceptance link
+  action: 'send' | 'view' | 'accept' | 'decline';
+  quoteId?: string;
+  // Origin of the app, used to build the acceptance link in the email
+  appUrl?: string;
+  message?: string;
+  token?: string;
+  revision?: number;
+  signerName?: string;
+  // PNG data URL drawn on the acceptance page
+  signature?: string;
+  reason?: string;
+}
+
+const MAX_SIGNATURE_LENGTH = 200_000;
+const OPEN_STATUSES = ['sent', 'viewed'];
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [QUOTE-MANAGER] ${step}${detailsStr}`);
+};
+
+// The quote left the open statuses between loading it and updating it
+class QuoteConflictError extends Error {}
+
+const escapeHtml = (value: string) =>
+  value.replace(/[&<>"']/g, (char) => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+const formatAmount = (amount: number, currency: string) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency }).format(amount);
+
+const isExpired = (validUntil: string | null) =>
+  !!validUntil && validUntil < new Date().toISOString().split('T')[0];
+
+const loadBusinessDetails = async (supabase: any, userId: string) => {
+  const [{ data: settings }, { data: role }] = await Promise.all([
+    supabase
+      .from('business_settings')
+      .select('business_name, business_email, business_phone')
+      .eq('user_id', userId)
+      .maybeSingle(),
+    supabase
+      .from('user_roles')
+      .select('companies(name, logo_url)')
+      .eq('user_id', userId)
+      .eq('is_active', true)
+      .not('company_id', 'is', null)
+      .order('assigned_at', { ascending: true })
+      .limit(1)
+      .maybeSingle(),
+  ]);
+
+  return {
+    name: settings?.business_name || role?.companies?.name || 'Construyo',
+    email: settings?.business_email,
+    phone: settings?.business_phone,
+    logo_url: role?.companies?.logo_url,
+  };
+};
+
+const loadQuoteByToken = async (supabase: any, token: string) => {
+  const { data: quote, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('public_token', token)
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to load quote: ${error.message}`);
+  if (!quote || !quote.sent_revision) {
+    throw new Error("This quote link is invalid");
+  }
+
+  // Quotes expire lazily, the first time they're opened after their validity date
+  if (OPEN_STATUSES.includes(quote.status) && isExpired(quote.valid_until)) {
+    await supabase.from('quotes').update({ status: 'expired' }).eq('id', quote.id);
+    quote.status = 'expired';
+  }
+
+  return quote;
+};
+
+const sendQuoteEmail = async (quote: any, revision: any, business: any, acceptUrl: string, message?: string) => {
+  const resendApiKey = Deno.env.get("RESEND_API_KEY");
+  if (!resendApiKey) {
+    throw new Error("Email is not configured");
+  }
+
+  const html = `
+    <h2>${escapeHtml(quote.title)}</h2>
+    <p>Dear ${escapeHtml(quote.customer_name)},</p>
+    ${message ? `<p>${escapeHtml(message).replace(/\n/g, '<br>')}</p>` : ''}
+    <p>Please find our quote ${quote.quote_number} for <strong>${formatAmount(Number(revision.total_amount), quote.currency)}</strong>
+      (including VAT)${revision.valid_until ? `, valid until ${new Date(revision.valid_until).toLocaleDateString('en-GB')}` : ''}.</p>
+    <p>
+      <a href="${acceptUrl}"
+         style="background-color: #007cba; color: white; padding: 12px 24px; text-decoration: none; border-radius: 6px; display: inline-block;">
+        View and Accept Quote
+      </a>
+    </p>
+    <p>Best regards,<br>${escapeHtml(business.name)}</p>
+  `;
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      'Authorization': `Bearer ${resendApiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({
+      from: 'quotes@construyo.app',
+      to: [quote.customer_email],
+      reply_to: business.email || undefined,
+      subject: `Quote ${quote.quote_number} - ${quote.title}`,
+      html,
+    }),
+  });
+
+  if (!response.ok) {
+    const error = await response.text();
+    throw new Error(`Email API error: ${error}`);
+  }
+
+  const result = await response.json();
+  return result.id;
+};
+
+// Freeze the latest revision and send the customer their acceptance link
+const sendQuote = async (supabase: any, userId: string, body: QuoteRequest) => {
+  const { data: quote, error } = await supabase
+    .from('quotes')
+    .select('*')
+    .eq('id', body.quoteId)
+    .eq('user_id', userId)
+    .single();
+
+  if (error || !quote) {
+    throw new Error(`Quote not found: ${error?.message || 'Invalid quote ID'}`);
+  }
+  if (['accepted', 'declined'].includes(quote.status)) {
+    throw new Error(`Quote ${quote.quote_number} has already been ${quote.status}`);
+  }
+
+  const { data: revision, error: revisionError } = await supabase
+    .from('quote_revisions')
+    .select('*')
+    .eq('quote_id', quote.id)
+    .eq('revision_number', quote.current_revision)
+    .single();
+
+  if (revisionError || !revision) {
+    throw new Error(`Revision not found: ${revisionError?.message || quote.current_revision}`);
+  }
+  if (!Array.isArray(revision.line_items) || revision.line_items.length === 0) {
+    throw new Error("Add at least one line item before sending the quote");
+  }
+  if (isExpired(revision.valid_until)) {
+    throw new Error("The quote's valid-until date has passed");
+  }
+
+  const sentAt = new Date().toISOString();
+  if (!revision.sent_at) {
+    const { error: freezeError } = await supabase
+      .from('quote_revisions')
+      .update({ sent_at: sentAt })
+      .eq('id', revision.id);
+    if (freezeError) throw new Error(`Failed to freeze revision: ${freezeError.message}`);
+  }
+
+  const { error: updateError } = await supabase
+    .from('quotes')
+    .update({
+      status: 'sent',
+      sent_revision: revision.revision_number,
+      sent_at: sentAt,
+      valid_until: revision.valid_until,
+    })
+    .eq('id', quote.id);
+  if (updateError) throw new Error(`Failed to update quote: ${updateError.message}`);
+
+  if (quote.quote_request_id) {
+    await supabase
+      .from('quote_requests')
+      .update({ status: 'quoted', quote_amount: revision.total_amount, quote_notes: revision.notes })
+      .eq('id', quote.quote_request_id);
+  }
+
+  const acceptUrl = `${(body.appUrl || '').replace(/\/$/, '')}/quote/${quote.public_token}`;
+  const business = await loadBusinessDetails(supabase, userId);
+
+  // The link is still returned when email fails, so it can be shared another way
+  let emailError: string | null = null;
+  try {
+    const messageId = await sendQuoteEmail(quote, revision, business, acceptUrl, body.message);
+    logStep("Quote emailed", { quoteId: quote.id, revision: revision.revision_number, messageId });
+  } catch (error) {
+    emailError = error instanceof Error ? error.message : String(error);
+    logStep("Quote email failed", { quoteId: quote.id, error: emailError });
+  }
+
+  return { acceptUrl, revision: revision.revision_number, emailSent: !emailError, emailError };
+};
+
+const viewQuote = async (supabase: any, token: string) => {
+  const quote = await loadQuoteByToken(supabase, token);
+
+  const { data: revision, error } = await supabase
+    .from('quote_revisions')
+    .select('revision_number, line_items, cis_rate, subtotal, vat_total, total_amount, deposit_percentage, deposit_amount, valid_until, notes, terms, sent_at')
+    .eq('quote_id', quote.id)
+    .eq('revision_number', quote.accepted_revision || quote.sent_revision)
+    .single();
+
+  if (error || !revision) {
+    throw new Error("This quote is no longer available");
+  }
+
+  if (quote.status === 'sent') {
+    await supabase
+      .from('quotes')
+      .update({ status: 'viewed', viewed_at: new Date().toISOString() })
+      .eq('id', quote.id);
+    quote.status = 'viewed';
+  }
+
+  const business = await loadBusinessDetails(supabase, quote.user_id);
+
+  return {
+    business,
+    quote: {
+      quote_number: quote.quote_number,
+      title: quote.title,
+      customer_name: quote.customer_name,
+      currency: quote.currency,
+      status: quote.status,
+      valid_until: quote.valid_until,
+      accepted_at: quote.accepted_at,
+      signer_name: quote.signer_name,
+      declined_at: quote.declined_at,
+    },
+    revision,
+  };
+};
+
+const acceptQuote = async (supabase: any, req: Request, body: QuoteRequest) => {
+  const quote = await loadQuoteByToken(supabase, body.token!);
+
+  if (!OPEN_STATUSES.includes(quote.status)) {
+    throw new Error(quote.status === 'expired' ? "This quote has expired" : `This quote has already been ${quote.status}`);
+  }
+  // The customer must be signing the version they were shown
+  if (body.revision !== quote.sent_revision) {
+    throw new Error("This quote has been revised since you opened it. Please reload the page to see the latest version.");
+  }
+
+  const signerName = body.signerName?.trim();
+  if (!signerName) {
+    throw new Error("Please type your full name to sign");
+  }
+  if (!body.signature?.startsWith('data:image/png;base64,') || body.signature.length > MAX_SIGNATURE_LENGTH) {
+    throw new Error("Please draw your signature");
+  }
+
+  // Only an open quote can move to accepted, so two submissions can't both succeed
+  const { data: accepted, error } = await supabase
+    .from('quotes')
+    .update({
+      status: 'accepted',
+      accepted_revision: quote.sent_revision,
+      accepted_at: new Date().toISOString(),
+      signer_name: signerName,
+      signature_image: body.signature,
+      signer_ip: req.headers.get('x-forwarded-for')?.split(',')[0].trim() || null,
+      signer_user_agent: req.headers.get('user-agent'),
+    })
+    .eq('id', quote.id)
+    .in('status', OPEN_STATUSES)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to accept quote: ${error.message}`);
+  if (!accepted) throw new QuoteConflictError("This quote is no longer open for acceptance");
+
+  logStep("Quote accepted", { quoteId: quote.id, revision: quote.sent_revision });
+
+  if (quote.quote_request_id) {
+    await supabase.from('quote_requests').update({ status: 'accepted' }).eq('id', quote.quote_request_id);
+  }
+
+  // invoice-generator records any failure on the quote so the owner can convert it again
+  let converted = false;
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/invoice-generator`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ action: 'invoice_quote', quoteId: quote.id }),
+    });
+    const result = await response.json();
+    converted = response.ok && result.success;
+    logStep("Quote conversion finished", { quoteId: quote.id, converted, error: result.error });
+  } catch (error) {
+    logStep("Quote conversion failed", { quoteId: quote.id, error: error.message });
+  }
+
+  return { status: 'accepted', converted };
+};
+
+const declineQuote = async (supabase: any, body: QuoteRequest) => {
+  const quote = await loadQuoteByToken(supabase, body.token!);
+
+  if (!OPEN_STATUSES.includes(quote.status)) {
+    throw new Error(quote.status === 'expired' ? "This quote has expired" : `This quote has already been ${quote.status}`);
+  }
+
+  // Guarded like acceptance, so a decline racing an accept can't overwrite it
+  const { data: declined, error } = await supabase
+    .from('quotes')
+    .update({
+      status: 'declined',
+      declined_at: new Date().toISOString(),
+      decline_reason: body.reason?.trim() || null,
+    })
+    .eq('id', quote.id)
+    .in('status', OPEN_STATUSES)
+    .select('id')
+    .maybeSingle();
+
+  if (error) throw new Error(`Failed to decline quote: ${error.message}`);
+  if (!declined) throw new QuoteConflictError("This quote is no longer open");
+
+  if (quote.quote_request_id) {
+    await supabase.from('quote_requests').update({ status: 'declined' }).eq('id', quote.quote_request_id);
+  }
+
+  logStep("Quote declined", { quoteId: quote.id });
+  return { status: 'declined' };
+};
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  try {
+    const body: QuoteRequest = await req.json();
+    logStep("Request received", { action: body.action });
+
+    const supabase = createClient(
+      Deno.env.get("SUPABASE_URL") ?? "",
+      Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+      { auth: { persistSession: false } }
+    );
+
+    let result: Record<string, unknown>;
+
+    if (body.action === 'send') {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        throw new Error("No authorization header provided");
+      }
+
+      const { data: userData, error: userError } = await supabase.auth.getUser(authHeader.replace("Bearer ", ""));
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+      if (!body.quoteId) {
+        throw new Error("quoteId is required");
+      }
+
+      result = await sendQuote(supabase, userData.user.id, body);
+    } else {
+      // The acceptance link's token is the customer's only credential
+      if (!body.token) {
+        throw new Error("token is required");
+      }
+
+      switch (body.action) {
+        case 'view':
+          result = await viewQuote(supabase, body.token);
+          break;
+        case 'accept':
+          result = await acceptQuote(supabase, req, body);
+          break;
+        case 'decline':
+          result = await declineQuote(supabase, body);
+          break;
+        default:
+          throw new Error(`Unknown action: ${body.action}`);
+      }
+    }
+
+    return new Response(
+      JSON.stringify({ success: true, ...result }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: 200,
+      }
+    );
+
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR", { message: errorMessage });
+
+    return new Response(
+      JSON.stringify({
+        success: false,
+        error: errorMessage,
+      }),
+      {
+        headers: { ...corsHeaders, "Content-Type": "application/json" },
+        status: error instanceof QuoteConflictError ? 409 : 500,
+      }
+    );
+  }
+});
+
+/*
+SAMPLE CALLS:
+
+// Owner: freeze the latest revision and email the acceptance link
+const { data } = await supabase.functions.invoke('quote-manager', {
+  body: { action: 'send', quoteId: 'quote-uuid', appUrl: window.location.origin }
+});
+console.log('Acceptance link:', data.acceptUrl);
+
+// Customer, from /quote/:token
+await supabase.functions.invoke('quote-manager', { body: { action: 'view', token } });
+await supabase.functions.invoke('quote-manager', {
+  body: { action: 'accept', token, revision: 2, signerName: 'Jane Smith', signature: canvas.toDataURL('image/png') }
+});
+*/
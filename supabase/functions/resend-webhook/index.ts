@@ -0,0 +1,137 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, svix-id, svix-timestamp, svix-signature",
+};
+
+/*
+ * Receives Resend webhook deliveries (email.delivered / opened / clicked /
+ * bounced). Resend signs deliveries with Svix; each one is verified against
+ * RESEND_WEBHOOK_SECRET and then handed to the auto-responder, which updates
+ * the delivery log and sends bounce fallbacks, with the service role key.
+ */
+interface ResendEvent {
+  type: string;
+  created_at?: string;
+  data?: { email_id?: string; click?: { link?: string } };
+}
+
+// Reject deliveries signed more than five minutes ago to limit replay attacks
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [RESEND-WEBHOOK] ${step}${detailsStr}`);
+};
+
+class SignatureError extends Error {}
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), char => char.charCodeAt(0));
+
+const toBase64 = (buffer: ArrayBuffer) => btoa(String.fromCharCode(...new Uint8Array(buffer)));
+
+// svix-signature: v1,<base64 hmac>[ v1,<base64 hmac> ...] over "<svix-id>.<svix-timestamp>.<body>"
+const verifySvixSignature = async (payload: string, headers: Headers, secret: string) => {
+  const id = headers.get("svix-id");
+  const timestamp = headers.get("svix-timestamp");
+  const header = headers.get("svix-signature");
+
+  if (!id || !timestamp || !header) {
+    throw new SignatureError("Missing Svix signature headers");
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new SignatureError("Svix signature timestamp outside tolerance");
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    fromBase64(secret.replace(/^whsec_/, '')),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = toBase64(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${id}.${timestamp}.${payload}`))
+  );
+
+  const signatures = header.split(' ')
+    .map(entry => entry.split(','))
+    .filter(([version]) => version === 'v1')
+    .map(([, signature]) => signature);
+
+  if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+    throw new SignatureError("Svix signature does not match");
+  }
+};
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  let event: ResendEvent;
+
+  try {
+    const secret = Deno.env.get("RESEND_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new SignatureError("RESEND_WEBHOOK_SECRET not configured");
+    }
+
+    const payload = await req.text();
+    await verifySvixSignature(payload, req.headers, secret);
+    event = JSON.parse(payload);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("Rejected delivery", { message: errorMessage });
+    return jsonResponse({ received: false, error: errorMessage }, error instanceof SignatureError ? 400 : 500);
+  }
+
+  if (!event.type?.startsWith('email.')) {
+    logStep("Ignored event", { type: event.type });
+    return jsonResponse({ received: true, ignored: true }, 200);
+  }
+
+  try {
+    const response = await fetch(`${Deno.env.get("SUPABASE_URL")}/functions/v1/auto-responder`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${Deno.env.get("SUPABASE_SERVICE_ROLE_KEY")}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ type: event.type, data: event.data }),
+    });
+
+    const result = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(result.error || response.statusText);
+    }
+
+    logStep("Event handled", { type: event.type, emailId: event.data?.email_id });
+    return jsonResponse({ received: true, ...result }, 200);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR handling event", { type: event.type, message: errorMessage });
+    // A 5xx makes Resend retry the delivery
+    return jsonResponse({ received: false, error: errorMessage }, 500);
+  }
+});
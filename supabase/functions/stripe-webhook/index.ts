@@ -0,0 +1,452 @@
+import { serve } from "https://deno.land/std@0.190.0/http/server.ts";
+import { createClient } from "https://esm.sh/@supabase/supabase-js@2.45.0";
+import {
+  logAnalyticsEvent,
+  logPaymentEvent,
+  recordStripeRefund,
+  updateInvoiceStatus,
+  updateStripeRefund,
+} from "../payment-status-tracker/invoice-status.ts";
+import { readProviderSecret } from "../credential-vault/crypto.ts";
+
+const corsHeaders = {
+  "Access-Control-Allow-Origin": "*",
+  "Access-Control-Allow-Headers": "authorization, x-client-info, apikey, content-type, stripe-signature",
+};
+
+/*
+ * Receives Stripe webhook deliveries and updates invoices as payments happen.
+ *
+ * - Stripe posts to /stripe-webhook?account=<payment_provider_settings.id>; the
+ *   delivery is verified with that account's signing secret (or the
+ *   STRIPE_WEBHOOK_SECRET env var when no account is given).
+ * - Every event is stored in stripe_webhook_events by Stripe event id, so
+ *   redeliveries of an event that was already processed are acknowledged
+ *   without touching the invoice again.
+ * - Called by the client with { replayEventId } to reprocess a failed event
+ *   from the stored payload.
+ */
+interface ReplayRequest {
+  replayEventId: string;
+}
+
+interface StripeEvent {
+  id: string;
+  type: string;
+  livemode: boolean;
+  created: number;
+  data: { object: any };
+}
+
+interface EventOutcome {
+  status: 'processed' | 'ignored';
+  invoiceId?: string;
+  userId?: string;
+  note?: string;
+}
+
+// Reject deliveries signed more than five minutes ago to limit replay attacks
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+// PaymentIntent statuses that must not overwrite an invoice that is already paid
+const PRE_PAYMENT_STATUSES = ['processing', 'requires_payment_method', 'requires_confirmation', 'requires_action', 'canceled'];
+
+// Statuses set from the payments ledger once money has moved
+const SETTLED_STATUSES = ['paid', 'partially_paid', 'refunded', 'partially_refunded', 'credited'];
+
+// Enhanced logging with timestamp and context
+const logStep = (step: string, details?: any) => {
+  const timestamp = new Date().toISOString();
+  const detailsStr = details ? ` - ${JSON.stringify(details)}` : '';
+  console.log(`[${timestamp}] [STRIPE-WEBHOOK] ${step}${detailsStr}`);
+};
+
+class SignatureError extends Error {}
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer)).map(byte => byte.toString(16).padStart(2, '0')).join('');
+
+const timingSafeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+};
+
+// Stripe-Signature: t=<timestamp>,v1=<hex hmac>[,v1=...]
+const verifyStripeSignature = async (payload: string, header: string, secret: string) => {
+  const parts = header.split(',').map(part => part.trim().split('='));
+  const timestamp = parts.find(([key]) => key === 't')?.[1];
+  const signatures = parts.filter(([key]) => key === 'v1').map(([, value]) => value);
+
+  if (!timestamp || signatures.length === 0) {
+    throw new SignatureError("Malformed Stripe-Signature header");
+  }
+
+  const age = Math.abs(Date.now() / 1000 - Number(timestamp));
+  if (!Number.isFinite(age) || age > SIGNATURE_TOLERANCE_SECONDS) {
+    throw new SignatureError("Stripe signature timestamp outside tolerance");
+  }
+
+  const key = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(secret),
+    { name: 'HMAC', hash: 'SHA-256' },
+    false,
+    ['sign']
+  );
+  const expected = toHex(
+    await crypto.subtle.sign('HMAC', key, new TextEncoder().encode(`${timestamp}.${payload}`))
+  );
+
+  if (!signatures.some(signature => timingSafeEqual(signature, expected))) {
+    throw new SignatureError("Stripe signature does not match");
+  }
+};
+
+// Signing secret and owner for the endpoint the delivery was sent to
+const resolveEndpoint = async (supabase: any, accountId: string | null) => {
+  if (!accountId) {
+    const secret = Deno.env.get("STRIPE_WEBHOOK_SECRET");
+    if (!secret) {
+      throw new SignatureError("STRIPE_WEBHOOK_SECRET not configured");
+    }
+    return { secret, userId: undefined, providerSettingsId: undefined };
+  }
+
+  const { data: settings } = await supabase
+    .from('payment_provider_settings')
+    .select('id, user_id, webhook_signing_secret')
+    .eq('id', accountId)
+    .eq('provider_type', 'stripe')
+    .maybeSingle();
+
+  if (!settings?.webhook_signing_secret) {
+    throw new SignatureError("No webhook signing secret configured for this account");
+  }
+
+  return {
+    secret: await readProviderSecret(supabase, settings, 'webhook_signing_secret'),
+    userId: settings.user_id as string,
+    providerSettingsId: settings.id as string,
+  };
+};
+
+// Match the Stripe object to an invoice by metadata first, then by PaymentIntent id
+const findInvoice = async (supabase: any, invoiceId?: string, paymentIntentId?: string) => {
+  if (invoiceId) {
+    const { data } = await supabase
+      .from('construyo_invoices')
+      .select('*')
+      .eq('id', invoiceId)
+      .maybeSingle();
+    if (data) return data;
+  }
+
+  if (paymentIntentId) {
+    const { data } = await supabase
+      .from('construyo_invoices')
+      .select('*')
+      .eq('stripe_payment_intent_id', paymentIntentId)
+      .limit(1)
+      .maybeSingle();
+    if (data) return data;
+  }
+
+  return null;
+};
+
+// Map a Stripe event onto a status understood by updateInvoiceStatus
+const describeEvent = (event: StripeEvent) => {
+  const object = event.data.object;
+  const toAmount = (minor?: number) => (minor ?? 0) / 100;
+
+  if (event.type.startsWith('payment_intent.')) {
+    return {
+      paymentStatus: object.status as string,
+      invoiceId: object.metadata?.invoice_id,
+      paymentIntentId: object.id as string,
+      amount: toAmount(object.amount_received || object.amount),
+      currency: object.currency,
+    };
+  }
+
+  switch (event.type) {
+    case 'checkout.session.completed':
+      return {
+        // Delayed payment methods complete the session before the money arrives
+        paymentStatus: ['paid', 'no_payment_required'].includes(object.payment_status) ? 'succeeded' : 'processing',
+        invoiceId: object.metadata?.invoice_id || object.client_reference_id,
+        paymentIntentId: object.payment_intent as string | undefined,
+        amount: toAmount(object.amount_total),
+        currency: object.currency,
+      };
+    case 'charge.refunded':
+      return {
+        paymentStatus: object.refunded ? 'refunded' : 'partially_refunded',
+        invoiceId: object.metadata?.invoice_id,
+        paymentIntentId: object.payment_intent as string | undefined,
+        chargeId: object.id as string,
+        // Only present on API versions that still expand charge.refunds
+        refundId: object.refunds?.data?.[0]?.id as string | undefined,
+        amount: toAmount(object.amount_refunded),
+        currency: object.currency,
+      };
+    case 'charge.dispute.created':
+      return {
+        paymentStatus: 'disputed',
+        invoiceId: object.metadata?.invoice_id,
+        paymentIntentId: object.payment_intent as string | undefined,
+        amount: toAmount(object.amount),
+        currency: object.currency,
+        reason: object.reason as string,
+      };
+    default:
+      return null;
+  }
+};
+
+const processEvent = async (supabase: any, event: StripeEvent, ownerId?: string): Promise<EventOutcome> => {
+  // Refund objects are matched through the ledger entry created when the refund was recorded
+  if (event.type === 'charge.refund.updated') {
+    const refund = event.data.object;
+    const updated = await updateStripeRefund(supabase, refund.id, refund.status, refund.failure_reason);
+    if (!updated) {
+      return { status: 'ignored', note: 'Refund is not in the payments ledger' };
+    }
+
+    logStep("Refund updated from event", { eventId: event.id, refundId: refund.id, status: refund.status });
+    return { status: 'processed', invoiceId: updated.invoiceId, userId: updated.userId };
+  }
+
+  const described = describeEvent(event);
+  if (!described) {
+    return { status: 'ignored', note: `Unhandled event type ${event.type}` };
+  }
+
+  const invoice = await findInvoice(supabase, described.invoiceId, described.paymentIntentId);
+  if (!invoice) {
+    return { status: 'ignored', note: 'No matching invoice' };
+  }
+
+  // A signed delivery for one account must not move another user's invoice
+  if (ownerId && invoice.user_id !== ownerId) {
+    return { status: 'ignored', note: 'Invoice belongs to a different account' };
+  }
+
+  const outcome: EventOutcome = { status: 'processed', invoiceId: invoice.id, userId: invoice.user_id };
+
+  // Checkout sessions carry the PaymentIntent later charge events refer to
+  if (event.type === 'checkout.session.completed' && described.paymentIntentId
+    && invoice.stripe_payment_intent_id !== described.paymentIntentId) {
+    await supabase
+      .from('construyo_invoices')
+      .update({ stripe_payment_intent_id: described.paymentIntentId })
+      .eq('id', invoice.id);
+  }
+
+  // Stripe doesn't guarantee ordering; a late processing event must not un-pay an invoice
+  if (SETTLED_STATUSES.includes(invoice.status) && PRE_PAYMENT_STATUSES.includes(described.paymentStatus)) {
+    return { ...outcome, status: 'ignored', note: `Invoice already ${invoice.status}; ${described.paymentStatus} is stale` };
+  }
+
+  const paymentData = {
+    paymentIntentId: described.paymentIntentId,
+    status: described.paymentStatus,
+    amount: described.amount,
+    currency: described.currency?.toUpperCase(),
+    created: new Date(event.created * 1000).toISOString(),
+  };
+
+  const newStatus = event.type === 'charge.refunded'
+    ? await recordStripeRefund(supabase, invoice.id, {
+        paymentIntentId: described.paymentIntentId,
+        chargeId: described.chargeId!,
+        refundId: described.refundId,
+        amountRefunded: described.amount,
+        currency: paymentData.currency,
+        created: paymentData.created,
+      })
+    : await updateInvoiceStatus(supabase, invoice.id, described.paymentStatus, paymentData);
+
+  // Log payment event (GDPR-compliant)
+  await logPaymentEvent(supabase, invoice.user_id, invoice.id, `payment_${described.paymentStatus}`, paymentData);
+
+  if (newStatus !== invoice.status) {
+    await logAnalyticsEvent(supabase, invoice.user_id, invoice.id, 'invoice_status_updated', {
+      old_status: invoice.status,
+      new_status: newStatus,
+      payment_amount: paymentData.amount,
+      payment_currency: paymentData.currency,
+      source: 'stripe_webhook',
+      stripe_event_id: event.id,
+      ...(described.reason ? { dispute_reason: described.reason } : {}),
+    });
+  }
+
+  logStep("Invoice updated from event", { eventId: event.id, invoiceId: invoice.id, newStatus });
+  return outcome;
+};
+
+// Process a stored event and record the result on its log row
+const runLoggedEvent = async (supabase: any, row: any, ownerId?: string) => {
+  const attempts = (row.attempts || 0) + 1;
+
+  try {
+    const outcome = await processEvent(supabase, row.payload as StripeEvent, ownerId);
+
+    await supabase
+      .from('stripe_webhook_events')
+      .update({
+        status: outcome.status,
+        invoice_id: outcome.invoiceId ?? null,
+        user_id: row.user_id ?? outcome.userId ?? null,
+        attempts,
+        last_error: outcome.status === 'ignored' ? outcome.note : null,
+        processed_at: new Date().toISOString(),
+      })
+      .eq('id', row.id);
+
+    return outcome;
+  } catch (error) {
+    await supabase
+      .from('stripe_webhook_events')
+      .update({ status: 'failed', attempts, last_error: error.message })
+      .eq('id', row.id);
+    throw error;
+  }
+};
+
+const jsonResponse = (body: Record<string, unknown>, status: number) =>
+  new Response(JSON.stringify(body), {
+    headers: { ...corsHeaders, "Content-Type": "application/json" },
+    status,
+  });
+
+serve(async (req) => {
+  if (req.method === "OPTIONS") {
+    return new Response(null, { headers: corsHeaders });
+  }
+
+  // Initialize Supabase client with service role key for full access
+  const supabase = createClient(
+    Deno.env.get("SUPABASE_URL") ?? "",
+    Deno.env.get("SUPABASE_SERVICE_ROLE_KEY") ?? "",
+    { auth: { persistSession: false } }
+  );
+
+  const signature = req.headers.get("stripe-signature");
+
+  // Replay of a logged event requested by its owner
+  if (!signature) {
+    try {
+      const authHeader = req.headers.get("Authorization");
+      if (!authHeader) {
+        throw new Error("No authorization header provided");
+      }
+
+      const token = authHeader.replace("Bearer ", "");
+      const { data: userData, error: userError } = await supabase.auth.getUser(token);
+      if (userError || !userData.user) {
+        throw new Error("User not authenticated");
+      }
+
+      const { replayEventId }: ReplayRequest = await req.json();
+      const { data: row } = await supabase
+        .from('stripe_webhook_events')
+        .select('*')
+        .eq('id', replayEventId)
+        .eq('user_id', userData.user.id)
+        .maybeSingle();
+
+      if (!row) {
+        throw new Error("Webhook event not found");
+      }
+
+      logStep("Replaying event", { eventId: row.event_id, previousStatus: row.status });
+      const outcome = await runLoggedEvent(supabase, row, userData.user.id);
+
+      return jsonResponse({ success: true, ...outcome }, 200);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      logStep("ERROR replaying webhook event", { message: errorMessage });
+      return jsonResponse({ success: false, error: errorMessage }, 500);
+    }
+  }
+
+  let event: StripeEvent;
+  let endpoint: Awaited<ReturnType<typeof resolveEndpoint>>;
+
+  try {
+    const payload = await req.text();
+    endpoint = await resolveEndpoint(supabase, new URL(req.url).searchParams.get('account'));
+    await verifyStripeSignature(payload, signature, endpoint.secret);
+    event = JSON.parse(payload);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("Rejected delivery", { message: errorMessage });
+    // Signature problems are permanent; anything else is worth a Stripe retry
+    return jsonResponse({ received: false, error: errorMessage }, error instanceof SignatureError ? 400 : 500);
+  }
+
+  try {
+    logStep("Event received", { eventId: event.id, type: event.type });
+
+    const { data: inserted, error: insertError } = await supabase
+      .from('stripe_webhook_events')
+      .insert({
+        event_id: event.id,
+        event_type: event.type,
+        livemode: event.livemode,
+        payload: event,
+        user_id: endpoint.userId ?? null,
+        provider_settings_id: endpoint.providerSettingsId ?? null,
+      })
+      .select('*')
+      .single();
+
+    let row = inserted;
+    if (insertError) {
+      // 23505: already logged; only redeliveries of unfinished events are processed again
+      if (insertError.code !== '23505') {
+        throw new Error(`Failed to log webhook event: ${insertError.message}`);
+      }
+
+      const { data: existing } = await supabase
+        .from('stripe_webhook_events')
+        .select('*')
+        .eq('event_id', event.id)
+        .single();
+
+      if (['processed', 'ignored'].includes(existing.status)) {
+        logStep("Duplicate event acknowledged", { eventId: event.id });
+        return jsonResponse({ received: true, duplicate: true }, 200);
+      }
+      row = existing;
+    }
+
+    const outcome = await runLoggedEvent(supabase, row, endpoint.userId);
+    return jsonResponse({ received: true, status: outcome.status }, 200);
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+    logStep("ERROR processing webhook event", { eventId: event.id, message: errorMessage });
+
+    // Non-2xx makes Stripe redeliver; the failure stays in the log for manual replay
+    return jsonResponse({ received: false, error: errorMessage }, 500);
+  }
+});
+
+/*
+SAMPLE CALL TO REPLAY A FAILED EVENT:
+
+const replayWebhookEvent = async (eventLogId: string) => {
+  const { data, error } = await supabase.functions.invoke('stripe-webhook', {
+    body: { replayEventId: eventLogId }
+  });
+
+  if (error) throw error;
+  console.log('Replay result:', data.status);
+};
+*/
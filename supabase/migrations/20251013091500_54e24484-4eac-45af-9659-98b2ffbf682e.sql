@@ -0,0 +1,180 @@
+-- ============================================
+-- Integration configuration store
+-- Persist per-user, per-service integration settings in integration_configs
+-- with encrypted secrets, rate limits and versioned updates
+-- ============================================
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Step 1: Split non-secret settings and rate limits out of encrypted_config
+ALTER TABLE public.integration_configs
+ADD COLUMN IF NOT EXISTS settings JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN IF NOT EXISTS rate_limits JSONB,
+ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+COMMENT ON COLUMN public.integration_configs.encrypted_config IS 'Secret values (API keys, webhook URLs, tokens) keyed by field name, each encrypted with encrypt_sensitive_data';
+COMMENT ON COLUMN public.integration_configs.settings IS 'Non-secret service settings (base ids, tenant ids, table names)';
+COMMENT ON COLUMN public.integration_configs.rate_limits IS 'Per-service rate limit override: requestsPerMinute, requestsPerHour, requestsPerDay';
+COMMENT ON COLUMN public.integration_configs.version IS 'Incremented on every update; used for optimistic concurrency';
+
+-- Step 2: Replace masking with reversible symmetric encryption
+-- The key is read from the app.settings.encryption_key database setting
+CREATE OR REPLACE FUNCTION public.encrypt_sensitive_data(data text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  encryption_key text := current_setting('app.settings.encryption_key', true);
+BEGIN
+  IF data IS NULL OR LENGTH(data) = 0 THEN
+    RETURN data;
+  END IF;
+
+  IF encryption_key IS NULL OR LENGTH(encryption_key) = 0 THEN
+    RAISE EXCEPTION 'Encryption key is not configured';
+  END IF;
+
+  RETURN encode(pgp_sym_encrypt(data, encryption_key), 'base64');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.decrypt_sensitive_data(data text)
+RETURNS text
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  encryption_key text := current_setting('app.settings.encryption_key', true);
+BEGIN
+  IF data IS NULL OR LENGTH(data) = 0 THEN
+    RETURN data;
+  END IF;
+
+  IF encryption_key IS NULL OR LENGTH(encryption_key) = 0 THEN
+    RAISE EXCEPTION 'Encryption key is not configured';
+  END IF;
+
+  RETURN pgp_sym_decrypt(decode(data, 'base64'), encryption_key);
+END;
+$$;
+
+-- decrypt_sensitive_data must only be reachable through the RPCs below
+REVOKE ALL ON FUNCTION public.decrypt_sensitive_data(text) FROM PUBLIC, anon, authenticated;
+
+-- Step 3: Save a configuration for the current user
+-- Secrets are encrypted individually; empty secret values keep the stored value.
+-- Pass p_expected_version to reject updates made against a stale copy.
+DROP FUNCTION IF EXISTS public.upsert_integration_config(UUID, TEXT, JSONB, BOOLEAN);
+
+CREATE OR REPLACE FUNCTION public.save_integration_config(
+  p_service_name TEXT,
+  p_secrets JSONB DEFAULT '{}',
+  p_settings JSONB DEFAULT '{}',
+  p_rate_limits JSONB DEFAULT NULL,
+  p_is_active BOOLEAN DEFAULT true,
+  p_expected_version INTEGER DEFAULT NULL
+)
+RETURNS TABLE(id UUID, version INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  existing public.integration_configs%ROWTYPE;
+  config_exists BOOLEAN;
+  merged_secrets JSONB;
+  secret RECORD;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO existing
+  FROM public.integration_configs ic
+  WHERE ic.user_id = current_user_id
+    AND ic.service_name = p_service_name
+  FOR UPDATE;
+
+  config_exists := FOUND;
+
+  IF config_exists AND p_expected_version IS NOT NULL AND existing.version <> p_expected_version THEN
+    RAISE EXCEPTION 'Integration config for % was modified (version % expected, found %)',
+      p_service_name, p_expected_version, existing.version
+      USING ERRCODE = '40001';
+  END IF;
+
+  merged_secrets := COALESCE(existing.encrypted_config, '{}'::jsonb);
+
+  FOR secret IN SELECT key, value FROM jsonb_each_text(COALESCE(p_secrets, '{}'::jsonb)) LOOP
+    IF secret.value IS NOT NULL AND LENGTH(secret.value) > 0 THEN
+      merged_secrets := merged_secrets || jsonb_build_object(secret.key, public.encrypt_sensitive_data(secret.value));
+    END IF;
+  END LOOP;
+
+  IF config_exists THEN
+    UPDATE public.integration_configs ic
+    SET encrypted_config = merged_secrets,
+        settings = COALESCE(p_settings, '{}'::jsonb),
+        rate_limits = p_rate_limits,
+        is_active = p_is_active,
+        version = existing.version + 1,
+        updated_at = now()
+    WHERE ic.id = existing.id;
+
+    RETURN QUERY SELECT existing.id, existing.version + 1;
+  ELSE
+    RETURN QUERY
+    INSERT INTO public.integration_configs AS ic (
+      user_id, service_name, encrypted_config, settings, rate_limits, is_active
+    ) VALUES (
+      current_user_id, p_service_name, merged_secrets, COALESCE(p_settings, '{}'::jsonb), p_rate_limits, p_is_active
+    )
+    RETURNING ic.id, ic.version;
+  END IF;
+END;
+$$;
+
+-- Step 4: Load the current user's configurations with secrets decrypted
+CREATE OR REPLACE FUNCTION public.get_integration_configs()
+RETURNS TABLE(
+  id UUID,
+  service_name TEXT,
+  secrets JSONB,
+  settings JSONB,
+  rate_limits JSONB,
+  is_active BOOLEAN,
+  version INTEGER,
+  updated_at TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE SQL
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    ic.id,
+    ic.service_name,
+    COALESCE(
+      (
+        SELECT jsonb_object_agg(s.key, public.decrypt_sensitive_data(s.value))
+        FROM jsonb_each_text(ic.encrypted_config) s
+      ),
+      '{}'::jsonb
+    ),
+    ic.settings,
+    ic.rate_limits,
+    ic.is_active,
+    ic.version,
+    ic.updated_at
+  FROM public.integration_configs ic
+  WHERE ic.user_id = auth.uid();
+$$;
+
+COMMENT ON FUNCTION public.save_integration_config(text, jsonb, jsonb, jsonb, boolean, integer) IS
+'SECURITY DEFINER: Required to encrypt integration secrets with the server-held key. Only writes rows owned by auth.uid().';
+
+COMMENT ON FUNCTION public.get_integration_configs() IS
+'SECURITY DEFINER: Required to decrypt integration secrets with the server-held key. Only returns rows owned by auth.uid().';
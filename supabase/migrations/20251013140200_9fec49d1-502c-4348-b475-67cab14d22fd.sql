@@ -0,0 +1,166 @@
+-- ============================================
+-- Durable outbound job queue for integration workflows
+-- Workflow triggers are enqueued here and executed by the
+-- integration-job-worker edge function with retries and backoff
+-- ============================================
+
+CREATE TABLE public.integration_jobs (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  service_name TEXT NOT NULL,
+  action TEXT NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  metadata JSONB NOT NULL DEFAULT '{}',
+  idempotency_key TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'running', 'succeeded', 'failed', 'dead_lettered')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  max_attempts INTEGER NOT NULL DEFAULT 10,
+  next_run_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  locked_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  result JSONB,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(user_id, idempotency_key)
+);
+
+COMMENT ON COLUMN public.integration_jobs.status IS 'pending: waiting to run; running: claimed by a worker; failed: last attempt failed and a retry is scheduled at next_run_at; dead_lettered: no further automatic retries';
+
+ALTER TABLE public.integration_jobs ENABLE ROW LEVEL SECURITY;
+
+-- Jobs are created and replayed through the RPCs below; workers use the service role
+CREATE POLICY "Users can view their own integration jobs"
+ON public.integration_jobs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_integration_jobs_due ON public.integration_jobs(next_run_at)
+  WHERE status IN ('pending', 'failed');
+CREATE INDEX idx_integration_jobs_user_status ON public.integration_jobs(user_id, status, created_at DESC);
+
+CREATE TRIGGER update_integration_jobs_updated_at
+  BEFORE UPDATE ON public.integration_jobs
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Enqueue a job for the current user. A repeated idempotency key returns the existing job.
+CREATE OR REPLACE FUNCTION public.enqueue_integration_job(
+  p_service_name TEXT,
+  p_action TEXT,
+  p_payload JSONB DEFAULT '{}',
+  p_metadata JSONB DEFAULT '{}',
+  p_idempotency_key TEXT DEFAULT NULL,
+  p_max_attempts INTEGER DEFAULT 10
+)
+RETURNS public.integration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  current_user_id UUID := auth.uid();
+  job public.integration_jobs%ROWTYPE;
+BEGIN
+  IF current_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  INSERT INTO public.integration_jobs (
+    user_id, service_name, action, payload, metadata, idempotency_key, max_attempts
+  ) VALUES (
+    current_user_id,
+    p_service_name,
+    p_action,
+    COALESCE(p_payload, '{}'::jsonb),
+    COALESCE(p_metadata, '{}'::jsonb),
+    COALESCE(p_idempotency_key, gen_random_uuid()::text),
+    GREATEST(1, p_max_attempts)
+  )
+  ON CONFLICT (user_id, idempotency_key) DO NOTHING
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    SELECT * INTO job
+    FROM public.integration_jobs ij
+    WHERE ij.user_id = current_user_id
+      AND ij.idempotency_key = p_idempotency_key;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- Manually replay a failed or dead-lettered job owned by the current user
+CREATE OR REPLACE FUNCTION public.replay_integration_job(p_job_id UUID)
+RETURNS public.integration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  job public.integration_jobs%ROWTYPE;
+BEGIN
+  UPDATE public.integration_jobs ij
+  SET status = 'pending',
+      attempts = 0,
+      next_run_at = now(),
+      locked_at = NULL,
+      completed_at = NULL
+  WHERE ij.id = p_job_id
+    AND ij.user_id = auth.uid()
+    AND ij.status IN ('failed', 'dead_lettered')
+  RETURNING * INTO job;
+
+  IF job.id IS NULL THEN
+    RAISE EXCEPTION 'Job % cannot be replayed', p_job_id;
+  END IF;
+
+  RETURN job;
+END;
+$$;
+
+-- Claim due jobs for a worker. Jobs left running for 15 minutes are treated as abandoned.
+CREATE OR REPLACE FUNCTION public.claim_integration_jobs(
+  p_limit INTEGER DEFAULT 10,
+  p_job_id UUID DEFAULT NULL
+)
+RETURNS SETOF public.integration_jobs
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.integration_jobs ij
+  SET status = 'running',
+      locked_at = now(),
+      attempts = ij.attempts + 1
+  WHERE ij.id IN (
+    SELECT candidate.id
+    FROM public.integration_jobs candidate
+    WHERE (p_job_id IS NULL OR candidate.id = p_job_id)
+      AND (
+        (candidate.status IN ('pending', 'failed') AND candidate.next_run_at <= now())
+        OR (candidate.status = 'running' AND candidate.locked_at < now() - INTERVAL '15 minutes')
+      )
+    ORDER BY candidate.next_run_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ij.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_integration_jobs(integer, uuid) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.enqueue_integration_job(text, text, jsonb, jsonb, text, integer) IS
+'SECURITY DEFINER: Inserts jobs for auth.uid() only; direct INSERT is not granted so status and attempts cannot be forged.';
+
+COMMENT ON FUNCTION public.replay_integration_job(uuid) IS
+'SECURITY DEFINER: Resets a failed or dead-lettered job owned by auth.uid() back to pending.';
+
+COMMENT ON FUNCTION public.claim_integration_jobs(integer, uuid) IS
+'SECURITY DEFINER: Used by the integration-job-worker edge function (service role) to lock due jobs with SKIP LOCKED.';
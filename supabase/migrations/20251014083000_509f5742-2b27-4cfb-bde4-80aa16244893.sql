@@ -0,0 +1,219 @@
+-- ============================================
+-- Shared integration rate limiting
+-- Token buckets per company (or user without a company) and service, so every
+-- team member, browser tab and edge function draws from the same upstream quota
+-- ============================================
+
+CREATE TABLE public.integration_rate_limits (
+  scope_id UUID NOT NULL,
+  service_name TEXT NOT NULL,
+  tokens NUMERIC NOT NULL,
+  last_refill_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  hour_window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('hour', now()),
+  hour_count INTEGER NOT NULL DEFAULT 0,
+  day_window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('day', now()),
+  day_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (scope_id, service_name)
+);
+
+-- Buckets are only read and written through the SECURITY DEFINER functions below
+ALTER TABLE public.integration_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Quota scope: the user's earliest active company, falling back to the user itself
+CREATE OR REPLACE FUNCTION public.get_integration_rate_limit_scope(p_user_id UUID)
+RETURNS UUID
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    (
+      SELECT ur.company_id
+      FROM public.user_roles ur
+      WHERE ur.user_id = p_user_id
+        AND ur.is_active = true
+        AND ur.company_id IS NOT NULL
+      ORDER BY ur.assigned_at ASC
+      LIMIT 1
+    ),
+    p_user_id
+  );
+$$;
+
+-- Limits come from the user's integration_configs.rate_limits, else the service defaults
+-- (kept in sync with RateLimiter.defaultLimits on the client)
+CREATE OR REPLACE FUNCTION public.get_integration_rate_limit_config(p_user_id UUID, p_service_name TEXT)
+RETURNS TABLE(requests_per_minute INTEGER, requests_per_hour INTEGER, requests_per_day INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH defaults AS (
+    SELECT * FROM (VALUES
+      ('zapier', 100, 1000),
+      ('airtable', 5, 1000),
+      ('stripe', 100, 1000),
+      ('calendly', 100, 1000),
+      ('xero', 60, 1000),
+      ('quickbooks', 100, 500),
+      ('buffer', 10, 300),
+      ('canva', 10, 100),
+      ('webflow', 60, 1000),
+      ('typedream', 60, 1000),
+      ('openai', 20, 500),
+      ('runwayml', 10, 100)
+    ) AS d(service_name, requests_per_minute, requests_per_hour)
+  ),
+  configured AS (
+    SELECT ic.rate_limits
+    FROM public.integration_configs ic
+    WHERE ic.user_id = p_user_id
+      AND ic.service_name = p_service_name
+      AND ic.rate_limits IS NOT NULL
+  )
+  SELECT
+    COALESCE((SELECT (rate_limits->>'requestsPerMinute')::integer FROM configured), d.requests_per_minute, 60),
+    COALESCE((SELECT (rate_limits->>'requestsPerHour')::integer FROM configured), d.requests_per_hour, 1000),
+    (SELECT (rate_limits->>'requestsPerDay')::integer FROM configured)
+  FROM (SELECT 1) AS one
+  LEFT JOIN defaults d ON d.service_name = p_service_name;
+$$;
+
+-- Consume p_cost tokens from the shared bucket. p_cost = 0 reports without consuming.
+-- Edge functions running with the service role pass p_user_id; clients are always auth.uid().
+CREATE OR REPLACE FUNCTION public.consume_integration_rate_limit(
+  p_service_name TEXT,
+  p_cost INTEGER DEFAULT 1,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(allowed BOOLEAN, remaining INTEGER, reset_in INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  effective_user_id UUID := COALESCE(auth.uid(), CASE WHEN auth.role() = 'service_role' THEN p_user_id END);
+  scope UUID;
+  limits RECORD;
+  bucket public.integration_rate_limits%ROWTYPE;
+  refill_per_second NUMERIC;
+  is_allowed BOOLEAN := true;
+  wait_seconds INTEGER := 0;
+BEGIN
+  IF effective_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  scope := public.get_integration_rate_limit_scope(effective_user_id);
+  SELECT * INTO limits FROM public.get_integration_rate_limit_config(effective_user_id, p_service_name);
+  refill_per_second := GREATEST(limits.requests_per_minute, 1) / 60.0;
+
+  INSERT INTO public.integration_rate_limits (scope_id, service_name, tokens)
+  VALUES (scope, p_service_name, limits.requests_per_minute)
+  ON CONFLICT (scope_id, service_name) DO NOTHING;
+
+  SELECT * INTO bucket
+  FROM public.integration_rate_limits irl
+  WHERE irl.scope_id = scope
+    AND irl.service_name = p_service_name
+  FOR UPDATE;
+
+  -- Refill the minute bucket and roll the fixed hour/day windows
+  bucket.tokens := LEAST(
+    limits.requests_per_minute,
+    bucket.tokens + EXTRACT(EPOCH FROM (now() - bucket.last_refill_at)) * refill_per_second
+  );
+
+  IF bucket.hour_window_start < date_trunc('hour', now()) THEN
+    bucket.hour_window_start := date_trunc('hour', now());
+    bucket.hour_count := 0;
+  END IF;
+
+  IF bucket.day_window_start < date_trunc('day', now()) THEN
+    bucket.day_window_start := date_trunc('day', now());
+    bucket.day_count := 0;
+  END IF;
+
+  IF bucket.tokens < p_cost THEN
+    is_allowed := false;
+    wait_seconds := CEIL((p_cost - bucket.tokens) / refill_per_second);
+  ELSIF bucket.hour_count + p_cost > limits.requests_per_hour THEN
+    is_allowed := false;
+    wait_seconds := CEIL(EXTRACT(EPOCH FROM (bucket.hour_window_start + INTERVAL '1 hour' - now())));
+  ELSIF limits.requests_per_day IS NOT NULL AND bucket.day_count + p_cost > limits.requests_per_day THEN
+    is_allowed := false;
+    wait_seconds := CEIL(EXTRACT(EPOCH FROM (bucket.day_window_start + INTERVAL '1 day' - now())));
+  ELSE
+    bucket.tokens := bucket.tokens - p_cost;
+    bucket.hour_count := bucket.hour_count + p_cost;
+    bucket.day_count := bucket.day_count + p_cost;
+  END IF;
+
+  UPDATE public.integration_rate_limits irl
+  SET tokens = bucket.tokens,
+      last_refill_at = now(),
+      hour_window_start = bucket.hour_window_start,
+      hour_count = bucket.hour_count,
+      day_window_start = bucket.day_window_start,
+      day_count = bucket.day_count
+  WHERE irl.scope_id = scope
+    AND irl.service_name = p_service_name;
+
+  IF NOT is_allowed AND p_cost > 0 THEN
+    PERFORM public.log_enhanced_security_event(
+      'integration_rate_limited',
+      NULL,
+      NULL,
+      'integration_rate_limits',
+      NULL,
+      jsonb_build_object('service_name', p_service_name, 'scope_id', scope, 'user_id', effective_user_id, 'reset_in', wait_seconds),
+      'low'
+    );
+  END IF;
+
+  RETURN QUERY SELECT is_allowed, GREATEST(FLOOR(bucket.tokens)::integer, 0), wait_seconds;
+END;
+$$;
+
+-- Shared usage for every service in the caller's scope
+CREATE OR REPLACE FUNCTION public.get_integration_rate_limit_stats()
+RETURNS TABLE(
+  service_name TEXT,
+  minute_used INTEGER,
+  minute_limit INTEGER,
+  hour_used INTEGER,
+  hour_limit INTEGER,
+  day_used INTEGER,
+  day_limit INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    irl.service_name,
+    GREATEST(
+      0,
+      limits.requests_per_minute - FLOOR(LEAST(
+        limits.requests_per_minute,
+        irl.tokens + EXTRACT(EPOCH FROM (now() - irl.last_refill_at)) * limits.requests_per_minute / 60.0
+      ))
+    )::integer,
+    limits.requests_per_minute,
+    CASE WHEN irl.hour_window_start < date_trunc('hour', now()) THEN 0 ELSE irl.hour_count END,
+    limits.requests_per_hour,
+    CASE WHEN irl.day_window_start < date_trunc('day', now()) THEN 0 ELSE irl.day_count END,
+    limits.requests_per_day
+  FROM public.integration_rate_limits irl
+  CROSS JOIN LATERAL public.get_integration_rate_limit_config(auth.uid(), irl.service_name) limits
+  WHERE irl.scope_id = public.get_integration_rate_limit_scope(auth.uid());
+$$;
+
+COMMENT ON FUNCTION public.consume_integration_rate_limit(text, integer, uuid) IS
+'SECURITY DEFINER: Required to update shared rate limit buckets at company level. p_user_id is only honoured for the service role.';
+
+COMMENT ON FUNCTION public.get_integration_rate_limit_stats() IS
+'SECURITY DEFINER: Required to read shared rate limit buckets for the caller''s company.';
@@ -0,0 +1,145 @@
+-- ============================================
+-- Itemised invoices
+-- Line items (labour, materials, plant hire) with per-line VAT rates
+-- and CIS deductions; invoice totals are kept in sync by triggers
+-- ============================================
+
+-- Step 1: Invoice totals. amount remains the amount payable by the customer
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS subtotal DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS vat_total DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS total_amount DECIMAL(12,2),
+ADD COLUMN IF NOT EXISTS cis_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (cis_rate IN (0, 20, 30)),
+ADD COLUMN IF NOT EXISTS cis_deduction DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.construyo_invoices.amount IS 'Amount payable: total_amount less cis_deduction for itemised invoices';
+COMMENT ON COLUMN public.construyo_invoices.subtotal IS 'Sum of line item net amounts';
+COMMENT ON COLUMN public.construyo_invoices.vat_total IS 'Sum of line item VAT';
+COMMENT ON COLUMN public.construyo_invoices.total_amount IS 'Gross total: subtotal plus VAT';
+COMMENT ON COLUMN public.construyo_invoices.cis_rate IS 'Construction Industry Scheme deduction rate: 0 (gross status), 20 (registered) or 30 (unregistered)';
+COMMENT ON COLUMN public.construyo_invoices.cis_deduction IS 'CIS withheld by the contractor, calculated on the net value of CIS-applicable lines (labour)';
+
+-- Step 2: Line items
+CREATE TABLE public.construyo_invoice_line_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.construyo_invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  category TEXT NOT NULL DEFAULT 'labour'
+    CHECK (category IN ('labour', 'materials', 'plant_hire', 'subcontractor', 'other')),
+  description TEXT NOT NULL,
+  quantity DECIMAL(12,3) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit TEXT,
+  unit_price DECIMAL(12,2) NOT NULL,
+  vat_rate DECIMAL(5,2) NOT NULL DEFAULT 20 CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  cis_applicable BOOLEAN NOT NULL DEFAULT false,
+  net_amount DECIMAL(12,2) GENERATED ALWAYS AS (ROUND(quantity * unit_price, 2)) STORED,
+  vat_amount DECIMAL(12,2) GENERATED ALWAYS AS (ROUND(ROUND(quantity * unit_price, 2) * vat_rate / 100, 2)) STORED,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+COMMENT ON COLUMN public.construyo_invoice_line_items.cis_applicable IS 'Whether the line counts towards the CIS deduction (labour, not materials or plant hire)';
+
+ALTER TABLE public.construyo_invoice_line_items ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own invoice line items"
+ON public.construyo_invoice_line_items
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.construyo_invoices ci
+    WHERE ci.id = invoice_id AND ci.user_id = auth.uid()
+  )
+);
+
+CREATE INDEX idx_construyo_invoice_line_items_invoice ON public.construyo_invoice_line_items(invoice_id, position);
+
+CREATE TRIGGER update_construyo_invoice_line_items_updated_at
+  BEFORE UPDATE ON public.construyo_invoice_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Keep invoice totals in sync with line items
+CREATE OR REPLACE FUNCTION public.recalculate_invoice_totals(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  totals RECORD;
+BEGIN
+  SELECT
+    COUNT(*) AS line_count,
+    COALESCE(SUM(li.net_amount), 0) AS subtotal,
+    COALESCE(SUM(li.vat_amount), 0) AS vat_total,
+    COALESCE(SUM(li.net_amount) FILTER (WHERE li.cis_applicable), 0) AS cis_base
+  INTO totals
+  FROM public.construyo_invoice_line_items li
+  WHERE li.invoice_id = p_invoice_id;
+
+  -- Invoices without line items keep their manually entered amount
+  IF totals.line_count = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.construyo_invoices ci
+  SET subtotal = totals.subtotal,
+      vat_total = totals.vat_total,
+      total_amount = totals.subtotal + totals.vat_total,
+      cis_deduction = ROUND(totals.cis_base * ci.cis_rate / 100, 2),
+      amount = totals.subtotal + totals.vat_total - ROUND(totals.cis_base * ci.cis_rate / 100, 2)
+  WHERE ci.id = p_invoice_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.recalculate_invoice_totals(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_invoice_line_item_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recalculate_invoice_totals(OLD.invoice_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.invoice_id <> OLD.invoice_id) THEN
+    PERFORM public.recalculate_invoice_totals(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_invoice_totals_on_line_item_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.construyo_invoice_line_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_invoice_line_item_change();
+
+CREATE OR REPLACE FUNCTION public.handle_invoice_cis_rate_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recalculate_invoice_totals(NEW.id);
+  RETURN NULL;
+END;
+$$;
+
+-- recalculate_invoice_totals does not write cis_rate, so this cannot recurse
+CREATE TRIGGER recalculate_invoice_totals_on_cis_rate_change
+  AFTER UPDATE OF cis_rate ON public.construyo_invoices
+  FOR EACH ROW
+  WHEN (OLD.cis_rate IS DISTINCT FROM NEW.cis_rate)
+  EXECUTE FUNCTION public.handle_invoice_cis_rate_change();
+
+COMMENT ON FUNCTION public.recalculate_invoice_totals(uuid) IS
+'SECURITY DEFINER: Called from line item triggers to keep construyo_invoices totals consistent with their line items.';
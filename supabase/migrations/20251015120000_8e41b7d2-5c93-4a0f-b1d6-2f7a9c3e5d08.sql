@@ -0,0 +1,69 @@
+-- ============================================
+-- Invoice PDFs and branded templates
+-- PDFs are rendered by the invoice-generator edge function and stored in a
+-- private storage bucket; templates control layout, colour and wording
+-- ============================================
+
+-- Step 1: Business details printed on invoices
+ALTER TABLE public.business_settings
+ADD COLUMN IF NOT EXISTS business_address TEXT,
+ADD COLUMN IF NOT EXISTS business_email TEXT,
+ADD COLUMN IF NOT EXISTS business_phone TEXT,
+ADD COLUMN IF NOT EXISTS vat_number TEXT,
+ADD COLUMN IF NOT EXISTS company_number TEXT;
+
+-- Step 2: Invoice templates
+CREATE TABLE public.invoice_templates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  layout TEXT NOT NULL DEFAULT 'classic' CHECK (layout IN ('classic', 'modern', 'minimal')),
+  accent_color TEXT NOT NULL DEFAULT '#1f2937' CHECK (accent_color ~ '^#[0-9a-fA-F]{6}$'),
+  -- Overrides the company logo when set
+  logo_url TEXT,
+  show_line_categories BOOLEAN NOT NULL DEFAULT true,
+  payment_terms TEXT DEFAULT 'Payment due within 30 days of the invoice date.',
+  footer_text TEXT,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.invoice_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own invoice templates"
+ON public.invoice_templates
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- One default template per user
+CREATE UNIQUE INDEX idx_invoice_templates_default ON public.invoice_templates(user_id) WHERE is_default;
+
+CREATE TRIGGER update_invoice_templates_updated_at
+  BEFORE UPDATE ON public.invoice_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Rendered PDF and payment page per invoice
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS template_id UUID REFERENCES public.invoice_templates(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS pdf_path TEXT,
+ADD COLUMN IF NOT EXISTS pdf_generated_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS payment_url TEXT;
+
+COMMENT ON COLUMN public.construyo_invoices.pdf_path IS 'Object path of the rendered PDF in the invoices storage bucket';
+COMMENT ON COLUMN public.construyo_invoices.payment_url IS 'Hosted payment page from the payment provider, printed on the PDF';
+
+-- Step 4: Private bucket; objects live under <user_id>/ and are only written by edge functions
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('invoices', 'invoices', false)
+ON CONFLICT (id) DO NOTHING;
+
+CREATE POLICY "Users can read their own invoice PDFs"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'invoices'
+  AND auth.uid()::text = (storage.foldername(name))[1]
+);
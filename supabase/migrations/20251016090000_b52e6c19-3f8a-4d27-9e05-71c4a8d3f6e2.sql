@@ -0,0 +1,284 @@
+-- ============================================
+-- Staged payments
+-- Payment schedules split a project's contract value into stages (deposit,
+-- first fix, second fix, completion) invoiced one at a time, with retention
+-- held back from each stage and released after the defect period
+-- ============================================
+
+-- Step 1: Schedules, one per lead/project
+CREATE TABLE public.payment_schedules (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  contract_value DECIMAL(12,2) NOT NULL CHECK (contract_value > 0),
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  vat_rate DECIMAL(5,2) NOT NULL DEFAULT 20 CHECK (vat_rate >= 0 AND vat_rate <= 100),
+  cis_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (cis_rate IN (0, 20, 30)),
+  retention_percentage DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (retention_percentage >= 0 AND retention_percentage <= 10),
+  defect_period_days INTEGER NOT NULL DEFAULT 365 CHECK (defect_period_days >= 0),
+  retention_release_date DATE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'cancelled')),
+  -- Rolled up from the stage invoices by refresh_payment_schedule
+  invoiced_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  paid_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.payment_schedules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own payment schedules"
+ON public.payment_schedules
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_payment_schedules_lead ON public.payment_schedules(lead_id);
+
+CREATE TRIGGER update_payment_schedules_updated_at
+  BEFORE UPDATE ON public.payment_schedules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Stages
+CREATE TABLE public.payment_schedule_stages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  schedule_id UUID NOT NULL REFERENCES public.payment_schedules(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  name TEXT NOT NULL,
+  stage_type TEXT NOT NULL DEFAULT 'other'
+    CHECK (stage_type IN ('deposit', 'first_fix', 'second_fix', 'completion', 'retention', 'other')),
+  amount_type TEXT NOT NULL DEFAULT 'percentage' CHECK (amount_type IN ('percentage', 'fixed')),
+  percentage DECIMAL(5,2) CHECK (percentage > 0 AND percentage <= 100),
+  fixed_amount DECIMAL(12,2) CHECK (fixed_amount > 0),
+  -- Net value of the stage, and the retention withheld from it
+  stage_value DECIMAL(12,2) NOT NULL,
+  retention_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  due_date DATE,
+  invoice_id UUID REFERENCES public.construyo_invoices(id) ON DELETE SET NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'invoiced', 'paid', 'cancelled')),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT payment_schedule_stages_amount_check CHECK (
+    stage_type = 'retention'
+    OR (amount_type = 'percentage' AND percentage IS NOT NULL)
+    OR (amount_type = 'fixed' AND fixed_amount IS NOT NULL)
+  )
+);
+
+ALTER TABLE public.payment_schedule_stages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own payment schedule stages"
+ON public.payment_schedule_stages
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE INDEX idx_payment_schedule_stages_schedule ON public.payment_schedule_stages(schedule_id, position);
+CREATE UNIQUE INDEX idx_payment_schedule_stages_invoice ON public.payment_schedule_stages(invoice_id) WHERE invoice_id IS NOT NULL;
+
+CREATE TRIGGER update_payment_schedule_stages_updated_at
+  BEFORE UPDATE ON public.payment_schedule_stages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Create a schedule and its stages in one go.
+-- p_stages: [{ name, stage_type, amount_type, percentage | fixed_amount, due_date }]
+-- Stage values must add up to the contract value; rounding is absorbed by the last stage.
+-- A retention release stage is appended when retention is held.
+CREATE OR REPLACE FUNCTION public.create_payment_schedule(
+  p_lead_id UUID,
+  p_name TEXT,
+  p_contract_value DECIMAL,
+  p_stages JSONB,
+  p_vat_rate DECIMAL DEFAULT 20,
+  p_cis_rate DECIMAL DEFAULT 0,
+  p_retention_percentage DECIMAL DEFAULT 0,
+  p_defect_period_days INTEGER DEFAULT 365
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+DECLARE
+  new_schedule_id UUID;
+  stage JSONB;
+  stage_index INTEGER := 0;
+  stage_amount DECIMAL(12,2);
+  total DECIMAL(12,2) := 0;
+  total_retention DECIMAL(12,2) := 0;
+  last_stage_id UUID;
+  last_due_date DATE;
+  release_date DATE;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.leads WHERE id = p_lead_id AND created_by = auth.uid()) THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+
+  IF jsonb_typeof(p_stages) <> 'array' OR jsonb_array_length(p_stages) = 0 THEN
+    RAISE EXCEPTION 'A payment schedule needs at least one stage';
+  END IF;
+
+  INSERT INTO public.payment_schedules (
+    user_id, lead_id, name, contract_value, vat_rate, cis_rate, retention_percentage, defect_period_days
+  )
+  VALUES (
+    auth.uid(), p_lead_id, p_name, p_contract_value, p_vat_rate, p_cis_rate, p_retention_percentage, p_defect_period_days
+  )
+  RETURNING id INTO new_schedule_id;
+
+  FOR stage IN SELECT * FROM jsonb_array_elements(p_stages)
+  LOOP
+    IF COALESCE(stage->>'amount_type', 'percentage') = 'fixed' THEN
+      stage_amount := ROUND((stage->>'fixed_amount')::numeric, 2);
+    ELSE
+      stage_amount := ROUND(p_contract_value * (stage->>'percentage')::numeric / 100, 2);
+    END IF;
+
+    INSERT INTO public.payment_schedule_stages (
+      schedule_id, user_id, position, name, stage_type, amount_type, percentage, fixed_amount,
+      stage_value, retention_amount, due_date
+    )
+    VALUES (
+      new_schedule_id,
+      auth.uid(),
+      stage_index,
+      stage->>'name',
+      COALESCE(stage->>'stage_type', 'other'),
+      COALESCE(stage->>'amount_type', 'percentage'),
+      (stage->>'percentage')::numeric,
+      (stage->>'fixed_amount')::numeric,
+      stage_amount,
+      ROUND(stage_amount * p_retention_percentage / 100, 2),
+      (stage->>'due_date')::date
+    )
+    RETURNING id INTO last_stage_id;
+
+    total := total + stage_amount;
+    last_due_date := GREATEST(last_due_date, (stage->>'due_date')::date);
+    stage_index := stage_index + 1;
+  END LOOP;
+
+  IF ABS(total - p_contract_value) > 0.01 * stage_index THEN
+    RAISE EXCEPTION 'Stage amounts (%) must add up to the contract value (%)', total, p_contract_value;
+  END IF;
+
+  UPDATE public.payment_schedule_stages
+  SET stage_value = stage_value + (p_contract_value - total),
+      retention_amount = ROUND((stage_value + (p_contract_value - total)) * p_retention_percentage / 100, 2)
+  WHERE id = last_stage_id
+    AND total <> p_contract_value;
+
+  IF p_retention_percentage > 0 THEN
+    SELECT SUM(retention_amount) INTO total_retention
+    FROM public.payment_schedule_stages
+    WHERE schedule_id = new_schedule_id;
+
+    release_date := COALESCE(last_due_date, CURRENT_DATE) + p_defect_period_days;
+
+    INSERT INTO public.payment_schedule_stages (
+      schedule_id, user_id, position, name, stage_type, amount_type, stage_value, due_date
+    )
+    VALUES (
+      new_schedule_id, auth.uid(), stage_index, 'Retention release', 'retention', 'fixed', total_retention, release_date
+    );
+
+    UPDATE public.payment_schedules
+    SET retention_release_date = release_date
+    WHERE id = new_schedule_id;
+  END IF;
+
+  RETURN new_schedule_id;
+END;
+$$;
+
+-- Step 4: Roll stage invoice status up to the schedule
+CREATE OR REPLACE FUNCTION public.refresh_payment_schedule(p_schedule_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.payment_schedules ps
+  SET invoiced_amount = COALESCE(rollup.invoiced, 0),
+      paid_amount = COALESCE(rollup.paid, 0),
+      status = CASE
+        WHEN ps.status = 'cancelled' THEN 'cancelled'
+        WHEN rollup.open_stages = 0 THEN 'completed'
+        ELSE 'active'
+      END
+  FROM (
+    SELECT
+      SUM(ci.amount) AS invoiced,
+      SUM(ci.amount) FILTER (WHERE pss.status = 'paid') AS paid,
+      COUNT(*) FILTER (WHERE pss.status NOT IN ('paid', 'cancelled')) AS open_stages
+    FROM public.payment_schedule_stages pss
+    LEFT JOIN public.construyo_invoices ci ON ci.id = pss.invoice_id
+    WHERE pss.schedule_id = p_schedule_id
+  ) AS rollup
+  WHERE ps.id = p_schedule_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_payment_schedule(UUID) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_stage_invoice_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  stage_schedule_id UUID;
+BEGIN
+  UPDATE public.payment_schedule_stages
+  SET status = CASE
+    WHEN NEW.status = 'paid' THEN 'paid'
+    WHEN NEW.status = 'cancelled' THEN 'cancelled'
+    ELSE 'invoiced'
+  END
+  WHERE invoice_id = NEW.id
+  RETURNING schedule_id INTO stage_schedule_id;
+
+  IF stage_schedule_id IS NOT NULL THEN
+    PERFORM public.refresh_payment_schedule(stage_schedule_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER stage_invoice_status_change
+  AFTER UPDATE OF status, amount ON public.construyo_invoices
+  FOR EACH ROW
+  WHEN (OLD.status IS DISTINCT FROM NEW.status OR OLD.amount IS DISTINCT FROM NEW.amount)
+  EXECUTE FUNCTION public.handle_stage_invoice_status_change();
+
+-- Linking an invoice to a stage updates the roll-up too
+CREATE OR REPLACE FUNCTION public.handle_payment_stage_invoice_link()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.refresh_payment_schedule(NEW.schedule_id);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER payment_stage_invoice_link
+  AFTER UPDATE OF invoice_id ON public.payment_schedule_stages
+  FOR EACH ROW
+  WHEN (OLD.invoice_id IS DISTINCT FROM NEW.invoice_id)
+  EXECUTE FUNCTION public.handle_payment_stage_invoice_link();
+
+COMMENT ON FUNCTION public.refresh_payment_schedule(uuid) IS
+'SECURITY DEFINER: Called from invoice triggers, which may run as the service role from payment webhooks.';
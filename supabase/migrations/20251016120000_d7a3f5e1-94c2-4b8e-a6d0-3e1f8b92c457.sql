@@ -0,0 +1,91 @@
+-- ============================================
+-- Payment reminders and dunning
+-- Policies define the reminder cadence relative to the due date and the late
+-- fee; the invoice-dunning edge function sends reminders on a schedule
+-- ============================================
+
+-- Step 1: Dunning policies
+CREATE TABLE public.dunning_policies (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  is_default BOOLEAN NOT NULL DEFAULT false,
+  -- [{ offset_days, channel: email|whatsapp|both, tone: friendly|reminder|firm|final }]
+  -- offset_days is relative to the due date: -3 is three days before, 7 is a week overdue
+  reminder_steps JSONB NOT NULL DEFAULT '[
+    {"offset_days": -3, "channel": "email", "tone": "friendly"},
+    {"offset_days": 0, "channel": "email", "tone": "reminder"},
+    {"offset_days": 7, "channel": "both", "tone": "firm"},
+    {"offset_days": 14, "channel": "both", "tone": "final"}
+  ]'::jsonb,
+  -- Optional per-tone overrides: { "<tone>": { "subject": "...", "body": "..." } }
+  templates JSONB NOT NULL DEFAULT '{}'::jsonb,
+  late_fee_type TEXT NOT NULL DEFAULT 'none' CHECK (late_fee_type IN ('none', 'fixed', 'percentage', 'daily_interest')),
+  -- Fixed amount, percentage of the amount due, or annual interest rate for daily_interest
+  late_fee_value DECIMAL(12,2) NOT NULL DEFAULT 0 CHECK (late_fee_value >= 0),
+  late_fee_grace_days INTEGER NOT NULL DEFAULT 0 CHECK (late_fee_grace_days >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CONSTRAINT dunning_policies_steps_check CHECK (jsonb_typeof(reminder_steps) = 'array')
+);
+
+ALTER TABLE public.dunning_policies ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own dunning policies"
+ON public.dunning_policies
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE UNIQUE INDEX idx_dunning_policies_default ON public.dunning_policies(user_id) WHERE is_default;
+
+CREATE TRIGGER update_dunning_policies_updated_at
+  BEFORE UPDATE ON public.dunning_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Per-invoice dunning state. Invoices without a policy use the user's default.
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS dunning_policy_id UUID REFERENCES public.dunning_policies(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS dunning_status TEXT NOT NULL DEFAULT 'active' CHECK (dunning_status IN ('active', 'paused', 'stopped')),
+ADD COLUMN IF NOT EXISTS dunning_paused_until DATE,
+ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS reminder_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS last_reminder_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.construyo_invoices.dunning_paused_until IS 'Paused invoices resume reminders after this date; NULL pauses indefinitely';
+COMMENT ON COLUMN public.construyo_invoices.late_fee_amount IS 'Late fee accrued by the dunning policy, payable on top of amount';
+
+-- Step 3: Reminder history; one row per invoice and cadence step so a step is never sent twice
+CREATE TABLE public.invoice_reminders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.construyo_invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  policy_id UUID REFERENCES public.dunning_policies(id) ON DELETE SET NULL,
+  step_index INTEGER NOT NULL,
+  offset_days INTEGER NOT NULL,
+  tone TEXT NOT NULL,
+  channel TEXT NOT NULL,
+  status TEXT NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  late_fee_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  message_delivery_log_ids UUID[] NOT NULL DEFAULT '{}',
+  error_message TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (invoice_id, step_index)
+);
+
+ALTER TABLE public.invoice_reminders ENABLE ROW LEVEL SECURITY;
+
+-- Written by the invoice-dunning edge function only
+CREATE POLICY "Users can view their own invoice reminders"
+ON public.invoice_reminders
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_invoice_reminders_invoice ON public.invoice_reminders(invoice_id, created_at DESC);
+
+-- Step 4: Invoices the dunning run should look at
+CREATE INDEX idx_construyo_invoices_dunning
+ON public.construyo_invoices(due_date)
+WHERE dunning_status <> 'stopped' AND status NOT IN ('paid', 'cancelled', 'draft');
@@ -0,0 +1,51 @@
+-- ============================================
+-- Stripe webhooks
+-- The stripe-webhook edge function verifies each delivery against the
+-- account's signing secret and records it here so events are processed once
+-- and failed ones can be replayed
+-- ============================================
+
+-- Step 1: Signing secret for the account's webhook endpoint (encoded like encrypted_credentials)
+ALTER TABLE public.payment_provider_settings
+ADD COLUMN IF NOT EXISTS webhook_signing_secret TEXT;
+
+COMMENT ON COLUMN public.payment_provider_settings.webhook_signing_secret IS 'Stripe endpoint signing secret (whsec_...) used to verify deliveries to stripe-webhook?account=<id>';
+
+-- Step 2: Event log, one row per Stripe event id
+CREATE TABLE public.stripe_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  event_id TEXT NOT NULL UNIQUE,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider_settings_id UUID REFERENCES public.payment_provider_settings(id) ON DELETE SET NULL,
+  event_type TEXT NOT NULL,
+  livemode BOOLEAN NOT NULL DEFAULT false,
+  payload JSONB NOT NULL,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  invoice_id UUID REFERENCES public.construyo_invoices(id) ON DELETE SET NULL,
+  attempts INTEGER NOT NULL DEFAULT 0,
+  last_error TEXT,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.stripe_webhook_events ENABLE ROW LEVEL SECURITY;
+
+-- Written by the stripe-webhook edge function only; replays go through it too
+CREATE POLICY "Users can view their own Stripe webhook events"
+ON public.stripe_webhook_events
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_stripe_webhook_events_user ON public.stripe_webhook_events(user_id, received_at DESC);
+CREATE INDEX idx_stripe_webhook_events_failed ON public.stripe_webhook_events(received_at) WHERE status = 'failed';
+
+CREATE TRIGGER update_stripe_webhook_events_updated_at
+  BEFORE UPDATE ON public.stripe_webhook_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Look up invoices by the PaymentIntent Stripe reports on
+CREATE INDEX IF NOT EXISTS idx_construyo_invoices_payment_intent
+ON public.construyo_invoices(stripe_payment_intent_id)
+WHERE stripe_payment_intent_id IS NOT NULL;
@@ -0,0 +1,50 @@
+-- ============================================
+-- Envelope encryption for payment provider credentials
+-- Secrets are encrypted by the credential-vault edge function with AES-GCM
+-- data keys wrapped by a master key held only in edge function secrets
+-- ============================================
+
+-- Step 1: Track which master key wraps each row so rotation can find stale ones
+ALTER TABLE public.payment_provider_settings
+ADD COLUMN IF NOT EXISTS credentials_key_id TEXT,
+ADD COLUMN IF NOT EXISTS credentials_updated_at TIMESTAMP WITH TIME ZONE;
+
+COMMENT ON COLUMN public.payment_provider_settings.encrypted_credentials IS 'enc:v1:<key id>:<wrapped data key>:<ciphertext>; written by credential-vault only';
+COMMENT ON COLUMN public.payment_provider_settings.webhook_signing_secret IS 'Stripe endpoint signing secret in the same envelope format as encrypted_credentials';
+COMMENT ON COLUMN public.payment_provider_settings.credentials_key_id IS 'Master key id the credential envelopes are wrapped with; NULL for legacy base64 values awaiting rotation';
+
+CREATE INDEX IF NOT EXISTS idx_payment_settings_credentials_key
+ON public.payment_provider_settings(credentials_key_id);
+
+-- Step 2: Reject secrets that were not produced by credential-vault.
+-- Unchanged legacy values pass so existing rows keep working until they are rotated.
+CREATE OR REPLACE FUNCTION public.enforce_encrypted_provider_credentials()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.encrypted_credentials IS NOT NULL
+     AND NEW.encrypted_credentials NOT LIKE 'enc:v1:%'
+     AND (TG_OP = 'INSERT' OR NEW.encrypted_credentials IS DISTINCT FROM OLD.encrypted_credentials) THEN
+    RAISE EXCEPTION 'Provider credentials must be saved through the credential-vault function';
+  END IF;
+
+  IF NEW.webhook_signing_secret IS NOT NULL
+     AND NEW.webhook_signing_secret NOT LIKE 'enc:v1:%'
+     AND (TG_OP = 'INSERT' OR NEW.webhook_signing_secret IS DISTINCT FROM OLD.webhook_signing_secret) THEN
+    RAISE EXCEPTION 'Webhook signing secrets must be saved through the credential-vault function';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER enforce_encrypted_provider_credentials
+  BEFORE INSERT OR UPDATE OF encrypted_credentials, webhook_signing_secret ON public.payment_provider_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_encrypted_provider_credentials();
+
+-- Step 3: Credential audit entries are looked up per settings row
+CREATE INDEX IF NOT EXISTS idx_audit_logs_table_record
+ON public.audit_logs(table_name, record_id, created_at DESC);
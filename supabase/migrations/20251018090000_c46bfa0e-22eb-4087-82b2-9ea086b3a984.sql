@@ -0,0 +1,271 @@
+-- ============================================
+-- Invoice payments ledger
+-- Payments, refunds and credit notes recorded per invoice; the invoice's
+-- paid, refunded, credited and outstanding amounts and its status follow the ledger
+-- ============================================
+
+-- Step 1: Running totals kept on the invoice by the ledger trigger
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS amount_paid DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_refunded DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS amount_credited DECIMAL(12,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS balance_due DECIMAL(12,2);
+
+COMMENT ON COLUMN public.construyo_invoices.balance_due IS 'amount less net payments and credit notes; maintained from invoice_payments';
+
+-- Step 2: The ledger. Amounts are always positive; entry_type gives the direction.
+CREATE TABLE public.invoice_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id UUID NOT NULL REFERENCES public.construyo_invoices(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  entry_type TEXT NOT NULL CHECK (entry_type IN ('payment', 'refund', 'credit_note')),
+  amount DECIMAL(12,2) NOT NULL CHECK (amount > 0),
+  currency TEXT,
+  method TEXT NOT NULL DEFAULT 'bank_transfer' CHECK (method IN ('stripe', 'bank_transfer', 'card', 'cash', 'cheque', 'other')),
+  status TEXT NOT NULL DEFAULT 'succeeded' CHECK (status IN ('pending', 'succeeded', 'failed')),
+  reference TEXT,
+  reason TEXT,
+  credit_note_number TEXT,
+  stripe_payment_intent_id TEXT,
+  stripe_charge_id TEXT,
+  stripe_refund_id TEXT UNIQUE,
+  accounting_provider TEXT CHECK (accounting_provider IN ('xero', 'quickbooks')),
+  accounting_job_id UUID REFERENCES public.integration_jobs(id) ON DELETE SET NULL,
+  accounting_synced_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, credit_note_number)
+);
+
+ALTER TABLE public.invoice_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own invoice payments"
+ON public.invoice_payments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Stripe payments and refunds are written by edge functions only
+CREATE POLICY "Users can record manual entries on their own invoices"
+ON public.invoice_payments
+FOR INSERT
+WITH CHECK (
+  auth.uid() = user_id
+  AND method <> 'stripe'
+  AND stripe_payment_intent_id IS NULL
+  AND stripe_refund_id IS NULL
+  AND EXISTS (
+    SELECT 1 FROM public.construyo_invoices
+    WHERE construyo_invoices.id = invoice_id AND construyo_invoices.user_id = auth.uid()
+  )
+);
+
+CREATE POLICY "Users can update their own invoice payments"
+ON public.invoice_payments
+FOR UPDATE
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_invoice_payments_updated_at
+  BEFORE UPDATE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE INDEX idx_invoice_payments_invoice ON public.invoice_payments(invoice_id, recorded_at);
+
+-- One ledger payment per Stripe PaymentIntent, however many events report it
+CREATE UNIQUE INDEX idx_invoice_payments_stripe_payment
+ON public.invoice_payments(stripe_payment_intent_id)
+WHERE entry_type = 'payment';
+
+-- Step 3: Credit notes share the invoice numbering scheme under their own prefix.
+-- p_user_id is only used when there is no auth.uid(), i.e. from edge functions and triggers.
+DROP FUNCTION IF EXISTS public.generate_invoice_number();
+
+CREATE OR REPLACE FUNCTION public.generate_invoice_number(p_prefix TEXT DEFAULT 'INV', p_user_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := COALESCE(auth.uid(), p_user_id);
+  next_number INTEGER;
+BEGIN
+  IF p_prefix = 'INV' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_number FROM 'INV-(\d+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM public.construyo_invoices
+    WHERE user_id = v_user_id;
+  ELSIF p_prefix = 'CN' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM 'CN-(\d+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM public.invoice_payments
+    WHERE user_id = v_user_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown document prefix: %', p_prefix;
+  END IF;
+
+  -- Format as INV-001 / CN-001 etc.
+  RETURN p_prefix || '-' || LPAD(next_number::TEXT, 3, '0');
+END;
+$$;
+
+-- Step 4: Validate and number new entries. The invoice row is locked so concurrent
+-- refunds can't both pass the over-refund check.
+CREATE OR REPLACE FUNCTION public.prepare_invoice_ledger_entry()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice RECORD;
+  v_paid DECIMAL(12,2);
+  v_refunded DECIMAL(12,2);
+  v_credited DECIMAL(12,2);
+BEGIN
+  IF TG_OP = 'UPDATE' THEN
+    IF NEW.invoice_id <> OLD.invoice_id OR NEW.entry_type <> OLD.entry_type OR NEW.amount <> OLD.amount THEN
+      RAISE EXCEPTION 'Ledger entries cannot be changed; record a refund or credit note instead';
+    END IF;
+    -- Settlement status comes from Stripe via edge functions
+    IF NEW.status IS DISTINCT FROM OLD.status AND auth.uid() IS NOT NULL THEN
+      RAISE EXCEPTION 'Ledger entry status cannot be changed';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  SELECT id, user_id, amount, currency INTO v_invoice
+  FROM public.construyo_invoices
+  WHERE id = NEW.invoice_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR v_invoice.user_id <> NEW.user_id THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  NEW.currency := COALESCE(NEW.currency, v_invoice.currency);
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'payment'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'refund'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit_note'), 0)
+  INTO v_paid, v_refunded, v_credited
+  FROM public.invoice_payments
+  WHERE invoice_id = NEW.invoice_id AND status <> 'failed';
+
+  IF NEW.entry_type = 'refund' AND NEW.amount > v_paid - v_refunded THEN
+    RAISE EXCEPTION 'Refund of % exceeds the % paid on this invoice', NEW.amount, v_paid - v_refunded;
+  END IF;
+
+  IF NEW.entry_type = 'credit_note' THEN
+    IF NEW.amount > v_invoice.amount - v_credited THEN
+      RAISE EXCEPTION 'Credit of % exceeds the % left to credit on this invoice', NEW.amount, v_invoice.amount - v_credited;
+    END IF;
+    NEW.credit_note_number := COALESCE(NEW.credit_note_number, public.generate_invoice_number('CN', NEW.user_id));
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER prepare_invoice_ledger_entry
+  BEFORE INSERT OR UPDATE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.prepare_invoice_ledger_entry();
+
+-- Step 5: Recalculate the invoice totals and status from its ledger.
+-- Failed entries are ignored; pending refunds already count against the balance.
+CREATE OR REPLACE FUNCTION public.refresh_invoice_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_invoice_id UUID := COALESCE(NEW.invoice_id, OLD.invoice_id);
+  v_invoice RECORD;
+  v_paid DECIMAL(12,2);
+  v_refunded DECIMAL(12,2);
+  v_credited DECIMAL(12,2);
+  v_balance DECIMAL(12,2);
+  v_status TEXT;
+BEGIN
+  SELECT amount, status INTO v_invoice
+  FROM public.construyo_invoices
+  WHERE id = v_invoice_id;
+
+  -- Invoice deleted; its entries are going with it
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'payment'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'refund'), 0),
+    COALESCE(SUM(amount) FILTER (WHERE entry_type = 'credit_note'), 0)
+  INTO v_paid, v_refunded, v_credited
+  FROM public.invoice_payments
+  WHERE invoice_id = v_invoice_id AND status <> 'failed';
+
+  v_balance := GREATEST(v_invoice.amount - (v_paid - v_refunded) - v_credited, 0);
+
+  v_status := CASE
+    WHEN v_refunded > 0 AND v_paid - v_refunded <= 0 THEN 'refunded'
+    WHEN v_refunded > 0 THEN 'partially_refunded'
+    WHEN v_balance = 0 AND v_paid > 0 THEN 'paid'
+    WHEN v_balance = 0 AND v_credited > 0 THEN 'credited'
+    WHEN v_paid > 0 THEN 'partially_paid'
+    ELSE v_invoice.status
+  END;
+
+  UPDATE public.construyo_invoices
+  SET amount_paid = v_paid,
+      amount_refunded = v_refunded,
+      amount_credited = v_credited,
+      balance_due = v_balance,
+      status = v_status,
+      paid_date = CASE WHEN v_status = 'paid' THEN COALESCE(paid_date, now()) ELSE paid_date END
+  WHERE id = v_invoice_id;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER refresh_invoice_balance
+  AFTER INSERT OR UPDATE OR DELETE ON public.invoice_payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.refresh_invoice_balance();
+
+-- Step 6: New and re-priced invoices owe their amount less whatever the ledger already holds
+CREATE OR REPLACE FUNCTION public.set_invoice_balance_due()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.balance_due := GREATEST(NEW.amount - (NEW.amount_paid - NEW.amount_refunded) - NEW.amount_credited, 0);
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_invoice_balance_due
+  BEFORE INSERT OR UPDATE OF amount ON public.construyo_invoices
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_invoice_balance_due();
+
+-- Step 7: Bring existing invoices onto the ledger. Paid invoices get one payment
+-- for their full amount; everything else owes its full amount.
+INSERT INTO public.invoice_payments (invoice_id, user_id, entry_type, amount, currency, method, stripe_payment_intent_id, reference, recorded_at)
+SELECT id, user_id, 'payment', amount, currency,
+       CASE WHEN stripe_payment_intent_id IS NOT NULL THEN 'stripe' ELSE 'other' END,
+       stripe_payment_intent_id,
+       'Recorded before the payments ledger',
+       COALESCE(paid_date, updated_at)
+FROM public.construyo_invoices
+WHERE status = 'paid' AND amount > 0;
+
+UPDATE public.construyo_invoices
+SET balance_due = amount
+WHERE balance_due IS NULL;
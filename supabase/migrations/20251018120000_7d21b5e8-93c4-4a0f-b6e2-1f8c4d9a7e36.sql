@@ -0,0 +1,295 @@
+-- ============================================
+-- Multi-currency invoicing
+-- Companies report in a base currency; each invoice stores the exchange rate
+-- to that base at issue time so totals convert the same way every time
+-- ============================================
+
+-- Step 1: Base currency per company
+ALTER TABLE public.companies
+ADD COLUMN IF NOT EXISTS base_currency TEXT NOT NULL DEFAULT 'GBP';
+
+-- Step 2: Reference rates (ECB, published against EUR) kept up to date by exchange-rate-sync.
+-- rate is the number of units of currency per 1 unit of base_currency.
+CREATE TABLE public.exchange_rates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  base_currency TEXT NOT NULL DEFAULT 'EUR',
+  currency TEXT NOT NULL,
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  rate_date DATE NOT NULL,
+  source TEXT NOT NULL DEFAULT 'ecb',
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (base_currency, currency, rate_date)
+);
+
+CREATE INDEX idx_exchange_rates_lookup ON public.exchange_rates(currency, rate_date DESC);
+
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Reference data only; written by the service role
+CREATE POLICY "Authenticated users can view exchange rates"
+ON public.exchange_rates
+FOR SELECT
+TO authenticated
+USING (true);
+
+-- Step 3: Company rate overrides, taking precedence over reference rates from effective_from.
+-- rate is the number of units of base_currency per 1 unit of currency.
+CREATE TABLE public.exchange_rate_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL,
+  currency TEXT NOT NULL,
+  rate NUMERIC(18,8) NOT NULL CHECK (rate > 0),
+  effective_from DATE NOT NULL DEFAULT CURRENT_DATE,
+  note TEXT,
+  created_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (base_currency <> currency),
+  UNIQUE (company_id, base_currency, currency, effective_from)
+);
+
+CREATE INDEX idx_exchange_rate_overrides_company ON public.exchange_rate_overrides(company_id, currency, effective_from DESC);
+
+ALTER TABLE public.exchange_rate_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view exchange rate overrides"
+ON public.exchange_rate_overrides
+FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_roles
+    WHERE user_id = auth.uid()
+      AND company_id = exchange_rate_overrides.company_id
+      AND is_active = true
+  )
+);
+
+CREATE POLICY "Company admins can manage exchange rate overrides"
+ON public.exchange_rate_overrides
+FOR ALL
+USING (
+  public.is_company_admin(auth.uid(), company_id) OR
+  EXISTS (SELECT 1 FROM public.companies WHERE id = company_id AND owner_id = auth.uid())
+)
+WITH CHECK (
+  public.is_company_admin(auth.uid(), company_id) OR
+  EXISTS (SELECT 1 FROM public.companies WHERE id = company_id AND owner_id = auth.uid())
+);
+
+CREATE TRIGGER update_exchange_rate_overrides_updated_at
+BEFORE UPDATE ON public.exchange_rate_overrides
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 4: Rate for converting 1 unit of p_from into p_to on a given day.
+-- A company override wins; otherwise the ECB cross rate through EUR closest to
+-- (and preferably not after) p_on is used.
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(
+  p_from TEXT,
+  p_to TEXT,
+  p_on DATE DEFAULT CURRENT_DATE,
+  p_company_id UUID DEFAULT NULL
+)
+RETURNS TABLE(rate NUMERIC, source TEXT, rate_date DATE)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from TEXT := upper(p_from);
+  v_to TEXT := upper(p_to);
+  v_override RECORD;
+  v_from_rate NUMERIC;
+  v_to_rate NUMERIC;
+  v_from_date DATE;
+  v_to_date DATE;
+BEGIN
+  IF v_from IS NULL OR v_to IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_from = v_to THEN
+    RETURN QUERY SELECT 1::NUMERIC, 'identity'::TEXT, p_on;
+    RETURN;
+  END IF;
+
+  IF p_company_id IS NOT NULL THEN
+    SELECT
+      CASE WHEN o.currency = v_from THEN o.rate ELSE 1 / o.rate END AS rate,
+      o.effective_from
+    INTO v_override
+    FROM public.exchange_rate_overrides o
+    WHERE o.company_id = p_company_id
+      AND o.effective_from <= p_on
+      AND ((o.currency = v_from AND o.base_currency = v_to)
+        OR (o.currency = v_to AND o.base_currency = v_from))
+    ORDER BY o.effective_from DESC, o.updated_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT ROUND(v_override.rate, 8), 'override'::TEXT, v_override.effective_from;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_from = 'EUR' THEN
+    v_from_rate := 1;
+    v_from_date := p_on;
+  ELSE
+    SELECT r.rate, r.rate_date INTO v_from_rate, v_from_date
+    FROM public.exchange_rates r
+    WHERE r.base_currency = 'EUR' AND r.currency = v_from
+    ORDER BY (r.rate_date <= p_on) DESC, ABS(r.rate_date - p_on)
+    LIMIT 1;
+  END IF;
+
+  IF v_to = 'EUR' THEN
+    v_to_rate := 1;
+    v_to_date := p_on;
+  ELSE
+    SELECT r.rate, r.rate_date INTO v_to_rate, v_to_date
+    FROM public.exchange_rates r
+    WHERE r.base_currency = 'EUR' AND r.currency = v_to
+    ORDER BY (r.rate_date <= p_on) DESC, ABS(r.rate_date - p_on)
+    LIMIT 1;
+  END IF;
+
+  IF v_from_rate IS NULL OR v_to_rate IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT ROUND(v_to_rate / v_from_rate, 8), 'ecb'::TEXT, LEAST(v_from_date, v_to_date);
+END;
+$$;
+
+-- Step 5: Snapshot columns. amount_base is what reports add up.
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS base_currency TEXT,
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8),
+ADD COLUMN IF NOT EXISTS exchange_rate_source TEXT CHECK (exchange_rate_source IN ('identity', 'ecb', 'override', 'manual')),
+ADD COLUMN IF NOT EXISTS exchange_rate_date DATE;
+
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS amount_base DECIMAL(12,2) GENERATED ALWAYS AS (ROUND(amount * exchange_rate, 2)) STORED;
+
+COMMENT ON COLUMN public.construyo_invoices.exchange_rate IS 'units of base_currency per 1 unit of currency, fixed when the invoice is issued';
+
+ALTER TABLE IF EXISTS public.invoices
+ADD COLUMN IF NOT EXISTS base_currency TEXT,
+ADD COLUMN IF NOT EXISTS exchange_rate NUMERIC(18,8),
+ADD COLUMN IF NOT EXISTS exchange_rate_source TEXT CHECK (exchange_rate_source IN ('identity', 'ecb', 'override', 'manual')),
+ADD COLUMN IF NOT EXISTS exchange_rate_date DATE;
+
+ALTER TABLE IF EXISTS public.invoices
+ADD COLUMN IF NOT EXISTS amount_base DECIMAL(12,2) GENERATED ALWAYS AS (ROUND(amount * exchange_rate, 2)) STORED;
+
+-- Step 6: Take the snapshot. Drafts follow the current rate; the rate is fixed
+-- once the invoice leaves draft, unless it is set by hand (source 'manual').
+-- Invoices still missing a rate pick one up on their next update.
+CREATE OR REPLACE FUNCTION public.snapshot_invoice_exchange_rate()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_company_id UUID;
+  v_base TEXT;
+  v_issued_on DATE;
+  v_rate RECORD;
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.exchange_rate_source = 'manual'
+     AND NEW.exchange_rate IS NOT NULL
+     AND NEW.currency IS NOT DISTINCT FROM OLD.currency THEN
+    NEW.exchange_rate_date := COALESCE(NEW.exchange_rate_date, CURRENT_DATE);
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE'
+     AND NEW.exchange_rate IS NOT NULL
+     AND NEW.currency IS NOT DISTINCT FROM OLD.currency
+     AND NOT (COALESCE(OLD.status, 'draft') = 'draft') THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_TABLE_NAME = 'invoices' THEN
+    v_company_id := NEW.company_id;
+    v_issued_on := COALESCE(NEW.created_at::DATE, CURRENT_DATE);
+  ELSE
+    SELECT company_id INTO v_company_id
+    FROM public.user_roles
+    WHERE user_id = NEW.user_id AND is_active = true AND company_id IS NOT NULL
+    ORDER BY assigned_at
+    LIMIT 1;
+    v_issued_on := COALESCE(NEW.sent_date::DATE, NEW.created_at::DATE, CURRENT_DATE);
+  END IF;
+
+  SELECT base_currency INTO v_base FROM public.companies WHERE id = v_company_id;
+  v_base := COALESCE(v_base, 'GBP');
+
+  SELECT * INTO v_rate
+  FROM public.get_exchange_rate(COALESCE(NEW.currency, 'GBP'), v_base, v_issued_on, v_company_id);
+
+  NEW.base_currency := v_base;
+  NEW.exchange_rate := v_rate.rate;
+  NEW.exchange_rate_source := v_rate.source;
+  NEW.exchange_rate_date := v_rate.rate_date;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER snapshot_construyo_invoice_exchange_rate
+BEFORE INSERT OR UPDATE OF currency, status, exchange_rate, exchange_rate_source ON public.construyo_invoices
+FOR EACH ROW
+EXECUTE FUNCTION public.snapshot_invoice_exchange_rate();
+
+DO $$
+BEGIN
+  IF to_regclass('public.invoices') IS NOT NULL THEN
+    CREATE TRIGGER snapshot_company_invoice_exchange_rate
+    BEFORE INSERT OR UPDATE OF currency, status, exchange_rate, exchange_rate_source ON public.invoices
+    FOR EACH ROW
+    EXECUTE FUNCTION public.snapshot_invoice_exchange_rate();
+  END IF;
+END $$;
+
+-- Step 7: Called after new reference rates arrive; fills snapshots that had no rate available
+CREATE OR REPLACE FUNCTION public.refresh_missing_invoice_exchange_rates()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_updated INTEGER := 0;
+  v_count INTEGER;
+BEGIN
+  UPDATE public.construyo_invoices
+  SET exchange_rate_source = NULL
+  WHERE exchange_rate IS NULL;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_updated := v_updated + v_count;
+
+  IF to_regclass('public.invoices') IS NOT NULL THEN
+    EXECUTE 'UPDATE public.invoices SET exchange_rate_source = NULL WHERE exchange_rate IS NULL';
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    v_updated := v_updated + v_count;
+  END IF;
+
+  RETURN v_updated;
+END;
+$$;
+
+-- Step 8: Existing invoices in their company's base currency need no reference rate;
+-- the rest are snapshotted on their issue date once rates have been synced
+UPDATE public.construyo_invoices SET exchange_rate_source = NULL WHERE exchange_rate IS NULL;
+
+DO $$
+BEGIN
+  IF to_regclass('public.invoices') IS NOT NULL THEN
+    EXECUTE 'UPDATE public.invoices SET exchange_rate_source = NULL WHERE exchange_rate IS NULL';
+  END IF;
+END $$;
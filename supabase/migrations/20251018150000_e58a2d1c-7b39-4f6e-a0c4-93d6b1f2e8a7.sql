@@ -0,0 +1,118 @@
+-- ============================================
+-- Two-way accounting sync with Xero and QuickBooks
+-- Maps Construyo invoices, payments, credit notes and customers to their
+-- accounting records, and records how pulled changes are reconciled
+-- ============================================
+
+-- Step 1: Per-provider sync settings and the pull cursor
+CREATE TABLE public.accounting_sync_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('xero', 'quickbooks')),
+  conflict_policy TEXT NOT NULL DEFAULT 'accounting_wins'
+    CHECK (conflict_policy IN ('accounting_wins', 'construyo_wins', 'manual')),
+  pull_enabled BOOLEAN NOT NULL DEFAULT true,
+  sync_contacts BOOLEAN NOT NULL DEFAULT true,
+  last_pulled_at TIMESTAMP WITH TIME ZONE,
+  last_run_at TIMESTAMP WITH TIME ZONE,
+  last_run_status TEXT CHECK (last_run_status IN ('running', 'succeeded', 'failed')),
+  last_run_stats JSONB NOT NULL DEFAULT '{}',
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, provider)
+);
+
+COMMENT ON COLUMN public.accounting_sync_settings.conflict_policy IS 'accounting_wins: safe accounting changes (payments, voids, contact details) are applied automatically; construyo_wins: accounting changes are only reported as drift; manual: every change waits for a decision';
+
+ALTER TABLE public.accounting_sync_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own accounting sync settings"
+ON public.accounting_sync_settings
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_accounting_sync_settings_updated_at
+BEFORE UPDATE ON public.accounting_sync_settings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Mapping between Construyo records and accounting records.
+-- local_id points at construyo_invoices (invoice), invoice_payments (payment,
+-- credit_note) or customers (contact). drift lists the differences found on the
+-- last pull that were not applied.
+CREATE TABLE public.accounting_entity_mappings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL CHECK (provider IN ('xero', 'quickbooks')),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('invoice', 'payment', 'credit_note', 'contact')),
+  local_id UUID NOT NULL,
+  external_id TEXT NOT NULL,
+  external_number TEXT,
+  sync_status TEXT NOT NULL DEFAULT 'in_sync'
+    CHECK (sync_status IN ('in_sync', 'drift', 'conflict', 'error')),
+  drift JSONB NOT NULL DEFAULT '[]',
+  remote_snapshot JSONB NOT NULL DEFAULT '{}',
+  remote_updated_at TIMESTAMP WITH TIME ZONE,
+  acknowledged_remote_at TIMESTAMP WITH TIME ZONE,
+  last_pushed_at TIMESTAMP WITH TIME ZONE,
+  last_pulled_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, provider, entity_type, local_id),
+  UNIQUE (user_id, provider, entity_type, external_id)
+);
+
+CREATE INDEX idx_accounting_entity_mappings_status ON public.accounting_entity_mappings(user_id, provider, sync_status);
+
+ALTER TABLE public.accounting_entity_mappings ENABLE ROW LEVEL SECURITY;
+
+-- Mappings are written by integration-job-worker and accounting-sync with the service role
+CREATE POLICY "Users can view their own accounting mappings"
+ON public.accounting_entity_mappings
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_accounting_entity_mappings_updated_at
+BEFORE UPDATE ON public.accounting_entity_mappings
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Map invoices and credit notes that were already pushed
+INSERT INTO public.accounting_entity_mappings (user_id, provider, entity_type, local_id, external_id, external_number, last_pushed_at)
+SELECT DISTINCT ON (j.user_id, j.service_name, ci.id)
+  j.user_id,
+  j.service_name,
+  'invoice',
+  ci.id,
+  COALESCE(j.result->'Invoices'->0->>'InvoiceID', j.result->'Invoice'->>'Id'),
+  ci.invoice_number,
+  j.completed_at
+FROM public.integration_jobs j
+JOIN public.construyo_invoices ci
+  ON ci.id::TEXT = j.payload->>'crmInvoiceId' AND ci.user_id = j.user_id
+WHERE j.service_name IN ('xero', 'quickbooks')
+  AND j.action = 'sync_invoice'
+  AND j.status = 'succeeded'
+  AND COALESCE(j.result->'Invoices'->0->>'InvoiceID', j.result->'Invoice'->>'Id') IS NOT NULL
+ORDER BY j.user_id, j.service_name, ci.id, j.completed_at DESC
+ON CONFLICT DO NOTHING;
+
+INSERT INTO public.accounting_entity_mappings (user_id, provider, entity_type, local_id, external_id, external_number, last_pushed_at)
+SELECT
+  p.user_id,
+  p.accounting_provider,
+  'credit_note',
+  p.id,
+  COALESCE(j.result->'CreditNotes'->0->>'CreditNoteID', j.result->'CreditMemo'->>'Id'),
+  p.credit_note_number,
+  p.accounting_synced_at
+FROM public.invoice_payments p
+JOIN public.integration_jobs j ON j.id = p.accounting_job_id
+WHERE p.entry_type = 'credit_note'
+  AND p.accounting_provider IS NOT NULL
+  AND j.status = 'succeeded'
+  AND COALESCE(j.result->'CreditNotes'->0->>'CreditNoteID', j.result->'CreditMemo'->>'Id') IS NOT NULL
+ON CONFLICT DO NOTHING;
@@ -0,0 +1,178 @@
+-- ============================================
+-- Quotes built from quote requests
+-- Priced quotes with versioned revisions, a public acceptance link with
+-- e-signature, and conversion of an accepted quote into a deposit invoice
+-- and a project
+-- ============================================
+
+-- Step 1: Quotes. public_token is the customer's acceptance link; the customer
+-- always sees sent_revision, while later draft revisions stay private.
+CREATE TABLE public.quotes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  quote_request_id UUID REFERENCES public.quote_requests(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL,
+  quote_number TEXT NOT NULL,
+  title TEXT NOT NULL,
+  customer_name TEXT NOT NULL,
+  customer_email TEXT NOT NULL,
+  customer_phone TEXT,
+  currency TEXT NOT NULL DEFAULT 'GBP',
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'sent', 'viewed', 'accepted', 'declined', 'expired')),
+  current_revision INTEGER NOT NULL DEFAULT 1,
+  sent_revision INTEGER,
+  public_token TEXT NOT NULL UNIQUE
+    DEFAULT replace(replace(encode(gen_random_bytes(24), 'base64'), '/', '_'), '+', '-'),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  viewed_at TIMESTAMP WITH TIME ZONE,
+  accepted_revision INTEGER,
+  accepted_at TIMESTAMP WITH TIME ZONE,
+  signer_name TEXT,
+  signature_image TEXT,
+  signer_ip TEXT,
+  signer_user_agent TEXT,
+  declined_at TIMESTAMP WITH TIME ZONE,
+  decline_reason TEXT,
+  deposit_invoice_id UUID REFERENCES public.construyo_invoices(id) ON DELETE SET NULL,
+  project_id UUID,
+  converted_at TIMESTAMP WITH TIME ZONE,
+  conversion_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, quote_number)
+);
+
+-- projects is not created by these migrations, so only link it where it exists
+DO $$
+BEGIN
+  IF to_regclass('public.projects') IS NOT NULL THEN
+    ALTER TABLE public.quotes
+      ADD CONSTRAINT quotes_project_id_fkey FOREIGN KEY (project_id) REFERENCES public.projects(id) ON DELETE SET NULL;
+  END IF;
+END $$;
+
+CREATE INDEX idx_quotes_user_status ON public.quotes(user_id, status);
+CREATE INDEX idx_quotes_quote_request ON public.quotes(quote_request_id);
+
+ALTER TABLE public.quotes ENABLE ROW LEVEL SECURITY;
+
+-- Customers reach their quote through the quote-manager edge function, never directly
+CREATE POLICY "Users can manage their own quotes"
+ON public.quotes
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_quotes_updated_at
+BEFORE UPDATE ON public.quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Revisions. Line items use the same shape as the invoice editor.
+-- A revision is frozen once it has been sent; changes after that go into a new revision.
+CREATE TABLE public.quote_revisions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  quote_id UUID NOT NULL REFERENCES public.quotes(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  revision_number INTEGER NOT NULL,
+  line_items JSONB NOT NULL DEFAULT '[]',
+  cis_rate DECIMAL(5,2) NOT NULL DEFAULT 0 CHECK (cis_rate IN (0, 20, 30)),
+  subtotal DECIMAL(12,2) NOT NULL DEFAULT 0,
+  vat_total DECIMAL(12,2) NOT NULL DEFAULT 0,
+  total_amount DECIMAL(12,2) NOT NULL DEFAULT 0,
+  deposit_percentage DECIMAL(5,2) NOT NULL DEFAULT 25 CHECK (deposit_percentage >= 0 AND deposit_percentage <= 100),
+  deposit_amount DECIMAL(12,2) GENERATED ALWAYS AS (ROUND(total_amount * deposit_percentage / 100, 2)) STORED,
+  valid_until DATE,
+  notes TEXT,
+  terms TEXT,
+  sent_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (quote_id, revision_number)
+);
+
+ALTER TABLE public.quote_revisions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own quote revisions"
+ON public.quote_revisions
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_quote_revisions_updated_at
+BEFORE UPDATE ON public.quote_revisions
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE OR REPLACE FUNCTION public.protect_sent_quote_revision()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF OLD.sent_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Revision % has been sent and cannot be changed; create a new revision instead', OLD.revision_number;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER protect_sent_quote_revision
+BEFORE UPDATE ON public.quote_revisions
+FOR EACH ROW
+EXECUTE FUNCTION public.protect_sent_quote_revision();
+
+-- Step 3: Quotes share the invoice numbering scheme under their own prefix
+CREATE OR REPLACE FUNCTION public.generate_invoice_number(p_prefix TEXT DEFAULT 'INV', p_user_id UUID DEFAULT NULL)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id UUID := COALESCE(auth.uid(), p_user_id);
+  next_number INTEGER;
+BEGIN
+  IF p_prefix = 'INV' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(invoice_number FROM 'INV-(\d+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM public.construyo_invoices
+    WHERE user_id = v_user_id;
+  ELSIF p_prefix = 'CN' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(credit_note_number FROM 'CN-(\d+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM public.invoice_payments
+    WHERE user_id = v_user_id;
+  ELSIF p_prefix = 'QUO' THEN
+    SELECT COALESCE(MAX(CAST(SUBSTRING(quote_number FROM 'QUO-(\d+)') AS INTEGER)), 0) + 1
+    INTO next_number
+    FROM public.quotes
+    WHERE user_id = v_user_id;
+  ELSE
+    RAISE EXCEPTION 'Unknown document prefix: %', p_prefix;
+  END IF;
+
+  -- Format as INV-001 / CN-001 / QUO-001 etc.
+  RETURN p_prefix || '-' || LPAD(next_number::TEXT, 3, '0');
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.set_quote_number()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.quote_number IS NULL OR NEW.quote_number = '' THEN
+    NEW.quote_number := public.generate_invoice_number('QUO', NEW.user_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_quote_number
+BEFORE INSERT ON public.quotes
+FOR EACH ROW
+EXECUTE FUNCTION public.set_quote_number();
@@ -0,0 +1,61 @@
+-- ============================================
+-- Area and quantity pricing engine
+-- Pricing rules gain graduated tiers, minimum charges, complexity multipliers
+-- and material markups; regional multipliers are matched by postcode; leads
+-- and quote requests carry structured project measurements
+-- ============================================
+
+-- Step 1: Rule settings. tiers are graduated bands of
+-- [{ "up_to": 20, "price_per_unit": 150 }, { "up_to": null, "price_per_unit": 120 }];
+-- without tiers the whole quantity is priced at price_per_unit.
+ALTER TABLE public.pricing_rules
+  ADD COLUMN IF NOT EXISTS tiers JSONB NOT NULL DEFAULT '[]',
+  ADD COLUMN IF NOT EXISTS minimum_charge NUMERIC NOT NULL DEFAULT 0 CHECK (minimum_charge >= 0),
+  ADD COLUMN IF NOT EXISTS complexity_multipliers JSONB NOT NULL
+    DEFAULT '{"standard": 1, "moderate": 1.15, "complex": 1.35}',
+  ADD COLUMN IF NOT EXISTS material_markup_percentage NUMERIC NOT NULL DEFAULT 0
+    CHECK (material_markup_percentage >= 0);
+
+COMMENT ON COLUMN public.pricing_rules.unit_type IS 'sqm, sqft, linear_m, linear_ft, room, hour, day or project; measurements in another length or area unit are converted';
+
+-- Step 2: Regional multipliers, matched on the longest postcode prefix (e.g. "SW1A", then "SW")
+CREATE TABLE public.pricing_regional_multipliers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  postcode_prefix TEXT NOT NULL CHECK (postcode_prefix ~ '^[A-Z0-9]+$'),
+  multiplier NUMERIC NOT NULL CHECK (multiplier > 0),
+  label TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, postcode_prefix)
+);
+
+ALTER TABLE public.pricing_regional_multipliers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own regional multipliers"
+ON public.pricing_regional_multipliers
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_pricing_regional_multipliers_updated_at
+BEFORE UPDATE ON public.pricing_regional_multipliers
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Structured measurements, e.g.
+-- { "quantity": 18, "unit": "sqm", "postcode": "SW1A 1AA", "complexity": "moderate", "materials_cost": 2400 }
+ALTER TABLE public.leads
+  ADD COLUMN IF NOT EXISTS project_measurements JSONB NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.quote_requests
+  ADD COLUMN IF NOT EXISTS project_measurements JSONB NOT NULL DEFAULT '{}';
+
+-- Quote requests used to carry the size loosely in form_data
+UPDATE public.quote_requests
+SET project_measurements = jsonb_build_object(
+  'quantity',
+  (COALESCE(form_data->>'quantity', form_data->>'area', form_data->>'size'))::NUMERIC
+)
+WHERE project_measurements = '{}'
+  AND COALESCE(form_data->>'quantity', form_data->>'area', form_data->>'size') ~ '^[0-9]+(\.[0-9]+)?$';
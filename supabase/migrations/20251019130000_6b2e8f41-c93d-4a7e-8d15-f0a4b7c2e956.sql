@@ -0,0 +1,72 @@
+-- ============================================
+-- Stackable discount evaluation
+-- Discount rules get an explicit priority and stacking groups, custom rules
+-- get a condition DSL, and usage limits are claimed atomically
+-- ============================================
+
+-- Step 1: Priority and stacking. Rules are evaluated highest priority first;
+-- within a stacking group only the first eligible rule applies, and an
+-- exclusive rule applies on its own or not at all.
+ALTER TABLE public.discount_rules
+  ADD COLUMN IF NOT EXISTS priority INTEGER NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS stacking_group TEXT,
+  ADD COLUMN IF NOT EXISTS is_exclusive BOOLEAN NOT NULL DEFAULT false;
+
+COMMENT ON COLUMN public.discount_rules.conditions IS 'min_amount and min_previous_orders for built-in types; custom rules add { "match": "all" | "any", "rules": [{ "field", "operator", "value" }] } over project_type, lead_source, postcode, customer_tags, invoice_date and invoice_amount';
+
+CREATE INDEX IF NOT EXISTS idx_discount_rules_priority
+  ON public.discount_rules(user_id, priority DESC)
+  WHERE is_active = true;
+
+-- Existing rules keep the old "highest discount first" order
+UPDATE public.discount_rules
+SET priority = ranked.position
+FROM (
+  SELECT id, (ROW_NUMBER() OVER (PARTITION BY user_id ORDER BY discount_value ASC))::INTEGER AS position
+  FROM public.discount_rules
+) ranked
+WHERE ranked.id = discount_rules.id;
+
+-- Step 2: Stacked applications. Several rules can now apply to one invoice,
+-- each once, in the order they were evaluated
+ALTER TABLE public.discount_applications
+  ADD COLUMN IF NOT EXISTS stack_position INTEGER NOT NULL DEFAULT 1;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_applications_invoice_rule
+  ON public.discount_applications(invoice_id, discount_rule_id);
+
+-- Step 3: Atomic usage counting. The conditional update takes the row lock, so
+-- concurrent invoices can't both take the last use of a rule
+CREATE OR REPLACE FUNCTION public.claim_discount_rule_usage(p_rule_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.discount_rules
+  SET usage_count = COALESCE(usage_count, 0) + 1
+  WHERE id = p_rule_id
+    AND is_active = true
+    AND (max_usage IS NULL OR COALESCE(usage_count, 0) < max_usage);
+
+  RETURN FOUND;
+END;
+$$;
+
+-- Gives back a claimed use when applying the discount fails afterwards
+CREATE OR REPLACE FUNCTION public.release_discount_rule_usage(p_rule_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.discount_rules
+  SET usage_count = GREATEST(COALESCE(usage_count, 0) - 1, 0)
+  WHERE id = p_rule_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_discount_rule_usage(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.release_discount_rule_usage(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,201 @@
+-- ============================================
+-- Discount codes
+-- Customers can redeem promo codes tied to discount rules on microsite quote
+-- forms and payment link pages. Redemptions are recorded in
+-- discount_applications and failed guesses are throttled.
+-- ============================================
+
+-- Step 1: Codes. max_redemptions NULL is unlimited (1 for a single-use voucher);
+-- max_redemptions_per_customer counts by customer email
+CREATE TABLE public.discount_codes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  discount_rule_id UUID NOT NULL REFERENCES public.discount_rules(id) ON DELETE CASCADE,
+  code TEXT NOT NULL CHECK (code ~ '^[A-Z0-9-]{6,32}$'),
+  description TEXT,
+  max_redemptions INTEGER CHECK (max_redemptions > 0),
+  max_redemptions_per_customer INTEGER DEFAULT 1 CHECK (max_redemptions_per_customer > 0),
+  redemption_count INTEGER NOT NULL DEFAULT 0,
+  starts_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE,
+  channels TEXT[] NOT NULL DEFAULT ARRAY['microsite', 'payment_link']
+    CHECK (channels <@ ARRAY['microsite', 'payment_link']),
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, code)
+);
+
+ALTER TABLE public.discount_codes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own discount codes"
+ON public.discount_codes
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.discount_rules dr
+    WHERE dr.id = discount_rule_id AND dr.user_id = auth.uid()
+  )
+);
+
+CREATE TRIGGER update_discount_codes_updated_at
+BEFORE UPDATE ON public.discount_codes
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 2: Redemptions are discount applications. A microsite redemption is
+-- against the quote request, before there is an invoice.
+ALTER TABLE public.discount_applications
+  ALTER COLUMN invoice_id DROP NOT NULL,
+  ADD COLUMN IF NOT EXISTS quote_request_id UUID REFERENCES public.quote_requests(id) ON DELETE CASCADE,
+  ADD COLUMN IF NOT EXISTS discount_code_id UUID REFERENCES public.discount_codes(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS redemption_channel TEXT NOT NULL DEFAULT 'automatic'
+    CHECK (redemption_channel IN ('automatic', 'microsite', 'payment_link')),
+  ADD COLUMN IF NOT EXISTS customer_email TEXT,
+  ADD CONSTRAINT discount_applications_target_check
+    CHECK (invoice_id IS NOT NULL OR quote_request_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_discount_applications_code_customer
+  ON public.discount_applications(discount_code_id, lower(customer_email))
+  WHERE discount_code_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discount_applications_quote_request_rule
+  ON public.discount_applications(quote_request_id, discount_rule_id);
+
+-- Step 3: Payment link pages. The token is the customer's link to /pay/:token
+ALTER TABLE public.construyo_invoices
+  ADD COLUMN IF NOT EXISTS payment_token TEXT UNIQUE
+    DEFAULT replace(replace(encode(gen_random_bytes(24), 'base64'), '/', '_'), '+', '-');
+
+-- Step 4: Brute-force guard. Every code entered on a public page is recorded
+-- against the caller's IP and the invoice or microsite it was entered on
+CREATE TABLE public.discount_code_attempts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+  target TEXT NOT NULL,
+  ip_address TEXT NOT NULL,
+  attempted_code TEXT NOT NULL,
+  succeeded BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.discount_code_attempts ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view code attempts on their own pages"
+ON public.discount_code_attempts
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_discount_code_attempts_ip ON public.discount_code_attempts(ip_address, created_at DESC);
+CREATE INDEX idx_discount_code_attempts_target ON public.discount_code_attempts(target, created_at DESC);
+
+-- 10 failed guesses per IP in 15 minutes, and 25 per invoice or microsite in an
+-- hour so rotating IPs doesn't help
+CREATE OR REPLACE FUNCTION public.discount_code_attempts_allowed(p_ip_address TEXT, p_target TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    (SELECT COUNT(*) FROM public.discount_code_attempts
+     WHERE ip_address = p_ip_address AND NOT succeeded
+       AND created_at > now() - interval '15 minutes') < 10
+    AND
+    (SELECT COUNT(*) FROM public.discount_code_attempts
+     WHERE target = p_target AND NOT succeeded
+       AND created_at > now() - interval '1 hour') < 25;
+$$;
+
+-- Step 5: Redemption. The code row is locked while its limits are checked and
+-- the application recorded, so a single-use code can't be redeemed twice.
+-- Returns 'ok' or the reason the code can't be used.
+CREATE OR REPLACE FUNCTION public.redeem_discount_code(
+  p_code_id UUID,
+  p_channel TEXT,
+  p_customer_email TEXT,
+  p_invoice_id UUID,
+  p_quote_request_id UUID,
+  p_original_amount NUMERIC,
+  p_discount_amount NUMERIC
+)
+RETURNS TEXT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_code public.discount_codes%ROWTYPE;
+  v_customer_redemptions INTEGER;
+  v_invoice_amount NUMERIC;
+BEGIN
+  SELECT * INTO v_code FROM public.discount_codes WHERE id = p_code_id FOR UPDATE;
+
+  IF NOT FOUND OR NOT v_code.is_active OR NOT (p_channel = ANY (v_code.channels)) THEN
+    RETURN 'inactive';
+  END IF;
+
+  IF (v_code.starts_at IS NOT NULL AND v_code.starts_at > now())
+     OR (v_code.expires_at IS NOT NULL AND v_code.expires_at < now()) THEN
+    RETURN 'expired';
+  END IF;
+
+  IF v_code.max_redemptions IS NOT NULL AND v_code.redemption_count >= v_code.max_redemptions THEN
+    RETURN 'exhausted';
+  END IF;
+
+  IF v_code.max_redemptions_per_customer IS NOT NULL THEN
+    SELECT COUNT(*) INTO v_customer_redemptions
+    FROM public.discount_applications
+    WHERE discount_code_id = p_code_id
+      AND lower(customer_email) = lower(p_customer_email);
+
+    IF v_customer_redemptions >= v_code.max_redemptions_per_customer THEN
+      RETURN 'customer_limit';
+    END IF;
+  END IF;
+
+  -- The amount was priced from what the caller read; refuse if it has changed since
+  IF p_invoice_id IS NOT NULL THEN
+    SELECT amount INTO v_invoice_amount FROM public.construyo_invoices WHERE id = p_invoice_id FOR UPDATE;
+    IF v_invoice_amount IS DISTINCT FROM p_original_amount THEN
+      RETURN 'stale';
+    END IF;
+  END IF;
+
+  IF NOT public.claim_discount_rule_usage(v_code.discount_rule_id) THEN
+    RETURN 'exhausted';
+  END IF;
+
+  INSERT INTO public.discount_applications (
+    user_id, invoice_id, quote_request_id, discount_rule_id, discount_code_id,
+    redemption_channel, customer_email, original_amount, discount_amount, final_amount
+  ) VALUES (
+    v_code.user_id, p_invoice_id, p_quote_request_id, v_code.discount_rule_id, v_code.id,
+    p_channel, lower(p_customer_email), p_original_amount, p_discount_amount,
+    p_original_amount - p_discount_amount
+  );
+
+  UPDATE public.discount_codes
+  SET redemption_count = redemption_count + 1
+  WHERE id = p_code_id;
+
+  IF p_invoice_id IS NOT NULL THEN
+    UPDATE public.construyo_invoices
+    SET amount = p_original_amount - p_discount_amount
+    WHERE id = p_invoice_id;
+  END IF;
+
+  RETURN 'ok';
+EXCEPTION
+  -- The rule has already been applied to this invoice or quote request
+  WHEN unique_violation THEN
+    RETURN 'already_applied';
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.discount_code_attempts_allowed(text, text) FROM PUBLIC, anon, authenticated;
+REVOKE ALL ON FUNCTION public.redeem_discount_code(uuid, text, text, uuid, uuid, numeric, numeric) FROM PUBLIC, anon, authenticated;
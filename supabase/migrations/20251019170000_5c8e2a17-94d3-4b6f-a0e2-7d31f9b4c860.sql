@@ -0,0 +1,170 @@
+-- ============================================
+-- Drip sequences for the auto-responder
+-- A sequence is an ordered list of messages sent to a lead with a delay
+-- before each one. Leads are enrolled when a sequence's trigger matches and
+-- leave it when every step has been sent, when they book a consultation, or
+-- when their status changes.
+-- ============================================
+
+-- Step 1: Sequences. trigger_on and conditions work like
+-- message_templates.trigger_conditions
+CREATE TABLE public.message_sequences (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  trigger_on TEXT[] NOT NULL DEFAULT ARRAY['lead_created']
+    CHECK (trigger_on <@ ARRAY['lead_created', 'lead_updated', 'manual']),
+  conditions JSONB NOT NULL DEFAULT '{}'::jsonb,
+  exit_on_booking BOOLEAN NOT NULL DEFAULT true,
+  exit_on_status_change BOOLEAN NOT NULL DEFAULT true,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.message_sequences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own message sequences"
+ON public.message_sequences
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Step 2: Steps. delay_minutes is counted from the previous step (or from
+-- enrollment for the first step). fallback_channel is used when the primary
+-- channel can't reach the lead: no address, a failed send or a bounce.
+-- step_order isn't unique so the editor can reorder steps one row at a time.
+CREATE TABLE public.message_sequence_steps (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.message_sequences(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  step_order INTEGER NOT NULL CHECK (step_order >= 0),
+  delay_minutes INTEGER NOT NULL DEFAULT 0 CHECK (delay_minutes >= 0),
+  channel TEXT NOT NULL CHECK (channel IN ('email', 'whatsapp')),
+  fallback_channel TEXT CHECK (fallback_channel IN ('email', 'whatsapp')),
+  subject_template TEXT,
+  message_template TEXT NOT NULL,
+  calendly_link_template TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (fallback_channel IS NULL OR fallback_channel <> channel)
+);
+
+ALTER TABLE public.message_sequence_steps ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own sequence steps"
+ON public.message_sequence_steps
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (
+  auth.uid() = user_id
+  AND EXISTS (
+    SELECT 1 FROM public.message_sequences ms
+    WHERE ms.id = sequence_id AND ms.user_id = auth.uid()
+  )
+);
+
+-- Step 3: Enrollments. current_step is the number of steps already sent;
+-- next_run_at is when the next one is due
+CREATE TABLE public.message_sequence_enrollments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  sequence_id UUID NOT NULL REFERENCES public.message_sequences(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'completed', 'exited')),
+  current_step INTEGER NOT NULL DEFAULT 0,
+  next_run_at TIMESTAMP WITH TIME ZONE,
+  trigger_type TEXT NOT NULL DEFAULT 'manual',
+  exit_reason TEXT CHECK (exit_reason IN ('booked', 'status_changed', 'unreachable', 'manual')),
+  enrolled_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_sent_at TIMESTAMP WITH TIME ZONE,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  exited_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.message_sequence_enrollments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own sequence enrollments"
+ON public.message_sequence_enrollments
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Users stop enrollments from the lead timeline; sending is done by the
+-- auto-responder with the service role
+CREATE POLICY "Users can update their own sequence enrollments"
+ON public.message_sequence_enrollments
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- A lead is in a sequence at most once at a time
+CREATE UNIQUE INDEX idx_sequence_enrollments_active
+ON public.message_sequence_enrollments(sequence_id, lead_id)
+WHERE status = 'active';
+
+CREATE INDEX idx_sequence_enrollments_due
+ON public.message_sequence_enrollments(next_run_at)
+WHERE status = 'active';
+
+CREATE INDEX idx_sequence_enrollments_lead_id ON public.message_sequence_enrollments(lead_id);
+CREATE INDEX idx_sequence_steps_sequence_id ON public.message_sequence_steps(sequence_id, step_order);
+CREATE INDEX idx_message_sequences_user_id ON public.message_sequences(user_id);
+
+-- Step 4: Link delivery logs to the step that sent them. fallback_from is the
+-- channel the step was meant to use when the message went by its fallback.
+ALTER TABLE public.message_delivery_logs
+ADD COLUMN enrollment_id UUID REFERENCES public.message_sequence_enrollments(id) ON DELETE SET NULL,
+ADD COLUMN sequence_step_id UUID REFERENCES public.message_sequence_steps(id) ON DELETE SET NULL,
+ADD COLUMN fallback_from TEXT CHECK (fallback_from IN ('email', 'whatsapp'));
+
+CREATE INDEX idx_message_delivery_logs_enrollment_id ON public.message_delivery_logs(enrollment_id);
+CREATE INDEX idx_message_delivery_logs_external_id ON public.message_delivery_logs(external_message_id);
+
+-- Step 5: Leave sequences when the lead's status changes
+CREATE OR REPLACE FUNCTION public.exit_sequences_on_lead_status_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.message_sequence_enrollments e
+  SET status = 'exited',
+      exit_reason = 'status_changed',
+      exited_at = now(),
+      next_run_at = NULL
+  FROM public.message_sequences s
+  WHERE e.sequence_id = s.id
+    AND e.lead_id = NEW.id
+    AND e.status = 'active'
+    AND s.exit_on_status_change;
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.exit_sequences_on_lead_status_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER exit_sequences_on_lead_status_change
+AFTER UPDATE OF status ON public.leads
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.exit_sequences_on_lead_status_change();
+
+CREATE TRIGGER update_message_sequences_updated_at
+BEFORE UPDATE ON public.message_sequences
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_message_sequence_steps_updated_at
+BEFORE UPDATE ON public.message_sequence_steps
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_message_sequence_enrollments_updated_at
+BEFORE UPDATE ON public.message_sequence_enrollments
+FOR EACH ROW
+EXECUTE FUNCTION public.update_updated_at_column();
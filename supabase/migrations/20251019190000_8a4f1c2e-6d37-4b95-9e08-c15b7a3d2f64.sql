@@ -0,0 +1,277 @@
+-- ============================================
+-- Automation rules engine
+-- Domain events (lead created or status changed, invoice overdue, feedback
+-- submitted, booking made) are queued in automation_events. The
+-- automation-engine edge function drains the queue, evaluates each active
+-- automation_rules row for the event and runs its actions, recording every
+-- run in automation_logs.
+-- ============================================
+
+-- Step 1: Rules. conditions is { match: 'all' | 'any', rules: [{ field,
+-- operator, value }] }; actions is an ordered array of { type, ...config }
+ALTER TABLE public.automation_rules
+ADD COLUMN description TEXT,
+ADD COLUMN priority INTEGER NOT NULL DEFAULT 100,
+ADD COLUMN run_count INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN last_run_at TIMESTAMP WITH TIME ZONE;
+
+-- Earlier rules were written with 'new_lead'
+UPDATE public.automation_rules SET trigger_type = 'lead_created' WHERE trigger_type = 'new_lead';
+
+CREATE INDEX IF NOT EXISTS idx_automation_rules_user_trigger
+ON public.automation_rules(user_id, trigger_type)
+WHERE is_active;
+
+-- Step 2: Event queue
+CREATE TABLE public.automation_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type TEXT NOT NULL
+    CHECK (event_type IN ('lead_created', 'lead_status_changed', 'invoice_overdue', 'feedback_submitted', 'booking_made')),
+  entity_type TEXT NOT NULL CHECK (entity_type IN ('lead', 'invoice', 'feedback')),
+  entity_id UUID NOT NULL,
+  payload JSONB NOT NULL DEFAULT '{}',
+  -- Events that must only fire once (e.g. an invoice going overdue) set a key
+  dedupe_key TEXT,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'running', 'processed', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  locked_at TIMESTAMP WITH TIME ZONE,
+  processed_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (user_id, dedupe_key)
+);
+
+ALTER TABLE public.automation_events ENABLE ROW LEVEL SECURITY;
+
+-- Events are written by triggers and the engine only
+CREATE POLICY "Users can view their own automation events"
+ON public.automation_events
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_automation_events_pending ON public.automation_events(created_at)
+  WHERE status IN ('pending', 'running');
+
+CREATE TRIGGER update_automation_events_updated_at
+  BEFORE UPDATE ON public.automation_events
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Run history. automation_logs predates the engine; the new columns
+-- tie each row to a rule, event and entity
+ALTER TABLE public.automation_logs
+ADD COLUMN user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE,
+ADD COLUMN rule_id UUID REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+ADD COLUMN event_id UUID REFERENCES public.automation_events(id) ON DELETE SET NULL,
+ADD COLUMN entity_type TEXT,
+ADD COLUMN entity_id UUID,
+ADD COLUMN dry_run BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN conditions_matched BOOLEAN,
+ADD COLUMN action_results JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN error_message TEXT;
+
+COMMENT ON COLUMN public.automation_logs.status IS 'succeeded: every action ran; partial: some actions failed; failed: no action ran; not_matched: conditions were false; dry_run: test run, nothing executed';
+
+CREATE POLICY "Users can view their own automation logs"
+ON public.automation_logs
+FOR SELECT
+TO authenticated
+USING (auth.uid() = user_id);
+
+CREATE INDEX idx_automation_logs_user_created ON public.automation_logs(user_id, created_at DESC);
+CREATE INDEX idx_automation_logs_rule_id ON public.automation_logs(rule_id);
+
+-- Step 4: Tasks created by the create_task action (or by hand)
+CREATE TABLE public.tasks (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  title TEXT NOT NULL,
+  description TEXT,
+  due_date DATE,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'done')),
+  assigned_to UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  lead_id UUID REFERENCES public.leads(id) ON DELETE CASCADE,
+  invoice_id UUID REFERENCES public.construyo_invoices(id) ON DELETE CASCADE,
+  automation_rule_id UUID REFERENCES public.automation_rules(id) ON DELETE SET NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own tasks"
+ON public.tasks
+FOR ALL
+USING (auth.uid() = user_id OR auth.uid() = assigned_to)
+WITH CHECK (auth.uid() = user_id OR auth.uid() = assigned_to);
+
+CREATE INDEX idx_tasks_user_status ON public.tasks(user_id, status, due_date);
+CREATE INDEX idx_tasks_lead_id ON public.tasks(lead_id);
+
+CREATE TRIGGER update_tasks_updated_at
+  BEFORE UPDATE ON public.tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 5: Queue an event for a user, skipped when no active rule listens for it
+CREATE OR REPLACE FUNCTION public.enqueue_automation_event(
+  p_user_id UUID,
+  p_event_type TEXT,
+  p_entity_type TEXT,
+  p_entity_id UUID,
+  p_payload JSONB DEFAULT '{}',
+  p_dedupe_key TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  event_id UUID;
+BEGIN
+  IF p_user_id IS NULL OR NOT EXISTS (
+    SELECT 1 FROM public.automation_rules ar
+    WHERE ar.user_id = p_user_id
+      AND ar.trigger_type = p_event_type
+      AND ar.is_active
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  INSERT INTO public.automation_events (user_id, event_type, entity_type, entity_id, payload, dedupe_key)
+  VALUES (p_user_id, p_event_type, p_entity_type, p_entity_id, COALESCE(p_payload, '{}'::jsonb), p_dedupe_key)
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING
+  RETURNING id INTO event_id;
+
+  RETURN event_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_automation_event(uuid, text, text, uuid, jsonb, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.automation_lead_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM public.enqueue_automation_event(
+      NEW.created_by, 'lead_created', 'lead', NEW.id,
+      jsonb_build_object('status', NEW.status)
+    );
+  ELSIF OLD.status IS DISTINCT FROM NEW.status THEN
+    PERFORM public.enqueue_automation_event(
+      NEW.created_by, 'lead_status_changed', 'lead', NEW.id,
+      jsonb_build_object('previous_status', OLD.status, 'status', NEW.status)
+    );
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.automation_lead_events() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER automation_lead_events
+AFTER INSERT OR UPDATE OF status ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.automation_lead_events();
+
+CREATE OR REPLACE FUNCTION public.automation_feedback_events()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.enqueue_automation_event(
+    NEW.user_id, 'feedback_submitted', 'feedback', NEW.id,
+    jsonb_build_object('rating', NEW.rating)
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.automation_feedback_events() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER automation_feedback_events
+AFTER INSERT ON public.feedback_responses
+FOR EACH ROW
+EXECUTE FUNCTION public.automation_feedback_events();
+
+-- Invoices become overdue by the passing of time rather than by an update,
+-- so the engine calls this on each scheduled run. The key includes the due
+-- date so an invoice whose due date is moved can go overdue again.
+CREATE OR REPLACE FUNCTION public.enqueue_overdue_invoice_events()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  queued INTEGER;
+BEGIN
+  INSERT INTO public.automation_events (user_id, event_type, entity_type, entity_id, payload, dedupe_key)
+  SELECT ci.user_id, 'invoice_overdue', 'invoice', ci.id,
+         jsonb_build_object('due_date', ci.due_date, 'balance_due', ci.balance_due),
+         'invoice_overdue:' || ci.id || ':' || ci.due_date
+  FROM public.construyo_invoices ci
+  WHERE ci.due_date < CURRENT_DATE
+    AND ci.balance_due > 0
+    AND COALESCE(ci.status, 'draft') NOT IN ('paid', 'cancelled', 'draft', 'void', 'refunded', 'credited')
+    AND EXISTS (
+      SELECT 1 FROM public.automation_rules ar
+      WHERE ar.user_id = ci.user_id
+        AND ar.trigger_type = 'invoice_overdue'
+        AND ar.is_active
+    )
+  ON CONFLICT (user_id, dedupe_key) DO NOTHING;
+
+  GET DIAGNOSTICS queued = ROW_COUNT;
+  RETURN queued;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.enqueue_overdue_invoice_events() FROM PUBLIC, anon, authenticated;
+
+-- Step 6: Claim pending events for the engine. Events left running for 15
+-- minutes are treated as abandoned; failed events are retried up to 3 times.
+CREATE OR REPLACE FUNCTION public.claim_automation_events(p_limit INTEGER DEFAULT 25)
+RETURNS SETOF public.automation_events
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  UPDATE public.automation_events ae
+  SET status = 'running',
+      locked_at = now(),
+      attempts = ae.attempts + 1
+  WHERE ae.id IN (
+    SELECT candidate.id
+    FROM public.automation_events candidate
+    WHERE candidate.status = 'pending'
+      OR (candidate.status = 'failed' AND candidate.attempts < 3)
+      OR (candidate.status = 'running' AND candidate.locked_at < now() - INTERVAL '15 minutes')
+    ORDER BY candidate.created_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING ae.*;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_automation_events(integer) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.enqueue_automation_event(uuid, text, text, uuid, jsonb, text) IS
+'SECURITY DEFINER: Called by table triggers and by edge functions (service role) to queue domain events for the automation engine.';
+
+COMMENT ON FUNCTION public.claim_automation_events(integer) IS
+'SECURITY DEFINER: Used by the automation-engine edge function (service role) to lock pending events with SKIP LOCKED.';
@@ -0,0 +1,184 @@
+-- ============================================
+-- Lead scoring
+-- Each lead gets a 0-100 score from its budget, project type, lead source,
+-- distance from the builder, engagement (email opens, microsite visits,
+-- booking link clicks) and recency, with a per-factor explanation. Scores are
+-- recalculated by the lead-scoring edge function whenever a lead or one of
+-- its engagement signals changes.
+-- ============================================
+
+-- Step 1: Score and geocoding cache on leads
+ALTER TABLE public.leads
+ADD COLUMN score INTEGER CHECK (score BETWEEN 0 AND 100),
+-- [{ factor, label, points, max, detail }]
+ADD COLUMN score_breakdown JSONB NOT NULL DEFAULT '[]',
+ADD COLUMN scored_at TIMESTAMP WITH TIME ZONE,
+-- postal_code as last geocoded, so the lookup only repeats when it changes
+ADD COLUMN geocoded_postcode TEXT,
+ADD COLUMN latitude NUMERIC(9,6),
+ADD COLUMN longitude NUMERIC(9,6);
+
+CREATE INDEX idx_leads_created_by_score ON public.leads(created_by, score DESC NULLS LAST);
+
+-- Step 2: Per-user scoring settings. Factor weights are the maximum points
+-- for each factor; project type and lead source maps give the share of those
+-- points (0-1) for matching values.
+CREATE TABLE public.lead_scoring_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  base_postcode TEXT,
+  base_latitude NUMERIC(9,6),
+  base_longitude NUMERIC(9,6),
+  weights JSONB NOT NULL DEFAULT '{"budget": 25, "project_type": 15, "lead_source": 15, "distance": 15, "engagement": 20, "recency": 10}',
+  budget_target NUMERIC(12,2) NOT NULL DEFAULT 50000 CHECK (budget_target > 0),
+  project_type_scores JSONB NOT NULL DEFAULT '{}',
+  lead_source_scores JSONB NOT NULL DEFAULT '{}',
+  max_distance_km NUMERIC(8,2) NOT NULL DEFAULT 50 CHECK (max_distance_km > 0),
+  engagement_points JSONB NOT NULL DEFAULT '{"email_open": 2, "microsite_visit": 1, "booking_click": 5}',
+  recency_half_life_days INTEGER NOT NULL DEFAULT 14 CHECK (recency_half_life_days > 0),
+  high_threshold INTEGER NOT NULL DEFAULT 70 CHECK (high_threshold BETWEEN 0 AND 100),
+  medium_threshold INTEGER NOT NULL DEFAULT 40 CHECK (medium_threshold BETWEEN 0 AND 100),
+  -- Keep leads.priority in step with the score
+  auto_priority BOOLEAN NOT NULL DEFAULT true,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (medium_threshold <= high_threshold)
+);
+
+ALTER TABLE public.lead_scoring_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lead scoring settings"
+ON public.lead_scoring_settings
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_lead_scoring_settings_updated_at
+  BEFORE UPDATE ON public.lead_scoring_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 3: Engagement signals. Opens come from Resend email.opened events;
+-- microsite events are tied to a lead when the visit carries its id.
+ALTER TABLE public.message_delivery_logs
+ADD COLUMN opened_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.microsite_analytics
+ADD COLUMN lead_id UUID REFERENCES public.leads(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_microsite_analytics_lead_id ON public.microsite_analytics(lead_id) WHERE lead_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_booking_link_analytics_lead_id ON public.booking_link_analytics(lead_id);
+CREATE INDEX IF NOT EXISTS idx_message_delivery_logs_lead_id ON public.message_delivery_logs(lead_id);
+
+-- Step 4: Rescore queue. One row per lead however many events arrive before
+-- the next run.
+CREATE TABLE public.lead_score_queue (
+  lead_id UUID NOT NULL PRIMARY KEY REFERENCES public.leads(id) ON DELETE CASCADE,
+  reason TEXT NOT NULL,
+  queued_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- Written by triggers and drained by the lead-scoring function only
+ALTER TABLE public.lead_score_queue ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.queue_lead_score(p_lead_id UUID, p_reason TEXT)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_lead_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.lead_score_queue (lead_id, reason)
+  VALUES (p_lead_id, p_reason)
+  ON CONFLICT (lead_id) DO NOTHING;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.queue_lead_score(uuid, text) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.lead_score_on_lead_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.queue_lead_score(NEW.id, CASE WHEN TG_OP = 'INSERT' THEN 'lead_created' ELSE 'lead_updated' END);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.lead_score_on_lead_change() FROM PUBLIC, anon, authenticated;
+
+-- Only the inputs to the score; the scorer's own writes don't requeue
+CREATE TRIGGER lead_score_on_lead_change
+AFTER INSERT OR UPDATE OF estimated_budget_min, estimated_budget_max, project_type, lead_source, postal_code, last_contact_date
+ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.lead_score_on_lead_change();
+
+CREATE OR REPLACE FUNCTION public.lead_score_on_engagement()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.queue_lead_score(NEW.lead_id, TG_TABLE_NAME);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.lead_score_on_engagement() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER lead_score_on_booking_link_event
+AFTER INSERT ON public.booking_link_analytics
+FOR EACH ROW
+WHEN (NEW.lead_id IS NOT NULL)
+EXECUTE FUNCTION public.lead_score_on_engagement();
+
+CREATE TRIGGER lead_score_on_microsite_event
+AFTER INSERT ON public.microsite_analytics
+FOR EACH ROW
+WHEN (NEW.lead_id IS NOT NULL)
+EXECUTE FUNCTION public.lead_score_on_engagement();
+
+CREATE TRIGGER lead_score_on_email_open
+AFTER UPDATE OF opened_at ON public.message_delivery_logs
+FOR EACH ROW
+WHEN (NEW.lead_id IS NOT NULL AND OLD.opened_at IS NULL AND NEW.opened_at IS NOT NULL)
+EXECUTE FUNCTION public.lead_score_on_engagement();
+
+-- Step 5: Take queued leads for rescoring. Rows are removed as they are
+-- claimed; the function requeues any lead it fails to score.
+CREATE OR REPLACE FUNCTION public.claim_lead_scores(p_limit INTEGER DEFAULT 100)
+RETURNS SETOF UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  RETURN QUERY
+  DELETE FROM public.lead_score_queue q
+  WHERE q.lead_id IN (
+    SELECT candidate.lead_id
+    FROM public.lead_score_queue candidate
+    ORDER BY candidate.queued_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING q.lead_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.claim_lead_scores(integer) FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.queue_lead_score(uuid, text) IS
+'SECURITY DEFINER: Called by lead and engagement triggers and by the lead-scoring edge function (service role) to queue a lead for rescoring.';
+
+COMMENT ON FUNCTION public.claim_lead_scores(integer) IS
+'SECURITY DEFINER: Used by the lead-scoring edge function (service role) to take queued leads with SKIP LOCKED.';
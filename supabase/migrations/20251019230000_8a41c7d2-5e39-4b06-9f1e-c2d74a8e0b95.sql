@@ -0,0 +1,115 @@
+-- ============================================
+-- Sales pipeline history
+-- Every change to a lead's status is recorded as a stage transition with the
+-- time and the user who made it, so the pipeline board can show a lead's
+-- history and the funnel report can measure conversion between stages, time
+-- spent in each stage and win rates. Leads moved to lost carry a reason.
+-- ============================================
+
+-- Step 1: Lost reason and the time the lead entered its current stage
+ALTER TABLE public.leads
+ADD COLUMN lost_reason TEXT,
+ADD COLUMN stage_entered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now();
+
+-- Step 2: Stage transitions. from_status is null for the lead's first stage.
+-- changed_by is null when the change was made by an automation or the
+-- service role rather than a signed-in user.
+CREATE TABLE public.lead_stage_transitions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  -- Lead owner, for RLS
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  from_status public.lead_status,
+  to_status public.lead_status NOT NULL,
+  changed_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  lost_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_lead_stage_transitions_lead_id ON public.lead_stage_transitions(lead_id, created_at);
+CREATE INDEX idx_lead_stage_transitions_user_id ON public.lead_stage_transitions(user_id, created_at);
+
+ALTER TABLE public.lead_stage_transitions ENABLE ROW LEVEL SECURITY;
+
+-- Written by the trigger below only, so the history can't be edited
+CREATE POLICY "Users can view their own lead stage transitions"
+ON public.lead_stage_transitions
+FOR SELECT
+USING (auth.uid() = user_id);
+
+-- Step 3: Stamp the stage start and clear a stale lost reason when a lead
+-- changes status
+CREATE OR REPLACE FUNCTION public.set_lead_stage_entered_at()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  NEW.stage_entered_at := now();
+  IF NEW.status <> 'lost' THEN
+    NEW.lost_reason := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER set_lead_stage_entered_at
+BEFORE UPDATE OF status ON public.leads
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.set_lead_stage_entered_at();
+
+-- Step 4: Record the transition
+CREATE OR REPLACE FUNCTION public.record_lead_stage_transition()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  INSERT INTO public.lead_stage_transitions (lead_id, user_id, from_status, to_status, changed_by, lost_reason)
+  VALUES (
+    NEW.id,
+    NEW.created_by,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    COALESCE(NEW.status, 'new'),
+    auth.uid(),
+    CASE WHEN NEW.status = 'lost' THEN NEW.lost_reason END
+  );
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.record_lead_stage_transition() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER record_lead_stage_transition_on_insert
+AFTER INSERT ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.record_lead_stage_transition();
+
+CREATE TRIGGER record_lead_stage_transition_on_update
+AFTER UPDATE OF status ON public.leads
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.record_lead_stage_transition();
+
+-- Step 5: Backfill. Existing leads start in 'new' when created; those that
+-- have since moved on get one transition to their current status, dated at
+-- their last update since the real date wasn't recorded.
+INSERT INTO public.lead_stage_transitions (lead_id, user_id, from_status, to_status, created_at)
+SELECT id, created_by, NULL, 'new', created_at
+FROM public.leads;
+
+INSERT INTO public.lead_stage_transitions (lead_id, user_id, from_status, to_status, created_at)
+SELECT id, created_by, 'new', status, GREATEST(updated_at, created_at)
+FROM public.leads
+WHERE status IS NOT NULL AND status <> 'new';
+
+UPDATE public.leads
+SET stage_entered_at = CASE
+  WHEN status IS NULL OR status = 'new' THEN created_at
+  ELSE GREATEST(updated_at, created_at)
+END;
+
+COMMENT ON FUNCTION public.record_lead_stage_transition() IS
+'SECURITY DEFINER: Trigger on leads that writes lead_stage_transitions, which users can only read.';
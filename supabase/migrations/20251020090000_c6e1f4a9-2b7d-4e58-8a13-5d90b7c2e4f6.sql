@@ -0,0 +1,548 @@
+-- ============================================
+-- Duplicate lead detection and merge
+-- Leads are matched on normalised email, phone (E.164) and name + postcode.
+-- New or edited leads that match an existing one are flagged for review, and
+-- each intake channel can instead attach a repeat enquiry to the existing
+-- lead. Merging moves everything that references the duplicate (activities,
+-- interactions, quotes, tasks...) to the lead being kept and archives the
+-- duplicate.
+-- ============================================
+
+-- Step 1: Normalisation. Immutable so they can back generated columns.
+CREATE OR REPLACE FUNCTION public.normalize_email(p_email TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  address TEXT := lower(btrim(p_email));
+  local_part TEXT;
+  domain TEXT;
+BEGIN
+  IF address IS NULL OR position('@' IN address) = 0 THEN
+    RETURN NULLIF(address, '');
+  END IF;
+
+  local_part := split_part(address, '@', 1);
+  domain := split_part(address, '@', 2);
+
+  -- Sub-addresses (jane+quotes@) reach the same inbox
+  local_part := split_part(local_part, '+', 1);
+  -- Gmail ignores dots in the local part
+  IF domain IN ('gmail.com', 'googlemail.com') THEN
+    local_part := replace(local_part, '.', '');
+    domain := 'gmail.com';
+  END IF;
+
+  RETURN local_part || '@' || domain;
+END;
+$$;
+
+-- UK numbers are assumed when there is no country code, matching leads.country
+CREATE OR REPLACE FUNCTION public.normalize_phone_e164(p_phone TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+SET search_path = public
+AS $$
+DECLARE
+  digits TEXT := regexp_replace(COALESCE(p_phone, ''), '[^0-9]', '', 'g');
+BEGIN
+  IF length(digits) < 7 THEN
+    RETURN NULL;
+  END IF;
+
+  IF btrim(p_phone) LIKE '+%' THEN
+    RETURN '+' || digits;
+  ELSIF digits LIKE '00%' THEN
+    RETURN '+' || substr(digits, 3);
+  ELSIF digits LIKE '44%' AND length(digits) >= 12 THEN
+    RETURN '+' || digits;
+  ELSIF digits LIKE '0%' THEN
+    RETURN '+44' || substr(digits, 2);
+  END IF;
+
+  RETURN '+44' || digits;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_name_key(p_name TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(regexp_replace(lower(COALESCE(p_name, '')), '[^a-z]', '', 'g'), '');
+$$;
+
+CREATE OR REPLACE FUNCTION public.normalize_postcode(p_postcode TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT NULLIF(upper(regexp_replace(COALESCE(p_postcode, ''), '\s', '', 'g')), '');
+$$;
+
+-- Step 2: Match keys on leads, and the lead a merged duplicate went into
+ALTER TABLE public.leads
+ADD COLUMN email_normalized TEXT GENERATED ALWAYS AS (public.normalize_email(email)) STORED,
+ADD COLUMN phone_e164 TEXT GENERATED ALWAYS AS (public.normalize_phone_e164(phone)) STORED,
+ADD COLUMN first_name_key TEXT GENERATED ALWAYS AS (public.normalize_name_key(first_name)) STORED,
+ADD COLUMN last_name_key TEXT GENERATED ALWAYS AS (public.normalize_name_key(last_name)) STORED,
+ADD COLUMN postcode_key TEXT GENERATED ALWAYS AS (public.normalize_postcode(postal_code)) STORED,
+ADD COLUMN merged_into_id UUID REFERENCES public.leads(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_leads_created_by_email_normalized ON public.leads(created_by, email_normalized) WHERE email_normalized IS NOT NULL;
+CREATE INDEX idx_leads_created_by_phone_e164 ON public.leads(created_by, phone_e164) WHERE phone_e164 IS NOT NULL;
+CREATE INDEX idx_leads_created_by_postcode_name ON public.leads(created_by, postcode_key, last_name_key) WHERE postcode_key IS NOT NULL;
+
+-- Step 3: Per-user duplicate handling. channel_actions maps each intake
+-- channel (form, microsite, catalogue, crm_import, calendly) to 'attach'
+-- (add the enquiry to the matching lead) or 'flag' (create a new lead and
+-- flag it for review). Only matches at or above auto_attach_min_confidence
+-- are attached.
+CREATE TABLE public.lead_duplicate_settings (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL UNIQUE DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  channel_actions JSONB NOT NULL DEFAULT '{"form": "flag", "microsite": "flag", "catalogue": "flag", "crm_import": "flag", "calendly": "attach"}',
+  auto_attach_min_confidence INTEGER NOT NULL DEFAULT 85 CHECK (auto_attach_min_confidence BETWEEN 0 AND 100),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.lead_duplicate_settings ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own lead duplicate settings"
+ON public.lead_duplicate_settings
+FOR ALL
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+CREATE TRIGGER update_lead_duplicate_settings_updated_at
+  BEFORE UPDATE ON public.lead_duplicate_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Step 4: Flagged pairs. lead_id is always the newer lead of the pair, so a
+-- pair is only flagged once whichever side changes.
+CREATE TABLE public.lead_duplicates (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  lead_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  duplicate_of_id UUID NOT NULL REFERENCES public.leads(id) ON DELETE CASCADE,
+  -- Any of 'email', 'phone', 'name_postcode'
+  match_reasons TEXT[] NOT NULL DEFAULT '{}',
+  confidence INTEGER NOT NULL CHECK (confidence BETWEEN 0 AND 100),
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'merged', 'dismissed')),
+  resolved_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (lead_id, duplicate_of_id),
+  CHECK (lead_id <> duplicate_of_id)
+);
+
+CREATE INDEX idx_lead_duplicates_user_status ON public.lead_duplicates(user_id, status);
+CREATE INDEX idx_lead_duplicates_duplicate_of_id ON public.lead_duplicates(duplicate_of_id);
+
+ALTER TABLE public.lead_duplicates ENABLE ROW LEVEL SECURITY;
+
+-- Flagged by trigger; users review (dismiss) them
+CREATE POLICY "Users can view their own lead duplicates"
+ON public.lead_duplicates
+FOR SELECT
+USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own lead duplicates"
+ON public.lead_duplicates
+FOR UPDATE
+USING (auth.uid() = user_id)
+WITH CHECK (auth.uid() = user_id);
+
+-- Step 5: Matching. Runs as the caller, so clients only ever match their own
+-- leads. First names match loosely (Jon / Jonathan / J) when surname and
+-- postcode agree.
+CREATE OR REPLACE FUNCTION public.match_lead_contact(
+  p_user_id UUID,
+  p_email TEXT,
+  p_phone TEXT,
+  p_first_name TEXT,
+  p_last_name TEXT,
+  p_postal_code TEXT,
+  p_exclude_lead_id UUID DEFAULT NULL
+)
+RETURNS TABLE(lead_id UUID, match_reasons TEXT[], confidence INTEGER)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH contact AS (
+    SELECT
+      public.normalize_email(p_email) AS email,
+      public.normalize_phone_e164(p_phone) AS phone,
+      public.normalize_name_key(p_first_name) AS first_name,
+      public.normalize_name_key(p_last_name) AS last_name,
+      public.normalize_postcode(p_postal_code) AS postcode
+  ),
+  matches AS (
+    SELECT
+      l.id,
+      l.created_at,
+      COALESCE(l.email_normalized = c.email, false) AS email_match,
+      COALESCE(l.phone_e164 = c.phone, false) AS phone_match,
+      COALESCE(
+        l.postcode_key = c.postcode
+        AND l.last_name_key = c.last_name
+        AND (l.first_name_key LIKE c.first_name || '%' OR c.first_name LIKE l.first_name_key || '%'),
+        false
+      ) AS name_postcode_match
+    FROM public.leads l, contact c
+    WHERE l.created_by = p_user_id
+      AND l.archived_at IS NULL
+      AND l.id IS DISTINCT FROM p_exclude_lead_id
+      AND (
+        l.email_normalized = c.email
+        OR l.phone_e164 = c.phone
+        OR (l.postcode_key = c.postcode AND l.last_name_key = c.last_name)
+      )
+  )
+  SELECT
+    m.id,
+    array_remove(ARRAY[
+      CASE WHEN m.email_match THEN 'email' END,
+      CASE WHEN m.phone_match THEN 'phone' END,
+      CASE WHEN m.name_postcode_match THEN 'name_postcode' END
+    ], NULL),
+    -- Strongest signal, plus 5 for each further signal that agrees
+    LEAST(100,
+      GREATEST(
+        CASE WHEN m.email_match THEN 95 ELSE 0 END,
+        CASE WHEN m.phone_match THEN 85 ELSE 0 END,
+        CASE WHEN m.name_postcode_match THEN 70 ELSE 0 END
+      ) + 5 * (m.email_match::int + m.phone_match::int + m.name_postcode_match::int - 1)
+    )::int AS score
+  FROM matches m
+  WHERE m.email_match OR m.phone_match OR m.name_postcode_match
+  ORDER BY score DESC, m.created_at;
+$$;
+
+-- Step 6: Flag a lead's duplicates. Returns the number of new pairs.
+CREATE OR REPLACE FUNCTION public.flag_lead_duplicates(p_lead_id UUID)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lead RECORD;
+  flagged INTEGER;
+BEGIN
+  SELECT * INTO lead FROM public.leads WHERE id = p_lead_id;
+  IF NOT FOUND OR lead.archived_at IS NOT NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.lead_duplicates (user_id, lead_id, duplicate_of_id, match_reasons, confidence)
+  SELECT
+    lead.created_by,
+    CASE WHEN (COALESCE(other.created_at, 'epoch'), other.id) > (COALESCE(lead.created_at, 'epoch'), lead.id) THEN other.id ELSE lead.id END,
+    CASE WHEN (COALESCE(other.created_at, 'epoch'), other.id) > (COALESCE(lead.created_at, 'epoch'), lead.id) THEN lead.id ELSE other.id END,
+    m.match_reasons,
+    m.confidence
+  FROM public.match_lead_contact(
+    lead.created_by, lead.email, lead.phone, lead.first_name, lead.last_name, lead.postal_code, lead.id
+  ) m
+  JOIN public.leads other ON other.id = m.lead_id
+  ON CONFLICT (lead_id, duplicate_of_id) DO NOTHING;
+
+  GET DIAGNOSTICS flagged = ROW_COUNT;
+  RETURN flagged;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.flag_lead_duplicates(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.flag_lead_duplicates_on_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.flag_lead_duplicates(NEW.id);
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.flag_lead_duplicates_on_change() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER flag_lead_duplicates_on_change
+AFTER INSERT OR UPDATE OF email, phone, first_name, last_name, postal_code
+ON public.leads
+FOR EACH ROW
+EXECUTE FUNCTION public.flag_lead_duplicates_on_change();
+
+-- Re-check all of the user's leads, e.g. for leads from before this migration
+CREATE OR REPLACE FUNCTION public.scan_lead_duplicates()
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  lead_id UUID;
+  flagged INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  FOR lead_id IN
+    SELECT id FROM public.leads WHERE created_by = auth.uid() AND archived_at IS NULL
+  LOOP
+    flagged := flagged + public.flag_lead_duplicates(lead_id);
+  END LOOP;
+
+  RETURN flagged;
+END;
+$$;
+
+-- Step 7: Attach a repeat enquiry to the best matching lead when the
+-- channel is set to attach. Fills in contact details the lead is missing,
+-- appends the enquiry to its notes and logs an activity. Returns the lead's
+-- id, or null when the caller should create a new lead.
+-- p_contact: { first_name, last_name, email, phone, postal_code, address,
+--              project_type, project_description, notes }
+-- Edge functions running with the service role pass p_user_id; clients are always auth.uid().
+CREATE OR REPLACE FUNCTION public.attach_to_existing_lead(
+  p_channel TEXT,
+  p_contact JSONB,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  effective_user_id UUID := COALESCE(auth.uid(), CASE WHEN auth.role() = 'service_role' THEN p_user_id END);
+  settings public.lead_duplicate_settings%ROWTYPE;
+  channel_action TEXT;
+  min_confidence INTEGER;
+  best_match RECORD;
+  enquiry TEXT;
+BEGIN
+  IF effective_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  SELECT * INTO settings FROM public.lead_duplicate_settings WHERE user_id = effective_user_id;
+  IF FOUND THEN
+    channel_action := settings.channel_actions->>p_channel;
+    min_confidence := settings.auto_attach_min_confidence;
+  ELSE
+    channel_action := CASE WHEN p_channel = 'calendly' THEN 'attach' ELSE 'flag' END;
+    min_confidence := 85;
+  END IF;
+
+  IF channel_action IS DISTINCT FROM 'attach' THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO best_match
+  FROM public.match_lead_contact(
+    effective_user_id,
+    p_contact->>'email',
+    p_contact->>'phone',
+    p_contact->>'first_name',
+    p_contact->>'last_name',
+    p_contact->>'postal_code'
+  )
+  LIMIT 1;
+
+  IF NOT FOUND OR best_match.confidence < min_confidence THEN
+    RETURN NULL;
+  END IF;
+
+  enquiry := format(
+    'Repeat enquiry via %s on %s%s',
+    p_channel,
+    to_char(now(), 'YYYY-MM-DD'),
+    COALESCE(': ' || NULLIF(btrim(COALESCE(p_contact->>'project_description', p_contact->>'notes', '')), ''), '')
+  );
+
+  UPDATE public.leads
+  SET email = COALESCE(email, NULLIF(p_contact->>'email', '')),
+      phone = COALESCE(phone, NULLIF(p_contact->>'phone', '')),
+      postal_code = COALESCE(postal_code, NULLIF(p_contact->>'postal_code', '')),
+      address = COALESCE(address, NULLIF(p_contact->>'address', '')),
+      project_type = COALESCE(project_type, NULLIF(p_contact->>'project_type', '')),
+      project_description = COALESCE(project_description, NULLIF(p_contact->>'project_description', '')),
+      notes = concat_ws(E'\n\n', NULLIF(notes, ''), enquiry),
+      last_contact_date = CURRENT_DATE
+  WHERE id = best_match.lead_id;
+
+  INSERT INTO public.lead_activities (lead_id, user_id, activity_type, new_values, description)
+  VALUES (
+    best_match.lead_id,
+    effective_user_id,
+    'contacted',
+    jsonb_build_object('channel', p_channel, 'contact', p_contact, 'match_reasons', best_match.match_reasons),
+    enquiry
+  );
+
+  RETURN best_match.lead_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.attach_to_existing_lead(text, jsonb, uuid) FROM PUBLIC, anon;
+
+-- Step 8: Merge a duplicate into the lead being kept. p_fields holds the
+-- values picked in the merge screen for the kept lead; fields not picked are
+-- filled from the duplicate where the kept lead has none. Every row that
+-- references the duplicate is moved to the kept lead, except its own stage
+-- history and scoring queue entry. Rows that can't move because the kept
+-- lead already has an equivalent (unique constraints) stay with the
+-- archived duplicate.
+CREATE OR REPLACE FUNCTION public.merge_leads(
+  p_primary_id UUID,
+  p_duplicate_id UUID,
+  p_fields JSONB DEFAULT '{}'
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  primary_lead public.leads%ROWTYPE;
+  duplicate public.leads%ROWTYPE;
+  reference RECORD;
+  moved INTEGER;
+  moved_total INTEGER := 0;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  IF p_primary_id = p_duplicate_id THEN
+    RAISE EXCEPTION 'A lead cannot be merged into itself';
+  END IF;
+
+  SELECT * INTO primary_lead FROM public.leads WHERE id = p_primary_id AND created_by = auth.uid() FOR UPDATE;
+  SELECT * INTO duplicate FROM public.leads WHERE id = p_duplicate_id AND created_by = auth.uid() FOR UPDATE;
+  IF primary_lead.id IS NULL OR duplicate.id IS NULL THEN
+    RAISE EXCEPTION 'Lead not found';
+  END IF;
+  IF primary_lead.archived_at IS NOT NULL OR duplicate.archived_at IS NOT NULL THEN
+    RAISE EXCEPTION 'Archived leads cannot be merged';
+  END IF;
+
+  -- Archive first so the kept lead's update below doesn't flag it again
+  UPDATE public.leads
+  SET archived_at = now(),
+      merged_into_id = p_primary_id
+  WHERE id = p_duplicate_id;
+
+  UPDATE public.leads l
+  SET first_name = COALESCE(NULLIF(p_fields->>'first_name', ''), l.first_name),
+      last_name = COALESCE(NULLIF(p_fields->>'last_name', ''), l.last_name),
+      email = CASE WHEN p_fields ? 'email' THEN NULLIF(p_fields->>'email', '') ELSE COALESCE(l.email, duplicate.email) END,
+      phone = CASE WHEN p_fields ? 'phone' THEN NULLIF(p_fields->>'phone', '') ELSE COALESCE(l.phone, duplicate.phone) END,
+      country = CASE WHEN p_fields ? 'country' THEN NULLIF(p_fields->>'country', '') ELSE COALESCE(l.country, duplicate.country) END,
+      address = CASE WHEN p_fields ? 'address' THEN NULLIF(p_fields->>'address', '') ELSE COALESCE(l.address, duplicate.address) END,
+      city = CASE WHEN p_fields ? 'city' THEN NULLIF(p_fields->>'city', '') ELSE COALESCE(l.city, duplicate.city) END,
+      postal_code = CASE WHEN p_fields ? 'postal_code' THEN NULLIF(p_fields->>'postal_code', '') ELSE COALESCE(l.postal_code, duplicate.postal_code) END,
+      lead_source = CASE WHEN p_fields ? 'lead_source' THEN NULLIF(p_fields->>'lead_source', '') ELSE COALESCE(l.lead_source, duplicate.lead_source) END,
+      priority = CASE WHEN p_fields ? 'priority' THEN NULLIF(p_fields->>'priority', '') ELSE COALESCE(l.priority, duplicate.priority) END,
+      project_type = CASE WHEN p_fields ? 'project_type' THEN NULLIF(p_fields->>'project_type', '') ELSE COALESCE(l.project_type, duplicate.project_type) END,
+      project_description = CASE WHEN p_fields ? 'project_description' THEN NULLIF(p_fields->>'project_description', '') ELSE COALESCE(l.project_description, duplicate.project_description) END,
+      estimated_budget_min = CASE WHEN p_fields ? 'estimated_budget_min' THEN (NULLIF(p_fields->>'estimated_budget_min', ''))::numeric ELSE COALESCE(l.estimated_budget_min, duplicate.estimated_budget_min) END,
+      estimated_budget_max = CASE WHEN p_fields ? 'estimated_budget_max' THEN (NULLIF(p_fields->>'estimated_budget_max', ''))::numeric ELSE COALESCE(l.estimated_budget_max, duplicate.estimated_budget_max) END,
+      estimated_timeline = CASE WHEN p_fields ? 'estimated_timeline' THEN NULLIF(p_fields->>'estimated_timeline', '') ELSE COALESCE(l.estimated_timeline, duplicate.estimated_timeline) END,
+      notes = concat_ws(E'\n\n', NULLIF(l.notes, ''), NULLIF(duplicate.notes, '')),
+      tags = (SELECT array_agg(DISTINCT tag) FROM unnest(COALESCE(l.tags, '{}') || COALESCE(duplicate.tags, '{}')) AS tag),
+      last_contact_date = GREATEST(l.last_contact_date, duplicate.last_contact_date),
+      next_follow_up = LEAST(l.next_follow_up, duplicate.next_follow_up)
+  WHERE l.id = p_primary_id;
+
+  -- Every uuid column that points at leads: declared foreign keys plus
+  -- lead_id columns whose constraint was lost when leads was recreated
+  FOR reference IN
+    SELECT DISTINCT table_name, column_name
+    FROM (
+      SELECT format('%I.%I', n.nspname, r.relname) AS table_name, a.attname::text AS column_name
+      FROM pg_constraint c
+      JOIN pg_class r ON r.oid = c.conrelid
+      JOIN pg_namespace n ON n.oid = r.relnamespace
+      JOIN pg_attribute a ON a.attrelid = c.conrelid AND a.attnum = c.conkey[1]
+      WHERE c.contype = 'f'
+        AND c.confrelid = 'public.leads'::regclass
+        AND array_length(c.conkey, 1) = 1
+      UNION
+      SELECT format('%I.%I', cols.table_schema, cols.table_name), cols.column_name::text
+      FROM information_schema.columns cols
+      JOIN information_schema.tables t
+        ON t.table_schema = cols.table_schema AND t.table_name = cols.table_name AND t.table_type = 'BASE TABLE'
+      WHERE cols.table_schema = 'public'
+        AND cols.column_name = 'lead_id'
+        AND cols.data_type = 'uuid'
+    ) refs
+    WHERE table_name NOT IN ('public.leads', 'public.lead_stage_transitions', 'public.lead_score_queue', 'public.lead_duplicates')
+  LOOP
+    BEGIN
+      EXECUTE format('UPDATE %s SET %I = $1 WHERE %I = $2', reference.table_name, reference.column_name, reference.column_name)
+      USING p_primary_id, p_duplicate_id;
+      GET DIAGNOSTICS moved = ROW_COUNT;
+      moved_total := moved_total + moved;
+    EXCEPTION WHEN unique_violation THEN
+      RAISE NOTICE 'Left % rows on merged lead %', reference.table_name, p_duplicate_id;
+    END;
+  END LOOP;
+
+  UPDATE public.lead_duplicates
+  SET status = 'merged', resolved_at = now()
+  WHERE (lead_id = p_duplicate_id AND duplicate_of_id = p_primary_id)
+     OR (lead_id = p_primary_id AND duplicate_of_id = p_duplicate_id);
+
+  -- Other pairs with the duplicate no longer apply; its matches are re-checked
+  -- against the kept lead below
+  DELETE FROM public.lead_duplicates
+  WHERE status = 'pending'
+    AND (lead_id = p_duplicate_id OR duplicate_of_id = p_duplicate_id);
+
+  PERFORM public.flag_lead_duplicates(p_primary_id);
+
+  INSERT INTO public.lead_activities (lead_id, user_id, activity_type, old_values, description)
+  VALUES (
+    p_primary_id,
+    auth.uid(),
+    'updated',
+    to_jsonb(duplicate) - 'email_normalized' - 'phone_e164' - 'first_name_key' - 'last_name_key' - 'postcode_key',
+    format('Merged duplicate lead %s %s (%s related records moved)', duplicate.first_name, duplicate.last_name, moved_total)
+  );
+
+  PERFORM public.queue_lead_score(p_primary_id, 'merged');
+
+  RETURN p_primary_id;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.merge_leads(uuid, uuid, jsonb) FROM PUBLIC, anon;
+
+-- Step 9: Flag duplicates among existing leads
+SELECT public.flag_lead_duplicates(id)
+FROM public.leads
+WHERE archived_at IS NULL;
+
+COMMENT ON FUNCTION public.flag_lead_duplicates(uuid) IS
+'SECURITY DEFINER: Called by the lead trigger, scan_lead_duplicates and merge_leads to record duplicate pairs, which users can only read and dismiss.';
+
+COMMENT ON FUNCTION public.scan_lead_duplicates() IS
+'SECURITY DEFINER: Re-checks the calling user''s own leads for duplicates.';
+
+COMMENT ON FUNCTION public.attach_to_existing_lead(text, jsonb, uuid) IS
+'SECURITY DEFINER: Called by intake channels (client or service role with p_user_id) to add a repeat enquiry to the caller''s matching lead and log it in lead_activities.';
+
+COMMENT ON FUNCTION public.merge_leads(uuid, uuid, jsonb) IS
+'SECURITY DEFINER: Moves rows referencing a duplicate lead across tables the user may not update directly; both leads must belong to the caller.';
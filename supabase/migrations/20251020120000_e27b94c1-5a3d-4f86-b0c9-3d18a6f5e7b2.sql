@@ -0,0 +1,63 @@
+-- ============================================
+-- Scheduled edge function runs
+-- pg_cron calls background edge functions through pg_net with the service
+-- role key, starting with the integration job worker that retries queued
+-- integration actions. Other workers schedule themselves with
+-- invoke_scheduled_function. The project URL and service role key are read
+-- from Vault, so they are never stored in a migration:
+--   SELECT vault.create_secret('https://<project ref>.supabase.co', 'project_url');
+--   SELECT vault.create_secret('<service role key>', 'service_role_key');
+-- ============================================
+
+-- Step 1: Extensions
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+-- Step 2: Invoke an edge function with the service role key. Runs are skipped
+-- with a warning until both Vault secrets exist.
+CREATE OR REPLACE FUNCTION public.invoke_scheduled_function(
+  p_function TEXT,
+  p_body JSONB DEFAULT '{}'
+)
+RETURNS BIGINT
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  project_url TEXT;
+  service_role_key TEXT;
+BEGIN
+  SELECT decrypted_secret INTO project_url
+  FROM vault.decrypted_secrets WHERE name = 'project_url';
+  SELECT decrypted_secret INTO service_role_key
+  FROM vault.decrypted_secrets WHERE name = 'service_role_key';
+
+  IF project_url IS NULL OR service_role_key IS NULL THEN
+    RAISE WARNING 'Skipping scheduled run of %: project_url or service_role_key is missing from Vault', p_function;
+    RETURN NULL;
+  END IF;
+
+  RETURN net.http_post(
+    url := rtrim(project_url, '/') || '/functions/v1/' || p_function,
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || service_role_key
+    ),
+    body := p_body,
+    timeout_milliseconds := 60000
+  );
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.invoke_scheduled_function(text, jsonb) FROM PUBLIC, anon, authenticated;
+
+-- Step 3: Schedule. cron.schedule replaces an existing job of the same name.
+SELECT cron.schedule(
+  'integration-job-worker',
+  '* * * * *',
+  $$SELECT public.invoke_scheduled_function('integration-job-worker')$$
+);
+
+COMMENT ON FUNCTION public.invoke_scheduled_function(text, jsonb) IS
+'SECURITY DEFINER: reads the service role key from Vault for pg_cron jobs. Not callable by clients.';
@@ -0,0 +1,365 @@
+-- ============================================
+-- Shared integration rate limits on check_endpoint_rate_limit
+-- Integration buckets move from integration_rate_limits to a scoped variant of
+-- check_endpoint_rate_limit, keyed by endpoint (integration:<service>) and
+-- company, and their limits are set once per company instead of being read
+-- from the calling user's integration config.
+-- ============================================
+
+-- Step 1: Token buckets for scoped endpoints, keyed by endpoint name
+-- (integration:<service>) and quota scope
+CREATE TABLE public.endpoint_rate_limits (
+  endpoint TEXT NOT NULL,
+  scope_id UUID NOT NULL,
+  tokens NUMERIC NOT NULL,
+  last_refill_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  hour_window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('hour', now()),
+  hour_count INTEGER NOT NULL DEFAULT 0,
+  day_window_start TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT date_trunc('day', now()),
+  day_count INTEGER NOT NULL DEFAULT 0,
+  PRIMARY KEY (endpoint, scope_id)
+);
+
+-- Buckets are only read and written through the SECURITY DEFINER functions below
+ALTER TABLE public.endpoint_rate_limits ENABLE ROW LEVEL SECURITY;
+
+-- Carry the current integration buckets over
+INSERT INTO public.endpoint_rate_limits (
+  endpoint, scope_id, tokens, last_refill_at, hour_window_start, hour_count, day_window_start, day_count
+)
+SELECT
+  'integration:' || service_name, scope_id, tokens, last_refill_at, hour_window_start, hour_count, day_window_start, day_count
+FROM public.integration_rate_limits;
+
+-- Step 2: Company-level limits per service, shared by every member's bucket.
+-- Company admins set them; saving an integration's rate limits as an admin
+-- updates them too.
+CREATE TABLE public.company_integration_rate_limits (
+  company_id UUID NOT NULL REFERENCES public.companies(id) ON DELETE CASCADE,
+  service_name TEXT NOT NULL,
+  requests_per_minute INTEGER NOT NULL CHECK (requests_per_minute > 0),
+  requests_per_hour INTEGER NOT NULL CHECK (requests_per_hour > 0),
+  requests_per_day INTEGER CHECK (requests_per_day > 0),
+  updated_by UUID REFERENCES auth.users(id) ON DELETE SET NULL,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  PRIMARY KEY (company_id, service_name)
+);
+
+ALTER TABLE public.company_integration_rate_limits ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Company members can view integration rate limits"
+ON public.company_integration_rate_limits FOR SELECT
+USING (
+  EXISTS (
+    SELECT 1 FROM public.user_roles ur
+    WHERE ur.user_id = auth.uid()
+      AND ur.company_id = company_integration_rate_limits.company_id
+      AND ur.is_active = true
+  )
+);
+
+CREATE POLICY "Company admins can manage integration rate limits"
+ON public.company_integration_rate_limits FOR ALL
+USING (public.is_company_admin(auth.uid(), company_id))
+WITH CHECK (public.is_company_admin(auth.uid(), company_id));
+
+-- Step 3: Limits are now looked up by quota scope rather than by user. The
+-- parameter names change, so the old function is dropped first.
+DROP FUNCTION public.get_integration_rate_limit_config(uuid, text);
+
+-- Limits for a scope: the company's limits, or for a user without a company
+-- their integration_configs.rate_limits, else the service defaults (kept in
+-- sync with RateLimiter.defaultLimits on the client)
+CREATE OR REPLACE FUNCTION public.get_integration_rate_limit_config(p_scope_id UUID, p_service_name TEXT)
+RETURNS TABLE(requests_per_minute INTEGER, requests_per_hour INTEGER, requests_per_day INTEGER)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH defaults AS (
+    SELECT * FROM (VALUES
+      ('zapier', 100, 1000),
+      ('airtable', 5, 1000),
+      ('stripe', 100, 1000),
+      ('calendly', 100, 1000),
+      ('xero', 60, 1000),
+      ('quickbooks', 100, 500),
+      ('buffer', 10, 300),
+      ('canva', 10, 100),
+      ('webflow', 60, 1000),
+      ('typedream', 60, 1000),
+      ('openai', 20, 500),
+      ('runwayml', 10, 100)
+    ) AS d(service_name, requests_per_minute, requests_per_hour)
+  ),
+  company AS (
+    SELECT cirl.requests_per_minute, cirl.requests_per_hour, cirl.requests_per_day
+    FROM public.company_integration_rate_limits cirl
+    WHERE cirl.company_id = p_scope_id
+      AND cirl.service_name = p_service_name
+  ),
+  personal AS (
+    SELECT ic.rate_limits
+    FROM public.integration_configs ic
+    WHERE ic.user_id = p_scope_id
+      AND ic.service_name = p_service_name
+      AND ic.rate_limits IS NOT NULL
+  )
+  SELECT
+    COALESCE((SELECT requests_per_minute FROM company), (SELECT (rate_limits->>'requestsPerMinute')::integer FROM personal), d.requests_per_minute, 60),
+    COALESCE((SELECT requests_per_hour FROM company), (SELECT (rate_limits->>'requestsPerHour')::integer FROM personal), d.requests_per_hour, 1000),
+    CASE WHEN EXISTS (SELECT 1 FROM company)
+      THEN (SELECT requests_per_day FROM company)
+      ELSE (SELECT (rate_limits->>'requestsPerDay')::integer FROM personal)
+    END
+  FROM (SELECT 1) AS one
+  LEFT JOIN defaults d ON d.service_name = p_service_name;
+$$;
+
+REVOKE ALL ON FUNCTION public.get_integration_rate_limit_config(uuid, text) FROM PUBLIC, anon, authenticated;
+
+-- Step 4: Scoped token-bucket variant of check_endpoint_rate_limit. The IP
+-- variant counts requests per IP address and window; this one refills
+-- p_requests_per_minute tokens a minute for the endpoint and scope, with
+-- optional fixed hour and day caps. p_cost = 0 reports without consuming.
+CREATE OR REPLACE FUNCTION public.check_endpoint_rate_limit(
+  p_endpoint TEXT,
+  p_scope_id UUID,
+  p_requests_per_minute INTEGER,
+  p_requests_per_hour INTEGER DEFAULT NULL,
+  p_requests_per_day INTEGER DEFAULT NULL,
+  p_cost INTEGER DEFAULT 1
+)
+RETURNS TABLE(allowed BOOLEAN, remaining INTEGER, reset_in INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  bucket public.endpoint_rate_limits%ROWTYPE;
+  refill_per_second NUMERIC := GREATEST(p_requests_per_minute, 1) / 60.0;
+  is_allowed BOOLEAN := true;
+  wait_seconds INTEGER := 0;
+BEGIN
+  INSERT INTO public.endpoint_rate_limits (endpoint, scope_id, tokens)
+  VALUES (p_endpoint, p_scope_id, p_requests_per_minute)
+  ON CONFLICT (endpoint, scope_id) DO NOTHING;
+
+  SELECT * INTO bucket
+  FROM public.endpoint_rate_limits erl
+  WHERE erl.endpoint = p_endpoint
+    AND erl.scope_id = p_scope_id
+  FOR UPDATE;
+
+  -- Refill the minute bucket and roll the fixed hour/day windows
+  bucket.tokens := LEAST(
+    p_requests_per_minute,
+    bucket.tokens + EXTRACT(EPOCH FROM (now() - bucket.last_refill_at)) * refill_per_second
+  );
+
+  IF bucket.hour_window_start < date_trunc('hour', now()) THEN
+    bucket.hour_window_start := date_trunc('hour', now());
+    bucket.hour_count := 0;
+  END IF;
+
+  IF bucket.day_window_start < date_trunc('day', now()) THEN
+    bucket.day_window_start := date_trunc('day', now());
+    bucket.day_count := 0;
+  END IF;
+
+  IF bucket.tokens < p_cost THEN
+    is_allowed := false;
+    wait_seconds := CEIL((p_cost - bucket.tokens) / refill_per_second);
+  ELSIF p_requests_per_hour IS NOT NULL AND bucket.hour_count + p_cost > p_requests_per_hour THEN
+    is_allowed := false;
+    wait_seconds := CEIL(EXTRACT(EPOCH FROM (bucket.hour_window_start + INTERVAL '1 hour' - now())));
+  ELSIF p_requests_per_day IS NOT NULL AND bucket.day_count + p_cost > p_requests_per_day THEN
+    is_allowed := false;
+    wait_seconds := CEIL(EXTRACT(EPOCH FROM (bucket.day_window_start + INTERVAL '1 day' - now())));
+  ELSE
+    bucket.tokens := bucket.tokens - p_cost;
+    bucket.hour_count := bucket.hour_count + p_cost;
+    bucket.day_count := bucket.day_count + p_cost;
+  END IF;
+
+  UPDATE public.endpoint_rate_limits erl
+  SET tokens = bucket.tokens,
+      last_refill_at = now(),
+      hour_window_start = bucket.hour_window_start,
+      hour_count = bucket.hour_count,
+      day_window_start = bucket.day_window_start,
+      day_count = bucket.day_count
+  WHERE erl.endpoint = p_endpoint
+    AND erl.scope_id = p_scope_id;
+
+  IF NOT is_allowed AND p_cost > 0 THEN
+    PERFORM public.log_enhanced_security_event(
+      'endpoint_rate_limited',
+      NULL,
+      NULL,
+      'endpoint_rate_limits',
+      NULL,
+      jsonb_build_object('endpoint', p_endpoint, 'scope_id', p_scope_id, 'reset_in', wait_seconds),
+      'low'
+    );
+  END IF;
+
+  RETURN QUERY SELECT is_allowed, GREATEST(FLOOR(bucket.tokens)::integer, 0), wait_seconds;
+END;
+$$;
+
+-- Any scope can be passed, so only the wrappers below may call it
+REVOKE ALL ON FUNCTION public.check_endpoint_rate_limit(text, uuid, integer, integer, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Step 5: Consume p_cost tokens from the caller's shared integration bucket.
+-- Edge functions running with the service role pass p_user_id; clients are always auth.uid().
+CREATE OR REPLACE FUNCTION public.consume_integration_rate_limit(
+  p_service_name TEXT,
+  p_cost INTEGER DEFAULT 1,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS TABLE(allowed BOOLEAN, remaining INTEGER, reset_in INTEGER)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  effective_user_id UUID := COALESCE(auth.uid(), CASE WHEN auth.role() = 'service_role' THEN p_user_id END);
+  scope UUID;
+  limits RECORD;
+BEGIN
+  IF effective_user_id IS NULL THEN
+    RAISE EXCEPTION 'User not authenticated';
+  END IF;
+
+  scope := public.get_integration_rate_limit_scope(effective_user_id);
+  SELECT * INTO limits FROM public.get_integration_rate_limit_config(scope, p_service_name);
+
+  RETURN QUERY
+  SELECT * FROM public.check_endpoint_rate_limit(
+    'integration:' || p_service_name,
+    scope,
+    limits.requests_per_minute,
+    limits.requests_per_hour,
+    limits.requests_per_day,
+    p_cost
+  );
+END;
+$$;
+
+-- Shared usage for every service in the caller's scope
+CREATE OR REPLACE FUNCTION public.get_integration_rate_limit_stats()
+RETURNS TABLE(
+  service_name TEXT,
+  minute_used INTEGER,
+  minute_limit INTEGER,
+  hour_used INTEGER,
+  hour_limit INTEGER,
+  day_used INTEGER,
+  day_limit INTEGER
+)
+LANGUAGE SQL
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    services.service_name,
+    GREATEST(
+      0,
+      limits.requests_per_minute - FLOOR(LEAST(
+        limits.requests_per_minute,
+        erl.tokens + EXTRACT(EPOCH FROM (now() - erl.last_refill_at)) * limits.requests_per_minute / 60.0
+      ))
+    )::integer,
+    limits.requests_per_minute,
+    CASE WHEN erl.hour_window_start < date_trunc('hour', now()) THEN 0 ELSE erl.hour_count END,
+    limits.requests_per_hour,
+    CASE WHEN erl.day_window_start < date_trunc('day', now()) THEN 0 ELSE erl.day_count END,
+    limits.requests_per_day
+  FROM public.endpoint_rate_limits erl
+  CROSS JOIN LATERAL (SELECT substr(erl.endpoint, length('integration:') + 1) AS service_name) services
+  CROSS JOIN LATERAL public.get_integration_rate_limit_config(erl.scope_id, services.service_name) limits
+  WHERE erl.scope_id = public.get_integration_rate_limit_scope(auth.uid())
+    AND erl.endpoint LIKE 'integration:%';
+$$;
+
+-- Step 6: An admin saving an integration's rate limits sets them for the company
+CREATE OR REPLACE FUNCTION public.sync_company_integration_rate_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  company UUID := public.get_integration_rate_limit_scope(NEW.user_id);
+BEGIN
+  IF NEW.rate_limits IS NULL OR company = NEW.user_id OR NOT public.is_company_admin(NEW.user_id, company) THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.company_integration_rate_limits AS cirl (
+    company_id, service_name, requests_per_minute, requests_per_hour, requests_per_day, updated_by
+  )
+  SELECT company, NEW.service_name, limits.requests_per_minute, limits.requests_per_hour, limits.requests_per_day, NEW.user_id
+  FROM (
+    SELECT
+      COALESCE((NEW.rate_limits->>'requestsPerMinute')::integer, defaults.requests_per_minute) AS requests_per_minute,
+      COALESCE((NEW.rate_limits->>'requestsPerHour')::integer, defaults.requests_per_hour) AS requests_per_hour,
+      (NEW.rate_limits->>'requestsPerDay')::integer AS requests_per_day
+    FROM public.get_integration_rate_limit_config(NEW.user_id, NEW.service_name) defaults
+  ) limits
+  ON CONFLICT (company_id, service_name) DO UPDATE
+  SET requests_per_minute = EXCLUDED.requests_per_minute,
+      requests_per_hour = EXCLUDED.requests_per_hour,
+      requests_per_day = EXCLUDED.requests_per_day,
+      updated_by = EXCLUDED.updated_by,
+      updated_at = now();
+
+  RETURN NEW;
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_company_integration_rate_limits() FROM PUBLIC, anon, authenticated;
+
+CREATE TRIGGER sync_company_integration_rate_limits
+AFTER INSERT OR UPDATE OF rate_limits ON public.integration_configs
+FOR EACH ROW
+EXECUTE FUNCTION public.sync_company_integration_rate_limits();
+
+-- Limits company admins have already saved become their company's limits,
+-- the most recently updated config winning
+INSERT INTO public.company_integration_rate_limits (
+  company_id, service_name, requests_per_minute, requests_per_hour, requests_per_day, updated_by
+)
+SELECT DISTINCT ON (scope.company_id, ic.service_name)
+  scope.company_id,
+  ic.service_name,
+  COALESCE((ic.rate_limits->>'requestsPerMinute')::integer, defaults.requests_per_minute),
+  COALESCE((ic.rate_limits->>'requestsPerHour')::integer, defaults.requests_per_hour),
+  (ic.rate_limits->>'requestsPerDay')::integer,
+  ic.user_id
+FROM public.integration_configs ic
+CROSS JOIN LATERAL (SELECT public.get_integration_rate_limit_scope(ic.user_id) AS company_id) scope
+CROSS JOIN LATERAL public.get_integration_rate_limit_config(ic.user_id, ic.service_name) defaults
+WHERE ic.rate_limits IS NOT NULL
+  AND scope.company_id <> ic.user_id
+  AND public.is_company_admin(ic.user_id, scope.company_id)
+ORDER BY scope.company_id, ic.service_name, ic.updated_at DESC
+ON CONFLICT (company_id, service_name) DO NOTHING;
+
+-- Step 7: The per-user bucket table is no longer used
+DROP TABLE public.integration_rate_limits;
+
+COMMENT ON FUNCTION public.check_endpoint_rate_limit(text, uuid, integer, integer, integer, integer) IS
+'SECURITY DEFINER: Required to update shared token buckets for any scope. Only callable through consume_integration_rate_limit.';
+
+COMMENT ON FUNCTION public.consume_integration_rate_limit(text, integer, uuid) IS
+'SECURITY DEFINER: Required to update shared rate limit buckets at company level. p_user_id is only honoured for the service role.';
+
+COMMENT ON FUNCTION public.get_integration_rate_limit_stats() IS
+'SECURITY DEFINER: Required to read shared rate limit buckets for the caller''s company.';
+
+COMMENT ON FUNCTION public.sync_company_integration_rate_limits() IS
+'SECURITY DEFINER: Required to write company-level rate limits when a company admin saves an integration config.';
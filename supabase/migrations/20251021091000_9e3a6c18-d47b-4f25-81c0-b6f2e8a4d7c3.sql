@@ -0,0 +1,16 @@
+-- ============================================
+-- Quote validity date
+-- quotes.valid_until is copied from the sent revision when a quote is sent and
+-- drives lazy expiry in quote-manager
+-- ============================================
+
+ALTER TABLE public.quotes
+ADD COLUMN IF NOT EXISTS valid_until DATE;
+
+-- Quotes already sent take the validity of the revision the customer sees
+UPDATE public.quotes q
+SET valid_until = qr.valid_until
+FROM public.quote_revisions qr
+WHERE qr.quote_id = q.id
+  AND qr.revision_number = q.sent_revision
+  AND q.valid_until IS NULL;
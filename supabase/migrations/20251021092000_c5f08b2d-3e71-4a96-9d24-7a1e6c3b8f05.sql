@@ -0,0 +1,14 @@
+-- ============================================
+-- Booking link analytics event types
+-- The original CHECK predates the event types the Calendly integration and
+-- the auto-responder actually write, so their inserts were being rejected
+-- ============================================
+
+ALTER TABLE public.booking_link_analytics
+DROP CONSTRAINT IF EXISTS booking_link_analytics_event_type_check;
+
+ALTER TABLE public.booking_link_analytics
+ADD CONSTRAINT booking_link_analytics_event_type_check CHECK (event_type IN (
+  'click', 'booking_started', 'booking_completed',
+  'link_generated', 'link_clicked', 'appointment_booked', 'appointment_canceled'
+));
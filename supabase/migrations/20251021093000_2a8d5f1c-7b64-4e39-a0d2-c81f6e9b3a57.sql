@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled invoice dunning
+-- Reminders for overdue invoices go out in the morning, UK time
+-- ============================================
+
+SELECT cron.schedule(
+  'invoice-dunning',
+  '0 8 * * *',
+  $$SELECT public.invoke_scheduled_function('invoice-dunning')$$
+);
@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled exchange rate sync
+-- ECB reference rates are published around 16:00 CET on working days
+-- ============================================
+
+SELECT cron.schedule(
+  'exchange-rate-sync',
+  '30 16 * * *',
+  $$SELECT public.invoke_scheduled_function('exchange-rate-sync')$$
+);
@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled accounting sync
+-- Changes are pulled from Xero and QuickBooks every 15 minutes
+-- ============================================
+
+SELECT cron.schedule(
+  'accounting-sync',
+  '*/15 * * * *',
+  $$SELECT public.invoke_scheduled_function('accounting-sync')$$
+);
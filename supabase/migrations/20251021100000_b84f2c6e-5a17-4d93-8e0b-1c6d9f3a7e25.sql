@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled drip sequence steps
+-- Sequence steps that have come due are sent every five minutes
+-- ============================================
+
+SELECT cron.schedule(
+  'auto-responder-process-due',
+  '*/5 * * * *',
+  $$SELECT public.invoke_scheduled_function('auto-responder', '{"action": "process_due"}')$$
+);
@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled automation engine
+-- The automation event queue is drained every minute
+-- ============================================
+
+SELECT cron.schedule(
+  'automation-engine',
+  '* * * * *',
+  $$SELECT public.invoke_scheduled_function('automation-engine')$$
+);
@@ -0,0 +1,10 @@
+-- ============================================
+-- Scheduled lead scoring
+-- Leads queued for rescoring are scored every five minutes
+-- ============================================
+
+SELECT cron.schedule(
+  'lead-scoring',
+  '*/5 * * * *',
+  $$SELECT public.invoke_scheduled_function('lead-scoring')$$
+);
@@ -0,0 +1,106 @@
+-- ============================================
+-- Exchange rate function access
+-- get_exchange_rate only applies a company's rate overrides for members of
+-- that company, and refresh_missing_invoice_exchange_rates (which touches
+-- every tenant's invoices) is only callable by exchange-rate-sync.
+-- ============================================
+
+-- Step 1: A company override wins for its members; otherwise the ECB cross
+-- rate through EUR closest to (and preferably not after) p_on is used.
+CREATE OR REPLACE FUNCTION public.get_exchange_rate(
+  p_from TEXT,
+  p_to TEXT,
+  p_on DATE DEFAULT CURRENT_DATE,
+  p_company_id UUID DEFAULT NULL
+)
+RETURNS TABLE(rate NUMERIC, source TEXT, rate_date DATE)
+LANGUAGE plpgsql
+STABLE SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_from TEXT := upper(p_from);
+  v_to TEXT := upper(p_to);
+  v_override RECORD;
+  v_from_rate NUMERIC;
+  v_to_rate NUMERIC;
+  v_from_date DATE;
+  v_to_date DATE;
+BEGIN
+  IF v_from IS NULL OR v_to IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF v_from = v_to THEN
+    RETURN QUERY SELECT 1::NUMERIC, 'identity'::TEXT, p_on;
+    RETURN;
+  END IF;
+
+  -- Clients only see overrides of a company they belong to; the service role and
+  -- triggers running without a user session see any company's
+  IF p_company_id IS NOT NULL AND (
+    auth.uid() IS NULL
+    OR EXISTS (
+      SELECT 1 FROM public.user_roles ur
+      WHERE ur.user_id = auth.uid()
+        AND ur.company_id = p_company_id
+        AND ur.is_active = true
+    )
+    OR EXISTS (SELECT 1 FROM public.companies c WHERE c.id = p_company_id AND c.owner_id = auth.uid())
+  ) THEN
+    SELECT
+      CASE WHEN o.currency = v_from THEN o.rate ELSE 1 / o.rate END AS rate,
+      o.effective_from
+    INTO v_override
+    FROM public.exchange_rate_overrides o
+    WHERE o.company_id = p_company_id
+      AND o.effective_from <= p_on
+      AND ((o.currency = v_from AND o.base_currency = v_to)
+        OR (o.currency = v_to AND o.base_currency = v_from))
+    ORDER BY o.effective_from DESC, o.updated_at DESC
+    LIMIT 1;
+
+    IF FOUND THEN
+      RETURN QUERY SELECT ROUND(v_override.rate, 8), 'override'::TEXT, v_override.effective_from;
+      RETURN;
+    END IF;
+  END IF;
+
+  IF v_from = 'EUR' THEN
+    v_from_rate := 1;
+    v_from_date := p_on;
+  ELSE
+    SELECT r.rate, r.rate_date INTO v_from_rate, v_from_date
+    FROM public.exchange_rates r
+    WHERE r.base_currency = 'EUR' AND r.currency = v_from
+    ORDER BY (r.rate_date <= p_on) DESC, ABS(r.rate_date - p_on)
+    LIMIT 1;
+  END IF;
+
+  IF v_to = 'EUR' THEN
+    v_to_rate := 1;
+    v_to_date := p_on;
+  ELSE
+    SELECT r.rate, r.rate_date INTO v_to_rate, v_to_date
+    FROM public.exchange_rates r
+    WHERE r.base_currency = 'EUR' AND r.currency = v_to
+    ORDER BY (r.rate_date <= p_on) DESC, ABS(r.rate_date - p_on)
+    LIMIT 1;
+  END IF;
+
+  IF v_from_rate IS NULL OR v_to_rate IS NULL THEN
+    RETURN;
+  END IF;
+
+  RETURN QUERY SELECT ROUND(v_to_rate / v_from_rate, 8), 'ecb'::TEXT, LEAST(v_from_date, v_to_date);
+END;
+$$;
+
+-- Step 2: Rewrites snapshots across all companies, so clients can't call it
+REVOKE ALL ON FUNCTION public.refresh_missing_invoice_exchange_rates() FROM PUBLIC, anon, authenticated;
+
+COMMENT ON FUNCTION public.get_exchange_rate(text, text, date, uuid) IS
+'SECURITY DEFINER: Required to read reference rates and company overrides inside invoice triggers. Overrides are only applied for members of p_company_id.';
+
+COMMENT ON FUNCTION public.refresh_missing_invoice_exchange_rates() IS
+'SECURITY DEFINER: Re-snapshots invoices of every company after a rate sync. Only callable by the service role.';
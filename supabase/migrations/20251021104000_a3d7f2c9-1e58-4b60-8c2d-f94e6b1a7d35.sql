@@ -0,0 +1,24 @@
+-- ============================================
+-- Credential key ids that match every stored secret
+-- Saving only an API key used to stamp the active key id on the row even when
+-- its webhook signing secret was still on an older key or in legacy base64,
+-- which kept that secret out of rotation. Rows like that are reset to the key
+-- id of the stale secret (NULL for legacy base64) so the next rotation
+-- re-wraps it.
+-- ============================================
+
+UPDATE public.payment_provider_settings pps
+SET credentials_key_id = stale.key_id
+FROM (
+  SELECT
+    id,
+    CASE WHEN secret LIKE 'enc:v1:%' THEN split_part(substr(secret, length('enc:v1:') + 1), ':', 1) END AS key_id
+  FROM (
+    SELECT id, credentials_key_id, unnest(ARRAY[encrypted_credentials, webhook_signing_secret]) AS secret
+    FROM public.payment_provider_settings
+  ) secrets
+  WHERE secret IS NOT NULL
+    AND (secret NOT LIKE 'enc:v1:%'
+      OR split_part(substr(secret, length('enc:v1:') + 1), ':', 1) IS DISTINCT FROM credentials_key_id)
+) stale
+WHERE pps.id = stale.id;
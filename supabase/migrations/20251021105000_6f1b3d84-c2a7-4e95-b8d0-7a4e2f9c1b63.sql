@@ -0,0 +1,8 @@
+-- ============================================
+-- Stripe payment link ids on invoices
+-- The link behind payment_url is recorded so it can be deactivated when a
+-- promo code changes the balance and a new link is issued
+-- ============================================
+
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS stripe_payment_link_id TEXT;
@@ -0,0 +1,121 @@
+-- ============================================
+-- Invoice discounts survive recalculation
+-- Discounts were applied by rewriting construyo_invoices.amount, so the next
+-- line item edit recalculated amount without them and the PDF showed the
+-- undiscounted total. The discount is now kept in discount_total, summed from
+-- the invoice's discount applications, and subtracted by recalculate_invoice_totals.
+-- ============================================
+
+-- Step 1: Discount total
+ALTER TABLE public.construyo_invoices
+ADD COLUMN IF NOT EXISTS discount_total DECIMAL(12,2) NOT NULL DEFAULT 0;
+
+COMMENT ON COLUMN public.construyo_invoices.discount_total IS 'Sum of discount applications on the invoice, taken off the amount payable';
+COMMENT ON COLUMN public.construyo_invoices.amount IS 'Amount payable: total_amount less cis_deduction and discount_total for itemised invoices';
+
+UPDATE public.construyo_invoices ci
+SET discount_total = applied.discount_total
+FROM (
+  SELECT invoice_id, SUM(discount_amount) AS discount_total
+  FROM public.discount_applications
+  WHERE invoice_id IS NOT NULL
+  GROUP BY invoice_id
+) applied
+WHERE ci.id = applied.invoice_id;
+
+-- Step 2: Totals include the discount
+CREATE OR REPLACE FUNCTION public.recalculate_invoice_totals(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  totals RECORD;
+BEGIN
+  SELECT
+    COUNT(*) AS line_count,
+    COALESCE(SUM(li.net_amount), 0) AS subtotal,
+    COALESCE(SUM(li.vat_amount), 0) AS vat_total,
+    COALESCE(SUM(li.net_amount) FILTER (WHERE li.cis_applicable), 0) AS cis_base
+  INTO totals
+  FROM public.construyo_invoice_line_items li
+  WHERE li.invoice_id = p_invoice_id;
+
+  -- Invoices without line items keep their manually entered amount
+  IF totals.line_count = 0 THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.construyo_invoices ci
+  SET subtotal = totals.subtotal,
+      vat_total = totals.vat_total,
+      total_amount = totals.subtotal + totals.vat_total,
+      cis_deduction = ROUND(totals.cis_base * ci.cis_rate / 100, 2),
+      amount = GREATEST(
+        totals.subtotal + totals.vat_total - ROUND(totals.cis_base * ci.cis_rate / 100, 2) - ci.discount_total,
+        0
+      )
+  WHERE ci.id = p_invoice_id;
+END;
+$$;
+
+-- Step 3: Keep discount_total in sync with discount applications. Invoices
+-- without line items had their amount reduced when the discount was applied,
+-- so only itemised invoices are recalculated.
+CREATE OR REPLACE FUNCTION public.sync_invoice_discount_total(p_invoice_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.construyo_invoices
+  SET discount_total = (
+    SELECT COALESCE(SUM(discount_amount), 0)
+    FROM public.discount_applications
+    WHERE invoice_id = p_invoice_id
+  )
+  WHERE id = p_invoice_id;
+
+  PERFORM public.recalculate_invoice_totals(p_invoice_id);
+END;
+$$;
+
+REVOKE ALL ON FUNCTION public.sync_invoice_discount_total(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.handle_discount_application_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') AND OLD.invoice_id IS NOT NULL THEN
+    PERFORM public.sync_invoice_discount_total(OLD.invoice_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NEW.invoice_id IS NOT NULL
+     AND (TG_OP = 'INSERT' OR NEW.invoice_id IS DISTINCT FROM OLD.invoice_id) THEN
+    PERFORM public.sync_invoice_discount_total(NEW.invoice_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_invoice_discount_total_on_application_change
+  AFTER INSERT OR UPDATE OF invoice_id, discount_amount OR DELETE ON public.discount_applications
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_discount_application_change();
+
+-- Step 4: Bring itemised invoices in line with their discounts
+SELECT public.recalculate_invoice_totals(ci.id)
+FROM public.construyo_invoices ci
+WHERE ci.discount_total > 0
+  AND EXISTS (SELECT 1 FROM public.construyo_invoice_line_items li WHERE li.invoice_id = ci.id);
+
+COMMENT ON FUNCTION public.recalculate_invoice_totals(uuid) IS
+'SECURITY DEFINER: Called from line item and discount application triggers to keep construyo_invoices totals consistent with their line items and discounts.';
+COMMENT ON FUNCTION public.sync_invoice_discount_total(uuid) IS
+'SECURITY DEFINER: Called from the discount application trigger to total an invoice''s discounts.';
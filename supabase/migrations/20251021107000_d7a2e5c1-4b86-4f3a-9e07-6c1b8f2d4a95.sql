@@ -0,0 +1,254 @@
+-- ============================================
+-- Financial report aggregates
+-- The reports page downloaded every invoice, lead, discount and stage and
+-- added them up in the browser, which silently stopped at the API row limit.
+-- These functions total in SQL for the caller's own records. They run as the
+-- caller, so row level security still applies.
+-- Grouped reports include a rollup row (is_total) sorted first, so the totals
+-- are right even when the API truncates the grouped rows.
+-- ============================================
+
+-- Step 1: Invoice amounts in the reporting currency, from the invoice's
+-- exchange-rate snapshot. NULL when the invoice has no snapshot in that currency.
+CREATE OR REPLACE FUNCTION public.report_base_amount(
+  p_amount NUMERIC,
+  p_currency TEXT,
+  p_snapshot_currency TEXT,
+  p_exchange_rate NUMERIC,
+  p_report_currency TEXT
+)
+RETURNS NUMERIC
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN upper(COALESCE(p_currency, 'GBP')) = upper(p_report_currency) THEN p_amount
+    WHEN p_exchange_rate IS NULL OR upper(COALESCE(p_snapshot_currency, '')) <> upper(p_report_currency) THEN NULL
+    ELSE ROUND(p_amount * p_exchange_rate, 2)
+  END;
+$$;
+
+-- Step 2: Unpaid balances per customer, aged by days past due as at p_as_of.
+-- Draft, void and cancelled invoices never turn into cash; settled invoices
+-- owe nothing whatever their balance says.
+CREATE OR REPLACE FUNCTION public.get_aged_receivables(p_base_currency TEXT, p_as_of DATE)
+RETURNS TABLE(
+  customer_name TEXT,
+  is_total BOOLEAN,
+  invoices INTEGER,
+  current NUMERIC,
+  days_0_30 NUMERIC,
+  days_31_60 NUMERIC,
+  days_61_90 NUMERIC,
+  days_90_plus NUMERIC,
+  total NUMERIC,
+  unconverted INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH owed AS (
+    SELECT
+      ci.customer_name,
+      public.report_base_amount(
+        GREATEST(COALESCE(ci.balance_due, ci.amount), 0), ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency
+      ) AS balance,
+      COALESCE(p_as_of - ci.due_date, 0) AS overdue_days
+    FROM public.construyo_invoices ci
+    WHERE ci.user_id = auth.uid()
+      AND COALESCE(ci.status, 'draft') NOT IN ('draft', 'paid', 'void', 'cancelled', 'refunded', 'credited')
+      AND GREATEST(COALESCE(ci.balance_due, ci.amount), 0) > 0
+      AND (COALESCE(ci.sent_date, ci.created_at) AT TIME ZONE 'UTC')::date <= p_as_of
+  )
+  SELECT
+    owed.customer_name,
+    GROUPING(owed.customer_name) = 1,
+    COUNT(balance)::INTEGER,
+    COALESCE(SUM(balance) FILTER (WHERE overdue_days <= 0), 0),
+    COALESCE(SUM(balance) FILTER (WHERE overdue_days BETWEEN 1 AND 30), 0),
+    COALESCE(SUM(balance) FILTER (WHERE overdue_days BETWEEN 31 AND 60), 0),
+    COALESCE(SUM(balance) FILTER (WHERE overdue_days BETWEEN 61 AND 90), 0),
+    COALESCE(SUM(balance) FILTER (WHERE overdue_days > 90), 0),
+    COALESCE(SUM(balance), 0),
+    (COUNT(*) - COUNT(balance))::INTEGER
+  FROM owed
+  GROUP BY ROLLUP (owed.customer_name)
+  HAVING GROUPING(owed.customer_name) = 1 OR COUNT(balance) > 0
+  ORDER BY GROUPING(owed.customer_name) DESC, 9 DESC;
+$$;
+
+-- Step 3: Invoiced, collected and outstanding for invoices issued in the range,
+-- by the originating lead's project type or lead source
+CREATE OR REPLACE FUNCTION public.get_revenue_breakdown(
+  p_base_currency TEXT,
+  p_group_by TEXT,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  key TEXT,
+  is_total BOOLEAN,
+  invoices INTEGER,
+  invoiced NUMERIC,
+  collected NUMERIC,
+  outstanding NUMERIC,
+  unconverted INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH issued AS (
+    SELECT
+      COALESCE(
+        NULLIF(trim(CASE WHEN p_group_by = 'lead_source' THEN l.lead_source ELSE l.project_type END), ''),
+        'Unknown'
+      ) AS key,
+      public.report_base_amount(ci.amount, ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency) AS invoiced,
+      public.report_base_amount(
+        COALESCE(ci.amount_paid, 0) - COALESCE(ci.amount_refunded, 0),
+        ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency
+      ) AS collected,
+      public.report_base_amount(
+        CASE WHEN ci.status IN ('paid', 'refunded', 'credited') THEN 0
+          ELSE GREATEST(COALESCE(ci.balance_due, ci.amount), 0) END,
+        ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency
+      ) AS outstanding
+    FROM public.construyo_invoices ci
+    LEFT JOIN public.leads l ON l.id = ci.lead_id
+    WHERE ci.user_id = auth.uid()
+      AND COALESCE(ci.status, 'draft') NOT IN ('draft', 'cancelled', 'void')
+      AND (p_from IS NULL OR (COALESCE(ci.sent_date, ci.created_at) AT TIME ZONE 'UTC')::date >= p_from)
+      AND (p_to IS NULL OR (COALESCE(ci.sent_date, ci.created_at) AT TIME ZONE 'UTC')::date <= p_to)
+  )
+  SELECT
+    issued.key,
+    GROUPING(issued.key) = 1,
+    COUNT(invoiced)::INTEGER,
+    COALESCE(SUM(invoiced), 0),
+    COALESCE(SUM(collected) FILTER (WHERE invoiced IS NOT NULL), 0),
+    COALESCE(SUM(outstanding) FILTER (WHERE invoiced IS NOT NULL), 0),
+    (COUNT(*) - COUNT(invoiced))::INTEGER
+  FROM issued
+  GROUP BY ROLLUP (issued.key)
+  HAVING GROUPING(issued.key) = 1 OR COUNT(invoiced) > 0
+  ORDER BY GROUPING(issued.key) DESC, 4 DESC;
+$$;
+
+-- Step 4: Discounts given on invoices in the range, by rule. Quote request
+-- redemptions without an invoice have no cost yet.
+CREATE OR REPLACE FUNCTION public.get_discount_cost(
+  p_base_currency TEXT,
+  p_from DATE DEFAULT NULL,
+  p_to DATE DEFAULT NULL
+)
+RETURNS TABLE(
+  rule_name TEXT,
+  is_total BOOLEAN,
+  applications INTEGER,
+  codes INTEGER,
+  total NUMERIC,
+  unconverted INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH given AS (
+    SELECT
+      COALESCE(dr.rule_name, 'Deleted rule') AS rule_name,
+      da.discount_code_id,
+      public.report_base_amount(da.discount_amount, ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency) AS amount
+    FROM public.discount_applications da
+    LEFT JOIN public.construyo_invoices ci ON ci.id = da.invoice_id
+    LEFT JOIN public.discount_rules dr ON dr.id = da.discount_rule_id
+    WHERE da.user_id = auth.uid()
+      AND da.invoice_id IS NOT NULL
+      AND (p_from IS NULL OR (da.created_at AT TIME ZONE 'UTC')::date >= p_from)
+      AND (p_to IS NULL OR (da.created_at AT TIME ZONE 'UTC')::date <= p_to)
+  )
+  SELECT
+    given.rule_name,
+    GROUPING(given.rule_name) = 1,
+    COUNT(amount)::INTEGER,
+    COUNT(amount) FILTER (WHERE discount_code_id IS NOT NULL)::INTEGER,
+    COALESCE(SUM(amount), 0),
+    (COUNT(*) - COUNT(amount))::INTEGER
+  FROM given
+  GROUP BY ROLLUP (given.rule_name)
+  HAVING GROUPING(given.rule_name) = 1 OR COUNT(amount) > 0
+  ORDER BY GROUPING(given.rule_name) DESC, 5 DESC;
+$$;
+
+-- Step 5: Expected cash per week from p_as_of: unpaid invoice balances by due
+-- date, plus pending stages of active payment schedules (less retention, plus
+-- VAT). Week -1 is money already overdue. undated and unconverted count items
+-- across the whole forecast and are repeated on every row.
+CREATE OR REPLACE FUNCTION public.get_cash_forecast(p_base_currency TEXT, p_as_of DATE, p_weeks INTEGER)
+RETURNS TABLE(
+  week INTEGER,
+  invoices INTEGER,
+  invoiced NUMERIC,
+  scheduled NUMERIC,
+  undated INTEGER,
+  unconverted INTEGER
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH expected AS (
+    SELECT
+      ci.due_date,
+      public.report_base_amount(
+        GREATEST(COALESCE(ci.balance_due, ci.amount), 0), ci.currency, ci.base_currency, ci.exchange_rate, p_base_currency
+      ) AS invoiced,
+      NULL::NUMERIC AS scheduled,
+      true AS is_invoice
+    FROM public.construyo_invoices ci
+    WHERE ci.user_id = auth.uid()
+      AND COALESCE(ci.status, 'draft') NOT IN ('draft', 'paid', 'void', 'cancelled', 'refunded', 'credited')
+      AND GREATEST(COALESCE(ci.balance_due, ci.amount), 0) > 0
+    UNION ALL
+    SELECT
+      s.due_date,
+      NULL,
+      CASE WHEN upper(ps.currency) = upper(p_base_currency)
+        THEN (s.stage_value - s.retention_amount) * (1 + ps.vat_rate / 100) END,
+      false
+    FROM public.payment_schedule_stages s
+    JOIN public.payment_schedules ps ON ps.id = s.schedule_id
+    WHERE s.user_id = auth.uid()
+      AND s.status = 'pending'
+      AND ps.status = 'active'
+  ),
+  placed AS (
+    SELECT
+      CASE WHEN due_date < p_as_of THEN -1 ELSE (due_date - p_as_of) / 7 END AS week,
+      invoiced,
+      scheduled,
+      is_invoice
+    FROM expected
+    WHERE due_date IS NOT NULL AND (invoiced IS NOT NULL OR scheduled IS NOT NULL)
+  ),
+  counts AS (
+    SELECT
+      COUNT(*) FILTER (WHERE due_date IS NULL)::INTEGER AS undated,
+      COUNT(*) FILTER (WHERE due_date IS NOT NULL AND invoiced IS NULL AND scheduled IS NULL)::INTEGER AS unconverted
+    FROM expected
+  )
+  SELECT
+    weeks.week,
+    (COUNT(placed.invoiced) FILTER (WHERE placed.is_invoice))::INTEGER,
+    ROUND(COALESCE(SUM(placed.invoiced), 0), 2),
+    ROUND(COALESCE(SUM(placed.scheduled), 0), 2),
+    counts.undated,
+    counts.unconverted
+  FROM generate_series(-1, GREATEST(p_weeks, 0) - 1) AS weeks(week)
+  CROSS JOIN counts
+  LEFT JOIN placed ON placed.week = weeks.week
+  GROUP BY weeks.week, counts.undated, counts.unconverted
+  ORDER BY weeks.week;
+$$;
@@ -0,0 +1,124 @@
+-- ============================================
+-- Integration analytics totals
+-- get_integration_analytics returned every log row in the range and the
+-- dashboard added them up, so busy accounts were cut off at the API row
+-- limit. It now returns the totals: one overall row, then rows per service,
+-- per service action, per hour over the last 7 days of the range, and the ten most common errors and error
+-- patterns. It also only returns the caller's own logs.
+-- ============================================
+
+-- Step 1: Error messages that only differ by ids, numbers or quoted values
+-- share a pattern. HTTP 4xx/5xx codes are kept.
+CREATE OR REPLACE FUNCTION public.normalize_integration_error(p_message TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT left(trim(regexp_replace(regexp_replace(regexp_replace(regexp_replace(
+    p_message,
+    '[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}', '<id>', 'gi'),
+    '(["''`]).*?\1', '<value>', 'g'),
+    '\y(?![45][0-9]{2}\y)[0-9]+(\.[0-9]+)?\y', '<n>', 'g'),
+    '\s+', ' ', 'g')), 200);
+$$;
+
+-- Step 2: The return type changes, so the old function has to go first
+DROP FUNCTION IF EXISTS public.get_integration_analytics(uuid, text, text, text);
+
+-- 'started' and 'retry' rows describe the same request as its final row, so
+-- only outcomes are counted. Durations of 0 are unmeasured and left out of
+-- the response times. Percentiles are nearest-rank.
+CREATE OR REPLACE FUNCTION public.get_integration_analytics(
+  user_uuid UUID,
+  service_filter TEXT DEFAULT NULL,
+  start_date TEXT DEFAULT NULL,
+  end_date TEXT DEFAULT NULL
+)
+RETURNS TABLE(
+  breakdown TEXT,
+  service_name TEXT,
+  action TEXT,
+  error TEXT,
+  hour TIMESTAMP WITH TIME ZONE,
+  total INTEGER,
+  errors INTEGER,
+  avg_duration_ms NUMERIC,
+  p50_duration_ms INTEGER,
+  p95_duration_ms INTEGER,
+  services TEXT[],
+  sample_error TEXT,
+  last_seen TIMESTAMP WITH TIME ZONE
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH logs AS (
+    SELECT ial.service_name, ial.action, ial.status, ial.error_message, ial.created_at,
+      NULLIF(ial.duration_ms, 0) AS duration_ms
+    FROM public.integration_activity_logs ial
+    WHERE ial.user_id = COALESCE(auth.uid(), CASE WHEN auth.role() = 'service_role' THEN user_uuid END)
+      AND ial.status IN ('success', 'error')
+      AND (service_filter IS NULL OR ial.service_name = service_filter)
+      AND (start_date IS NULL OR ial.created_at >= start_date::timestamptz)
+      AND (end_date IS NULL OR ial.created_at <= end_date::timestamptz)
+  )
+  SELECT 'overall', NULL, NULL, NULL, NULL::timestamptz,
+    COUNT(*)::INTEGER, (COUNT(*) FILTER (WHERE status = 'error'))::INTEGER,
+    ROUND(AVG(duration_ms), 2),
+    percentile_disc(0.5) WITHIN GROUP (ORDER BY duration_ms),
+    percentile_disc(0.95) WITHIN GROUP (ORDER BY duration_ms),
+    NULL::TEXT[], NULL, NULL::timestamptz
+  FROM logs
+  UNION ALL
+  SELECT 'service', logs.service_name, NULL, NULL, NULL,
+    COUNT(*)::INTEGER, (COUNT(*) FILTER (WHERE status = 'error'))::INTEGER,
+    NULL, NULL, NULL, NULL, NULL, NULL
+  FROM logs
+  GROUP BY logs.service_name
+  UNION ALL
+  SELECT 'action', logs.service_name, logs.action, NULL, NULL,
+    COUNT(*)::INTEGER, (COUNT(*) FILTER (WHERE status = 'error'))::INTEGER,
+    NULL, NULL, percentile_disc(0.95) WITHIN GROUP (ORDER BY duration_ms),
+    NULL, NULL, NULL
+  FROM logs
+  GROUP BY logs.service_name, logs.action
+  UNION ALL
+  SELECT 'hour', NULL, NULL, NULL, date_trunc('hour', logs.created_at),
+    COUNT(*)::INTEGER, (COUNT(*) FILTER (WHERE status = 'error'))::INTEGER,
+    NULL, NULL, NULL, NULL, NULL, NULL
+  FROM logs
+  -- The chart covers at most the last 7 days of the range
+  WHERE logs.created_at > COALESCE(end_date::timestamptz, now()) - interval '7 days'
+  GROUP BY date_trunc('hour', logs.created_at)
+  UNION ALL
+  (
+    SELECT 'error', NULL, NULL, logs.error_message, NULL,
+      COUNT(*)::INTEGER, COUNT(*)::INTEGER,
+      NULL, NULL, NULL, NULL, NULL, MAX(logs.created_at)
+    FROM logs
+    WHERE logs.error_message IS NOT NULL AND logs.error_message <> ''
+    GROUP BY logs.error_message
+    ORDER BY COUNT(*) DESC
+    LIMIT 10
+  )
+  UNION ALL
+  (
+    SELECT 'error_pattern', NULL, NULL, public.normalize_integration_error(logs.error_message), NULL,
+      COUNT(*)::INTEGER, COUNT(*)::INTEGER,
+      NULL, NULL, NULL,
+      array_agg(DISTINCT logs.service_name ORDER BY logs.service_name),
+      (array_agg(logs.error_message ORDER BY logs.created_at DESC))[1],
+      MAX(logs.created_at)
+    FROM logs
+    WHERE logs.error_message IS NOT NULL AND logs.error_message <> ''
+    GROUP BY public.normalize_integration_error(logs.error_message)
+    ORDER BY COUNT(*) DESC
+    LIMIT 10
+  );
+$$;
+
+COMMENT ON FUNCTION public.get_integration_analytics(uuid, text, text, text) IS
+'SECURITY DEFINER: Totals integration_activity_logs for the caller (or user_uuid when called by the service role).';